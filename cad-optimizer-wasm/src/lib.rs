@@ -3,6 +3,8 @@ use js_sys::{Float32Array, Uint32Array}; // Rimossi Array e Object non utilizzat
 use serde::{Serialize, Deserialize};
 use glam::{Vec3, Mat4};
 
+mod tetmesh;
+
 // Strutture dati per la comunicazione con JS
 #[derive(Serialize, Deserialize, Clone)] // Aggiunto Clone per risolvere l'errore
 pub struct MeshData {
@@ -216,6 +218,30 @@ impl CADOptimizer {
         Ok(normals_array)
     }
     
+    // Genera una mesh di volume tetraedrica da una superficie chiusa
+    #[wasm_bindgen]
+    pub fn tetrahedralize_mesh(&self, vertices_js: Float32Array, indices_js: Uint32Array, options_js: JsValue) -> Result<JsValue, JsValue> {
+        let vertices = convert_float32_array_to_vec(vertices_js);
+        let indices = convert_uint32_array_to_vec(indices_js);
+
+        // Le opzioni sono facoltative: senza opzioni si usano i valori predefiniti
+        let options: tetmesh::TetMeshOptions = if options_js.is_undefined() || options_js.is_null() {
+            tetmesh::TetMeshOptions::default()
+        } else {
+            match serde_wasm_bindgen::from_value(options_js) {
+                Ok(o) => o,
+                Err(e) => return Err(JsValue::from_str(&format!("Failed to parse meshing options: {}", e))),
+            }
+        };
+
+        let mesh = tetmesh::tetrahedralize(&vertices, &indices, &options).map_err(|e| JsValue::from_str(&e))?;
+
+        match serde_wasm_bindgen::to_value(&mesh) {
+            Ok(val) => Ok(val),
+            Err(e) => Err(JsValue::from_str(&format!("Failed to serialize volume mesh: {}", e))),
+        }
+    }
+
     // Verifica frustum culling (se un oggetto è visibile dalla camera)
     #[wasm_bindgen]
     pub fn is_in_frustum(&self, 
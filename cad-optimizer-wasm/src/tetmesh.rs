@@ -0,0 +1,1622 @@
+// Generazione di mesh tetraedriche di volume a partire da superfici chiuse.
+//
+// Pipeline: saldatura e verifica della superficie, campo di dimensione degli
+// elementi (curvatura e spessore locale), raffinamento degli spigoli di
+// superficie, punti interni su octree, tetraedrizzazione di Delaunay
+// (Bowyer-Watson), rimozione dei tetraedri esterni, smoothing dei nodi interni
+// e calcolo delle metriche di qualità.
+
+use serde::{Deserialize, Serialize};
+use std::collections::HashMap;
+
+type V3 = [f64; 3];
+
+const NONE: usize = usize::MAX;
+
+// Angolo diedro oltre il quale uno spigolo è considerato vivo e non una curvatura
+const SHARP_EDGE_ANGLE: f64 = 50.0 * std::f64::consts::PI / 180.0;
+// Distanza minima dei punti interni dalla superficie, in frazioni della dimensione locale
+const SURFACE_CLEARANCE: f64 = 0.4;
+const MAX_OCTREE_DEPTH: u32 = 14;
+const MAX_SPLIT_PASSES: usize = 24;
+// Facce adiacenti entro mezzo grado sono trattate come complanari
+const COPLANAR_COSINE: f64 = 0.999_96;
+
+// Soglie per il conteggio degli elementi di bassa qualità
+const POOR_ASPECT_RATIO: f64 = 10.0;
+const POOR_SCALED_JACOBIAN: f64 = 0.1;
+// Elementi candidati ai flip e soglia dei tetraedri piatti sulla superficie
+const FLIP_JACOBIAN: f64 = 0.3;
+const SLIVER_JACOBIAN: f64 = 0.05;
+
+#[derive(Serialize, Deserialize, Clone)]
+#[serde(rename_all = "camelCase", default)]
+pub struct TetMeshOptions {
+    // Dimensione obiettivo degli elementi (0 = automatica, 1/20 della diagonale)
+    pub target_size: f64,
+    // Dimensione minima ammessa nel raffinamento locale (0 = target / 10)
+    pub min_size: f64,
+    // Angolo sotteso da un elemento su fori e raccordi (radianti)
+    pub curvature_angle: f64,
+    // Rapporto massimo di crescita della dimensione tra elementi vicini
+    pub growth_rate: f64,
+    pub smoothing_passes: u32,
+    pub max_nodes: u32,
+}
+
+impl Default for TetMeshOptions {
+    fn default() -> Self {
+        TetMeshOptions {
+            target_size: 0.0,
+            min_size: 0.0,
+            curvature_angle: std::f64::consts::PI / 6.0,
+            growth_rate: 1.3,
+            smoothing_passes: 3,
+            max_nodes: 200_000,
+        }
+    }
+}
+
+#[derive(Serialize, Clone)]
+#[serde(rename_all = "camelCase")]
+pub struct MeshQuality {
+    pub node_count: u32,
+    pub element_count: u32,
+    // Rapporto di forma R / (3 r): 1 per il tetraedro regolare, cresce per elementi schiacciati
+    pub max_aspect_ratio: f64,
+    pub mean_aspect_ratio: f64,
+    // Jacobiano scalato: 1 per il tetraedro regolare, <= 0 per elementi invertiti
+    pub min_scaled_jacobian: f64,
+    pub mean_scaled_jacobian: f64,
+    pub poor_elements: u32,
+    pub inverted_elements: u32,
+    pub volume: f64,
+    // Scarto relativo tra il volume della mesh e quello racchiuso dalla superficie
+    pub volume_error: f64,
+    // Frazione dell'area di bordo della mesh di volume che giace sulla superficie originale
+    pub boundary_conformity: f64,
+    // Punti che non è stato possibile inserire nella triangolazione
+    pub skipped_points: u32,
+}
+
+#[derive(Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct TetMesh {
+    pub vertices: Vec<f32>,
+    // Quattro indici per tetraedro, orientati con volume positivo
+    pub tetrahedra: Vec<u32>,
+    // Triangoli di bordo della mesh di volume, con normale uscente
+    pub surface: Vec<u32>,
+    pub aspect_ratios: Vec<f32>,
+    pub scaled_jacobians: Vec<f32>,
+    pub quality: MeshQuality,
+}
+
+// Facce del tetraedro con normale uscente, indicizzate dal vertice opposto
+const TET_FACES: [[usize; 3]; 4] = [[1, 2, 3], [0, 3, 2], [0, 1, 3], [0, 2, 1]];
+
+fn sub(a: V3, b: V3) -> V3 {
+    [a[0] - b[0], a[1] - b[1], a[2] - b[2]]
+}
+
+fn add(a: V3, b: V3) -> V3 {
+    [a[0] + b[0], a[1] + b[1], a[2] + b[2]]
+}
+
+fn scale(a: V3, s: f64) -> V3 {
+    [a[0] * s, a[1] * s, a[2] * s]
+}
+
+fn dot(a: V3, b: V3) -> f64 {
+    a[0] * b[0] + a[1] * b[1] + a[2] * b[2]
+}
+
+fn cross(a: V3, b: V3) -> V3 {
+    [
+        a[1] * b[2] - a[2] * b[1],
+        a[2] * b[0] - a[0] * b[2],
+        a[0] * b[1] - a[1] * b[0],
+    ]
+}
+
+fn length(a: V3) -> f64 {
+    dot(a, a).sqrt()
+}
+
+fn distance(a: V3, b: V3) -> f64 {
+    length(sub(a, b))
+}
+
+fn orient(a: V3, b: V3, c: V3, d: V3) -> f64 {
+    dot(sub(b, a), cross(sub(c, a), sub(d, a)))
+}
+
+fn circumsphere(a: V3, b: V3, c: V3, d: V3) -> (V3, f64) {
+    let ba = sub(b, a);
+    let ca = sub(c, a);
+    let da = sub(d, a);
+    let denominator = 2.0 * dot(ba, cross(ca, da));
+    let numerator = add(
+        add(scale(cross(ca, da), dot(ba, ba)), scale(cross(da, ba), dot(ca, ca))),
+        scale(cross(ba, ca), dot(da, da)),
+    );
+    let offset = scale(numerator, 1.0 / denominator);
+    let radius_sq = dot(offset, offset);
+    if radius_sq.is_finite() {
+        (add(a, offset), radius_sq)
+    } else {
+        // Tetraedro piatto: la sfera degenere contiene qualunque punto
+        (a, f64::INFINITY)
+    }
+}
+
+// Positivo se `e` è dentro la sfera circoscritta al tetraedro positivo abcd.
+// Determinante calcolato rispetto a `e` per limitare la cancellazione numerica.
+fn insphere(a: V3, b: V3, c: V3, d: V3, e: V3) -> f64 {
+    let ae = sub(a, e);
+    let be = sub(b, e);
+    let ce = sub(c, e);
+    let de = sub(d, e);
+
+    let ab = ae[0] * be[1] - be[0] * ae[1];
+    let bc = be[0] * ce[1] - ce[0] * be[1];
+    let cd = ce[0] * de[1] - de[0] * ce[1];
+    let da = de[0] * ae[1] - ae[0] * de[1];
+    let ac = ae[0] * ce[1] - ce[0] * ae[1];
+    let bd = be[0] * de[1] - de[0] * be[1];
+
+    let abc = ae[2] * bc - be[2] * ac + ce[2] * ab;
+    let bcd = be[2] * cd - ce[2] * bd + de[2] * bc;
+    let cda = ce[2] * da + de[2] * ac + ae[2] * cd;
+    let dab = de[2] * ab + ae[2] * bd + be[2] * da;
+
+    -((dot(de, de) * abc - dot(ce, ce) * dab) + (dot(be, be) * cda - dot(ae, ae) * bcd))
+}
+
+// Rapporto di forma e Jacobiano scalato di un tetraedro
+fn tet_quality(p: [V3; 4]) -> (f64, f64) {
+    let volume6 = orient(p[0], p[1], p[2], p[3]);
+
+    let mut max_corner = 0.0f64;
+    for i in 0..4 {
+        let mut product = 1.0;
+        for j in 0..4 {
+            if j != i {
+                product *= distance(p[i], p[j]);
+            }
+        }
+        max_corner = max_corner.max(product);
+    }
+    let scaled_jacobian = if max_corner > 0.0 {
+        std::f64::consts::SQRT_2 * volume6 / max_corner
+    } else {
+        0.0
+    };
+
+    let mut area = 0.0;
+    for face in TET_FACES.iter() {
+        area += 0.5 * length(cross(sub(p[face[1]], p[face[0]]), sub(p[face[2]], p[face[0]])));
+    }
+    let inradius = if area > 0.0 { volume6.abs() / 2.0 / area } else { 0.0 };
+    let (_, radius_sq) = circumsphere(p[0], p[1], p[2], p[3]);
+    let aspect_ratio = if inradius > 0.0 && radius_sq.is_finite() {
+        (radius_sq.sqrt() / (3.0 * inradius)).min(1e6)
+    } else {
+        1e6
+    };
+
+    (aspect_ratio, scaled_jacobian)
+}
+
+fn closest_point_on_triangle(p: V3, a: V3, b: V3, c: V3) -> V3 {
+    let ab = sub(b, a);
+    let ac = sub(c, a);
+    let ap = sub(p, a);
+    let d1 = dot(ab, ap);
+    let d2 = dot(ac, ap);
+    if d1 <= 0.0 && d2 <= 0.0 {
+        return a;
+    }
+
+    let bp = sub(p, b);
+    let d3 = dot(ab, bp);
+    let d4 = dot(ac, bp);
+    if d3 >= 0.0 && d4 <= d3 {
+        return b;
+    }
+
+    let vc = d1 * d4 - d3 * d2;
+    if vc <= 0.0 && d1 >= 0.0 && d3 <= 0.0 {
+        return add(a, scale(ab, d1 / (d1 - d3)));
+    }
+
+    let cp = sub(p, c);
+    let d5 = dot(ab, cp);
+    let d6 = dot(ac, cp);
+    if d6 >= 0.0 && d5 <= d6 {
+        return c;
+    }
+
+    let vb = d5 * d2 - d1 * d6;
+    if vb <= 0.0 && d2 >= 0.0 && d6 <= 0.0 {
+        return add(a, scale(ac, d2 / (d2 - d6)));
+    }
+
+    let va = d3 * d6 - d5 * d4;
+    if va <= 0.0 && (d4 - d3) >= 0.0 && (d5 - d6) >= 0.0 {
+        let w = (d4 - d3) / ((d4 - d3) + (d5 - d6));
+        return add(b, scale(sub(c, b), w));
+    }
+
+    let denominator = 1.0 / (va + vb + vc);
+    add(a, add(scale(ab, vb * denominator), scale(ac, vc * denominator)))
+}
+
+// Intersezione raggio-triangolo (Möller-Trumbore), restituisce la distanza lungo il raggio
+fn ray_triangle(origin: V3, direction: V3, a: V3, b: V3, c: V3) -> Option<f64> {
+    let e1 = sub(b, a);
+    let e2 = sub(c, a);
+    let p = cross(direction, e2);
+    let determinant = dot(e1, p);
+    if determinant.abs() < 1e-300 {
+        return None;
+    }
+    let inverse = 1.0 / determinant;
+    let t_vec = sub(origin, a);
+    let u = dot(t_vec, p) * inverse;
+    if u < 0.0 || u > 1.0 {
+        return None;
+    }
+    let q = cross(t_vec, e1);
+    let v = dot(direction, q) * inverse;
+    if v < 0.0 || u + v > 1.0 {
+        return None;
+    }
+    Some(dot(e2, q) * inverse)
+}
+
+// Griglia uniforme dei triangoli di superficie per le interrogazioni spaziali
+struct SurfaceIndex {
+    points: Vec<V3>,
+    triangles: Vec<[usize; 3]>,
+    min: V3,
+    cell: f64,
+    dims: [usize; 3],
+    cells: Vec<Vec<usize>>,
+    stamps: Vec<u32>,
+    stamp: u32,
+}
+
+impl SurfaceIndex {
+    fn new(points: Vec<V3>, triangles: Vec<[usize; 3]>) -> Self {
+        let (min, max) = bounds(&points);
+        let extent = sub(max, min);
+        let diagonal = length(extent).max(1e-12);
+        let min = sub(min, [diagonal * 1e-6; 3]);
+        let volume = (extent[0] + diagonal * 2e-6) * (extent[1] + diagonal * 2e-6) * (extent[2] + diagonal * 2e-6);
+        let mut cell = (volume / triangles.len().max(1) as f64).cbrt() * 1.5;
+        cell = cell.max(diagonal / 128.0);
+
+        let mut dims = [1usize; 3];
+        for axis in 0..3 {
+            dims[axis] = (((extent[axis] + diagonal * 2e-6) / cell).ceil() as usize).max(1);
+        }
+
+        let mut index = SurfaceIndex {
+            stamps: vec![0; triangles.len()],
+            points,
+            triangles,
+            min,
+            cell,
+            dims,
+            cells: vec![Vec::new(); dims[0] * dims[1] * dims[2]],
+            stamp: 0,
+        };
+
+        for t in 0..index.triangles.len() {
+            let [a, b, c] = index.triangles[t];
+            let mut lo = index.points[a];
+            let mut hi = index.points[a];
+            for &v in &[b, c] {
+                for axis in 0..3 {
+                    lo[axis] = lo[axis].min(index.points[v][axis]);
+                    hi[axis] = hi[axis].max(index.points[v][axis]);
+                }
+            }
+            let lo = index.cell_of(lo);
+            let hi = index.cell_of(hi);
+            for i in lo[0]..=hi[0] {
+                for j in lo[1]..=hi[1] {
+                    for k in lo[2]..=hi[2] {
+                        let id = index.cell_id(i, j, k);
+                        index.cells[id].push(t);
+                    }
+                }
+            }
+        }
+
+        index
+    }
+
+    fn cell_of(&self, p: V3) -> [usize; 3] {
+        let mut cell = [0usize; 3];
+        for axis in 0..3 {
+            let c = ((p[axis] - self.min[axis]) / self.cell).floor();
+            cell[axis] = (c.max(0.0) as usize).min(self.dims[axis] - 1);
+        }
+        cell
+    }
+
+    fn cell_id(&self, i: usize, j: usize, k: usize) -> usize {
+        (i * self.dims[1] + j) * self.dims[2] + k
+    }
+
+    fn next_stamp(&mut self) -> u32 {
+        if self.stamp == u32::MAX {
+            self.stamps.iter_mut().for_each(|s| *s = 0);
+            self.stamp = 0;
+        }
+        self.stamp += 1;
+        self.stamp
+    }
+
+    fn triangle(&self, t: usize) -> (V3, V3, V3) {
+        let [a, b, c] = self.triangles[t];
+        (self.points[a], self.points[b], self.points[c])
+    }
+
+    // Percorre le celle attraversate da un raggio (Amanatides-Woo). Restituisce il
+    // numero di triangoli attraversati e la distanza del più vicino; con `nearest`
+    // si ferma appena l'intersezione più vicina è certa.
+    fn cast(&mut self, origin: V3, direction: V3, nearest: bool, skip_vertex: usize) -> (u32, f64) {
+        let max = [
+            self.min[0] + self.cell * self.dims[0] as f64,
+            self.min[1] + self.cell * self.dims[1] as f64,
+            self.min[2] + self.cell * self.dims[2] as f64,
+        ];
+
+        // Tratto del raggio dentro la griglia
+        let mut t_enter = 0.0f64;
+        let mut t_exit = f64::INFINITY;
+        for axis in 0..3 {
+            if direction[axis].abs() < 1e-300 {
+                if origin[axis] < self.min[axis] || origin[axis] > max[axis] {
+                    return (0, f64::INFINITY);
+                }
+            } else {
+                let t0 = (self.min[axis] - origin[axis]) / direction[axis];
+                let t1 = (max[axis] - origin[axis]) / direction[axis];
+                t_enter = t_enter.max(t0.min(t1));
+                t_exit = t_exit.min(t0.max(t1));
+            }
+        }
+        if t_enter > t_exit {
+            return (0, f64::INFINITY);
+        }
+
+        let start = add(origin, scale(direction, t_enter));
+        let mut cell = self.cell_of(start);
+        let mut step = [0isize; 3];
+        let mut t_max = [f64::INFINITY; 3];
+        let mut t_delta = [f64::INFINITY; 3];
+        for axis in 0..3 {
+            if direction[axis] > 0.0 {
+                step[axis] = 1;
+                let boundary = self.min[axis] + (cell[axis] + 1) as f64 * self.cell;
+                t_max[axis] = (boundary - origin[axis]) / direction[axis];
+                t_delta[axis] = self.cell / direction[axis];
+            } else if direction[axis] < 0.0 {
+                step[axis] = -1;
+                let boundary = self.min[axis] + cell[axis] as f64 * self.cell;
+                t_max[axis] = (boundary - origin[axis]) / direction[axis];
+                t_delta[axis] = -self.cell / direction[axis];
+            }
+        }
+
+        let stamp = self.next_stamp();
+        let mut count = 0u32;
+        let mut closest = f64::INFINITY;
+        loop {
+            let id = self.cell_id(cell[0], cell[1], cell[2]);
+            for n in 0..self.cells[id].len() {
+                let t = self.cells[id][n];
+                if self.stamps[t] == stamp {
+                    continue;
+                }
+                self.stamps[t] = stamp;
+                if skip_vertex != NONE && self.triangles[t].contains(&skip_vertex) {
+                    continue;
+                }
+                let (a, b, c) = self.triangle(t);
+                if let Some(hit) = ray_triangle(origin, direction, a, b, c) {
+                    if hit > 0.0 {
+                        count += 1;
+                        closest = closest.min(hit);
+                    }
+                }
+            }
+
+            let axis = if t_max[0] < t_max[1] {
+                if t_max[0] < t_max[2] { 0 } else { 2 }
+            } else if t_max[1] < t_max[2] {
+                1
+            } else {
+                2
+            };
+            if nearest && closest <= t_max[axis] {
+                break;
+            }
+            let next = cell[axis] as isize + step[axis];
+            if step[axis] == 0 || next < 0 || next >= self.dims[axis] as isize {
+                break;
+            }
+            cell[axis] = next as usize;
+            t_max[axis] += t_delta[axis];
+        }
+
+        (count, closest)
+    }
+
+    // Classificazione dentro/fuori a maggioranza su tre raggi obliqui
+    fn is_inside(&mut self, p: V3) -> bool {
+        const DIRECTIONS: [V3; 3] = [
+            [0.999_99, 0.003_162_3, 0.002_718_2],
+            [-0.002_236_1, 0.999_98, 0.005_773_5],
+            [0.004_142_1, -0.001_732_1, 0.999_99],
+        ];
+        let mut votes = 0;
+        for direction in DIRECTIONS.iter() {
+            let (count, _) = self.cast(p, *direction, false, NONE);
+            if count % 2 == 1 {
+                votes += 1;
+            }
+        }
+        votes >= 2
+    }
+
+    // Vero se la superficie passa a meno di `radius` dal punto
+    fn is_near(&mut self, p: V3, radius: f64) -> bool {
+        let lo = self.cell_of(sub(p, [radius; 3]));
+        let hi = self.cell_of(add(p, [radius; 3]));
+        let radius_sq = radius * radius;
+        let stamp = self.next_stamp();
+        for i in lo[0]..=hi[0] {
+            for j in lo[1]..=hi[1] {
+                for k in lo[2]..=hi[2] {
+                    let id = self.cell_id(i, j, k);
+                    for n in 0..self.cells[id].len() {
+                        let t = self.cells[id][n];
+                        if self.stamps[t] == stamp {
+                            continue;
+                        }
+                        self.stamps[t] = stamp;
+                        let (a, b, c) = self.triangle(t);
+                        let q = closest_point_on_triangle(p, a, b, c);
+                        let d = sub(p, q);
+                        if dot(d, d) <= radius_sq {
+                            return true;
+                        }
+                    }
+                }
+            }
+        }
+        false
+    }
+}
+
+fn bounds(points: &[V3]) -> (V3, V3) {
+    let mut min = [f64::INFINITY; 3];
+    let mut max = [f64::NEG_INFINITY; 3];
+    for p in points {
+        for axis in 0..3 {
+            min[axis] = min[axis].min(p[axis]);
+            max[axis] = max[axis].max(p[axis]);
+        }
+    }
+    (min, max)
+}
+
+// Campo di dimensione: le dimensioni locali imposte dalla superficie crescono
+// linearmente con la distanza fino alla dimensione obiettivo. Le sorgenti sono
+// raccolte in una griglia e visitate per gusci crescenti attorno al punto
+struct SizeField {
+    features: Vec<(V3, f64)>,
+    target: f64,
+    grading: f64,
+    smallest: f64,
+    min: V3,
+    cell: f64,
+    dims: [usize; 3],
+    cells: HashMap<(usize, usize, usize), Vec<usize>>,
+}
+
+impl SizeField {
+    fn new(features: Vec<(V3, f64)>, target: f64, grading: f64) -> Self {
+        let points: Vec<V3> = features.iter().map(|&(p, _)| p).collect();
+        let (min, max) = if points.is_empty() { ([0.0; 3], [0.0; 3]) } else { bounds(&points) };
+        let cell = target.max(1e-12);
+        let dims = [
+            ((max[0] - min[0]) / cell) as usize + 1,
+            ((max[1] - min[1]) / cell) as usize + 1,
+            ((max[2] - min[2]) / cell) as usize + 1,
+        ];
+        let mut cells: HashMap<(usize, usize, usize), Vec<usize>> = HashMap::new();
+        let mut smallest = target;
+        for (n, &(p, h)) in features.iter().enumerate() {
+            let key = (
+                (((p[0] - min[0]) / cell) as usize).min(dims[0] - 1),
+                (((p[1] - min[1]) / cell) as usize).min(dims[1] - 1),
+                (((p[2] - min[2]) / cell) as usize).min(dims[2] - 1),
+            );
+            cells.entry(key).or_insert_with(Vec::new).push(n);
+            smallest = smallest.min(h);
+        }
+        SizeField { features, target, grading, smallest, min, cell, dims, cells }
+    }
+
+    fn at(&self, p: V3) -> f64 {
+        let mut size = self.target;
+        if self.features.is_empty() {
+            return size;
+        }
+        let center: Vec<isize> = (0..3)
+            .map(|axis| (((p[axis] - self.min[axis]) / self.cell).floor() as isize).max(-1).min(self.dims[axis] as isize))
+            .collect();
+        let rings = *self.dims.iter().max().unwrap() as isize + 1;
+        for ring in 0..=rings {
+            // Nessuna sorgente oltre questo guscio può ridurre la dimensione
+            let reach = (ring - 1).max(0) as f64 * self.cell;
+            if self.smallest + self.grading * reach >= size {
+                break;
+            }
+            for i in (center[0] - ring)..=(center[0] + ring) {
+                for j in (center[1] - ring)..=(center[1] + ring) {
+                    for k in (center[2] - ring)..=(center[2] + ring) {
+                        let shell = (i - center[0]).abs().max((j - center[1]).abs()).max((k - center[2]).abs());
+                        if shell != ring || i < 0 || j < 0 || k < 0 {
+                            continue;
+                        }
+                        if let Some(bucket) = self.cells.get(&(i as usize, j as usize, k as usize)) {
+                            for &n in bucket {
+                                let (q, h) = self.features[n];
+                                let candidate = h + self.grading * distance(p, q);
+                                if candidate < size {
+                                    size = candidate;
+                                }
+                            }
+                        }
+                    }
+                }
+            }
+        }
+        size
+    }
+}
+
+fn edge_key(a: usize, b: usize) -> (usize, usize) {
+    if a < b { (a, b) } else { (b, a) }
+}
+
+// Saldatura dei vertici, verifica di chiusura e orientamento uscente
+fn prepare_surface(vertices: &[f32], indices: &[u32]) -> Result<(Vec<V3>, Vec<[usize; 3]>), String> {
+    if vertices.len() < 12 || indices.len() < 12 {
+        return Err("The surface mesh is empty".to_string());
+    }
+    if indices.iter().any(|&i| (i as usize) * 3 + 2 >= vertices.len()) {
+        return Err("The surface mesh references missing vertices".to_string());
+    }
+
+    let raw: Vec<V3> = vertices
+        .chunks(3)
+        .map(|c| [c[0] as f64, c[1] as f64, c[2] as f64])
+        .collect();
+    let (min, max) = bounds(&raw);
+    let tolerance = (distance(min, max) * 1e-7).max(1e-12);
+
+    let mut lookup: HashMap<(i64, i64, i64), usize> = HashMap::new();
+    let mut points: Vec<V3> = Vec::new();
+    let remap: Vec<usize> = raw
+        .iter()
+        .map(|p| {
+            let key = (
+                (p[0] / tolerance).round() as i64,
+                (p[1] / tolerance).round() as i64,
+                (p[2] / tolerance).round() as i64,
+            );
+            *lookup.entry(key).or_insert_with(|| {
+                points.push(*p);
+                points.len() - 1
+            })
+        })
+        .collect();
+
+    let mut triangles: Vec<[usize; 3]> = indices
+        .chunks(3)
+        .filter(|c| c.len() == 3)
+        .map(|c| [remap[c[0] as usize], remap[c[1] as usize], remap[c[2] as usize]])
+        .filter(|t| t[0] != t[1] && t[1] != t[2] && t[2] != t[0])
+        .collect();
+
+    let mut edges: HashMap<(usize, usize), u32> = HashMap::new();
+    for t in &triangles {
+        for i in 0..3 {
+            *edges.entry(edge_key(t[i], t[(i + 1) % 3])).or_insert(0) += 1;
+        }
+    }
+    let open = edges.values().filter(|&&count| count != 2).count();
+    if open > 0 {
+        return Err(format!(
+            "The surface is not closed ({} open or non-manifold edges), volume meshing needs a watertight solid",
+            open
+        ));
+    }
+
+    let volume: f64 = triangles
+        .iter()
+        .map(|t| orient([0.0; 3], points[t[0]], points[t[1]], points[t[2]]))
+        .sum();
+    if volume.abs() < 1e-300 {
+        return Err("The surface encloses no volume".to_string());
+    }
+    if volume < 0.0 {
+        for t in triangles.iter_mut() {
+            t.swap(1, 2);
+        }
+    }
+
+    Ok((points, triangles))
+}
+
+// Dimensione locale sui vertici della superficie originale da curvatura
+fn curvature_sizes(points: &[V3], triangles: &[[usize; 3]], target: f64, min_size: f64, curvature_angle: f64) -> Vec<f64> {
+    let mut sizes = vec![target; points.len()];
+
+    let normals: Vec<V3> = triangles
+        .iter()
+        .map(|t| cross(sub(points[t[1]], points[t[0]]), sub(points[t[2]], points[t[0]])))
+        .collect();
+    let centroids: Vec<V3> = triangles
+        .iter()
+        .map(|t| scale(add(add(points[t[0]], points[t[1]]), points[t[2]]), 1.0 / 3.0))
+        .collect();
+
+    // Raggio di curvatura stimato tra facce adiacenti: fori e raccordi, non spigoli vivi
+    let mut edge_faces: HashMap<(usize, usize), Vec<usize>> = HashMap::new();
+    for (f, t) in triangles.iter().enumerate() {
+        for i in 0..3 {
+            edge_faces.entry(edge_key(t[i], t[(i + 1) % 3])).or_insert_with(Vec::new).push(f);
+        }
+    }
+    for (&(a, b), faces) in edge_faces.iter() {
+        if faces.len() != 2 {
+            continue;
+        }
+        let n1 = normals[faces[0]];
+        let n2 = normals[faces[1]];
+        let norms = length(n1) * length(n2);
+        if norms <= 0.0 {
+            continue;
+        }
+        let angle = (dot(n1, n2) / norms).max(-1.0).min(1.0).acos();
+        if angle < 1e-3 || angle > SHARP_EDGE_ANGLE {
+            continue;
+        }
+        let radius = distance(centroids[faces[0]], centroids[faces[1]]) / angle;
+        let size = radius * curvature_angle;
+        sizes[a] = sizes[a].min(size);
+        sizes[b] = sizes[b].min(size);
+    }
+
+    sizes.iter().map(|&s| s.max(min_size).min(target)).collect()
+}
+
+// Spessore locale di parete lungo la normale interna, misurato sui vertici della
+// superficie già raffinata perché le pareti sottili vanno campionate anche
+// lontano dagli spigoli originali: almeno tre elementi nello spessore
+fn wall_sizes(index: &mut SurfaceIndex, points: &[V3], triangles: &[[usize; 3]], target: f64, min_size: f64) -> Vec<f64> {
+    let mut vertex_normals = vec![[0.0; 3]; points.len()];
+    for t in triangles {
+        let n = cross(sub(points[t[1]], points[t[0]]), sub(points[t[2]], points[t[0]]));
+        for &v in t {
+            vertex_normals[v] = add(vertex_normals[v], n);
+        }
+    }
+    let (min, max) = bounds(points);
+    let offset = distance(min, max) * 1e-7;
+    let mut sizes = vec![target; points.len()];
+    for v in 0..points.len() {
+        let n = vertex_normals[v];
+        let l = length(n);
+        if l <= 0.0 {
+            continue;
+        }
+        let inward = scale(n, -1.0 / l);
+        let (_, thickness) = index.cast(add(points[v], scale(inward, offset)), inward, true, NONE);
+        if thickness.is_finite() {
+            sizes[v] = (thickness / 3.0).max(min_size).min(target);
+        }
+    }
+    sizes
+}
+
+// Bisezione degli spigoli di superficie più lunghi della dimensione locale
+fn refine_surface(points: &mut Vec<V3>, triangles: &mut Vec<[usize; 3]>, field: &SizeField) -> Result<(), String> {
+    let mut edge_faces: HashMap<(usize, usize), Vec<usize>> = HashMap::new();
+    for (f, t) in triangles.iter().enumerate() {
+        for i in 0..3 {
+            edge_faces.entry(edge_key(t[i], t[(i + 1) % 3])).or_insert_with(Vec::new).push(f);
+        }
+    }
+    let mut sizes: Vec<f64> = points.iter().map(|&p| field.at(p)).collect();
+
+    for _ in 0..MAX_SPLIT_PASSES {
+        let mut candidates: Vec<(f64, (usize, usize))> = edge_faces
+            .keys()
+            .filter_map(|&(a, b)| {
+                let l = distance(points[a], points[b]);
+                if l > 0.5 * (sizes[a] + sizes[b]) { Some((l, (a, b))) } else { None }
+            })
+            .collect();
+        if candidates.is_empty() {
+            flip_surface(points, triangles);
+            return Ok(());
+        }
+        candidates.sort_by(|x, y| y.0.partial_cmp(&x.0).unwrap_or(std::cmp::Ordering::Equal));
+
+        for &(_, (a, b)) in &candidates {
+            let faces = match edge_faces.get(&(a, b)) {
+                Some(faces) if faces.len() == 2 => faces.clone(),
+                _ => continue,
+            };
+
+            let m = points.len();
+            let midpoint = scale(add(points[a], points[b]), 0.5);
+            points.push(midpoint);
+            sizes.push(field.at(midpoint));
+            edge_faces.remove(&(a, b));
+
+            for &f in &faces {
+                // Ruota il triangolo in modo che lo spigolo diviso sia il primo
+                let mut t = triangles[f];
+                while !((t[0] == a && t[1] == b) || (t[0] == b && t[1] == a)) {
+                    t = [t[1], t[2], t[0]];
+                }
+                let (p, q, r) = (t[0], t[1], t[2]);
+                let g = triangles.len();
+                triangles[f] = [p, m, r];
+                triangles.push([m, q, r]);
+
+                if let Some(list) = edge_faces.get_mut(&edge_key(q, r)) {
+                    for entry in list.iter_mut() {
+                        if *entry == f {
+                            *entry = g;
+                        }
+                    }
+                }
+                edge_faces.entry(edge_key(p, m)).or_insert_with(Vec::new).push(f);
+                edge_faces.entry(edge_key(m, q)).or_insert_with(Vec::new).push(g);
+                let shared = edge_faces.entry(edge_key(m, r)).or_insert_with(Vec::new);
+                shared.push(f);
+                shared.push(g);
+            }
+        }
+    }
+
+    Err("Surface refinement did not converge, check the minimum element size".to_string())
+}
+
+fn triangle_angle(p: V3, a: V3, b: V3) -> f64 {
+    let u = sub(a, p);
+    let v = sub(b, p);
+    length(cross(u, v)).atan2(dot(u, v))
+}
+
+// Flip di Delaunay tra triangoli complanari: la bisezione degli spigoli lascia
+// gli angoli acuti delle facce lunghe e strette prodotte dalla tassellazione CAD
+fn flip_surface(points: &[V3], triangles: &mut Vec<[usize; 3]>) {
+    for _ in 0..64 {
+        let mut edge_faces: HashMap<(usize, usize), Vec<usize>> = HashMap::new();
+        for (f, t) in triangles.iter().enumerate() {
+            for i in 0..3 {
+                edge_faces.entry(edge_key(t[i], t[(i + 1) % 3])).or_insert_with(Vec::new).push(f);
+            }
+        }
+
+        let mut touched = vec![false; triangles.len()];
+        let mut flips = 0;
+        for (&(a, b), faces) in edge_faces.iter() {
+            if faces.len() != 2 || touched[faces[0]] || touched[faces[1]] {
+                continue;
+            }
+            let (f, g) = (faces[0], faces[1]);
+            let apex = |t: [usize; 3]| *t.iter().find(|&&v| v != a && v != b).unwrap();
+            let (c, d) = (apex(triangles[f]), apex(triangles[g]));
+            if c == d {
+                continue;
+            }
+
+            // Orientamento (a, b, c) e (b, a, d) coerente con le facce esistenti
+            let (a, b) = {
+                let t = triangles[f];
+                let i = t.iter().position(|&v| v == c).unwrap();
+                (t[(i + 1) % 3], t[(i + 2) % 3])
+            };
+            let normal_f = cross(sub(points[b], points[a]), sub(points[c], points[a]));
+            let normal_g = cross(sub(points[a], points[b]), sub(points[d], points[b]));
+            let norms = length(normal_f) * length(normal_g);
+            if norms <= 0.0 || dot(normal_f, normal_g) < norms * COPLANAR_COSINE {
+                continue;
+            }
+            if triangle_angle(points[c], points[a], points[b]) + triangle_angle(points[d], points[b], points[a])
+                <= std::f64::consts::PI + 1e-9
+            {
+                continue;
+            }
+
+            // I nuovi triangoli devono mantenere l'orientamento (quadrilatero convesso)
+            let first = [a, d, c];
+            let second = [d, b, c];
+            let keeps_orientation = [first, second].iter().all(|t| {
+                let n = cross(sub(points[t[1]], points[t[0]]), sub(points[t[2]], points[t[0]]));
+                dot(n, normal_f) > 0.0
+            });
+            if !keeps_orientation {
+                continue;
+            }
+
+            triangles[f] = first;
+            triangles[g] = second;
+            touched[f] = true;
+            touched[g] = true;
+            flips += 1;
+        }
+
+        if flips == 0 {
+            break;
+        }
+    }
+}
+
+// Triangolazione di Delaunay incrementale (Bowyer-Watson)
+struct Delaunay {
+    points: Vec<V3>,
+    tets: Vec<[usize; 4]>,
+    adjacent: Vec<[usize; 4]>,
+    alive: Vec<bool>,
+    free: Vec<usize>,
+    marks: Vec<u32>,
+    mark: u32,
+    last: usize,
+}
+
+impl Delaunay {
+    // I primi quattro punti formano il super-tetraedro che contiene tutto il dominio
+    fn new(min: V3, max: V3) -> Self {
+        let center = scale(add(min, max), 0.5);
+        let size = distance(min, max).max(1e-9) * 20.0;
+        let mut corners = [
+            add(center, [size, size, size]),
+            add(center, [size, -size, -size]),
+            add(center, [-size, size, -size]),
+            add(center, [-size, -size, size]),
+        ];
+        if orient(corners[0], corners[1], corners[2], corners[3]) < 0.0 {
+            corners.swap(2, 3);
+        }
+
+        let mut delaunay = Delaunay {
+            points: corners.to_vec(),
+            tets: Vec::new(),
+            adjacent: Vec::new(),
+            alive: Vec::new(),
+            free: Vec::new(),
+            marks: Vec::new(),
+            mark: 0,
+            last: 0,
+        };
+        delaunay.create([0, 1, 2, 3]);
+        delaunay
+    }
+
+    fn create(&mut self, tet: [usize; 4]) -> usize {
+        if let Some(id) = self.free.pop() {
+            self.tets[id] = tet;
+            self.adjacent[id] = [NONE; 4];
+            self.alive[id] = true;
+            id
+        } else {
+            self.tets.push(tet);
+            self.adjacent.push([NONE; 4]);
+            self.alive.push(true);
+            self.marks.push(0);
+            self.tets.len() - 1
+        }
+    }
+
+    fn in_sphere(&self, t: usize, p: V3) -> bool {
+        let [a, b, c, d] = self.tets[t];
+        insphere(self.points[a], self.points[b], self.points[c], self.points[d], p) > 0.0
+    }
+
+    // Orientamento del tetraedro `t` con il vertice `i` sostituito da `p`
+    fn orient_with(&self, t: usize, i: usize, p: V3) -> f64 {
+        let mut q = [
+            self.points[self.tets[t][0]],
+            self.points[self.tets[t][1]],
+            self.points[self.tets[t][2]],
+            self.points[self.tets[t][3]],
+        ];
+        q[i] = p;
+        orient(q[0], q[1], q[2], q[3])
+    }
+
+    fn locate(&self, p: V3) -> Option<usize> {
+        let mut t = self.last;
+        if t >= self.tets.len() || !self.alive[t] {
+            t = self.alive.iter().position(|&a| a)?;
+        }
+
+        let limit = self.tets.len() * 4 + 64;
+        for step in 0..limit {
+            let mut moved = false;
+            for k in 0..4 {
+                let i = (k + step) % 4;
+                let n = self.adjacent[t][i];
+                if n != NONE && self.orient_with(t, i, p) < 0.0 {
+                    t = n;
+                    moved = true;
+                    break;
+                }
+            }
+            if !moved {
+                return Some(t);
+            }
+        }
+
+        // Il cammino non è arrivato a destinazione: ricerca esaustiva
+        (0..self.tets.len()).find(|&t| self.alive[t] && self.in_sphere(t, p))
+    }
+
+    fn next_mark(&mut self) -> u32 {
+        if self.mark == u32::MAX {
+            self.marks.iter_mut().for_each(|m| *m = 0);
+            self.mark = 0;
+        }
+        self.mark += 1;
+        self.mark
+    }
+
+    // Inserisce un punto; restituisce false se la cavità non è stellata rispetto al punto
+    fn insert(&mut self, p: V3) -> bool {
+        let start = match self.locate(p) {
+            Some(t) => t,
+            None => return false,
+        };
+
+        let mark = self.next_mark();
+        let mut cavity = vec![start];
+        self.marks[start] = mark;
+        let mut n = 0;
+        while n < cavity.len() {
+            let t = cavity[n];
+            n += 1;
+            for i in 0..4 {
+                let neighbour = self.adjacent[t][i];
+                if neighbour != NONE && self.marks[neighbour] != mark && self.in_sphere(neighbour, p) {
+                    self.marks[neighbour] = mark;
+                    cavity.push(neighbour);
+                }
+            }
+        }
+
+        // Restringe la cavità finché ogni faccia di bordo è visibile dal nuovo punto
+        let boundary = loop {
+            let mut faces: Vec<(usize, usize)> = Vec::new();
+            let mut invisible: Vec<usize> = Vec::new();
+            for &t in &cavity {
+                if self.marks[t] != mark {
+                    continue;
+                }
+                for i in 0..4 {
+                    let neighbour = self.adjacent[t][i];
+                    if neighbour == NONE || self.marks[neighbour] != mark {
+                        if self.orient_with(t, i, p) > 0.0 {
+                            faces.push((t, i));
+                        } else {
+                            invisible.push(t);
+                        }
+                    }
+                }
+            }
+            if invisible.is_empty() {
+                break faces;
+            }
+            if invisible.contains(&start) {
+                return false;
+            }
+            for t in invisible {
+                self.marks[t] = 0;
+            }
+        };
+
+        // Dati della cavità copiati prima di riutilizzarne gli slot
+        let faces: Vec<([usize; 4], usize, usize, usize)> = boundary
+            .iter()
+            .map(|&(t, i)| {
+                let neighbour = self.adjacent[t][i];
+                let back = if neighbour == NONE {
+                    NONE
+                } else {
+                    (0..4).find(|&j| self.adjacent[neighbour][j] == t).unwrap_or(NONE)
+                };
+                (self.tets[t], i, neighbour, back)
+            })
+            .collect();
+
+        for &t in &cavity {
+            if self.marks[t] == mark {
+                self.alive[t] = false;
+                self.free.push(t);
+            }
+        }
+
+        let index = self.points.len();
+        self.points.push(p);
+
+        let mut pending: HashMap<(usize, usize), (usize, usize)> = HashMap::new();
+        for (tet, i, neighbour, back) in faces {
+            let mut vertices = tet;
+            vertices[i] = index;
+            let id = self.create(vertices);
+            self.adjacent[id][i] = neighbour;
+            if neighbour != NONE && back != NONE {
+                self.adjacent[neighbour][back] = id;
+            }
+
+            for k in 0..4 {
+                if k == i {
+                    continue;
+                }
+                let others: Vec<usize> = (0..4).filter(|&m| m != i && m != k).map(|m| vertices[m]).collect();
+                let key = edge_key(others[0], others[1]);
+                if let Some((other, face)) = pending.remove(&key) {
+                    self.adjacent[id][k] = other;
+                    self.adjacent[other][face] = id;
+                } else {
+                    pending.insert(key, (id, k));
+                }
+            }
+            self.last = id;
+        }
+
+        true
+    }
+}
+
+fn face_key(a: usize, b: usize, c: usize) -> [usize; 3] {
+    let mut key = [a, b, c];
+    key.sort_unstable();
+    key
+}
+
+fn count_faces(tets: &[[usize; 4]]) -> HashMap<[usize; 3], u32> {
+    let mut counts: HashMap<[usize; 3], u32> = HashMap::new();
+    for tet in tets {
+        for face in TET_FACES.iter() {
+            *counts.entry(face_key(tet[face[0]], tet[face[1]], tet[face[2]])).or_insert(0) += 1;
+        }
+    }
+    counts
+}
+
+fn jacobian_of(nodes: &[V3], tet: &[usize; 4]) -> f64 {
+    tet_quality([nodes[tet[0]], nodes[tet[1]], nodes[tet[2]], nodes[tet[3]]]).1
+}
+
+// Tetraedro con volume positivo, o None se degenere
+fn oriented(nodes: &[V3], tet: [usize; 4]) -> Option<[usize; 4]> {
+    let volume = orient(nodes[tet[0]], nodes[tet[1]], nodes[tet[2]], nodes[tet[3]]);
+    if volume > 0.0 {
+        Some(tet)
+    } else if volume < 0.0 {
+        Some([tet[0], tet[1], tet[3], tet[2]])
+    } else {
+        None
+    }
+}
+
+// Rimuove i tetraedri schiacciati appoggiati su facce piane della superficie: le
+// facce che scoprono giacciono anch'esse sulla superficie, che resta invariata
+fn remove_surface_caps(nodes: &[V3], tets: &mut Vec<[usize; 4]>, on_surface: &[bool], index: &mut SurfaceIndex, tolerance: f64) {
+    for _ in 0..4 {
+        let counts = count_faces(tets);
+        let before = tets.len();
+        let mut removed: HashMap<[usize; 3], ()> = HashMap::new();
+        tets.retain(|tet| {
+            if !tet.iter().all(|&v| on_surface[v]) || jacobian_of(nodes, tet) >= SLIVER_JACOBIAN {
+                return true;
+            }
+            let keys: Vec<[usize; 3]> = TET_FACES.iter().map(|f| face_key(tet[f[0]], tet[f[1]], tet[f[2]])).collect();
+            if !keys.iter().any(|k| counts[k] == 1) || keys.iter().any(|k| removed.contains_key(k)) {
+                return true;
+            }
+            let exposed_on_surface = keys.iter().filter(|k| counts[*k] == 2).all(|k| {
+                let centroid = scale(add(add(nodes[k[0]], nodes[k[1]]), nodes[k[2]]), 1.0 / 3.0);
+                index.is_near(centroid, tolerance)
+            });
+            if exposed_on_surface {
+                for k in keys {
+                    removed.insert(k, ());
+                }
+                return false;
+            }
+            true
+        });
+        if tets.len() == before {
+            break;
+        }
+    }
+}
+
+// Una passata di flip 2-3 e 3-2 sugli elementi di bassa qualità, accettati solo
+// se aumentano il Jacobiano scalato minimo locale
+fn flip_pass(nodes: &[V3], tets: &mut Vec<[usize; 4]>) -> usize {
+    let quality: Vec<f64> = tets.iter().map(|t| jacobian_of(nodes, t)).collect();
+    let mut faces: HashMap<[usize; 3], Vec<usize>> = HashMap::new();
+    let mut edges: HashMap<(usize, usize), Vec<usize>> = HashMap::new();
+    for (t, tet) in tets.iter().enumerate() {
+        for face in TET_FACES.iter() {
+            faces.entry(face_key(tet[face[0]], tet[face[1]], tet[face[2]])).or_insert_with(Vec::new).push(t);
+        }
+        for i in 0..4 {
+            for j in (i + 1)..4 {
+                edges.entry(edge_key(tet[i], tet[j])).or_insert_with(Vec::new).push(t);
+            }
+        }
+    }
+
+    let mut candidates: Vec<usize> = (0..tets.len()).filter(|&t| quality[t] < FLIP_JACOBIAN).collect();
+    candidates.sort_by(|&a, &b| quality[a].partial_cmp(&quality[b]).unwrap_or(std::cmp::Ordering::Equal));
+
+    let mut dead = vec![false; tets.len()];
+    let mut created: Vec<[usize; 4]> = Vec::new();
+    let mut flips = 0;
+    for t in candidates {
+        if dead[t] {
+            continue;
+        }
+        let tet = tets[t];
+        let mut best: Option<(f64, Vec<usize>, Vec<[usize; 4]>)> = None;
+
+        // 2-3: la faccia condivisa viene sostituita dallo spigolo tra i due apici
+        for (opposite, face) in TET_FACES.iter().enumerate() {
+            let key = face_key(tet[face[0]], tet[face[1]], tet[face[2]]);
+            let shared = &faces[&key];
+            if shared.len() != 2 {
+                continue;
+            }
+            let other = if shared[0] == t { shared[1] } else { shared[0] };
+            if dead[other] {
+                continue;
+            }
+            let d = tet[opposite];
+            let e = match tets[other].iter().find(|v| !key.contains(v)) {
+                Some(&e) => e,
+                None => continue,
+            };
+            let [a, b, c] = [tet[face[0]], tet[face[1]], tet[face[2]]];
+            let volumes = [
+                orient(nodes[a], nodes[b], nodes[d], nodes[e]),
+                orient(nodes[b], nodes[c], nodes[d], nodes[e]),
+                orient(nodes[c], nodes[a], nodes[d], nodes[e]),
+            ];
+            if !(volumes.iter().all(|&v| v > 0.0) || volumes.iter().all(|&v| v < 0.0)) {
+                continue;
+            }
+            let added: Vec<[usize; 4]> = [[a, b, d, e], [b, c, d, e], [c, a, d, e]]
+                .iter()
+                .filter_map(|&n| oriented(nodes, n))
+                .collect();
+            let before = quality[t].min(quality[other]);
+            let after = added.iter().map(|n| jacobian_of(nodes, n)).fold(f64::INFINITY, f64::min);
+            if added.len() == 3 && after > before + 1e-6 && best.as_ref().map_or(true, |b| after > b.0) {
+                best = Some((after, vec![t, other], added));
+            }
+        }
+
+        // 3-2: lo spigolo circondato da tre elementi viene sostituito da una faccia
+        for i in 0..4 {
+            for j in (i + 1)..4 {
+                let (d, e) = (tet[i], tet[j]);
+                let around = &edges[&edge_key(d, e)];
+                if around.len() != 3 || around.iter().any(|&n| dead[n]) {
+                    continue;
+                }
+                let mut ring: Vec<usize> = Vec::new();
+                let mut closed = true;
+                for &n in around {
+                    for &v in &tets[n] {
+                        if v != d && v != e {
+                            ring.push(v);
+                        }
+                    }
+                }
+                ring.sort_unstable();
+                let mut unique = ring.clone();
+                unique.dedup();
+                if unique.len() != 3 {
+                    closed = false;
+                }
+                if !closed {
+                    continue;
+                }
+                let (a, b, c) = (unique[0], unique[1], unique[2]);
+                let side_d = orient(nodes[a], nodes[b], nodes[c], nodes[d]);
+                let side_e = orient(nodes[a], nodes[b], nodes[c], nodes[e]);
+                if side_d * side_e >= 0.0 {
+                    continue;
+                }
+                let added: Vec<[usize; 4]> = [[a, b, c, d], [a, b, c, e]]
+                    .iter()
+                    .filter_map(|&n| oriented(nodes, n))
+                    .collect();
+                let before = around.iter().map(|&n| quality[n]).fold(f64::INFINITY, f64::min);
+                let after = added.iter().map(|n| jacobian_of(nodes, n)).fold(f64::INFINITY, f64::min);
+                if added.len() == 2 && after > before + 1e-6 && best.as_ref().map_or(true, |b| after > b.0) {
+                    best = Some((after, around.clone(), added));
+                }
+            }
+        }
+
+        if let Some((_, removed, added)) = best {
+            for n in removed {
+                dead[n] = true;
+            }
+            created.extend(added);
+            flips += 1;
+        }
+    }
+
+    if flips > 0 {
+        let mut next: Vec<[usize; 4]> = tets.iter().enumerate().filter(|&(t, _)| !dead[t]).map(|(_, &tet)| tet).collect();
+        next.extend(created);
+        *tets = next;
+    }
+    flips
+}
+
+// Smoothing laplaciano dei nodi interni, accettato solo se migliora l'elemento peggiore
+fn smooth_pass(nodes: &mut Vec<V3>, tets: &[[usize; 4]], fixed: &[bool]) -> usize {
+    let mut node_tets: Vec<Vec<usize>> = vec![Vec::new(); nodes.len()];
+    for (t, tet) in tets.iter().enumerate() {
+        for &v in tet {
+            node_tets[v].push(t);
+        }
+    }
+    let worst = |nodes: &Vec<V3>, around: &[usize]| -> f64 {
+        around.iter().map(|&t| jacobian_of(nodes, &tets[t])).fold(f64::INFINITY, f64::min)
+    };
+
+    let mut moved = 0;
+    for v in 0..nodes.len() {
+        if fixed[v] || node_tets[v].is_empty() {
+            continue;
+        }
+        let mut sum = [0.0; 3];
+        let mut count = 0.0;
+        for &t in &node_tets[v] {
+            for &u in &tets[t] {
+                if u != v {
+                    sum = add(sum, nodes[u]);
+                    count += 1.0;
+                }
+            }
+        }
+        let before = worst(nodes, &node_tets[v]);
+        let original = nodes[v];
+        nodes[v] = scale(sum, 1.0 / count);
+        if worst(nodes, &node_tets[v]) <= before + 1e-9 {
+            nodes[v] = original;
+        } else {
+            moved += 1;
+        }
+    }
+    moved
+}
+
+fn morton_code(p: V3, min: V3, extent: f64) -> u64 {
+    let mut code = 0u64;
+    let q: Vec<u64> = (0..3)
+        .map(|axis| (((p[axis] - min[axis]) / extent * 1023.0).max(0.0).min(1023.0)) as u64)
+        .collect();
+    for bit in 0..10 {
+        for axis in 0..3 {
+            code |= ((q[axis] >> bit) & 1) << (bit * 3 + axis);
+        }
+    }
+    code
+}
+
+// Generatore pseudo-casuale deterministico per perturbare i punti interni
+struct Jitter(u64);
+
+impl Jitter {
+    fn next(&mut self) -> f64 {
+        self.0 = self.0.wrapping_mul(6364136223846793005).wrapping_add(1442695040888963407);
+        ((self.0 >> 11) as f64 / (1u64 << 53) as f64) * 2.0 - 1.0
+    }
+}
+
+pub fn tetrahedralize(vertices: &[f32], indices: &[u32], options: &TetMeshOptions) -> Result<TetMesh, String> {
+    let (points, triangles) = prepare_surface(vertices, indices)?;
+    let (min, max) = bounds(&points);
+    let diagonal = distance(min, max);
+
+    let target = if options.target_size > 0.0 { options.target_size } else { diagonal / 20.0 };
+    let min_size = if options.min_size > 0.0 { options.min_size.min(target) } else { target / 10.0 };
+    let curvature_angle = if options.curvature_angle > 0.0 {
+        options.curvature_angle
+    } else {
+        std::f64::consts::PI / 6.0
+    };
+    let grading = (options.growth_rate.max(1.05)) - 1.0;
+
+    let surface_volume: f64 = triangles
+        .iter()
+        .map(|t| orient([0.0; 3], points[t[0]], points[t[1]], points[t[2]]))
+        .sum::<f64>()
+        / 6.0;
+    let estimate = surface_volume / (target * target * target / 6.0_f64.sqrt() * 1.5);
+    if estimate > options.max_nodes as f64 {
+        return Err(format!(
+            "About {} nodes would be needed (limit {}), increase the target element size",
+            estimate.round(),
+            options.max_nodes
+        ));
+    }
+
+    // Campo di dimensione dai vertici della superficie originale
+    let mut index = SurfaceIndex::new(points, triangles);
+    let curvature = curvature_sizes(&index.points, &index.triangles, target, min_size, curvature_angle);
+    let mut features: Vec<(V3, f64)> = index
+        .points
+        .iter()
+        .zip(curvature.iter())
+        .filter(|&(_, &h)| h < target)
+        .map(|(&p, &h)| (p, h))
+        .collect();
+
+    // Primo raffinamento guidato dalla sola curvatura, poi lo spessore di parete
+    // misurato sui nuovi vertici completa il campo per il raffinamento finale
+    let mut surface_points = index.points.clone();
+    let mut surface_triangles = index.triangles.clone();
+    refine_surface(&mut surface_points, &mut surface_triangles, &SizeField::new(features.clone(), target, grading))?;
+    let walls = wall_sizes(&mut index, &surface_points, &surface_triangles, target, min_size);
+    features.extend(
+        surface_points
+            .iter()
+            .zip(walls.iter())
+            .filter(|&(_, &h)| h < target)
+            .map(|(&p, &h)| (p, h)),
+    );
+    let field = SizeField::new(features, target, grading);
+    refine_surface(&mut surface_points, &mut surface_triangles, &field)?;
+    let surface_count = surface_points.len();
+
+    // Punti interni a reticolo cubico a corpo centrato (centri e vertici delle
+    // foglie di un octree guidato dal campo di dimensione): la sua triangolazione
+    // di Delaunay è fatta di tetraedri ben formati
+    let mut interior: Vec<V3> = Vec::new();
+    let mut visited: HashMap<(i64, i64, i64), ()> = HashMap::new();
+    let resolution = min_size * 1e-3;
+    let mut jitter = Jitter(0x9e37_79b9_7f4a_7c15);
+    let half = (0..3).map(|axis| max[axis] - min[axis]).fold(0.0f64, f64::max) * 0.5 * 1.001;
+    let mut stack = vec![(scale(add(min, max), 0.5), half, 0u32)];
+    while let Some((center, half, depth)) = stack.pop() {
+        let h = field.at(center);
+        if 2.0 * half > h && depth < MAX_OCTREE_DEPTH {
+            let quarter = half * 0.5;
+            for corner in 0..8 {
+                let offset = [
+                    if corner & 1 == 0 { -quarter } else { quarter },
+                    if corner & 2 == 0 { -quarter } else { quarter },
+                    if corner & 4 == 0 { -quarter } else { quarter },
+                ];
+                stack.push((add(center, offset), quarter, depth + 1));
+            }
+            continue;
+        }
+
+        for corner in 0..9 {
+            let candidate = if corner == 8 {
+                center
+            } else {
+                add(center, [
+                    if corner & 1 == 0 { -half } else { half },
+                    if corner & 2 == 0 { -half } else { half },
+                    if corner & 4 == 0 { -half } else { half },
+                ])
+            };
+            let key = (
+                (candidate[0] / resolution).round() as i64,
+                (candidate[1] / resolution).round() as i64,
+                (candidate[2] / resolution).round() as i64,
+            );
+            if visited.insert(key, ()).is_some() {
+                continue;
+            }
+
+            let p = add(candidate, [jitter.next() * 0.02 * half, jitter.next() * 0.02 * half, jitter.next() * 0.02 * half]);
+            let h = field.at(p);
+            if !index.is_near(p, SURFACE_CLEARANCE * h) && index.is_inside(p) {
+                interior.push(p);
+                if surface_count + interior.len() > options.max_nodes as usize {
+                    return Err(format!(
+                        "The mesh would exceed {} nodes, increase the target or minimum element size",
+                        options.max_nodes
+                    ));
+                }
+            }
+        }
+    }
+
+    // Inserimento in ordine di Morton per cammini di localizzazione brevi
+    let all: Vec<V3> = surface_points.iter().chain(interior.iter()).cloned().collect();
+    let mut order: Vec<usize> = (0..all.len()).collect();
+    let codes: Vec<u64> = all.iter().map(|&p| morton_code(p, min, diagonal.max(1e-12))).collect();
+    order.sort_by_key(|&i| codes[i]);
+
+    // I punti di superficie cocircolari (fori, facce piane) rendono ambigui i test
+    // della sfera circoscritta: una perturbazione minima scioglie i pareggi
+    let mut delaunay = Delaunay::new(min, max);
+    let mut vertex_of = vec![NONE; all.len()];
+    let mut skipped = 0u32;
+    let tie_breaker = diagonal * 1e-9;
+    let mut source_of: Vec<usize> = vec![NONE; 4];
+    for &i in &order {
+        let id = delaunay.points.len();
+        let p = add(all[i], [jitter.next() * tie_breaker, jitter.next() * tie_breaker, jitter.next() * tie_breaker]);
+        if delaunay.insert(p) {
+            vertex_of[i] = id;
+            source_of.push(i);
+        } else {
+            skipped += 1;
+        }
+    }
+
+    // Tetraedri esterni: quelli legati al super-tetraedro o con baricentro fuori dal solido
+    let mut on_surface = vec![false; delaunay.points.len()];
+    for i in 0..surface_count {
+        if vertex_of[i] != NONE {
+            on_surface[vertex_of[i]] = true;
+        }
+    }
+    let mut kept: Vec<[usize; 4]> = Vec::new();
+    for t in 0..delaunay.tets.len() {
+        if !delaunay.alive[t] {
+            continue;
+        }
+        let tet = delaunay.tets[t];
+        if tet.iter().any(|&v| v < 4) {
+            continue;
+        }
+        let p: Vec<V3> = tet.iter().map(|&v| delaunay.points[v]).collect();
+        let centroid = scale(add(add(p[0], p[1]), add(p[2], p[3])), 0.25);
+        if !index.is_inside(centroid) {
+            continue;
+        }
+        // Tetraedri piatti tra punti complanari della superficie
+        let (_, jacobian) = tet_quality([p[0], p[1], p[2], p[3]]);
+        if jacobian.abs() < 1e-3 && tet.iter().all(|&v| on_surface[v]) {
+            continue;
+        }
+        kept.push(tet);
+    }
+    if kept.is_empty() {
+        return Err("Volume meshing produced no elements".to_string());
+    }
+
+    // Numerazione compatta dei nodi usati
+    let mut remap = vec![NONE; delaunay.points.len()];
+    let mut nodes: Vec<V3> = Vec::new();
+    let mut fixed: Vec<bool> = Vec::new();
+    for tet in kept.iter_mut() {
+        for v in tet.iter_mut() {
+            if remap[*v] == NONE {
+                remap[*v] = nodes.len();
+                nodes.push(all[source_of[*v]]);
+                fixed.push(on_surface[*v]);
+            }
+            *v = remap[*v];
+        }
+    }
+
+    remove_surface_caps(&nodes, &mut kept, &fixed, &mut index, target * 1e-3);
+
+    // I nodi sul bordo della mesh di volume restano fermi durante l'ottimizzazione
+    let mut face_count = count_faces(&kept);
+    for tet in &kept {
+        for face in TET_FACES.iter() {
+            if face_count[&face_key(tet[face[0]], tet[face[1]], tet[face[2]])] == 1 {
+                for &i in face {
+                    fixed[tet[i]] = true;
+                }
+            }
+        }
+    }
+
+    for _ in 0..options.smoothing_passes {
+        let flips = flip_pass(&nodes, &mut kept);
+        let moved = smooth_pass(&mut nodes, &kept, &fixed);
+        if flips == 0 && moved == 0 {
+            break;
+        }
+    }
+    face_count = count_faces(&kept);
+
+    // Metriche di qualità
+    let mut aspect_ratios = Vec::with_capacity(kept.len());
+    let mut scaled_jacobians = Vec::with_capacity(kept.len());
+    let mut volume = 0.0;
+    let mut poor = 0u32;
+    let mut inverted = 0u32;
+    for tet in &kept {
+        let p = [nodes[tet[0]], nodes[tet[1]], nodes[tet[2]], nodes[tet[3]]];
+        let (aspect, jacobian) = tet_quality(p);
+        volume += orient(p[0], p[1], p[2], p[3]) / 6.0;
+        if jacobian <= 0.0 {
+            inverted += 1;
+        }
+        if aspect > POOR_ASPECT_RATIO || jacobian < POOR_SCALED_JACOBIAN {
+            poor += 1;
+        }
+        aspect_ratios.push(aspect);
+        scaled_jacobians.push(jacobian);
+    }
+
+    let mut surface: Vec<u32> = Vec::new();
+    for tet in &kept {
+        for face in TET_FACES.iter() {
+            if face_count[&face_key(tet[face[0]], tet[face[1]], tet[face[2]])] == 1 {
+                surface.extend(face.iter().map(|&i| tet[i] as u32));
+            }
+        }
+    }
+
+    let tolerance = target * 1e-3;
+    let mut boundary_area = 0.0;
+    let mut conforming_area = 0.0;
+    for face in surface.chunks(3) {
+        let (a, b, c) = (nodes[face[0] as usize], nodes[face[1] as usize], nodes[face[2] as usize]);
+        let area = 0.5 * length(cross(sub(b, a), sub(c, a)));
+        boundary_area += area;
+        if index.is_near(scale(add(add(a, b), c), 1.0 / 3.0), tolerance) {
+            conforming_area += area;
+        }
+    }
+
+    let count = kept.len() as f64;
+    let quality = MeshQuality {
+        node_count: nodes.len() as u32,
+        element_count: kept.len() as u32,
+        max_aspect_ratio: aspect_ratios.iter().cloned().fold(0.0, f64::max),
+        mean_aspect_ratio: aspect_ratios.iter().sum::<f64>() / count,
+        min_scaled_jacobian: scaled_jacobians.iter().cloned().fold(f64::INFINITY, f64::min),
+        mean_scaled_jacobian: scaled_jacobians.iter().sum::<f64>() / count,
+        poor_elements: poor,
+        inverted_elements: inverted,
+        volume,
+        volume_error: (volume - surface_volume).abs() / surface_volume.abs(),
+        boundary_conformity: if boundary_area > 0.0 { conforming_area / boundary_area } else { 0.0 },
+        skipped_points: skipped,
+    };
+
+    Ok(TetMesh {
+        vertices: nodes.iter().flat_map(|p| p.iter().map(|&c| c as f32)).collect(),
+        tetrahedra: kept.iter().flat_map(|t| t.iter().map(|&v| v as u32)).collect(),
+        surface,
+        aspect_ratios: aspect_ratios.iter().map(|&a| a as f32).collect(),
+        scaled_jacobians: scaled_jacobians.iter().map(|&j| j as f32).collect(),
+        quality,
+    })
+}
@@ -38,6 +38,7 @@ import toast from 'react-hot-toast';
 import SmartRenderer from '@/src/lib/canvas/SmartRenderer';
 import CanvasPool from '@/src/lib/canvas/CanvasPool';
 import { useConstraints } from '@/src/contexts/ConstraintContext';
+import { EntityConstraintState } from '@/src/types/constraints';
 
 interface CADCanvasProps {
   width?: string | number;
@@ -149,7 +150,23 @@ const toggleMultiSelectMode = useCallback(() => {
 useCADShortcuts();
 
 
-const { getConstraintsForEntity } = useConstraints();
+const { getConstraintsForEntity, constraintEngine, revision: constraintRevision } = useConstraints();
+
+// Constraint state of sketch elements for colour coding: recomputed when the
+// constraints change or the solver moves elements. Only elements of sketches
+// with at least one constraint are coloured; the rest keep their own colours.
+const constraintStates = useMemo(() => {
+  const states = new Map<string, EntityConstraintState>();
+  const analysis = constraintEngine.analyzeDegreesOfFreedom();
+  const constrained = new Set<string>();
+  analysis.sketches.forEach(sketch => {
+    if (sketch.constraintIds.length > 0) sketch.elementIds.forEach(id => constrained.add(id));
+  });
+  analysis.entities.forEach(entity => {
+    if (constrained.has(entity.elementId)) states.set(entity.elementId, entity.state);
+  });
+  return states;
+}, [constraintEngine, constraintRevision, elements]);
 
 // Effect to notify parent of element changes
 useEffect(() => {
@@ -4164,9 +4181,9 @@ const createThreeObject = (element: any): THREE.Object3D | null => {
         // Convert vertices to Float32Array
         const vertices2 = new Float32Array(element.vertices.length * 3);
         element.vertices.forEach((vertex: any, i: number) => {
-          vertices[i * 3] = vertex.x + originOffset.x;
-          vertices[i * 3 + 1] = vertex.y + originOffset.y;
-          vertices[i * 3 + 2] = (vertex.z || 0) + originOffset.z;
+          vertices2[i * 3] = vertex.x + originOffset.x;
+          vertices2[i * 3 + 1] = vertex.y + originOffset.y;
+          vertices2[i * 3 + 2] = (vertex.z || 0) + originOffset.z;
         });
         
         // Convert faces to indices
@@ -4174,22 +4191,36 @@ const createThreeObject = (element: any): THREE.Object3D | null => {
         element.faces.forEach((face: any) => {
           if (Array.isArray(face) && face.length >= 3) {
             // Basic triangles
-            indices.push(face[0], face[1], face[2]);
+            indices2.push(face[0], face[1], face[2]);
             
             // If more than 3 vertices (quad or n-gon), triangulate
             for (let i = 3; i < face.length; i++) {
-              indices.push(face[0], face[i - 1], face[i]);
+              indices2.push(face[0], face[i - 1], face[i]);
             }
           }
         });
         
         meshGeometry.setIndex(indices2);
         meshGeometry.setAttribute('position', new THREE.BufferAttribute(vertices2, 3));
-        meshGeometry.computeVertexNormals();
+        
+        // Use the normals stored with the mesh (e.g. from OBJ files) when complete
+        if (Array.isArray(element.normals) && element.normals.length === element.vertices.length) {
+          const normals2 = new Float32Array(element.normals.length * 3);
+          element.normals.forEach((normal: any, i: number) => {
+            normals2[i * 3] = normal.x;
+            normals2[i * 3 + 1] = normal.y;
+            normals2[i * 3 + 2] = normal.z;
+          });
+          meshGeometry.setAttribute('normal', new THREE.BufferAttribute(normals2, 3));
+        } else {
+          meshGeometry.computeVertexNormals();
+        }
         
         const meshMaterial = new THREE.MeshStandardMaterial({
           color: element.color || 0x4285F4,
-          wireframe: element.wireframe || false
+          wireframe: element.wireframe || false,
+          transparent: element.opacity !== undefined && element.opacity < 1,
+          opacity: element.opacity ?? 1
         });
         
         const mesh = new THREE.Mesh(meshGeometry, meshMaterial);
@@ -4910,6 +4941,19 @@ useEffect(() => {
     }
   }, [viewMode, axisVisible]);
 
+  // Colour sketch elements by constraint state: blue while they can still move,
+  // black when fully constrained, red when involved in a conflict
+  const applyConstraintColor = useCallback((threeObject: THREE.Object3D, element: any) => {
+    const state = constraintStates.get(element.id);
+    if (!state) return;
+    
+    const color = state === 'conflicting' ? 0xdc2626 : state === 'fully-constrained' ? 0x000000 : 0x2563eb;
+    const material = (threeObject as THREE.Line | THREE.Mesh).material as THREE.Material | undefined;
+    if (material && 'color' in material && (material as any).color instanceof THREE.Color) {
+      (material as any).color.setHex(color);
+    }
+  }, [constraintStates]);
+
   useEffect(() => {
     if (!sceneRef.current) return;
     
@@ -5007,7 +5051,8 @@ useEffect(() => {
             threeObject.userData.isCADElement = true;
             threeObject.userData.elementId = element.id;
             
-            // Evidenziazione e selezione
+            // Stato dei vincoli, poi evidenziazione e selezione
+            applyConstraintColor(threeObject, element);
             highlightElement(threeObject, element);
             
             sceneRef.current?.add(threeObject);
@@ -5030,7 +5075,7 @@ useEffect(() => {
     if (typeof updateControlPoints === 'function') {
       updateControlPoints();
     }
-  }, [elements, layers, hoveredElementId, selectedElement, applyLOD, optimizeScene, updateControlPoints, createThreeObject]);
+  }, [elements, layers, hoveredElementId, selectedElement, applyLOD, optimizeScene, updateControlPoints, createThreeObject, applyConstraintColor]);
 
   // Funzione ottimizzata per gestire il drag & drop dalla libreria
   const handleComponentDragOver = useCallback((event: React.DragEvent) => {
@@ -5174,7 +5219,8 @@ useEffect(() => {
             threeObject.userData.isCADElement = true;
             threeObject.userData.elementId = element.id;
             
-            // Evidenziazione e selezione
+            // Stato dei vincoli, poi evidenziazione e selezione
+            applyConstraintColor(threeObject, element);
             highlightElement(threeObject, element);
             
             sceneRef.current?.add(threeObject);
@@ -5198,7 +5244,7 @@ useEffect(() => {
       updateControlPoints();
     }
     
-  }, [elements, layers, hoveredElementId, selectedElement, applyLOD, optimizeScene, updateControlPoints, createThreeObject]);
+  }, [elements, layers, hoveredElementId, selectedElement, applyLOD, optimizeScene, updateControlPoints, createThreeObject, applyConstraintColor]);
 
   // Funzione per creare mesh istanziati per elementi simili
   const createInstancedMesh = useCallback((type: string, elements: any[]) => {
@@ -5279,6 +5325,7 @@ useEffect(() => {
   }, [originOffset]);
 
   // Funzione per evidenziare elementi
+
   const highlightElement = useCallback((threeObject: THREE.Object3D, element: any) => {
     // Hover Highlight
     if (element.id === hoveredElementId) {
@@ -1,8 +1,21 @@
 import React, { useState, useEffect } from 'react';
 import { Save, Upload, X, FileText, Database, FolderPlus } from 'react-feather';
 import { useElementsStore } from 'src/store/elementsStore';
+import {
+  FileFormat,
+  addImportedElements,
+  exportBinarySTL,
+  exportFile,
+  exportOBJWithMaterials,
+  importFile
+} from 'src/lib/importExportService';
 import SaveCADAsProjectModal from './SaveCADAsProjectModal';
 
+// Formats handled by importExportService, everything else uses the native JSON layout
+const SERVICE_FORMATS: string[] = [FileFormat.DXF, FileFormat.STL, FileFormat.OBJ];
+// STEP can only be read, .stp is its short extension
+const SERVICE_IMPORT_FORMATS: string[] = [...SERVICE_FORMATS, FileFormat.STEP, 'stp'];
+
 interface ImportExportDialogProps {
   isOpen: boolean;
   onClose: () => void;
@@ -43,6 +56,27 @@ export default function ImportExportDialog({
   
   // Handle file export
   const handleExport = () => {
+    if (fileFormat === FileFormat.OBJ) {
+      // The material library is downloaded next to the OBJ that references it
+      const { obj, mtl } = exportOBJWithMaterials(elements, fileName);
+      downloadFile(obj, 'model/obj');
+      downloadFile(mtl, 'model/mtl', `${fileName}.mtl`);
+      onClose();
+      return;
+    }
+    
+    if (fileFormat === FileFormat.STL) {
+      downloadFile(exportBinarySTL(elements), 'model/stl');
+      onClose();
+      return;
+    }
+    
+    if (SERVICE_FORMATS.includes(fileFormat)) {
+      downloadFile(exportFile(elements, fileFormat as FileFormat), 'application/octet-stream');
+      onClose();
+      return;
+    }
+
     // Create the data to export
     const exportData = {
       elements,
@@ -57,25 +91,48 @@ export default function ImportExportDialog({
     // Convert to JSON
     const jsonData = JSON.stringify(exportData, null, 2);
     
-    // Create a Blob and download
-    const blob = new Blob([jsonData], { type: 'application/json' });
+    downloadFile(jsonData, 'application/json');
+    onClose();
+  };
+  
+  // Create a Blob and download it
+  const downloadFile = (content: BlobPart, type: string, downloadName = `${fileName}.${fileFormat}`) => {
+    const blob = new Blob([content], { type });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `${fileName}.${fileFormat}`;
+    a.download = downloadName;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
-    
-    onClose();
   };
   
   // Handle file import
   const handleFileSelection = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
+    const files = Array.from(e.target.files || []);
+    // Companion files such as MTL libraries can be selected together with the model
+    const file = files.find(f => !f.name.toLowerCase().endsWith('.mtl'));
     if (!file) return;
     
+    const extension = file.name.split('.').pop()?.toLowerCase() || '';
+    if (SERVICE_IMPORT_FORMATS.includes(extension)) {
+      importFile(file, files.filter(f => f !== file))
+        .then(importedElements => {
+          if (importedElements.length === 0) {
+            alert('No supported geometry was found in the selected file.');
+            return;
+          }
+          addImportedElements(importedElements);
+          onClose();
+        })
+        .catch(error => {
+          console.error('Error importing file:', error);
+          alert(`Failed to import file: ${error instanceof Error ? error.message : error}`);
+        });
+      return;
+    }
+    
     const reader = new FileReader();
     reader.onload = (event) => {
       try {
@@ -148,6 +205,7 @@ export default function ImportExportDialog({
                     className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
                   >
                     <option value="json">JSON (.json)</option>
+                    <option value="dxf">DXF (.dxf)</option>
                     <option value="stl">STL (.stl)</option>
                     <option value="obj">OBJ (.obj)</option>
                     <option value="step">STEP (.step)</option>
@@ -196,7 +254,8 @@ export default function ImportExportDialog({
                             id="file-upload"
                             name="file-upload"
                             type="file"
-                            accept=".json,.cad,.stl,.obj,.step"
+                            accept=".json,.cad,.dxf,.stl,.obj,.mtl,.step,.stp"
+                            multiple
                             className="sr-only"
                             onChange={handleFileSelection}
                           />
@@ -204,7 +263,7 @@ export default function ImportExportDialog({
                         <p className="pl-1">or drag and drop</p>
                       </div>
                       <p className="text-xs text-gray-500">
-                        JSON, STL, OBJ, STEP or CAD/CAM FUN files
+                        JSON, DXF, STL, OBJ (with MTL), STEP (.step/.stp) or CAD/CAM FUN files
                       </p>
                     </div>
                   </div>
@@ -11,6 +11,23 @@ import {
   UpdateMachineConfigDto,
   CreateMachineConfigDto
 } from 'src/lib/api/machineConfigApi';
+import { MachineKinematics } from 'src/types/machineConfig';
+import { kinematicsFromMachineConfig } from 'src/components/cam/toolpathUtils/cycleTimeEstimator';
+
+// Campi del form per la cinematica, con i valori di default dello stimatore
+const kinematicsFormState = (kinematics?: Partial<MachineKinematics>) => {
+  const resolved = kinematicsFromMachineConfig({ kinematics });
+  return {
+    rapidRateXY: resolved.rapidRates.x,
+    rapidRateZ: resolved.rapidRates.z,
+    accelerationXY: resolved.accelerations.x,
+    accelerationZ: resolved.accelerations.z,
+    jerk: resolved.jerk,
+    cornerTolerance: resolved.cornerTolerance,
+    toolChangeTime: resolved.toolChangeTime,
+    spindleAcceleration: resolved.spindleAcceleration
+  };
+};
 
 const MachineConfigManager: React.FC = () => {
   const { selectedMachine, setSelectedMachine } = useCADStore();
@@ -27,7 +44,8 @@ const MachineConfigManager: React.FC = () => {
     volumeY: 200,
     volumeZ: 100,
     maxSpindleSpeed: 10000,
-    maxFeedRate: 5000
+    maxFeedRate: 5000,
+    ...kinematicsFormState()
   });
 
   // Fetch machine configurations
@@ -72,7 +90,8 @@ const MachineConfigManager: React.FC = () => {
       volumeY: config.config?.workVolume?.y || 200,
       volumeZ: config.config?.workVolume?.z || 100,
       maxSpindleSpeed: config.config?.maxSpindleSpeed || 10000,
-      maxFeedRate: config.config?.maxFeedRate || 5000
+      maxFeedRate: config.config?.maxFeedRate || 5000,
+      ...kinematicsFormState(config.config?.kinematics)
     });
   };
 
@@ -92,7 +111,15 @@ const MachineConfigManager: React.FC = () => {
             z: formState.volumeZ
           },
           maxSpindleSpeed: formState.maxSpindleSpeed,
-          maxFeedRate: formState.maxFeedRate
+          maxFeedRate: formState.maxFeedRate,
+          kinematics: {
+            rapidRates: { x: formState.rapidRateXY, y: formState.rapidRateXY, z: formState.rapidRateZ },
+            accelerations: { x: formState.accelerationXY, y: formState.accelerationXY, z: formState.accelerationZ },
+            jerk: formState.jerk,
+            cornerTolerance: formState.cornerTolerance,
+            toolChangeTime: formState.toolChangeTime,
+            spindleAcceleration: formState.spindleAcceleration
+          }
         }
       };
       
@@ -155,7 +182,8 @@ const MachineConfigManager: React.FC = () => {
       volumeY: 200,
       volumeZ: 100,
       maxSpindleSpeed: 10000,
-      maxFeedRate: 5000
+      maxFeedRate: 5000,
+      ...kinematicsFormState()
     });
     setIsEditing(false);
     setEditingConfig(null);
@@ -256,6 +284,94 @@ const MachineConfigManager: React.FC = () => {
               </div>
             </div>
           </div>
+          
+          <div className="col-span-2">
+            <h5 className="text-sm font-medium text-gray-700">Cinematica</h5>
+            <div className="grid grid-cols-2 gap-4 mt-2">
+              <div>
+                <label className="block text-xs text-gray-500">Rapido XY (mm/min)</label>
+                <input
+                  type="number"
+                  name="rapidRateXY"
+                  value={formState.rapidRateXY}
+                  onChange={handleInputChange}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500">Rapido Z (mm/min)</label>
+                <input
+                  type="number"
+                  name="rapidRateZ"
+                  value={formState.rapidRateZ}
+                  onChange={handleInputChange}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500">Accelerazione XY (mm/s²)</label>
+                <input
+                  type="number"
+                  name="accelerationXY"
+                  value={formState.accelerationXY}
+                  onChange={handleInputChange}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500">Accelerazione Z (mm/s²)</label>
+                <input
+                  type="number"
+                  name="accelerationZ"
+                  value={formState.accelerationZ}
+                  onChange={handleInputChange}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500">Jerk (mm/s³)</label>
+                <input
+                  type="number"
+                  name="jerk"
+                  value={formState.jerk}
+                  onChange={handleInputChange}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500">Tolleranza Spigoli (mm)</label>
+                <input
+                  type="number"
+                  name="cornerTolerance"
+                  step="0.01"
+                  value={formState.cornerTolerance}
+                  onChange={handleInputChange}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500">Cambio Utensile (s)</label>
+                <input
+                  type="number"
+                  name="toolChangeTime"
+                  step="0.5"
+                  value={formState.toolChangeTime}
+                  onChange={handleInputChange}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500">Accelerazione Mandrino (RPM/s)</label>
+                <input
+                  type="number"
+                  name="spindleAcceleration"
+                  value={formState.spindleAcceleration}
+                  onChange={handleInputChange}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            </div>
+          </div>
         </div>
         
         <div className="flex justify-end space-x-2">
@@ -1,7 +1,10 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useConstraints } from '../../contexts/ConstraintContext';
+import { useElementsStore } from '../../store/elementsStore';
 import ModelTimeline from './timeline/ModelTimeline';
 import HistoryBrowser from './timeline/HistoryBrowser';
+import ConstraintDiagnostics from './timeline/ConstraintDiagnostics';
+import ParametersTable from './timeline/ParametersTable';
 import { Constraint, ParametricParameter } from '../../types/constraints';
 
 /**
@@ -14,11 +17,25 @@ export default function ParametricModelingPanel() {
     addConstraint, 
     updateConstraint, 
     removeConstraint,
-    updateParameter 
+    updateParameter,
+    addParameter,
+    setParameterExpression,
+    removeParameter,
+    bindElementProperty,
+    removeBinding,
+    addConfiguration,
+    applyConfiguration,
+    removeConfiguration,
+    revision
   } = useConstraints();
+  const { elements, selectElement } = useElementsStore();
   
   const [selectedEntityIds, setSelectedEntityIds] = useState<string[]>([]);
-  const [activeTab, setActiveTab] = useState<'timeline' | 'browser'>('timeline');
+  const [activeTab, setActiveTab] = useState<'timeline' | 'browser' | 'parameters' | 'diagnostics'>('timeline');
+  
+  // Degrees of freedom after the last solve, recomputed when constraints or elements change
+  const dofAnalysis = useMemo(() => constraintEngine.analyzeDegreesOfFreedom(), [constraintEngine, revision, elements]);
+  const hasConflicts = dofAnalysis.conflictingConstraintIds.length > 0;
   
   // Handle adding a new constraint from the UI
   const handleAddConstraint = (constraint: Constraint) => {
@@ -67,6 +84,27 @@ export default function ParametricModelingPanel() {
         >
           Constraints
         </button>
+        <button
+          className={`px-4 py-2 text-sm font-medium ${
+            activeTab === 'parameters' 
+              ? 'text-blue-600 border-b-2 border-blue-600' 
+              : 'text-gray-600 hover:text-gray-800'
+          }`}
+          onClick={() => setActiveTab('parameters')}
+        >
+          Parameters
+        </button>
+        <button
+          className={`px-4 py-2 text-sm font-medium ${
+            activeTab === 'diagnostics' 
+              ? 'text-blue-600 border-b-2 border-blue-600' 
+              : 'text-gray-600 hover:text-gray-800'
+          }`}
+          onClick={() => setActiveTab('diagnostics')}
+        >
+          DOF
+          {hasConflicts && <span className="ml-1 inline-block w-2 h-2 rounded-full bg-red-600" />}
+        </button>
       </div>
       
       <div className="flex-grow overflow-hidden">
@@ -76,6 +114,29 @@ export default function ParametricModelingPanel() {
             onHistoryItemSelected={handleHistoryItemSelected}
             onRollbackToItem={handleRollbackToItem}
           />
+        ) : activeTab === 'parameters' ? (
+          <ParametersTable
+            parameters={constraintEngine.getAllParameters()}
+            bindings={constraintEngine.getBindings()}
+            configurations={constraintEngine.getConfigurations()}
+            elements={elements}
+            onAddParameter={(name, expression) => addParameter({ name, value: 0, expression, constraints: [] })}
+            onSetExpression={setParameterExpression}
+            onRemoveParameter={removeParameter}
+            onBindProperty={bindElementProperty}
+            onRemoveBinding={removeBinding}
+            onSaveConfiguration={name => addConfiguration(name)}
+            onApplyConfiguration={applyConfiguration}
+            onRemoveConfiguration={removeConfiguration}
+          />
+        ) : activeTab === 'diagnostics' ? (
+          <ConstraintDiagnostics
+            analysis={dofAnalysis}
+            constraints={constraintEngine.getAllConstraints()}
+            elements={elements}
+            onRemoveConstraint={removeConstraint}
+            onSelectEntity={selectElement}
+          />
         ) : (
           <HistoryBrowser
             constraintEngine={constraintEngine}
@@ -86,7 +147,9 @@ export default function ParametricModelingPanel() {
       </div>
       
       <div className="bg-gray-50 border-t p-2 text-xs text-gray-500">
-        Tip: Use constraints to create parametric relationships between CAD elements
+        {dofAnalysis.sketches.length > 0
+          ? `${dofAnalysis.totalDegreesOfFreedom} degrees of freedom remaining${hasConflicts ? ' - some constraints are in conflict' : ''}`
+          : 'Tip: Use constraints to create parametric relationships between CAD elements'}
       </div>
     </div>
   );
@@ -0,0 +1,151 @@
+import React from 'react';
+import { Constraint, DegreesOfFreedomAnalysis, EntityConstraintState, SketchStatus } from '../../../types/constraints';
+import { Element } from '../../../store/elementsStore';
+
+interface ConstraintDiagnosticsProps {
+  analysis: DegreesOfFreedomAnalysis;
+  constraints: Constraint[];
+  elements: Element[];
+  onRemoveConstraint?: (constraintId: string) => void;
+  onSelectEntity?: (elementId: string) => void;
+  className?: string;
+}
+
+// Same colours the canvas uses for the constraint state of elements
+const STATE_COLORS: Record<EntityConstraintState, string> = {
+  'under-constrained': 'bg-blue-600',
+  'fully-constrained': 'bg-black',
+  'conflicting': 'bg-red-600'
+};
+
+const STATUS_LABELS: Record<SketchStatus, { label: string; className: string }> = {
+  'under-constrained': { label: 'Under-constrained', className: 'text-blue-600' },
+  'fully-constrained': { label: 'Fully constrained', className: 'text-gray-900' },
+  'over-constrained': { label: 'Over-constrained', className: 'text-red-600' },
+  'invalid': { label: 'Cannot be solved', className: 'text-red-600' }
+};
+
+/**
+ * Degrees-of-freedom report for the sketches: how constrained each sketch and
+ * element is, and which constraints are redundant or in conflict
+ */
+export default function ConstraintDiagnostics({
+  analysis,
+  constraints,
+  elements,
+  onRemoveConstraint,
+  onSelectEntity,
+  className = ''
+}: ConstraintDiagnosticsProps) {
+  const elementName = (id: string) => {
+    const element = elements.find(el => el.id === id);
+    return element ? element.name || `${element.type} ${id.slice(0, 6)}` : id.slice(0, 8);
+  };
+
+  const describeConstraint = (id: string) => {
+    const constraint = constraints.find(c => c.id === id);
+    if (!constraint) return id.slice(0, 8);
+    const entities = constraint.entityIds.map(reference => {
+      const [elementId, part] = reference.split(':');
+      return part ? `${elementName(elementId)} (${part})` : elementName(elementId);
+    });
+    return `${constraint.type}: ${entities.join(', ')}`;
+  };
+
+  const renderConstraintList = (title: string, ids: string[], hint: string) => (
+    <div className="bg-white rounded-md shadow-sm p-3 mb-3">
+      <h4 className="font-medium text-gray-700 mb-1">{title}</h4>
+      <p className="text-xs text-gray-500 mb-2">{hint}</p>
+      <ul className="space-y-1">
+        {ids.map(id => (
+          <li key={id} className="text-xs text-gray-700 flex justify-between items-center">
+            <span>{describeConstraint(id)}</span>
+            {onRemoveConstraint && (
+              <button
+                className="text-red-600 hover:text-red-800 ml-2"
+                onClick={() => onRemoveConstraint(id)}
+              >
+                Remove
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+
+  return (
+    <div className={`flex flex-col h-full overflow-y-auto ${className}`}>
+      <div className="bg-white rounded-md shadow-sm p-3 mb-3">
+        <h3 className="text-lg font-medium text-gray-800">Degrees of Freedom</h3>
+        <p className="text-sm text-gray-500">
+          {analysis.totalDegreesOfFreedom} remaining in {analysis.sketches.length} constrained sketch
+          {analysis.sketches.length === 1 ? '' : 'es'}
+        </p>
+        <div className="flex space-x-3 mt-2 text-xs text-gray-500">
+          <span className="flex items-center"><span className="w-2 h-2 rounded-full bg-blue-600 mr-1" />Under</span>
+          <span className="flex items-center"><span className="w-2 h-2 rounded-full bg-black mr-1" />Fully</span>
+          <span className="flex items-center"><span className="w-2 h-2 rounded-full bg-red-600 mr-1" />Conflicting</span>
+        </div>
+      </div>
+
+      {analysis.conflictingConstraintIds.length > 0 && renderConstraintList(
+        'Conflicting constraints',
+        analysis.conflictingConstraintIds,
+        'These cannot be satisfied together with the others and were left out of the solution'
+      )}
+
+      {analysis.redundantConstraintIds.length > 0 && renderConstraintList(
+        'Redundant constraints',
+        analysis.redundantConstraintIds,
+        'Already implied by other constraints; removing them does not change the sketch'
+      )}
+
+      <div className="bg-white rounded-md shadow-sm p-3 mb-3">
+        <h4 className="font-medium text-gray-700 mb-2">Sketches</h4>
+        {analysis.sketches.length === 0 ? (
+          <p className="text-sm text-gray-500">No constraints applied yet</p>
+        ) : (
+          <ul className="space-y-1">
+            {analysis.sketches.map((sketch, index) => (
+              <li key={sketch.constraintIds[0] || index} className="text-xs flex justify-between">
+                <span className="text-gray-700">
+                  Sketch {index + 1} ({sketch.elementIds.length} elements, {sketch.constraintIds.length} constraints)
+                </span>
+                <span className={STATUS_LABELS[sketch.status].className} title={sketch.error}>
+                  {STATUS_LABELS[sketch.status].label}
+                  {sketch.status === 'under-constrained' ? `, ${sketch.degreesOfFreedom} DOF` : ''}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="bg-white rounded-md shadow-sm p-3">
+        <h4 className="font-medium text-gray-700 mb-2">Elements</h4>
+        {analysis.entities.length === 0 ? (
+          <p className="text-sm text-gray-500">No sketch elements</p>
+        ) : (
+          <ul className="space-y-1">
+            {analysis.entities.map(entity => (
+              <li
+                key={entity.elementId}
+                className="text-xs text-gray-700 flex justify-between items-center cursor-pointer hover:bg-gray-50"
+                onClick={() => onSelectEntity?.(entity.elementId)}
+              >
+                <span className="flex items-center">
+                  <span className={`w-2 h-2 rounded-full mr-2 ${STATE_COLORS[entity.state]}`} />
+                  {elementName(entity.elementId)}
+                </span>
+                <span className="text-gray-500">
+                  {entity.degreesOfFreedom} / {entity.parameterCount} DOF
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -25,7 +25,9 @@ export default function HistoryBrowser({
   const [constraints, setConstraints] = useState<Constraint[]>([]);
   const [selectedEntityIds, setSelectedEntityIds] = useState<string[]>([]);
   const [selectedConstraintType, setSelectedConstraintType] = useState<ConstraintType | null>(null);
-  const [constraintValue, setConstraintValue] = useState<number>(0);
+  // A number, or an expression over named parameters such as "2 * hole_d"
+  const [constraintValue, setConstraintValue] = useState<string>('0');
+  const [constraintError, setConstraintError] = useState<string | null>(null);
   const [constraintUnit, setConstraintUnit] = useState<string>('mm');
   
   // Load constraints and parameters when engine changes
@@ -65,6 +67,9 @@ export default function HistoryBrowser({
     }
     
     let constraint: Constraint | null = null;
+    const numericValue = Number(constraintValue);
+    const isExpression = constraintValue.trim() !== '' && isNaN(numericValue);
+    const value = isExpression ? 0 : numericValue;
     
     // Create constraint based on type and selected entities
     switch (selectedConstraintType) {
@@ -100,7 +105,7 @@ export default function HistoryBrowser({
           constraint = DimensionalConstraintHelper.createDistanceConstraint(
             selectedEntityIds[0],
             selectedEntityIds[1],
-            constraintValue,
+            value,
             constraintUnit
           );
         }
@@ -111,7 +116,7 @@ export default function HistoryBrowser({
           constraint = DimensionalConstraintHelper.createAngleConstraint(
             selectedEntityIds[0],
             selectedEntityIds[1],
-            constraintValue,
+            value,
             'deg'
           );
         }
@@ -121,7 +126,7 @@ export default function HistoryBrowser({
         if (selectedEntityIds.length === 1) {
           constraint = DimensionalConstraintHelper.createRadiusConstraint(
             selectedEntityIds[0],
-            constraintValue,
+            value,
             constraintUnit
           );
         }
@@ -147,12 +152,22 @@ export default function HistoryBrowser({
         break;
     }
     
+    if (constraint && isExpression) {
+      constraint = { ...constraint, expression: constraintValue.trim() };
+    }
+    
     if (constraint && onAddConstraint) {
-      onAddConstraint(constraint);
+      try {
+        onAddConstraint(constraint);
+      } catch (error) {
+        setConstraintError(error instanceof Error ? error.message : String(error));
+        return;
+      }
       
       // Reset selection after constraint creation
       setSelectedEntityIds([]);
-      setConstraintValue(0);
+      setConstraintValue('0');
+      setConstraintError(null);
     }
   };
   
@@ -360,11 +375,10 @@ export default function HistoryBrowser({
               <div className="flex-grow">
                 <label className="block text-sm text-gray-500 mb-1">Value</label>
                 <input
-                  type="number"
+                  type="text"
                   value={constraintValue}
-                  onChange={(e) => setConstraintValue(parseFloat(e.target.value))}
-                  min={0}
-                  step={selectedConstraintType === ConstraintType.ANGLE ? 5 : 0.1}
+                  onChange={(e) => setConstraintValue(e.target.value)}
+                  placeholder="10 or 2 * hole_d"
                   className="w-full px-2 py-1 border rounded text-sm"
                 />
               </div>
@@ -393,6 +407,10 @@ export default function HistoryBrowser({
             </div>
           )}
           
+          {constraintError && (
+            <p className="text-xs text-red-600">{constraintError}</p>
+          )}
+          
           {/* Create constraint button */}
           <button
             className={`w-full py-2 rounded-md text-sm font-medium ${
@@ -0,0 +1,282 @@
+import React, { useState } from 'react';
+import { ParameterConfiguration, ParametricBinding, ParametricParameter } from '../../../types/constraints';
+import { Element } from '../../../store/elementsStore';
+import { parseAssignment } from '../../../lib/constraints/ParameterExpressions';
+
+interface ParametersTableProps {
+  parameters: ParametricParameter[];
+  bindings: ParametricBinding[];
+  configurations: ParameterConfiguration[];
+  elements: Element[];
+  onAddParameter: (name: string, expression: string) => void;
+  onSetExpression: (parameterId: string, expression: string | undefined) => void;
+  onRemoveParameter: (parameterId: string) => void;
+  onBindProperty: (elementId: string, property: string, expression: string) => void;
+  onRemoveBinding: (bindingId: string) => void;
+  onSaveConfiguration: (name: string) => void;
+  onApplyConfiguration: (configurationId: string) => void;
+  onRemoveConfiguration: (configurationId: string) => void;
+  className?: string;
+}
+
+const formatValue = (value: number) => String(parseFloat(value.toPrecision(10)));
+
+/**
+ * Table of named parameters driven by expressions ("width = 2*hole_d + 10 mm"),
+ * the element properties they drive, and saved configurations of a part family.
+ * The callbacks may throw; their messages are shown inline.
+ */
+export default function ParametersTable({
+  parameters,
+  bindings,
+  configurations,
+  elements,
+  onAddParameter,
+  onSetExpression,
+  onRemoveParameter,
+  onBindProperty,
+  onRemoveBinding,
+  onSaveConfiguration,
+  onApplyConfiguration,
+  onRemoveConfiguration,
+  className = ''
+}: ParametersTableProps) {
+  const [newParameter, setNewParameter] = useState('');
+  const [editing, setEditing] = useState<{ id: string; expression: string } | null>(null);
+  const [bindingElementId, setBindingElementId] = useState('');
+  const [bindingProperty, setBindingProperty] = useState('');
+  const [bindingExpression, setBindingExpression] = useState('');
+  const [configurationName, setConfigurationName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Run an action, showing its error instead of letting it escape
+  const attempt = (action: () => void): boolean => {
+    try {
+      action();
+      setError(null);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return false;
+    }
+  };
+
+  const handleAddParameter = () => {
+    if (attempt(() => {
+      const { name, expression } = parseAssignment(newParameter);
+      onAddParameter(name, expression);
+    })) {
+      setNewParameter('');
+    }
+  };
+
+  const commitEdit = () => {
+    if (!editing) return;
+    const expression = editing.expression.trim();
+    if (attempt(() => onSetExpression(editing.id, expression === '' ? undefined : expression))) {
+      setEditing(null);
+    }
+  };
+
+  const handleBindProperty = () => {
+    if (attempt(() => onBindProperty(bindingElementId, bindingProperty.trim(), bindingExpression))) {
+      setBindingProperty('');
+      setBindingExpression('');
+    }
+  };
+
+  const handleSaveConfiguration = () => {
+    if (attempt(() => onSaveConfiguration(configurationName.trim()))) {
+      setConfigurationName('');
+    }
+  };
+
+  const elementName = (id: string) => {
+    const element = elements.find(el => el.id === id);
+    return element ? element.name || `${element.type} ${id.slice(0, 6)}` : id.slice(0, 8);
+  };
+
+  return (
+    <div className={`flex flex-col h-full overflow-y-auto ${className}`}>
+      {error && (
+        <div className="bg-red-50 text-red-700 text-sm rounded-md p-2 mb-3">{error}</div>
+      )}
+
+      <div className="bg-white rounded-md shadow-sm p-3 mb-3">
+        <h3 className="text-lg font-medium text-gray-800 mb-2">Parameters</h3>
+        {parameters.length === 0 ? (
+          <p className="text-sm text-gray-500 mb-2">No parameters defined yet</p>
+        ) : (
+          <table className="w-full text-sm mb-2">
+            <thead>
+              <tr className="text-left text-xs text-gray-500">
+                <th className="font-medium pb-1">Name</th>
+                <th className="font-medium pb-1">Expression</th>
+                <th className="font-medium pb-1 text-right">Value</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {parameters.map(parameter => (
+                <tr key={parameter.id} className="border-t align-top">
+                  <td className="py-1 pr-2 font-mono text-gray-800">{parameter.name}</td>
+                  <td className="py-1 pr-2">
+                    {editing?.id === parameter.id ? (
+                      <input
+                        autoFocus
+                        className="w-full border rounded px-1 font-mono text-xs"
+                        value={editing.expression}
+                        onChange={(e) => setEditing({ id: parameter.id, expression: e.target.value })}
+                        onBlur={commitEdit}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitEdit();
+                          if (e.key === 'Escape') setEditing(null);
+                        }}
+                      />
+                    ) : (
+                      <button
+                        className="w-full text-left font-mono text-xs text-gray-700 hover:bg-gray-50"
+                        title="Edit expression; leave empty to keep the current value"
+                        onClick={() => setEditing({ id: parameter.id, expression: parameter.expression ?? '' })}
+                      >
+                        {parameter.expression ?? <span className="text-gray-400">value</span>}
+                      </button>
+                    )}
+                    {parameter.error && <div className="text-xs text-red-600">{parameter.error}</div>}
+                  </td>
+                  <td className="py-1 pr-2 text-right whitespace-nowrap">
+                    {formatValue(parameter.value)} {parameter.unit}
+                  </td>
+                  <td className="py-1 text-right">
+                    <button
+                      className="text-red-600 hover:text-red-800 text-xs"
+                      onClick={() => attempt(() => onRemoveParameter(parameter.id))}
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <div className="flex">
+          <input
+            className="flex-grow border rounded-l px-2 py-1 font-mono text-xs"
+            placeholder="width = 2*hole_d + 10 mm"
+            value={newParameter}
+            onChange={(e) => setNewParameter(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddParameter()}
+          />
+          <button
+            className="px-3 py-1 bg-blue-600 text-white text-xs rounded-r disabled:opacity-50"
+            disabled={newParameter.trim() === ''}
+            onClick={handleAddParameter}
+          >
+            Add
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-md shadow-sm p-3 mb-3">
+        <h4 className="font-medium text-gray-700 mb-2">Driven properties</h4>
+        {bindings.length > 0 && (
+          <ul className="space-y-1 mb-2">
+            {bindings.map(binding => (
+              <li key={binding.id} className="text-xs text-gray-700">
+                <div className="flex justify-between items-center">
+                  <span>
+                    {elementName(binding.elementId)}.{binding.property} = <span className="font-mono">{binding.expression}</span>
+                  </span>
+                  <button
+                    className="text-red-600 hover:text-red-800 ml-2"
+                    onClick={() => attempt(() => onRemoveBinding(binding.id))}
+                  >
+                    Remove
+                  </button>
+                </div>
+                {binding.error && <div className="text-red-600">{binding.error}</div>}
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="grid grid-cols-3 gap-1">
+          <select
+            className="border rounded px-1 py-1 text-xs"
+            value={bindingElementId}
+            onChange={(e) => setBindingElementId(e.target.value)}
+          >
+            <option value="">Element...</option>
+            {elements.map(element => (
+              <option key={element.id} value={element.id}>{elementName(element.id)}</option>
+            ))}
+          </select>
+          <input
+            className="border rounded px-1 py-1 text-xs"
+            placeholder="radius"
+            value={bindingProperty}
+            onChange={(e) => setBindingProperty(e.target.value)}
+          />
+          <input
+            className="border rounded px-1 py-1 font-mono text-xs"
+            placeholder="hole_d / 2"
+            value={bindingExpression}
+            onChange={(e) => setBindingExpression(e.target.value)}
+          />
+        </div>
+        <button
+          className="mt-1 w-full px-3 py-1 bg-gray-100 text-gray-700 text-xs rounded hover:bg-gray-200 disabled:opacity-50"
+          disabled={!bindingElementId || bindingProperty.trim() === '' || bindingExpression.trim() === ''}
+          onClick={handleBindProperty}
+        >
+          Drive property
+        </button>
+      </div>
+
+      <div className="bg-white rounded-md shadow-sm p-3">
+        <h4 className="font-medium text-gray-700 mb-1">Configurations</h4>
+        <p className="text-xs text-gray-500 mb-2">Saved parameter sets for the sizes of a part family</p>
+        {configurations.length > 0 && (
+          <ul className="space-y-1 mb-2">
+            {configurations.map(configuration => (
+              <li key={configuration.id} className="text-xs text-gray-700 flex justify-between items-center">
+                <span title={Object.keys(configuration.values).map(name => `${name} = ${configuration.values[name]}`).join('\n')}>
+                  {configuration.name}
+                </span>
+                <span>
+                  <button
+                    className="text-blue-600 hover:text-blue-800"
+                    onClick={() => attempt(() => onApplyConfiguration(configuration.id))}
+                  >
+                    Apply
+                  </button>
+                  <button
+                    className="text-red-600 hover:text-red-800 ml-2"
+                    onClick={() => attempt(() => onRemoveConfiguration(configuration.id))}
+                  >
+                    Remove
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex">
+          <input
+            className="flex-grow border rounded-l px-2 py-1 text-xs"
+            placeholder="Configuration name"
+            value={configurationName}
+            onChange={(e) => setConfigurationName(e.target.value)}
+          />
+          <button
+            className="px-3 py-1 bg-blue-600 text-white text-xs rounded-r disabled:opacity-50"
+            disabled={configurationName.trim() === '' || parameters.length === 0}
+            onClick={handleSaveConfiguration}
+          >
+            Save current
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
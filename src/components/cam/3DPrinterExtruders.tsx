@@ -0,0 +1,239 @@
+import React from 'react';
+import { Layer } from 'src/store/layerStore';
+import { ExtruderSettings, MAX_EXTRUDERS, MultiExtruderSettings } from 'src/lib/toolpath/multiExtruder';
+
+interface PrinterExtrudersProps {
+  multiExtruderSettings: MultiExtruderSettings;
+  updateMultiExtruderSettings: <K extends keyof MultiExtruderSettings>(key: K, value: MultiExtruderSettings[K]) => void;
+  updateExtruderSettings: <K extends keyof ExtruderSettings>(index: number, key: K, value: ExtruderSettings[K]) => void;
+  /** Elements that can be assigned, with the children of groups and composites */
+  elements: any[];
+  layers: Layer[];
+}
+
+const inputClassName = 'w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500';
+
+// Numeric fields of each extruder
+const EXTRUDER_FIELDS: { key: keyof ExtruderSettings; label: string; min: number; step: number }[] = [
+  { key: 'temperature', label: 'Temp. (°C)', min: 0, step: 5 },
+  { key: 'standbyTemperature', label: 'Standby (°C)', min: 0, step: 5 },
+  { key: 'retractionDistance', label: 'Retract (mm)', min: 0, step: 0.5 },
+  { key: 'retractionSpeed', label: 'Retract (mm/s)', min: 1, step: 5 },
+  { key: 'toolChangeRetraction', label: 'Park (mm)', min: 0, step: 1 }
+];
+
+// Elements and their children, with their depth in the tree
+function flattenElements(elements: any[], depth = 0): { element: any; depth: number }[] {
+  const flat: { element: any; depth: number }[] = [];
+  elements.forEach(element => {
+    if (!element) return;
+    flat.push({ element, depth });
+    if (Array.isArray(element.elements)) flat.push(...flattenElements(element.elements, depth + 1));
+  });
+  return flat;
+}
+
+const PrinterExtruders: React.FC<PrinterExtrudersProps> = ({
+  multiExtruderSettings,
+  updateMultiExtruderSettings,
+  updateExtruderSettings,
+  elements,
+  layers
+}) => {
+  const { count, assignBy, assignments } = multiExtruderSettings;
+  const extruderOptions = Array.from({ length: count }, (_, index) => index);
+
+  const assign = (id: string, value: string) => {
+    const next = { ...assignments };
+    if (value === '') delete next[id];
+    else next[id] = parseInt(value);
+    updateMultiExtruderSettings('assignments', next);
+  };
+
+  const extruderSelect = (value: number, onChange: (value: number) => void) => (
+    <select className={inputClassName} value={value} onChange={(e) => onChange(parseInt(e.target.value))}>
+      {extruderOptions.map(index => (
+        <option key={index} value={index}>T{index}</option>
+      ))}
+    </select>
+  );
+
+  const targets = assignBy === 'layer'
+    ? layers.map(layer => ({ id: layer.id, label: layer.name, depth: 0 }))
+    : flattenElements(elements).map(({ element, depth }) => ({
+      id: element.id,
+      label: `${element.type}: ${element.name || String(element.id).substring(0, 8)}`,
+      depth
+    }));
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Extruders
+        </label>
+        <select
+          className={inputClassName}
+          value={count}
+          onChange={(e) => updateMultiExtruderSettings('count', parseInt(e.target.value))}
+        >
+          {Array.from({ length: MAX_EXTRUDERS }, (_, index) => index + 1).map(value => (
+            <option key={value} value={value}>{value === 1 ? 'Single extruder' : `${value} extruders (T0-T${value - 1})`}</option>
+          ))}
+        </select>
+      </div>
+
+      {count > 1 && (
+        <>
+          {/* Temperatures and retraction of each extruder */}
+          <div className="space-y-2">
+            {extruderOptions.map(index => (
+              <div key={index} className="grid grid-cols-6 gap-2 items-end">
+                <div className="text-sm font-medium text-gray-700 pb-2">T{index}</div>
+                {EXTRUDER_FIELDS.map(field => (
+                  <div key={field.key}>
+                    {index === 0 && <label className="block text-xs text-gray-600 mb-1">{field.label}</label>}
+                    <input
+                      type="number"
+                      min={field.min}
+                      step={field.step}
+                      className={inputClassName}
+                      value={multiExtruderSettings.extruders[index][field.key]}
+                      onChange={(e) => {
+                        const value = parseFloat(e.target.value);
+                        if (!isNaN(value) && value >= field.min) {
+                          updateExtruderSettings(index, field.key, value);
+                        }
+                      }}
+                    />
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Support Extruder
+              </label>
+              {extruderSelect(multiExtruderSettings.supportExtruder, value => updateMultiExtruderSettings('supportExtruder', value))}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Interface Extruder
+              </label>
+              {extruderSelect(multiExtruderSettings.supportInterfaceExtruder, value => updateMultiExtruderSettings('supportInterfaceExtruder', value))}
+            </div>
+          </div>
+
+          {/* Assignment of elements or layers */}
+          <div className="space-y-2">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Assign By
+                </label>
+                <select
+                  className={inputClassName}
+                  value={assignBy}
+                  onChange={(e) => updateMultiExtruderSettings('assignBy', e.target.value as 'element' | 'layer')}
+                >
+                  <option value="element">Element</option>
+                  <option value="layer">Layer</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Default Extruder
+                </label>
+                {extruderSelect(multiExtruderSettings.defaultExtruder, value => updateMultiExtruderSettings('defaultExtruder', value))}
+              </div>
+            </div>
+            {targets.length === 0 ? (
+              <p className="text-xs text-gray-500">Nothing to assign.</p>
+            ) : (
+              <ul className="max-h-48 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-100">
+                {targets.map(target => (
+                  <li key={target.id} className="flex items-center justify-between px-2 py-1 text-sm">
+                    <span className="truncate text-gray-700" style={{ paddingLeft: target.depth * 12 }}>{target.label}</span>
+                    <select
+                      className="ml-2 p-1 border border-gray-300 rounded-md text-xs"
+                      value={assignments[target.id] ?? ''}
+                      onChange={(e) => assign(target.id, e.target.value)}
+                    >
+                      <option value="">{target.depth > 0 ? 'Parent' : 'Default'}</option>
+                      {extruderOptions.map(index => (
+                        <option key={index} value={index}>T{index}</option>
+                      ))}
+                    </select>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Prime tower and ooze shield */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="flex items-center text-sm font-medium text-gray-700 mb-1">
+                <input
+                  type="checkbox"
+                  className="mr-2"
+                  checked={multiExtruderSettings.primeTower.enabled}
+                  onChange={(e) => updateMultiExtruderSettings('primeTower', { ...multiExtruderSettings.primeTower, enabled: e.target.checked })}
+                />
+                Prime Tower (mm)
+              </label>
+              <input
+                type="number"
+                min="5"
+                step="1"
+                className={inputClassName}
+                disabled={!multiExtruderSettings.primeTower.enabled}
+                value={multiExtruderSettings.primeTower.size}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (!isNaN(value) && value > 0) {
+                    updateMultiExtruderSettings('primeTower', { ...multiExtruderSettings.primeTower, size: value });
+                  }
+                }}
+              />
+            </div>
+            <div>
+              <label className="flex items-center text-sm font-medium text-gray-700 mb-1">
+                <input
+                  type="checkbox"
+                  className="mr-2"
+                  checked={multiExtruderSettings.oozeShield.enabled}
+                  onChange={(e) => updateMultiExtruderSettings('oozeShield', { ...multiExtruderSettings.oozeShield, enabled: e.target.checked })}
+                />
+                Ooze Shield (mm)
+              </label>
+              <input
+                type="number"
+                min="0.5"
+                step="0.5"
+                className={inputClassName}
+                disabled={!multiExtruderSettings.oozeShield.enabled}
+                value={multiExtruderSettings.oozeShield.distance}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (!isNaN(value) && value > 0) {
+                    updateMultiExtruderSettings('oozeShield', { ...multiExtruderSettings.oozeShield, distance: value });
+                  }
+                }}
+              />
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            The extruder temperatures replace the print temperature. Without a selected element, the elements of the visible layers are printed.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PrinterExtruders;
@@ -1,5 +1,7 @@
 // 3DPrinterIntegration.tsx
 import React, { useState } from 'react';
+import { DEFAULT_SUPPORT_SETTINGS, SupportSettings } from 'src/lib/toolpath/printSupports';
+import { DEFAULT_MULTI_EXTRUDER_SETTINGS, ExtruderSettings, MultiExtruderSettings } from 'src/lib/toolpath/multiExtruder';
 
 // This component handles state management for 3D printer settings
 // to be shared between the ToolpathGenerator and render3DPrinterSection components
@@ -8,18 +10,26 @@ interface PrinterSettingsState {
   infillDensity: number;
   infillPattern: 'grid' | 'lines' | 'triangles' | 'honeycomb';
   supportType: 'none' | 'minimal' | 'full';
+  supportSettings: SupportSettings;
   shellCount: number;
   printResolution: 'standard' | 'high' | 'low';
   printOrientation: 'original' | 'auto-optimal';
+  /** Rotation chosen among the orientation candidates; null prints the best one */
+  printRotation: number[] | null;
+  multiExtruderSettings: MultiExtruderSettings;
 }
 
 interface PrinterIntegrationOutput extends PrinterSettingsState {
   setInfillDensity: (value: number) => void;
   setInfillPattern: (value: 'grid' | 'lines' | 'triangles' | 'honeycomb') => void;
   setSupportType: (value: 'none' | 'minimal' | 'full') => void;
+  updateSupportSettings: <K extends keyof SupportSettings>(key: K, value: SupportSettings[K]) => void;
   setShellCount: (value: number) => void;
   setPrintResolution: (value: 'standard' | 'high' | 'low') => void;
   setPrintOrientation: (value: 'original' | 'auto-optimal') => void;
+  setPrintRotation: (value: number[] | null) => void;
+  updateMultiExtruderSettings: <K extends keyof MultiExtruderSettings>(key: K, value: MultiExtruderSettings[K]) => void;
+  updateExtruderSettings: <K extends keyof ExtruderSettings>(index: number, key: K, value: ExtruderSettings[K]) => void;
 }
 
 // Hook to be used in ToolpathGenerator
@@ -27,9 +37,12 @@ export function use3DPrinterSettings(): PrinterIntegrationOutput {
   const [infillDensity, setInfillDensity] = useState<number>(20);
   const [infillPattern, setInfillPattern] = useState<'grid' | 'lines' | 'triangles' | 'honeycomb'>('grid');
   const [supportType, setSupportType] = useState<'none' | 'minimal' | 'full'>('minimal');
+  const [supportSettings, setSupportSettings] = useState<SupportSettings>(DEFAULT_SUPPORT_SETTINGS);
   const [shellCount, setShellCount] = useState<number>(2);
   const [printResolution, setPrintResolution] = useState<'standard' | 'high' | 'low'>('standard');
   const [printOrientation, setPrintOrientation] = useState<'original' | 'auto-optimal'>('original');
+  const [printRotation, setPrintRotation] = useState<number[] | null>(null);
+  const [multiExtruderSettings, setMultiExtruderSettings] = useState<MultiExtruderSettings>(DEFAULT_MULTI_EXTRUDER_SETTINGS);
   
   return {
     infillDensity,
@@ -38,12 +51,22 @@ export function use3DPrinterSettings(): PrinterIntegrationOutput {
     setInfillPattern,
     supportType,
     setSupportType,
+    supportSettings,
+    updateSupportSettings: (key, value) => setSupportSettings(current => ({ ...current, [key]: value })),
     shellCount,
     setShellCount,
     printResolution,
     setPrintResolution,
     printOrientation,
-    setPrintOrientation
+    setPrintOrientation,
+    printRotation,
+    setPrintRotation,
+    multiExtruderSettings,
+    updateMultiExtruderSettings: (key, value) => setMultiExtruderSettings(current => ({ ...current, [key]: value })),
+    updateExtruderSettings: (index, key, value) => setMultiExtruderSettings(current => ({
+      ...current,
+      extruders: current.extruders.map((extruder, i) => (i === index ? { ...extruder, [key]: value } : extruder))
+    }))
   };
 }
 
@@ -1,5 +1,9 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import { extractElementDimensions } from './3DPrinterToolpathHelpers';
+import { tessellateElement } from 'src/lib/importExport/tessellation';
+import { PrintFeature, SliceResult, sliceMesh } from 'src/lib/toolpath/meshSlicer';
+import { DEFAULT_SUPPORT_SETTINGS, SupportSettings } from 'src/lib/toolpath/printSupports';
+import { orientForPrint } from 'src/lib/toolpath/printOrientation';
 
 interface PrinterPreviewProps {
   element: any;
@@ -7,18 +11,62 @@ interface PrinterPreviewProps {
   infillDensity: number;
   shellCount: number;
   supportType: 'none' | 'minimal' | 'full';
+  supportSettings?: SupportSettings;
   infillPattern: 'grid' | 'lines' | 'triangles' | 'honeycomb';
+  printOrientation?: 'original' | 'auto-optimal';
+  printRotation?: number[] | null;
 }
 
+// Colours of the sliced side view
+const FEATURE_COLORS: { feature: PrintFeature; label: string; color: string }[] = [
+  { feature: 'wall-outer', label: 'Model', color: 'rgba(79, 131, 237, 0.8)' },
+  { feature: 'support', label: 'Support', color: 'rgba(100, 200, 100, 0.8)' },
+  { feature: 'support-interface', label: 'Interface', color: 'rgba(30, 130, 60, 0.9)' }
+];
+
 const PrinterPreview: React.FC<PrinterPreviewProps> = ({
   element,
   settings,
   infillDensity,
   shellCount,
   supportType,
-  infillPattern
+  supportSettings = DEFAULT_SUPPORT_SETTINGS,
+  infillPattern,
+  printOrientation = 'original',
+  printRotation = null
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Slice volumes for the side view of model and supports; perimeters and infill are left out to keep it fast
+  const slice = useMemo<SliceResult | null>(() => {
+    if (!element) return null;
+    const tessellated = tessellateElement(element);
+    if (!tessellated) return null;
+    const extrusionWidth = settings.extrusionWidth || settings.nozzleDiameter || 0.4;
+    const { mesh } = orientForPrint(tessellated, printOrientation, printRotation, {
+      overhangAngle: supportSettings.overhangAngle,
+      layerHeight: settings.layerHeight,
+      extrusionWidth,
+      supportDensity: supportSettings.density
+    });
+    return sliceMesh(mesh, {
+      layerHeight: settings.layerHeight || 0.2,
+      extrusionWidth,
+      shellCount: 0,
+      infillDensity: 0,
+      infillPattern: 'lines',
+      topLayers: 0,
+      bottomLayers: 0,
+      resolution: extrusionWidth,
+      supportType,
+      supportStyle: supportSettings.style,
+      supportOverhangAngle: supportSettings.overhangAngle,
+      supportZGap: supportSettings.zGap,
+      supportXYDistance: supportSettings.xyDistance,
+      supportInterfaceLayers: supportSettings.interfaceLayers,
+      supportDensity: supportSettings.density
+    });
+  }, [element, settings.layerHeight, settings.extrusionWidth, settings.nozzleDiameter, supportType, supportSettings, printOrientation, printRotation]);
   
   // Create visualization when element or settings change
   useEffect(() => {
@@ -30,6 +78,11 @@ const PrinterPreview: React.FC<PrinterPreviewProps> = ({
     
     // Clear canvas
     ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    if (slice && slice.layers.length) {
+      drawSliceSideView(ctx, canvas, slice);
+      return;
+    }
     
     // Extract dimensions
     const { width, height, depth } = extractElementDimensions(element);
@@ -65,7 +118,69 @@ const PrinterPreview: React.FC<PrinterPreviewProps> = ({
     });
     
     ctx.restore();
-  }, [element, settings, infillDensity, shellCount, supportType, infillPattern]);
+  }, [element, settings, infillDensity, shellCount, supportType, infillPattern, slice]);
+
+  // Side view (X-Z) of the sliced layers: the extent of the model and of the supports on every layer
+  const drawSliceSideView = (ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, result: SliceResult) => {
+    const { minX, maxX, minZ, maxZ } = result.bounds;
+    const margin = 20;
+    const legendHeight = 20;
+    let left = minX;
+    let right = maxX;
+    result.layers.forEach(layer => layer.paths.forEach(path => path.points.forEach(point => {
+      left = Math.min(left, point.x);
+      right = Math.max(right, point.x);
+    })));
+    const scale = Math.min((canvas.width - margin * 2) / (right - left || 1), (canvas.height - margin * 2 - legendHeight) / (maxZ - minZ || 1));
+    const originX = canvas.width / 2 - ((left + right) / 2) * scale;
+    const bedY = canvas.height - margin;
+
+    // Build plate
+    ctx.fillStyle = 'rgba(200, 200, 200, 0.3)';
+    ctx.fillRect(0, bedY, canvas.width, 6);
+
+    result.layers.forEach(layer => {
+      const y = bedY - layer.z * scale;
+      const thickness = Math.max(1, layer.height * scale);
+      // Model section from its islands, supports from their paths
+      ctx.fillStyle = FEATURE_COLORS[0].color;
+      layer.islands.forEach(island => {
+        let from = Infinity;
+        let to = -Infinity;
+        island.outer.forEach(point => {
+          from = Math.min(from, point.x);
+          to = Math.max(to, point.x);
+        });
+        ctx.fillRect(originX + from * scale, y, (to - from) * scale, thickness);
+      });
+      FEATURE_COLORS.slice(1).forEach(({ feature, color }) => {
+        ctx.fillStyle = color;
+        layer.paths.forEach(path => {
+          if (path.feature !== feature) return;
+          let from = Infinity;
+          let to = -Infinity;
+          path.points.forEach(point => {
+            from = Math.min(from, point.x);
+            to = Math.max(to, point.x);
+          });
+          ctx.fillRect(originX + from * scale, y, Math.max(1, (to - from) * scale), thickness);
+        });
+      });
+    });
+
+    // Legend
+    ctx.font = '10px sans-serif';
+    FEATURE_COLORS.forEach(({ label, color }, index) => {
+      const x = margin + index * 80;
+      ctx.fillStyle = color;
+      ctx.fillRect(x, 6, 10, 10);
+      ctx.fillStyle = '#374151';
+      ctx.fillText(label, x + 14, 15);
+    });
+    if (result.overhangArea > 0) {
+      ctx.fillText(`Overhangs: ${result.overhangArea.toFixed(0)} mm²`, margin, 30);
+    }
+  };
   
   // Helper function to draw element preview
   const drawElementPreview = (ctx: CanvasRenderingContext2D, element: any, scale: number) => {
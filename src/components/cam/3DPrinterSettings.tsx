@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { InfoIcon } from 'lucide-react';
 import { 
   extractElementDimensions,
@@ -6,6 +6,9 @@ import {
   estimatePrintTime, 
   estimateMaterialUsage 
 } from './3DPrinterToolpathHelpers';
+import { SupportSettings } from 'src/lib/toolpath/printSupports';
+import { tessellateElement } from 'src/lib/importExport/tessellation';
+import { OrientationCandidate, optimizeOrientation } from 'src/lib/toolpath/printOrientation';
 
 interface PrinterSettingsProps {
   settings: any;
@@ -16,12 +19,16 @@ interface PrinterSettingsProps {
   setInfillPattern: (value: 'grid' | 'lines' | 'triangles' | 'honeycomb') => void;
   supportType: 'none' | 'minimal' | 'full';
   setSupportType: (value: 'none' | 'minimal' | 'full') => void;
+  supportSettings?: SupportSettings;
+  updateSupportSettings?: <K extends keyof SupportSettings>(key: K, value: SupportSettings[K]) => void;
   shellCount: number;
   setShellCount: (value: number) => void;
   printResolution: 'standard' | 'high' | 'low';
   setPrintResolution: (value: 'standard' | 'high' | 'low') => void;
   printOrientation: 'original' | 'auto-optimal';
   setPrintOrientation: (value: 'original' | 'auto-optimal') => void;
+  printRotation?: number[] | null;
+  setPrintRotation?: (value: number[] | null) => void;
   selectedElement: any;
 }
 
@@ -34,14 +41,37 @@ const PrinterSettings: React.FC<PrinterSettingsProps> = ({
   setInfillPattern,
   supportType,
   setSupportType,
+  supportSettings,
+  updateSupportSettings,
   shellCount,
   setShellCount,
   printResolution,
   setPrintResolution,
   printOrientation,
   setPrintOrientation,
+  printRotation = null,
+  setPrintRotation,
   selectedElement
 }) => {
+  // Orientation candidates of the selected element, best first
+  const orientationCandidates = useMemo<OrientationCandidate[]>(() => {
+    if (printOrientation !== 'auto-optimal' || !selectedElement) return [];
+    const mesh = tessellateElement(selectedElement);
+    if (!mesh) return [];
+    return optimizeOrientation(mesh, {
+      overhangAngle: supportSettings?.overhangAngle,
+      layerHeight: settings.layerHeight,
+      extrusionWidth: settings.extrusionWidth || settings.nozzleDiameter,
+      printSpeed: settings.printSpeed,
+      infillDensity,
+      shellCount,
+      supportDensity: supportSettings?.density
+    }).slice(0, 3);
+  }, [printOrientation, selectedElement, supportSettings, settings.layerHeight, settings.extrusionWidth,
+    settings.nozzleDiameter, settings.printSpeed, infillDensity, shellCount]);
+
+  const isSameRotation = (a: number[], b: number[]) => a.every((value, i) => Math.abs(value - b[i]) < 1e-9);
+
   // Generate print statistics for selected element
   const getPrintStats = () => {
     if (!selectedElement) return null;
@@ -239,6 +269,122 @@ const PrinterSettings: React.FC<PrinterSettingsProps> = ({
               <option value="full">Full (Best Quality)</option>
             </select>
           </div>
+
+          {supportType !== 'none' && supportSettings && updateSupportSettings && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Support Style
+                </label>
+                <select
+                  className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                  value={supportSettings.style}
+                  onChange={(e) => updateSupportSettings('style', e.target.value as 'grid' | 'tree')}
+                >
+                  <option value="grid">Grid</option>
+                  <option value="tree">Tree</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Overhang Angle (°)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="89"
+                  step="5"
+                  className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                  value={supportSettings.overhangAngle}
+                  onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    if (!isNaN(value) && value >= 0 && value < 90) {
+                      updateSupportSettings('overhangAngle', value);
+                    }
+                  }}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Z Gap (mm)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.05"
+                  className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                  value={supportSettings.zGap}
+                  onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    if (!isNaN(value) && value >= 0) {
+                      updateSupportSettings('zGap', value);
+                    }
+                  }}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  XY Distance (mm)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                  value={supportSettings.xyDistance}
+                  onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    if (!isNaN(value) && value >= 0) {
+                      updateSupportSettings('xyDistance', value);
+                    }
+                  }}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Interface Layers
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="10"
+                  step="1"
+                  className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                  value={supportSettings.interfaceLayers}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value);
+                    if (!isNaN(value) && value >= 0) {
+                      updateSupportSettings('interfaceLayers', value);
+                    }
+                  }}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Support Density (%)
+                </label>
+                <input
+                  type="number"
+                  min="5"
+                  max="100"
+                  step="5"
+                  className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                  value={supportSettings.density}
+                  onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    if (!isNaN(value) && value > 0) {
+                      updateSupportSettings('density', value);
+                    }
+                  }}
+                />
+              </div>
+            </div>
+          )}
           
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -253,6 +399,38 @@ const PrinterSettings: React.FC<PrinterSettingsProps> = ({
               <option value="auto-optimal">Auto-Optimal (Best Orientation)</option>
             </select>
           </div>
+          
+          {orientationCandidates.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-sm font-medium text-gray-700">Best orientations (lower score is better)</div>
+              {orientationCandidates.map((candidate, index) => {
+                const selected = printRotation
+                  ? isSameRotation(printRotation, candidate.rotation)
+                  : index === 0;
+                const m = candidate.metrics;
+                return (
+                  <button
+                    key={index}
+                    type="button"
+                    className={`w-full text-left p-2 border rounded-md text-xs ${
+                      selected ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:bg-gray-50'
+                    }`}
+                    onClick={() => setPrintRotation && setPrintRotation(candidate.rotation)}
+                  >
+                    <div className="flex justify-between font-medium text-gray-800">
+                      <span>{index + 1}. {candidate.label}</span>
+                      <span>Score {candidate.score.toFixed(3)}</span>
+                    </div>
+                    <div className="text-gray-600">
+                      Overhang {m.overhangArea.toFixed(0)} mm² · Support {m.supportVolume.toFixed(0)} mm³ ·
+                      Contact {m.contactArea.toFixed(0)} mm² · Height {m.height.toFixed(1)} mm ·
+                      Time {Math.round(m.printTime / 60)} min
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          )}
         </div>
       </div>
       
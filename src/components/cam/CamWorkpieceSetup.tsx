@@ -4,6 +4,7 @@ import { useCAMStore } from '@/src/store/camStore';
 import { useElementsStore, Element } from '@/src/store/elementsStore';
 import axios from 'axios';
 import { Layers, Circle, Box } from 'react-feather';
+import WorkholdingFixtures from './WorkholdingFixtures';
 
 interface MachineConfig {
   id: string;
@@ -460,6 +461,8 @@ const CAMWorkpieceSetup: React.FC = () => {
          </p>
        )}
       
+      <WorkholdingFixtures />
+      
       {isLoading && (
         <div className="absolute inset-0 flex items-center justify-center bg-[#F8FBFF]  dark:bg-gray-800 dark:text-white bg-opacity-75">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
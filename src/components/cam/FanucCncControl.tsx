@@ -2,6 +2,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { useFanucConnection } from 'src/hooks/useFanucConnection';
 import { useFanucGcodeGenerator } from 'src/hooks/useFanucGcodeGenerator';
+import { useFanucConnectionStore } from 'src/store/fanucConnectionStore';
 import FanucMachineControl from 'src/components/cam/FanucMachineController';
 import type { CncProgram, ToolOffsets, WorkOffset, FanucStatus } from 'src/types/fanuc';
 import {
@@ -58,6 +59,13 @@ const CNCControlPage: React.FC = () => {
       setPrograms([]);
     }
   }, [fanuc.isConnected, refreshProgramList]);
+
+  // Share this connection with the CAM page, which loads the subprograms the G-code calls
+  const setConnection = useFanucConnectionStore(state => state.setConnection);
+  useEffect(() => {
+    setConnection({ isConnected: fanuc.isConnected, loadSubprograms: fanuc.loadSubprograms });
+    return () => setConnection({ isConnected: false, loadSubprograms: null });
+  }, [setConnection, fanuc.isConnected, fanuc.loadSubprograms]);
   
   // Download a program from the CNC machine
   const handleDownloadProgram = async (progNumber: number) => {
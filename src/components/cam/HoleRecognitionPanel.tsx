@@ -0,0 +1,153 @@
+import React, { useMemo, useState } from 'react';
+import { useElementsStore } from 'src/store/elementsStore';
+import { useToolLibrary } from 'src/hooks/useToolLibrary';
+import { materialProperties } from 'src/lib/materialProperties';
+import { recognizeHoles } from './toolpathUtils/holeRecognition';
+import { generateDrillingProgram, planDrilling } from './toolpathUtils/drillingSequence';
+
+interface HoleRecognitionPanelProps {
+  controllerType: 'fanuc' | 'heidenhain';
+  onCycleCodeGenerated: (code: string) => void;
+}
+
+/**
+ * Finds the holes in the model, proposes the tool sequence for each group of
+ * holes from the tool library and generates the drilling program
+ */
+const HoleRecognitionPanel: React.FC<HoleRecognitionPanelProps> = ({ controllerType, onCycleCodeGenerated }) => {
+  const { elements } = useElementsStore();
+  const { tools, isLoading } = useToolLibrary();
+  const [material, setMaterial] = useState('aluminum');
+  const [circleDepth, setCircleDepth] = useState(10);
+  const [spotDrill, setSpotDrill] = useState(true);
+  const [chamfer, setChamfer] = useState(0.5);
+  const [ream, setReam] = useState<'auto' | 'always' | 'never'>('auto');
+  const [retract, setRetract] = useState(2);
+  const [clearance, setClearance] = useState(25);
+
+  const recognition = useMemo(() => recognizeHoles(elements, { circleDepth }), [elements, circleDepth]);
+
+  const plan = useMemo(() => planDrilling(recognition.groups, tools, {
+    material,
+    spotDrill,
+    chamfer,
+    ream: ream === 'auto' ? 'auto' : ream === 'always',
+    retract,
+    clearance
+  }), [recognition, tools, material, spotDrill, chamfer, ream, retract, clearance]);
+
+  const warnings = recognition.warnings.concat(recognition.holes.length ? plan.warnings : []);
+
+  const inputClass = 'mt-1 block w-full px-2 py-1 rounded-md text-sm border-gray-300 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white';
+
+  return (
+    <div className="bg-[#F8FBFF] dark:bg-gray-800 dark:text-white rounded-lg shadow-md overflow-hidden">
+      <div className="bg-gray-50 border-b border-gray-200 dark:bg-gray-700 dark:border-gray-600 p-4">
+        <h2 className="text-lg font-medium text-gray-900 dark:text-gray-100">Hole Recognition</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Drilling sequences for the circles, cylinder cuts, screws, bolts and threads in the model
+        </p>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Material
+            <select value={material} onChange={(e) => setMaterial(e.target.value)} className={inputClass}>
+              {Object.keys(materialProperties).map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Circle Depth (mm)
+            <input type="number" min={0.1} step={0.5} value={circleDepth} onChange={(e) => setCircleDepth(parseFloat(e.target.value) || 0)} className={inputClass} />
+          </label>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Chamfer (mm)
+            <input type="number" min={0} step={0.1} value={chamfer} onChange={(e) => setChamfer(parseFloat(e.target.value) || 0)} className={inputClass} />
+          </label>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Ream Plain Holes
+            <select value={ream} onChange={(e) => setReam(e.target.value as 'auto' | 'always' | 'never')} className={inputClass}>
+              <option value="auto">When only a reamer fits</option>
+              <option value="always">Always</option>
+              <option value="never">Never</option>
+            </select>
+          </label>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            R Plane (mm)
+            <input type="number" min={0.5} step={0.5} value={retract} onChange={(e) => setRetract(parseFloat(e.target.value) || 0)} className={inputClass} />
+          </label>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Clearance (mm)
+            <input type="number" min={1} step={1} value={clearance} onChange={(e) => setClearance(parseFloat(e.target.value) || 0)} className={inputClass} />
+          </label>
+        </div>
+        <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+          <input type="checkbox" checked={spotDrill} onChange={(e) => setSpotDrill(e.target.checked)} className="h-4 w-4 mr-2 text-blue-600 border-gray-300 rounded" />
+          Spot drill before drilling
+        </label>
+
+        <div className="border rounded-md overflow-hidden dark:border-gray-600">
+          <div className="bg-gray-50 px-4 py-2 border-b dark:bg-gray-700 dark:border-gray-600">
+            <h3 className="text-md font-medium text-gray-900 dark:text-gray-100">
+              {recognition.holes.length} holes in {recognition.groups.length} groups
+            </h3>
+          </div>
+          <ul className="p-2 max-h-48 overflow-y-auto text-sm">
+            {recognition.groups.map(group => (
+              <li key={group.key} className="flex justify-between py-1">
+                <span>{group.label}</span>
+                <span className="text-gray-500 dark:text-gray-400">×{group.holes.length}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {plan.operations.length > 0 && (
+          <div className="border rounded-md overflow-hidden dark:border-gray-600">
+            <div className="bg-gray-50 px-4 py-2 border-b dark:bg-gray-700 dark:border-gray-600">
+              <h3 className="text-md font-medium text-gray-900 dark:text-gray-100">Sequence</h3>
+            </div>
+            <ol className="p-2 max-h-60 overflow-y-auto text-sm space-y-1">
+              {plan.operations.map((operation, index) => (
+                <li key={index}>
+                  <div className="flex justify-between">
+                    <span className={operation.tool.id ? '' : 'text-amber-600 dark:text-amber-400'}>
+                      T{operation.tool.number} {operation.tool.name}
+                    </span>
+                    <span className="font-mono">{operation.cycle}</span>
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {operation.targets.length} holes · S{operation.spindleSpeed} F{operation.feedrate}
+                    {operation.peck ? ` Q${operation.peck}` : ''}
+                  </div>
+                </li>
+              ))}
+            </ol>
+            <div className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400 border-t dark:border-gray-600">
+              Travel between holes: {plan.travel.toFixed(0)} mm
+            </div>
+          </div>
+        )}
+
+        {warnings.length > 0 && (
+          <ul className="text-xs text-amber-700 dark:text-amber-400 space-y-1">
+            {warnings.map((warning, index) => <li key={index}>{warning}</li>)}
+          </ul>
+        )}
+
+        <button
+          className="w-full px-4 py-2 rounded-md bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+          disabled={!plan.operations.length || isLoading}
+          onClick={() => onCycleCodeGenerated(generateDrillingProgram(plan, controllerType))}
+        >
+          {isLoading ? 'Loading tool library...' : 'Generate Drilling Program'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default HoleRecognitionPanel;
@@ -18,6 +18,7 @@ interface OptimizedToolpathVisualizerProps {
   onSimulationProgress?: (progress: number) => void;
   onToolChange?: (toolName: string) => void;
   cadElements: any[];
+  subprograms?: Record<number, string>;
   // Optimization options
   optimizationOptions?: {
     targetFps?: number;
@@ -46,6 +47,7 @@ const OptimizedToolpathVisualizer: React.FC<OptimizedToolpathVisualizerProps> =
   onSimulationProgress,
   onToolChange,
   cadElements,
+  subprograms,
   optimizationOptions = {}
 }) => {
   // References to Three.js entities
@@ -201,6 +203,7 @@ const OptimizedToolpathVisualizer: React.FC<OptimizedToolpathVisualizerProps> =
         onSimulationComplete={onSimulationComplete}
         onSimulationProgress={onSimulationProgress}
         onToolChange={onToolChange}
+        subprograms={subprograms}
       />
       
       {/* Stats overlay */}
@@ -1,8 +1,9 @@
 // src/components/cam/ToolpathGenerator.tsx
 import React, { useState, useEffect, useRef } from 'react';
-import { AlertTriangle, Check, ChevronDown, ChevronUp, Code, Cpu, Edit, Download, Play, Minimize2, Maximize2, Upload, HelpCircle, Save } from 'react-feather';
+import { AlertTriangle, Check, ChevronDown, ChevronUp, Code, Cpu, Edit, Download, Play, Minimize2, Maximize2, Upload, HelpCircle, Save, Plus, X } from 'react-feather';
 import { useCADStore } from 'src/store/cadStore';
 import { useElementsStore } from 'src/store/elementsStore';
+import { useLayerStore } from 'src/store/layerStore';
 import { predefinedTools, predefinedMaterials } from 'src/lib/predefinedLibraries';
 import ToolsList from '@/src/pages/tools';
 // Import useLibrary hook at the top of the file
@@ -21,14 +22,21 @@ import ToolpathGeneratorIntegration from 'src/components/cam/ToolpathGeneratorIn
 import PrinterSection from './3DPrinterSection';
 import PrinterSettings from './3DPrinterSettings';
 import PrinterPreview from './3DPrinterPreview';
+import PrinterExtruders from './3DPrinterExtruders';
 import { FixedCycleType } from './toolpathUtils/fixedCycles/fixedCyclesParser';
+import { AdaptiveEntryType, generateAdaptiveClearing, Point2D } from './toolpathUtils/adaptiveClearing';
+import { generateSurfaceFinishing, SurfaceFinishingStrategy } from './toolpathUtils/surfaceFinishing';
+import { detectRestMaterial, generateRestMachining, PriorOperation, programMoves, RestMachiningMode } from './toolpathUtils/restMachining';
+import { extractTurningProfile, generateProfileTurning, TurningCycle, TurningProgramForm } from './toolpathUtils/latheProfileTurning';
+import { ProgrammedOperation, useCAMStore } from 'src/store/camStore';
+import { mergeMeshes, tessellateElement, tessellateElements } from 'src/lib/importExport/tessellation';
 import router from 'next/router';
 
 import { generate3DPrinterFromElement } from './3DPrinterToolpathHelpers';
 import { use3DPrinterSettings } from './3DPrinterIntegration';
 import PrinterOperations from './Printe3DOperations';
 // Import the new 3D printer toolpath functions
-import { generate3DPrinterGCodeForElement, generateCompositeElement3D } from 'src/lib/toolpath/3dprinterToolpaths';
+import { generate3DPrinterGCodeForElement, generate3DPrinterGCodeForExtruders, generateCompositeElement3D } from 'src/lib/toolpath/3dprinterToolpaths';
 import { integrateEditorInToolpathGenerator } from './integrateEditorInToolpathGenerator';
 interface ToolpathGeneratorProps {
   onGCodeGenerated: (gcode: string) => void;
@@ -39,7 +47,7 @@ interface ToolpathGeneratorProps {
 type MachineType = 'mill' | 'lathe' | '3dprinter';
 
 // Mill operation types
-type MillOperationType = 'contour' | 'pocket' | 'drill' | 'engrave' | 'profile' | 'threading' | '3d_surface';
+type MillOperationType = 'contour' | 'pocket' | 'adaptive' | 'drill' | 'engrave' | 'profile' | 'threading' | '3d_surface' | 'rest_machining';
 
 // Lathe operation types
 type LatheOperationType = 'facing' | 'turning' | 'boring' | 'threading' | 'grooving' | 'parting' | 'knurling';
@@ -51,7 +59,7 @@ type PrinterOperationType = 'standard' | 'vase' | 'support' | 'infill' | 'raft'
 type OperationType = MillOperationType | LatheOperationType | PrinterOperationType;
 
 type MaterialType = 'aluminum' | 'steel' | 'wood' | 'plastic' | 'brass' | 'titanium' | 'composite' | 'other';
-type ToolType = 'endmill' | 'ballnose' | 'drill' | 'vbit' | 'chamfer' | 'threadmill' | 'reamer';
+type ToolType = 'endmill' | 'ballnose' | 'bullnose' | 'drill' | 'vbit' | 'chamfer' | 'threadmill' | 'reamer';
 
 // Lathe tool types
 type LatheToolType = 'turning' | 'facing' | 'threading' | 'grooving' | 'boring' | 'parting';
@@ -81,7 +89,7 @@ export interface ToolpathSettings {
   coolant: boolean;
   finishingPass: boolean;
   finishingAllowance: number;
-  finishingStrategy: 'contour' |'parallel'|'spiral'|'radial',
+  finishingStrategy: 'contour' |'parallel'|'spiral'|'radial'|'waterline',
   useAI: boolean;
   aiDifficulty: 'simple' | 'moderate' | 'complex';
   aiOptimize: 'speed' | 'quality' | 'balance';
@@ -94,6 +102,16 @@ export interface ToolpathSettings {
   useAdaptiveFeeds: boolean;
   useRestMachining: boolean;
   toolNumber?: number;
+  // Adaptive clearing settings
+  maxEngagementAngle?: number;
+  entryType?: AdaptiveEntryType;
+  rampAngle?: number;
+  // 3D surface finishing settings
+  scallopHeight?: number;
+  cornerRadius?: number;
+  rasterAngle?: number;
+  // Rest machining settings
+  restMode?: RestMachiningMode;
   // 3D printer specific settings
   nozzleDiameter?: number;
   filamentDiameter?: number;
@@ -108,6 +126,15 @@ export interface ToolpathSettings {
   spindleDirection?: 'cw' | 'ccw';
   turningOperation?: 'external' | 'internal' | 'face';
   applyToolCompensation?: boolean;
+  // Profile turning settings
+  latheCycle?: TurningCycle | 'auto';
+  latheProgramForm?: TurningProgramForm;
+  finishAllowanceX?: number;
+  finishAllowanceZ?: number;
+  finishFeedrate?: number;
+  insertAngle?: number;
+  insertLeadAngle?: number;
+  noseRadius?: number;
   originType: 'workpiece-center' | 'workpiece-corner' | 'workpiece-corner2' |'machine-zero' | 'custom';
   originX: number;
   originY: number;
@@ -161,6 +188,16 @@ const ToolpathGenerator: React.FC<ToolpathGeneratorProps> = ({ onGCodeGenerated,
     useAdaptiveFeeds: false,
     useRestMachining: false,
     toolNumber: 1,
+    // Adaptive clearing default settings
+    maxEngagementAngle: 40,
+    entryType: 'helix',
+    rampAngle: 3,
+    // 3D surface finishing default settings
+    scallopHeight: 0.01,
+    cornerRadius: 1,
+    rasterAngle: 0,
+    // Rest machining default settings
+    restMode: 'roughing',
     // 3D printer default settings
     nozzleDiameter: 0.4,
     filamentDiameter: 1.75,
@@ -175,6 +212,15 @@ const ToolpathGenerator: React.FC<ToolpathGeneratorProps> = ({ onGCodeGenerated,
     spindleDirection: 'cw',
     turningOperation: 'external',
     applyToolCompensation: true,
+    // Profile turning default settings
+    latheCycle: 'auto',
+    latheProgramForm: 'canned',
+    finishAllowanceX: 0.4,
+    finishAllowanceZ: 0.1,
+    finishFeedrate: 400,
+    insertAngle: 55,
+    insertLeadAngle: 93,
+    noseRadius: 0.4,
     originType: 'workpiece-center',
     originX: 0,
     originY: 0, 
@@ -205,7 +251,12 @@ const ToolpathGenerator: React.FC<ToolpathGeneratorProps> = ({ onGCodeGenerated,
   const [selectedCycle, setSelectedCycle] = useState<any>(null);
   // References to selected CAD elements
   const { elements, selectedElement } = useElementsStore();
+  const { layers } = useLayerStore();
   const { workpiece } = useCADStore();
+  // Operations already programmed in this setup, in machining order
+  const { setupId, programmedOperations, recordOperation, removeOperation, startNewSetup } = useCAMStore();
+  // Last milled operation, until the user adds it to the setup
+  const [generatedOperation, setGeneratedOperation] = useState<Omit<ProgrammedOperation, 'id' | 'setupId'> | null>(null);
   const [showEditor, setShowEditor] = useState<boolean>(true);
   // Timer reference for success messages
   const successTimerRef = useRef<NodeJS.Timeout | null>(null);
@@ -219,9 +270,12 @@ const ToolpathGenerator: React.FC<ToolpathGeneratorProps> = ({ onGCodeGenerated,
    infillDensity, setInfillDensity,
   infillPattern, setInfillPattern,
    supportType, setSupportType,
+   supportSettings, updateSupportSettings,
    shellCount, setShellCount,
    printResolution, setPrintResolution,
-   printOrientation, setPrintOrientation
+   printOrientation, setPrintOrientation,
+   printRotation, setPrintRotation,
+   multiExtruderSettings, updateMultiExtruderSettings, updateExtruderSettings
   } = use3DPrinterSettings();
   // Update settings when selected library tool changes
   useEffect(() => {
@@ -311,7 +365,7 @@ const ToolpathGenerator: React.FC<ToolpathGeneratorProps> = ({ onGCodeGenerated,
   useEffect(() => {
     switch (settings.machineType) {
       case 'mill':
-        if (!['contour', 'pocket', 'drill', 'engrave', 'profile', 'threading', '3d_surface'].includes(settings.operationType as string)) {
+        if (!['contour', 'pocket', 'adaptive', 'drill', 'engrave', 'profile', 'threading', '3d_surface', 'rest_machining'].includes(settings.operationType as string)) {
           setSettings(prev => ({
             ...prev,
             operationType: 'contour',
@@ -605,7 +659,11 @@ const ToolpathGenerator: React.FC<ToolpathGeneratorProps> = ({ onGCodeGenerated,
           break;
         case '3dprinter':
           // --- Integrate new 3D printer logic ---
-          if (selectedElement) {
+          // With several extruders and nothing selected, the elements of the visible layers are printed together
+          const printableElements = selectedElement
+            ? [selectedElement]
+            : elements.filter(element => layers.some(layer => layer.id === element.layerId && layer.visible));
+          if (selectedElement || (multiExtruderSettings.count > 1 && printableElements.length > 0)) {
             // 1. Gather all necessary 3D print settings
             const printerSettings = {
               layerHeight: settings.layerHeight || 0.2,
@@ -621,8 +679,14 @@ const ToolpathGenerator: React.FC<ToolpathGeneratorProps> = ({ onGCodeGenerated,
               infillPattern: infillPattern, // From use3DPrinterSettings hook
               shellCount: shellCount,       // From use3DPrinterSettings hook
               supportType: supportType,     // From use3DPrinterSettings hook
-              supportOverhangAngle: 45, // Example default, maybe add to settings state?
-              supportDensity: 20,       // Example default, maybe add to settings state?
+              supportStyle: supportSettings.style,
+              supportOverhangAngle: supportSettings.overhangAngle,
+              supportDensity: supportSettings.density,
+              supportZGap: supportSettings.zGap,
+              supportXYDistance: supportSettings.xyDistance,
+              supportInterfaceLayers: supportSettings.interfaceLayers,
+              printOrientation,
+              printRotation,
               raftLayers: 0,            // Example default, maybe add to settings state?
               brimWidth: 0,             // Example default, maybe add to settings state?
               material: settings.material, // Include material if needed by generators
@@ -631,7 +695,9 @@ const ToolpathGenerator: React.FC<ToolpathGeneratorProps> = ({ onGCodeGenerated,
             };
 
             // 2. Check element type and call the appropriate generator
-            if (selectedElement.type === 'composite' || selectedElement.type === 'component' || selectedElement.type === 'group') {
+            if (multiExtruderSettings.count > 1 || !selectedElement) {
+               gcode = generate3DPrinterGCodeForExtruders(printableElements, printerSettings, multiExtruderSettings);
+            } else if (selectedElement.type === 'composite' || selectedElement.type === 'component' || selectedElement.type === 'group') {
                gcode = generateCompositeElement3D(selectedElement, printerSettings);
             } else {
                gcode = generate3DPrinterGCodeForElement(selectedElement, printerSettings);
@@ -683,6 +749,15 @@ const ToolpathGenerator: React.FC<ToolpathGeneratorProps> = ({ onGCodeGenerated,
       
       // Pass generated G-code back to parent
       onGCodeGenerated(gcode);
+
+      // Milled operations are kept with their tool, for adding to the setup once the user is happy with them
+      setGeneratedOperation(settings.machineType === 'mill' && gcode.trim().length > 0
+        ? {
+            name: getOperationName(),
+            tool: { type: settings.toolType, diameter: settings.toolDiameter, radius: getCornerRadius() },
+            points: programMoves(gcode)
+          }
+        : null);
     } catch (err) {
       setError('Error generating G-code. Check your settings.');
       console.error('G-code generation error:', err);
@@ -833,7 +908,14 @@ const ToolpathGenerator: React.FC<ToolpathGeneratorProps> = ({ onGCodeGenerated,
     // Generate toolpath based on geometry type and operation
     let toolpathGcode = '';
     
-    if (geometryType === 'rectangle') {
+    if (settings.operationType === 'adaptive') {
+      toolpathGcode += generateAdaptiveToolpath();
+    } else if (settings.operationType === '3d_surface') {
+      // With a finishing pass, this pass leaves the finishing allowance for it
+      toolpathGcode += generateSurfaceToolpath(settings.finishingPass ? settings.finishingAllowance : 0);
+    } else if (settings.operationType === 'rest_machining') {
+      toolpathGcode += generateRestToolpath(settings.restMode || 'roughing', settings.finishingPass ? settings.finishingAllowance : 0);
+    } else if (geometryType === 'rectangle') {
       toolpathGcode += generateRectangleToolpath();
     } else if (geometryType === 'circle') {
       toolpathGcode += generateCircleToolpath();
@@ -896,7 +978,11 @@ const ToolpathGenerator: React.FC<ToolpathGeneratorProps> = ({ onGCodeGenerated,
       gcode += `; Finishing allowance: ${settings.finishingAllowance}mm\n`;
       
       // Applica una strategia diversa per la finitura se specificata
-      if (settings.finishingStrategy === 'contour') {
+      if (settings.operationType === '3d_surface') {
+        gcode += generateSurfaceToolpath(0);
+      } else if (settings.operationType === 'rest_machining') {
+        gcode += generateRestToolpath('pencil', 0);
+      } else if (settings.finishingStrategy === 'contour') {
         gcode += '; Contour finishing strategy\n';
         // Implementa la logica per contornatura
       } else if (settings.finishingStrategy === 'parallel') {
@@ -1014,6 +1100,12 @@ const ToolpathGenerator: React.FC<ToolpathGeneratorProps> = ({ onGCodeGenerated,
     const { stockDiameter, stockLength, depth, stepdown, feedrate, turningOperation } = settings;
     let gcode = '\n; Turning operation\n';
     
+    const profile = turningOperation === 'external' ? extractTurningProfile(selectedElement) : null;
+    if (profile) {
+      // Roughing and finishing of the selected lathe/revolution element or half-profile sketch
+      return generateProfileTurningOperation(profile);
+    }
+
     if (turningOperation === 'external') {
       // External turning
       gcode += 'G0 X' + (stockDiameter! + 2).toFixed(3) + ' Z2 ; Position tool\n';
@@ -1053,6 +1145,33 @@ const ToolpathGenerator: React.FC<ToolpathGeneratorProps> = ({ onGCodeGenerated,
     return gcode;
   };
   
+  // Generate profile turning operation for lathe
+  const generateProfileTurningOperation = (profile: NonNullable<ReturnType<typeof extractTurningProfile>>) => {
+    const { stockDiameter, stepdown, feedrate } = settings;
+    const result = generateProfileTurning(profile, {
+      stockDiameter: stockDiameter!,
+      stepdown,
+      allowanceX: settings.finishAllowanceX ?? 0.4,
+      allowanceZ: settings.finishAllowanceZ ?? 0.1,
+      cycle: settings.latheCycle || 'auto',
+      form: settings.latheProgramForm || 'canned',
+      roughingFeed: feedrate,
+      finishFeed: settings.finishFeedrate || feedrate / 2,
+      insert: {
+        includedAngle: settings.insertAngle ?? 55,
+        leadAngle: settings.insertLeadAngle ?? 93,
+        noseRadius: settings.noseRadius ?? 0.4
+      },
+      noseCompensation: settings.applyToolCompensation
+    });
+
+    if (result.warnings.length > 0) {
+      toast.error(result.warnings[0]);
+    }
+
+    return result.gcode;
+  };
+  
   // Generate boring operation for lathe
   const generateLatheBoringOperation = () => {
     const { stockDiameter, stockLength, depth, stepdown, feedrate } = settings;
@@ -2098,7 +2217,177 @@ const ToolpathGenerator: React.FC<ToolpathGeneratorProps> = ({ onGCodeGenerated,
     
     return gcode;
   };
-  
+
+  // Boundary of the pocket to clear adaptively, or null when the geometry is not a closed shape
+  const getAdaptiveBoundary = (): Point2D[] | null => {
+    const circlePoints = (cx: number, cy: number, radius: number, sides?: number) => {
+      // Inscribed polygon within tolerance of the circle, so the walls are never cut
+      const count = sides || Math.max(24, Math.ceil(Math.PI / Math.acos(Math.max(-1, 1 - settings.tolerance / radius))));
+      return Array.from({ length: count }, (_, i) => ({
+        x: cx + radius * Math.cos((2 * Math.PI * i) / count),
+        y: cy + radius * Math.sin((2 * Math.PI * i) / count)
+      }));
+    };
+
+    if (geometryType === 'rectangle') {
+      return [
+        applyOriginOffset(-rectangleWidth / 2, -rectangleHeight / 2),
+        applyOriginOffset(rectangleWidth / 2, -rectangleHeight / 2),
+        applyOriginOffset(rectangleWidth / 2, rectangleHeight / 2),
+        applyOriginOffset(-rectangleWidth / 2, rectangleHeight / 2)
+      ];
+    } else if (geometryType === 'circle') {
+      return circlePoints(0, 0, circleRadius).map(point => applyOriginOffset(point.x, point.y));
+    } else if (geometryType === 'polygon') {
+      return circlePoints(0, 0, polygonRadius, polygonSides).map(point => applyOriginOffset(point.x, point.y));
+    } else if (geometryType === 'selected' && selectedElement) {
+      if (selectedElement.type === 'rectangle') {
+        const { x, y, width, height } = selectedElement;
+        return [
+          { x: x - width / 2, y: y - height / 2 },
+          { x: x + width / 2, y: y - height / 2 },
+          { x: x + width / 2, y: y + height / 2 },
+          { x: x - width / 2, y: y + height / 2 }
+        ];
+      } else if (selectedElement.type === 'circle') {
+        return circlePoints(selectedElement.x, selectedElement.y, selectedElement.radius);
+      } else if (selectedElement.type === 'polygon') {
+        return circlePoints(selectedElement.x, selectedElement.y, selectedElement.radius || 30, selectedElement.sides || 6);
+      }
+    }
+    return null;
+  };
+
+  // Generate constant-engagement adaptive clearing of the pocket
+  const generateAdaptiveToolpath = () => {
+    const boundary = getAdaptiveBoundary();
+    if (!boundary) {
+      return '; Adaptive clearing needs a rectangle, circle or polygon pocket\n';
+    }
+
+    const { toolDiameter, depth, stepdown, feedrate, plungerate, direction, finishingPass, finishingAllowance } = settings;
+    const result = generateAdaptiveClearing(boundary, {
+      toolDiameter,
+      maxEngagementAngle: settings.maxEngagementAngle || 40,
+      depth,
+      stepdown,
+      feedrate,
+      plungerate,
+      direction,
+      entryType: settings.entryType,
+      rampAngle: settings.rampAngle,
+      stockToLeave: finishingPass ? finishingAllowance : 0
+    });
+
+    if (result.warnings.length > 0) {
+      toast.error(result.warnings[0]);
+    }
+
+    return result.gcode;
+  };
+
+  // 3D strategy of the surface operation; contour finishing of a surface is waterline (Z-level) finishing
+  const getSurfaceStrategy = (): SurfaceFinishingStrategy =>
+    settings.finishingStrategy === 'contour' ? 'waterline' : settings.finishingStrategy;
+
+  // The selected solid, or all solids in the drawing, as one mesh
+  const getSurfaceMesh = () => {
+    const selectedMesh = selectedElement ? tessellateElement(selectedElement) : null;
+    const meshes = selectedMesh ? [selectedMesh] : tessellateElements(elements);
+    return meshes.length > 0 ? mergeMeshes(meshes) : null;
+  };
+
+  // Corner radius of the current tool; library tools keep their own type names
+  const getCornerRadius = () => {
+    const { toolDiameter, toolType } = settings;
+    return ['ballnose', 'ballendmill'].includes(toolType)
+      ? toolDiameter / 2
+      : toolType === 'bullnose' ? Math.min(settings.cornerRadius || 0, toolDiameter / 2) : 0;
+  };
+
+  // Generate drop-cutter finishing passes over the selected solid, or over all solids in the drawing
+  const generateSurfaceToolpath = (stockToLeave: number) => {
+    // Rest machining limits the passes to what the earlier operations left
+    if (settings.useRestMachining) {
+      return generateRestToolpath('pencil', stockToLeave);
+    }
+    const mesh = getSurfaceMesh();
+    if (!mesh) {
+      return '; 3D surface finishing needs a solid or mesh element\n';
+    }
+
+    const { toolDiameter, depth, stepover, feedrate, plungerate, direction, tolerance } = settings;
+    const result = generateSurfaceFinishing(mesh, {
+      toolDiameter,
+      cornerRadius: getCornerRadius(),
+      strategy: getSurfaceStrategy(),
+      scallopHeight: settings.scallopHeight || 0.01,
+      maxStepover: toolDiameter * (stepover / 100),
+      depth,
+      feedrate,
+      plungerate,
+      direction,
+      tolerance,
+      stockToLeave,
+      rasterAngle: settings.rasterAngle
+    });
+
+    if (result.warnings.length > 0) {
+      toast.error(result.warnings[0]);
+    }
+
+    return result.gcode;
+  };
+
+  // Operations of a setup are told apart by their type and tool
+  const getOperationName = () => `${settings.operationType} ${settings.toolType} Ø${settings.toolDiameter}`;
+
+  // Operations the user added to the current setup
+  const getSetupOperations = () => programmedOperations.filter(operation => operation.setupId === setupId);
+
+  // Earlier operations of the setup with their tools, for the stock model
+  const getPriorOperations = (): PriorOperation[] =>
+    getSetupOperations().map(({ name, tool, points }) => ({ name, tool, points }));
+
+  // Adds the last generated operation to the setup, as material the next operations find removed
+  const addOperationToSetup = () => {
+    if (!generatedOperation) return;
+    recordOperation(generatedOperation);
+    setGeneratedOperation(null);
+    toast.success(`${generatedOperation.name} added to the setup`);
+  };
+
+  // Generate rest roughing or pencil passes for the material the earlier operations of the setup left
+  const generateRestToolpath = (mode: RestMachiningMode, stockToLeave: number) => {
+    const mesh = getSurfaceMesh();
+    if (!mesh) {
+      return '; Rest machining needs a solid or mesh element\n';
+    }
+
+    const { toolDiameter, depth, stepdown, stepover, feedrate, plungerate, direction, tolerance } = settings;
+    const rest = detectRestMaterial(mesh, getPriorOperations(), { stockToLeave });
+    const result = generateRestMachining(mesh, rest, {
+      mode,
+      toolDiameter,
+      cornerRadius: getCornerRadius(),
+      stepdown,
+      stepover: toolDiameter * (stepover / 100),
+      scallopHeight: settings.scallopHeight || 0.01,
+      strategy: getSurfaceStrategy(),
+      depth,
+      feedrate,
+      plungerate,
+      direction,
+      tolerance
+    });
+
+    if (result.warnings.length > 0) {
+      toast.error(result.warnings[0]);
+    }
+
+    return result.gcode;
+  };
+
   // Generate rectangular toolpath
   const generateRectangleToolpath = () => {
     let gcode = '; Rectangle toolpath\n';
@@ -3515,6 +3804,161 @@ function generateText3DToolpath(element: any, settings: any): string {
                 Apply tool radius compensation
               </label>
             </div>
+
+            {settings.operationType === 'turning' && settings.turningOperation === 'external' && (
+              <div className="space-y-4">
+                <div className="text-xs text-gray-500">
+                  {extractTurningProfile(selectedElement)
+                    ? `Turning the profile of the selected ${selectedElement?.type} element.`
+                    : 'Select a lathe or revolution element, or a half-profile sketch (axis along X, radius in Y), to turn its profile; otherwise the stock is turned down by the depth.'}
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Roughing Cycle
+                    </label>
+                    <select
+                      className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                      value={settings.latheCycle}
+                      onChange={(e) => updateSettings('latheCycle', e.target.value as TurningCycle | 'auto')}
+                    >
+                      <option value="auto">Automatic</option>
+                      <option value="G71">G71 (longitudinal)</option>
+                      <option value="G72">G72 (facing)</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Program Form
+                    </label>
+                    <select
+                      className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                      value={settings.latheProgramForm}
+                      onChange={(e) => updateSettings('latheProgramForm', e.target.value as TurningProgramForm)}
+                    >
+                      <option value="canned">Canned cycles (G71/G72 + G70)</option>
+                      <option value="longhand">Long-hand (G0/G1)</option>
+                    </select>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Finish Allowance X (mm, diameter)
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.05"
+                      className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                      value={settings.finishAllowanceX}
+                      onChange={(e) => {
+                        const value = parseFloat(e.target.value);
+                        if (!isNaN(value) && value >= 0) {
+                          updateSettings('finishAllowanceX', value);
+                        }
+                      }}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Finish Allowance Z (mm)
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.05"
+                      className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                      value={settings.finishAllowanceZ}
+                      onChange={(e) => {
+                        const value = parseFloat(e.target.value);
+                        if (!isNaN(value) && value >= 0) {
+                          updateSettings('finishAllowanceZ', value);
+                        }
+                      }}
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Insert
+                    </label>
+                    <select
+                      className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                      value={settings.insertAngle}
+                      onChange={(e) => updateSettings('insertAngle', parseFloat(e.target.value))}
+                    >
+                      <option value={35}>V - 35°</option>
+                      <option value={55}>D - 55°</option>
+                      <option value={60}>T - 60°</option>
+                      <option value={80}>C / W - 80°</option>
+                      <option value={90}>S - 90°</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Lead Angle (°)
+                    </label>
+                    <input
+                      type="number"
+                      min="45"
+                      step="1"
+                      className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                      value={settings.insertLeadAngle}
+                      onChange={(e) => {
+                        const value = parseFloat(e.target.value);
+                        if (!isNaN(value) && value > 0 && value < 180) {
+                          updateSettings('insertLeadAngle', value);
+                        }
+                      }}
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Nose Radius (mm)
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.2"
+                      className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                      value={settings.noseRadius}
+                      onChange={(e) => {
+                        const value = parseFloat(e.target.value);
+                        if (!isNaN(value) && value >= 0) {
+                          updateSettings('noseRadius', value);
+                        }
+                      }}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Finish Feed Rate
+                    </label>
+                    <input
+                      type="number"
+                      min="1"
+                      step="10"
+                      className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                      value={settings.finishFeedrate}
+                      onChange={(e) => {
+                        const value = parseFloat(e.target.value);
+                        if (!isNaN(value) && value > 0) {
+                          updateSettings('finishFeedrate', value);
+                        }
+                      }}
+                    />
+                  </div>
+                </div>
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -3702,11 +4146,13 @@ function generateText3DToolpath(element: any, settings: any): string {
                 >
                   <option value="contour">Contouring</option>
                   <option value="pocket">Pocket Clearing</option>
+                  <option value="adaptive">Adaptive Clearing</option>
                   <option value="drill">Drilling</option>
                   <option value="engrave">Engraving</option>
                   <option value="profile">3D Profile</option>
                   <option value="threading">Threading</option>
                   <option value="3d_surface">3D Surface</option>
+                  <option value="rest_machining">Rest Machining</option>
                 </select>
               )}
               
@@ -3957,7 +4403,10 @@ function generateText3DToolpath(element: any, settings: any): string {
             infillDensity={infillDensity}
             shellCount={shellCount}
             supportType={supportType}
+            supportSettings={supportSettings}
             infillPattern={infillPattern}
+            printOrientation={printOrientation}
+            printRotation={printRotation}
           />
         </div>
       </div>
@@ -3973,15 +4422,30 @@ function generateText3DToolpath(element: any, settings: any): string {
           setInfillPattern={setInfillPattern}
           supportType={supportType}
           setSupportType={setSupportType}
+          supportSettings={supportSettings}
+          updateSupportSettings={updateSupportSettings}
           shellCount={shellCount}
           setShellCount={setShellCount}
           printResolution={printResolution}
           setPrintResolution={setPrintResolution}
           printOrientation={printOrientation}
           setPrintOrientation={setPrintOrientation}
+          printRotation={printRotation}
+          setPrintRotation={setPrintRotation}
           selectedElement={selectedElement}
         />
       </div>
+      
+      {/* Extruders */}
+      <div className="bg-white p-4 rounded-md shadow-sm border border-gray-200">
+        <PrinterExtruders
+          multiExtruderSettings={multiExtruderSettings}
+          updateMultiExtruderSettings={updateMultiExtruderSettings}
+          updateExtruderSettings={updateExtruderSettings}
+          elements={selectedElement ? [selectedElement] : elements}
+          layers={layers}
+        />
+      </div>
     </div>
     )}
             </div>
@@ -5132,6 +5596,7 @@ function generateText3DToolpath(element: any, settings: any): string {
                 >
                   <option value="endmill">Endmill</option>
                   <option value="ballnose">Ballnose</option>
+                  <option value="bullnose">Bull Nose</option>
                   <option value="drill">Drill</option>
                   <option value="vbit">V-bit</option>
                   <option value="chamfer">Chamfer</option>
@@ -5174,6 +5639,7 @@ function generateText3DToolpath(element: any, settings: any): string {
                 {settings.machineType === 'mill' ? 
                   (settings.toolType === 'endmill' ? 'Endmill' : 
                    settings.toolType === 'ballnose' ? 'Ballnose' : 
+                   settings.toolType === 'bullnose' ? 'Bull Nose' : 
                   
                    settings.toolType === 'drill' ? 'Drill' : 
                    settings.toolType === 'vbit' ? 'V-bit' : 
@@ -5326,6 +5792,27 @@ function generateText3DToolpath(element: any, settings: any): string {
           </div>
         )}
                 
+                {settings.machineType === 'mill' && settings.toolType === 'bullnose' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Corner Radius (mm)
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.1"
+                      className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                      value={settings.cornerRadius}
+                      onChange={(e) => {
+                        const value = parseFloat(e.target.value);
+                        if (!isNaN(value) && value >= 0 && value <= settings.toolDiameter / 2) {
+                          updateSettings('cornerRadius', value);
+                        }
+                      }}
+                    />
+                  </div>
+                )}
+                
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
                     Rotation Speed (RPM)
@@ -5394,7 +5881,7 @@ function generateText3DToolpath(element: any, settings: any): string {
                     .filter(tool => {
                       // Filter tools by machine type
                       if (settings.machineType === 'mill') {
-                        return ['endmill', 'ballnose', 'drill', 'vbit', 'chamfer', 'threadmill', 'reamer'].includes(tool.type);
+                        return ['endmill', 'ballnose', 'bullnose', 'drill', 'vbit', 'chamfer', 'threadmill', 'reamer'].includes(tool.type);
                       } else if (settings.machineType === 'lathe') {
                         return ['turning', 'facing', 'boring', 'threading', 'grooving', 'parting'].includes(tool.type);
                       } else {
@@ -5415,7 +5902,7 @@ function generateText3DToolpath(element: any, settings: any): string {
                       .filter(tool => {
                         // Filter tools by machine type
                         if (settings.machineType === 'mill') {
-                          return ['endmill', 'ballnose', 'drill', 'vbit', 'chamfer', 'threadmill', 'reamer'].includes(tool.type);
+                          return ['endmill', 'ballnose', 'bullnose', 'drill', 'vbit', 'chamfer', 'threadmill', 'reamer'].includes(tool.type);
                         } else if (settings.machineType === 'lathe') {
                           return ['turning', 'facing', 'boring', 'threading', 'grooving', 'parting'].includes(tool.type);
                         } else {
@@ -5587,6 +6074,7 @@ function generateText3DToolpath(element: any, settings: any): string {
     const recommendedPlunge = calculateRecommendedPlungeRate(settings.feedrate);
     const cuttingFeedback = getCuttingFeedback(settings);
     const chipLoad = (settings.feedrate / (settings.rpm * settings.flutes)).toFixed(3);
+    const setupOperations = getSetupOperations();
     const cuttingStats = calculateCuttingStatistics(settings);
     const effectiveStepover = (settings.stepover / 100) * settings.toolDiameter;
     
@@ -5672,27 +6160,189 @@ function generateText3DToolpath(element: any, settings: any): string {
             </div>
       </div>
       
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Stepover (% of diameter)
-              </label>
-              <input
-                type="number"
-                min="10"
-                max="90"
-                className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
-                value={settings.stepover}
-                onChange={(e) => {
-                  const value = parseInt(e.target.value);
-                  if (!isNaN(value) && value >= 10 && value <= 90) {
-                    updateSettings('stepover', value);
-                  }
-                }}
-              />
-              <div className="text-xs text-gray-500 mt-1">
-                Effective width: {effectiveStepover.toFixed(2)} mm
-            </div>
-      </div>
+            {settings.operationType === 'adaptive' ? (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Max Engagement Angle (°)
+                  </label>
+                  <input
+                    type="number"
+                    min="10"
+                    max="90"
+                    className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                    value={settings.maxEngagementAngle}
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value);
+                      if (!isNaN(value) && value >= 10 && value <= 90) {
+                        updateSettings('maxEngagementAngle', value);
+                      }
+                    }}
+                  />
+                  <div className="text-xs text-gray-500 mt-1">
+                    Max radial width: {(settings.toolDiameter / 2 * (1 - Math.cos((settings.maxEngagementAngle || 40) * Math.PI / 180))).toFixed(2)} mm
+                  </div>
+                </div>
+                
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Entry Type
+                  </label>
+                  <select
+                    className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                    value={settings.entryType}
+                    onChange={(e) => updateSettings('entryType', e.target.value)}
+                  >
+                    <option value="helix">Helix</option>
+                    <option value="ramp">Ramp</option>
+                  </select>
+                </div>
+                
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Ramp Angle (°)
+                  </label>
+                  <input
+                    type="number"
+                    min="0.5"
+                    max="15"
+                    step="0.5"
+                    className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                    value={settings.rampAngle}
+                    onChange={(e) => {
+                      const value = parseFloat(e.target.value);
+                      if (!isNaN(value) && value >= 0.5 && value <= 15) {
+                        updateSettings('rampAngle', value);
+                      }
+                    }}
+                  />
+                </div>
+              </>
+            ) : (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Stepover (% of diameter)
+                </label>
+                <input
+                  type="number"
+                  min="10"
+                  max="90"
+                  className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                  value={settings.stepover}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value);
+                    if (!isNaN(value) && value >= 10 && value <= 90) {
+                      updateSettings('stepover', value);
+                    }
+                  }}
+                />
+                <div className="text-xs text-gray-500 mt-1">
+                  Effective width: {effectiveStepover.toFixed(2)} mm
+                </div>
+              </div>
+            )}
+            
+            {settings.operationType === 'rest_machining' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Rest Mode
+                </label>
+                <select
+                  className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                  value={settings.restMode}
+                  onChange={(e) => updateSettings('restMode', e.target.value)}
+                >
+                  <option value="roughing">Rest Roughing (Z-level)</option>
+                  <option value="pencil">Pencil (surface passes)</option>
+                </select>
+                <div className="text-xs text-gray-500 mt-1">
+                  Machines only the material left by the {setupOperations.length} earlier operation{setupOperations.length === 1 ? '' : 's'} of the setup
+                </div>
+                {setupOperations.map(operation => (
+                  <div key={operation.id} className="flex items-center justify-between text-xs text-gray-700 mt-1">
+                    <span>{operation.name}</span>
+                    <button
+                      type="button"
+                      className="text-gray-400 hover:text-red-600"
+                      title="Remove from the setup"
+                      onClick={() => removeOperation(operation.id)}
+                    >
+                      <X size={12} />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  className="mt-1 text-xs text-blue-600 hover:underline"
+                  onClick={() => startNewSetup()}
+                >
+                  New setup
+                </button>
+              </div>
+            )}
+            
+            {(settings.operationType === '3d_surface' || (settings.operationType === 'rest_machining' && settings.restMode === 'pencil')) && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Surface Strategy
+                  </label>
+                  <select
+                    className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                    value={getSurfaceStrategy()}
+                    onChange={(e) => updateSettings('finishingStrategy', e.target.value)}
+                  >
+                    <option value="parallel">Parallel</option>
+                    <option value="waterline">Waterline (Z-level)</option>
+                    <option value="spiral">Spiral</option>
+                    <option value="radial">Radial</option>
+                  </select>
+                </div>
+                
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Scallop Height (mm)
+                  </label>
+                  <input
+                    type="number"
+                    min="0.001"
+                    step="0.001"
+                    className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                    value={settings.scallopHeight}
+                    onChange={(e) => {
+                      const value = parseFloat(e.target.value);
+                      if (!isNaN(value) && value > 0) {
+                        updateSettings('scallopHeight', value);
+                      }
+                    }}
+                  />
+                  <div className="text-xs text-gray-500 mt-1">
+                    Stepover is reduced below the maximum above to keep the scallops under this height
+                  </div>
+                </div>
+                
+                {getSurfaceStrategy() === 'parallel' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Raster Angle (°)
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="180"
+                      className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                      value={settings.rasterAngle}
+                      onChange={(e) => {
+                        const value = parseFloat(e.target.value);
+                        if (!isNaN(value) && value >= 0 && value <= 180) {
+                          updateSettings('rasterAngle', value);
+                        }
+                      }}
+                    />
+                  </div>
+                )}
+              </>
+            )}
       
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -5958,7 +6608,7 @@ function generateText3DToolpath(element: any, settings: any): string {
               </label>
             </div>
                 
-                {settings.finishingPass && (
+                {settings.finishingPass && settings.operationType !== '3d_surface' && (
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
                       Finishing Strategy
@@ -6230,6 +6880,16 @@ function generateText3DToolpath(element: any, settings: any): string {
         )}
       </button>
 
+      {generatedOperation && (
+        <button
+          onClick={addOperationToSetup}
+          className="w-full bg-white text-blue-700 border border-blue-600 py-2 px-4 rounded-md hover:bg-blue-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 flex items-center justify-center mt-2"
+        >
+          <Plus size={18} className="mr-2" />
+          Add to Setup
+        </button>
+      )}
+
       <button
     onClick={() => {
       if (!currentGCode) {
@@ -22,6 +22,18 @@ import { createToolFromLibrary, animateToolRotation, addCuttingGlow, applyRealis
 import { useFixedCyclesProcessor } from 'src/hooks/useFixedCyclesProcessor';
 import { FixedCycleType, FixedCycleParams } from 'src/components/cam/toolpathUtils/fixedCycles/fixedCyclesParser';
 import { FixedCycleInfoPanel } from 'src/components/cam/FixedCyclesUIRenderer';
+import { ToolDefinition } from 'src/components/cam/toolpath-viewer/ToolModels';
+import {
+  StockComparison,
+  StockSimulation,
+  createStockGeometry,
+  updateStockGeometry
+} from 'src/components/cam/toolpath-viewer/StockSimulation';
+import { mergeMeshes, tessellateElements } from 'src/lib/importExport/tessellation';
+import { writeBinarySTL } from 'src/lib/importExport/stl';
+import { GCodeParserOptions, ParsedGCode, parseGCode as parseIsoGCode } from 'src/components/cam/toolpathUtils/fixed-gcode-parser';
+import { isKlartextProgram, parseKlartext } from 'src/components/cam/toolpathUtils/klartextParser';
+import { CollisionReport, checkCollisions, toolAssembly } from 'src/components/cam/toolpathUtils/collisionChecker';
 
 interface ToolpathVisualizerProps {
   width: string;
@@ -34,6 +46,7 @@ interface ToolpathVisualizerProps {
   onSimulationComplete?: () => void;
   onSimulationProgress?: (progress: number) => void;
   onToolChange?: (toolName: string) => void;
+  subprograms?: Record<number, string>; // Programs called with M98/G65 that are not in the G-code, by O number
 }
 
 interface ToolpathPoint {
@@ -76,6 +89,26 @@ interface Statistics {
   totalEstimatedTime: string;
 }
 
+interface StockStatistics {
+  removedVolume: number;
+  remainingVolume: number;
+  rapidCollisions: number;
+  comparison?: StockComparison;
+}
+
+// Cutter used for material removal when no tool is selected
+const DEFAULT_SIMULATION_TOOL: ToolDefinition = { type: 'endmill', diameter: 6, name: 'Default 6mm end mill' };
+
+// Deviation from the part below which the stock counts as finished (mm)
+const STOCK_COMPARISON_TOLERANCE = 0.05;
+
+// Shared default so that the simulation effects don't rerun on every render
+const NO_CAD_ELEMENTS: any[] = [];
+
+// Heidenhain Klartext or ISO G-code, whichever the program is written in
+const parseProgram = (program: string, options: GCodeParserOptions): ParsedGCode =>
+  isKlartextProgram(program) ? parseKlartext(program, options) : parseIsoGCode(program, options);
+
 interface ViewCubeProps {
   currentView: string;
   onViewChange: (view: string) => void;
@@ -202,10 +235,11 @@ const ToolpathVisualizer: FC<ToolpathVisualizerProps> = ({
   isSimulating,
   selectedTool = null,
   showWorkpiece: initialShowWorkpiece = true,
-  cadElements = [], // Initialize new prop
+  cadElements = NO_CAD_ELEMENTS, // Initialize new prop
   onSimulationComplete,
   onSimulationProgress,
-  onToolChange
+  onToolChange,
+  subprograms
 }: ToolpathVisualizerProps) => {
   // Refs for Three.js elements
   const containerRef = useRef<HTMLDivElement>(null);
@@ -219,6 +253,9 @@ const ToolpathVisualizer: FC<ToolpathVisualizerProps> = ({
   const toolRef = useRef<THREE.Object3D | null>(null);
   const toolpathRef = useRef<THREE.Object3D | null>(null);
   const workpieceRef = useRef<THREE.Mesh | null>(null);
+  const stockSimulationRef = useRef<StockSimulation | null>(null);
+  const stockMeshRef = useRef<THREE.Mesh | null>(null);
+  const stockTargetRef = useRef<Float32Array | null>(null);
   const animationFrameRef = useRef<number | null>(null);
   const toolpathPointsRef = useRef<ToolpathPoint[]>([]);
   const animateToolRef = useRef<(() => void) | null>(null);
@@ -240,6 +277,10 @@ const ToolpathVisualizer: FC<ToolpathVisualizerProps> = ({
   const [showTool, setShowTool] = useState(true);
   const [showToolpath, setShowToolpath] = useState(true);
   const [isWorkpieceVisible, setIsWorkpieceVisible] = useState(initialShowWorkpiece);
+  const [showStockSimulation, setShowStockSimulation] = useState(true);
+  const [stockVersion, setStockVersion] = useState(0);
+  const [stockStats, setStockStats] = useState<StockStatistics | null>(null);
+  const [collisionReport, setCollisionReport] = useState<CollisionReport | null>(null);
   const [showStats, setShowStats] = useState(false);
   const [isPanelOpen, setIsPanelOpen] = useState(false);
   const [activePanel, setActivePanel] = useState<'info' | 'settings' | 'tools'>('info');
@@ -266,6 +307,7 @@ const ToolpathVisualizer: FC<ToolpathVisualizerProps> = ({
   const simulationSpeedRef = useRef(1);
   // Get workpiece data from CAD store
   const { workpiece, viewMode: cadViewMode, gridVisible, axisVisible } = useCADStore();
+  const fixtures = useCAMStore(state => state.fixtures);
   const [showPointLabels, setShowPointLabels] = useState(false);
   // Use optimization hooks
   const sceneRefForHooks = sceneRef as React.RefObject<THREE.Scene>;
@@ -1058,48 +1100,121 @@ const ToolpathVisualizer: FC<ToolpathVisualizerProps> = ({
   }, []);
 
   // Enhanced G-code parser with support for arcs and shapes
+  // Enhanced G-code parser with support for arcs and shapes. Standard motion
+  // comes from the modal interpreter; the custom shape codes are expanded here.
   const parseGCode = useCallback((gcode: string, arcResolution = 10): ToolpathPoint[] => {
     const points: ToolpathPoint[] = [];
-    const lines = gcode.split('\n');
+    
+    const program = parseProgram(gcode, { subprograms });
+    program.warnings.forEach(warning => {
+      console.warn(`G-code line ${warning.lineNumber}: ${warning.message}`);
+    });
+    
+    // Interpreted moves by executed block, with arcs divided into segments
+    const motionByBlock = new Map<number, ToolpathPoint[]>();
+    let arcIndex = 0;
+    let previous = { x: 0, y: 0, z: 0 };
+    program.points.forEach(point => {
+      const blockIndex = point.blockIndex ?? -1;
+      const linePoints = motionByBlock.get(blockIndex) || [];
+      motionByBlock.set(blockIndex, linePoints);
+      
+      const arc = point.isArc ? program.arcs[arcIndex++] : undefined;
+      if (!arc) {
+        linePoints.push({
+          x: point.x,
+          y: point.y,
+          z: point.z,
+          feedrate: point.feedrate,
+          type: point.type,
+          isRapid: point.isRapid,
+          isFixedCycle: point.isFixedCycle,
+          cycleType: point.cycleType
+        });
+        previous = point;
+        return;
+      }
+      
+      // Start point with the arc metadata, then points along the arc
+      linePoints.push({
+        x: previous.x,
+        y: previous.y,
+        z: previous.z,
+        feedrate: point.feedrate,
+        type: point.type,
+        isArc: true,
+        arcCenter: { x: arc.center.x, y: arc.center.y, z: arc.center.z },
+        arcRadius: arc.radius,
+        arcStartAngle: arc.startAngle,
+        arcEndAngle: arc.endAngle,
+        isClockwise: arc.clockwise,
+        i: point.i,
+        j: point.j,
+        k: point.k
+      });
+      
+      let sweep = arc.endAngle - arc.startAngle;
+      if (arc.clockwise && sweep >= -1e-9) sweep -= 2 * Math.PI;
+      if (!arc.clockwise && sweep <= 1e-9) sweep += 2 * Math.PI;
+      const segments = Math.max(4, Math.ceil((arc.radius * Math.abs(sweep)) / arcResolution));
+      const axes: ('x' | 'y' | 'z')[] = arc.plane === 'XY' ? ['x', 'y', 'z'] : arc.plane === 'XZ' ? ['x', 'z', 'y'] : ['y', 'z', 'x'];
+      for (let i = 1; i <= segments; i++) {
+        const fraction = i / segments;
+        const angle = arc.startAngle + sweep * fraction;
+        const along = { x: 0, y: 0, z: 0 };
+        along[axes[0]] = arc.center[axes[0]] + arc.radius * Math.cos(angle);
+        along[axes[1]] = arc.center[axes[1]] + arc.radius * Math.sin(angle);
+        // Helical moves advance along the third axis
+        along[axes[2]] = previous[axes[2]] + (point[axes[2]] - previous[axes[2]]) * fraction;
+        linePoints.push({
+          x: along.x,
+          y: along.y,
+          z: along.z,
+          feedrate: point.feedrate,
+          type: point.type,
+          isArc: true
+        });
+      }
+      previous = point;
+    });
     
     let currentX = 0;
     let currentY = 0;
     let currentZ = 0;
-    let currentF = 0;
+    let currentF = program.modalState.feedrate;
     
-    // For modal state tracking
+    // For modal state tracking of the shape codes
     let isAbsoluteMode = true; // G90 is default
-    let currentPlane = 'XY'; // G17 is default (XY-plane)
     
-    lines.forEach(line => {
-      // Skip comments and empty lines
-      if (!line.trim() || line.trim().startsWith(';')) return;
+    // Blocks in execution order, after macro and subprogram expansion
+    program.blocks.forEach((block, index) => {
+      // Skip comments
+      if (block.text.startsWith(';')) return;
       
-      // Normalize the line for easier parsing
-      const normalizedLine = line.trim();
+      const normalizedLine = block.text;
       
-      // Check for modal commands
       if (normalizedLine.includes('G90')) isAbsoluteMode = true;
       if (normalizedLine.includes('G91')) isAbsoluteMode = false;
-      if (normalizedLine.includes('G17')) currentPlane = 'XY';
-      if (normalizedLine.includes('G18')) currentPlane = 'ZX';
-      if (normalizedLine.includes('G19')) currentPlane = 'YZ';
       
-      // Extract command type
-      const isG0 = normalizedLine.includes('G0') || normalizedLine.includes('G00');
-      const isG1 = normalizedLine.includes('G1') || normalizedLine.includes('G01');
-      const isG2 = normalizedLine.includes('G2') || normalizedLine.includes('G02'); // Clockwise arc
-      const isG3 = normalizedLine.includes('G3') || normalizedLine.includes('G03'); // Counter-clockwise arc
+      // Everything but the shape codes is interpreted motion
+      if (!/G1[23](?:\.[123])?(?![\d.])/.test(normalizedLine)) {
+        const motion = motionByBlock.get(index);
+        if (motion && motion.length > 0) {
+          motion.forEach(point => points.push(point));
+          const last = motion[motion.length - 1];
+          currentX = last.x;
+          currentY = last.y;
+          currentZ = last.z;
+          currentF = last.feedrate ?? currentF;
+        }
+        return;
+      }
       
       // Extract coordinates and parameters
       const xMatch = normalizedLine.match(/X([+-]?\d*\.?\d+)/);
       const yMatch = normalizedLine.match(/Y([+-]?\d*\.?\d+)/);
       const zMatch = normalizedLine.match(/Z([+-]?\d*\.?\d+)/);
       const fMatch = normalizedLine.match(/F([+-]?\d*\.?\d+)/);
-      const iMatch = normalizedLine.match(/I([+-]?\d*\.?\d+)/);
-      const jMatch = normalizedLine.match(/J([+-]?\d*\.?\d+)/);
-      const kMatch = normalizedLine.match(/K([+-]?\d*\.?\d+)/);
-      const rMatch = normalizedLine.match(/R([+-]?\d*\.?\d+)/);
       
       // Parse coordinate values
       let newX = xMatch ? parseFloat(xMatch[1]) : currentX;
@@ -1118,135 +1233,8 @@ const ToolpathVisualizer: FC<ToolpathVisualizerProps> = ({
         currentF = parseFloat(fMatch[1]);
       }
       
-      // Linear moves (G0/G1)
-      if (isG0 || isG1) {
-        points.push({
-          x: newX,
-          y: newY,
-          z: newZ,
-          feedrate: currentF,
-          type: isG0 ? 'G0' : 'G1',
-          isRapid: isG0
-        });
-      } 
-      
-      // Arc moves (G2/G3)
-      else if ((isG2 || isG3) && (iMatch || jMatch || rMatch)) {
-        // Determine arc center and radius
-        let centerX: number;
-        let centerY: number;
-        let centerZ: number = currentZ; // For helical moves
-        let radius: number;
-        
-        // Arc center using I, J, K offsets
-        if (iMatch || jMatch || kMatch) {
-          const i = iMatch ? parseFloat(iMatch[1]) : 0;
-          const j = jMatch ? parseFloat(jMatch[1]) : 0;
-          const k = kMatch ? parseFloat(kMatch[1]) : 0;
-          
-          // IJK are always relative to current position 
-          // regardless of G90/G91 mode in most controllers
-          centerX = currentX + i;
-          centerY = currentY + j;
-          centerZ = currentZ + k;
-          
-          // Calculate radius based on the distance from current position to center
-          radius = Math.sqrt(i*i + j*j);
-        } 
-        // Arc center using radius (R word)
-        else if (rMatch) {
-          radius = Math.abs(parseFloat(rMatch[1]));
-          
-          // Calculate the center point based on radius
-          // This is a complex calculation and may need adjustment
-          const dx = newX - currentX;
-          const dy = newY - currentY;
-          const dist = Math.sqrt(dx*dx + dy*dy);
-          
-          // Check if the move is valid with the given radius
-          if (dist > 2 * radius) {
-            console.warn('Arc radius too small for the given points, adjusting');
-            radius = dist / 2 + 0.001; // Adjust slightly to avoid errors
-          }
-          
-          // Determine which side of the line the center is on
-          // G2 (CW) is on one side, G3 (CCW) is on the other
-          const h = Math.sqrt(radius*radius - (dist*dist/4));
-          const dirFactor = isG2 ? -1 : 1;
-          
-          // Calculate center
-          const nx = dx / dist;
-          const ny = dy / dist;
-          
-          centerX = currentX + dx/2 - dirFactor * h * ny;
-          centerY = currentY + dy/2 + dirFactor * h * nx;
-        } else {
-          console.warn('Invalid arc command - missing center or radius');
-          return points;
-        }
-        
-        // Add the start point with arc metadata
-        points.push({
-          x: currentX,
-          y: currentY,
-          z: currentZ,
-          feedrate: currentF,
-          type: isG2 ? 'G2' : 'G3',
-          isArc: true,
-          arcCenter: { x: centerX, y: centerY, z: centerZ },
-          arcRadius: radius,
-          isClockwise: isG2,
-          i: iMatch ? parseFloat(iMatch[1]) : undefined,
-          j: jMatch ? parseFloat(jMatch[1]) : undefined,
-          k: kMatch ? parseFloat(kMatch[1]) : undefined,
-          r: rMatch ? parseFloat(rMatch[1]) : undefined
-        });
-        
-        // Calculate start and end angles
-        let startAngle = Math.atan2(currentY - centerY, currentX - centerX);
-        let endAngle = Math.atan2(newY - centerY, newX - centerX);
-        
-        // Adjust for full circles
-        if (Math.abs(startAngle - endAngle) < 0.01 && (iMatch || jMatch)) {
-          endAngle = startAngle + (isG2 ? -2*Math.PI : 2*Math.PI);
-        }
-        // Adjust based on clockwise/counterclockwise direction
-        else if (isG2 && endAngle > startAngle) {
-          endAngle = endAngle - 2*Math.PI;
-        } else if (!isG2 && startAngle > endAngle) {
-          endAngle = endAngle + 2*Math.PI;
-        }
-        
-        // Calculate arc length to determine number of segments
-        const arcAngle = Math.abs(endAngle - startAngle);
-        const arcLength = radius * arcAngle;
-        const segments = Math.max(4, Math.ceil(arcLength / arcResolution));
-        
-        // Generate intermediate points along the arc
-        for (let i = 1; i <= segments; i++) {
-          const fraction = i / segments;
-          const angle = startAngle + (endAngle - startAngle) * fraction;
-          
-          // Calculate position on arc
-          const x = centerX + radius * Math.cos(angle);
-          const y = centerY + radius * Math.sin(angle);
-          
-          // For helical moves, interpolate Z
-          const z = currentZ + (newZ - currentZ) * fraction;
-          
-          points.push({
-            x: x,
-            y: y,
-            z: z,
-            feedrate: currentF,
-            type: isG2 ? 'G2' : 'G3',
-            isArc: true
-          });
-        }
-      }
-      
       // Circle command (custom M-code or G12/G13)
-      else if (normalizedLine.includes('G12') || normalizedLine.includes('G13')) {
+      if (/G1[23](?![\d.])/.test(normalizedLine)) {
         const isClockwise = normalizedLine.includes('G12');
         
         // Extract circle parameters
@@ -1512,7 +1500,7 @@ const ToolpathVisualizer: FC<ToolpathVisualizerProps> = ({
     });
     
     return points;
-  }, []);
+  }, [subprograms]);
 
   // Update toolpath when gcode changes
   useEffect(() => {
@@ -3015,6 +3003,169 @@ const ToolpathVisualizer: FC<ToolpathVisualizerProps> = ({
     }
   }, [isWorkpieceVisible, workpiece]);
   
+  // Material-removal simulation: a heightfield stock the size of the workpiece
+  // box, shown in its place and cut by the tool as playback advances
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!scene) return;
+    
+    stockSimulationRef.current = null;
+    stockTargetRef.current = null;
+    setStockStats(null);
+    if (!showStockSimulation || !workpiece || toolpathPointsRef.current.length < 2) return;
+    
+    const toolData = predefinedTools.find(tool => tool.name === selectedTool);
+    const tool: ToolDefinition = toolData
+      ? { type: toolData.type, diameter: toolData.diameter, name: toolData.name }
+      : DEFAULT_SIMULATION_TOOL;
+    
+    const { originOffset } = useCADStore.getState();
+    const halfWidth = (workpiece.width || 100) / 2;
+    const halfHeight = (workpiece.height || 100) / 2;
+    const halfDepth = (workpiece.depth || 20) / 2;
+    
+    let mesh: THREE.Mesh;
+    try {
+      const simulation = new StockSimulation(
+        {
+          min: { x: originOffset.x - halfWidth, y: originOffset.y - halfHeight, z: originOffset.z - halfDepth },
+          max: { x: originOffset.x + halfWidth, y: originOffset.y + halfHeight, z: originOffset.z + halfDepth }
+        },
+        tool,
+        toolpathPointsRef.current
+      );
+      
+      // The CAD part, if given, is what the program should leave behind
+      const partMeshes = cadElements.length > 0 ? tessellateElements(cadElements) : [];
+      if (partMeshes.length > 0) {
+        stockTargetRef.current = simulation.stock.rasterize(mergeMeshes(partMeshes));
+      }
+      
+      mesh = new THREE.Mesh(
+        createStockGeometry(simulation.stock),
+        new THREE.MeshStandardMaterial({ vertexColors: true, metalness: 0.4, roughness: 0.5 })
+      );
+      mesh.name = 'Stock';
+      mesh.visible = isWorkpieceVisible;
+      stockSimulationRef.current = simulation;
+    } catch (error) {
+      console.error('Material removal simulation unavailable:', error);
+      return;
+    }
+    
+    scene.add(mesh);
+    stockMeshRef.current = mesh;
+    if (workpieceRef.current) {
+      workpieceRef.current.visible = false;
+    }
+    setStockVersion(version => version + 1);
+    
+    return () => {
+      scene.remove(mesh);
+      mesh.geometry.dispose();
+      (mesh.material as THREE.Material).dispose();
+      stockMeshRef.current = null;
+      if (workpieceRef.current) {
+        workpieceRef.current.visible = true;
+      }
+    };
+  }, [showStockSimulation, workpiece, selectedTool, gcode, arcResolution, cadElements, isWorkpieceVisible]);
+  
+  // Bring the stock to the current playback position; going backwards restores
+  // the material cut since
+  useEffect(() => {
+    const simulation = stockSimulationRef.current;
+    const mesh = stockMeshRef.current;
+    if (!simulation || !mesh) return;
+    
+    simulation.seek(isSimulating ? currentLine : currentPointIndex);
+    const target = stockTargetRef.current || undefined;
+    updateStockGeometry(mesh.geometry, simulation.stock, simulation.takeDirtyRegion(), target, STOCK_COMPARISON_TOLERANCE);
+    
+    setStockStats({
+      removedVolume: simulation.removedVolume,
+      remainingVolume: simulation.stock.volume(),
+      rapidCollisions: simulation.rapidCollisions().length,
+      comparison: target ? simulation.stock.compare(target, STOCK_COMPARISON_TOLERANCE) : undefined
+    });
+  }, [currentPointIndex, currentLine, isSimulating, stockVersion]);
+  
+  // Collisions of the tool, holder and spindle with the stock, the clamps and
+  // the part over the whole program
+  useEffect(() => {
+    setCollisionReport(null);
+    if (!showStockSimulation || !workpiece || !gcode) return;
+    
+    const toolData = predefinedTools.find(tool => tool.name === selectedTool);
+    const tool: ToolDefinition = toolData
+      ? {
+          type: toolData.type,
+          diameter: toolData.diameter,
+          name: toolData.name,
+          cuttingLength: toolData.cuttingLength || undefined,
+          shankDiameter: toolData.shankDiameter || undefined
+        }
+      : DEFAULT_SIMULATION_TOOL;
+    
+    const { originOffset } = useCADStore.getState();
+    const halfWidth = (workpiece.width || 100) / 2;
+    const halfHeight = (workpiece.height || 100) / 2;
+    const halfDepth = (workpiece.depth || 20) / 2;
+    
+    try {
+      const partMeshes = cadElements.length > 0 ? tessellateElements(cadElements) : [];
+      setCollisionReport(checkCollisions(parseProgram(gcode, { subprograms }), {
+        stock: {
+          min: { x: originOffset.x - halfWidth, y: originOffset.y - halfHeight, z: originOffset.z - halfDepth },
+          max: { x: originOffset.x + halfWidth, y: originOffset.y + halfHeight, z: originOffset.z + halfDepth }
+        },
+        assembly: toolAssembly(tool),
+        fixtures,
+        part: partMeshes.length > 0 ? mergeMeshes(partMeshes) : undefined,
+        tolerance: STOCK_COMPARISON_TOLERANCE
+      }));
+    } catch (error) {
+      console.error('Collision check unavailable:', error);
+    }
+  }, [showStockSimulation, workpiece, selectedTool, gcode, subprograms, fixtures, cadElements]);
+  
+  // Clamps and fixtures, drawn as translucent boxes
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!scene || fixtures.length === 0) return;
+    
+    const group = new THREE.Group();
+    group.name = 'Fixtures';
+    fixtures.forEach(fixture => {
+      const size = new THREE.Vector3(
+        fixture.max.x - fixture.min.x,
+        fixture.max.y - fixture.min.y,
+        fixture.max.z - fixture.min.z
+      );
+      const box = new THREE.Mesh(
+        new THREE.BoxGeometry(size.x, size.y, size.z),
+        new THREE.MeshStandardMaterial({ color: 0x6366f1, transparent: true, opacity: 0.5 })
+      );
+      box.position.set(
+        (fixture.min.x + fixture.max.x) / 2,
+        (fixture.min.y + fixture.max.y) / 2,
+        (fixture.min.z + fixture.max.z) / 2
+      );
+      box.name = fixture.name;
+      group.add(box);
+    });
+    scene.add(group);
+    
+    return () => {
+      scene.remove(group);
+      group.children.forEach(child => {
+        const mesh = child as THREE.Mesh;
+        mesh.geometry.dispose();
+        (mesh.material as THREE.Material).dispose();
+      });
+    };
+  }, [fixtures]);
+  
   // Effect to start/stop simulation based on isSimulating prop
   useEffect(() => {
     if (isSimulating && !isPlaying) {
@@ -3170,6 +3321,23 @@ const ToolpathVisualizer: FC<ToolpathVisualizerProps> = ({
     // Restore normal detail
     if (restore) restore();
   }, [temporarilyRestoreFullDetail]);
+  // Download the simulated stock as a binary STL
+  const exportStock = useCallback(() => {
+    const simulation = stockSimulationRef.current;
+    if (!simulation) return;
+    
+    const data = writeBinarySTL([simulation.stock.toTriangleMesh('Stock')], 'stock');
+    const url = URL.createObjectURL(new Blob([data], { type: 'model/stl' }));
+    
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `stock-${new Date().toISOString().slice(0, 10)}.stl`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }, []);
+  
   // Toggle panel
   const togglePanel = (panel: 'info' | 'settings' | 'tools') => {
     if (activePanel === panel && isPanelOpen) {
@@ -3771,6 +3939,15 @@ const ToolpathVisualizer: FC<ToolpathVisualizerProps> = ({
               <Download size={18} />
             </button>
             
+            <button 
+              className="p-1.5 rounded-md hover:bg-gray-700 focus:outline-none disabled:opacity-50"
+              onClick={exportStock}
+              disabled={!stockStats}
+              title="Export Stock as STL"
+            >
+              <Box size={18} />
+            </button>
+            
             <button 
               className={`p-1.5 rounded-md focus:outline-none ${
                 showInfo ? 'text-blue-400' : 'text-gray-400'
@@ -3924,7 +4101,62 @@ const ToolpathVisualizer: FC<ToolpathVisualizerProps> = ({
                 <div className="font-mono">{selectedTool}</div>
               </>
             )}
+            
+            {stockStats && (
+              <>
+                <div className="text-gray-400">Removed:</div>
+                <div className="font-mono">{(stockStats.removedVolume / 1000).toFixed(2)} cm³</div>
+                
+                <div className="text-gray-400">Stock left:</div>
+                <div className="font-mono">{(stockStats.remainingVolume / 1000).toFixed(2)} cm³</div>
+                
+                {stockStats.comparison && (
+                  <>
+                    <div className="text-gray-400">Leftover:</div>
+                    <div className="font-mono text-amber-400">
+                      {(stockStats.comparison.excessVolume / 1000).toFixed(2)} cm³ (max {stockStats.comparison.maxExcess.toFixed(2)} mm)
+                    </div>
+                    
+                    <div className="text-gray-400">Gouges:</div>
+                    <div className={`font-mono ${stockStats.comparison.gougeNodes > 0 ? 'text-red-400' : ''}`}>
+                      {stockStats.comparison.gougeNodes > 0
+                        ? `${(stockStats.comparison.gougeVolume / 1000).toFixed(2)} cm³ (max ${stockStats.comparison.maxGouge.toFixed(2)} mm)`
+                        : 'None'}
+                    </div>
+                  </>
+                )}
+                
+                {stockStats.rapidCollisions > 0 && (
+                  <>
+                    <div className="text-gray-400">Rapid cuts:</div>
+                    <div className="font-mono text-red-400">{stockStats.rapidCollisions} rapid moves into stock</div>
+                  </>
+                )}
+              </>
+            )}
           </div>
+          
+          {collisionReport && (
+            <div className="mt-4 border-t border-gray-600 pt-2">
+              <div className="font-medium mb-1">
+                Collisions{collisionReport.events.length > 0 ? ` (${collisionReport.events.length}${collisionReport.truncated ? '+' : ''})` : ''}
+              </div>
+              {collisionReport.events.length === 0 ? (
+                <div className="text-gray-400">None found</div>
+              ) : (
+                <ul className="space-y-1 max-h-40 overflow-y-auto">
+                  {collisionReport.events.slice(0, 20).map((event, index) => (
+                    <li key={index} className={event.type === 'rapid-through-stock' || event.type === 'fixture-collision' ? 'text-red-400' : 'text-amber-400'}>
+                      <span className="font-mono text-gray-400 mr-2">
+                        L{event.lineNumber ?? '?'} {Math.floor(event.time / 60)}:{String(Math.floor(event.time % 60)).padStart(2, '0')}
+                      </span>
+                      {event.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
 
           {/* Solo se è stato selezionato un punto */}
           {selectedPointIndex >= 0 && selectedPointIndex < toolpathPointsRef.current.length && (
@@ -4128,6 +4360,31 @@ const ToolpathVisualizer: FC<ToolpathVisualizerProps> = ({
                   </div>
                 </div>
                 
+                <div className="flex items-center justify-between">
+                  <label className="text-sm">Material Removal</label>
+                  <div className="relative inline-block w-10 align-middle select-none">
+                    <input
+                      type="checkbox"
+                      checked={showStockSimulation}
+                      onChange={() => setShowStockSimulation(!showStockSimulation)}
+                      className="sr-only"
+                      id="stock-simulation-toggle"
+                    />
+                    <label
+                      htmlFor="stock-simulation-toggle"
+                      className={`block overflow-hidden h-6 rounded-full bg-gray-600 cursor-pointer ${
+                        showStockSimulation ? 'bg-blue-600' : 'bg-gray-600'
+                      }`}
+                    >
+                      <span
+                        className={`block h-5 w-5 rounded-full bg-white shadow transform transition-transform ${
+                          showStockSimulation ? 'translate-x-5' : 'translate-x-0'
+                        }`}
+                      />
+                    </label>
+                  </div>
+                </div>
+                
                 {/* Toolpath Points Visualization Settings */}
                 <div className="space-y-2 border-t border-gray-700 pt-3 mt-2">
                   <h4 className="text-sm font-medium text-blue-400 mb-2">Toolpath Points</h4>
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { useCAMStore, WorkholdingFixtureType } from '@/src/store/camStore';
+import { Trash2 } from 'react-feather';
+
+const FIXTURE_TYPES: { value: WorkholdingFixtureType; label: string }[] = [
+  { value: 'clamp', label: 'Clamp' },
+  { value: 'vise', label: 'Vise jaw' },
+  { value: 'plate', label: 'Fixture plate' },
+  { value: 'fixture', label: 'Other fixture' }
+];
+
+const inputClassName = 'mt-1 block w-full py-1 px-2 border border-gray-300 bg-[#F8FBFF] dark:bg-gray-700 dark:text-white rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+/**
+ * Clamps, vise jaws and other workholding, as boxes in work coordinates.
+ * The toolpath simulation checks the tool, holder and spindle against them.
+ */
+const WorkholdingFixtures: React.FC = () => {
+  const { fixtures, addFixture, removeFixture } = useCAMStore();
+  const [form, setForm] = useState({
+    type: 'clamp' as WorkholdingFixtureType,
+    x: 0,
+    y: 0,
+    z: 0,
+    width: 20,
+    length: 40,
+    height: 15
+  });
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setForm(prev => ({ ...prev, [name]: name === 'type' ? value : parseFloat(value) || 0 }));
+  };
+
+  const handleAdd = () => {
+    const label = FIXTURE_TYPES.find(type => type.value === form.type)?.label || 'Fixture';
+    const count = fixtures.filter(fixture => fixture.type === form.type).length;
+    addFixture({
+      name: `${label} ${count + 1}`,
+      type: form.type,
+      min: { x: form.x, y: form.y, z: form.z },
+      max: { x: form.x + form.width, y: form.y + form.length, z: form.z + form.height }
+    });
+  };
+
+  const field = (name: keyof typeof form, label: string) => (
+    <div>
+      <label htmlFor={`fixture-${name}`} className="block text-xs font-medium text-gray-700 dark:text-gray-300">
+        {label}
+      </label>
+      <input
+        type="number"
+        name={name}
+        id={`fixture-${name}`}
+        value={form[name]}
+        onChange={handleChange}
+        step="0.1"
+        className={inputClassName}
+      />
+    </div>
+  );
+
+  const isValid = form.width > 0 && form.length > 0 && form.height > 0;
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-md font-medium text-gray-800 dark:text-gray-200 pt-4 border-t border-gray-200 dark:border-gray-600">Clamps and Fixtures</h4>
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        Workholding the simulation checks for collisions with the tool, holder and spindle. Positions are in work coordinates.
+      </p>
+
+      {fixtures.length > 0 && (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-600 text-sm">
+          {fixtures.map(fixture => (
+            <li key={fixture.id} className="flex items-center justify-between py-1">
+              <span className="text-gray-700 dark:text-gray-300">
+                {fixture.name}
+                <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                  X{fixture.min.x}..{fixture.max.x} Y{fixture.min.y}..{fixture.max.y} Z{fixture.min.z}..{fixture.max.z}
+                </span>
+              </span>
+              <button
+                type="button"
+                onClick={() => removeFixture(fixture.id)}
+                className="text-red-600 hover:text-red-800"
+                title="Remove"
+              >
+                <Trash2 size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div>
+        <label htmlFor="fixture-type" className="block text-xs font-medium text-gray-700 dark:text-gray-300">
+          Type
+        </label>
+        <select name="type" id="fixture-type" value={form.type} onChange={handleChange} className={inputClassName}>
+          {FIXTURE_TYPES.map(type => (
+            <option key={type.value} value={type.value}>{type.label}</option>
+          ))}
+        </select>
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        {field('x', 'Corner X')}
+        {field('y', 'Corner Y')}
+        {field('z', 'Corner Z')}
+        {field('width', 'Size X')}
+        {field('length', 'Size Y')}
+        {field('height', 'Size Z')}
+      </div>
+      <button
+        type="button"
+        onClick={handleAdd}
+        disabled={!isValid}
+        className="w-full inline-flex justify-center py-2 px-4 border border-gray-300 dark:border-gray-500 shadow-sm text-sm font-medium rounded-md text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Add Fixture
+      </button>
+    </div>
+  );
+};
+
+export default WorkholdingFixtures;
@@ -0,0 +1,684 @@
+import * as THREE from 'three';
+import { ToolDefinition } from './ToolModels';
+import { TriangleMesh } from 'src/lib/importExport/tessellation';
+
+/**
+ * Material-removal simulation for 3-axis toolpaths.
+ *
+ * The stock is a heightfield: a regular grid of nodes over the XY footprint of
+ * the workpiece, each holding the Z of the top of the remaining material. Every
+ * move lowers the nodes under the volume swept by the cutter. The cutter is
+ * described by its profile - the height of the cutting surface above the tip at
+ * each distance from the axis - which is convex for all supported tools, so the
+ * lowest point of the swept cutter over a node can be found exactly with a
+ * one-dimensional search along the move.
+ *
+ * Playback may jump backwards. The simulation keeps snapshots of the heights
+ * along the program and replays forward from the closest one.
+ */
+
+export interface StockBounds {
+  min: { x: number; y: number; z: number };
+  max: { x: number; y: number; z: number };
+}
+
+export interface StockPoint {
+  x: number;
+  y: number;
+  z: number;
+  isRapid?: boolean;
+  type?: string;
+}
+
+export interface CutterProfile {
+  radius: number;
+  /** Height of the cutting surface above the tip at a distance r <= radius from the axis */
+  height: (r: number) => number;
+  /** True when the whole bottom is flat, which makes the swept minimum linear */
+  flat: boolean;
+}
+
+export interface StockSimulationOptions {
+  /** Grid spacing in mm; by default a quarter of the cutter radius, at most 0.5 mm */
+  resolution?: number;
+  /** Upper bound on the number of grid nodes, which coarsens the resolution if needed */
+  maxNodes?: number;
+}
+
+export interface StockRegion {
+  minI: number;
+  minJ: number;
+  maxI: number;
+  maxJ: number;
+}
+
+export interface StockComparison {
+  /** Volume of material left above the part, beyond the tolerance (mm³) */
+  excessVolume: number;
+  /** Volume cut out of the part, beyond the tolerance (mm³) */
+  gougeVolume: number;
+  excessNodes: number;
+  gougeNodes: number;
+  maxExcess: number;
+  maxGouge: number;
+}
+
+const DEFAULT_MAX_NODES = 400000;
+const MAX_CHECKPOINTS = 64;
+const GOLDEN_SECTION_ITERATIONS = 24;
+const GOLDEN = (Math.sqrt(5) - 1) / 2;
+// A rapid only counts as cutting once it removes more than a layer this
+// fraction of the grid spacing deep from one node; less is rounding in the
+// single-precision heights or a graze along the surface
+const RAPID_COLLISION_DEPTH = 0.01;
+
+/**
+ * Cutting profile of a tool, following the shapes drawn by createToolModel
+ */
+export function cutterProfile(tool: ToolDefinition): CutterProfile {
+  const radius = tool.diameter / 2;
+  if (!(radius > 0)) {
+    throw new Error(`Tool "${tool.name || tool.type}" has no diameter`);
+  }
+
+  const cone = (halfAngleDegrees: number, tipRadius = 0): CutterProfile => {
+    const slope = 1 / Math.tan((halfAngleDegrees * Math.PI) / 180);
+    return { radius, height: r => Math.max(0, r - tipRadius) * slope, flat: false };
+  };
+
+  switch (tool.type.toLowerCase()) {
+    case 'ballnose':
+    case 'ball':
+    case 'ballendmill':
+      return { radius, height: r => radius - Math.sqrt(Math.max(0, radius * radius - r * r)), flat: false };
+
+    case 'bullnose': {
+      const corner = Math.min(tool.radius || radius * 0.2, radius);
+      const flatRadius = radius - corner;
+      return {
+        radius,
+        height: r => r <= flatRadius ? 0 : corner - Math.sqrt(Math.max(0, corner * corner - (r - flatRadius) ** 2)),
+        flat: false
+      };
+    }
+
+    // V-bits and drills are specified by their included angle
+    case 'vbit':
+    case 'v-bit':
+      return cone((tool.angle || 90) / 2);
+    case 'drill':
+    case 'drillbit':
+      return cone((tool.angle || 118) / 2);
+
+    // Chamfer tools by the angle of the flank to the axis
+    case 'chamfer':
+    case 'chamfermill':
+      return cone(tool.angle || 45, (tool.tipDiameter || 0) / 2);
+
+    default:
+      return { radius, height: () => 0, flat: true };
+  }
+}
+
+/**
+ * Remaining material as a grid of top heights
+ */
+export class HeightfieldStock {
+  readonly nx: number;
+  readonly ny: number;
+  readonly spacingX: number;
+  readonly spacingY: number;
+  readonly heights: Float32Array;
+
+  constructor(readonly bounds: StockBounds, resolution: number) {
+    const width = bounds.max.x - bounds.min.x;
+    const depth = bounds.max.y - bounds.min.y;
+    if (!(width > 0 && depth > 0 && bounds.max.z > bounds.min.z)) {
+      throw new Error('Stock bounds must have a positive size');
+    }
+    if (!(resolution > 0)) {
+      throw new Error('Stock resolution must be positive');
+    }
+
+    this.nx = Math.max(2, Math.ceil(width / resolution) + 1);
+    this.ny = Math.max(2, Math.ceil(depth / resolution) + 1);
+    this.spacingX = width / (this.nx - 1);
+    this.spacingY = depth / (this.ny - 1);
+    this.heights = new Float32Array(this.nx * this.ny).fill(bounds.max.z);
+  }
+
+  get nodeArea(): number {
+    return this.spacingX * this.spacingY;
+  }
+
+  nodeX(i: number): number {
+    return this.bounds.min.x + i * this.spacingX;
+  }
+
+  nodeY(j: number): number {
+    return this.bounds.min.y + j * this.spacingY;
+  }
+
+  /**
+   * Volume of the remaining material, counting each node for the area around it
+   */
+  volume(): number {
+    const bottom = this.bounds.min.z;
+    let total = 0;
+    for (let j = 0; j < this.ny; j++) {
+      const wy = j === 0 || j === this.ny - 1 ? 0.5 : 1;
+      for (let i = 0; i < this.nx; i++) {
+        const wx = i === 0 || i === this.nx - 1 ? 0.5 : 1;
+        total += wx * wy * (this.heights[j * this.nx + i] - bottom);
+      }
+    }
+    return total * this.nodeArea;
+  }
+
+  /**
+   * Remove the material swept by the cutter tip moving in a straight line.
+   * Returns the removed volume and the range of nodes that changed, if any.
+   */
+  cut(from: StockPoint, to: StockPoint, cutter: CutterProfile): { volume: number; region: StockRegion | null; evaluated: number } {
+    const { bounds, nx, ny, heights } = this;
+    const R = cutter.radius;
+    const minI = Math.max(0, Math.ceil((Math.min(from.x, to.x) - R - bounds.min.x) / this.spacingX));
+    const maxI = Math.min(nx - 1, Math.floor((Math.max(from.x, to.x) + R - bounds.min.x) / this.spacingX));
+    const minJ = Math.max(0, Math.ceil((Math.min(from.y, to.y) - R - bounds.min.y) / this.spacingY));
+    const maxJ = Math.min(ny - 1, Math.floor((Math.max(from.y, to.y) + R - bounds.min.y) / this.spacingY));
+
+    let volume = 0;
+    let evaluated = 0;
+    let region: StockRegion | null = null;
+    // Nothing to do when the tip stays above the material or the move is off the stock
+    if (minI > maxI || minJ > maxJ || Math.min(from.z, to.z) >= bounds.max.z) {
+      return { volume, region, evaluated };
+    }
+
+    const bx = to.x - from.x;
+    const by = to.y - from.y;
+    const dz = to.z - from.z;
+    const bb = bx * bx + by * by;
+    const R2 = R * R;
+
+    for (let j = minJ; j <= maxJ; j++) {
+      const ay = this.nodeY(j) - from.y;
+      for (let i = minI; i <= maxI; i++) {
+        const ax = this.nodeX(i) - from.x;
+        const aa = ax * ax + ay * ay;
+
+        // Part of the move over which the node lies under the cutter
+        let t0 = 0;
+        let t1 = 1;
+        if (bb < 1e-18) {
+          if (aa > R2) continue;
+        } else {
+          const ab = ax * bx + ay * by;
+          const discriminant = ab * ab - bb * (aa - R2);
+          if (discriminant < 0) continue;
+          const root = Math.sqrt(discriminant);
+          t0 = Math.max(0, (ab - root) / bb);
+          t1 = Math.min(1, (ab + root) / bb);
+          if (t0 > t1) continue;
+        }
+        evaluated++;
+
+        const index = j * nx + i;
+        const distance = (t: number) => Math.sqrt(Math.max(0, aa - 2 * t * (ax * bx + ay * by) + t * t * bb));
+        const surface = (t: number) => from.z + t * dz + cutter.height(Math.min(R, distance(t)));
+
+        let lowest = Math.min(surface(t0), surface(t1));
+        if (!cutter.flat && t1 - t0 > 1e-12) {
+          // The swept surface is convex along the move
+          let a = t0;
+          let b = t1;
+          let c = b - GOLDEN * (b - a);
+          let d = a + GOLDEN * (b - a);
+          let fc = surface(c);
+          let fd = surface(d);
+          for (let k = 0; k < GOLDEN_SECTION_ITERATIONS; k++) {
+            if (fc < fd) {
+              b = d;
+              d = c;
+              fd = fc;
+              c = b - GOLDEN * (b - a);
+              fc = surface(c);
+            } else {
+              a = c;
+              c = d;
+              fc = fd;
+              d = a + GOLDEN * (b - a);
+              fd = surface(d);
+            }
+          }
+          lowest = Math.min(lowest, fc, fd);
+        }
+
+        lowest = Math.max(lowest, bounds.min.z);
+        if (lowest < heights[index]) {
+          volume += (heights[index] - lowest) * this.nodeArea;
+          heights[index] = lowest;
+          if (!region) {
+            region = { minI: i, maxI: i, minJ: j, maxJ: j };
+          } else {
+            region.minI = Math.min(region.minI, i);
+            region.maxI = Math.max(region.maxI, i);
+            region.minJ = Math.min(region.minJ, j);
+            region.maxJ = Math.max(region.maxJ, j);
+          }
+        }
+      }
+    }
+
+    return { volume, region, evaluated };
+  }
+
+  /**
+   * Top of a part seen from above at every node, or the stock bottom where the
+   * part does not reach. This is the surface a perfect program would leave.
+   */
+  rasterize(part: TriangleMesh): Float32Array {
+    const target = new Float32Array(this.nx * this.ny).fill(this.bounds.min.z);
+    const p = part.positions;
+    const idx = part.indices;
+
+    for (let t = 0; t < idx.length; t += 3) {
+      const ax = p[idx[t] * 3], ay = p[idx[t] * 3 + 1], az = p[idx[t] * 3 + 2];
+      const bx = p[idx[t + 1] * 3], by = p[idx[t + 1] * 3 + 1], bz = p[idx[t + 1] * 3 + 2];
+      const cx = p[idx[t + 2] * 3], cy = p[idx[t + 2] * 3 + 1], cz = p[idx[t + 2] * 3 + 2];
+      const det = (by - cy) * (ax - cx) + (cx - bx) * (ay - cy);
+      // Vertical faces have no extent seen from above
+      if (Math.abs(det) < 1e-12) continue;
+
+      const minI = Math.max(0, Math.ceil((Math.min(ax, bx, cx) - this.bounds.min.x) / this.spacingX));
+      const maxI = Math.min(this.nx - 1, Math.floor((Math.max(ax, bx, cx) - this.bounds.min.x) / this.spacingX));
+      const minJ = Math.max(0, Math.ceil((Math.min(ay, by, cy) - this.bounds.min.y) / this.spacingY));
+      const maxJ = Math.min(this.ny - 1, Math.floor((Math.max(ay, by, cy) - this.bounds.min.y) / this.spacingY));
+
+      for (let j = minJ; j <= maxJ; j++) {
+        const y = this.nodeY(j);
+        for (let i = minI; i <= maxI; i++) {
+          const x = this.nodeX(i);
+          const u = ((by - cy) * (x - cx) + (cx - bx) * (y - cy)) / det;
+          const v = ((cy - ay) * (x - cx) + (ax - cx) * (y - cy)) / det;
+          const w = 1 - u - v;
+          if (u < -1e-9 || v < -1e-9 || w < -1e-9) continue;
+          const z = Math.min(this.bounds.max.z, u * az + v * bz + w * cz);
+          const index = j * this.nx + i;
+          if (z > target[index]) target[index] = z;
+        }
+      }
+    }
+
+    return target;
+  }
+
+  /**
+   * Material left above a target surface and material cut below it
+   */
+  compare(target: Float32Array, tolerance: number): StockComparison {
+    const result: StockComparison = {
+      excessVolume: 0,
+      gougeVolume: 0,
+      excessNodes: 0,
+      gougeNodes: 0,
+      maxExcess: 0,
+      maxGouge: 0
+    };
+    for (let index = 0; index < this.heights.length; index++) {
+      const difference = this.heights[index] - target[index];
+      if (difference > tolerance) {
+        result.excessNodes++;
+        result.excessVolume += difference * this.nodeArea;
+        result.maxExcess = Math.max(result.maxExcess, difference);
+      } else if (difference < -tolerance) {
+        result.gougeNodes++;
+        result.gougeVolume -= difference * this.nodeArea;
+        result.maxGouge = Math.max(result.maxGouge, -difference);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Closed triangle mesh of the remaining stock, for export
+   */
+  toTriangleMesh(name = 'Stock'): TriangleMesh {
+    const { nx, ny, heights, bounds } = this;
+    const positions: number[] = [];
+    const indices: number[] = [];
+
+    // Top surface, one vertex per node
+    for (let j = 0; j < ny; j++) {
+      for (let i = 0; i < nx; i++) {
+        positions.push(this.nodeX(i), this.nodeY(j), heights[j * nx + i]);
+      }
+    }
+    for (let j = 0; j < ny - 1; j++) {
+      for (let i = 0; i < nx - 1; i++) {
+        const a = j * nx + i;
+        indices.push(a, a + 1, a + nx + 1, a, a + nx + 1, a + nx);
+      }
+    }
+
+    // Border of the top, counter-clockwise seen from above, and the bottom ring below it
+    const ring: number[] = [];
+    for (let i = 0; i < nx - 1; i++) ring.push(i);
+    for (let j = 0; j < ny - 1; j++) ring.push(j * nx + nx - 1);
+    for (let i = nx - 1; i > 0; i--) ring.push((ny - 1) * nx + i);
+    for (let j = ny - 1; j > 0; j--) ring.push(j * nx);
+
+    const bottomStart = positions.length / 3;
+    ring.forEach(node => positions.push(positions[node * 3], positions[node * 3 + 1], bounds.min.z));
+    const center = positions.length / 3;
+    positions.push((bounds.min.x + bounds.max.x) / 2, (bounds.min.y + bounds.max.y) / 2, bounds.min.z);
+
+    ring.forEach((node, k) => {
+      const next = (k + 1) % ring.length;
+      const bottom = bottomStart + k;
+      const bottomNext = bottomStart + next;
+      // Walls face outwards, the bottom downwards
+      indices.push(node, bottom, bottomNext, node, bottomNext, ring[next]);
+      indices.push(center, bottomNext, bottom);
+    });
+
+    return { positions, indices, name };
+  }
+}
+
+interface StockCheckpoint {
+  position: number;
+  heights: Float32Array;
+  removedVolume: number;
+}
+
+/**
+ * A stock being machined by a toolpath, positioned anywhere along it.
+ * Position p means the tool has reached point p; fractional positions stop
+ * part way through the next move.
+ */
+export class StockSimulation {
+  readonly stock: HeightfieldStock;
+  readonly cutter: CutterProfile;
+  /** Material removed by each move, indexed by the point the move ends at */
+  readonly moveVolumes: Float64Array;
+
+  private checkpoints: StockCheckpoint[] = [];
+  private appliedPosition = 0;
+  private removed = 0;
+  private workSinceCheckpoint = 0;
+  private dirty: StockRegion | null = null;
+
+  constructor(
+    bounds: StockBounds,
+    tool: ToolDefinition,
+    private readonly points: StockPoint[],
+    options: StockSimulationOptions = {}
+  ) {
+    this.cutter = cutterProfile(tool);
+
+    const width = bounds.max.x - bounds.min.x;
+    const depth = bounds.max.y - bounds.min.y;
+    const maxNodes = options.maxNodes || DEFAULT_MAX_NODES;
+    const resolution = Math.max(
+      options.resolution || Math.min(0.5, this.cutter.radius / 4),
+      Math.sqrt((width * depth) / maxNodes)
+    );
+
+    this.stock = new HeightfieldStock(bounds, resolution);
+    this.moveVolumes = new Float64Array(points.length);
+    this.checkpoints.push({ position: 0, heights: new Float32Array(this.stock.heights), removedVolume: 0 });
+    this.dirty = this.wholeGrid();
+  }
+
+  get position(): number {
+    return this.appliedPosition;
+  }
+
+  get removedVolume(): number {
+    return this.removed;
+  }
+
+  /**
+   * Moves up to the current position that are rapids but removed material,
+   * ignoring amounts small against a grid cell
+   */
+  rapidCollisions(): number[] {
+    const collisions: number[] = [];
+    const spacing = Math.min(this.stock.spacingX, this.stock.spacingY);
+    const threshold = this.stock.nodeArea * spacing * RAPID_COLLISION_DEPTH;
+    for (let index = 1; index <= Math.floor(this.appliedPosition); index++) {
+      const point = this.points[index];
+      if ((point.isRapid || point.type === 'G0') && this.moveVolumes[index] > threshold) {
+        collisions.push(index);
+      }
+    }
+    return collisions;
+  }
+
+  /**
+   * Bring the stock to a position along the toolpath
+   */
+  seek(position: number): void {
+    const last = this.points.length - 1;
+    position = Math.max(0, Math.min(position, Math.max(0, last)));
+
+    if (position < this.appliedPosition) {
+      let checkpoint = this.checkpoints[0];
+      this.checkpoints.forEach(candidate => {
+        if (candidate.position <= position) checkpoint = candidate;
+      });
+      this.stock.heights.set(checkpoint.heights);
+      this.removed = checkpoint.removedVolume;
+      this.appliedPosition = checkpoint.position;
+      this.workSinceCheckpoint = 0;
+      this.dirty = this.wholeGrid();
+    }
+
+    // Complete moves; a partly applied move is simply cut again in full
+    const target = Math.floor(position);
+    for (let index = Math.floor(this.appliedPosition) + 1; index <= target; index++) {
+      this.moveVolumes[index] = this.applyMove(this.points[index - 1], this.points[index]);
+      this.appliedPosition = index;
+      if (this.workSinceCheckpoint > this.stock.heights.length) {
+        this.addCheckpoint();
+      }
+    }
+
+    const fraction = position - target;
+    if (fraction > 0 && target < last) {
+      const from = this.points[target];
+      const to = this.points[target + 1];
+      this.applyMove(from, {
+        x: from.x + (to.x - from.x) * fraction,
+        y: from.y + (to.y - from.y) * fraction,
+        z: from.z + (to.z - from.z) * fraction
+      });
+    }
+    this.appliedPosition = Math.max(this.appliedPosition, position);
+  }
+
+  /**
+   * Nodes changed since the last call, for incremental display updates
+   */
+  takeDirtyRegion(): StockRegion | null {
+    const region = this.dirty;
+    this.dirty = null;
+    return region;
+  }
+
+  private applyMove(from: StockPoint, to: StockPoint): number {
+    const { volume, region, evaluated } = this.stock.cut(from, to, this.cutter);
+    this.removed += volume;
+    this.workSinceCheckpoint += evaluated;
+    if (region) {
+      this.dirty = this.dirty
+        ? {
+            minI: Math.min(this.dirty.minI, region.minI),
+            minJ: Math.min(this.dirty.minJ, region.minJ),
+            maxI: Math.max(this.dirty.maxI, region.maxI),
+            maxJ: Math.max(this.dirty.maxJ, region.maxJ)
+          }
+        : region;
+    }
+    return volume;
+  }
+
+  // Snapshots are taken once replaying from the previous one would cost about
+  // as much as a pass over the whole grid; when there are too many, every
+  // other one is dropped
+  private addCheckpoint(): void {
+    this.checkpoints.push({
+      position: this.appliedPosition,
+      heights: new Float32Array(this.stock.heights),
+      removedVolume: this.removed
+    });
+    this.workSinceCheckpoint = 0;
+    if (this.checkpoints.length > MAX_CHECKPOINTS) {
+      this.checkpoints = this.checkpoints.filter((_, index) => index % 2 === 0);
+    }
+  }
+
+  private wholeGrid(): StockRegion {
+    return { minI: 0, minJ: 0, maxI: this.stock.nx - 1, maxJ: this.stock.ny - 1 };
+  }
+}
+
+const STOCK_COLOR = new THREE.Color(0xb0b0b0);
+const EXCESS_COLOR = new THREE.Color(0xf59e0b);
+const GOUGE_COLOR = new THREE.Color(0xdc2626);
+
+/**
+ * Geometry for displaying a stock: the top surface as a grid that
+ * updateStockGeometry refreshes in place, with walls and a bottom of their own
+ * so that the edges stay sharp
+ */
+export function createStockGeometry(stock: HeightfieldStock): THREE.BufferGeometry {
+  const { nx, ny, bounds } = stock;
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const indices: number[] = [];
+
+  for (let j = 0; j < ny; j++) {
+    for (let i = 0; i < nx; i++) {
+      positions.push(stock.nodeX(i), stock.nodeY(j), bounds.max.z);
+      normals.push(0, 0, 1);
+    }
+  }
+  for (let j = 0; j < ny - 1; j++) {
+    for (let i = 0; i < nx - 1; i++) {
+      const a = j * nx + i;
+      indices.push(a, a + 1, a + nx + 1, a, a + nx + 1, a + nx);
+    }
+  }
+
+  // Each side runs counter-clockwise seen from above: a top and a bottom
+  // vertex per border node, the top one following the node's height
+  const wallNodes: number[] = [];
+  const side = (nodes: number[], nxOut: number, nyOut: number) => {
+    const start = positions.length / 3;
+    nodes.forEach(node => {
+      wallNodes.push(node);
+      positions.push(positions[node * 3], positions[node * 3 + 1], bounds.max.z);
+      positions.push(positions[node * 3], positions[node * 3 + 1], bounds.min.z);
+      normals.push(nxOut, nyOut, 0, nxOut, nyOut, 0);
+    });
+    for (let k = 0; k < nodes.length - 1; k++) {
+      const top = start + k * 2;
+      indices.push(top, top + 1, top + 3, top, top + 3, top + 2);
+    }
+  };
+  const range = (count: number, map: (k: number) => number) => Array.from({ length: count }, (_, k) => map(k));
+  side(range(nx, i => i), 0, -1);
+  side(range(ny, j => j * nx + nx - 1), 1, 0);
+  side(range(nx, i => (ny - 1) * nx + nx - 1 - i), 0, 1);
+  side(range(ny, j => (ny - 1 - j) * nx), -1, 0);
+
+  const bottom = positions.length / 3;
+  [[bounds.min.x, bounds.min.y], [bounds.max.x, bounds.min.y], [bounds.max.x, bounds.max.y], [bounds.min.x, bounds.max.y]]
+    .forEach(([x, y]) => {
+      positions.push(x, y, bounds.min.z);
+      normals.push(0, 0, -1);
+    });
+  indices.push(bottom, bottom + 2, bottom + 1, bottom, bottom + 3, bottom + 2);
+
+  const vertexCount = positions.length / 3;
+  const colors = new Float32Array(vertexCount * 3);
+  for (let v = 0; v < vertexCount; v++) {
+    colors[v * 3] = STOCK_COLOR.r;
+    colors[v * 3 + 1] = STOCK_COLOR.g;
+    colors[v * 3 + 2] = STOCK_COLOR.b;
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geometry.setAttribute('normal', new THREE.Float32BufferAttribute(normals, 3));
+  geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+  geometry.setIndex(indices);
+  geometry.userData.wallNodes = new Int32Array(wallNodes);
+  geometry.userData.wallStart = nx * ny;
+  updateStockGeometry(geometry, stock);
+  return geometry;
+}
+
+/**
+ * Copy the heights of a region of the stock into geometry made by
+ * createStockGeometry. With a target surface, nodes are coloured by the
+ * material left above it or cut below it.
+ */
+export function updateStockGeometry(
+  geometry: THREE.BufferGeometry,
+  stock: HeightfieldStock,
+  region: StockRegion | null = { minI: 0, minJ: 0, maxI: stock.nx - 1, maxJ: stock.ny - 1 },
+  target?: Float32Array,
+  tolerance = 0.05
+): void {
+  if (!region) return;
+  const { nx, ny, heights } = stock;
+  const position = geometry.getAttribute('position') as THREE.BufferAttribute;
+  const normal = geometry.getAttribute('normal') as THREE.BufferAttribute;
+  const color = geometry.getAttribute('color') as THREE.BufferAttribute;
+  const height = (i: number, j: number) => heights[Math.min(ny - 1, Math.max(0, j)) * nx + Math.min(nx - 1, Math.max(0, i))];
+
+  // Normals depend on the neighbours, so the region grows by one node
+  const minI = Math.max(0, region.minI - 1);
+  const maxI = Math.min(nx - 1, region.maxI + 1);
+  const minJ = Math.max(0, region.minJ - 1);
+  const maxJ = Math.min(ny - 1, region.maxJ + 1);
+
+  for (let j = minJ; j <= maxJ; j++) {
+    for (let i = minI; i <= maxI; i++) {
+      const index = j * nx + i;
+      position.setZ(index, heights[index]);
+
+      const gx = (height(i + 1, j) - height(i - 1, j)) / (2 * stock.spacingX);
+      const gy = (height(i, j + 1) - height(i, j - 1)) / (2 * stock.spacingY);
+      const length = Math.sqrt(gx * gx + gy * gy + 1);
+      normal.setXYZ(index, -gx / length, -gy / length, 1 / length);
+
+      let shade = STOCK_COLOR;
+      if (target) {
+        const difference = heights[index] - target[index];
+        if (difference > tolerance) shade = EXCESS_COLOR;
+        else if (difference < -tolerance) shade = GOUGE_COLOR;
+      }
+      color.setXYZ(index, shade.r, shade.g, shade.b);
+    }
+  }
+
+  const wallNodes = geometry.userData.wallNodes as Int32Array;
+  const wallStart = geometry.userData.wallStart as number;
+  for (let k = 0; k < wallNodes.length; k++) {
+    const node = wallNodes[k];
+    const i = node % nx;
+    const j = Math.floor(node / nx);
+    if (i >= minI && i <= maxI && j >= minJ && j <= maxJ) {
+      position.setZ(wallStart + k * 2, heights[node]);
+    }
+  }
+
+  position.needsUpdate = true;
+  normal.needsUpdate = true;
+  color.needsUpdate = true;
+  geometry.computeBoundingSphere();
+}
@@ -1,6 +1,8 @@
 import React from 'react';
 import { X, Clock, TrendingUp, Tool, Box, Sliders } from 'react-feather';
 import { ToolpathSegment } from '@/src/hooks/useToolpathVisualization';
+import { estimatePathTime } from '@/src/components/cam/toolpathUtils/cycleTimeEstimator';
+import { useCADStore } from '@/src/store/cadStore';
 
 interface ToolPathInfoPanelProps {
   toolpathSegments: ToolpathSegment[];
@@ -26,6 +28,8 @@ export const ToolPathInfoPanel: React.FC<ToolPathInfoPanelProps> = ({
   workpiece,
   onClose
 }) => {
+  const { selectedMachine } = useCADStore();
+  
   // Calculate total toolpath length
   const calculateTotalLength = () => {
     let totalLength = 0;
@@ -48,33 +52,24 @@ export const ToolPathInfoPanel: React.FC<ToolPathInfoPanelProps> = ({
     return totalLength.toFixed(2);
   };
   
-  // Calculate estimated machining time
+  // Estimate machining time from the selected machine's kinematics
   const calculateEstimatedTime = () => {
-    let totalTime = 0;
+    let cuttingTime = 0;
+    let rapidTime = 0;
     
     toolpathSegments.forEach(segment => {
-      const points = segment.points;
-      
-      for (let i = 1; i < points.length; i++) {
-        const p1 = points[i - 1];
-        const p2 = points[i];
-        
-        const dx = p2.x - p1.x;
-        const dy = p2.y - p1.y;
-        const dz = p2.z - p1.z;
-        
-        const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
-        const feedrate = p2.feedrate || p1.feedrate || 1000; // mm/min
-        
-        // Time = Distance / Feedrate (in minutes)
-        const moveTime = distance / feedrate;
-        totalTime += moveTime;
-      }
+      const estimate = estimatePathTime(segment.points, selectedMachine?.config, segment.operation);
+      cuttingTime += estimate.cuttingTime;
+      rapidTime += estimate.rapidTime;
     });
     
-    // Format time in minutes and seconds
-    const totalMinutes = Math.floor(totalTime);
-    const totalSeconds = Math.round((totalTime - totalMinutes) * 60);
+    return { total: cuttingTime + rapidTime, cutting: cuttingTime, rapid: rapidTime };
+  };
+  
+  // Format seconds in minutes and seconds
+  const formatTime = (time: number) => {
+    const totalMinutes = Math.floor(time / 60);
+    const totalSeconds = Math.round(time - totalMinutes * 60);
     
     return `${totalMinutes}m ${totalSeconds}s`;
   };
@@ -125,6 +120,7 @@ export const ToolPathInfoPanel: React.FC<ToolPathInfoPanelProps> = ({
   };
   
   const zRange = getZRange();
+  const estimatedTime = calculateEstimatedTime();
   
   return (
     <div className="text-white">
@@ -186,7 +182,17 @@ export const ToolPathInfoPanel: React.FC<ToolPathInfoPanelProps> = ({
           <div className="bg-gray-700 p-3 rounded space-y-2 text-sm">
             <div className="flex justify-between">
               <span className="text-gray-300">Estimated Time:</span>
-              <span className="font-medium">{calculateEstimatedTime()}</span>
+              <span className="font-medium">{formatTime(estimatedTime.total)}</span>
+            </div>
+            
+            <div className="flex justify-between">
+              <span className="text-gray-300">Cutting:</span>
+              <span className="font-medium">{formatTime(estimatedTime.cutting)}</span>
+            </div>
+            
+            <div className="flex justify-between">
+              <span className="text-gray-300">Rapid:</span>
+              <span className="font-medium">{formatTime(estimatedTime.rapid)}</span>
             </div>
             
             <div className="flex justify-between">
@@ -0,0 +1,719 @@
+// Adaptive (constant-engagement) pocket clearing
+import { ToolpathPoint } from './fixed-gcode-parser';
+
+/**
+ * Clears a pocket without ever loading the cutter more than a given radial
+ * engagement angle, the way high-efficiency milling strategies do.
+ *
+ * The material still to be removed is kept on a grid. The cutter advances in
+ * short steps; before every step the heading is chosen so that the arc of
+ * the cutter in contact with uncut material stays at the engagement limit,
+ * which makes the passes spiral out from the entry and follow the shape of
+ * what is left instead of the shape of the pocket. Where no heading keeps the
+ * load under the limit, typically in a region barely wider than the cutter,
+ * the cutter advances in trochoidal loops instead. Passes are joined by
+ * tangent-continuous links that stay down through cleared material and lift
+ * only when the link would cut. Each region is entered by a helix, or by a
+ * ramp where a helix does not fit.
+ *
+ * The XY pattern is computed once and repeated at each depth level. The pocket
+ * is bounded by the boundary polygon, minus any islands; walls and floor keep
+ * the given stock. Z0 is the top of the stock.
+ */
+
+export interface Point2D {
+  x: number;
+  y: number;
+}
+
+export type AdaptiveEntryType = 'helix' | 'ramp';
+
+export interface AdaptiveClearingOptions {
+  toolDiameter: number;
+  /** Maximum radial engagement angle, in degrees */
+  maxEngagementAngle: number;
+  depth: number;
+  stepdown: number;
+  feedrate: number;
+  plungerate: number;
+  direction: 'climb' | 'conventional';
+  entryType?: AdaptiveEntryType;
+  /** Descent angle of helix and ramp entries, in degrees */
+  rampAngle?: number;
+  /** Material left on the walls */
+  stockToLeave?: number;
+  /** Height for rapid moves between regions */
+  safeZ?: number;
+  islands?: Point2D[][];
+}
+
+export interface AdaptiveToolpath {
+  points: ToolpathPoint[];
+  gcode: string;
+  warnings: string[];
+}
+
+type PlanStep =
+  | { kind: 'helix'; center: Point2D; radius: number; startAngle: number }
+  | { kind: 'ramp'; from: Point2D; to: Point2D }
+  | { kind: 'plunge'; at: Point2D }
+  | { kind: 'cut'; path: Point2D[] }
+  | { kind: 'link'; path: Point2D[] }
+  | { kind: 'lift'; to: Point2D };
+
+interface Pose {
+  at: Point2D;
+  heading: number;
+}
+
+const DEFAULT_RAMP_ANGLE = 3;
+const DEFAULT_SAFE_Z = 5;
+const ENTRY_CLEARANCE = 0.5; // Above the previous floor, where entries start feeding
+const MAX_GRID_CELLS = 400000;
+const RING_SAMPLES = 72;
+const TURN_SAMPLES = 12;
+const MAX_TURN = Math.PI / 4;
+const HELIX_RADIUS = 0.8; // Of the tool radius, so no core is left in the middle
+const MIN_HELIX_RADIUS = 0.2;
+const TROCHOID_RADIUS = 0.5; // Of the tool radius: loops sweep a slot 1.5 diameters wide
+const MAX_PASSES = 5000;
+const MAX_STEPS = 500000;
+
+const RING = Array.from({ length: RING_SAMPLES }, (_, i) => {
+  const angle = (2 * Math.PI * i) / RING_SAMPLES;
+  return { x: Math.cos(angle), y: Math.sin(angle) };
+});
+
+const distanceToSegment = (p: Point2D, a: Point2D, b: Point2D): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq)) : 0;
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+const insidePolygon = (p: Point2D, polygon: Point2D[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+const direction = (angle: number): Point2D => ({ x: Math.cos(angle), y: Math.sin(angle) });
+
+const advance = (p: Point2D, angle: number, distance: number): Point2D => ({
+  x: p.x + Math.cos(angle) * distance,
+  y: p.y + Math.sin(angle) * distance
+});
+
+// Squared distance transform of one grid row or column (Felzenszwalb-Huttenlocher)
+const distanceTransform1D = (f: Float64Array): Float64Array => {
+  const n = f.length;
+  const d = new Float64Array(n);
+  const v = new Int32Array(n);
+  const z = new Float64Array(n + 1);
+  let k = 0;
+  z[0] = -Infinity;
+  z[1] = Infinity;
+  for (let q = 1; q < n; q++) {
+    let s = (f[q] + q * q - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    while (s <= z[k]) {
+      k--;
+      s = (f[q] + q * q - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    }
+    k++;
+    v[k] = q;
+    z[k] = s;
+    z[k + 1] = Infinity;
+  }
+  k = 0;
+  for (let q = 0; q < n; q++) {
+    while (z[k + 1] < q) k++;
+    d[q] = (q - v[k]) * (q - v[k]) + f[v[k]];
+  }
+  return d;
+};
+
+/**
+ * Plan the XY pattern of an adaptive clearing pass over a pocket
+ */
+const planAdaptiveClearing = (
+  boundary: Point2D[],
+  options: AdaptiveClearingOptions,
+  warn: (message: string) => void
+): PlanStep[] => {
+  const radius = options.toolDiameter / 2;
+  const stock = Math.max(0, options.stockToLeave || 0);
+  const islands = options.islands || [];
+  const loops = [boundary, ...islands];
+  const maxEngagement = Math.min(180, Math.max(5, options.maxEngagementAngle));
+  const stepover = Math.max(radius * (1 - Math.cos((maxEngagement * Math.PI) / 180)), radius * 0.02);
+  // Material lies to the right of the cutter when climb milling with an M3 spindle
+  const side = options.direction === 'climb' ? -1 : 1;
+
+  // Signed distance to the pocket walls: positive inside the pocket, outside the islands
+  const clearance = (p: Point2D): number => {
+    let distance = Infinity;
+    loops.forEach(loop => {
+      for (let i = 0; i < loop.length; i++) {
+        distance = Math.min(distance, distanceToSegment(p, loop[i], loop[(i + 1) % loop.length]));
+      }
+    });
+    const inside = insidePolygon(p, boundary) && !islands.some(island => insidePolygon(p, island));
+    return inside ? distance : -distance;
+  };
+  // How far the tool centre can move away from p, 0 on the limit of the region it may reach
+  const room = (p: Point2D) => clearance(p) - radius - stock;
+  const allowed = (p: Point2D) => room(p) >= 0;
+
+  // Material grid
+  const minX = Math.min(...boundary.map(p => p.x));
+  const maxX = Math.max(...boundary.map(p => p.x));
+  const minY = Math.min(...boundary.map(p => p.y));
+  const maxY = Math.max(...boundary.map(p => p.y));
+  const cell = Math.max(radius / 8, Math.sqrt(((maxX - minX) * (maxY - minY)) / MAX_GRID_CELLS));
+  const nx = Math.ceil((maxX - minX) / cell) + 2;
+  const ny = Math.ceil((maxY - minY) / cell) + 2;
+  const x0 = minX - cell;
+  const y0 = minY - cell;
+  const centre = (i: number): Point2D => ({ x: x0 + ((i % nx) + 0.5) * cell, y: y0 + (Math.floor(i / nx) + 0.5) * cell });
+
+  const uncut = new Uint8Array(nx * ny);
+  const allowedCell = new Uint8Array(nx * ny);
+  const skipped = new Uint8Array(nx * ny);
+  let remaining = 0;
+  for (let i = 0; i < nx * ny; i++) {
+    const distance = clearance(centre(i));
+    if (distance > stock) {
+      uncut[i] = 1;
+      remaining++;
+    }
+    if (distance >= radius + stock) allowedCell[i] = 1;
+  }
+  if (!allowedCell.some(value => value === 1)) {
+    warn(`Tool Ø${options.toolDiameter}mm does not fit in the pocket`);
+    return [];
+  }
+
+  // Material the tool can reach: within a tool radius of somewhere the centre may go
+  const reachable = new Uint8Array(nx * ny);
+  const squared = new Float64Array(nx * ny);
+  for (let i = 0; i < nx * ny; i++) squared[i] = allowedCell[i] ? 0 : 1e20;
+  for (let ix = 0; ix < nx; ix++) {
+    const column = new Float64Array(ny);
+    for (let iy = 0; iy < ny; iy++) column[iy] = squared[iy * nx + ix];
+    distanceTransform1D(column).forEach((value, iy) => { squared[iy * nx + ix] = value; });
+  }
+  for (let iy = 0; iy < ny; iy++) {
+    const row = distanceTransform1D(squared.subarray(iy * nx, (iy + 1) * nx));
+    row.forEach((value, ix) => {
+      const i = iy * nx + ix;
+      if (uncut[i] && Math.sqrt(value) * cell <= radius) reachable[i] = 1;
+    });
+  }
+
+  const indexAt = (p: Point2D): number => {
+    const ix = Math.floor((p.x - x0) / cell);
+    const iy = Math.floor((p.y - y0) / cell);
+    return ix < 0 || iy < 0 || ix >= nx || iy >= ny ? -1 : iy * nx + ix;
+  };
+  const materialAt = (p: Point2D) => {
+    const i = indexAt(p);
+    return i >= 0 && (uncut[i] & reachable[i]) === 1;
+  };
+
+  // Visit the cells whose centres lie within r of p
+  const forDisc = (p: Point2D, r: number, visit: (i: number) => void) => {
+    const ix0 = Math.max(0, Math.floor((p.x - r - x0) / cell));
+    const ix1 = Math.min(nx - 1, Math.floor((p.x + r - x0) / cell));
+    const iy0 = Math.max(0, Math.floor((p.y - r - y0) / cell));
+    const iy1 = Math.min(ny - 1, Math.floor((p.y + r - y0) / cell));
+    for (let iy = iy0; iy <= iy1; iy++) {
+      const cy = y0 + (iy + 0.5) * cell - p.y;
+      for (let ix = ix0; ix <= ix1; ix++) {
+        const cx = x0 + (ix + 0.5) * cell - p.x;
+        if (cx * cx + cy * cy <= r * r) visit(iy * nx + ix);
+      }
+    }
+  };
+  // Uncut cells within r of p that the tool can still remove
+  const materialInDisc = (p: Point2D, r: number): number => {
+    let count = 0;
+    forDisc(p, r, i => { count += uncut[i] & reachable[i]; });
+    return count;
+  };
+  const clear = (p: Point2D) => {
+    forDisc(p, radius, i => {
+      if (uncut[i]) {
+        uncut[i] = 0;
+        remaining--;
+      }
+    });
+  };
+  const clearSegment = (a: Point2D, b: Point2D) => {
+    const steps = Math.max(1, Math.ceil(Math.hypot(b.x - a.x, b.y - a.y) / cell));
+    for (let i = 1; i <= steps; i++) {
+      clear({ x: a.x + ((b.x - a.x) * i) / steps, y: a.y + ((b.y - a.y) * i) / steps });
+    }
+  };
+
+  // Arc of the cutter edge, in degrees, that would be in material with the tool at p
+  const engagement = (p: Point2D): number => {
+    const r = radius - cell / 2;
+    let count = 0;
+    RING.forEach(u => {
+      if (materialAt({ x: p.x + u.x * r, y: p.y + u.y * r })) count++;
+    });
+    return (count * 360) / RING_SAMPLES;
+  };
+
+  const step = Math.max(cell, radius * 0.2);
+  const idleEngagement = Math.max(3, maxEngagement * 0.1);
+  const plan: PlanStep[] = [];
+  let totalSteps = 0;
+  let slotted = false;
+
+  // Enter the material at p, returning where the first pass starts
+  const enter = (p: Point2D): Pose => {
+    const space = room(p);
+    if (options.entryType !== 'ramp' && space >= radius * MIN_HELIX_RADIUS) {
+      const helixRadius = Math.min(radius * HELIX_RADIUS, space);
+      const segments = Math.max(12, Math.ceil((2 * Math.PI * helixRadius) / cell));
+      for (let i = 0; i <= segments; i++) {
+        clear(advance(p, (2 * Math.PI * i) / segments, helixRadius));
+      }
+      plan.push({ kind: 'helix', center: p, radius: helixRadius, startAngle: 0 });
+      return { at: advance(p, 0, helixRadius), heading: -side * Math.PI / 2 };
+    }
+
+    // Longest straight run available for a ramp, up to two diameters
+    let best: { to: Point2D; length: number } | null = null;
+    for (let i = 0; i < 16; i++) {
+      const angle = (Math.PI * i) / 8;
+      let length = 0;
+      while (length < options.toolDiameter * 2 && allowed(advance(p, angle, length + cell))) length += cell;
+      if (!best || length > best.length) best = { to: advance(p, angle, length), length };
+    }
+    if (best && best.length >= cell * 2) {
+      clearSegment(p, best.to);
+      plan.push({ kind: 'ramp', from: p, to: best.to });
+      return { at: p, heading: Math.atan2(p.y - best.to.y, p.x - best.to.x) };
+    }
+
+    warn(`No room for a helix or ramp entry at X${p.x.toFixed(3)} Y${p.y.toFixed(3)}; plunging`);
+    clear(p);
+    plan.push({ kind: 'plunge', at: p });
+    return { at: p, heading: 0 };
+  };
+
+  // Heading to take from p so the engagement stays at the limit: 'overload' when every heading
+  // overloads the tool, null when there is nowhere to go
+  const nextStep = (p: Point2D, heading: number): { at: Point2D; heading: number; engagement: number } | 'overload' | null => {
+    const evaluate = (turn: number) => {
+      const angle = heading + side * turn;
+      const at = advance(p, angle, step);
+      return { at, heading: angle, engagement: allowed(at) ? engagement(at) : Infinity };
+    };
+    let overloaded: number | null = null;
+    let blocked = true;
+    for (let i = 0; i <= TURN_SAMPLES; i++) {
+      const turn = MAX_TURN - (2 * MAX_TURN * i) / TURN_SAMPLES;
+      const candidate = evaluate(turn);
+      if (candidate.engagement < Infinity) blocked = false;
+      if (candidate.engagement > maxEngagement) {
+        overloaded = turn;
+        continue;
+      }
+      if (overloaded === null) return candidate;
+      // Refine between a heading that overloads and one that does not
+      let low = turn;
+      let high = overloaded;
+      let result = candidate;
+      for (let j = 0; j < 6; j++) {
+        const middle = evaluate((low + high) / 2);
+        if (middle.engagement > maxEngagement) {
+          high = (low + high) / 2;
+        } else {
+          low = (low + high) / 2;
+          result = middle;
+        }
+      }
+      return result;
+    }
+    return blocked ? null : 'overload';
+  };
+
+  // Advance through material too narrow for open passes with trochoidal loops
+  const trochoid = (start: Pose, path: Point2D[]): Pose | null => {
+    const turn = -side; // Loops run counter-clockwise when climb milling
+    let p = start.at;
+    let heading = start.heading;
+    let looped = false;
+    while (totalSteps < MAX_STEPS) {
+      const before = remaining;
+      // Steer towards the most material ahead, with loops as large as the room there allows:
+      // through p when they fit, otherwise moved across the heading, stepping over to their start,
+      // and advancing less than the stepover into corners. Loops that only fit on the material
+      // side mean a wall beside the cutter, not a narrow region: that material is left to a pass
+      // coming from elsewhere
+      const nominalLoop = radius * TROCHOID_RADIUS;
+      const size = (angle: number, along: number, wall: boolean) => {
+        const offset = direction(angle - turn * Math.PI / 2);
+        const fit = (centre: Point2D) => Math.min(nominalLoop, room(centre), room(advance(centre, angle, along)));
+        let loopRadius = nominalLoop;
+        let centre = { x: p.x - offset.x * loopRadius, y: p.y - offset.y * loopRadius };
+        for (let attempt = 0; attempt < 3; attempt++) {
+          const space = fit(centre);
+          if (space >= loopRadius) break;
+          loopRadius = Math.max(0, space);
+          centre = { x: p.x - offset.x * loopRadius, y: p.y - offset.y * loopRadius };
+        }
+        if (fit(centre) < loopRadius - 1e-9) loopRadius = -1;
+        let shifted = false;
+        if (loopRadius < cell && !wall) {
+          for (let i = -16; i <= 16; i++) {
+            const candidate = { x: p.x - (offset.x * 2 * nominalLoop * i) / 16, y: p.y - (offset.y * 2 * nominalLoop * i) / 16 };
+            const space = fit(candidate);
+            if (space > loopRadius + 1e-9 && space >= cell) {
+              centre = candidate;
+              loopRadius = space;
+              shifted = true;
+            }
+          }
+        }
+        return { centre, loopRadius, shifted };
+      };
+      let best = null as { heading: number; along: number; centre: Point2D; loopRadius: number; material: number; shifted: boolean; wall: boolean } | null;
+      [0, 1, -1, 2, -2, 3, -3].forEach(k => {
+        const angle = heading + (k * Math.PI) / 9;
+        const wall = room(advance(p, angle + side * Math.PI / 2, nominalLoop)) >= nominalLoop;
+        let along = stepover;
+        let loop = size(angle, along, wall);
+        for (let shorter = stepover / 2; loop.loopRadius < cell && shorter >= cell / 4; shorter /= 2) {
+          const fitted = size(angle, shorter, wall);
+          if (fitted.loopRadius < cell) continue;
+          along = shorter;
+          loop = fitted;
+        }
+        if (loop.loopRadius < 0) return;
+        const material = materialInDisc(advance(advance(loop.centre, angle, along), angle, loop.loopRadius), radius);
+        const loops = loop.loopRadius >= cell;
+        if (!best || (loops && best.loopRadius < cell) || (loops === best.loopRadius >= cell && material > best.material)) {
+          best = { heading: angle, along, ...loop, material, wall };
+        }
+      });
+      const chosen = best;
+      if (!chosen || chosen.material === 0) break;
+      if (chosen.loopRadius < cell && chosen.wall) break;
+
+      heading = chosen.heading;
+      const forward = direction(heading);
+      const offset = direction(heading - turn * Math.PI / 2);
+      const centre = chosen.centre;
+      const loopRadius = chosen.loopRadius;
+      const along = chosen.along;
+      if (chosen.shifted) {
+        const entry = { x: centre.x + offset.x * loopRadius, y: centre.y + offset.y * loopRadius };
+        clearSegment(p, entry);
+        path.push(entry);
+        p = entry;
+      }
+      if (loopRadius < cell) {
+        if (!slotted) warn(`Slotting from X${p.x.toFixed(3)} Y${p.y.toFixed(3)}: the pocket is too narrow for trochoidal loops`);
+        slotted = true;
+        const next = advance(p, heading, stepover);
+        clearSegment(p, next);
+        path.push(next);
+        p = next;
+      } else {
+        const segments = Math.max(12, Math.ceil((2 * Math.PI * loopRadius) / step));
+        for (let i = 1; i <= segments; i++) {
+          const t = (2 * Math.PI * i) / segments;
+          const arm = {
+            x: offset.x * Math.cos(turn * t) - offset.y * Math.sin(turn * t),
+            y: offset.x * Math.sin(turn * t) + offset.y * Math.cos(turn * t)
+          };
+          const next = {
+            x: centre.x + forward.x * (along * t) / (2 * Math.PI) + arm.x * loopRadius,
+            y: centre.y + forward.y * (along * t) / (2 * Math.PI) + arm.y * loopRadius
+          };
+          clearSegment(p, next);
+          path.push(next);
+          p = next;
+        }
+      }
+      looped = true;
+      totalSteps++;
+      if (remaining === before) break;
+    }
+    return looped ? { at: p, heading } : null;
+  };
+
+  // Cut from a pose until the material along the way runs out
+  const runPass = (start: Pose): { path: Point2D[]; end: Pose } => {
+    const path = [start.at];
+    let pose = start;
+    let idle = 0;
+    let lastEngaged = 0;
+    while (totalSteps++ < MAX_STEPS) {
+      const next = nextStep(pose.at, pose.heading);
+      if (!next) break;
+      if (next === 'overload') {
+        const after = trochoid(pose, path);
+        if (!after) break;
+        pose = after;
+        idle = 0;
+        lastEngaged = path.length - 1;
+        continue;
+      }
+      const before = remaining;
+      clearSegment(pose.at, next.at);
+      path.push(next.at);
+      pose = { at: next.at, heading: next.heading };
+      if (remaining === before || next.engagement < idleEngagement) {
+        idle += step;
+        if (idle > radius * 1.5) break;
+      } else {
+        idle = 0;
+        lastEngaged = path.length - 1;
+      }
+    }
+    // Drop the tail that only ran through cleared material
+    const kept = path.slice(0, Math.min(path.length, lastEngaged + 2));
+    const end = kept[kept.length - 1];
+    const before = kept.length > 1 ? kept[kept.length - 2] : end;
+    return {
+      path: kept,
+      end: { at: end, heading: kept.length > 1 ? Math.atan2(end.y - before.y, end.x - before.x) : pose.heading }
+    };
+  };
+
+  // Where to resume: beside the nearest material left, or a new entry when it cannot be reached at depth
+  const findRestart = (p: Point2D): { target: number; pose?: Pose; entry?: Point2D } | null => {
+    let target = -1;
+    let nearest = Infinity;
+    for (let i = 0; i < nx * ny; i++) {
+      if (!uncut[i] || !reachable[i] || skipped[i]) continue;
+      const c = centre(i);
+      const distance = (c.x - p.x) * (c.x - p.x) + (c.y - p.y) * (c.y - p.y);
+      if (distance < nearest) {
+        nearest = distance;
+        target = i;
+      }
+    }
+    if (target < 0) return null;
+
+    const material = centre(target);
+    const starts: { pose: Pose; distance: number }[] = [];
+    let entry = null as Point2D | null;
+    let entryDistance = Infinity;
+    forDisc(material, radius + cell * 3, i => {
+      if (!allowedCell[i]) return;
+      const c = centre(i);
+      const distance = Math.hypot(c.x - material.x, c.y - material.y);
+      if (distance < entryDistance && distance <= radius + cell) {
+        entryDistance = distance;
+        entry = c;
+      }
+      if (materialInDisc(c, radius - cell / 2) === 0) {
+        const towards = Math.atan2(material.y - c.y, material.x - c.x);
+        starts.push({ pose: { at: c, heading: towards - side * Math.PI / 2 }, distance });
+      }
+    });
+    if (starts.length > 0) {
+      // Nearest start whose first step does not overload the tool
+      starts.sort((a, b) => a.distance - b.distance);
+      for (let i = 0; i < starts.length; i++) {
+        const first = nextStep(starts[i].pose.at, starts[i].pose.heading);
+        if (first && first !== 'overload') return { target, pose: starts[i].pose };
+      }
+      return { target, pose: starts[0].pose };
+    }
+    return entry ? { target, entry } : { target };
+  };
+
+  // Feed link from one pass to the next when it stays within cleared material: a cubic
+  // tangent to both passes, with shorter tangents and then a straight line where it does not fit
+  const link = (from: Pose, to: Pose): Point2D[] | null => {
+    const length = Math.hypot(to.at.x - from.at.x, to.at.y - from.at.y);
+    if (length < 1e-9) return [];
+    const segments = Math.min(400, Math.max(2, Math.ceil(length / cell)));
+    const handles = [length / 3, length / 6, 0];
+    for (let h = 0; h < handles.length; h++) {
+      const a = advance(from.at, from.heading, handles[h]);
+      const b = advance(to.at, to.heading + Math.PI, handles[h]);
+      const path: Point2D[] = [];
+      for (let i = 1; i <= segments; i++) {
+        const t = i / segments;
+        const u = 1 - t;
+        const p = {
+          x: u * u * u * from.at.x + 3 * u * u * t * a.x + 3 * u * t * t * b.x + t * t * t * to.at.x,
+          y: u * u * u * from.at.y + 3 * u * u * t * a.y + 3 * u * t * t * b.y + t * t * t * to.at.y
+        };
+        if (!allowed(p) || materialInDisc(p, radius - cell / 2) > 0) break;
+        path.push(p);
+      }
+      if (path.length === segments) return path;
+    }
+    return null;
+  };
+
+  // First entry where the pocket is widest
+  let widest = -1;
+  let widestRoom = -Infinity;
+  for (let i = 0; i < nx * ny; i++) {
+    if (!allowedCell[i]) continue;
+    const space = room(centre(i));
+    if (space > widestRoom) {
+      widestRoom = space;
+      widest = i;
+    }
+  }
+  let pose = enter(centre(widest));
+
+  for (let passes = 0; passes < MAX_PASSES; passes++) {
+    const before = remaining;
+    const pass = runPass(pose);
+    if (pass.path.length > 1) plan.push({ kind: 'cut', path: pass.path });
+    pose = pass.end;
+
+    const restart = findRestart(pose.at);
+    if (!restart) return plan;
+    if (remaining === before && passes > 0) {
+      // Nothing came off on the way here: give up on the material that drew us
+      forDisc(centre(restart.target), cell * 2, i => { skipped[i] = 1; });
+      skipped[restart.target] = 1;
+    }
+    if (restart.pose) {
+      const linkPath = link(pose, restart.pose);
+      plan.push(linkPath ? { kind: 'link', path: linkPath } : { kind: 'lift', to: restart.pose.at });
+      pose = restart.pose;
+    } else if (restart.entry) {
+      pose = enter(restart.entry);
+    } else {
+      skipped[restart.target] = 1;
+    }
+    if (totalSteps >= MAX_STEPS) break;
+  }
+  warn('Adaptive clearing stopped early: the pocket needs too many passes');
+  return plan;
+};
+
+/**
+ * Generate adaptive clearing toolpath points and G-code for a pocket
+ */
+export const generateAdaptiveClearing = (
+  boundary: Point2D[],
+  options: AdaptiveClearingOptions
+): AdaptiveToolpath => {
+  if (boundary.length < 3) {
+    throw new Error('The pocket boundary needs at least three points');
+  }
+  if (!(options.toolDiameter > 0) || !(options.stepdown > 0) || !(options.depth > 0)) {
+    throw new Error('Tool diameter, stepdown and depth must be positive');
+  }
+
+  const warnings: string[] = [];
+  const warn = (message: string) => {
+    if (!warnings.includes(message)) warnings.push(message);
+  };
+  const plan = planAdaptiveClearing(boundary, options, warn);
+
+  const safeZ = options.safeZ ?? DEFAULT_SAFE_Z;
+  const rampSlope = Math.tan((Math.max(0.5, options.rampAngle || DEFAULT_RAMP_ANGLE) * Math.PI) / 180);
+  const turn = options.direction === 'climb' ? 1 : -1;
+  const points: ToolpathPoint[] = [];
+  const lines: string[] = [];
+  let position = { x: NaN, y: NaN, z: NaN };
+  let feed = NaN;
+
+  const move = (rapid: boolean, x: number, y: number, z: number, feedrate: number, comment?: string) => {
+    if (Math.abs(x - position.x) < 1e-6 && Math.abs(y - position.y) < 1e-6 && Math.abs(z - position.z) < 1e-6) return;
+    let line = `${rapid ? 'G0' : 'G1'} X${x.toFixed(3)} Y${y.toFixed(3)} Z${z.toFixed(3)}`;
+    if (!rapid && feedrate !== feed) {
+      line += ` F${feedrate}`;
+      feed = feedrate;
+    }
+    lines.push(comment ? `${line} ; ${comment}` : line);
+    points.push(rapid ? { x, y, z, type: 'G0', isRapid: true } : { x, y, z, feedrate, type: 'G1', isRapid: false });
+    position = { x, y, z };
+  };
+  const rapidTo = (p: Point2D, z: number, comment?: string) => {
+    if (isNaN(position.z)) move(true, p.x, p.y, safeZ, 0);
+    if (position.z < safeZ && (Math.abs(p.x - position.x) > 1e-6 || Math.abs(p.y - position.y) > 1e-6)) {
+      move(true, position.x, position.y, safeZ, 0, 'Retract');
+    }
+    move(true, p.x, p.y, Math.max(position.z, z), 0, comment);
+    move(true, p.x, p.y, z, 0);
+  };
+
+  lines.push(`; Adaptive clearing - max engagement ${options.maxEngagementAngle}°, ${options.entryType || 'helix'} entry`);
+  const levels = Math.ceil(options.depth / options.stepdown - 1e-9);
+  let floor = 0;
+  for (let level = 1; level <= levels; level++) {
+    const z = -Math.min(options.depth, level * options.stepdown);
+    const top = floor + ENTRY_CLEARANCE;
+    lines.push('', `; Z Level: ${z.toFixed(3)}`);
+
+    plan.forEach(step => {
+      switch (step.kind) {
+        case 'helix': {
+          const start = advance(step.center, step.startAngle, step.radius);
+          rapidTo(start, top, 'Helix entry');
+          const pitch = 2 * Math.PI * step.radius * rampSlope;
+          const turns = Math.max(1, Math.ceil((top - z) / pitch));
+          const segments = Math.max(12, Math.ceil((2 * Math.PI * step.radius) / (options.toolDiameter * 0.1)));
+          for (let i = 1; i <= turns * segments; i++) {
+            const angle = step.startAngle + (turn * 2 * Math.PI * i) / segments;
+            const p = advance(step.center, angle, step.radius);
+            move(false, p.x, p.y, top - ((top - z) * i) / (turns * segments), options.plungerate);
+          }
+          // One turn on the floor to flatten it
+          for (let i = 1; i <= segments; i++) {
+            const p = advance(step.center, step.startAngle + (turn * 2 * Math.PI * i) / segments, step.radius);
+            move(false, p.x, p.y, z, options.feedrate);
+          }
+          break;
+        }
+        case 'ramp': {
+          rapidTo(step.from, top, 'Ramp entry');
+          const length = Math.hypot(step.to.x - step.from.x, step.to.y - step.from.y);
+          let height = top;
+          let atStart = true;
+          while (height > z + 1e-9) {
+            const target = atStart ? step.to : step.from;
+            height = Math.max(z, height - length * rampSlope);
+            move(false, target.x, target.y, height, options.plungerate);
+            atStart = !atStart;
+          }
+          if (atStart) move(false, step.to.x, step.to.y, z, options.feedrate);
+          move(false, step.from.x, step.from.y, z, options.feedrate);
+          break;
+        }
+        case 'plunge':
+          rapidTo(step.at, top, 'Plunge entry');
+          move(false, step.at.x, step.at.y, z, options.plungerate);
+          break;
+        case 'cut':
+        case 'link':
+          step.path.forEach(p => move(false, p.x, p.y, z, options.feedrate));
+          break;
+        case 'lift':
+          // Rapid no lower than above the previous floor; the rest is fed down
+          rapidTo(step.to, top, 'Lift to next pass');
+          move(false, step.to.x, step.to.y, z, options.plungerate);
+          break;
+      }
+    });
+    floor = z;
+  }
+  if (points.length > 0) move(true, position.x, position.y, safeZ, 0, 'Retract');
+  lines.splice(1, 0, ...warnings.map(message => `; Warning: ${message}`));
+
+  return { points, gcode: `${lines.join('\n')}\n`, warnings };
+};
@@ -0,0 +1,484 @@
+// Collision checking of the whole tool assembly against stock, workholding and part
+import { ParsedGCode, ToolpathArc, ToolpathPoint } from './fixed-gcode-parser';
+import {
+  CutterProfile,
+  HeightfieldStock,
+  StockBounds,
+  cutterProfile
+} from '../toolpath-viewer/StockSimulation';
+import { ToolDefinition } from '../toolpath-viewer/ToolModels';
+import { TriangleMesh } from 'src/lib/importExport/tessellation';
+
+/**
+ * Collision checking for 3-axis programs.
+ *
+ * The tool assembly is a stack of vertical cylinders above the tip: the
+ * cutting part of the tool, the shank sticking out of the holder, the holder
+ * itself and the spindle nose. The program is replayed against a heightfield
+ * of the stock (see StockSimulation), which the cutter wears down as it goes,
+ * against the clamps and fixtures as boxes, and against the finished part.
+ *
+ * Reported are rapids that move through material, non-cutting parts of the
+ * assembly touching the stock, anything touching a fixture and cuts into the
+ * part, each with the G-code line and the program time of the first contact.
+ */
+
+export type AssemblyComponent = 'cutter' | 'shank' | 'holder' | 'spindle';
+
+export type CollisionType = 'rapid-through-stock' | 'stock-collision' | 'fixture-collision' | 'part-gouge';
+
+export interface HolderSection {
+  diameter: number;
+  length: number;
+}
+
+export interface ToolHolder {
+  name?: string;
+  /** Sections from the nose of the holder up to the spindle face */
+  sections: HolderSection[];
+  spindleDiameter: number;
+}
+
+export interface ToolAssembly {
+  cutter: CutterProfile;
+  /** Length of the cutting part, measured from the tip */
+  fluteLength: number;
+  shankDiameter: number;
+  /** Length of the tool out of the holder, measured from the tip */
+  stickout: number;
+  holder: ToolHolder;
+}
+
+export interface CollisionFixture {
+  id: string;
+  name: string;
+  min: { x: number; y: number; z: number };
+  max: { x: number; y: number; z: number };
+}
+
+export interface CollisionCheckOptions {
+  stock: StockBounds;
+  assembly: ToolAssembly;
+  fixtures?: CollisionFixture[];
+  /** Finished part; moves that cut below its surface are reported as gouges */
+  part?: TriangleMesh;
+  /** Grid spacing of the stock in mm; by default half the cutter radius, at most 1 mm */
+  resolution?: number;
+  maxNodes?: number;
+  /** Feedrates in mm/min, used for the timing of the events */
+  rapidFeedrate?: number;
+  defaultFeedrate?: number;
+  /** Contacts shallower than this (mm) are ignored */
+  tolerance?: number;
+  /** Largest deviation of the segments that replace arcs (mm) */
+  arcTolerance?: number;
+  maxEvents?: number;
+}
+
+export interface CollisionEvent {
+  type: CollisionType;
+  component: AssemblyComponent;
+  fixtureId?: string;
+  /** Line of the G-code the move comes from */
+  lineNumber?: number;
+  /** Index in ParsedGCode.points of the point the move ends at */
+  pointIndex: number;
+  /** Seconds from the start of the program to the first contact */
+  time: number;
+  /** Tip position at the first contact */
+  position: { x: number; y: number; z: number };
+  /** Deepest overlap during the move (mm) */
+  depth: number;
+  message: string;
+}
+
+export interface CollisionReport {
+  events: CollisionEvent[];
+  counts: Record<CollisionType, number>;
+  /** True when more events were found than maxEvents allowed to keep */
+  truncated: boolean;
+  /** Program duration in seconds */
+  totalTime: number;
+}
+
+export const DEFAULT_TOOL_HOLDER: ToolHolder = {
+  name: 'ER32 collet chuck',
+  sections: [
+    { diameter: 50, length: 30 },
+    { diameter: 63, length: 40 }
+  ],
+  spindleDiameter: 100
+};
+
+const DEFAULT_RAPID_FEEDRATE = 3000;
+const DEFAULT_FEEDRATE = 500;
+const DEFAULT_TOLERANCE = 0.05;
+const DEFAULT_ARC_TOLERANCE = 0.05;
+const DEFAULT_MAX_EVENTS = 200;
+const DEFAULT_MAX_NODES = 250000;
+
+const COMPONENT_LABELS: Record<AssemblyComponent, string> = {
+  cutter: 'Cutter',
+  shank: 'Tool shank',
+  holder: 'Tool holder',
+  spindle: 'Spindle'
+};
+
+// A cylinder of the assembly, with its ends measured from the tip
+interface AssemblySection {
+  component: AssemblyComponent;
+  radius: number;
+  bottom: number;
+  top: number;
+}
+
+interface Contact {
+  t: number;
+  depth: number;
+}
+
+type Vector = { x: number; y: number; z: number };
+
+/**
+ * Tool assembly for a tool in a holder. Without an explicit stickout the tool
+ * is taken to stick out by its length, or by its flutes plus 15 mm.
+ */
+export function toolAssembly(tool: ToolDefinition, holder: ToolHolder = DEFAULT_TOOL_HOLDER, stickout?: number): ToolAssembly {
+  const cutter = cutterProfile(tool);
+  const fluteLength = tool.cuttingLength || tool.diameter * 3;
+  const out = stickout ?? tool.length ?? fluteLength + 15;
+  if (out < fluteLength) {
+    throw new Error(`Tool stickout (${out} mm) is shorter than its flute length (${fluteLength} mm)`);
+  }
+  return {
+    cutter,
+    fluteLength,
+    shankDiameter: tool.shankDiameter || tool.diameter,
+    stickout: out,
+    holder
+  };
+}
+
+function assemblySections(assembly: ToolAssembly): AssemblySection[] {
+  const sections: AssemblySection[] = [
+    { component: 'cutter', radius: assembly.cutter.radius, bottom: 0, top: assembly.fluteLength }
+  ];
+  if (assembly.stickout > assembly.fluteLength) {
+    sections.push({
+      component: 'shank',
+      radius: assembly.shankDiameter / 2,
+      bottom: assembly.fluteLength,
+      top: assembly.stickout
+    });
+  }
+  let level = assembly.stickout;
+  assembly.holder.sections.forEach(section => {
+    sections.push({ component: 'holder', radius: section.diameter / 2, bottom: level, top: level + section.length });
+    level += section.length;
+  });
+  sections.push({ component: 'spindle', radius: assembly.holder.spindleDiameter / 2, bottom: level, top: Infinity });
+  return sections;
+}
+
+/**
+ * Replay a parsed program and report the collisions of the tool assembly
+ */
+export function checkCollisions(parsed: ParsedGCode, options: CollisionCheckOptions): CollisionReport {
+  const { stock: bounds, assembly } = options;
+  const fixtures = options.fixtures || [];
+  const rapidFeedrate = options.rapidFeedrate || DEFAULT_RAPID_FEEDRATE;
+  const defaultFeedrate = options.defaultFeedrate || DEFAULT_FEEDRATE;
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  const arcTolerance = options.arcTolerance || DEFAULT_ARC_TOLERANCE;
+  const maxEvents = options.maxEvents || DEFAULT_MAX_EVENTS;
+
+  const width = bounds.max.x - bounds.min.x;
+  const depth = bounds.max.y - bounds.min.y;
+  const resolution = Math.max(
+    options.resolution || Math.min(1, assembly.cutter.radius / 2),
+    Math.sqrt((width * depth) / (options.maxNodes || DEFAULT_MAX_NODES))
+  );
+  const stock = new HeightfieldStock(bounds, resolution);
+  const target = options.part ? stock.rasterize(options.part) : null;
+  const sections = assemblySections(assembly);
+
+  // Arcs are listed in the order of the points that end them
+  let arcIndex = 0;
+
+  const report: CollisionReport = {
+    events: [],
+    counts: { 'rapid-through-stock': 0, 'stock-collision': 0, 'fixture-collision': 0, 'part-gouge': 0 },
+    truncated: false,
+    totalTime: 0
+  };
+
+  const points = parsed.points;
+  for (let index = 1; index < points.length; index++) {
+    const end = points[index];
+    const rapid = !!end.isRapid || end.type === 'G0';
+    const feedrate = rapid ? rapidFeedrate : end.feedrate || defaultFeedrate;
+    const arc = end.isArc ? parsed.arcs[arcIndex++] : undefined;
+    const path = arc && arc.plane === 'XY'
+      ? arcPath(points[index - 1], end, arc, arcTolerance)
+      : [points[index - 1], end];
+
+    // One event per kind of contact and move, at the earliest contact
+    const reported = new Set<string>();
+    for (let s = 1; s < path.length; s++) {
+      const from = path[s - 1];
+      const to = path[s];
+      const duration = (distance(from, to) / feedrate) * 60;
+
+      const record = (type: CollisionType, component: AssemblyComponent, contact: Contact, fixture?: CollisionFixture) => {
+        const key = `${type}:${component}:${fixture ? fixture.id : ''}`;
+        if (reported.has(key)) return;
+        reported.add(key);
+        report.counts[type]++;
+        if (report.events.length >= maxEvents) {
+          report.truncated = true;
+          return;
+        }
+        const position = lerp(from, to, contact.t);
+        report.events.push({
+          type,
+          component,
+          fixtureId: fixture?.id,
+          lineNumber: end.lineNumber,
+          pointIndex: index,
+          time: report.totalTime + contact.t * duration,
+          position,
+          depth: contact.depth,
+          message: describeEvent(type, component, contact.depth, fixture)
+        });
+      };
+
+      fixtures.forEach(fixture => {
+        sections.forEach(section => {
+          const contact = fixtureContact(from, to, section, fixture, tolerance);
+          if (contact) record('fixture-collision', section.component, contact, fixture);
+        });
+      });
+
+      checkStockMove(stock, target, assembly.cutter, sections, from, to, rapid, tolerance, record);
+      report.totalTime += duration;
+    }
+  }
+
+  return report;
+}
+
+// Cut the stock along a straight move and look for contacts of the assembly
+// with the material that was there during the move
+function checkStockMove(
+  stock: HeightfieldStock,
+  target: Float32Array | null,
+  profile: CutterProfile,
+  sections: AssemblySection[],
+  from: Vector,
+  to: Vector,
+  rapid: boolean,
+  tolerance: number,
+  record: (type: CollisionType, component: AssemblyComponent, contact: Contact) => void
+): void {
+  const { bounds, nx, ny, heights } = stock;
+  const low = Math.min(from.z, to.z);
+  if (low >= bounds.max.z) return;
+  const cutter = sections[0];
+  // Parts of the assembly that reach below the top of the stock during the move
+  const reaching = sections.filter(section => section !== cutter && low + section.bottom < bounds.max.z);
+
+  let reach = cutter.radius;
+  reaching.forEach(section => { reach = Math.max(reach, section.radius); });
+  const minI = Math.max(0, Math.ceil((Math.min(from.x, to.x) - reach - bounds.min.x) / stock.spacingX));
+  const maxI = Math.min(nx - 1, Math.floor((Math.max(from.x, to.x) + reach - bounds.min.x) / stock.spacingX));
+  const minJ = Math.max(0, Math.ceil((Math.min(from.y, to.y) - reach - bounds.min.y) / stock.spacingY));
+  const maxJ = Math.min(ny - 1, Math.floor((Math.max(from.y, to.y) + reach - bounds.min.y) / stock.spacingY));
+  if (minI > maxI || minJ > maxJ) return;
+
+  // Heights before the move, which the cutter then lowers
+  const rowLength = maxI - minI + 1;
+  const before = new Float32Array(rowLength * (maxJ - minJ + 1));
+  for (let j = minJ; j <= maxJ; j++) {
+    before.set(heights.subarray(j * nx + minI, j * nx + maxI + 1), (j - minJ) * rowLength);
+  }
+  const { region } = stock.cut(from, to, profile);
+  if (!region && reaching.length === 0) return;
+
+  const dz = to.z - from.z;
+  const zAt = (t: number) => from.z + t * dz;
+  // Earliest time in [t0, t1] at which a level above the tip drops below a height
+  const firstBelow = (height: number, offset: number, t0: number, t1: number): Contact | null => {
+    const lowest = Math.min(zAt(t0), zAt(t1)) + offset;
+    if (height - lowest <= tolerance) return null;
+    let t = t0;
+    if (zAt(t0) + offset >= height - tolerance && dz < 0) {
+      t = Math.min(t1, Math.max(t0, (height - tolerance - offset - from.z) / dz));
+    }
+    return { t, depth: height - lowest };
+  };
+
+  const earliest: (Contact | null)[] = sections.map(() => null);
+  let gouge: Contact | null = null;
+  const keep = (current: Contact | null, contact: Contact | null): Contact | null => {
+    if (!contact) return current;
+    if (!current) return contact;
+    return { t: Math.min(current.t, contact.t), depth: Math.max(current.depth, contact.depth) };
+  };
+
+  for (let j = minJ; j <= maxJ; j++) {
+    for (let i = minI; i <= maxI; i++) {
+      const index = j * nx + i;
+      const pre = before[(j - minJ) * rowLength + (i - minI)];
+      const post = heights[index];
+      const under = nodeInterval(stock.nodeX(i) - from.x, stock.nodeY(j) - from.y, to.x - from.x, to.y - from.y, cutter.radius);
+      // From the time the cutter reaches the node, it is cut down
+      const cutFrom = under && post < pre ? under[0] : Infinity;
+
+      if (cutFrom < Infinity) {
+        if (rapid && pre - post > tolerance) {
+          const contact = firstBelow(pre, 0, under![0], under![1]);
+          earliest[0] = keep(earliest[0], contact ? { t: contact.t, depth: pre - post } : null);
+        }
+        if (target && post < target[index] - tolerance) {
+          const contact = firstBelow(target[index], 0, under![0], under![1]);
+          gouge = keep(gouge, contact ? { t: contact.t, depth: target[index] - post } : null);
+        }
+      }
+
+      reaching.forEach(section => {
+        const interval = nodeInterval(stock.nodeX(i) - from.x, stock.nodeY(j) - from.y, to.x - from.x, to.y - from.y, section.radius);
+        if (!interval) return;
+        const [t0, t1] = interval;
+        const k = sections.indexOf(section);
+        if (t0 < cutFrom) {
+          earliest[k] = keep(earliest[k], firstBelow(pre, section.bottom, t0, Math.min(t1, cutFrom)));
+        }
+        if (t1 >= cutFrom) {
+          earliest[k] = keep(earliest[k], firstBelow(post, section.bottom, Math.max(t0, cutFrom), t1));
+        }
+      });
+    }
+  }
+
+  earliest.forEach((contact, k) => {
+    if (!contact) return;
+    record(k === 0 ? 'rapid-through-stock' : 'stock-collision', sections[k].component, contact);
+  });
+  if (gouge) record('part-gouge', 'cutter', gouge);
+}
+
+// Part of a straight move over which a node, at (ax, ay) from its start, lies
+// within a radius of the tool axis
+function nodeInterval(ax: number, ay: number, bx: number, by: number, radius: number): [number, number] | null {
+  const aa = ax * ax + ay * ay;
+  const bb = bx * bx + by * by;
+  const r2 = radius * radius;
+  if (bb < 1e-18) return aa <= r2 ? [0, 1] : null;
+  const ab = ax * bx + ay * by;
+  const discriminant = ab * ab - bb * (aa - r2);
+  if (discriminant < 0) return null;
+  const root = Math.sqrt(discriminant);
+  const t0 = Math.max(0, (ab - root) / bb);
+  const t1 = Math.min(1, (ab + root) / bb);
+  return t0 <= t1 ? [t0, t1] : null;
+}
+
+// Part of a straight move over which a line parameterised by t stays inside
+// an interval, for one coordinate
+function slab(start: number, delta: number, min: number, max: number): [number, number] | null {
+  if (Math.abs(delta) < 1e-12) return start >= min && start <= max ? [-Infinity, Infinity] : null;
+  const a = (min - start) / delta;
+  const b = (max - start) / delta;
+  return [Math.min(a, b), Math.max(a, b)];
+}
+
+// First contact of a section of the assembly with a fixture box. Seen from
+// above, the axis is within the radius of the box inside a rounded rectangle,
+// which is convex, so the contact is a single interval of the move.
+function fixtureContact(from: Vector, to: Vector, section: AssemblySection, fixture: CollisionFixture, tolerance: number): Contact | null {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const dz = to.z - from.z;
+  const r = section.radius;
+  const { min, max } = fixture;
+
+  let enter = Infinity;
+  let exit = -Infinity;
+  const include = (interval: [number, number] | null) => {
+    if (!interval || interval[0] > interval[1]) return;
+    enter = Math.min(enter, interval[0]);
+    exit = Math.max(exit, interval[1]);
+  };
+  const intersect = (a: [number, number] | null, b: [number, number] | null): [number, number] | null =>
+    a && b ? [Math.max(a[0], b[0]), Math.min(a[1], b[1])] : null;
+
+  include(intersect(slab(from.x, dx, min.x - r, max.x + r), slab(from.y, dy, min.y, max.y)));
+  include(intersect(slab(from.x, dx, min.x, max.x), slab(from.y, dy, min.y - r, max.y + r)));
+  [[min.x, min.y], [max.x, min.y], [min.x, max.y], [max.x, max.y]].forEach(([cx, cy]) => {
+    include(nodeInterval(cx - from.x, cy - from.y, dx, dy, r));
+  });
+
+  // Vertical overlap of the section with the box
+  const vertical = intersect(
+    slab(from.z, dz, -Infinity, max.z - section.bottom - tolerance),
+    slab(from.z, dz, min.z - section.top + tolerance, Infinity)
+  );
+  const interval = intersect(intersect([enter, exit], [0, 1]), vertical);
+  if (!interval || interval[0] > interval[1]) return null;
+
+  // Approximate depth: the smaller of the horizontal and vertical overlap,
+  // at the ends and the middle of the contact
+  let deepest = 0;
+  [interval[0], (interval[0] + interval[1]) / 2, interval[1]].forEach(t => {
+    const p = lerp(from, to, t);
+    const outside = Math.hypot(Math.max(min.x - p.x, 0, p.x - max.x), Math.max(min.y - p.y, 0, p.y - max.y));
+    const overlap = Math.min(max.z, p.z + section.top) - Math.max(min.z, p.z + section.bottom);
+    deepest = Math.max(deepest, Math.min(r - outside, overlap));
+  });
+  return deepest > tolerance ? { t: interval[0], depth: deepest } : null;
+}
+
+// Helical or circular XY arc as a polyline within a chord tolerance
+function arcPath(start: ToolpathPoint, end: ToolpathPoint, arc: ToolpathArc, tolerance: number): Vector[] {
+  const full = 2 * Math.PI;
+  let sweep = arc.clockwise ? arc.startAngle - arc.endAngle : arc.endAngle - arc.startAngle;
+  sweep = ((sweep % full) + full) % full;
+  if (sweep < 1e-9) sweep = full;
+  const step = arc.radius > tolerance ? 2 * Math.acos(1 - tolerance / arc.radius) : full;
+  const segments = Math.max(1, Math.ceil(sweep / step));
+  const direction = arc.clockwise ? -1 : 1;
+
+  const path: Vector[] = [start];
+  for (let k = 1; k < segments; k++) {
+    const angle = arc.startAngle + direction * (sweep * k) / segments;
+    path.push({
+      x: arc.center.x + arc.radius * Math.cos(angle),
+      y: arc.center.y + arc.radius * Math.sin(angle),
+      z: start.z + ((end.z - start.z) * k) / segments
+    });
+  }
+  path.push(end);
+  return path;
+}
+
+function distance(a: Vector, b: Vector): number {
+  return Math.sqrt((b.x - a.x) ** 2 + (b.y - a.y) ** 2 + (b.z - a.z) ** 2);
+}
+
+function lerp(a: Vector, b: Vector, t: number): Vector {
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t, z: a.z + (b.z - a.z) * t };
+}
+
+function describeEvent(type: CollisionType, component: AssemblyComponent, depth: number, fixture?: CollisionFixture): string {
+  const amount = `${depth.toFixed(2)} mm`;
+  switch (type) {
+    case 'rapid-through-stock':
+      return `Rapid move cuts ${amount} of stock`;
+    case 'stock-collision':
+      return `${COMPONENT_LABELS[component]} hits the stock ${amount} deep`;
+    case 'fixture-collision':
+      return `${COMPONENT_LABELS[component]} hits ${fixture ? fixture.name : 'a fixture'} ${amount} deep`;
+    case 'part-gouge':
+      return `Cutter gouges the part ${amount} deep`;
+  }
+}
@@ -0,0 +1,293 @@
+// Cutter radius compensation (G41/G42) for interpreted toolpaths
+
+/**
+ * The interpreter describes each move by its programmed geometry and, while
+ * G41/G42 is active, the signed distance the tool centre has to keep from it:
+ * positive to the left of the direction of travel (G41), negative to the
+ * right (G42). This module replaces those moves by the path of the tool centre.
+ *
+ * Each move is offset on its own; neighbouring moves are then joined the way
+ * most controls do it: at inside corners both are trimmed to the intersection
+ * of their offsets, at outside corners an arc around the programmed corner is
+ * inserted. The move that turns compensation on ends at the offset start of
+ * the next move, and the move after G40 starts from wherever the offset path
+ * ended. Only the XY plane (G17) is supported.
+ */
+
+export interface PathVector {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface PathMove {
+  start: PathVector;
+  end: PathVector;
+  rapid: boolean;
+  feedrate: number;
+  lineNumber: number;
+  /** Index of the executed block the move comes from */
+  block?: number;
+  /** Motion code shown for the move: G0, G1, G2 or G3 */
+  code: string;
+  /** Circular moves; clockwise is in the angle coordinates of the plane */
+  arc?: { center: PathVector; clockwise: boolean; plane: 'XY' | 'XZ' | 'YZ' };
+  /** Signed distance of the tool centre from the programmed path while compensating */
+  offset?: number;
+  /** True for the first move after G41/G42 */
+  startsCompensation?: boolean;
+  cycleType?: string;
+}
+
+type Warn = (lineNumber: number, message: string) => void;
+
+type Point2 = { x: number; y: number };
+
+// Offset geometry of one move in XY
+interface OffsetShape {
+  start: Point2;
+  end: Point2;
+  /** Centre and radius for arcs */
+  center?: Point2;
+  radius?: number;
+  clockwise?: boolean;
+}
+
+const EPSILON = 1e-9;
+
+/**
+ * Replace the compensated moves of a toolpath by the path of the tool centre
+ */
+export function compensateCutterRadius(moves: PathMove[], warn: Warn): PathMove[] {
+  const result: PathMove[] = [];
+  let index = 0;
+  while (index < moves.length) {
+    const offset = moves[index].offset;
+    if (offset === undefined || Math.abs(offset) < EPSILON) {
+      result.push(moves[index]);
+      index++;
+      continue;
+    }
+
+    // A run of moves with the same offset, up to G40 or a new G41/G42
+    let end = index + 1;
+    while (end < moves.length && moves[end].offset === offset && !moves[end].startsCompensation) end++;
+    compensateRun(moves.slice(index, end), offset, warn).forEach(move => result.push(move));
+    index = end;
+  }
+  return result;
+}
+
+function compensateRun(run: PathMove[], offset: number, warn: Warn): PathMove[] {
+  const outOfPlane = run.find(move => move.arc && move.arc.plane !== 'XY');
+  if (outOfPlane) {
+    warn(outOfPlane.lineNumber, 'Cutter radius compensation is only supported in the XY plane (G17); ignored');
+    return run;
+  }
+
+  // Moves that go somewhere in XY; the others only change Z
+  const planar = run.map(move => !!move.arc || distance2(move.start, move.end) > EPSILON);
+  const shapes: (OffsetShape | null)[] = run.map((move, i) => planar[i] ? offsetShape(move, offset, warn) : null);
+
+  const geometric: number[] = [];
+  planar.forEach((isPlanar, i) => { if (isPlanar) geometric.push(i); });
+  if (geometric.length === 0) return run;
+
+  // Start-up: a straight move from the uncompensated position to the offset
+  // start of the move that follows it
+  const startup = run[0].startsCompensation && !run[0].arc && geometric[0] === 0 ? 0 : -1;
+  if (startup === 0) {
+    const next = geometric.length > 1 ? shapes[geometric[1]] : null;
+    shapes[0] = {
+      start: { x: run[0].start.x, y: run[0].start.y },
+      end: next ? next.start : shapes[0]!.end
+    };
+  }
+
+  // Corner arcs to insert after a move, by its index in the run
+  const corners = new Map<number, OffsetShape>();
+  for (let g = 0; g + 1 < geometric.length; g++) {
+    const a = geometric[g];
+    const b = geometric[g + 1];
+    if (a === startup) continue;
+    const shapeA = shapes[a]!;
+    const shapeB = shapes[b]!;
+    const corner = { x: run[a].end.x, y: run[a].end.y };
+    const tangentA = tangentAt(run[a], 'end');
+    const tangentB = tangentAt(run[b], 'start');
+    const turn = tangentA.x * tangentB.y - tangentA.y * tangentB.x;
+    const alignment = tangentA.x * tangentB.x + tangentA.y * tangentB.y;
+
+    // Tangent continuation needs no join
+    if (Math.abs(turn) < 1e-6 && alignment > 0) continue;
+
+    if (offset * turn > 0) {
+      // Inside corner: trim both moves to where their offsets meet
+      const meeting = intersect(shapeA, shapeB, corner);
+      if (meeting) {
+        shapeA.end = meeting;
+        shapeB.start = meeting;
+      } else {
+        warn(run[b].lineNumber, 'Cutter radius compensation cannot join this move to the previous one; the tool may gouge');
+      }
+    } else {
+      // Outside corner (or reversal): go around the corner at the tool radius
+      corners.set(a, {
+        start: shapeA.end,
+        end: shapeB.start,
+        center: corner,
+        radius: Math.abs(offset),
+        clockwise: offset > 0
+      });
+    }
+  }
+
+  const result: PathMove[] = [];
+  let last: Point2 = { x: run[0].start.x, y: run[0].start.y };
+  run.forEach((move, i) => {
+    const shape = shapes[i];
+    if (!shape) {
+      // Z-only moves stay where the offset path is
+      result.push({ ...move, start: { ...move.start, x: last.x, y: last.y }, end: { ...move.end, x: last.x, y: last.y } });
+      return;
+    }
+
+    const compensated: PathMove = {
+      ...move,
+      start: { x: shape.start.x, y: shape.start.y, z: move.start.z },
+      end: { x: shape.end.x, y: shape.end.y, z: move.end.z }
+    };
+    if (move.arc && shape.center) {
+      compensated.arc = { ...move.arc, center: { x: shape.center.x, y: shape.center.y, z: move.arc.center.z } };
+    }
+    result.push(compensated);
+    last = shape.end;
+
+    const corner = corners.get(i);
+    if (corner && distance2(corner.start, corner.end) > EPSILON) {
+      result.push({
+        start: { x: corner.start.x, y: corner.start.y, z: move.end.z },
+        end: { x: corner.end.x, y: corner.end.y, z: move.end.z },
+        rapid: move.rapid,
+        feedrate: move.feedrate,
+        lineNumber: move.lineNumber,
+        block: move.block,
+        code: corner.clockwise ? 'G2' : 'G3',
+        arc: { center: { x: corner.center!.x, y: corner.center!.y, z: move.end.z }, clockwise: !!corner.clockwise, plane: 'XY' },
+        offset: move.offset
+      });
+      last = corner.end;
+    }
+  });
+  return result;
+}
+
+// Offset of a single move, to the left for a positive offset
+function offsetShape(move: PathMove, offset: number, warn: Warn): OffsetShape {
+  const left = (tangent: Point2, point: Point2): Point2 => ({
+    x: point.x - tangent.y * offset,
+    y: point.y + tangent.x * offset
+  });
+
+  if (!move.arc) {
+    const tangent = tangentAt(move, 'start');
+    return { start: left(tangent, move.start), end: left(tangent, move.end) };
+  }
+
+  const { center, clockwise } = move.arc;
+  const radius = Math.hypot(move.start.x - center.x, move.start.y - center.y);
+  // The left side is towards the centre on counter-clockwise arcs
+  const offsetRadius = clockwise ? radius + offset : radius - offset;
+  if (offsetRadius <= EPSILON) {
+    warn(move.lineNumber, `Arc radius ${radius.toFixed(3)} is smaller than the tool radius; compensation ignored`);
+    return {
+      start: { x: move.start.x, y: move.start.y },
+      end: { x: move.end.x, y: move.end.y },
+      center,
+      radius,
+      clockwise
+    };
+  }
+  const scale = (point: PathVector): Point2 => {
+    const r = Math.hypot(point.x - center.x, point.y - center.y) || 1;
+    return {
+      x: center.x + ((point.x - center.x) * offsetRadius) / r,
+      y: center.y + ((point.y - center.y) * offsetRadius) / r
+    };
+  };
+  return { start: scale(move.start), end: scale(move.end), center, radius: offsetRadius, clockwise };
+}
+
+// Unit direction of travel at either end of a move
+function tangentAt(move: PathMove, at: 'start' | 'end'): Point2 {
+  if (move.arc) {
+    const point = at === 'start' ? move.start : move.end;
+    const rx = point.x - move.arc.center.x;
+    const ry = point.y - move.arc.center.y;
+    const r = Math.hypot(rx, ry) || 1;
+    return move.arc.clockwise ? { x: ry / r, y: -rx / r } : { x: -ry / r, y: rx / r };
+  }
+  const dx = move.end.x - move.start.x;
+  const dy = move.end.y - move.start.y;
+  const length = Math.hypot(dx, dy) || 1;
+  return { x: dx / length, y: dy / length };
+}
+
+// Meeting point of two offset moves, the candidate closest to the programmed corner
+function intersect(a: OffsetShape, b: OffsetShape, corner: Point2): Point2 | null {
+  let candidates: Point2[];
+  if (!a.center && !b.center) {
+    candidates = lineLine(a.start, a.end, b.start, b.end);
+  } else if (!a.center) {
+    candidates = lineCircle(a.start, a.end, b.center!, b.radius!);
+  } else if (!b.center) {
+    candidates = lineCircle(b.start, b.end, a.center, a.radius!);
+  } else {
+    candidates = circleCircle(a.center, a.radius!, b.center, b.radius!);
+  }
+
+  let best: Point2 | null = null;
+  candidates.forEach(candidate => {
+    if (!best || distance2(candidate, corner) < distance2(best, corner)) best = candidate;
+  });
+  return best;
+}
+
+function lineLine(p: Point2, p2: Point2, q: Point2, q2: Point2): Point2[] {
+  const dx = p2.x - p.x, dy = p2.y - p.y;
+  const ex = q2.x - q.x, ey = q2.y - q.y;
+  const denominator = dx * ey - dy * ex;
+  if (Math.abs(denominator) < EPSILON) return [];
+  const t = ((q.x - p.x) * ey - (q.y - p.y) * ex) / denominator;
+  return [{ x: p.x + t * dx, y: p.y + t * dy }];
+}
+
+function lineCircle(p: Point2, p2: Point2, center: Point2, radius: number): Point2[] {
+  const dx = p2.x - p.x, dy = p2.y - p.y;
+  const fx = p.x - center.x, fy = p.y - center.y;
+  const a = dx * dx + dy * dy;
+  if (a < EPSILON) return [];
+  const b = 2 * (fx * dx + fy * dy);
+  const c = fx * fx + fy * fy - radius * radius;
+  const discriminant = b * b - 4 * a * c;
+  if (discriminant < 0) return [];
+  const root = Math.sqrt(discriminant);
+  return [(-b - root) / (2 * a), (-b + root) / (2 * a)].map(t => ({ x: p.x + t * dx, y: p.y + t * dy }));
+}
+
+function circleCircle(c1: Point2, r1: number, c2: Point2, r2: number): Point2[] {
+  const dx = c2.x - c1.x, dy = c2.y - c1.y;
+  const d = Math.hypot(dx, dy);
+  if (d < EPSILON || d > r1 + r2 || d < Math.abs(r1 - r2)) return [];
+  const a = (r1 * r1 - r2 * r2 + d * d) / (2 * d);
+  const h = Math.sqrt(Math.max(0, r1 * r1 - a * a));
+  const mx = c1.x + (a * dx) / d, my = c1.y + (a * dy) / d;
+  return [
+    { x: mx - (h * dy) / d, y: my + (h * dx) / d },
+    { x: mx + (h * dy) / d, y: my - (h * dx) / d }
+  ];
+}
+
+function distance2(a: Point2, b: Point2): number {
+  return (a.x - b.x) ** 2 + (a.y - b.y) ** 2;
+}
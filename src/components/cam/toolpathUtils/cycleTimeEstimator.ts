@@ -0,0 +1,500 @@
+// Cycle-time estimation from machine kinematics
+import { ParsedGCode, ToolpathArc, ToolpathPoint } from './fixed-gcode-parser';
+import { AxisLimits, MachineConfigDetails, MachineKinematics } from 'src/types/machineConfig';
+
+/**
+ * Estimates how long a machine takes to run a program, rather than how long
+ * the path is at the programmed feed.
+ *
+ * Every move gets a speed profile limited by the programmed feed, the
+ * maximum feed of the machine, the speed and acceleration of the axes it
+ * uses, and the jerk limit. Like the look-ahead of a control, the planner
+ * keeps speed through corners as far as the corner tolerance allows and slows
+ * down on arcs so the centripetal acceleration stays within limits. Rapids end
+ * with an exact stop. Tool changes, dwells and spindle run-up and braking add
+ * their own time.
+ *
+ * Times are broken down by operation: an operation starts at a comment such
+ * as "(OPERATION 2: POCKET)" or "; Operation: contour", or at a tool change.
+ * The first point of a program is taken as the starting position.
+ */
+
+export interface OperationTime {
+  name: string;
+  /** Tool in the spindle, null before the first tool change */
+  tool: number | null;
+  /** First line of the operation in the program */
+  lineNumber: number;
+  /** Seconds spent feeding */
+  cutting: number;
+  /** Seconds spent in rapids */
+  rapid: number;
+  /** Seconds spent changing tools */
+  toolChange: number;
+  /** Seconds spent accelerating and braking the spindle */
+  spindle: number;
+  /** Seconds spent dwelling */
+  dwell: number;
+  total: number;
+  /** Distance fed (mm) */
+  cuttingDistance: number;
+  /** Distance travelled in rapids (mm) */
+  rapidDistance: number;
+}
+
+export interface CycleTimeEstimate {
+  /** Program duration in seconds */
+  totalTime: number;
+  cuttingTime: number;
+  rapidTime: number;
+  toolChangeTime: number;
+  spindleTime: number;
+  dwellTime: number;
+  operations: OperationTime[];
+  /** Seconds from the start when the tool reaches each point */
+  pointTimes: number[];
+}
+
+/** The parts of a machine configuration the estimate depends on */
+export type MachineTimingConfig = Partial<Pick<MachineConfigDetails, 'maxFeedRate' | 'maxSpindleSpeed' | 'kinematics'>>;
+
+/** A point of a plain polyline toolpath */
+export interface TimedPoint {
+  x: number;
+  y: number;
+  z: number;
+  /** mm/min */
+  feedrate?: number;
+  isRapid?: boolean;
+}
+
+export const DEFAULT_KINEMATICS: MachineKinematics = {
+  rapidRates: { x: 10000, y: 10000, z: 5000 },
+  accelerations: { x: 1000, y: 1000, z: 800 },
+  jerk: 10000,
+  cornerTolerance: 0.02,
+  toolChangeTime: 8,
+  spindleAcceleration: 2000
+};
+
+const DEFAULT_MAX_FEEDRATE = 5000;
+const DEFAULT_FEEDRATE = 500;
+const EPSILON = 1e-9;
+
+interface ResolvedMachine extends MachineKinematics {
+  /** mm/min */
+  maxFeedRate: number;
+}
+
+// A move for the planner, with speeds in mm/s
+interface Segment {
+  length: number;
+  rapid: boolean;
+  /** Direction of travel at the start and the end */
+  startDirection: AxisLimits;
+  endDirection: AxisLimits;
+  /** Highest speed on the move */
+  speed: number;
+  acceleration: number;
+  /** The machine comes to a stop before the move */
+  stopBefore: boolean;
+}
+
+// Timed events of a block that stop the motion
+interface BlockEvents {
+  toolChange: number | null;
+  dwell: number;
+  /** Spindle speed after the block, 0 when stopped */
+  spindle: number;
+  operation: string | null;
+}
+
+/**
+ * Machine dynamics from a machine configuration, with defaults for anything missing
+ */
+export const kinematicsFromMachineConfig = (config?: MachineTimingConfig | null): MachineKinematics => {
+  const kinematics = config?.kinematics || {};
+  const positive = (value: number | undefined, fallback: number) =>
+    typeof value === 'number' && isFinite(value) && value > 0 ? value : fallback;
+  const axes = (limits: Partial<AxisLimits> | undefined, fallback: AxisLimits): AxisLimits => ({
+    x: positive(limits?.x, fallback.x),
+    y: positive(limits?.y, fallback.y),
+    z: positive(limits?.z, fallback.z)
+  });
+  return {
+    rapidRates: axes(kinematics.rapidRates, DEFAULT_KINEMATICS.rapidRates),
+    accelerations: axes(kinematics.accelerations, DEFAULT_KINEMATICS.accelerations),
+    jerk: typeof kinematics.jerk === 'number' && kinematics.jerk >= 0 ? kinematics.jerk : DEFAULT_KINEMATICS.jerk,
+    cornerTolerance: positive(kinematics.cornerTolerance, DEFAULT_KINEMATICS.cornerTolerance),
+    toolChangeTime: typeof kinematics.toolChangeTime === 'number' && kinematics.toolChangeTime >= 0
+      ? kinematics.toolChangeTime
+      : DEFAULT_KINEMATICS.toolChangeTime,
+    spindleAcceleration: positive(kinematics.spindleAcceleration, DEFAULT_KINEMATICS.spindleAcceleration)
+  };
+};
+
+const resolveMachine = (config?: MachineTimingConfig | null): ResolvedMachine => ({
+  ...kinematicsFromMachineConfig(config),
+  maxFeedRate: config?.maxFeedRate && config.maxFeedRate > 0 ? config.maxFeedRate : DEFAULT_MAX_FEEDRATE
+});
+
+// Highest rate along a direction when each axis has its own limit
+const directionalLimit = (direction: AxisLimits, limits: AxisLimits): number => {
+  let limit = Infinity;
+  (['x', 'y', 'z'] as const).forEach(axis => {
+    if (Math.abs(direction[axis]) > EPSILON) limit = Math.min(limit, limits[axis] / Math.abs(direction[axis]));
+  });
+  return limit;
+};
+
+const normalize = (v: AxisLimits): AxisLimits => {
+  const length = Math.hypot(v.x, v.y, v.z) || 1;
+  return { x: v.x / length, y: v.y / length, z: v.z / length };
+};
+
+const straightSegment = (
+  from: AxisLimits,
+  to: ToolpathPoint | TimedPoint,
+  machine: ResolvedMachine
+): Segment => {
+  const delta = { x: to.x - from.x, y: to.y - from.y, z: to.z - from.z };
+  const length = Math.hypot(delta.x, delta.y, delta.z);
+  const direction = normalize(delta);
+  const rapid = !!to.isRapid;
+  const axisSpeed = directionalLimit(direction, machine.rapidRates);
+  const programmed = rapid ? Infinity : Math.min(to.feedrate || DEFAULT_FEEDRATE, machine.maxFeedRate);
+  return {
+    length,
+    rapid,
+    startDirection: direction,
+    endDirection: direction,
+    speed: Math.min(axisSpeed, programmed) / 60,
+    acceleration: directionalLimit(direction, machine.accelerations),
+    stopBefore: false
+  };
+};
+
+const arcSegment = (arc: ToolpathArc, to: ToolpathPoint, machine: ResolvedMachine): Segment => {
+  const axes = arc.plane === 'XY' ? ['x', 'y', 'z'] : arc.plane === 'XZ' ? ['x', 'z', 'y'] : ['y', 'z', 'x'];
+  const [a, b, c] = axes as ('x' | 'y' | 'z')[];
+  let sweep = arc.clockwise ? arc.startAngle - arc.endAngle : arc.endAngle - arc.startAngle;
+  while (sweep <= EPSILON) sweep += 2 * Math.PI;
+  const axial = arc.endPoint[c] - arc.startPoint[c];
+  const length = Math.hypot(arc.radius * sweep, axial);
+
+  // Tangents at both ends, including the helical component
+  const tangent = (angle: number): AxisLimits => {
+    const sign = arc.clockwise ? -1 : 1;
+    const v = { x: 0, y: 0, z: 0 };
+    v[a] = -Math.sin(angle) * sign * arc.radius * sweep;
+    v[b] = Math.cos(angle) * sign * arc.radius * sweep;
+    v[c] = axial;
+    return normalize(v);
+  };
+
+  // The slowest axis of the plane bounds the speed and the centripetal acceleration
+  const planeAcceleration = Math.min(machine.accelerations[a], machine.accelerations[b]);
+  const planeSpeed = Math.min(machine.rapidRates[a], machine.rapidRates[b]) / 60;
+  const centripetal = Math.sqrt(planeAcceleration * arc.radius);
+  return {
+    length,
+    rapid: false,
+    startDirection: tangent(arc.startAngle),
+    endDirection: tangent(arc.endAngle),
+    speed: Math.min(Math.min(to.feedrate || DEFAULT_FEEDRATE, machine.maxFeedRate) / 60, planeSpeed, centripetal),
+    acceleration: planeAcceleration,
+    stopBefore: false
+  };
+};
+
+// Highest speed through the joint of two moves within the corner tolerance
+const junctionSpeed = (previous: Segment, next: Segment, machine: ResolvedMachine): number => {
+  if (previous.rapid || next.rapid || next.stopBefore) return 0;
+  const cosine = -(previous.endDirection.x * next.startDirection.x +
+    previous.endDirection.y * next.startDirection.y +
+    previous.endDirection.z * next.startDirection.z);
+  if (cosine > 1 - 1e-6) return 0;
+  const limit = Math.min(previous.speed, next.speed);
+  if (cosine < -1 + 1e-6) return limit;
+  const sinHalf = Math.sqrt(0.5 * (1 - cosine));
+  const acceleration = Math.min(previous.acceleration, next.acceleration);
+  return Math.min(limit, Math.sqrt((acceleration * machine.cornerTolerance * sinHalf) / (1 - sinHalf)));
+};
+
+// Time to change speed by dv, with an S-curve when the jerk is limited
+const rampTime = (dv: number, acceleration: number, jerk: number): number => {
+  if (dv <= EPSILON) return 0;
+  if (jerk <= 0) return dv / acceleration;
+  return dv >= (acceleration * acceleration) / jerk
+    ? dv / acceleration + acceleration / jerk
+    : 2 * Math.sqrt(dv / jerk);
+};
+
+// Duration of a move entered at vIn and left at vOut
+const segmentTime = (segment: Segment, vIn: number, vOut: number, jerk: number): number => {
+  const { length, speed, acceleration } = segment;
+  if (length <= EPSILON) return 0;
+  const ramps = (peak: number) => {
+    const up = rampTime(peak - vIn, acceleration, jerk);
+    const down = rampTime(peak - vOut, acceleration, jerk);
+    return { time: up + down, distance: ((vIn + peak) / 2) * up + ((vOut + peak) / 2) * down };
+  };
+
+  let peak = speed;
+  let profile = ramps(peak);
+  if (profile.distance > length) {
+    // The move is too short to reach its speed: find the highest peak that fits
+    let low = Math.max(vIn, vOut);
+    let high = speed;
+    if (ramps(low).distance > length) return (2 * length) / Math.max(vIn + vOut, EPSILON);
+    for (let i = 0; i < 40; i++) {
+      const middle = (low + high) / 2;
+      if (ramps(middle).distance > length) high = middle; else low = middle;
+    }
+    peak = low;
+    profile = ramps(peak);
+  }
+  return profile.time + (length - profile.distance) / Math.max(peak, EPSILON);
+};
+
+// Highest speed at one end of a move given the speed at the other
+const reachable = (segment: Segment, speed: number): number =>
+  segment.length > EPSILON ? Math.sqrt(speed * speed + 2 * segment.acceleration * segment.length) : speed;
+
+// Durations of the moves with look-ahead over the whole list
+const planSegments = (segments: Segment[], machine: ResolvedMachine): number[] => {
+  const count = segments.length;
+  const entry: number[] = new Array(count + 1).fill(0);
+  for (let i = 1; i < count; i++) entry[i] = junctionSpeed(segments[i - 1], segments[i], machine);
+
+  // Backward pass: every move must be able to brake to the next entry speed
+  for (let i = count - 1; i >= 0; i--) {
+    entry[i] = Math.min(entry[i], reachable(segments[i], entry[i + 1]));
+  }
+  // Forward pass: and to accelerate to it
+  for (let i = 0; i < count; i++) {
+    entry[i + 1] = Math.min(entry[i + 1], reachable(segments[i], entry[i]));
+  }
+  return segments.map((segment, i) => segmentTime(segment, entry[i], entry[i + 1], machine.jerk));
+};
+
+const emptyOperation = (name: string, tool: number | null, lineNumber: number): OperationTime => ({
+  name,
+  tool,
+  lineNumber,
+  cutting: 0,
+  rapid: 0,
+  toolChange: 0,
+  spindle: 0,
+  dwell: 0,
+  total: 0,
+  cuttingDistance: 0,
+  rapidDistance: 0
+});
+
+const summarize = (operations: OperationTime[], pointTimes: number[]): CycleTimeEstimate => {
+  const estimate: CycleTimeEstimate = {
+    totalTime: 0,
+    cuttingTime: 0,
+    rapidTime: 0,
+    toolChangeTime: 0,
+    spindleTime: 0,
+    dwellTime: 0,
+    operations,
+    pointTimes
+  };
+  operations.forEach(operation => {
+    operation.total = operation.cutting + operation.rapid + operation.toolChange + operation.spindle + operation.dwell;
+    estimate.totalTime += operation.total;
+    estimate.cuttingTime += operation.cutting;
+    estimate.rapidTime += operation.rapid;
+    estimate.toolChangeTime += operation.toolChange;
+    estimate.spindleTime += operation.spindle;
+    estimate.dwellTime += operation.dwell;
+  });
+  return estimate;
+};
+
+// Tool changes, dwells, spindle speed and operation names of a block
+const readBlockEvents = (text: string, spindle: number, running: boolean): BlockEvents & { running: boolean } => {
+  const comment = text.match(/\(\s*OPERATION\b[^:)]*:?\s*([^)]*)\)|;\s*OPERATION\b[^:]*:?\s*(.*)$/i);
+  const operation = comment ? (comment[1] ?? comment[2] ?? '').trim() || 'Operation' : null;
+  const code = text.replace(/\([^)]*\)/g, ' ').replace(/;.*$/, ' ').toUpperCase();
+  const mCodes: number[] = [];
+  const mPattern = /(?:^|[^A-Z])M0*(\d+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = mPattern.exec(code)) !== null) mCodes.push(parseInt(match[1], 10));
+
+  let toolChange: number | null = null;
+  const klartextTool = code.match(/^\s*TOOL\s+CALL\s+(\d+)?/);
+  if (klartextTool) {
+    toolChange = klartextTool[1] !== undefined ? parseInt(klartextTool[1], 10) : null;
+  } else if (mCodes.indexOf(6) >= 0) {
+    const tool = code.match(/(?:^|[^A-Z])T0*(\d+)/);
+    toolChange = tool ? parseInt(tool[1], 10) : -1;
+  }
+
+  let dwell = 0;
+  if (/(?:^|[^A-Z])G0*4(?![\d.])/.test(code)) {
+    const seconds = code.match(/(?:^|[^A-Z])[XU]([+-]?\d*\.?\d+)/);
+    const milliseconds = code.match(/(?:^|[^A-Z])P(\d+)/);
+    if (seconds) dwell = parseFloat(seconds[1]);
+    else if (milliseconds) dwell = parseInt(milliseconds[1], 10) / 1000;
+  }
+  const klartextDwell = code.match(/CYCL\s+DEF\s+9\.1\s+DWELL\s*([+-]?\d*\.?\d+)/);
+  if (klartextDwell) dwell = parseFloat(klartextDwell[1]);
+
+  const speed = code.match(/(?:^|[^A-Z])S(\d*\.?\d+)/);
+  const target = speed ? parseFloat(speed[1]) : spindle;
+  if (toolChange !== null) running = false;
+  if (mCodes.some(m => m === 3 || m === 4 || m === 13 || m === 14)) running = true;
+  if (mCodes.some(m => m === 5 || m === 30 || m === 2)) running = false;
+  return { toolChange, dwell, spindle: target, operation, running };
+};
+
+/**
+ * Estimate the run time of an interpreted program on a machine
+ */
+export const estimateCycleTime = (program: ParsedGCode, config?: MachineTimingConfig | null): CycleTimeEstimate => {
+  const machine = resolveMachine(config);
+  const { points, blocks } = program;
+
+  // Operation and timed events of every executed block
+  const operations: OperationTime[] = [emptyOperation('Program', null, blocks[0]?.lineNumber ?? 1)];
+  const operationOfBlock: number[] = [];
+  const eventTime: number[] = [];
+  let tool: number | null = null;
+  let commanded = 0;
+  let actual = 0;
+  let running = false;
+  // Whether the current operation has moves yet, and was named by a comment
+  let moved = false;
+  let named = false;
+  const blocksWithMoves = new Set<number>();
+  points.forEach(point => { if (point.blockIndex !== undefined) blocksWithMoves.add(point.blockIndex); });
+
+  blocks.forEach((block, index) => {
+    const events = readBlockEvents(block.text, commanded, running);
+    let current = operations[operations.length - 1];
+    const startOperation = (name: string) => {
+      if (moved) {
+        current = emptyOperation(name, tool, block.lineNumber);
+        operations.push(current);
+        moved = false;
+      } else {
+        current.name = name;
+        current.lineNumber = block.lineNumber;
+      }
+    };
+
+    let time = 0;
+    if (events.operation) {
+      startOperation(events.operation);
+      named = true;
+    }
+    if (events.toolChange !== null) {
+      if (!events.operation && (moved || !named)) {
+        startOperation(events.toolChange >= 0 ? `T${events.toolChange}` : 'Tool change');
+        named = false;
+      }
+      if (events.toolChange >= 0) tool = events.toolChange;
+      current.tool = tool;
+      current.toolChange += machine.toolChangeTime;
+      time += machine.toolChangeTime;
+      actual = 0;
+    }
+    current.dwell += events.dwell;
+    time += events.dwell;
+
+    // Spindle run-up, speed changes and braking
+    commanded = events.spindle;
+    running = events.running;
+    const target = running ? commanded : 0;
+    const ramp = Math.abs(target - actual) / machine.spindleAcceleration;
+    current.spindle += ramp;
+    time += ramp;
+    actual = target;
+
+    operationOfBlock[index] = operations.length - 1;
+    eventTime[index] = time;
+    if (blocksWithMoves.has(index)) moved = true;
+  });
+
+  // Dwells of fixed cycles (P is in milliseconds)
+  program.fixedCycles.forEach(cycle => {
+    if (!cycle.dwellTime || cycle.blockIndex === undefined) return;
+    operations[operationOfBlock[cycle.blockIndex] ?? 0].dwell += cycle.dwellTime / 1000;
+    eventTime[cycle.blockIndex] = (eventTime[cycle.blockIndex] || 0) + cycle.dwellTime / 1000;
+  });
+
+  // Moves, with a stop wherever a block in between took time of its own
+  const segments: Segment[] = [];
+  let arcIndex = 0;
+  let lastBlock = -1;
+  points.forEach((point, i) => {
+    const segment = point.isArc && program.arcs[arcIndex]
+      ? arcSegment(program.arcs[arcIndex++], point, machine)
+      : straightSegment(i === 0 ? point : points[i - 1], point, machine);
+    const block = point.blockIndex ?? lastBlock;
+    for (let b = lastBlock + 1; b <= block; b++) {
+      if (eventTime[b] > 0) segment.stopBefore = true;
+    }
+    lastBlock = Math.max(lastBlock, block);
+    segments.push(segment);
+  });
+
+  const durations = planSegments(segments, machine);
+  const pointTimes: number[] = [];
+  let clock = 0;
+  lastBlock = -1;
+  points.forEach((point, i) => {
+    const block = point.blockIndex ?? lastBlock;
+    for (let b = lastBlock + 1; b <= block; b++) clock += eventTime[b] || 0;
+    lastBlock = Math.max(lastBlock, block);
+    const operation = operations[operationOfBlock[block] ?? 0];
+    if (segments[i].rapid) {
+      operation.rapid += durations[i];
+      operation.rapidDistance += segments[i].length;
+    } else {
+      operation.cutting += durations[i];
+      operation.cuttingDistance += segments[i].length;
+    }
+    clock += durations[i];
+    pointTimes.push(clock);
+  });
+
+  // Nothing before the first operation
+  const first = operations[0];
+  if (operations.length > 1 && first.cutting + first.rapid + first.toolChange + first.spindle + first.dwell === 0) {
+    operations.shift();
+  }
+  return summarize(operations, pointTimes);
+};
+
+/**
+ * Estimate the run time of a polyline toolpath without tool changes
+ */
+export const estimatePathTime = (
+  points: TimedPoint[],
+  config?: MachineTimingConfig | null,
+  name = 'Toolpath'
+): CycleTimeEstimate => {
+  const machine = resolveMachine(config);
+  const segments = points.map((point, i) => straightSegment(i === 0 ? point : points[i - 1], point, machine));
+  const durations = planSegments(segments, machine);
+  const operation = emptyOperation(name, null, 1);
+  const pointTimes: number[] = [];
+  let clock = 0;
+  segments.forEach((segment, i) => {
+    if (segment.rapid) {
+      operation.rapid += durations[i];
+      operation.rapidDistance += segment.length;
+    } else {
+      operation.cutting += durations[i];
+      operation.cuttingDistance += segment.length;
+    }
+    clock += durations[i];
+    pointTimes.push(clock);
+  });
+  return summarize([operation], pointTimes);
+};
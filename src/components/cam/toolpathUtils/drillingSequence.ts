@@ -0,0 +1,530 @@
+// Hole making: tool sequences for recognised holes, hole ordering and drilling cycles
+import { materialProperties } from 'src/lib/materialProperties';
+import { HoleFeature, HoleGroup } from './holeRecognition';
+
+/**
+ * Drilling sequences for the hole groups found by holeRecognition.
+ *
+ * Every group gets a sequence of stages, each with its tool from the tool
+ * library:
+ * - spot: centre drill or spot drill, which also makes the chamfer when it is
+ *   large enough;
+ * - drill: the finished diameter for plain holes, the clearance diameter for
+ *   bolts, the tap drill (nominal minus pitch) for tapped holes and an
+ *   undersize drill for reamed holes; G81, or G83 pecking when the hole is
+ *   deeper than a few diameters;
+ * - chamfer: a chamfer mill or countersink, when the spot tool is too small;
+ * - ream: G85 with a reamer of the finished diameter;
+ * - tap: G84, or G74 for left-hand threads, with the feed from the pitch.
+ *
+ * Stages that use the same tool in the same way are merged across groups so
+ * that the tool is loaded once. The holes of an operation are visited in the
+ * order of a short path: nearest neighbour from where the previous operation
+ * ended, improved with 2-opt.
+ *
+ * Tools that are not in the library are proposed with their diameter and
+ * reported in the warnings. Program Z0 is at the entry of the highest hole.
+ */
+
+export type HoleToolType = 'spot' | 'drill' | 'chamfer' | 'reamer' | 'tap';
+
+export type DrillingStage = 'spot' | 'drill' | 'chamfer' | 'ream' | 'tap';
+
+export type DrillingCycle = 'G81' | 'G82' | 'G83' | 'G84' | 'G74' | 'G85';
+
+/** Tool as stored in the tool library */
+export interface LibraryTool {
+  id: string;
+  name: string;
+  type: string;
+  diameter: number;
+  material?: string;
+  maxRPM?: number | null;
+}
+
+export interface HoleTool {
+  /** Library id; undefined for proposed tools that are not in the library */
+  id?: string;
+  name: string;
+  type: HoleToolType;
+  diameter: number;
+  material?: string;
+  maxRPM?: number;
+  /** Tool number in the program */
+  number: number;
+}
+
+export interface DrillingTarget {
+  hole: HoleFeature;
+  /** Z of the tool tip at the bottom of the cycle, in program coordinates */
+  bottom: number;
+  /** Z of the hole entry, in program coordinates */
+  top: number;
+}
+
+export interface DrillingOperation {
+  stage: DrillingStage;
+  cycle: DrillingCycle;
+  tool: HoleTool;
+  spindleSpeed: number;
+  feedrate: number;
+  /** Peck depth of G83 */
+  peck?: number;
+  /** Dwell at the bottom in seconds, for G82 */
+  dwell?: number;
+  /** Thread pitch of tapping cycles */
+  pitch?: number;
+  /** Labels of the hole groups the operation works on */
+  groups: string[];
+  /** Holes in machining order */
+  targets: DrillingTarget[];
+}
+
+export interface DrillingPlanOptions {
+  /** Workpiece material, for the speed and feed modifiers */
+  material?: string;
+  /** Spot every hole before drilling */
+  spotDrill?: boolean;
+  /** Width of the 45 degree chamfer at the hole entry; 0 for none */
+  chamfer?: number;
+  /** Ream plain holes; 'auto' reams when there is a reamer but no drill of the size */
+  ream?: boolean | 'auto';
+  /** Holes deeper than this many drill diameters are peck drilled */
+  peckRatio?: number;
+  /** Height of the R plane above the hole entry */
+  retract?: number;
+  /** Height above Z0 for moves between operations */
+  clearance?: number;
+  maxSpindleSpeed?: number;
+  /** Upper limit of the spindle speed for tapping */
+  maxTapSpeed?: number;
+  /** Position the first operation starts from */
+  start?: { x: number; y: number };
+}
+
+export interface DrillingPlan {
+  operations: DrillingOperation[];
+  tools: HoleTool[];
+  /** Z of the hole entry that is program Z0 */
+  z0: number;
+  retract: number;
+  clearance: number;
+  /** Total length of the moves between holes */
+  travel: number;
+  warnings: string[];
+}
+
+const STAGE_ORDER: DrillingStage[] = ['spot', 'drill', 'chamfer', 'ream', 'tap'];
+
+const STAGE_NAMES: Record<DrillingStage, string> = {
+  spot: 'Spot drill',
+  drill: 'Drill',
+  chamfer: 'Chamfer',
+  ream: 'Ream',
+  tap: 'Tap'
+};
+
+// Cutting speed in m/min for HSS tools in aluminium; carbide runs faster
+const CUTTING_SPEED: Record<HoleToolType, number> = { spot: 40, drill: 50, chamfer: 50, reamer: 15, tap: 12 };
+const CARBIDE_SPEED_FACTOR = 2.5;
+
+// Drill point of 118 degrees: length of the tip per unit of diameter
+const DRILL_TIP = 0.3;
+// Tool travel below the part for through holes
+const BREAKTHROUGH = 1;
+// Thread pitches lost to the tap chamfer at the bottom of a blind hole
+const TAP_LEAD = 3;
+
+const format = (value: number) => {
+  const rounded = Math.round(value * 1000) / 1000;
+  return rounded === 0 ? '0' : String(rounded);
+};
+
+const signed = (value: number) => `${value < 0 ? '-' : '+'}${format(Math.abs(value))}`;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+/**
+ * Kind of hole-making tool from the type of a library tool, if it is one
+ */
+export function classifyHoleTool(type: string): HoleToolType | null {
+  const normalized = (type || '').toLowerCase().replace(/[^a-z]/g, '');
+  if (/spot|cent(er|re)drill|nc(drill|spot)/.test(normalized)) return 'spot';
+  if (/chamfer|countersink/.test(normalized)) return 'chamfer';
+  if (/ream/.test(normalized)) return 'reamer';
+  if (/tap/.test(normalized)) return 'tap';
+  if (/drill/.test(normalized)) return 'drill';
+  return null;
+}
+
+/**
+ * Order points for a short path from a start position: nearest neighbour,
+ * then 2-opt until no reversal shortens the path or the pass limit is reached
+ */
+export function orderHoles<T extends { x: number; y: number }>(points: T[], start: { x: number; y: number }, maxPasses = 50): T[] {
+  if (points.length < 2) return points.slice();
+  const remaining = points.slice();
+  const route: T[] = [];
+  let current = start;
+  while (remaining.length) {
+    let best = 0;
+    let bestDistance = Infinity;
+    remaining.forEach((point, index) => {
+      const distance = (point.x - current.x) * (point.x - current.x) + (point.y - current.y) * (point.y - current.y);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = index;
+      }
+    });
+    current = remaining[best];
+    route.push(current as T);
+    remaining.splice(best, 1);
+  }
+
+  // Open path from the start: reversing route[i..j] swaps edges (i-1, i) and (j, j+1)
+  const at = (index: number) => (index < 0 ? start : route[index]);
+  const distance = (a: { x: number; y: number }, b: { x: number; y: number }) => Math.hypot(a.x - b.x, a.y - b.y);
+  for (let pass = 0; pass < maxPasses; pass++) {
+    let improved = false;
+    for (let i = 0; i < route.length - 1; i++) {
+      for (let j = i + 1; j < route.length; j++) {
+        const before = distance(at(i - 1), route[i]) + (j + 1 < route.length ? distance(route[j], route[j + 1]) : 0);
+        const after = distance(at(i - 1), route[j]) + (j + 1 < route.length ? distance(route[i], route[j + 1]) : 0);
+        if (after < before - 1e-9) {
+          for (let a = i, b = j; a < b; a++, b--) {
+            const swap = route[a];
+            route[a] = route[b];
+            route[b] = swap;
+          }
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+  return route;
+}
+
+/**
+ * Propose the tools, cycles and hole order for the hole groups
+ */
+export function planDrilling(groups: HoleGroup[], library: LibraryTool[], options: DrillingPlanOptions = {}): DrillingPlan {
+  const spotDrill = options.spotDrill ?? true;
+  const chamfer = Math.max(0, options.chamfer ?? 0.5);
+  const ream = options.ream ?? 'auto';
+  const peckRatio = options.peckRatio ?? 3;
+  const retract = options.retract ?? 2;
+  const clearance = options.clearance ?? 25;
+  const maxSpindleSpeed = options.maxSpindleSpeed ?? 12000;
+  const maxTapSpeed = options.maxTapSpeed ?? 1500;
+  const modifiers = materialProperties[(options.material || 'aluminum').toLowerCase()] || {};
+  const speedModifier = modifiers.speedModifier ?? 1;
+  const feedModifier = modifiers.feedrateModifier ?? 1;
+  const warnings: string[] = [];
+
+  const holes = ([] as HoleFeature[]).concat(...groups.map(group => group.holes));
+  if (!holes.length) {
+    return { operations: [], tools: [], z0: 0, retract, clearance, travel: 0, warnings: ['No holes to machine'] };
+  }
+  const z0 = Math.max(...holes.map(hole => hole.z));
+
+  const libraryTools = library
+    .map(tool => ({ tool, type: classifyHoleTool(tool.type) }))
+    .filter(entry => entry.type !== null && entry.tool.diameter > 0);
+  const ofType = (type: HoleToolType) => libraryTools.filter(entry => entry.type === type).map(entry => entry.tool);
+
+  // Library tool of a type with the diameter closest to the wanted one, within [min, max]
+  const findTool = (type: HoleToolType, wanted: number, min: number, max: number): LibraryTool | null => {
+    let best: LibraryTool | null = null;
+    ofType(type).forEach(tool => {
+      if (tool.diameter < min - 1e-9 || tool.diameter > max + 1e-9) return;
+      if (!best || Math.abs(tool.diameter - wanted) < Math.abs(best.diameter - wanted)) best = tool;
+    });
+    return best;
+  };
+
+  // One HoleTool per library tool or proposed tool, numbered in order of use later
+  const toolsByKey = new Map<string, HoleTool>();
+  const toolFor = (type: HoleToolType, diameter: number, found: LibraryTool | null, label: string): HoleTool => {
+    const key = found ? `lib:${found.id}` : `new:${type}:${diameter.toFixed(3)}`;
+    let tool = toolsByKey.get(key);
+    if (!tool) {
+      tool = found
+        ? { id: found.id, name: found.name, type, diameter: found.diameter, material: found.material, maxRPM: found.maxRPM || undefined, number: 0 }
+        : { name: `Ø${format(diameter)} ${type === 'spot' ? 'spot drill' : type}`, type, diameter, number: 0 };
+      if (!found) warnings.push(`No ${type === 'spot' ? 'spot drill' : type} Ø${format(diameter)} in the tool library (${label}); a new tool is proposed`);
+      toolsByKey.set(key, tool);
+    }
+    return tool;
+  };
+
+  const spindleFor = (tool: HoleTool) => {
+    const carbide = /carbide|hm|vhm/i.test(tool.material || '');
+    const speed = CUTTING_SPEED[tool.type] * (carbide ? CARBIDE_SPEED_FACTOR : 1) * speedModifier;
+    let rpm = (speed * 1000) / (Math.PI * tool.diameter);
+    rpm = Math.min(rpm, maxSpindleSpeed, tool.maxRPM || Infinity);
+    if (tool.type === 'tap') rpm = Math.min(rpm, maxTapSpeed);
+    return Math.max(1, Math.round(rpm));
+  };
+
+  const feedPerRevolution = (tool: HoleTool) => {
+    switch (tool.type) {
+      case 'drill': return clamp(0.02 * tool.diameter, 0.02, 0.4) * feedModifier;
+      case 'reamer': return clamp(0.03 * tool.diameter, 0.1, 0.6) * feedModifier;
+      default: return 0.04 * feedModifier;
+    }
+  };
+
+  // Operations keyed by stage, tool and cycle, so groups share them
+  const operations = new Map<string, DrillingOperation>();
+  const addTarget = (
+    stage: DrillingStage, cycle: DrillingCycle, tool: HoleTool, group: HoleGroup, hole: HoleFeature,
+    depth: number, extra: { peck?: number; dwell?: number; pitch?: number } = {}
+  ) => {
+    const key = [stage, tool.id || tool.name, cycle, extra.peck || 0, extra.pitch || 0].join('|');
+    let operation = operations.get(key);
+    if (!operation) {
+      const spindleSpeed = spindleFor(tool);
+      const feedrate = extra.pitch ? spindleSpeed * extra.pitch : spindleSpeed * feedPerRevolution(tool);
+      operation = { stage, cycle, tool, spindleSpeed, feedrate: Math.round(feedrate * 100) / 100, ...extra, groups: [], targets: [] };
+      operations.set(key, operation);
+    }
+    if (operation.groups.indexOf(group.label) < 0) operation.groups.push(group.label);
+    const top = hole.z - z0;
+    operation.targets.push({ hole, top, bottom: top - depth });
+  };
+
+  // The spot drill is the smallest one that makes the chamfer of every hole, else the largest
+  const spotTools = ofType('spot').sort((a, b) => a.diameter - b.diameter);
+  const largestSpot = groups.reduce((size, group) => Math.max(size, group.diameter + 2 * chamfer), 0);
+  const librarySpot = spotTools.filter(tool => tool.diameter >= largestSpot)[0] || spotTools[spotTools.length - 1] || null;
+
+  groups.forEach(group => {
+    const finished = group.diameter;
+    let drillDiameter = finished;
+    let drill: LibraryTool | null = null;
+    let reamer: LibraryTool | null = null;
+
+    if (group.kind === 'tapped') {
+      const pitch = group.pitch || 0;
+      drillDiameter = Math.round((finished - pitch) * 10) / 10;
+      drill = findTool('drill', drillDiameter, drillDiameter - 0.1, drillDiameter + 0.1);
+    } else if (group.kind === 'clearance') {
+      drill = findTool('drill', finished, finished, finished + 0.5);
+    } else {
+      drill = findTool('drill', finished, finished - 0.01, finished + 0.01);
+      const exactReamer = findTool('reamer', finished, finished - 0.005, finished + 0.005);
+      if (ream === true || (ream === 'auto' && !drill && exactReamer)) {
+        reamer = exactReamer;
+        // Leave 0.1-0.5 mm on the diameter for the reamer
+        const allowance = finished <= 6 ? 0.2 : finished <= 20 ? 0.3 : 0.4;
+        drillDiameter = Math.round((finished - allowance) * 10) / 10;
+        drill = findTool('drill', drillDiameter, finished - 0.5, finished - 0.1);
+      }
+    }
+    const drillTool = toolFor('drill', drill ? drill.diameter : drillDiameter, drill, group.label);
+    const d = drillTool.diameter;
+
+    // Entry chamfer, or a spot just under the drill diameter
+    const chamferDiameter = chamfer > 0 ? finished + 2 * chamfer : 0;
+    let chamferBySpot = false;
+    if (spotDrill) {
+      const spot = toolFor('spot', librarySpot ? librarySpot.diameter : Math.max(10, Math.ceil(largestSpot)), librarySpot, group.label);
+      chamferBySpot = chamferDiameter > 0 && spot.diameter >= chamferDiameter;
+      const pointDiameter = chamferBySpot ? chamferDiameter : Math.min(d, 0.9 * spot.diameter);
+      group.holes.forEach(hole => addTarget('spot', 'G81', spot, group, hole, pointDiameter / 2));
+    }
+
+    // Drill depth at the tip
+    group.holes.forEach(hole => {
+      let depth: number;
+      if (hole.through) depth = hole.depth + BREAKTHROUGH + DRILL_TIP * d;
+      else if (group.kind === 'tapped') depth = hole.depth + TAP_LEAD * (group.pitch || 0) + DRILL_TIP * d;
+      else if (reamer || ream === true) depth = hole.depth + DRILL_TIP * d;
+      else depth = hole.depth;
+      if (depth > peckRatio * d) addTarget('drill', 'G83', drillTool, group, hole, depth, { peck: Math.round(d * 100) / 100 });
+      else addTarget('drill', 'G81', drillTool, group, hole, depth);
+    });
+
+    if (chamferDiameter > 0 && !chamferBySpot) {
+      const found = ofType('chamfer').filter(tool => tool.diameter > chamferDiameter).sort((a, b) => a.diameter - b.diameter)[0] || null;
+      const tool = toolFor('chamfer', found ? found.diameter : Math.ceil(chamferDiameter + 2), found, group.label);
+      group.holes.forEach(hole => addTarget('chamfer', 'G82', tool, group, hole, chamferDiameter / 2, { dwell: 0.2 }));
+    }
+
+    if (group.kind === 'plain' && (reamer || ream === true)) {
+      const tool = toolFor('reamer', finished, reamer, group.label);
+      group.holes.forEach(hole => addTarget('ream', 'G85', tool, group, hole, hole.through ? hole.depth + BREAKTHROUGH + 0.5 : hole.depth));
+    }
+
+    if (group.kind === 'tapped') {
+      const pitch = group.pitch || 0;
+      const found = findTool('tap', finished, finished - 0.01, finished + 0.01);
+      const tool = toolFor('tap', finished, found, group.label);
+      const cycle = group.leftHand ? 'G74' : 'G84';
+      group.holes.forEach(hole => addTarget('tap', cycle, tool, group, hole, hole.through ? hole.depth + TAP_LEAD * pitch + BREAKTHROUGH : hole.depth, { pitch }));
+    }
+  });
+
+  // Stages in order, tools by diameter within a stage, each tool's operations together
+  const ordered = Array.from(operations.values()).sort((a, b) =>
+    STAGE_ORDER.indexOf(a.stage) - STAGE_ORDER.indexOf(b.stage) ||
+    a.tool.diameter - b.tool.diameter ||
+    (a.tool.id || a.tool.name).localeCompare(b.tool.id || b.tool.name) ||
+    a.cycle.localeCompare(b.cycle)
+  );
+
+  const tools: HoleTool[] = [];
+  let position = options.start || { x: 0, y: 0 };
+  let travel = 0;
+  ordered.forEach(operation => {
+    if (!operation.tool.number) {
+      tools.push(operation.tool);
+      operation.tool.number = tools.length;
+    }
+    operation.targets = orderHoles(
+      operation.targets.map(target => ({ ...target, x: target.hole.x, y: target.hole.y })),
+      position
+    ).map(({ hole, top, bottom }) => ({ hole, top, bottom }));
+    operation.targets.forEach(target => {
+      travel += Math.hypot(target.hole.x - position.x, target.hole.y - position.y);
+      position = target.hole;
+    });
+  });
+
+  return { operations: ordered, tools, z0, retract, clearance, travel, warnings };
+}
+
+/**
+ * Program for a drilling plan, with ISO cycles for Fanuc or Klartext cycles for Heidenhain
+ */
+export function generateDrillingProgram(plan: DrillingPlan, controllerType: 'fanuc' | 'heidenhain' = 'fanuc'): string {
+  return controllerType === 'heidenhain' ? klartextProgram(plan) : isoProgram(plan);
+}
+
+const operationTitle = (operation: DrillingOperation) =>
+  `T${operation.tool.number} ${operation.tool.name} - ${STAGE_NAMES[operation.stage]} ${operation.cycle}, ` +
+  `${operation.targets.length} holes (${operation.groups.join('; ')})`;
+
+function isoProgram(plan: DrillingPlan): string {
+  const holeCount = new Set(([] as string[]).concat(...plan.operations.map(op => op.targets.map(t => t.hole.id)))).size;
+  const lines: string[] = [
+    `; Hole making: ${holeCount} holes, ${plan.operations.length} operations, ${plan.tools.length} tools`,
+    `; Z0 at the entry of the highest hole (Z${format(plan.z0)} in the model)`
+  ];
+  plan.warnings.forEach(warning => lines.push(`; Warning: ${warning}`));
+  lines.push('G21 G90 G17 G80');
+
+  let loaded = 0;
+  plan.operations.forEach(operation => {
+    const { tool, targets } = operation;
+    lines.push('', `; ${operationTitle(operation)}`);
+    if (tool.number !== loaded) {
+      if (loaded) lines.push('M9', 'M5');
+      lines.push(`T${tool.number} M6`);
+      loaded = tool.number;
+    }
+    lines.push(`S${operation.spindleSpeed} ${operation.cycle === 'G74' ? 'M4' : 'M3'}`);
+    lines.push(`G0 X${format(targets[0].hole.x)} Y${format(targets[0].hole.y)}`);
+    lines.push(`G43 Z${format(plan.clearance)} H${tool.number}`, 'M8');
+
+    // Move between holes at the R plane when the entries are level, else return to the clearance height
+    const level = targets.every(target => Math.abs(target.top - targets[0].top) < 1e-6);
+    let cycleZ = NaN;
+    let cycleR = NaN;
+    targets.forEach((target, index) => {
+      const r = target.top + plan.retract;
+      let line = `X${format(target.hole.x)} Y${format(target.hole.y)}`;
+      if (index === 0 || Math.abs(target.bottom - cycleZ) > 1e-6) line += ` Z${format(target.bottom)}`;
+      if (index === 0 || Math.abs(r - cycleR) > 1e-6) line += ` R${format(r)}`;
+      if (index === 0) {
+        let words = `${level ? 'G99' : 'G98'} ${operation.cycle} ${line}`;
+        if (operation.peck) words += ` Q${format(operation.peck)}`;
+        if (operation.dwell) words += ` P${Math.round(operation.dwell * 1000)}`;
+        line = `${words} F${format(operation.feedrate)}`;
+      }
+      cycleZ = target.bottom;
+      cycleR = r;
+      lines.push(line);
+    });
+    lines.push('G80', `G0 Z${format(plan.clearance)}`);
+  });
+
+  lines.push('', 'M9', 'M5', 'G91 G28 Z0', 'G90', 'M30');
+  return `${lines.join('\n')}\n`;
+}
+
+function klartextProgram(plan: DrillingPlan): string {
+  const lines: string[] = ['BEGIN PGM HOLES MM'];
+  lines.push(`; Z0 at the entry of the highest hole (Z${format(plan.z0)} in the model)`);
+  plan.warnings.forEach(warning => lines.push(`; Warning: ${warning}`));
+
+  let loaded = 0;
+  plan.operations.forEach(operation => {
+    const { tool, targets } = operation;
+    lines.push(`; ${operationTitle(operation)}`);
+    if (tool.number !== loaded) {
+      lines.push(`TOOL CALL ${tool.number} Z S${operation.spindleSpeed}`);
+      loaded = tool.number;
+    } else {
+      lines.push(`TOOL CALL Z S${operation.spindleSpeed}`);
+    }
+    lines.push(`L Z${signed(plan.clearance)} R0 FMAX ${operation.cycle === 'G74' ? 'M4' : 'M3'}`, 'M8');
+
+    // Klartext cycles measure depth from the surface, so a new surface or depth needs a new definition
+    let surface = NaN;
+    let depth = NaN;
+    const define = (name: string, parameters: [string, string, string][]) => {
+      lines.push(`CYCL DEF ${name} ~`);
+      parameters.forEach(([q, value, comment], index) =>
+        lines.push(`  ${q}=${value} ;${comment}${index < parameters.length - 1 ? ' ~' : ''}`)
+      );
+    };
+    targets.forEach(target => {
+      const holeDepth = target.bottom - target.top;
+      if (!(Math.abs(target.top - surface) < 1e-6 && Math.abs(holeDepth - depth) < 1e-6)) {
+        surface = target.top;
+        depth = holeDepth;
+        const clearance: [string, string, string] = ['Q200', format(plan.retract), 'SET-UP CLEARANCE'];
+        const bottom: [string, string, string] = ['Q201', format(depth), 'DEPTH'];
+        const plunge: [string, string, string] = ['Q206', format(operation.feedrate), 'FEED RATE FOR PLNGNG'];
+        const top: [string, string, string] = ['Q203', signed(surface), 'SURFACE COORDINATE'];
+        const secondClearance: [string, string, string] = ['Q204', format(plan.clearance - surface), '2ND SET-UP CLEARANCE'];
+        switch (operation.cycle) {
+          case 'G81':
+          case 'G83':
+            if (operation.stage === 'spot') {
+              define('240 CENTERING', [clearance, ['Q343', '0', 'SELECT DIA./DEPTH'], bottom, plunge,
+                ['Q211', '0', 'DWELL TIME AT DEPTH'], top, secondClearance]);
+            } else {
+              define('200 DRILLING', [clearance, bottom, plunge, ['Q202', format(operation.peck || -depth), 'PLUNGING DEPTH'],
+                ['Q210', '0', 'DWELL TIME AT TOP'], top, secondClearance, ['Q211', '0', 'DWELL TIME AT DEPTH']]);
+            }
+            break;
+          case 'G82':
+            define('240 CENTERING', [clearance, ['Q343', '0', 'SELECT DIA./DEPTH'], bottom, plunge,
+              ['Q211', format(operation.dwell || 0), 'DWELL TIME AT DEPTH'], top, secondClearance]);
+            break;
+          case 'G84':
+          case 'G74': {
+            const pitch = operation.pitch || 0;
+            define('207 RIGID TAPPING NEW', [clearance, bottom, ['Q239', format(operation.cycle === 'G74' ? -pitch : pitch), 'THREAD PITCH'],
+              top, secondClearance]);
+            break;
+          }
+          case 'G85':
+            define('201 REAMING', [clearance, bottom, plunge, ['Q211', '0', 'DWELL TIME AT DEPTH'],
+              ['Q208', format(operation.feedrate), 'RETRACTION FEED RATE'], top, secondClearance]);
+            break;
+        }
+      }
+      lines.push(`L X${signed(target.hole.x)} Y${signed(target.hole.y)} R0 FMAX M99`);
+    });
+    lines.push(`L Z${signed(plan.clearance)} R0 FMAX M9`);
+  });
+
+  lines.push('M5', 'END PGM HOLES MM');
+  // Klartext blocks are numbered from 0; cycle parameters continue their block
+  let block = 0;
+  return `${lines.map(line => (line.startsWith('  ') ? line : `${block++} ${line}`)).join('\n')}\n`;
+}
@@ -1,5 +1,22 @@
 // Enhanced G-code parser with support for arcs (G2/G3) and fixed cycles
 import * as THREE from 'three';
+import { PathMove, compensateCutterRadius } from './cutterCompensation';
+import { MacroValue, runMacroProgram } from './macroInterpreter';
+
+/**
+ * The parser is an interpreter with the modal groups of a Fanuc-style
+ * control: motion and canned cycles, plane, distance mode (G90/G91), units
+ * (G20/G21), work offsets (G54-G59, G54.1 Pn), local coordinates (G52, G92),
+ * scaling (G51), rotation (G68), tool length (G43/G44) and cutter radius
+ * compensation (G41/G42). Macro B statements and subprogram calls are
+ * expanded by the macro interpreter, which passes the blocks here in the
+ * order they are executed.
+ *
+ * All output is in millimetres, in machine coordinates of the tool tip: the
+ * programmed position transformed by scaling and rotation, moved by the work
+ * and local offsets and corrected for the tool length. With the default
+ * options all offsets are zero, so a plain program comes out as written.
+ */
 
 export interface ToolpathPoint {
   x: number;
@@ -18,6 +35,8 @@ export interface ToolpathPoint {
   isFixedCycle?: boolean; // Flag for fixed cycle
   cycleType?: string; // Type of fixed cycle (G81, G83, etc.)
   loopCount?: number; // Number of repeats for a cycle
+  lineNumber?: number; // 1-based line of the G-code the point comes from
+  blockIndex?: number; // Index into ParsedGCode.blocks of the executed block
 }
 
 export interface ParsedGCode {
@@ -32,6 +51,19 @@ export interface ParsedGCode {
     minZ: number;
     maxZ: number;
   };
+  /** Blocks that could not be interpreted fully */
+  warnings: ParserWarning[];
+  /** Modal state at the end of the program */
+  modalState: ModalState;
+  /** NC blocks in execution order, after macro expansion */
+  blocks: ExecutedBlock[];
+}
+
+export interface ExecutedBlock {
+  /** Block text with variables substituted */
+  text: string;
+  /** Line in the file; for subprograms from outside the file, the line of the call */
+  lineNumber: number;
 }
 
 export interface ToolpathArc {
@@ -39,11 +71,14 @@ export interface ToolpathArc {
   endPoint: ToolpathPoint;
   center: THREE.Vector3;
   radius: number;
+  // Angles are measured in the plane as (X, Y), (X, Z) or (Y, Z), and
+  // clockwise refers to those angles
   startAngle: number;
   endAngle: number;
   clockwise: boolean;
   feedrate?: number;
   plane: 'XY' | 'XZ' | 'YZ';
+  lineNumber?: number;
 }
 
 export interface FixedCycle {
@@ -53,48 +88,122 @@ export interface FixedCycle {
   retractHeight: number;
   feedrate?: number;
   peckIncrement?: number; // For peck drilling cycles
-  dwellTime?: number; // For dwell cycles
+  dwellTime?: number; // For dwell cycles, in milliseconds
   points: ToolpathPoint[]; // All positions where the cycle executes
+  blockIndex?: number; // Index into ParsedGCode.blocks of the block that ran the cycle
 }
 
-// Parse G-code into toolpath points, including arcs and fixed cycles
-export const parseGCode = (gcode: string): ParsedGCode => {
+export interface ParserWarning {
+  lineNumber: number;
+  message: string;
+}
+
+export interface CoordinateOffset {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface ToolOffset {
+  /** Tool length (H register, and the length of the tool in the spindle) */
+  length?: number;
+  /** Cutter radius (D register) */
+  radius?: number;
+}
+
+export interface GCodeParserOptions {
+  /** Work offsets by code, 'G54' to 'G59' and 'G54.1 P1' onwards; missing ones are zero */
+  workOffsets?: Record<string, CoordinateOffset>;
+  /** Offset registers by number, used for H and D words and for the tool in the spindle */
+  toolOffsets?: Record<number, ToolOffset>;
+  /** Cutter radius for D words without a register in toolOffsets */
+  defaultToolRadius?: number;
+  /** Machine position of the reference point for G28/G30; without it only the intermediate point is visited */
+  referencePosition?: CoordinateOffset;
+  /** Programs called with M98 or G65 that are not in the file, by O number */
+  subprograms?: Record<number, string>;
+  /** Initial values of common macro variables (#100-#999) */
+  macroVariables?: Record<number, number>;
+}
+
+export type Plane = 'XY' | 'XZ' | 'YZ';
+
+export interface ModalState {
+  motion: 'G0' | 'G1' | 'G2' | 'G3';
+  /** Active canned cycle, or null after G80 */
+  cycle: string | null;
+  plane: Plane;
+  distance: 'G90' | 'G91';
+  units: 'G20' | 'G21';
+  /** Active work offset, e.g. 'G54' or 'G54.1 P3' */
+  workOffset: string;
+  toolLengthCompensation: 'G43' | 'G44' | 'G49';
+  lengthOffset: number;
+  cutterCompensation: 'G40' | 'G41' | 'G42';
+  cutterRadius: number;
+  retract: 'G98' | 'G99';
+  localOffset: CoordinateOffset;
+  rotation: { center: { x: number; y: number }; angle: number } | null;
+  scaling: { center: CoordinateOffset; factors: CoordinateOffset } | null;
+  /** Feedrate in mm/min */
+  feedrate: number;
+  tool: number;
+}
+
+interface Word {
+  letter: string;
+  value: number;
+  /** Written with a decimal point */
+  decimal: boolean;
+}
+
+const INCH = 25.4;
+const WORK_OFFSET_CODES = ['G54', 'G55', 'G56', 'G57', 'G58', 'G59'];
+const CYCLE_CODES = [73, 74, 76, 81, 82, 83, 84, 85, 86, 87, 88, 89];
+const PLANE_AXES: Record<Plane, ['x' | 'y' | 'z', 'x' | 'y' | 'z', 'x' | 'y' | 'z']> = {
+  XY: ['x', 'y', 'z'],
+  XZ: ['x', 'z', 'y'],
+  YZ: ['y', 'z', 'x']
+};
+const PLANE_OFFSET_LETTERS: Record<Plane, [string, string]> = {
+  XY: ['I', 'J'],
+  XZ: ['I', 'K'],
+  YZ: ['J', 'K']
+};
+
+// Split a block into address words, without comments
+const parseWords = (line: string): Word[] => {
+  const block = line.replace(/\([^)]*\)/g, ' ').replace(/;.*$/, '').toUpperCase();
+  const words: Word[] = [];
+  const pattern = /([A-Z])\s*([+-]?(?:\d+\.?\d*|\.\d+))/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(block)) !== null) {
+    words.push({ letter: match[1], value: parseFloat(match[2]), decimal: match[2].includes('.') });
+  }
+  return words;
+};
+
+/**
+ * Points, arcs and bounds of a toolpath from the moves of an interpreter,
+ * after cutter radius compensation
+ */
+export const toolpathFromMoves = (
+  moves: PathMove[],
+  warn: (lineNumber: number, message: string) => void
+): Pick<ParsedGCode, 'points' | 'arcs' | 'maxBounds'> => {
   const points: ToolpathPoint[] = [];
   const arcs: ToolpathArc[] = [];
-  const fixedCycles: FixedCycle[] = [];
-  
-  const lines = gcode.split('\n');
-  
-  // Current state
-  let currentX = 0;
-  let currentY = 0;
-  let currentZ = 0;
-  let currentF = 0;
-  
-  // Active plane selection (default: XY plane)
-  let activePlane: 'XY' | 'XZ' | 'YZ' = 'XY';
-  
-  // For fixed cycles
-  let fixedCycleActive = false;
-  let fixedCycleType = '';
-  let fixedCycleZ = 0;
-  let fixedCycleR = 0;
-  let fixedCycleQ = 0;
-  let fixedCycleP = 0;
-  
-  // Default retract mode
-  let retractMode = 'G98'; // Return to initial level
-  
+
   // Bounds tracking
   const maxBounds = {
     minX: Number.MAX_VALUE,
-    maxX: Number.MIN_VALUE,
+    maxX: -Number.MAX_VALUE,
     minY: Number.MAX_VALUE,
-    maxY: Number.MIN_VALUE,
+    maxY: -Number.MAX_VALUE,
     minZ: Number.MAX_VALUE,
-    maxZ: Number.MIN_VALUE
+    maxZ: -Number.MAX_VALUE
   };
-  
+
   // Update bounds function
   const updateBounds = (x: number, y: number, z: number) => {
     maxBounds.minX = Math.min(maxBounds.minX, x);
@@ -104,490 +213,619 @@ export const parseGCode = (gcode: string): ParsedGCode => {
     maxBounds.minZ = Math.min(maxBounds.minZ, z);
     maxBounds.maxZ = Math.max(maxBounds.maxZ, z);
   };
-  
-  // Helper function to create arc points for visualization
-  const createArcPoints = (
-    startX: number, startY: number, startZ: number,
-    endX: number, endY: number, endZ: number,
-    centerX: number, centerY: number,
-    clockwise: boolean,
-    feedrate: number
-  ): ToolpathArc => {
-    const startPoint = { x: startX, y: startY, z: startZ };
-    const endPoint = { x: endX, y: endY, z: endZ };
-    
-    // Calculate radius
-    const radius = Math.sqrt(
-      Math.pow(startX - centerX, 2) + Math.pow(startY - centerY, 2)
-    );
-    
-    // Calculate start and end angles
-    const startAngle = Math.atan2(startY - centerY, startX - centerX);
-    const endAngle = Math.atan2(endY - centerY, endX - centerX);
-    
-    // Return arc information
+
+  // Points and arcs for the tool path, after cutter compensation
+  compensateCutterRadius(moves, warn).forEach(move => {
+    const point: ToolpathPoint = {
+      x: move.end.x,
+      y: move.end.y,
+      z: move.end.z,
+      feedrate: move.feedrate,
+      type: move.code,
+      isRapid: move.rapid,
+      lineNumber: move.lineNumber,
+      blockIndex: move.block
+    };
+    if (move.cycleType) {
+      point.isFixedCycle = true;
+      point.cycleType = move.cycleType;
+    }
+
+    if (move.arc) {
+      const [a, b] = PLANE_AXES[move.arc.plane];
+      const center = move.arc.center;
+      point.isArc = true;
+      point.i = center.x - move.start.x;
+      point.j = center.y - move.start.y;
+      point.k = center.z - move.start.z;
+      arcs.push({
+        startPoint: { x: move.start.x, y: move.start.y, z: move.start.z },
+        endPoint: { x: move.end.x, y: move.end.y, z: move.end.z },
+        center: new THREE.Vector3(center.x, center.y, center.z),
+        radius: Math.hypot(move.start[a] - center[a], move.start[b] - center[b]),
+        startAngle: Math.atan2(move.start[b] - center[b], move.start[a] - center[a]),
+        endAngle: Math.atan2(move.end[b] - center[b], move.end[a] - center[a]),
+        clockwise: move.arc.clockwise,
+        feedrate: move.feedrate,
+        plane: move.arc.plane,
+        lineNumber: move.lineNumber
+      });
+    }
+
+    points.push(point);
+    updateBounds(point.x, point.y, point.z);
+  });
+
+  return { points, arcs, maxBounds };
+};
+
+// Parse G-code into toolpath points, including arcs and fixed cycles
+export const parseGCode = (gcode: string, options: GCodeParserOptions = {}): ParsedGCode => {
+  const fixedCycles: FixedCycle[] = [];
+  const warnings: ParserWarning[] = [];
+  const moves: PathMove[] = [];
+  const blocks: ExecutedBlock[] = [];
+
+  const workOffsets: Record<string, CoordinateOffset> = { ...(options.workOffsets || {}) };
+  const toolOffsets: Record<number, ToolOffset> = { ...(options.toolOffsets || {}) };
+
+  const state: ModalState = {
+    motion: 'G0',
+    cycle: null,
+    plane: 'XY',
+    distance: 'G90',
+    units: 'G21',
+    workOffset: 'G54',
+    toolLengthCompensation: 'G49',
+    lengthOffset: 0,
+    cutterCompensation: 'G40',
+    cutterRadius: 0,
+    retract: 'G98',
+    localOffset: { x: 0, y: 0, z: 0 },
+    rotation: null,
+    scaling: null,
+    feedrate: 0,
+    tool: 0
+  };
+  // G92 shift, kept apart from G52 so that either can be cancelled
+  let shift: CoordinateOffset = { x: 0, y: 0, z: 0 };
+  let pendingTool = 0;
+  let compensationStarting = false;
+
+  // Canned cycle data, modal until G80
+  let cycleDepth = 0;
+  let cycleRetract = 0;
+  let cyclePeck = 0;
+  let cycleDwell = 0;
+  let initialLevel = 0;
+
+  // Last programmed position in program coordinates
+  let position: CoordinateOffset = { x: 0, y: 0, z: 0 };
+
+  const warn = (lineNumber: number, message: string) => {
+    warnings.push({ lineNumber, message });
+  };
+
+  const workOffset = (): CoordinateOffset => workOffsets[state.workOffset] || { x: 0, y: 0, z: 0 };
+
+  // Z of the tip relative to where the control puts the programmed point
+  const toolZ = () => state.lengthOffset - (toolOffsets[state.tool]?.length || 0);
+
+  // Program coordinates to machine coordinates of the tool tip
+  const toMachine = (p: CoordinateOffset): CoordinateOffset => {
+    let { x, y, z } = p;
+    if (state.scaling) {
+      const { center, factors } = state.scaling;
+      x = center.x + (x - center.x) * factors.x;
+      y = center.y + (y - center.y) * factors.y;
+      z = center.z + (z - center.z) * factors.z;
+    }
+    if (state.rotation) {
+      const { center, angle } = state.rotation;
+      const cos = Math.cos(angle), sin = Math.sin(angle);
+      const dx = x - center.x, dy = y - center.y;
+      x = center.x + dx * cos - dy * sin;
+      y = center.y + dx * sin + dy * cos;
+    }
+    const work = workOffset();
     return {
-      startPoint,
-      endPoint,
-      center: new THREE.Vector3(centerX, centerY, startZ),
-      radius,
-      startAngle,
-      endAngle,
-      clockwise,
-      feedrate,
-      plane: activePlane
+      x: x + work.x + state.localOffset.x + shift.x,
+      y: y + work.y + state.localOffset.y + shift.y,
+      z: z + work.z + state.localOffset.z + shift.z + toolZ()
     };
   };
-  
-  // Process each line of G-code
-  lines.forEach(line => {
-    // Skip comments and empty lines
-    const trimmedLine = line.trim();
-    if (!trimmedLine || trimmedLine.startsWith(';') || trimmedLine.startsWith('(')) return;
-    
-    // Plane selection
-    if (trimmedLine.match(/G1[7-9]/)) {
-      if (trimmedLine.includes('G17')) activePlane = 'XY';
-      else if (trimmedLine.includes('G18')) activePlane = 'XZ';
-      else if (trimmedLine.includes('G19')) activePlane = 'YZ';
-    }
-    
-    // Fixed cycle commands
-    const fixedCycleMatch = trimmedLine.match(/G8[0-9]/);
-    if (fixedCycleMatch) {
-      const cycleCode = fixedCycleMatch[0];
-      
-      // Fixed cycle parameters
-      const zMatch = trimmedLine.match(/Z([+-]?\d*\.?\d+)/);
-      const rMatch = trimmedLine.match(/R([+-]?\d*\.?\d+)/);
-      const qMatch = trimmedLine.match(/Q([+-]?\d*\.?\d+)/);
-      const pMatch = trimmedLine.match(/P([+-]?\d*\.?\d+)/);
-      
-      // Process the key parameters
-      if (cycleCode === 'G80') {
-        // Cancel fixed cycle
-        fixedCycleActive = false;
-        fixedCycleType = '';
+
+  const toProgram = (m: CoordinateOffset): CoordinateOffset => {
+    const work = workOffset();
+    let x = m.x - work.x - state.localOffset.x - shift.x;
+    let y = m.y - work.y - state.localOffset.y - shift.y;
+    let z = m.z - work.z - state.localOffset.z - shift.z - toolZ();
+    if (state.rotation) {
+      const { center, angle } = state.rotation;
+      const cos = Math.cos(angle), sin = Math.sin(angle);
+      const dx = x - center.x, dy = y - center.y;
+      x = center.x + dx * cos + dy * sin;
+      y = center.y - dx * sin + dy * cos;
+    }
+    if (state.scaling) {
+      const { center, factors } = state.scaling;
+      x = center.x + (x - center.x) / factors.x;
+      y = center.y + (y - center.y) / factors.y;
+      z = center.z + (z - center.z) / factors.z;
+    }
+    return { x, y, z };
+  };
+
+  // Change the coordinate frame without moving the tool
+  const changeFrame = (change: () => void) => {
+    const machine = toMachine(position);
+    change();
+    position = toProgram(machine);
+  };
+
+  // Offset registers behind system variables: work offsets (#5221 for G54
+  // onwards, #7001 for G54.1 P1 onwards, 20 per offset) and tool offsets
+  // as in offset memory C (#11001 length, #13001 radius)
+  const offsetVariable = (variable: number): { workOffset: string; axis: 'x' | 'y' | 'z' } | { register: number; field: keyof ToolOffset } | null => {
+    const axes: ('x' | 'y' | 'z')[] = ['x', 'y', 'z'];
+    const axis = axes[(variable - 1) % 20];
+    if (variable >= 5221 && variable < 5341 && axis) {
+      return { workOffset: WORK_OFFSET_CODES[Math.floor((variable - 5221) / 20)], axis };
+    }
+    if (variable >= 7001 && variable < 7961 && axis) {
+      return { workOffset: `G54.1 P${Math.floor((variable - 7001) / 20) + 1}`, axis };
+    }
+    if (variable >= 11001 && variable < 11999) return { register: variable - 11000, field: 'length' };
+    if (variable >= 13001 && variable < 13999) return { register: variable - 13000, field: 'radius' };
+    return null;
+  };
+
+  // System variables in program units
+  const readSystemVariable = (variable: number): MacroValue | undefined => {
+    const unit = state.units === 'G20' ? INCH : 1;
+    const code = (value: string) => parseFloat(value.replace(/^G/, ''));
+    switch (variable) {
+      case 4001: return code(state.cycle || state.motion);
+      case 4002: return state.plane === 'XY' ? 17 : state.plane === 'XZ' ? 18 : 19;
+      case 4003: return code(state.distance);
+      case 4006: return code(state.units);
+      case 4007: return code(state.cutterCompensation);
+      case 4008: return code(state.toolLengthCompensation);
+      case 4010: return code(state.retract);
+      case 4011: return state.scaling ? 51 : 50;
+      case 4014: return code(state.workOffset.split(' ')[0]);
+      case 4016: return state.rotation ? 68 : 69;
+      case 4109: return state.feedrate / unit;
+      case 4120: return state.tool;
+      case 5001: return position.x / unit;
+      case 5002: return position.y / unit;
+      case 5003: return position.z / unit;
+    }
+    if (variable >= 5021 && variable <= 5023) {
+      const machine = toMachine(position);
+      const axis = (['x', 'y', 'z'] as const)[variable - 5021];
+      return (machine[axis] + (axis === 'z' ? toolOffsets[state.tool]?.length || 0 : 0)) / unit;
+    }
+    const target = offsetVariable(variable);
+    if (!target) return undefined;
+    if ('workOffset' in target) return (workOffsets[target.workOffset]?.[target.axis] || 0) / unit;
+    const value = toolOffsets[target.register]?.[target.field];
+    return value === undefined ? null : value / unit;
+  };
+
+  const writeSystemVariable = (variable: number, value: MacroValue): boolean => {
+    const unit = state.units === 'G20' ? INCH : 1;
+    const target = offsetVariable(variable);
+    if (!target) return false;
+    changeFrame(() => {
+      if ('workOffset' in target) {
+        workOffsets[target.workOffset] = { ...(workOffsets[target.workOffset] || { x: 0, y: 0, z: 0 }), [target.axis]: (value ?? 0) * unit };
       } else {
-        // Start a new fixed cycle
-        fixedCycleActive = true;
-        fixedCycleType = cycleCode;
-        
-        // Required parameters
-        if (zMatch) fixedCycleZ = parseFloat(zMatch[1]);
-        if (rMatch) fixedCycleR = parseFloat(rMatch[1]);
-        
-        // Optional parameters
-        if (qMatch) fixedCycleQ = parseFloat(qMatch[1]);
-        if (pMatch) fixedCycleP = parseFloat(pMatch[1]);
-        
-        // Check if X or Y is specified to execute the cycle immediately
-        const xMatch = trimmedLine.match(/X([+-]?\d*\.?\d+)/);
-        const yMatch = trimmedLine.match(/Y([+-]?\d*\.?\d+)/);
-        
-        if (xMatch) currentX = parseFloat(xMatch[1]);
-        if (yMatch) currentY = parseFloat(yMatch[1]);
-        
-        // Initial position for the cycle
-        if (xMatch || yMatch) {
-          // Create a fixed cycle record
-          const newCycle: FixedCycle = {
-            type: fixedCycleType,
-            startPoint: { x: currentX, y: currentY, z: currentZ },
-            depth: fixedCycleZ,
-            retractHeight: fixedCycleR,
-            feedrate: currentF,
-            points: [{ x: currentX, y: currentY, z: currentZ }]
-          };
-          
-          if (fixedCycleQ) newCycle.peckIncrement = fixedCycleQ;
-          if (fixedCycleP) newCycle.dwellTime = fixedCycleP;
-          
-          fixedCycles.push(newCycle);
-          
-          // Add points to the toolpath for visualization
-          
-          // Initial position (rapid to XY)
-          points.push({
-            x: currentX,
-            y: currentY, 
-            z: currentZ,
-            type: 'G0',
-            isRapid: true,
-            isFixedCycle: true,
-            cycleType: fixedCycleType
-          });
-          
-          // Rapid to R level
-          points.push({
-            x: currentX,
-            y: currentY,
-            z: fixedCycleR,
-            type: 'G0',
-            isRapid: true,
-            isFixedCycle: true,
-            cycleType: fixedCycleType
-          });
-          
-          // Visualization for different cycle types
-          switch (fixedCycleType) {
-            case 'G81': // Simple drilling
-              // Drill to depth
-              points.push({
-                x: currentX,
-                y: currentY,
-                z: fixedCycleZ,
-                feedrate: currentF,
-                type: 'G1',
-                isRapid: false,
-                isFixedCycle: true,
-                cycleType: fixedCycleType
-              });
-              
-              // Retract rapidly
-              points.push({
-                x: currentX,
-                y: currentY,
-                z: fixedCycleR,
-                type: 'G0',
-                isRapid: true,
-                isFixedCycle: true,
-                cycleType: fixedCycleType
-              });
-              break;
-              
-            case 'G83': // Peck drilling
-              if (fixedCycleQ) {
-                let currentDepth = fixedCycleR;
-                
-                // Generate peck drilling motion
-                while (currentDepth > fixedCycleZ) {
-                  // Calculate next peck depth
-                  currentDepth = Math.max(fixedCycleZ, currentDepth - fixedCycleQ);
-                  
-                  // Drill to current depth
-                  points.push({
-                    x: currentX,
-                    y: currentY,
-                    z: currentDepth,
-                    feedrate: currentF,
-                    type: 'G1',
-                    isRapid: false,
-                    isFixedCycle: true,
-                    cycleType: fixedCycleType
-                  });
-                  
-                  // Retract to R level after each peck
-                  points.push({
-                    x: currentX,
-                    y: currentY,
-                    z: fixedCycleR,
-                    type: 'G0',
-                    isRapid: true,
-                    isFixedCycle: true,
-                    cycleType: fixedCycleType
-                  });
-                }
-              }
-              break;
-              
-            case 'G84': // Tapping
-              // Downward motion to depth
-              points.push({
-                x: currentX,
-                y: currentY,
-                z: fixedCycleZ,
-                feedrate: currentF,
-                type: 'G1',
-                isRapid: false,
-                isFixedCycle: true,
-                cycleType: fixedCycleType
-              });
-              
-              // Upward motion at same feedrate (for tapping)
-              points.push({
-                x: currentX,
-                y: currentY,
-                z: fixedCycleR,
-                feedrate: currentF,
-                type: 'G1',
-                isRapid: false,
-                isFixedCycle: true,
-                cycleType: fixedCycleType
-              });
-              break;
-              
-            default:
-              // Generic visualization for other cycles
-              points.push({
-                x: currentX,
-                y: currentY,
-                z: fixedCycleZ,
-                feedrate: currentF,
-                type: 'G1',
-                isRapid: false,
-                isFixedCycle: true,
-                cycleType: fixedCycleType
-              });
-              
-              points.push({
-                x: currentX,
-                y: currentY,
-                z: fixedCycleR,
-                type: 'G0',
-                isRapid: true,
-                isFixedCycle: true,
-                cycleType: fixedCycleType
-              });
-          }
-          
-          // Update bounds
-          updateBounds(currentX, currentY, currentZ);
-          updateBounds(currentX, currentY, fixedCycleZ);
+        toolOffsets[target.register] = { ...(toolOffsets[target.register] || {}), [target.field]: value === null ? undefined : value * unit };
+      }
+    });
+    return true;
+  };
+
+  const addMove = (move: Omit<PathMove, 'feedrate' | 'offset'>) => {
+    const compensating = state.cutterCompensation !== 'G40' && !move.rapid && !move.cycleType;
+    moves.push({
+      feedrate: state.feedrate,
+      block: blocks.length - 1,
+      ...move,
+      offset: compensating ? (state.cutterCompensation === 'G41' ? 1 : -1) * state.cutterRadius : undefined,
+      startsCompensation: compensating && compensationStarting
+    });
+    if (compensating) compensationStarting = false;
+  };
+
+  const moveTo = (target: CoordinateOffset, rapid: boolean, lineNumber: number, cycleType?: string) => {
+    const start = toMachine(position);
+    const end = toMachine(target);
+    position = target;
+    addMove({ start, end, rapid, lineNumber, code: rapid ? 'G0' : 'G1', cycleType });
+  };
+
+  // Circular move in the active plane, from the center offsets or the radius
+  const arcTo = (target: CoordinateOffset, clockwiseCode: boolean, words: Map<string, Word>, unit: number, lineNumber: number) => {
+    const [a, b] = PLANE_AXES[state.plane];
+    const [offsetA, offsetB] = PLANE_OFFSET_LETTERS[state.plane];
+    // G2 is clockwise seen from the positive normal; in (X, Z) angles that is the other way round
+    let clockwise = state.plane === 'XZ' ? !clockwiseCode : clockwiseCode;
+
+    let centerA: number;
+    let centerB: number;
+    if (words.has(offsetA) || words.has(offsetB)) {
+      centerA = position[a] + (words.get(offsetA)?.value || 0) * unit;
+      centerB = position[b] + (words.get(offsetB)?.value || 0) * unit;
+    } else if (words.has('R')) {
+      const r = words.get('R')!.value * unit;
+      const da = target[a] - position[a];
+      const db = target[b] - position[b];
+      const chord = Math.hypot(da, db);
+      if (chord < 1e-9) {
+        warn(lineNumber, 'Full circles cannot be programmed with R; move ignored');
+        return;
+      }
+      let h2 = r * r - (chord / 2) * (chord / 2);
+      if (h2 < 0) {
+        warn(lineNumber, `Arc radius ${Math.abs(r).toFixed(3)} is too small for the end point; using a half circle`);
+        h2 = 0;
+      }
+      // Minor arcs (positive R) have the centre on the inside of the turn
+      const side = (clockwise ? -1 : 1) * (r >= 0 ? 1 : -1);
+      const h = Math.sqrt(h2);
+      centerA = (position[a] + target[a]) / 2 - (side * h * db) / chord;
+      centerB = (position[b] + target[b]) / 2 + (side * h * da) / chord;
+    } else {
+      warn(lineNumber, 'Arc without I/J/K or R; treated as a straight move');
+      moveTo(target, false, lineNumber);
+      return;
+    }
+
+    const centerProgram = { ...position };
+    centerProgram[a] = centerA;
+    centerProgram[b] = centerB;
+
+    if (state.scaling) {
+      const factors = state.scaling.factors;
+      if (Math.abs(Math.abs(factors[a]) - Math.abs(factors[b])) > 1e-9) {
+        warn(lineNumber, 'Arcs cannot be scaled differently along the two axes of the plane; the arc is approximate');
+      }
+      if (factors[a] * factors[b] < 0) clockwise = !clockwise;
+    }
+    if (state.rotation && state.plane !== 'XY') {
+      warn(lineNumber, 'Rotation (G68) applies to the XY plane; arcs in other planes are not rotated correctly');
+    }
+
+    const start = toMachine(position);
+    const end = toMachine(target);
+    const center = toMachine(centerProgram);
+    position = target;
+    addMove({
+      start,
+      end,
+      rapid: false,
+      lineNumber,
+      code: clockwiseCode ? 'G2' : 'G3',
+      arc: { center, clockwise, plane: state.plane }
+    });
+  };
+
+  // One execution of the active canned cycle at an XY position
+  const runCycle = (x: number, y: number, lineNumber: number) => {
+    const type = state.cycle!;
+    const rLevel = cycleRetract;
+    const bottom = cycleDepth;
+    const clearance = state.retract === 'G98' ? initialLevel : rLevel;
+    const startPoint = toMachine({ x, y, z: position.z });
+
+    fixedCycles.push({
+      type,
+      startPoint: { ...startPoint },
+      depth: toMachine({ x, y, z: bottom }).z,
+      retractHeight: toMachine({ x, y, z: rLevel }).z,
+      feedrate: state.feedrate,
+      peckIncrement: cyclePeck || undefined,
+      dwellTime: cycleDwell || undefined,
+      points: [{ ...startPoint }],
+      blockIndex: blocks.length - 1
+    });
+
+    moveTo({ x, y, z: position.z }, true, lineNumber, type);
+    moveTo({ x, y, z: rLevel }, true, lineNumber, type);
+
+    if ((type === 'G83' || type === 'G73') && cyclePeck > 0) {
+      let depth = rLevel;
+      while (depth > bottom + 1e-9) {
+        depth = Math.max(bottom, depth - cyclePeck);
+        moveTo({ x, y, z: depth }, false, lineNumber, type);
+        if (depth > bottom + 1e-9) {
+          // Full retract for G83, a short chip-breaking one for G73
+          const back = type === 'G83' ? rLevel : Math.min(rLevel, depth + Math.min(cyclePeck, 1));
+          moveTo({ x, y, z: back }, true, lineNumber, type);
+          moveTo({ x, y, z: depth }, true, lineNumber, type);
         }
       }
-      return; // Continue to next line
-    }
-    
-    // Handle situation where a fixed cycle is active and we're just getting XY coordinates
-    if (fixedCycleActive) {
-      const xMatch = trimmedLine.match(/X([+-]?\d*\.?\d+)/);
-      const yMatch = trimmedLine.match(/Y([+-]?\d*\.?\d+)/);
-      
-      if (xMatch || yMatch) {
-        // Update current position
-        if (xMatch) currentX = parseFloat(xMatch[1]);
-        if (yMatch) currentY = parseFloat(yMatch[1]);
-        
-        // Create a new fixed cycle at this position
-        const newCycle: FixedCycle = {
-          type: fixedCycleType,
-          startPoint: { x: currentX, y: currentY, z: currentZ },
-          depth: fixedCycleZ,
-          retractHeight: fixedCycleR,
-          feedrate: currentF,
-          points: [{ x: currentX, y: currentY, z: currentZ }]
+    } else {
+      moveTo({ x, y, z: bottom }, false, lineNumber, type);
+    }
+
+    // Tapping and boring cycles feed out, the others retract at rapid
+    const feedOut = type === 'G84' || type === 'G74' || type === 'G85' || type === 'G89';
+    if (feedOut && clearance !== rLevel) {
+      moveTo({ x, y, z: rLevel }, false, lineNumber, type);
+      moveTo({ x, y, z: clearance }, true, lineNumber, type);
+    } else {
+      moveTo({ x, y, z: clearance }, !feedOut, lineNumber, type);
+    }
+  };
+
+  const executeBlock = (line: string, lineNumber: number) => {
+    const trimmedLine = line.trim();
+    if (!trimmedLine || trimmedLine.startsWith('%')) return;
+    blocks.push({ text: trimmedLine, lineNumber });
+
+    const wordList = parseWords(trimmedLine);
+    if (wordList.length === 0) return;
+
+    const gCodes = wordList.filter(word => word.letter === 'G').map(word => word.value);
+    const mCodes = wordList.filter(word => word.letter === 'M').map(word => word.value);
+    const words = new Map<string, Word>();
+    wordList.forEach(word => {
+      if (word.letter !== 'G' && word.letter !== 'M') words.set(word.letter, word);
+    });
+    const has = (code: number) => gCodes.indexOf(code) >= 0;
+
+    // Units first, they apply to the rest of the block
+    if (has(20)) state.units = 'G20';
+    if (has(21)) state.units = 'G21';
+    const unit = state.units === 'G20' ? INCH : 1;
+    const length = (letter: string) => (words.has(letter) ? words.get(letter)!.value * unit : undefined);
+
+    if (words.has('F')) state.feedrate = words.get('F')!.value * unit;
+    if (words.has('T')) pendingTool = words.get('T')!.value;
+    if (mCodes.indexOf(6) >= 0) {
+      changeFrame(() => { state.tool = pendingTool; });
+    }
+
+    if (has(17)) state.plane = 'XY';
+    if (has(18)) state.plane = 'XZ';
+    if (has(19)) state.plane = 'YZ';
+    if (has(90)) state.distance = 'G90';
+    if (has(91)) state.distance = 'G91';
+    if (has(98)) state.retract = 'G98';
+    if (has(99)) state.retract = 'G99';
+    const incremental = state.distance === 'G91';
+
+    // Work offsets
+    WORK_OFFSET_CODES.forEach((code, n) => {
+      if (has(54 + n)) changeFrame(() => { state.workOffset = code; });
+    });
+    if (has(54.1)) {
+      const register = words.has('P') ? words.get('P')!.value : 1;
+      changeFrame(() => { state.workOffset = `G54.1 P${register}`; });
+    }
+
+    // Offset data setting
+    if (has(10)) {
+      const mode = words.get('L')?.value;
+      const register = words.get('P')?.value || 0;
+      const setOffset = (key: string) => {
+        const current = workOffsets[key] || { x: 0, y: 0, z: 0 };
+        const value = (axis: 'x' | 'y' | 'z') => {
+          const given = length(axis.toUpperCase());
+          if (given === undefined) return current[axis];
+          return incremental ? current[axis] + given : given;
         };
-        
-        if (fixedCycleQ) newCycle.peckIncrement = fixedCycleQ;
-        if (fixedCycleP) newCycle.dwellTime = fixedCycleP;
-        
-        fixedCycles.push(newCycle);
-        
-        // Add points to the toolpath for visualization (similar to above)
-        points.push({
-          x: currentX,
-          y: currentY, 
-          z: currentZ,
-          type: 'G0',
-          isRapid: true,
-          isFixedCycle: true,
-          cycleType: fixedCycleType
-        });
-        
-        points.push({
-          x: currentX,
-          y: currentY,
-          z: fixedCycleR,
-          type: 'G0',
-          isRapid: true,
-          isFixedCycle: true,
-          cycleType: fixedCycleType
-        });
-        
-        points.push({
-          x: currentX,
-          y: currentY,
-          z: fixedCycleZ,
-          feedrate: currentF,
-          type: 'G1',
-          isRapid: false,
-          isFixedCycle: true,
-          cycleType: fixedCycleType
-        });
-        
-        points.push({
-          x: currentX,
-          y: currentY,
-          z: fixedCycleR,
-          type: 'G0',
-          isRapid: true,
-          isFixedCycle: true,
-          cycleType: fixedCycleType
-        });
-        
-        // Update bounds
-        updateBounds(currentX, currentY, currentZ);
-        updateBounds(currentX, currentY, fixedCycleZ);
-        
-        return; // Continue to next line
+        changeFrame(() => { workOffsets[key] = { x: value('x'), y: value('y'), z: value('z') }; });
+      };
+      if (mode === 2 && register >= 1 && register <= 6) {
+        setOffset(WORK_OFFSET_CODES[register - 1]);
+      } else if (mode === 20 && register >= 1) {
+        setOffset(`G54.1 P${register}`);
+      } else if ((mode === 10 || mode === 12) && words.has('R')) {
+        const field = mode === 10 ? 'length' : 'radius';
+        const entry = { ...(toolOffsets[register] || {}) };
+        const value = length('R')!;
+        entry[field] = incremental ? (entry[field] || 0) + value : value;
+        changeFrame(() => { toolOffsets[register] = entry; });
+      } else {
+        warn(lineNumber, 'Unsupported G10 data setting; ignored');
       }
+      return;
     }
-    
-    // Extract command type for linear moves
-    const isG0 = trimmedLine.includes('G0') || trimmedLine.includes('G00');
-    const isG1 = trimmedLine.includes('G1') || trimmedLine.includes('G01');
-    
-    // Extract arc moves
-    const isG2 = trimmedLine.includes('G2') || trimmedLine.includes('G02'); // Clockwise
-    const isG3 = trimmedLine.includes('G3') || trimmedLine.includes('G03'); // Counter-clockwise
-    
-    // Extract coordinates for all types of moves
-    const xMatch = trimmedLine.match(/X([+-]?\d*\.?\d+)/);
-    const yMatch = trimmedLine.match(/Y([+-]?\d*\.?\d+)/);
-    const zMatch = trimmedLine.match(/Z([+-]?\d*\.?\d+)/);
-    const fMatch = trimmedLine.match(/F([+-]?\d*\.?\d+)/);
-    
-    // Update feedrate if specified
-    if (fMatch) currentF = parseFloat(fMatch[1]);
-    
-    // Handle linear moves (G0, G1)
-    if (isG0 || isG1) {
-      // Update coordinates if specified
-      const newX = xMatch ? parseFloat(xMatch[1]) : currentX;
-      const newY = yMatch ? parseFloat(yMatch[1]) : currentY;
-      const newZ = zMatch ? parseFloat(zMatch[1]) : currentZ;
-      
-      // Add point to toolpath
-      points.push({
-        x: newX,
-        y: newY,
-        z: newZ,
-        feedrate: currentF,
-        type: isG0 ? 'G0' : 'G1',
-        isRapid: isG0
+
+    // Tool length compensation
+    if (has(43) || has(44)) {
+      const register = words.has('H') ? words.get('H')!.value : state.tool;
+      const offset = toolOffsets[register]?.length || 0;
+      changeFrame(() => {
+        state.toolLengthCompensation = has(43) ? 'G43' : 'G44';
+        state.lengthOffset = has(43) ? offset : -offset;
       });
-      
-      // Update current position
-      currentX = newX;
-      currentY = newY;
-      currentZ = newZ;
-      
-      // Update bounds
-      updateBounds(currentX, currentY, currentZ);
-    }
-    
-    // Handle arc moves (G2, G3)
-    else if (isG2 || isG3) {
-      // Arc center offsets or radius
-      const iMatch = trimmedLine.match(/I([+-]?\d*\.?\d+)/);
-      const jMatch = trimmedLine.match(/J([+-]?\d*\.?\d+)/);
-      const kMatch = trimmedLine.match(/K([+-]?\d*\.?\d+)/);
-      const rMatch = trimmedLine.match(/R([+-]?\d*\.?\d+)/);
-      
-      // End position
-      const newX = xMatch ? parseFloat(xMatch[1]) : currentX;
-      const newY = yMatch ? parseFloat(yMatch[1]) : currentY;
-      const newZ = zMatch ? parseFloat(zMatch[1]) : currentZ;
-      
-      // Center-format arcs
-      if ((iMatch || jMatch || kMatch)) {
-        const i = iMatch ? parseFloat(iMatch[1]) : 0;
-        const j = jMatch ? parseFloat(jMatch[1]) : 0;
-        const k = kMatch ? parseFloat(kMatch[1]) : 0;
-        
-        // Calculate center point based on active plane
-        let centerX = 0, centerY = 0, centerZ = 0;
-        
-        if (activePlane === 'XY') {
-          centerX = currentX + i;
-          centerY = currentY + j;
-          centerZ = currentZ;
-        } else if (activePlane === 'XZ') {
-          centerX = currentX + i;
-          centerY = currentY;
-          centerZ = currentZ + k;
-        } else if (activePlane === 'YZ') {
-          centerX = currentX;
-          centerY = currentY + j;
-          centerZ = currentZ + k;
-        }
-        
-        // Create arc object
-        const arc = createArcPoints(
-          currentX, currentY, currentZ,
-          newX, newY, newZ,
-          centerX, centerY,
-          isG2, // clockwise if G2
-          currentF
-        );
-        
-        arcs.push(arc);
-        
-        // Add arc point to toolpath for linking
-        points.push({
-          x: newX,
-          y: newY,
-          z: newZ,
-          feedrate: currentF,
-          type: isG2 ? 'G2' : 'G3',
-          isRapid: false,
-          isArc: true,
-          i, j, k
-        });
+    }
+    if (has(49)) {
+      changeFrame(() => {
+        state.toolLengthCompensation = 'G49';
+        state.lengthOffset = 0;
+      });
+    }
+
+    // Cutter radius compensation, applied after the whole program is read
+    if (has(40)) state.cutterCompensation = 'G40';
+    if (has(41) || has(42)) {
+      const register = words.has('D') ? words.get('D')!.value : state.tool;
+      const radius = toolOffsets[register]?.radius;
+      if (radius === undefined && options.defaultToolRadius === undefined) {
+        warn(lineNumber, `No radius for offset D${register}; compensation has no effect`);
+      }
+      state.cutterCompensation = has(41) ? 'G41' : 'G42';
+      state.cutterRadius = radius ?? options.defaultToolRadius ?? 0;
+      compensationStarting = true;
+    }
+
+    // Scaling
+    if (has(50)) changeFrame(() => { state.scaling = null; });
+    if (has(51)) {
+      const factor = (word: Word | undefined, fallback: number) =>
+        word ? (word.decimal ? word.value : word.value / 1000) : fallback;
+      const uniform = factor(words.get('P'), 1);
+      const factors = {
+        x: factor(words.get('I'), uniform),
+        y: factor(words.get('J'), uniform),
+        z: factor(words.get('K'), uniform)
+      };
+      if (factors.x === 0 || factors.y === 0 || factors.z === 0) {
+        warn(lineNumber, 'Scaling factor of zero; ignored');
+      } else {
+        const center = {
+          x: length('X') ?? position.x,
+          y: length('Y') ?? position.y,
+          z: length('Z') ?? position.z
+        };
+        changeFrame(() => { state.scaling = { center, factors }; });
+      }
+      return;
+    }
+
+    // Coordinate rotation in the XY plane
+    if (has(69)) changeFrame(() => { state.rotation = null; });
+    if (has(68)) {
+      const center = { x: length('X') ?? position.x, y: length('Y') ?? position.y };
+      const angle = ((words.get('R')?.value || 0) * Math.PI) / 180;
+      changeFrame(() => { state.rotation = { center, angle }; });
+      return;
+    }
+
+    // Local coordinate system
+    if (has(52)) {
+      changeFrame(() => {
+        state.localOffset = { x: length('X') ?? 0, y: length('Y') ?? 0, z: length('Z') ?? 0 };
+      });
+      return;
+    }
+    if (has(92.1)) {
+      changeFrame(() => { shift = { x: 0, y: 0, z: 0 }; });
+      return;
+    }
+    if (has(92)) {
+      // The current position gets the given program coordinates
+      const machine = toMachine(position);
+      const target = { x: length('X') ?? position.x, y: length('Y') ?? position.y, z: length('Z') ?? position.z };
+      shift = { x: 0, y: 0, z: 0 };
+      const unshifted = toMachine(target);
+      shift = { x: machine.x - unshifted.x, y: machine.y - unshifted.y, z: machine.z - unshifted.z };
+      position = target;
+      return;
+    }
+
+    // Dwell: X and P are times, not coordinates
+    if (has(4)) return;
+
+    // Axis words of the block, resolved against the distance mode
+    const target = (): CoordinateOffset => {
+      const axis = (letter: string, current: number) => {
+        const value = length(letter);
+        if (value === undefined) return current;
+        return incremental ? current + value : value;
+      };
+      return { x: axis('X', position.x), y: axis('Y', position.y), z: axis('Z', position.z) };
+    };
+    const hasAxes = words.has('X') || words.has('Y') || words.has('Z');
+
+    // Return to reference position through an intermediate point
+    if (has(28) || has(30)) {
+      if (hasAxes) moveTo(target(), true, lineNumber);
+      if (options.referencePosition) {
+        const reference = options.referencePosition;
+        const machine = toMachine(position);
+        const tipLength = toolOffsets[state.tool]?.length || 0;
+        const home = {
+          x: words.has('X') ? reference.x : machine.x,
+          y: words.has('Y') ? reference.y : machine.y,
+          z: words.has('Z') ? reference.z - tipLength : machine.z
+        };
+        const start = machine;
+        position = toProgram(home);
+        addMove({ start, end: home, rapid: true, lineNumber, code: 'G0' });
       }
-      // Radius-format arcs
-      else if (rMatch) {
-        const r = parseFloat(rMatch[1]);
-        
-        // Calculate arc center (simplified - this is an approximation)
-        // For proper implementation, solve the quadratic equation for center point
-        const dx = newX - currentX;
-        const dy = newY - currentY;
-        const dist = Math.sqrt(dx * dx + dy * dy);
-        
-        // Midpoint of the chord
-        const midX = (currentX + newX) / 2;
-        const midY = (currentY + newY) / 2;
-        
-        // Distance from midpoint to center
-        const h = Math.sqrt(r * r - (dist / 2) * (dist / 2));
-        
-        // Center point (perpendicular to chord)
-        // Sign depends on arc direction and whether R is positive or negative
-        const sign = (isG2 ? -1 : 1) * (r > 0 ? 1 : -1);
-        const centerX = midX + sign * h * (dy / dist);
-        const centerY = midY - sign * h * (dx / dist);
-        
-        // Create arc object
-        const arc = createArcPoints(
-          currentX, currentY, currentZ,
-          newX, newY, newZ,
-          centerX, centerY,
-          isG2, // clockwise if G2
-          currentF
-        );
-        
-        arcs.push(arc);
-        
-        // Add arc point to toolpath for linking
-        points.push({
-          x: newX,
-          y: newY,
-          z: newZ,
-          feedrate: currentF,
-          type: isG2 ? 'G2' : 'G3',
-          isRapid: false,
-          isArc: true,
-          r
-        });
+      return;
+    }
+
+    // Move in machine coordinates for this block only
+    if (has(53)) {
+      const machine = toMachine(position);
+      const tipLength = toolOffsets[state.tool]?.length || 0;
+      const end = {
+        x: length('X') ?? machine.x,
+        y: length('Y') ?? machine.y,
+        z: words.has('Z') ? length('Z')! - tipLength : machine.z
+      };
+      position = toProgram(end);
+      addMove({ start: machine, end, rapid: !has(1), lineNumber, code: has(1) ? 'G1' : 'G0' });
+      return;
+    }
+
+    // Motion and canned cycle groups
+    const motionCodes = gCodes.filter(code => code === 0 || code === 1 || code === 2 || code === 3);
+    if (motionCodes.length > 0) {
+      state.motion = `G${motionCodes[motionCodes.length - 1]}` as ModalState['motion'];
+      state.cycle = null;
+    }
+    if (has(80)) state.cycle = null;
+    const cycleCode = gCodes.find(code => CYCLE_CODES.indexOf(code) >= 0);
+    if (cycleCode !== undefined) {
+      if (!state.cycle) initialLevel = position.z;
+      state.cycle = `G${cycleCode}`;
+    }
+
+    if (state.cycle) {
+      // Cycle data is modal; in G91, R is from the initial level and Z from R
+      if (words.has('R')) cycleRetract = incremental ? initialLevel + length('R')! : length('R')!;
+      if (words.has('Z')) cycleDepth = incremental ? cycleRetract + length('Z')! : length('Z')!;
+      if (words.has('Q')) cyclePeck = Math.abs(length('Q')!);
+      if (words.has('P')) cycleDwell = words.get('P')!.value;
+      // Holes are drilled at blocks with a position
+      if (!(words.has('X') || words.has('Y'))) return;
+
+      const repeats = Math.max(1, Math.round(words.get('L')?.value ?? words.get('K')?.value ?? 1));
+      for (let n = 0; n < repeats; n++) {
+        const x = words.has('X') ? (incremental ? position.x + length('X')! : length('X')!) : position.x;
+        const y = words.has('Y') ? (incremental ? position.y + length('Y')! : length('Y')!) : position.y;
+        runCycle(x, y, lineNumber);
       }
-      
-      // Update current position
-      currentX = newX;
-      currentY = newY;
-      currentZ = newZ;
-      
-      // Update bounds
-      updateBounds(currentX, currentY, currentZ);
+      return;
+    }
+
+    if (!hasAxes) return;
+    const end = target();
+    if (state.motion === 'G0' || state.motion === 'G1') {
+      moveTo(end, state.motion === 'G0', lineNumber);
+    } else {
+      arcTo(end, state.motion === 'G2', words, unit, lineNumber);
     }
+  };
+
+  runMacroProgram(gcode, {
+    subprograms: options.subprograms,
+    variables: options.macroVariables,
+    onBlock: executeBlock,
+    warn,
+    readSystemVariable: variable => readSystemVariable(variable),
+    writeSystemVariable: (variable, value) => writeSystemVariable(variable, value)
   });
-  
+
+  const { points, arcs, maxBounds } = toolpathFromMoves(moves, warn);
+
   // Create result object
   return {
     points,
     arcs,
     fixedCycles,
-    maxBounds
+    maxBounds,
+    warnings,
+    modalState: state,
+    blocks
   };
 };
@@ -0,0 +1,322 @@
+// Hole features found in the CAD elements, grouped for drilling
+import { Element } from 'src/store/elementsStore';
+import { tessellateElement } from 'src/lib/importExport/tessellation';
+import { calculateBoundingBox } from './elementMeasurements';
+
+/**
+ * Hole recognition for drilling.
+ *
+ * Holes are read from three kinds of elements:
+ * - circles, which mark a hole of a given depth at their centre;
+ * - vertical cylinders subtracted from a body (`boolean-subtract`, where the
+ *   first operand is the body and the others are cut from it); the hole runs
+ *   from the top of the body down to the bottom of the cylinder, and is a
+ *   through hole when the cylinder reaches the bottom of the body;
+ * - screws, bolts and threads. Screws and threads need a tapped hole, bolts a
+ *   clearance hole for a nut on the other side. A screw or bolt stands on its
+ *   position with the shank going down along Z; a thread is centred on its
+ *   position like a cylinder.
+ *
+ * Children of components and groups are placed relative to their parent.
+ * Holes are vertical and open upwards; anything else is reported in the
+ * warnings and left out.
+ */
+
+export type HoleKind = 'plain' | 'clearance' | 'tapped';
+
+export type HoleSource = 'circle' | 'cylinder' | 'screw' | 'bolt' | 'thread';
+
+export interface HoleFeature {
+  id: string;
+  /** Element the hole was found in */
+  elementId: string;
+  source: HoleSource;
+  x: number;
+  y: number;
+  /** Z of the hole entry */
+  z: number;
+  /** Finished diameter; the nominal thread diameter for tapped holes */
+  diameter: number;
+  /** Depth of the full diameter below the entry */
+  depth: number;
+  through: boolean;
+  kind: HoleKind;
+  /** Thread pitch of tapped holes */
+  pitch?: number;
+  leftHand?: boolean;
+  /** Thread designation of tapped and clearance holes, e.g. "M8x1.25" */
+  thread?: string;
+}
+
+export interface HoleGroup {
+  key: string;
+  /** Description of the group, e.g. "M8x1.25 tapped, 16 deep" */
+  label: string;
+  kind: HoleKind;
+  diameter: number;
+  depth: number;
+  through: boolean;
+  pitch?: number;
+  leftHand?: boolean;
+  thread?: string;
+  holes: HoleFeature[];
+}
+
+export interface HoleRecognitionOptions {
+  /** Depth of the holes marked by circles */
+  circleDepth?: number;
+  /** Whether holes marked by circles go through the part */
+  circlesThrough?: boolean;
+  /** Holes closer than this in XY, with the same diameter, are the same hole */
+  tolerance?: number;
+}
+
+export interface HoleRecognitionResult {
+  holes: HoleFeature[];
+  groups: HoleGroup[];
+  warnings: string[];
+}
+
+// ISO 261 coarse pitches by nominal diameter
+const COARSE_PITCH: Record<string, number> = {
+  '1.6': 0.35, '2': 0.4, '2.5': 0.45, '3': 0.5, '4': 0.7, '5': 0.8, '6': 1, '8': 1.25,
+  '10': 1.5, '12': 1.75, '14': 2, '16': 2, '18': 2.5, '20': 2.5, '22': 2.5, '24': 3, '27': 3, '30': 3.5
+};
+
+// ISO 273 medium clearance holes by nominal diameter
+const CLEARANCE_HOLE: Record<string, number> = {
+  '1.6': 1.8, '2': 2.4, '2.5': 2.9, '3': 3.4, '4': 4.5, '5': 5.5, '6': 6.6, '8': 9,
+  '10': 11, '12': 13.5, '14': 15.5, '16': 17.5, '18': 20, '20': 22, '22': 24, '24': 26, '27': 30, '30': 33
+};
+
+// Sources in order of preference when two elements describe the same hole
+const SOURCE_RANK: Record<HoleSource, number> = { thread: 0, screw: 1, bolt: 2, cylinder: 3, circle: 4 };
+
+const EPSILON = 1e-6;
+
+/**
+ * Nominal diameter and pitch of a metric thread designation such as "M8" or "M8x1"
+ */
+export function parseMetricThread(designation: string): { diameter: number; pitch: number } | null {
+  const match = /M\s*(\d+(?:\.\d+)?)(?:\s*[x×]\s*(\d+(?:\.\d+)?))?/i.exec(designation || '');
+  if (!match) return null;
+  const diameter = parseFloat(match[1]);
+  const pitch = match[2] ? parseFloat(match[2]) : COARSE_PITCH[String(diameter)];
+  if (!diameter || !pitch) return null;
+  return { diameter, pitch };
+}
+
+/**
+ * Clearance hole for a bolt of the given nominal diameter
+ */
+export function clearanceDiameter(nominal: number): number {
+  return CLEARANCE_HOLE[String(nominal)] || Math.round(nominal * 1.1 * 10) / 10;
+}
+
+const round = (value: number, step: number) => Math.round(value / step) * step;
+
+const formatNumber = (value: number) => String(Math.round(value * 1000) / 1000);
+
+/**
+ * Whether an element is upright, i.e. not tilted away from the Z axis
+ */
+function isVertical(element: Element): boolean {
+  const tilted = (angle: number | undefined) => {
+    const a = ((angle || 0) % 180 + 180) % 180;
+    return Math.min(a, 180 - a) > 0.01;
+  };
+  return !tilted(element.angleX) && !tilted(element.angleY);
+}
+
+function elementBounds(element: Element): { minZ: number; maxZ: number; minX: number; maxX: number; minY: number; maxY: number } {
+  const mesh = tessellateElement(element);
+  if (mesh && mesh.positions.length) {
+    const box = { minX: Infinity, minY: Infinity, minZ: Infinity, maxX: -Infinity, maxY: -Infinity, maxZ: -Infinity };
+    for (let i = 0; i < mesh.positions.length; i += 3) {
+      box.minX = Math.min(box.minX, mesh.positions[i]);
+      box.maxX = Math.max(box.maxX, mesh.positions[i]);
+      box.minY = Math.min(box.minY, mesh.positions[i + 1]);
+      box.maxY = Math.max(box.maxY, mesh.positions[i + 1]);
+      box.minZ = Math.min(box.minZ, mesh.positions[i + 2]);
+      box.maxZ = Math.max(box.maxZ, mesh.positions[i + 2]);
+    }
+    return box;
+  }
+  const { min, max } = calculateBoundingBox(element);
+  return { minX: min.x, minY: min.y, minZ: min.z, maxX: max.x, maxY: max.y, maxZ: max.z };
+}
+
+/**
+ * Find the holes described by the elements
+ */
+export function recognizeHoles(elements: Element[], options: HoleRecognitionOptions = {}): HoleRecognitionResult {
+  const circleDepth = options.circleDepth ?? 10;
+  const tolerance = options.tolerance ?? 0.01;
+  const warnings: string[] = [];
+  const found: HoleFeature[] = [];
+  const byId = new Map<string, Element>();
+  elements.forEach(element => byId.set(element.id, element));
+
+  const add = (hole: Omit<HoleFeature, 'id'>) => {
+    if (!(hole.diameter > 0) || !(hole.depth > 0)) {
+      warnings.push(`Element ${hole.elementId} has no diameter or depth and was skipped`);
+      return;
+    }
+    found.push({ id: '', ...hole });
+  };
+
+  const visit = (element: Element, dx: number, dy: number, dz: number) => {
+    const x = (element.x || 0) + dx;
+    const y = (element.y || 0) + dy;
+    const z = (element.z || 0) + dz;
+
+    switch (element.type) {
+      case 'circle':
+        add({
+          elementId: element.id, source: 'circle', x, y, z,
+          diameter: 2 * (element.radius || 0), depth: circleDepth,
+          through: !!options.circlesThrough, kind: 'plain'
+        });
+        break;
+
+      case 'screw':
+      case 'bolt': {
+        if (!isVertical(element)) {
+          warnings.push(`${element.type} ${element.id} is not vertical and was skipped`);
+          break;
+        }
+        const thread = parseMetricThread(element.thread || element.size);
+        if (!thread) {
+          warnings.push(`${element.type} ${element.id} has no metric size ("${element.size}") and was skipped`);
+          break;
+        }
+        const designation = `M${formatNumber(thread.diameter)}x${formatNumber(thread.pitch)}`;
+        const length = element.length || 2 * thread.diameter;
+        if (element.type === 'bolt') {
+          add({
+            elementId: element.id, source: 'bolt', x, y, z,
+            diameter: clearanceDiameter(thread.diameter), depth: length,
+            through: true, kind: 'clearance', thread: designation
+          });
+        } else {
+          add({
+            elementId: element.id, source: 'screw', x, y, z,
+            diameter: thread.diameter, depth: length, through: false,
+            kind: 'tapped', pitch: thread.pitch, thread: designation
+          });
+        }
+        break;
+      }
+
+      case 'thread': {
+        if (!isVertical(element)) {
+          warnings.push(`Thread ${element.id} is not vertical and was skipped`);
+          break;
+        }
+        if (element.standard && element.standard !== 'metric') {
+          warnings.push(`Thread ${element.id} is ${element.standard}; only metric threads are tapped`);
+          break;
+        }
+        const length = element.length || 0;
+        add({
+          elementId: element.id, source: 'thread', x, y, z: z + length / 2,
+          diameter: element.diameter || 0, depth: length, through: false,
+          kind: 'tapped', pitch: element.pitch, leftHand: element.handedness === 'left',
+          thread: `M${formatNumber(element.diameter || 0)}x${formatNumber(element.pitch || 0)}`
+        });
+        break;
+      }
+
+      case 'boolean-subtract': {
+        const operands = (element.operands || []).map((id: string) => byId.get(id)).filter(Boolean) as Element[];
+        if (operands.length < 2) break;
+        const body = elementBounds(operands[0]);
+        operands.slice(1).forEach(cutter => {
+          if (cutter.type !== 'cylinder') return;
+          if (!isVertical(cutter)) {
+            warnings.push(`Cylinder ${cutter.id} is not vertical and was skipped`);
+            return;
+          }
+          const cx = cutter.x || 0;
+          const cy = cutter.y || 0;
+          const half = (cutter.height || 1) / 2;
+          const top = (cutter.z || 0) + half;
+          const bottom = (cutter.z || 0) - half;
+          if (cx < body.minX || cx > body.maxX || cy < body.minY || cy > body.maxY) return;
+          if (top < body.maxZ - EPSILON) {
+            warnings.push(`Cylinder ${cutter.id} does not reach the top of ${operands[0].id} and was skipped`);
+            return;
+          }
+          const through = bottom <= body.minZ + EPSILON;
+          add({
+            elementId: cutter.id, source: 'cylinder', x: cx + dx, y: cy + dy, z: body.maxZ + dz,
+            diameter: 2 * (cutter.radius || 1), depth: body.maxZ - Math.max(bottom, body.minZ),
+            through, kind: 'plain'
+          });
+        });
+        break;
+      }
+
+      case 'component':
+      case 'group':
+        if (Array.isArray(element.elements)) {
+          element.elements.forEach((child: Element) => visit(child, x, y, z));
+        }
+        break;
+    }
+  };
+
+  elements.forEach(element => visit(element, 0, 0, 0));
+
+  // The sketch of a hole and the solid cut from it describe the same hole
+  found.sort((a, b) => SOURCE_RANK[a.source] - SOURCE_RANK[b.source]);
+  const holes: HoleFeature[] = [];
+  found.forEach(hole => {
+    const duplicate = holes.some(other =>
+      Math.abs(other.x - hole.x) <= tolerance &&
+      Math.abs(other.y - hole.y) <= tolerance &&
+      (hole.source === 'circle' || Math.abs(other.diameter - hole.diameter) <= tolerance)
+    );
+    if (duplicate) return;
+    holes.push({ ...hole, id: `H${holes.length + 1}` });
+  });
+
+  return { holes, groups: groupHoles(holes), warnings };
+}
+
+/**
+ * Group holes that are made the same way: same kind, diameter, depth and thread
+ */
+export function groupHoles(holes: HoleFeature[]): HoleGroup[] {
+  const groups = new Map<string, HoleGroup>();
+
+  holes.forEach(hole => {
+    const diameter = round(hole.diameter, 0.01);
+    const depth = round(hole.depth, 0.05);
+    const key = [hole.kind, diameter.toFixed(2), hole.through ? 'thru' : depth.toFixed(2), hole.pitch || 0, hole.leftHand ? 'L' : 'R'].join('|');
+    let group = groups.get(key);
+    if (!group) {
+      const name = hole.kind === 'tapped' ? `${hole.thread}${hole.leftHand ? ' LH' : ''} tapped`
+        : hole.kind === 'clearance' ? `Ø${formatNumber(diameter)} clearance for M${formatNumber(parseMetricThread(hole.thread || '')?.diameter || 0)}`
+        : `Ø${formatNumber(diameter)}`;
+      group = {
+        key,
+        label: `${name}, ${hole.through ? 'through' : `${formatNumber(depth)} deep`}`,
+        kind: hole.kind,
+        diameter,
+        depth,
+        through: hole.through,
+        pitch: hole.pitch,
+        leftHand: hole.leftHand,
+        thread: hole.thread,
+        holes: []
+      };
+      groups.set(key, group);
+    }
+    // Through holes of one group may be in bodies of different thickness
+    group.depth = Math.max(group.depth, depth);
+    group.holes.push(hole);
+  });
+
+  return Array.from(groups.values()).sort((a, b) => a.diameter - b.diameter || a.depth - b.depth);
+}
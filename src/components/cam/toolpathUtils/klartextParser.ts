@@ -0,0 +1,880 @@
+// Heidenhain Klartext (conversational) parser
+import {
+  CoordinateOffset,
+  ExecutedBlock,
+  FixedCycle,
+  GCodeParserOptions,
+  ModalState,
+  ParsedGCode,
+  ParserWarning,
+  toolpathFromMoves
+} from './fixed-gcode-parser';
+import { PathMove } from './cutterCompensation';
+
+/**
+ * Reads programs for Heidenhain TNC controls into the same ParsedGCode
+ * structure as the ISO interpreter, so both can be visualised and analysed
+ * the same way.
+ *
+ * Supported are straight lines (L, LP), circles (CC, C, CP, CR, CT),
+ * rounding and chamfers between straight lines (RND, CHF), radius
+ * compensation (RL, RR, R0), TOOL CALL, labels with CALL LBL and REP,
+ * Q-parameters with FN 0-13 and formulas, the coordinate transformations
+ * of cycles 7 (datum shift), 8 (mirror image), 10 (rotation) and 11
+ * (scaling), the drilling cycles 200-203, 205-208 and 240 with CYCL CALL,
+ * CYCL CALL POS, M99 and M89, and the point patterns 220 and 221.
+ *
+ * Output is in millimetres relative to the active preset, for the tool tip:
+ * the control applies the tool length with TOOL CALL.
+ */
+
+interface KlartextBlock {
+  text: string;
+  lineNumber: number;
+}
+
+interface ProgramPoint {
+  x: number;
+  y: number;
+  z: number;
+}
+
+interface CornerRequest {
+  type: 'RND' | 'CHF';
+  size: number;
+  lineNumber: number;
+  /** Index in the moves of the move ending at the corner */
+  move: number;
+}
+
+const INCH = 25.4;
+const RAPID_FEED = 99999;
+const MAX_BLOCKS = 100000;
+const MAX_NESTING = 20;
+const DRILLING_CYCLES = [200, 201, 202, 203, 205, 206, 207, 208, 240];
+const FORMULA_FUNCTIONS = ['SIN', 'COS', 'TAN', 'ASIN', 'ACOS', 'ATAN', 'SQRT', 'SQ', 'ABS', 'INT', 'NEG', 'FRAC', 'LN', 'LOG', 'EXP', 'SGN'];
+const RADIANS = Math.PI / 180;
+
+/**
+ * Whether a program is Klartext rather than ISO G-code
+ */
+export const isKlartextProgram = (text: string): boolean =>
+  /^\s*\d*\s*BEGIN\s+PGM\b/im.test(text) || /^\s*\d+\s+(?:TOOL\s+CALL|CYCL\s+DEF|L\s+[IXYZ]|CC\s+[IXY])/im.test(text);
+
+// Logical blocks: block numbers and comments removed, continuation
+// lines (ending with ~) joined to their block
+const readBlocks = (program: string): KlartextBlock[] => {
+  const blocks: KlartextBlock[] = [];
+  let pending: KlartextBlock | null = null;
+  program.split('\n').forEach((line, index) => {
+    const trimmed = line.trim();
+    const continues = trimmed.endsWith('~');
+    const content = trimmed.replace(/~$/, '').replace(/;.*$/, '').trim();
+    if (pending) {
+      pending.text += ` ${content}`;
+    } else if (content && !content.startsWith('*')) {
+      pending = { text: content.replace(/^\d+(\s+|$)/, ''), lineNumber: index + 1 };
+    }
+    if (!continues && pending) {
+      if (pending.text.trim()) blocks.push({ text: pending.text.trim().toUpperCase(), lineNumber: pending.lineNumber });
+      pending = null;
+    }
+  });
+  if (pending) blocks.push({ text: (pending as KlartextBlock).text.trim().toUpperCase(), lineNumber: (pending as KlartextBlock).lineNumber });
+  return blocks;
+};
+
+const labelName = (text: string): string => text.replace(/"/g, '').trim();
+
+// Parse Klartext into toolpath points, including arcs and drilling cycles
+export const parseKlartext = (program: string, options: GCodeParserOptions = {}): ParsedGCode => {
+  const fixedCycles: FixedCycle[] = [];
+  const warnings: ParserWarning[] = [];
+  const moves: PathMove[] = [];
+  const executed: ExecutedBlock[] = [];
+  const blocks = readBlocks(program);
+
+  const warn = (lineNumber: number, message: string) => {
+    warnings.push({ lineNumber, message });
+  };
+
+  // Labels by name; LBL 0 only ends subprograms
+  const labels = new Map<string, number>();
+  blocks.forEach((block, index) => {
+    const match = block.text.match(/^LBL\s+(.+)$/);
+    if (match && labelName(match[1]) !== '0' && !labels.has(labelName(match[1]))) labels.set(labelName(match[1]), index);
+  });
+
+  const q = new Map<string, number>();
+  let unit = 1;
+  let tool = 0;
+  let spindleSpeed = 0;
+  let toolFeed = 0;
+  let feedrate = 0;
+  let toolRadius = options.defaultToolRadius ?? 0;
+  let compensation = 'R0' as 'R0' | 'RL' | 'RR';
+  let compensationStarting = false;
+  let lastMotion: ModalState['motion'] = 'G0';
+  let activeCycle: number | null = null;
+  let modalCycleCall = false;
+
+  // Coordinate transformations of cycles 7, 8, 10 and 11
+  let shift: CoordinateOffset = { x: 0, y: 0, z: 0 };
+  let mirror = { x: false, y: false };
+  let rotation = 0;
+  let scale = 1;
+
+  // Programmed position, pole and direction of travel in program coordinates
+  let position: ProgramPoint = { x: 0, y: 0, z: 0 };
+  let pole = { x: 0, y: 0 };
+  let direction = null as { x: number; y: number } | null;
+  let corner = null as CornerRequest | null;
+
+  const toMachine = (p: ProgramPoint): CoordinateOffset => {
+    let x = p.x * scale;
+    let y = p.y * scale;
+    const z = p.z * scale;
+    if (mirror.x) x = -x;
+    if (mirror.y) y = -y;
+    const cos = Math.cos(rotation * RADIANS);
+    const sin = Math.sin(rotation * RADIANS);
+    return { x: shift.x + x * cos - y * sin, y: shift.y + x * sin + y * cos, z: shift.z + z };
+  };
+
+  const toProgram = (m: CoordinateOffset): ProgramPoint => {
+    const dx = m.x - shift.x;
+    const dy = m.y - shift.y;
+    const cos = Math.cos(rotation * RADIANS);
+    const sin = Math.sin(rotation * RADIANS);
+    let x = dx * cos + dy * sin;
+    let y = -dx * sin + dy * cos;
+    if (mirror.x) x = -x;
+    if (mirror.y) y = -y;
+    return { x: x / scale, y: y / scale, z: (m.z - shift.z) / scale };
+  };
+
+  // Change the transformation without moving the tool
+  const changeFrame = (change: () => void) => {
+    const machine = toMachine(position);
+    change();
+    position = toProgram(machine);
+  };
+
+  const mirrored = () => mirror.x !== mirror.y;
+
+  const addMove = (move: Omit<PathMove, 'feedrate' | 'offset'>, feed = feedrate) => {
+    const compensating = compensation !== 'R0' && !move.rapid && !move.cycleType;
+    // Mirroring swaps the sides of the contour
+    const side = (compensation === 'RL' ? 1 : -1) * (mirrored() ? -1 : 1);
+    moves.push({
+      feedrate: feed,
+      block: executed.length - 1,
+      ...move,
+      offset: compensating ? side * toolRadius : undefined,
+      startsCompensation: compensating && compensationStarting
+    });
+    if (compensating) compensationStarting = false;
+  };
+
+  const lineTo = (target: ProgramPoint, rapid: boolean, lineNumber: number, cycleType?: string, feed = feedrate) => {
+    const dx = target.x - position.x;
+    const dy = target.y - position.y;
+    const length = Math.hypot(dx, dy);
+    if (!cycleType && length > 1e-9) direction = { x: dx / length, y: dy / length };
+    const start = toMachine(position);
+    position = target;
+    addMove({ start, end: toMachine(target), rapid, lineNumber, code: rapid ? 'G0' : 'G1', cycleType }, feed);
+    if (!cycleType) lastMotion = rapid ? 'G0' : 'G1';
+  };
+
+  // Circular move in the XY plane around a centre in program coordinates
+  const arcTo = (target: ProgramPoint, center: { x: number; y: number }, clockwise: boolean, lineNumber: number, cycleType?: string) => {
+    const start = toMachine(position);
+    const radial = { x: target.x - center.x, y: target.y - center.y };
+    const radius = Math.hypot(radial.x, radial.y) || 1;
+    direction = clockwise ? { x: radial.y / radius, y: -radial.x / radius } : { x: -radial.y / radius, y: radial.x / radius };
+    const machineCenter = toMachine({ x: center.x, y: center.y, z: position.z });
+    position = target;
+    addMove({
+      start,
+      end: toMachine(target),
+      rapid: false,
+      lineNumber,
+      code: clockwise ? 'G2' : 'G3',
+      arc: { center: machineCenter, clockwise: mirrored() ? !clockwise : clockwise, plane: 'XY' },
+      cycleType
+    });
+    if (!cycleType) lastMotion = clockwise ? 'G2' : 'G3';
+  };
+
+  // Q-parameter formulas, with the operators of FN 1-13
+  const evaluate = (formula: string, lineNumber: number): number => {
+    const tokens = formula.match(/Q[LR]?\d+|\d*\.?\d+|[A-Z]+|[-+*/^()]/g) || [];
+    let index = 0;
+    const peek = () => tokens[index];
+
+    const primary = (): number => {
+      const token = tokens[index++];
+      if (token === undefined) throw new Error('Incomplete formula');
+      if (token === '(') {
+        const value = additive();
+        if (tokens[index++] !== ')') throw new Error("Expected ')'");
+        return value;
+      }
+      if (token === '-') return -primary();
+      if (token === '+') return primary();
+      if (/^Q[LR]?\d+$/.test(token)) return q.get(token) ?? 0;
+      if (/^\d*\.?\d+$/.test(token)) return parseFloat(token);
+      if (token === 'PI') return Math.PI;
+      if (token === 'FMAX') return RAPID_FEED;
+      if (token === 'FAUTO') return toolFeed;
+      if (FORMULA_FUNCTIONS.indexOf(token) >= 0) {
+        const a = primary();
+        switch (token) {
+          case 'SIN': return Math.sin(a * RADIANS);
+          case 'COS': return Math.cos(a * RADIANS);
+          case 'TAN': return Math.tan(a * RADIANS);
+          case 'ASIN': return Math.asin(a) / RADIANS;
+          case 'ACOS': return Math.acos(a) / RADIANS;
+          case 'ATAN': return Math.atan(a) / RADIANS;
+          case 'SQRT':
+            if (a < 0) throw new Error(`Square root of a negative number (${a})`);
+            return Math.sqrt(a);
+          case 'SQ': return a * a;
+          case 'ABS': return Math.abs(a);
+          case 'INT': return a < 0 ? Math.ceil(a) : Math.floor(a);
+          case 'NEG': return -a;
+          case 'FRAC': return a - (a < 0 ? Math.ceil(a) : Math.floor(a));
+          case 'LN': return Math.log(a);
+          case 'LOG': return Math.log(a) / Math.LN10;
+          case 'EXP': return Math.exp(a);
+          case 'SGN': return a > 0 ? 1 : a < 0 ? -1 : 0;
+        }
+      }
+      throw new Error(`Unexpected '${token}'`);
+    };
+
+    const power = (): number => {
+      const base = primary();
+      if (peek() === '^') {
+        index++;
+        return Math.pow(base, power());
+      }
+      return base;
+    };
+
+    const multiplicative = (): number => {
+      let value = power();
+      while (['*', '/', 'DIV', 'LEN', 'ANG'].indexOf(peek()) >= 0) {
+        const operator = tokens[index++];
+        const right = power();
+        if ((operator === '/' || operator === 'DIV') && right === 0) throw new Error('Division by zero');
+        if (operator === '*') value *= right;
+        else if (operator === 'LEN') value = Math.hypot(value, right);
+        else if (operator === 'ANG') value = Math.atan2(right, value) / RADIANS;
+        else value /= right;
+      }
+      return value;
+    };
+
+    const additive = (): number => {
+      let value = multiplicative();
+      while (peek() === '+' || peek() === '-') {
+        const operator = tokens[index++];
+        const right = multiplicative();
+        value = operator === '+' ? value + right : value - right;
+      }
+      return value;
+    };
+
+    const result = additive();
+    if (index < tokens.length) throw new Error(`Unexpected '${tokens[index]}'`);
+    if (isNaN(result)) warn(lineNumber, `Formula ${formula.trim()} has no real result`);
+    return result;
+  };
+
+  // Address words of a block, e.g. X+10, IY-Q5, F200, FMAX, RL, DR-
+  const readWords = (text: string) => {
+    const words = new Map<string, number>();
+    const flags = new Set<string>();
+    text.split(/\s+/).forEach(token => {
+      const match = token.match(/^(IPR|IPA|PR|PA|IX|IY|IZ|X|Y|Z|DR|DL|R|F|M|S|U|V|W|A|B|C)([+-]?)(Q[LR]?\d+|\d*\.?\d+)$/);
+      if (match && !(match[1] === 'R' && match[3] === '0' && !match[2])) {
+        const magnitude = match[3].startsWith('Q') ? q.get(match[3]) ?? 0 : parseFloat(match[3]);
+        const value = match[2] === '-' ? -magnitude : magnitude;
+        if (match[1] === 'M') {
+          flags.add(`M${value}`);
+        } else {
+          words.set(match[1], value);
+        }
+      } else {
+        flags.add(token);
+      }
+    });
+    return { words, flags };
+  };
+
+  // Target of a positioning block; I-words are incremental
+  const targetOf = (words: Map<string, number>): ProgramPoint => {
+    const axis = (letter: 'X' | 'Y' | 'Z', current: number) => {
+      if (words.has(`I${letter}`)) return current + words.get(`I${letter}`)! * unit;
+      if (words.has(letter)) return words.get(letter)! * unit;
+      return current;
+    };
+    return { x: axis('X', position.x), y: axis('Y', position.y), z: axis('Z', position.z) };
+  };
+
+  // Feed words of a block; FMAX only applies to its own block
+  const applyFeed = (words: Map<string, number>, flags: Set<string>): boolean => {
+    if (flags.has('FMAX')) return true;
+    if (flags.has('FAUTO') || flags.has('F AUTO')) feedrate = toolFeed;
+    if (words.has('F')) feedrate = words.get('F')! * unit;
+    return false;
+  };
+
+  const applyCompensation = (flags: Set<string>, lineNumber: number) => {
+    const next = flags.has('RL') ? 'RL' : flags.has('RR') ? 'RR' : flags.has('R0') ? 'R0' : compensation;
+    if (next !== compensation) {
+      if (next !== 'R0' && toolRadius === 0) warn(lineNumber, `No radius for tool ${tool}; compensation has no effect`);
+      compensationStarting = next !== 'R0';
+      compensation = next;
+    }
+  };
+
+  // Rounding or chamfer between the last straight line and the next one
+  const finishCorner = (lineNumber: number) => {
+    if (!corner) return;
+    const request = corner;
+    corner = null;
+    const first = moves[request.move];
+    const second = moves[moves.length - 1];
+    if (!first || first.arc || second.arc || first.rapid || second.rapid || moves.length - 1 !== request.move + 1) {
+      warn(request.lineNumber, `${request.type} is only simulated between two straight feed moves; corner left sharp`);
+      return;
+    }
+    const p = first.end;
+    const d1 = { x: p.x - first.start.x, y: p.y - first.start.y };
+    const d2 = { x: second.end.x - p.x, y: second.end.y - p.y };
+    const l1 = Math.hypot(d1.x, d1.y);
+    const l2 = Math.hypot(d2.x, d2.y);
+    if (l1 < 1e-9 || l2 < 1e-9) return;
+    d1.x /= l1; d1.y /= l1;
+    d2.x /= l2; d2.y /= l2;
+    const turn = d1.x * d2.y - d1.y * d2.x;
+    if (Math.abs(turn) < 1e-9) return;
+
+    const size = request.size * scale;
+    const halfAngle = Math.acos(Math.max(-1, Math.min(1, -(d1.x * d2.x + d1.y * d2.y)))) / 2;
+    const trim = request.type === 'CHF' ? size : size / Math.tan(halfAngle);
+    if (trim > l1 + 1e-9 || trim > l2 + 1e-9) {
+      warn(lineNumber, `${request.type} ${request.size} does not fit between the neighbouring moves; corner left sharp`);
+      return;
+    }
+    const t1 = { x: p.x - d1.x * trim, y: p.y - d1.y * trim, z: p.z };
+    const t2 = { x: p.x + d2.x * trim, y: p.y + d2.y * trim, z: p.z };
+    first.end = t1;
+    second.start = t2;
+    const join: PathMove = { ...first, start: t1, end: t2, startsCompensation: false, lineNumber: request.lineNumber };
+    if (request.type === 'RND') {
+      // Centre on the bisector, on the inside of the turn
+      const normal = turn > 0 ? { x: -d1.y, y: d1.x } : { x: d1.y, y: -d1.x };
+      join.arc = { center: { x: t1.x + normal.x * size, y: t1.y + normal.y * size, z: p.z }, clockwise: turn < 0, plane: 'XY' };
+      join.code = turn < 0 ? 'G2' : 'G3';
+    }
+    moves.splice(moves.length - 1, 0, join);
+  };
+
+  // Arc from the current position to the target with a signed radius (CR)
+  const radiusCenter = (target: ProgramPoint, r: number, clockwise: boolean, lineNumber: number) => {
+    const da = target.x - position.x;
+    const db = target.y - position.y;
+    const chord = Math.hypot(da, db);
+    if (chord < 1e-9) {
+      warn(lineNumber, 'Full circles cannot be programmed with CR; move ignored');
+      return null;
+    }
+    let h2 = r * r - (chord / 2) * (chord / 2);
+    if (h2 < 0) {
+      warn(lineNumber, `Arc radius ${Math.abs(r).toFixed(3)} is too small for the end point; using a half circle`);
+      h2 = 0;
+    }
+    // R+ is the arc up to 180 degrees, with the centre on the inside of the turn
+    const side = (clockwise ? -1 : 1) * (r >= 0 ? 1 : -1);
+    const h = Math.sqrt(h2);
+    return {
+      x: (position.x + target.x) / 2 - (side * h * db) / chord,
+      y: (position.y + target.y) / 2 + (side * h * da) / chord
+    };
+  };
+
+  const qValue = (n: number) => q.get(`Q${n}`) ?? 0;
+
+  // One drilling cycle at an XY position in program coordinates
+  const runDrillingCycle = (x: number, y: number, lineNumber: number) => {
+    if (activeCycle === null) {
+      warn(lineNumber, 'Cycle call without a cycle definition; ignored');
+      return;
+    }
+    const type = `CYCL ${activeCycle}`;
+    const surface = qValue(203) * unit;
+    const clearance = surface + Math.abs(qValue(200)) * unit;
+    const secondClearance = Math.max(clearance, surface + qValue(204) * unit);
+    const feed = (n: number) => {
+      const value = qValue(n);
+      return value >= RAPID_FEED ? RAPID_FEED : value * unit;
+    };
+    const plungeFeed = activeCycle === 207 ? Math.abs(qValue(239)) * unit * spindleSpeed : feed(206);
+
+    let bottom = surface + qValue(201) * unit;
+    if (activeCycle === 240 && qValue(343) === 1) {
+      // Centring to a diameter, with a 90 degree tip
+      bottom = surface - (Math.abs(qValue(344)) * unit) / 2;
+    }
+    if (activeCycle === 240 && qValue(343) !== 1) bottom = surface + qValue(201) * unit;
+
+    const startPoint = toMachine({ x, y, z: position.z });
+    fixedCycles.push({
+      type,
+      startPoint: { ...startPoint },
+      depth: toMachine({ x, y, z: bottom }).z,
+      retractHeight: toMachine({ x, y, z: clearance }).z,
+      feedrate: plungeFeed,
+      peckIncrement: qValue(202) > 0 ? qValue(202) * unit : undefined,
+      dwellTime: qValue(211) * 1000 || undefined,
+      points: [{ ...startPoint }],
+      blockIndex: executed.length - 1
+    });
+
+    // Above the hole at the current height, or the set-up clearance if lower
+    if (position.z < clearance) lineTo({ ...position, z: clearance }, true, lineNumber, type);
+    if (position.x !== x || position.y !== y) lineTo({ x, y, z: position.z }, true, lineNumber, type);
+    if (position.z !== clearance) lineTo({ x, y, z: clearance }, true, lineNumber, type);
+
+    if (activeCycle === 208) {
+      // Bore milling: helix down to depth, one full circle at depth
+      const radius = (Math.abs(qValue(335)) * unit) / 2 - toolRadius;
+      const pitch = Math.abs(qValue(334)) * unit;
+      if (radius <= 0 || pitch <= 0) {
+        warn(lineNumber, 'Cycle 208 needs a nominal diameter larger than the tool and a helix infeed');
+      } else {
+        const clockwise = qValue(351) === -1;
+        const start = { x: x + radius, y, z: clearance };
+        lineTo(start, false, lineNumber, type, plungeFeed);
+        let depth = clearance;
+        let side = 1;
+        while (depth > bottom + 1e-9 || side === -1) {
+          depth = Math.max(bottom, depth - pitch / 2);
+          side = -side;
+          arcTo({ x: x + side * radius, y, z: depth }, { x, y }, clockwise, lineNumber, type);
+        }
+        arcTo({ x: x - radius, y, z: bottom }, { x, y }, clockwise, lineNumber, type);
+        arcTo({ x: x + radius, y, z: bottom }, { x, y }, clockwise, lineNumber, type);
+        lineTo({ x, y, z: bottom }, false, lineNumber, type, plungeFeed);
+      }
+      lineTo({ x, y, z: secondClearance }, true, lineNumber, type);
+      return;
+    }
+
+    const pecking = activeCycle === 200 || activeCycle === 203 || activeCycle === 205;
+    let peck = pecking && qValue(202) > 0 ? qValue(202) * unit : clearance - bottom;
+    const decrement = activeCycle === 200 ? 0 : Math.abs(qValue(212)) * unit;
+    const minimum = activeCycle === 200 ? 0 : Math.abs(qValue(205)) * unit;
+    const chipBreaks = activeCycle === 203 ? Math.max(0, Math.round(qValue(213))) : 0;
+    const chipRetract = Math.abs(qValue(256)) * unit || 0.2;
+    let breaks = 0;
+    let depth = surface;
+    while (depth > bottom + 1e-9) {
+      const previous = depth;
+      depth = Math.max(bottom, depth - peck);
+      lineTo({ x, y, z: depth }, false, lineNumber, type, plungeFeed);
+      if (depth <= bottom + 1e-9) break;
+      if (breaks < chipBreaks) {
+        // Chip breaking: back off a little and carry on
+        breaks++;
+        lineTo({ x, y, z: depth + chipRetract }, true, lineNumber, type);
+      } else {
+        breaks = 0;
+        lineTo({ x, y, z: clearance }, true, lineNumber, type);
+        lineTo({ x, y, z: Math.min(clearance, depth + Math.min(clearance - surface, previous - depth)) }, true, lineNumber, type);
+      }
+      peck = Math.max(minimum || 1e-3, peck - decrement);
+    }
+
+    // Reaming, boring and tapping feed out of the hole
+    const feedOut = activeCycle === 201 || activeCycle === 202 || activeCycle === 206 || activeCycle === 207 ||
+      ((activeCycle === 203 || activeCycle === 205) && qValue(208) > 0);
+    if (feedOut) {
+      const retractFeed = activeCycle === 206 || activeCycle === 207 ? plungeFeed : feed(208) || plungeFeed;
+      lineTo({ x, y, z: clearance }, retractFeed >= RAPID_FEED, lineNumber, type, retractFeed);
+    } else {
+      lineTo({ x, y, z: clearance }, true, lineNumber, type);
+    }
+    if (secondClearance > clearance) lineTo({ x, y, z: secondClearance }, true, lineNumber, type);
+  };
+
+  // Point patterns call the last defined drilling cycle at every point
+  const runPattern = (cycle: number, lineNumber: number) => {
+    const points: { x: number; y: number }[] = [];
+    if (cycle === 220) {
+      const center = { x: qValue(216) * unit, y: qValue(217) * unit };
+      const radius = (qValue(244) * unit) / 2;
+      const count = Math.max(1, Math.round(qValue(241)));
+      const start = qValue(245);
+      const stop = qValue(246);
+      const step = qValue(247) !== 0
+        ? qValue(247)
+        : Math.abs(stop - start) < 1e-9 ? 360 / count : (stop - start) / Math.max(1, count - 1);
+      for (let i = 0; i < count; i++) {
+        const angle = (start + i * step) * RADIANS;
+        points.push({ x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) });
+      }
+    } else {
+      const start = { x: qValue(225) * unit, y: qValue(226) * unit };
+      const spacing = { x: qValue(237) * unit, y: qValue(238) * unit };
+      const angle = qValue(224) * RADIANS;
+      const columns = Math.max(1, Math.round(qValue(242)));
+      const rows = Math.max(1, Math.round(qValue(243)));
+      for (let row = 0; row < rows; row++) {
+        // Meander through the rows
+        for (let n = 0; n < columns; n++) {
+          const column = row % 2 === 0 ? n : columns - 1 - n;
+          const dx = column * spacing.x;
+          const dy = row * spacing.y;
+          points.push({
+            x: start.x + dx * Math.cos(angle) - dy * Math.sin(angle),
+            y: start.y + dx * Math.sin(angle) + dy * Math.cos(angle)
+          });
+        }
+      }
+    }
+    points.forEach(point => runDrillingCycle(point.x, point.y, lineNumber));
+  };
+
+  // Old-style cycles 7, 8, 10 and 11 are defined over several blocks
+  const transformCycle = (text: string, lineNumber: number): boolean => {
+    const match = text.match(/^CYCL\s+DEF\s+(7|8|9|10|11)\.([1-9])\s*(.*)$/);
+    if (!match) return false;
+    const cycle = parseInt(match[1], 10);
+    const { words, flags } = readWords(match[3]);
+    if (cycle === 7) {
+      changeFrame(() => {
+        const current = toMachine({ x: 0, y: 0, z: 0 });
+        // Shifts are in the coordinates before the shift; incremental ones add to it
+        (['X', 'Y', 'Z'] as const).forEach(letter => {
+          const axis = letter.toLowerCase() as 'x' | 'y' | 'z';
+          if (words.has(letter)) shift[axis] = words.get(letter)! * unit;
+          if (words.has(`I${letter}`)) shift[axis] = current[axis] + words.get(`I${letter}`)! * unit;
+        });
+      });
+    } else if (cycle === 8) {
+      changeFrame(() => {
+        mirror = { x: flags.has('X'), y: flags.has('Y') };
+      });
+      if (flags.has('Z')) warn(lineNumber, 'Mirroring the tool axis is not simulated');
+    } else if (cycle === 10) {
+      const angle = match[3].match(/(I?)ROT\s*([+-]?\d*\.?\d+|[+-]?Q[LR]?\d+)/);
+      if (angle) {
+        const value = angle[2].replace(/^[+-]/, '').startsWith('Q')
+          ? (angle[2].startsWith('-') ? -1 : 1) * (q.get(angle[2].replace(/^[+-]/, '')) ?? 0)
+          : parseFloat(angle[2]);
+        changeFrame(() => { rotation = angle[1] ? rotation + value : value; });
+      }
+    } else if (cycle === 11) {
+      const factor = match[3].match(/SCL\s*([+-]?\d*\.?\d+|Q[LR]?\d+)/);
+      if (factor) {
+        const value = factor[1].startsWith('Q') ? q.get(factor[1]) ?? 1 : parseFloat(factor[1]);
+        if (value <= 0) {
+          warn(lineNumber, 'Scaling factor must be positive; ignored');
+        } else {
+          changeFrame(() => { scale = value; });
+        }
+      }
+    }
+    return true;
+  };
+
+  const callStack: number[] = [];
+  const repeats = new Map<number, number>();
+  let index = 0;
+  let count = 0;
+
+  const jumpToLabel = (name: string, lineNumber: number): boolean => {
+    const target = labels.get(name);
+    if (target === undefined) {
+      warn(lineNumber, `Label ${name} not found; program stopped`);
+      return false;
+    }
+    index = target + 1;
+    return true;
+  };
+
+  while (index < blocks.length) {
+    const block = blocks[index++];
+    const { text, lineNumber } = block;
+    if (++count > MAX_BLOCKS) {
+      warn(lineNumber, `Stopped after ${MAX_BLOCKS} blocks; the program may loop endlessly`);
+      break;
+    }
+    executed.push({ text, lineNumber });
+
+    try {
+      // Program frame
+      if (/^BEGIN\s+PGM/.test(text)) {
+        unit = /\bINCH\b/.test(text) ? INCH : 1;
+        continue;
+      }
+      if (/^END\s+PGM/.test(text)) break;
+      if (/^(?:BLK\s+FORM|TOOL\s+DEF|TCH\s+PROBE|FUNCTION|STOP\b|DECLARE|PLANE\s+RESET)/.test(text)) continue;
+      if (/^PLANE\b/.test(text)) {
+        warn(lineNumber, 'Tilting the working plane (PLANE) is not simulated; ignored');
+        continue;
+      }
+
+      // Tool call: number, spindle speed, feed and delta radius
+      const toolCall = text.match(/^TOOL\s+CALL\s+("[^"]*"|\d+)?\s*(.*)$/);
+      if (toolCall) {
+        if (toolCall[1]) {
+          const number = parseInt(toolCall[1], 10);
+          if (isNaN(number)) warn(lineNumber, `Tool ${toolCall[1]} is called by name; its offsets are not known`);
+          tool = isNaN(number) ? 0 : number;
+        }
+        const rest = ` ${toolCall[2]} `;
+        if (/\s[XY]\s/.test(rest)) warn(lineNumber, 'Only Z is supported as the tool axis');
+        const { words } = readWords(toolCall[2]);
+        if (words.has('S')) spindleSpeed = words.get('S')!;
+        if (words.has('F')) toolFeed = words.get('F')! * unit;
+        const registered = options.toolOffsets?.[tool]?.radius ?? options.defaultToolRadius ?? 0;
+        toolRadius = registered + (words.has('DR') ? words.get('DR')! * unit : 0);
+        continue;
+      }
+
+      // Labels, subprograms and program section repeats
+      const label = text.match(/^LBL\s+(.+)$/);
+      if (label) {
+        if (labelName(label[1]) === '0') {
+          if (callStack.length === 0) break;
+          index = callStack.pop()!;
+        }
+        continue;
+      }
+      const callLabel = text.match(/^CALL\s+LBL\s+("[^"]*"|\S+)(?:\s+REP\s*(\d+))?/);
+      if (callLabel) {
+        const name = labelName(callLabel[1]);
+        if (callLabel[2] !== undefined) {
+          // Repeat the section from the label up to here
+          const remaining = repeats.has(index) ? repeats.get(index)! : parseInt(callLabel[2], 10);
+          if (remaining > 0) {
+            repeats.set(index, remaining - 1);
+            if (!jumpToLabel(name, lineNumber)) break;
+          } else {
+            repeats.delete(index);
+          }
+        } else {
+          if (callStack.length >= MAX_NESTING) throw new Error(`Subprograms nested deeper than ${MAX_NESTING} levels`);
+          callStack.push(index);
+          if (!jumpToLabel(name, lineNumber)) break;
+        }
+        continue;
+      }
+      if (/^CALL\s+PGM/.test(text)) {
+        warn(lineNumber, 'Calling other programs (CALL PGM) is not simulated; ignored');
+        continue;
+      }
+
+      // Q-parameters
+      const jump = text.match(/^FN\s*(9|10|11|12)\s*:\s*IF\s+(.+?)\s+(EQU|NE|GT|LT)\s+(.+?)\s+GOTO\s+LBL\s+("[^"]*"|\S+)/);
+      if (jump) {
+        const a = evaluate(jump[2], lineNumber);
+        const b = evaluate(jump[4], lineNumber);
+        const condition = jump[3] === 'EQU' ? a === b : jump[3] === 'NE' ? a !== b : jump[3] === 'GT' ? a > b : a < b;
+        if (condition && !jumpToLabel(labelName(jump[5]), lineNumber)) break;
+        continue;
+      }
+      const error = text.match(/^FN\s*14\s*:\s*ERROR\s*=\s*(\S+)/);
+      if (error) {
+        warn(lineNumber, `Error ${error[1]} raised by the program; program stopped`);
+        break;
+      }
+      const assignment = text.match(/^(?:FN\s*\d+\s*:\s*)?(Q[LR]?\d+)\s*=\s*(.+)$/);
+      if (assignment) {
+        const formula = assignment[2]
+          .replace(/\b(SQRT|SIN|COS)\s+([^()]+)$/, '$1($2)');
+        q.set(assignment[1], evaluate(formula, lineNumber));
+        continue;
+      }
+      if (/^FN\s*\d+/.test(text)) {
+        warn(lineNumber, 'Unsupported FN function; ignored');
+        continue;
+      }
+
+      // Cycle definitions
+      if (transformCycle(text, lineNumber)) continue;
+      const cycleDef = text.match(/^CYCL\s+DEF\s+(\d+)(?:\.0)?\b(.*)$/);
+      if (cycleDef) {
+        const cycle = parseInt(cycleDef[1], 10);
+        // Cycle parameters are Q-parameters
+        const pattern = /(Q\d+)\s*=\s*([+-]?\d*\.?\d+|[+-]?Q[LR]?\d+|FMAX|FAUTO)/g;
+        let parameter: RegExpExecArray | null;
+        while ((parameter = pattern.exec(cycleDef[2])) !== null) {
+          q.set(parameter[1], evaluate(parameter[2], lineNumber));
+        }
+        modalCycleCall = false;
+        if (DRILLING_CYCLES.indexOf(cycle) >= 0) {
+          activeCycle = cycle;
+        } else if (cycle === 220 || cycle === 221) {
+          runPattern(cycle, lineNumber);
+        } else if ([7, 8, 9, 10, 11].indexOf(cycle) < 0) {
+          activeCycle = null;
+          warn(lineNumber, `Cycle ${cycle} is not simulated; ignored`);
+        }
+        continue;
+      }
+      const cycleCall = text.match(/^CYCL\s+CALL(?:\s+(POS|PAT))?\s*(.*)$/);
+      if (cycleCall) {
+        if (cycleCall[1] === 'PAT') {
+          warn(lineNumber, 'Point tables and PATTERN DEF are not simulated; cycle ignored');
+          continue;
+        }
+        const { words, flags } = readWords(cycleCall[2]);
+        const rapid = applyFeed(words, flags);
+        if (cycleCall[1] === 'POS') {
+          const target = targetOf(words);
+          if (target.z > position.z) lineTo({ ...position, z: target.z }, rapid, lineNumber);
+          lineTo({ x: target.x, y: target.y, z: position.z }, rapid, lineNumber);
+          lineTo(target, rapid, lineNumber);
+        }
+        runDrillingCycle(position.x, position.y, lineNumber);
+        continue;
+      }
+
+      // Contour elements
+      const element = text.match(/^(LP|L|CC|CP|CR|CT|C|RND|CHF)(?=\s|$)\s*(.*)$/);
+      if (!element) {
+        if (/^(?:APPR|DEP|FPOL|FL|FLT|FC|FCT|FSELECT)\b/.test(text)) {
+          warn(lineNumber, `${text.split(/\s+/)[0]} is not simulated; move ignored`);
+          continue;
+        }
+        const { flags } = readWords(text);
+        if (flags.has('M2') || flags.has('M30')) break;
+        continue;
+      }
+
+      const kind = element[1];
+      const { words, flags } = readWords(element[2]);
+
+      if (kind === 'RND' || kind === 'CHF') {
+        const size = words.has('R') ? words.get('R')! : parseFloat(element[2].replace(/[^\d.+-]/g, ''));
+        applyFeed(words, flags);
+        if (!isNaN(size) && size > 0) corner = { type: kind, size: size * unit, lineNumber, move: moves.length - 1 };
+        continue;
+      }
+
+      if (kind === 'CC') {
+        // Pole: given coordinates, incremental ones from the last position, else the last position
+        const target = targetOf(words);
+        pole = words.size > 0 ? { x: target.x, y: target.y } : { x: position.x, y: position.y };
+        continue;
+      }
+
+      const rapid = applyFeed(words, flags);
+      applyCompensation(flags, lineNumber);
+      const movesBefore = moves.length;
+
+      if (kind === 'L' || kind === 'LP') {
+        let target = targetOf(words);
+        if (kind === 'LP') {
+          const current = { r: Math.hypot(position.x - pole.x, position.y - pole.y), a: Math.atan2(position.y - pole.y, position.x - pole.x) / RADIANS };
+          const r = words.has('IPR') ? current.r + words.get('IPR')! * unit : words.has('PR') ? words.get('PR')! * unit : current.r;
+          const a = words.has('IPA') ? current.a + words.get('IPA')! : words.has('PA') ? words.get('PA')! : current.a;
+          target = { ...target, x: pole.x + r * Math.cos(a * RADIANS), y: pole.y + r * Math.sin(a * RADIANS) };
+        }
+        if (target.x !== position.x || target.y !== position.y || target.z !== position.z) {
+          lineTo(target, rapid, lineNumber);
+        }
+      } else if (kind === 'C' || kind === 'CP') {
+        const clockwise = words.has('DR') ? words.get('DR')! < 0 || /DR-/.test(element[2]) : /DR-/.test(element[2]);
+        let target = targetOf(words);
+        if (kind === 'CP') {
+          const r = Math.hypot(position.x - pole.x, position.y - pole.y);
+          const current = Math.atan2(position.y - pole.y, position.x - pole.x) / RADIANS;
+          const a = words.has('IPA') ? current + words.get('IPA')! : words.has('PA') ? words.get('PA')! : current;
+          target = { ...target, x: pole.x + r * Math.cos(a * RADIANS), y: pole.y + r * Math.sin(a * RADIANS) };
+          // A helix turns more than once with IPA
+          const turns = words.has('IPA') ? Math.abs(words.get('IPA')!) : 0;
+          if (turns > 180) {
+            const startZ = position.z;
+            const steps = Math.ceil(turns / 180);
+            for (let step = 1; step < steps; step++) {
+              const angle = (current + (words.get('IPA')! * step) / steps) * RADIANS;
+              arcTo({ x: pole.x + r * Math.cos(angle), y: pole.y + r * Math.sin(angle), z: startZ + ((target.z - startZ) * step) / steps }, pole, clockwise, lineNumber);
+            }
+          }
+        }
+        arcTo(target, pole, clockwise, lineNumber);
+      } else if (kind === 'CR') {
+        const target = targetOf(words);
+        const clockwise = /DR-/.test(element[2]);
+        const center = radiusCenter(target, (words.get('R') ?? 0) * unit, clockwise, lineNumber);
+        if (center) arcTo(target, center, clockwise, lineNumber);
+      } else if (kind === 'CT') {
+        const target = targetOf(words);
+        const chord = { x: target.x - position.x, y: target.y - position.y };
+        const tangent = direction;
+        const normal = tangent ? { x: -tangent.y, y: tangent.x } : null;
+        const along = normal ? chord.x * normal.x + chord.y * normal.y : 0;
+        if (!tangent || !normal || Math.abs(along) < 1e-9) {
+          // Straight on: the tangential arc degenerates to a line
+          lineTo(target, false, lineNumber);
+        } else {
+          const s = (chord.x * chord.x + chord.y * chord.y) / (2 * along);
+          arcTo(target, { x: position.x + normal.x * s, y: position.y + normal.y * s }, s < 0, lineNumber);
+        }
+      }
+
+      if (moves.length > movesBefore) finishCorner(lineNumber);
+
+      // Cycle calls after the positioning block
+      if (flags.has('M89')) modalCycleCall = true;
+      if (flags.has('M99') || (modalCycleCall && (kind === 'L' || kind === 'LP'))) {
+        if (flags.has('M99')) modalCycleCall = false;
+        runDrillingCycle(position.x, position.y, lineNumber);
+      }
+      if (flags.has('M2') || flags.has('M30')) break;
+    } catch (error) {
+      warn(lineNumber, `${error instanceof Error ? error.message : String(error)}; program stopped`);
+      break;
+    }
+  }
+  if (corner) warn(corner.lineNumber, `${corner.type} at the end of the contour is ignored`);
+
+  const { points, arcs, maxBounds } = toolpathFromMoves(moves, warn);
+
+  const modalState: ModalState = {
+    motion: lastMotion,
+    cycle: activeCycle === null ? null : `CYCL ${activeCycle}`,
+    plane: 'XY',
+    distance: 'G90',
+    units: unit === INCH ? 'G20' : 'G21',
+    workOffset: 'G54',
+    toolLengthCompensation: 'G43',
+    lengthOffset: 0,
+    cutterCompensation: compensation === 'RL' ? 'G41' : compensation === 'RR' ? 'G42' : 'G40',
+    cutterRadius: toolRadius,
+    retract: 'G98',
+    localOffset: shift,
+    rotation: rotation ? { center: { x: shift.x, y: shift.y }, angle: rotation * RADIANS } : null,
+    scaling: scale !== 1 ? { center: { ...shift }, factors: { x: scale, y: scale, z: scale } } : null,
+    feedrate,
+    tool
+  };
+
+  return {
+    points,
+    arcs,
+    fixedCycles,
+    maxBounds,
+    warnings,
+    modalState,
+    blocks: executed
+  };
+};
@@ -0,0 +1,557 @@
+// Lathe profile turning: G71/G72 roughing and G70 finishing from revolved geometry
+
+/**
+ * Turning program for the outside of a part of revolution.
+ *
+ * The half-profile comes from a `lathe` or `revolution` element (x is the
+ * radius, y runs along the axis) or from a 2D sketch of the half-profile, a
+ * polyline or chained lines with the spindle axis along X and the radius in Y.
+ * Its outer contour is followed from the front of the part (program Z0) to the
+ * back, with X on the diameter.
+ *
+ * The insert decides what can be reached: a holder with lead angle κr and an
+ * insert of included angle ε can plunge down a contour at most
+ * 180° - κr - ε steep and climb a shoulder at most κr from the axis, both
+ * less a clearance. Undercuts beyond these are bridged by the steepest line
+ * the tool can follow, and the material left under them is reported.
+ *
+ * Roughing is G71 along Z or G72 across the face, in depth-of-cut levels,
+ * leaving the finish allowance: U on the diameter and W in Z, applied like the
+ * canned cycles by shifting the contour. Pockets are roughed like a type II
+ * G71, entering along the contour. G70 then finishes the contour. The canned
+ * form writes the cycles with the contour in N blocks; the long-hand form
+ * writes every pass for controls without them.
+ */
+
+export type TurningCycle = 'G71' | 'G72';
+
+export type TurningProgramForm = 'canned' | 'longhand';
+
+export interface ProfilePoint {
+  /** Along the axis, 0 at the front of the part, negative towards the chuck */
+  z: number;
+  radius: number;
+}
+
+export interface TurningInsert {
+  /** Included angle of the insert (°): 35 V, 55 D, 60 T, 80 C and W, 90 S */
+  includedAngle: number;
+  /** Lead angle κr of the holder (°), 93 for a DDJNR */
+  leadAngle: number;
+  noseRadius: number;
+}
+
+export const DEFAULT_TURNING_INSERT: TurningInsert = {
+  includedAngle: 55,
+  leadAngle: 93,
+  noseRadius: 0.4
+};
+
+export interface ProfileTurningOptions {
+  stockDiameter: number;
+  /** Stock in front of the part, faced off by the roughing (mm) */
+  faceStock?: number;
+  /** Depth of cut: per side for G71, along Z for G72 */
+  stepdown: number;
+  /** Finish allowance on the diameter (U) */
+  allowanceX: number;
+  /** Finish allowance along Z (W) */
+  allowanceZ: number;
+  /** Retract at the end of each roughing pass (R) */
+  retract?: number;
+  /** 'auto' faces (G72) parts with more depth across than along the axis */
+  cycle: TurningCycle | 'auto';
+  form: TurningProgramForm;
+  roughingFeed: number;
+  finishFeed: number;
+  insert?: TurningInsert;
+  /** Tool nose radius compensation (G42) on the finish pass */
+  noseCompensation?: boolean;
+  /** Clearance of the rapid moves from the stock (mm) */
+  safeDistance?: number;
+}
+
+export interface UndercutLimit {
+  /** Z range of the contour that is bridged */
+  zFrom: number;
+  zTo: number;
+  /** Section of the material left under the bridge (mm²) */
+  area: number;
+  /** Too steep to plunge into, or a shoulder leaning back */
+  reason: 'plunge' | 'shoulder';
+}
+
+export interface ProfileTurningResult {
+  gcode: string;
+  warnings: string[];
+  cycle: TurningCycle;
+  /** Contour the tool can follow, front to back */
+  profile: ProfilePoint[];
+  undercuts: UndercutLimit[];
+}
+
+// Clearance angle kept from the insert edges when plunging or climbing (°)
+const EDGE_CLEARANCE = 2;
+const DEFAULT_RETRACT = 0.5;
+const DEFAULT_SAFE_DISTANCE = 2;
+// Distance within which points of a sketch join
+const JOIN_TOLERANCE = 1e-3;
+const FIRST_BLOCK = 100;
+const BLOCK_STEP = 10;
+
+const DEGREES = Math.PI / 180;
+const EPSILON = 1e-9;
+
+const format = (value: number) => value.toFixed(3);
+
+/**
+ * Points of the half-profile of an element as (axial, radius), with whether the
+ * profile is closed; null for elements without one
+ */
+function rawProfile(element: any): { points: { axial: number; radius: number }[]; closed: boolean } | null {
+  if (!element) return null;
+  switch (element.type) {
+    case 'lathe':
+    case 'revolution': {
+      const profile: { x: number; y: number }[] = element.type === 'revolution' ? element.profile : element.points;
+      if (!Array.isArray(profile) || profile.length < 2) return null;
+      return { points: profile.map(point => ({ axial: point.y || 0, radius: Math.abs(point.x || 0) })), closed: false };
+    }
+    case 'polyline':
+    case 'spline':
+    case 'polygon': {
+      if (!Array.isArray(element.points) || element.points.length < 2) return null;
+      return {
+        points: element.points.map((point: any) => ({ axial: point.x || 0, radius: Math.abs(point.y || 0) })),
+        closed: element.type === 'polygon' || !!element.closed
+      };
+    }
+    case 'line':
+      return {
+        points: [
+          { axial: element.x1 || 0, radius: Math.abs(element.y1 || 0) },
+          { axial: element.x2 || 0, radius: Math.abs(element.y2 || 0) }
+        ],
+        closed: false
+      };
+    case 'group':
+    case 'composite': {
+      // Lines and polylines of a sketch, chained end to end
+      const chains = (Array.isArray(element.elements) ? element.elements : [])
+        .map((child: any) => rawProfile(child))
+        .filter((chain: any): chain is { points: { axial: number; radius: number }[]; closed: boolean } => chain !== null)
+        .map((chain: { points: { axial: number; radius: number }[] }) => chain.points);
+      if (!chains.length) return null;
+      const same = (a: { axial: number; radius: number }, b: { axial: number; radius: number }) =>
+        Math.abs(a.axial - b.axial) < JOIN_TOLERANCE && Math.abs(a.radius - b.radius) < JOIN_TOLERANCE;
+      const points = chains.shift()!.slice();
+      let joined = true;
+      while (chains.length && joined) {
+        joined = false;
+        for (let i = 0; i < chains.length && !joined; i++) {
+          const chain = chains[i];
+          if (same(points[points.length - 1], chain[0])) points.push(...chain.slice(1));
+          else if (same(points[points.length - 1], chain[chain.length - 1])) points.push(...chain.slice(0, -1).reverse());
+          else if (same(points[0], chain[chain.length - 1])) points.unshift(...chain.slice(0, -1));
+          else if (same(points[0], chain[0])) points.unshift(...chain.slice(1).reverse());
+          else continue;
+          chains.splice(i, 1);
+          joined = true;
+        }
+      }
+      return { points, closed: points.length > 2 && same(points[0], points[points.length - 1]) };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Outer contour of the half-profile of an element, front to back, with Z0 at
+ * the front; null when the element has no profile to turn
+ */
+export function extractTurningProfile(element: any): ProfilePoint[] | null {
+  const raw = rawProfile(element);
+  if (!raw) return null;
+
+  let points = raw.points.filter((point, index) => {
+    const previous = raw.points[index - 1];
+    return !previous || Math.abs(point.axial - previous.axial) > EPSILON || Math.abs(point.radius - previous.radius) > EPSILON;
+  });
+  if (points.length > 2 && Math.abs(points[0].axial - points[points.length - 1].axial) < EPSILON &&
+    Math.abs(points[0].radius - points[points.length - 1].radius) < EPSILON) {
+    points.pop();
+    raw.closed = true;
+  }
+  if (points.length < 2) return null;
+
+  if (raw.closed) {
+    // Of the two ways from the front to the back, the outside is the one further from the axis
+    let front = 0;
+    let back = 0;
+    points.forEach((point, index) => {
+      if (point.axial > points[front].axial + EPSILON || (Math.abs(point.axial - points[front].axial) <= EPSILON && point.radius < points[front].radius)) front = index;
+      if (point.axial < points[back].axial - EPSILON || (Math.abs(point.axial - points[back].axial) <= EPSILON && point.radius < points[back].radius)) back = index;
+    });
+    const walk = (step: number) => {
+      const chain = [points[front]];
+      for (let index = front; index !== back;) {
+        index = (index + step + points.length) % points.length;
+        chain.push(points[index]);
+      }
+      return chain;
+    };
+    const meanRadius = (chain: { radius: number }[]) => chain.reduce((sum, point) => sum + point.radius, 0) / chain.length;
+    const forward = walk(1);
+    const backward = walk(-1);
+    points = meanRadius(forward) >= meanRadius(backward) ? forward : backward;
+  } else if (points[0].axial < points[points.length - 1].axial) {
+    points = points.slice().reverse();
+  }
+
+  // The back face down to the axis is where the part is cut off, not turned
+  while (points.length > 2) {
+    const last = points[points.length - 1];
+    const previous = points[points.length - 2];
+    if (Math.abs(last.axial - previous.axial) > EPSILON || last.radius >= previous.radius) break;
+    points.pop();
+  }
+
+  const frontAxial = Math.max(...points.map(point => point.axial));
+  return points.map(point => ({ z: point.axial - frontAxial, radius: point.radius }));
+}
+
+// Area enclosed by a polygon of profile points
+function sectionArea(points: ProfilePoint[]): number {
+  let area = 0;
+  points.forEach((point, index) => {
+    const next = points[(index + 1) % points.length];
+    area += point.z * next.radius - next.z * point.radius;
+  });
+  return Math.abs(area) / 2;
+}
+
+/**
+ * Walking the contour towards -Z, bridges each descent steeper than
+ * `maxAngle` from the axis by the line at that angle, down to where it meets
+ * the contour again
+ */
+function bridgeSteepDescents(points: ProfilePoint[], maxAngle: number): { points: ProfilePoint[]; bridges: { from: ProfilePoint; to: ProfilePoint; area: number }[] } {
+  const tan = Math.tan(Math.min(maxAngle, 89.9) * DEGREES);
+  const result: ProfilePoint[] = [points[0]];
+  const bridges: { from: ProfilePoint; to: ProfilePoint; area: number }[] = [];
+  let current = points[0];
+  let index = 0;
+
+  while (index < points.length - 1) {
+    const next = points[index + 1];
+    const along = current.z - next.z;
+    const drop = current.radius - next.radius;
+    if (drop <= EPSILON || Math.atan2(drop, along) / DEGREES <= maxAngle + EPSILON) {
+      result.push(next);
+      current = next;
+      index++;
+      continue;
+    }
+
+    // Height of a contour point above the line the tool can follow from `current`
+    const start = current;
+    const above = (point: ProfilePoint) => point.radius - (start.radius - (start.z - point.z) * tan);
+    let hit: { point: ProfilePoint; index: number } | null = null;
+    let from = start;
+    for (let k = index; k < points.length - 1 && !hit; k++) {
+      const to = points[k + 1];
+      const a = above(from);
+      const b = above(to);
+      if (b >= -EPSILON && (a < -EPSILON || k > index)) {
+        const t = a < b ? Math.max(0, Math.min(1, a / (a - b))) : 1;
+        const point = { z: from.z + t * (to.z - from.z), radius: from.radius + t * (to.radius - from.radius) };
+        if (point.z < start.z - EPSILON) hit = { point, index: k };
+      }
+      from = to;
+    }
+
+    const last = points[points.length - 1];
+    const end = hit ? hit.point : { z: last.z, radius: start.radius - (start.z - last.z) * tan };
+    const skipped = points.slice(index + 1, hit ? hit.index + 1 : points.length);
+    bridges.push({ from: start, to: end, area: sectionArea([start, ...skipped, end]) });
+    result.push(end);
+    if (!hit) break;
+    current = end;
+    index = hit.index;
+  }
+  return { points: result, bridges };
+}
+
+/**
+ * Contour the insert can follow, with the undercuts it has to leave
+ */
+export function limitProfileToInsert(profile: ProfilePoint[], insert: TurningInsert = DEFAULT_TURNING_INSERT): { profile: ProfilePoint[]; undercuts: UndercutLimit[] } {
+  const plunge = Math.max(0, Math.min(90, 180 - insert.leadAngle - insert.includedAngle - EDGE_CLEARANCE));
+  const climb = Math.max(0, Math.min(90, insert.leadAngle - EDGE_CLEARANCE));
+  const undercuts: UndercutLimit[] = [];
+
+  const descents = bridgeSteepDescents(profile, plunge);
+  descents.bridges.forEach(bridge => {
+    if (bridge.area > EPSILON) undercuts.push({ zFrom: bridge.from.z, zTo: bridge.to.z, area: bridge.area, reason: 'plunge' });
+  });
+
+  // Shoulders are descents seen from the back, with Z mirrored
+  const mirror = (points: ProfilePoint[]) => points.slice().reverse().map(point => ({ z: -point.z, radius: point.radius }));
+  const shoulders = bridgeSteepDescents(mirror(descents.points), climb);
+  shoulders.bridges.forEach(bridge => {
+    if (bridge.area > EPSILON) undercuts.push({ zFrom: -bridge.to.z, zTo: -bridge.from.z, area: bridge.area, reason: 'shoulder' });
+  });
+
+  return { profile: mirror(shoulders.points), undercuts };
+}
+
+/**
+ * Z intervals [back, front], from the front of the part, where the contour is below `radius`
+ */
+function intervalsBelow(profile: ProfilePoint[], radius: number): [number, number][] {
+  const intervals: [number, number][] = [];
+  for (let i = 0; i < profile.length - 1; i++) {
+    const a = profile[i];
+    const b = profile[i + 1];
+    if (a.radius >= radius && b.radius >= radius) continue;
+    let front = a.z;
+    let back = b.z;
+    if (a.radius >= radius) front = a.z + ((a.radius - radius) / (a.radius - b.radius)) * (b.z - a.z);
+    if (b.radius >= radius) back = a.z + ((a.radius - radius) / (a.radius - b.radius)) * (b.z - a.z);
+    const last = intervals[intervals.length - 1];
+    if (last && front >= last[0] - EPSILON) last[0] = Math.min(last[0], back);
+    else intervals.push([back, front]);
+  }
+  return intervals.filter(([back, front]) => front - back > EPSILON);
+}
+
+/**
+ * Radius of the contour at z, the highest when a wall passes through it
+ */
+function radiusAt(profile: ProfilePoint[], z: number): number {
+  let radius = -Infinity;
+  for (let i = 0; i < profile.length - 1; i++) {
+    const a = profile[i];
+    const b = profile[i + 1];
+    if (z > Math.max(a.z, b.z) + EPSILON || z < Math.min(a.z, b.z) - EPSILON) continue;
+    if (Math.abs(a.z - b.z) <= EPSILON) radius = Math.max(radius, a.radius, b.radius);
+    else radius = Math.max(radius, a.radius + ((z - a.z) / (b.z - a.z)) * (b.radius - a.radius));
+  }
+  return radius;
+}
+
+/**
+ * Facing passes through the stock in front of the part, down to the allowance on the face
+ */
+function longhandFacing(offset: ProfilePoint[], stockFront: number, safeX: number, startZ: number, options: ProfileTurningOptions): string {
+  const retract = options.retract ?? DEFAULT_RETRACT;
+  let gcode = '';
+  if (stockFront > offset[0].z + EPSILON) {
+    gcode += '; Facing\n';
+    for (let z = stockFront - options.stepdown; ; z -= options.stepdown) {
+      const face = Math.max(z, offset[0].z);
+      gcode += `G0 Z${format(face)}\n`;
+      gcode += `G1 X${format(2 * offset[0].radius)} F${options.roughingFeed}\n`;
+      gcode += `G1 X${format(2 * (offset[0].radius + retract))} Z${format(face + retract)}\n`;
+      gcode += `G0 X${format(safeX)}\n`;
+      if (face <= offset[0].z + EPSILON) break;
+    }
+    gcode += `G0 Z${format(startZ)}\n`;
+  }
+  return gcode;
+}
+
+/**
+ * Roughing passes along Z, each level entering pockets along the contour
+ */
+function longhandG71(offset: ProfilePoint[], stockRadius: number, stockFront: number, safeX: number, startZ: number, options: ProfileTurningOptions): string {
+  const retract = options.retract ?? DEFAULT_RETRACT;
+  const minRadius = Math.min(...offset.map(point => point.radius));
+  let gcode = `G0 X${format(safeX)} Z${format(startZ)}\n`;
+  gcode += longhandFacing(offset, stockFront, safeX, startZ, options);
+
+  for (let level = stockRadius - options.stepdown, pass = 1; level > minRadius + EPSILON; level -= options.stepdown, pass++) {
+    const intervals = intervalsBelow(offset, level);
+    if (!intervals.length) break;
+    gcode += `; Pass ${pass} X${format(2 * level)}\n`;
+    intervals.forEach(([back, front]) => {
+      if (front >= offset[0].z - EPSILON) {
+        gcode += `G0 X${format(2 * level)}\n`;
+      } else {
+        // Down the front wall of the pocket from the previous level
+        const upper = Math.min(stockRadius, level + options.stepdown);
+        // Segment where the wall crosses this level, then up the wall to the previous one
+        let crossing = 0;
+        while (crossing < offset.length - 2 &&
+          !(offset[crossing].radius >= level && offset[crossing + 1].radius < level && offset[crossing + 1].z <= front + EPSILON)) crossing++;
+        // A top of the wall below the previous level was uncovered by it
+        let top = crossing;
+        while (top > 0 && offset[top].radius < upper && offset[top - 1].radius > offset[top].radius + EPSILON) top--;
+        const a = offset[top];
+        const b = offset[top + 1];
+        const t = a.radius > b.radius + EPSILON ? Math.max(0, Math.min(1, (a.radius - upper) / (a.radius - b.radius))) : 0;
+        const enter = { z: a.z + t * (b.z - a.z), radius: a.radius + t * (b.radius - a.radius) };
+        gcode += `G0 Z${format(enter.z)}\n`;
+        gcode += `G0 X${format(2 * (enter.radius + retract))}\n`;
+        gcode += `G1 X${format(2 * enter.radius)} F${options.roughingFeed}\n`;
+        offset.slice(top + 1, crossing + 1).forEach(point => {
+          gcode += `G1 X${format(2 * point.radius)} Z${format(point.z)}\n`;
+        });
+        gcode += `G1 X${format(2 * level)} Z${format(front)}\n`;
+      }
+      gcode += `G1 Z${format(back)} F${options.roughingFeed}\n`;
+      gcode += `G1 X${format(2 * (level + retract))} Z${format(back + retract)}\n`;
+      gcode += `G0 X${format(safeX)}\n`;
+      gcode += `G0 Z${format(startZ)}\n`;
+    });
+  }
+  return gcode;
+}
+
+/**
+ * Roughing passes across the face, each level stopping at the contour within its depth of cut
+ */
+function longhandG72(offset: ProfilePoint[], stockRadius: number, stockFront: number, safeX: number, startZ: number, options: ProfileTurningOptions): string {
+  const retract = options.retract ?? DEFAULT_RETRACT;
+  const backZ = offset[offset.length - 1].z;
+  let gcode = `G0 X${format(safeX)} Z${format(startZ)}\n`;
+  gcode += longhandFacing(offset, stockFront, safeX, startZ, options);
+
+  for (let level = Math.min(stockFront, offset[0].z) - options.stepdown, pass = 1; level > backZ + EPSILON; level -= options.stepdown, pass++) {
+    // The highest contour between this level and the previous one
+    const upper = level + options.stepdown;
+    let stop = Math.max(radiusAt(offset, level), radiusAt(offset, upper));
+    offset.forEach(point => {
+      if (point.z > level && point.z < upper) stop = Math.max(stop, point.radius);
+    });
+    if (stop >= stockRadius - EPSILON) continue;
+    gcode += `; Pass ${pass} Z${format(level)}\n`;
+    gcode += `G0 Z${format(level)}\n`;
+    gcode += `G1 X${format(2 * Math.max(0, stop))} F${options.roughingFeed}\n`;
+    gcode += `G1 X${format(2 * (Math.max(0, stop) + retract))} Z${format(level + retract)}\n`;
+    gcode += `G0 X${format(safeX)}\n`;
+  }
+  gcode += `G0 Z${format(startZ)}\n`;
+  return gcode;
+}
+
+/**
+ * Profile turning program: roughing with the cycle, then the finish pass
+ */
+export function generateProfileTurning(profile: ProfilePoint[], options: ProfileTurningOptions): ProfileTurningResult {
+  const warnings: string[] = [];
+  if (profile.length < 2) {
+    throw new Error('The turning profile needs at least two points');
+  }
+  if (!(options.stepdown > 0)) {
+    throw new Error('The depth of cut must be greater than zero');
+  }
+
+  const insert = options.insert || DEFAULT_TURNING_INSERT;
+  const limited = limitProfileToInsert(profile, insert);
+  const contour = limited.profile;
+  limited.undercuts.forEach(undercut => {
+    warnings.push(
+      `${undercut.reason === 'plunge' ? 'Undercut' : 'Back-leaning shoulder'} between Z${format(undercut.zFrom)} and Z${format(undercut.zTo)} ` +
+      `is out of reach of the ${insert.includedAngle}° insert at ${insert.leadAngle}°: ${undercut.area.toFixed(2)} mm² left`
+    );
+  });
+
+  const stockRadius = options.stockDiameter / 2;
+  const stockFront = Math.max(0, options.faceStock || 0);
+  const maxRadius = Math.max(...contour.map(point => point.radius));
+  const minRadius = Math.min(...contour.map(point => point.radius));
+  const length = contour[0].z - contour[contour.length - 1].z;
+  if (maxRadius > stockRadius + EPSILON) {
+    warnings.push(`The profile (Ø${format(2 * maxRadius)}) is larger than the stock (Ø${format(options.stockDiameter)})`);
+  }
+  const cycle: TurningCycle = options.cycle === 'auto'
+    ? (stockRadius - minRadius > length ? 'G72' : 'G71')
+    : options.cycle;
+
+  // Pockets: the radius goes down again somewhere along the contour
+  const pockets = contour.some((point, index) => index > 0 && point.radius < Math.max(...contour.slice(0, index).map(p => p.radius)) - EPSILON);
+  if (pockets && cycle === 'G72') {
+    warnings.push('G72 does not rough the pockets of the profile; they are left to the finish pass');
+  }
+  // A type I G72 needs X to change one way along the contour, which pockets break
+  const form: TurningProgramForm = pockets && cycle === 'G72' ? 'longhand' : options.form;
+  if (form !== options.form) {
+    warnings.push('The contour is not monotonic in X, which the G72 cycle rejects; the roughing is written long-hand');
+  }
+
+  const retract = options.retract ?? DEFAULT_RETRACT;
+  const safe = options.safeDistance ?? DEFAULT_SAFE_DISTANCE;
+  const safeX = 2 * (stockRadius + safe);
+  const startZ = Math.max(stockFront, contour[0].z) + safe;
+  const first = contour[0];
+  const last = contour[contour.length - 1];
+
+  let gcode = `\n; Profile turning: ${cycle} roughing, G70 finishing (${form === 'canned' ? 'canned cycles' : 'long-hand'})\n`;
+  gcode += `; Profile: Ø${format(2 * minRadius)}-Ø${format(2 * maxRadius)} x ${format(length)}mm, stock Ø${format(options.stockDiameter)}\n`;
+  gcode += `; Depth of cut ${format(options.stepdown)}, allowance U${format(options.allowanceX)} W${format(options.allowanceZ)}\n`;
+  gcode += `; Insert ${insert.includedAngle}° at ${insert.leadAngle}°, nose radius ${insert.noseRadius}\n`;
+  warnings.forEach(warning => {
+    gcode += `; WARNING: ${warning}\n`;
+  });
+
+  if (form === 'canned') {
+    // Finish contour in N blocks, the direction each cycle expects
+    const blocks: string[] = [];
+    const compensation = options.noseCompensation ? 'G42 ' : '';
+    if (cycle === 'G71') {
+      // Type II, with Z in the first block, when the contour has pockets
+      blocks.push(`G0 ${compensation}X${format(2 * first.radius)}${pockets ? ` Z${format(startZ)}` : ''}`);
+      blocks.push(`G1 Z${format(first.z)} F${options.finishFeed}`);
+      contour.slice(1).forEach(point => blocks.push(`G1 X${format(2 * point.radius)} Z${format(point.z)}`));
+    } else {
+      blocks.push(`G0 ${compensation}Z${format(last.z)}`);
+      blocks.push(`G1 X${format(2 * last.radius)} F${options.finishFeed}`);
+      contour.slice(0, -1).reverse().forEach(point => blocks.push(`G1 X${format(2 * point.radius)} Z${format(point.z)}`));
+    }
+    const nf = FIRST_BLOCK + (blocks.length - 1) * BLOCK_STEP;
+
+    gcode += `G0 X${format(safeX)} Z${format(startZ)} ; Cycle start point\n`;
+    if (cycle === 'G71') {
+      gcode += `G71 U${format(options.stepdown)} R${format(retract)}\n`;
+    } else {
+      gcode += `G72 W${format(options.stepdown)} R${format(retract)}\n`;
+    }
+    gcode += `${cycle} P${FIRST_BLOCK} Q${nf} U${format(options.allowanceX)} W${format(options.allowanceZ)} F${options.roughingFeed}\n`;
+    blocks.forEach((block, index) => {
+      gcode += `N${FIRST_BLOCK + index * BLOCK_STEP} ${block}\n`;
+    });
+    gcode += `G0 X${format(safeX)} Z${format(startZ)}\n`;
+    gcode += `G70 P${FIRST_BLOCK} Q${nf} ; Finish\n`;
+    if (options.noseCompensation) gcode += 'G40\n';
+    gcode += `G0 X${format(safeX)} Z${format(startZ)}\n`;
+  } else {
+    // The contour shifted by the allowance, as the canned cycles do
+    const offset = contour.map(point => ({ z: point.z + options.allowanceZ, radius: point.radius + options.allowanceX / 2 }));
+    gcode += '; Roughing\n';
+    gcode += cycle === 'G71'
+      ? longhandG71(offset, stockRadius, stockFront, safeX, startZ, options)
+      : longhandG72(offset, stockRadius, stockFront, safeX, startZ, options);
+
+    // Along the allowance, taking off the steps between levels
+    gcode += '; Semi-finish\n';
+    gcode += `G0 X${format(2 * Math.min(offset[0].radius, stockRadius + safe))} Z${format(startZ)}\n`;
+    gcode += `G1 Z${format(offset[0].z)} F${options.roughingFeed}\n`;
+    offset.slice(1).forEach(point => { gcode += `G1 X${format(2 * point.radius)} Z${format(point.z)}\n`; });
+    const end = offset[offset.length - 1];
+    gcode += `G1 X${format(2 * (end.radius + retract))} Z${format(end.z + retract)}\n`;
+    gcode += `G0 X${format(safeX)}\n`;
+    gcode += `G0 Z${format(startZ)}\n`;
+
+    gcode += '; Finish\n';
+    gcode += `G0 ${options.noseCompensation ? 'G42 ' : ''}X${format(2 * first.radius)} Z${format(startZ)}\n`;
+    gcode += `G1 Z${format(first.z)} F${options.finishFeed}\n`;
+    contour.slice(1).forEach(point => { gcode += `G1 X${format(2 * point.radius)} Z${format(point.z)}\n`; });
+    gcode += `G1 X${format(2 * (last.radius + retract))} Z${format(last.z + retract)}\n`;
+    gcode += `G0 X${format(safeX)}\n`;
+    gcode += `G0 ${options.noseCompensation ? 'G40 ' : ''}Z${format(startZ)}\n`;
+  }
+
+  return { gcode, warnings, cycle, profile: contour, undercuts: limited.undercuts };
+}
@@ -0,0 +1,744 @@
+// Fanuc Custom Macro B and subprogram execution
+
+/**
+ * The macro interpreter runs the program the way a Fanuc control reads it
+ * and hands every NC block, with its variables already substituted, to the
+ * G-code interpreter in the order the control would execute it.
+ *
+ * Supported are #-variables (local #1-#33 per macro level, common #100-#999,
+ * system variables through callbacks), expressions with brackets, the usual
+ * functions and operators, IF/GOTO/THEN, WHILE/DO/END loops, subprogram
+ * calls with M98 P.. L.. and M99 [P..], and macro calls with G65 P.. L..
+ * and arguments. Subprograms are the O-numbered programs in the same file or
+ * programs supplied by the caller, for example downloaded from the control.
+ *
+ * Because loops can run forever, execution stops after a fixed number of
+ * blocks. Errors a control would raise an alarm for stop the program with
+ * a warning at the offending line.
+ */
+
+export type MacroValue = number | null;
+
+export interface MacroProgramOptions {
+  /** Programs outside the file, by O number */
+  subprograms?: Record<number, string>;
+  /** Initial values of common variables (#100-#999) */
+  variables?: Record<number, number>;
+  /** Blocks executed before the program is stopped as an endless loop */
+  maxBlocks?: number;
+  /** Called for every NC block in execution order */
+  onBlock: (block: string, lineNumber: number) => void;
+  warn: (lineNumber: number, message: string) => void;
+  /** System variables (#1000 onwards); undefined when not simulated */
+  readSystemVariable?: (variable: number) => MacroValue | undefined;
+  /** Returns false when writing the system variable is not simulated */
+  writeSystemVariable?: (variable: number, value: MacroValue) => boolean;
+}
+
+type Expression =
+  | { type: 'number'; value: number; text: string }
+  | { type: 'variable'; index: Expression }
+  | { type: 'unary'; operator: string; operand: Expression }
+  | { type: 'binary'; operator: string; left: Expression; right: Expression }
+  | { type: 'call'; name: string; args: Expression[] };
+
+interface AddressWord {
+  letter: string;
+  value: Expression;
+}
+
+type Statement =
+  | { type: 'assign'; target: Expression; value: Expression }
+  | { type: 'if'; condition: Expression; then: Statement }
+  | { type: 'goto'; target: Expression }
+  | { type: 'while'; condition: Expression | null; loop: number }
+  | { type: 'end'; loop: number }
+  | { type: 'block'; words: AddressWord[] }
+  | { type: 'raw' }
+  | { type: 'invalid'; message: string };
+
+type Token =
+  | { type: 'number'; value: number; text: string }
+  | { type: 'word'; text: string }
+  | { type: 'symbol'; text: string };
+
+interface SourceLine {
+  text: string;
+  lineNumber: number;
+  statement?: Statement;
+}
+
+interface MacroSource {
+  number: number | null;
+  lines: SourceLine[];
+  /** Line index by sequence number (N) */
+  labels: Map<number, number>;
+  /** Programs outside the file have no lines of their own to show */
+  external: boolean;
+}
+
+interface Frame {
+  program: MacroSource;
+  index: number;
+  repeats: number;
+  locals: MacroValue[];
+  /** Line in the file shown for blocks of external programs */
+  callLine: number;
+}
+
+interface Word {
+  letter: string;
+  value: number;
+  text: string;
+}
+
+const DEFAULT_MAX_BLOCKS = 100000;
+const MAX_NESTING = 10;
+const LOCAL_COUNT = 33;
+
+// Argument specification I of G65: address to local variable
+const ARGUMENT_VARIABLES: Record<string, number> = {
+  A: 1, B: 2, C: 3, I: 4, J: 5, K: 6, D: 7, E: 8, F: 9, H: 11, M: 13,
+  Q: 17, R: 18, S: 19, T: 20, U: 21, V: 22, W: 23, X: 24, Y: 25, Z: 26
+};
+
+const COMPARISONS = ['EQ', 'NE', 'GT', 'GE', 'LT', 'LE'];
+const FUNCTIONS = ['SIN', 'COS', 'TAN', 'ASIN', 'ACOS', 'ATAN', 'ATN', 'SQRT', 'SQR', 'ABS', 'ROUND', 'RND', 'FIX', 'FUP', 'LN', 'EXP', 'POW', 'BIN', 'BCD'];
+
+const RADIANS = Math.PI / 180;
+
+// Comments, block delete and case do not matter to the interpreter
+const cleanBlock = (line: string): string =>
+  line.replace(/\([^)]*\)/g, ' ').replace(/;.*$/, '').toUpperCase().trim().replace(/^\//, '');
+
+const isMacroBlock = (block: string): boolean =>
+  /[#[]/.test(block) || /^(?:N\s*\d+\s*)?(?:IF|GOTO|WHILE|DO\s*\d|END\s*\d)/.test(block);
+
+const tokenize = (block: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < block.length) {
+    const c = block[i];
+    if (c === ' ' || c === '\t' || c === '\r') {
+      i++;
+    } else if (/[0-9.]/.test(c)) {
+      let j = i;
+      while (j < block.length && /[0-9.]/.test(block[j])) j++;
+      const text = block.slice(i, j);
+      const value = parseFloat(text);
+      if (isNaN(value) || text.split('.').length > 2) throw new Error(`Invalid number ${text}`);
+      tokens.push({ type: 'number', value, text });
+      i = j;
+    } else if (/[A-Z]/.test(c)) {
+      let j = i;
+      while (j < block.length && /[A-Z]/.test(block[j])) j++;
+      tokens.push({ type: 'word', text: block.slice(i, j) });
+      i = j;
+    } else if ('#[],+-*/='.indexOf(c) >= 0) {
+      tokens.push({ type: 'symbol', text: c });
+      i++;
+    } else {
+      throw new Error(`Unexpected character '${c}'`);
+    }
+  }
+  return tokens;
+};
+
+// Recursive descent over the tokens of one block
+const parseStatement = (block: string): Statement => {
+  const tokens = tokenize(block);
+  let position = 0;
+
+  const peek = (): Token | undefined => tokens[position];
+  const isSymbol = (text: string) => peek()?.type === 'symbol' && peek()!.text === text;
+  const isWord = (text: string) => peek()?.type === 'word' && peek()!.text === text;
+  const expectSymbol = (text: string) => {
+    if (!isSymbol(text)) throw new Error(`Expected '${text}'`);
+    position++;
+  };
+  const expectNumber = (): number => {
+    const token = peek();
+    if (!token || token.type !== 'number') throw new Error('Expected a number');
+    position++;
+    return token.value;
+  };
+
+  const primary = (): Expression => {
+    const token = peek();
+    if (!token) throw new Error('Unexpected end of block');
+    if (token.type === 'number') {
+      position++;
+      return { type: 'number', value: token.value, text: token.text };
+    }
+    if (token.type === 'symbol' && token.text === '#') {
+      position++;
+      return { type: 'variable', index: primary() };
+    }
+    if (token.type === 'symbol' && token.text === '[') {
+      position++;
+      const inner = expression();
+      expectSymbol(']');
+      return inner;
+    }
+    if (token.type === 'word' && FUNCTIONS.indexOf(token.text) >= 0) {
+      position++;
+      expectSymbol('[');
+      const args = [expression()];
+      while (isSymbol(',')) {
+        position++;
+        args.push(expression());
+      }
+      expectSymbol(']');
+      // ATAN[a]/[b] is the two-argument arc tangent
+      if ((token.text === 'ATAN' || token.text === 'ATN') && args.length === 1 && isSymbol('/') && tokens[position + 1]?.text === '[') {
+        position += 2;
+        args.push(expression());
+        expectSymbol(']');
+      }
+      return { type: 'call', name: token.text, args };
+    }
+    throw new Error(`Unexpected '${token.text}'`);
+  };
+
+  const unary = (): Expression => {
+    if (isSymbol('-') || isSymbol('+')) {
+      const operator = peek()!.text;
+      position++;
+      return { type: 'unary', operator, operand: unary() };
+    }
+    return primary();
+  };
+
+  const multiplicative = (): Expression => {
+    let left = unary();
+    while (isSymbol('*') || isSymbol('/') || isWord('AND') || isWord('MOD')) {
+      const operator = peek()!.text;
+      position++;
+      left = { type: 'binary', operator, left, right: unary() };
+    }
+    return left;
+  };
+
+  const additive = (): Expression => {
+    let left = multiplicative();
+    while (isSymbol('+') || isSymbol('-') || isWord('OR') || isWord('XOR')) {
+      const operator = peek()!.text;
+      position++;
+      left = { type: 'binary', operator, left, right: multiplicative() };
+    }
+    return left;
+  };
+
+  const expression = (): Expression => {
+    const left = additive();
+    const token = peek();
+    if (token?.type === 'word' && COMPARISONS.indexOf(token.text) >= 0) {
+      position++;
+      return { type: 'binary', operator: token.text, left, right: additive() };
+    }
+    return left;
+  };
+
+  const bracketed = (): Expression => {
+    if (!isSymbol('[')) throw new Error("Expected '['");
+    return primary();
+  };
+
+  const assignment = (): Statement => {
+    expectSymbol('#');
+    const target = primary();
+    expectSymbol('=');
+    return { type: 'assign', target, value: expression() };
+  };
+
+  const statement = (): Statement => {
+    if (isWord('IF')) {
+      position++;
+      const condition = bracketed();
+      if (isWord('GOTO')) {
+        position++;
+        return { type: 'if', condition, then: { type: 'goto', target: expression() } };
+      }
+      if (isWord('THEN')) {
+        position++;
+        return { type: 'if', condition, then: assignment() };
+      }
+      throw new Error('Expected GOTO or THEN after IF');
+    }
+    if (isWord('GOTO')) {
+      position++;
+      return { type: 'goto', target: expression() };
+    }
+    if (isWord('WHILE')) {
+      position++;
+      const condition = bracketed();
+      if (!isWord('DO')) throw new Error('Expected DO after WHILE');
+      position++;
+      return { type: 'while', condition, loop: expectNumber() };
+    }
+    if (isWord('DO')) {
+      position++;
+      return { type: 'while', condition: null, loop: expectNumber() };
+    }
+    if (isWord('END')) {
+      position++;
+      return { type: 'end', loop: expectNumber() };
+    }
+    if (isSymbol('#')) return assignment();
+
+    // NC block with variables or expressions as values
+    const words: AddressWord[] = [];
+    while (position < tokens.length) {
+      const token = peek()!;
+      if (token.type !== 'word' || token.text.length !== 1) throw new Error(`Unexpected '${token.text}'`);
+      position++;
+      words.push({ letter: token.text, value: unary() });
+    }
+    return { type: 'block', words };
+  };
+
+  // Sequence numbers are labels, not part of the statement
+  if (tokens[0]?.type === 'word' && tokens[0].text === 'N' && tokens[1]?.type === 'number') position = 2;
+  const result = statement();
+  if (position < tokens.length) throw new Error(`Unexpected '${tokens[position].text}'`);
+  return result;
+};
+
+const statementOf = (line: SourceLine): Statement => {
+  if (!line.statement) {
+    const block = cleanBlock(line.text);
+    if (!isMacroBlock(block)) {
+      line.statement = { type: 'raw' };
+    } else {
+      try {
+        line.statement = parseStatement(block);
+      } catch (error) {
+        line.statement = { type: 'invalid', message: error instanceof Error ? error.message : String(error) };
+      }
+    }
+  }
+  return line.statement;
+};
+
+// Address words of a plain block
+const blockWords = (block: string): Word[] => {
+  const words: Word[] = [];
+  const pattern = /([A-Z])\s*([+-]?(?:\d+\.?\d*|\.\d+))/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(block)) !== null) {
+    words.push({ letter: match[1], value: parseFloat(match[2]), text: match[2] });
+  }
+  return words;
+};
+
+// Macro values are real numbers; addresses get a decimal point so that
+// they are not read in units of the least increment
+const formatValue = (letter: string, value: number): string => {
+  const rounded = Math.round(value * 1e6) / 1e6;
+  if (rounded % 1 !== 0) return String(rounded);
+  return letter === 'G' || letter === 'M' || letter === 'N' || letter === 'O' ? String(rounded) : `${rounded}.`;
+};
+
+// Split a file into its O-numbered programs; anything before the first
+// program number is a program of its own
+const splitPrograms = (text: string, external: boolean, lineNumberOffset = 0): MacroSource[] => {
+  const programs: MacroSource[] = [];
+  let current: MacroSource = { number: null, lines: [], labels: new Map(), external };
+  text.split('\n').forEach((line, index) => {
+    const block = cleanBlock(line);
+    const header = block.match(/^(?:O|:)\s*(\d+)/);
+    if (header) {
+      // Comments before the first program header belong to no program
+      if (current.lines.some(source => cleanBlock(source.text)) || current.number !== null) programs.push(current);
+      current = { number: parseInt(header[1], 10), lines: [], labels: new Map(), external };
+      return;
+    }
+    // Comment-only blocks are kept, as they name operations
+    if (!line.trim() || block.startsWith('%')) return;
+    const label = block.match(/^N\s*(\d+)/);
+    if (label && !current.labels.has(parseInt(label[1], 10))) {
+      current.labels.set(parseInt(label[1], 10), current.lines.length);
+    }
+    current.lines.push({ text: line, lineNumber: index + 1 + lineNumberOffset });
+  });
+  if (current.lines.length > 0 || current.number !== null) programs.push(current);
+  return programs;
+};
+
+/**
+ * Program numbers called with M98 or G65 that the file does not define
+ */
+export const findSubprogramCalls = (gcode: string): number[] => {
+  const defined = splitPrograms(gcode, false).map(program => program.number);
+  const calls: number[] = [];
+  gcode.split('\n').forEach(line => {
+    const block = cleanBlock(line);
+    if (!/M\s*98(?![\d.])|G\s*65(?![\d.])/.test(block)) return;
+    const words = blockWords(block);
+    const p = words.find(word => word.letter === 'P');
+    if (!p) return;
+    const isMacroCall = words.some(word => word.letter === 'G' && word.value === 65);
+    const hasL = words.some(word => word.letter === 'L');
+    // M98 P with more than four digits carries the repeat count in front
+    const program = !isMacroCall && !hasL && p.value > 9999 ? p.value % 10000 : p.value;
+    if (defined.indexOf(program) < 0 && calls.indexOf(program) < 0) calls.push(program);
+  });
+  return calls;
+};
+
+/**
+ * Run a program with macro statements and subprogram calls, passing the
+ * NC blocks to options.onBlock in execution order
+ */
+export const runMacroProgram = (gcode: string, options: MacroProgramOptions): void => {
+  const filePrograms = splitPrograms(gcode, false);
+  const main = filePrograms[0];
+  if (!main) return;
+
+  const programs = new Map<number, MacroSource>();
+  filePrograms.forEach(program => {
+    if (program.number !== null && !programs.has(program.number)) programs.set(program.number, program);
+  });
+  Object.keys(options.subprograms || {}).forEach(key => {
+    const number = parseInt(key, 10);
+    splitPrograms(options.subprograms![number], true).forEach(program => {
+      const programNumber = program.number ?? number;
+      if (!programs.has(programNumber)) programs.set(programNumber, { ...program, number: programNumber });
+    });
+  });
+
+  const common = new Map<number, MacroValue>();
+  Object.keys(options.variables || {}).forEach(key => {
+    common.set(parseInt(key, 10), options.variables![parseInt(key, 10)]);
+  });
+  const unsupportedReads = new Set<number>();
+  const maxBlocks = options.maxBlocks ?? DEFAULT_MAX_BLOCKS;
+
+  const newLocals = (): MacroValue[] => {
+    const locals: MacroValue[] = [];
+    for (let i = 0; i <= LOCAL_COUNT; i++) locals.push(null);
+    return locals;
+  };
+
+  const stack: Frame[] = [{ program: main, index: 0, repeats: 1, locals: newLocals(), callLine: 0 }];
+  let executed = 0;
+  let stopped = false;
+  let lineNumber = 0;
+
+  const variableNumber = (value: MacroValue): number => {
+    if (value === null || value < 0 || Math.abs(value - Math.round(value)) > 1e-6) {
+      throw new Error(`Invalid variable number ${value === null ? 'null' : value}`);
+    }
+    return Math.round(value);
+  };
+
+  const readVariable = (variable: number, frame: Frame): MacroValue => {
+    if (variable === 0) return null;
+    if (variable <= LOCAL_COUNT) return frame.locals[variable];
+    if (variable >= 100 && variable < 1000) return common.has(variable) ? common.get(variable)! : null;
+    if (variable >= 1000) {
+      const value = options.readSystemVariable?.(variable);
+      if (value !== undefined) return value;
+      if (!unsupportedReads.has(variable)) {
+        unsupportedReads.add(variable);
+        options.warn(lineNumber, `System variable #${variable} is not simulated; read as null`);
+      }
+      return null;
+    }
+    throw new Error(`Variable #${variable} does not exist`);
+  };
+
+  const writeVariable = (variable: number, value: MacroValue, frame: Frame, comment: string) => {
+    if (variable === 0) throw new Error('#0 is always null and cannot be assigned');
+    if (variable <= LOCAL_COUNT) {
+      frame.locals[variable] = value;
+    } else if (variable >= 100 && variable < 1000) {
+      common.set(variable, value);
+    } else if (variable === 3000) {
+      throw new Error(`Alarm ${value ?? 0}${comment ? ` ${comment}` : ''}`);
+    } else if (variable === 3006) {
+      options.warn(lineNumber, `Program stop${comment ? ` ${comment}` : ''}`);
+    } else if (variable >= 1000) {
+      if (!options.writeSystemVariable?.(variable, value)) {
+        options.warn(lineNumber, `Writing system variable #${variable} is not simulated; ignored`);
+      }
+    } else {
+      throw new Error(`Variable #${variable} does not exist`);
+    }
+  };
+
+  const number = (value: MacroValue) => value ?? 0;
+
+  const evaluate = (node: Expression, frame: Frame): MacroValue => {
+    switch (node.type) {
+      case 'number':
+        return node.value;
+      case 'variable':
+        return readVariable(variableNumber(evaluate(node.index, frame)), frame);
+      case 'unary': {
+        const operand = evaluate(node.operand, frame);
+        if (operand === null) return null;
+        return node.operator === '-' ? -operand : operand;
+      }
+      case 'binary': {
+        const left = evaluate(node.left, frame);
+        const right = evaluate(node.right, frame);
+        switch (node.operator) {
+          // Null only equals null; otherwise it counts as zero
+          case 'EQ': return left === right ? 1 : 0;
+          case 'NE': return left !== right ? 1 : 0;
+          case 'GT': return number(left) > number(right) ? 1 : 0;
+          case 'GE': return number(left) >= number(right) ? 1 : 0;
+          case 'LT': return number(left) < number(right) ? 1 : 0;
+          case 'LE': return number(left) <= number(right) ? 1 : 0;
+          case '+': return number(left) + number(right);
+          case '-': return number(left) - number(right);
+          case '*': return number(left) * number(right);
+          case '/':
+            if (number(right) === 0) throw new Error('Division by zero');
+            return number(left) / number(right);
+          case 'MOD':
+            if (number(right) === 0) throw new Error('Division by zero');
+            return number(left) % number(right);
+          case 'AND': return Math.trunc(number(left)) & Math.trunc(number(right));
+          case 'OR': return Math.trunc(number(left)) | Math.trunc(number(right));
+          case 'XOR': return Math.trunc(number(left)) ^ Math.trunc(number(right));
+        }
+        throw new Error(`Unknown operator ${node.operator}`);
+      }
+      case 'call':
+        return callFunction(node.name, node.args.map(arg => number(evaluate(arg, frame))));
+    }
+  };
+
+  const callFunction = (name: string, args: number[]): number => {
+    const [a, b] = args;
+    const expected = name === 'POW' || ((name === 'ATAN' || name === 'ATN') && args.length === 2) ? 2 : 1;
+    if (args.length !== expected) throw new Error(`${name} expects ${expected} argument${expected > 1 ? 's' : ''}`);
+    switch (name) {
+      case 'SIN': return Math.sin(a * RADIANS);
+      case 'COS': return Math.cos(a * RADIANS);
+      case 'TAN': return Math.tan(a * RADIANS);
+      case 'ASIN':
+      case 'ACOS':
+        if (Math.abs(a) > 1) throw new Error(`${name}[${a}] is out of range`);
+        return (name === 'ASIN' ? Math.asin(a) : Math.acos(a)) / RADIANS;
+      case 'ATAN':
+      case 'ATN': {
+        if (args.length === 1) return Math.atan(a) / RADIANS;
+        // Fanuc returns 0 to 360 degrees
+        const angle = Math.atan2(a, b) / RADIANS;
+        return angle < 0 ? angle + 360 : angle;
+      }
+      case 'SQRT':
+      case 'SQR':
+        if (a < 0) throw new Error(`Square root of a negative number (${a})`);
+        return Math.sqrt(a);
+      case 'ABS': return Math.abs(a);
+      case 'ROUND':
+      case 'RND': return a < 0 ? -Math.round(-a) : Math.round(a);
+      case 'FIX': return a < 0 ? Math.ceil(a) : Math.floor(a);
+      case 'FUP': return a < 0 ? Math.floor(a) : Math.ceil(a);
+      case 'LN':
+        if (a <= 0) throw new Error(`LN of a number that is not positive (${a})`);
+        return Math.log(a);
+      case 'EXP': return Math.exp(a);
+      case 'POW': return Math.pow(a, b);
+      case 'BIN': {
+        // BCD to binary
+        let value = 0;
+        let scale = 1;
+        for (let bcd = Math.trunc(a); bcd > 0; bcd = Math.floor(bcd / 16)) {
+          value += (bcd % 16) * scale;
+          scale *= 10;
+        }
+        return value;
+      }
+      case 'BCD': {
+        let value = 0;
+        let scale = 1;
+        for (let binary = Math.trunc(a); binary > 0; binary = Math.floor(binary / 10)) {
+          value += (binary % 10) * scale;
+          scale *= 16;
+        }
+        return value;
+      }
+    }
+    throw new Error(`Unknown function ${name}`);
+  };
+
+  const truthy = (node: Expression, frame: Frame) => number(evaluate(node, frame)) !== 0;
+
+  const jumpTo = (frame: Frame, label: number) => {
+    const index = frame.program.labels.get(label);
+    if (index === undefined) throw new Error(`Sequence number N${label} not found`);
+    frame.index = index;
+  };
+
+  const findLoopLine = (frame: Frame, from: number, step: number, type: 'while' | 'end', loop: number): number => {
+    for (let i = from; i >= 0 && i < frame.program.lines.length; i += step) {
+      const statement = statementOf(frame.program.lines[i]);
+      if (statement.type === type && statement.loop === loop) return i;
+    }
+    return -1;
+  };
+
+  const findProgram = (value: number): MacroSource => {
+    const program = programs.get(value);
+    if (!program) throw new Error(`Program O${String(value).padStart(4, '0')} not found`);
+    return program;
+  };
+
+  const call = (program: MacroSource, repeats: number, locals: MacroValue[]) => {
+    if (stack.length > MAX_NESTING) throw new Error(`Calls nested deeper than ${MAX_NESTING} levels`);
+    stack.push({ program, index: 0, repeats, locals, callLine: lineNumber });
+  };
+
+  // End of a program: repeat it, return to the caller or end the run
+  const returnFrom = (frame: Frame, label?: number) => {
+    if (frame.repeats > 1) {
+      frame.repeats--;
+      frame.index = 0;
+      return;
+    }
+    stack.pop();
+    const caller = stack[stack.length - 1];
+    if (caller && label !== undefined) jumpTo(caller, label);
+  };
+
+  const emit = (block: string) => {
+    options.onBlock(block, lineNumber);
+  };
+
+  // Blocks with calls, returns and program ends
+  const runBlock = (block: string, frame: Frame) => {
+    const words = blockWords(cleanBlock(block));
+    const gCodes = words.filter(word => word.letter === 'G').map(word => word.value);
+    const mCodes = words.filter(word => word.letter === 'M').map(word => word.value);
+    const value = (letter: string) => words.find(word => word.letter === letter)?.value;
+    const rest = (letters: string) => words
+      .filter(word => letters.indexOf(word.letter) < 0 && !(word.letter === 'M' && (word.value === 98 || word.value === 99)))
+      .map(word => `${word.letter}${word.text}`)
+      .join(' ');
+
+    if (gCodes.indexOf(65) >= 0) {
+      const p = value('P');
+      if (p === undefined) throw new Error('G65 without a program number');
+      const locals = newLocals();
+      words.forEach(word => {
+        const variable = ARGUMENT_VARIABLES[word.letter];
+        if (variable !== undefined) locals[variable] = word.value;
+      });
+      call(findProgram(Math.round(p)), Math.max(1, Math.round(value('L') ?? 1)), locals);
+      return;
+    }
+    if (gCodes.indexOf(66) >= 0 || gCodes.indexOf(67) >= 0) {
+      options.warn(lineNumber, 'Modal macro calls (G66/G67) are not simulated; ignored');
+      return;
+    }
+
+    if (mCodes.indexOf(98) >= 0) {
+      const p = value('P');
+      if (p === undefined) throw new Error('M98 without a program number');
+      let program = Math.round(p);
+      let repeats = Math.round(value('L') ?? 1);
+      // P with more than four digits: repeat count, then program number
+      if (value('L') === undefined && program > 9999) {
+        repeats = Math.floor(program / 10000);
+        program %= 10000;
+      }
+      const motion = rest('NPL');
+      if (motion) emit(motion);
+      // Subprograms share the local variables of the caller
+      if (repeats > 0) call(findProgram(program), repeats, frame.locals);
+      return;
+    }
+
+    if (mCodes.indexOf(99) >= 0) {
+      const motion = rest('NP');
+      if (motion) emit(motion);
+      if (stack.length === 1) {
+        options.warn(lineNumber, 'M99 in the main program repeats it endlessly; shown once');
+        stopped = true;
+        return;
+      }
+      const p = value('P');
+      returnFrom(frame, p === undefined ? undefined : Math.round(p));
+      return;
+    }
+
+    emit(block);
+    if (mCodes.indexOf(30) >= 0 || mCodes.indexOf(2) >= 0) stopped = true;
+  };
+
+  const execute = (statement: Statement, line: SourceLine, frame: Frame) => {
+    switch (statement.type) {
+      case 'raw':
+        runBlock(line.text, frame);
+        return;
+      case 'invalid':
+        throw new Error(`Cannot read block: ${statement.message}`);
+      case 'assign': {
+        const comment = (line.text.match(/\(([^)]*)\)/) || [])[1] || '';
+        writeVariable(variableNumber(evaluate(statement.target, frame)), evaluate(statement.value, frame), frame, comment.trim());
+        return;
+      }
+      case 'if':
+        if (truthy(statement.condition, frame)) execute(statement.then, line, frame);
+        return;
+      case 'goto': {
+        const target = evaluate(statement.target, frame);
+        if (target === null) throw new Error('GOTO to a null sequence number');
+        jumpTo(frame, Math.round(target));
+        return;
+      }
+      case 'while': {
+        if (statement.condition === null || truthy(statement.condition, frame)) return;
+        const end = findLoopLine(frame, frame.index, 1, 'end', statement.loop);
+        if (end < 0) throw new Error(`DO ${statement.loop} without END ${statement.loop}`);
+        frame.index = end + 1;
+        return;
+      }
+      case 'end': {
+        const start = findLoopLine(frame, frame.index - 2, -1, 'while', statement.loop);
+        if (start < 0) throw new Error(`END ${statement.loop} without DO ${statement.loop}`);
+        frame.index = start;
+        return;
+      }
+      case 'block': {
+        const words: string[] = [];
+        statement.words.forEach(word => {
+          const value = evaluate(word.value, frame);
+          // Addresses with a null value are left out
+          if (value === null) return;
+          words.push(word.value.type === 'number' ? `${word.letter}${word.value.text}` : `${word.letter}${formatValue(word.letter, value)}`);
+        });
+        if (words.length > 0) runBlock(words.join(' '), frame);
+        return;
+      }
+    }
+  };
+
+  while (stack.length > 0 && !stopped) {
+    const frame = stack[stack.length - 1];
+    if (frame.index >= frame.program.lines.length) {
+      if (stack.length === 1) break;
+      returnFrom(frame);
+      continue;
+    }
+
+    const line = frame.program.lines[frame.index++];
+    lineNumber = frame.program.external ? frame.callLine : line.lineNumber;
+    if (++executed > maxBlocks) {
+      options.warn(lineNumber, `Stopped after ${maxBlocks} blocks; the program may loop endlessly`);
+      return;
+    }
+
+    try {
+      execute(statementOf(line), line, frame);
+    } catch (error) {
+      options.warn(lineNumber, `${error instanceof Error ? error.message : String(error)}; program stopped`);
+      return;
+    }
+  }
+};
@@ -0,0 +1,583 @@
+// Rest machining: the material earlier tools leave behind, and the passes that remove it
+import { ToolpathPoint, parseGCode } from './fixed-gcode-parser';
+import { Point2D } from './adaptiveClearing';
+import { createContourTracer, createCutterLocation, generateSurfaceFinishing, SurfaceFinishingStrategy } from './surfaceFinishing';
+import { CutterProfile, HeightfieldStock, StockBounds, StockPoint, cutterProfile } from '../toolpath-viewer/StockSimulation';
+import { ToolDefinition } from '../toolpath-viewer/ToolModels';
+import { TriangleMesh } from 'src/lib/importExport/tessellation';
+
+/**
+ * Rest machining for 3-axis operations in one setup.
+ *
+ * The operations before the rest operation are replayed in order on a
+ * heightfield of the stock (see StockSimulation), each with its own tool.
+ * What is left above the part, beyond the stock to leave and thicker than a
+ * threshold that hides scallops, is the rest material.
+ *
+ * Rest roughing clears it with a smaller tool in Z levels. At each level it
+ * only cuts where there is rest material above the level within reach of the
+ * cutter and where the cutter-location surface of the part (see
+ * surfaceFinishing) lets the tool down to it; the stock model is updated as
+ * the levels are cut. Pencil machining runs surface finishing passes limited
+ * to the rest material, which lies in the concave corners and fillets the
+ * earlier tools were too large for.
+ *
+ * Coordinates are those of the part mesh, with program Z0 at the top of the
+ * part, like surface finishing. Earlier operations are given in program
+ * coordinates.
+ */
+
+export interface PriorOperation {
+  name?: string;
+  tool: ToolDefinition;
+  /** Moves of the operation, in program coordinates */
+  points: StockPoint[];
+}
+
+export interface RestMaterialOptions {
+  /** Material the rest operation is to leave on the part */
+  stockToLeave?: number;
+  /** Thinner material is not rest material; this hides scallops and the simulation error */
+  minThickness?: number;
+  /** Stock before the first operation; by default the box around the part */
+  stock?: StockBounds;
+  /** Grid spacing of the stock model in mm */
+  resolution?: number;
+  /** Upper bound on the number of grid nodes, which coarsens the resolution if needed */
+  maxNodes?: number;
+}
+
+export interface RestMaterial {
+  /** Stock after the earlier operations, in mesh coordinates */
+  stock: HeightfieldStock;
+  resolution: number;
+  /** Top of the part plus the stock to leave at every node */
+  surface: Float32Array;
+  /** Rest material at every node, zero where there is none */
+  thickness: Float32Array;
+  volume: number;
+  maxThickness: number;
+  /** Top of the part, which is Z0 of the programs */
+  top: number;
+  stockToLeave: number;
+  minThickness: number;
+  /** Diameter of the smallest tool used so far, if any */
+  smallestTool?: number;
+}
+
+export type RestMachiningMode = 'roughing' | 'pencil';
+
+export interface RestMachiningOptions {
+  mode: RestMachiningMode;
+  toolDiameter: number;
+  /** Radius of the cutter corner: half the diameter for a ball-nose, 0 for a flat end mill */
+  cornerRadius: number;
+  /** Distance between Z levels of rest roughing */
+  stepdown: number;
+  /** Distance between passes; for pencil passes, the upper limit of the scallop-based stepover */
+  stepover: number;
+  /** Height of the cusps left between pencil passes */
+  scallopHeight?: number;
+  /** Pattern of the pencil passes */
+  strategy?: SurfaceFinishingStrategy;
+  /** Lowest cut, measured down from the top of the part */
+  depth: number;
+  feedrate: number;
+  plungerate: number;
+  /** Cutting direction of pencil passes; rest roughing zigzags */
+  direction: 'climb' | 'conventional';
+  tolerance?: number;
+  /** Height for rapid moves between passes */
+  safeZ?: number;
+}
+
+export interface RestToolpath {
+  points: ToolpathPoint[];
+  gcode: string;
+  warnings: string[];
+  /** Rest material before this operation (mm³) */
+  restVolume: number;
+  /** Rest material this operation leaves behind (mm³) */
+  remainingVolume: number;
+}
+
+const DEFAULT_RESOLUTION = 0.25;
+const DEFAULT_MAX_NODES = 250000;
+const DEFAULT_MIN_THICKNESS = 0.05;
+const DEFAULT_TOLERANCE = 0.01;
+const DEFAULT_SAFE_Z = 5;
+const APPROACH_CLEARANCE = 1; // Above the material, where plunges start feeding
+const LINK_DISTANCE = 2; // Of the stepover: closer cuts on a level are linked without retracting
+const ARC_SEGMENT = 0.5; // Longest chord of the arcs of earlier operations
+
+/**
+ * Moves of an earlier operation's program, with arcs divided into chords
+ */
+export function programMoves(program: string): StockPoint[] {
+  const parsed = parseGCode(program);
+  const moves: StockPoint[] = [];
+  let arcIndex = 0;
+  let previous: StockPoint = { x: 0, y: 0, z: 0 };
+  parsed.points.forEach(point => {
+    const arc = point.isArc ? parsed.arcs[arcIndex++] : undefined;
+    if (arc) {
+      let sweep = arc.endAngle - arc.startAngle;
+      if (arc.clockwise && sweep >= -1e-9) sweep -= 2 * Math.PI;
+      if (!arc.clockwise && sweep <= 1e-9) sweep += 2 * Math.PI;
+      const segments = Math.max(4, Math.ceil((arc.radius * Math.abs(sweep)) / ARC_SEGMENT));
+      const axes: ('x' | 'y' | 'z')[] = arc.plane === 'XY' ? ['x', 'y', 'z'] : arc.plane === 'XZ' ? ['x', 'z', 'y'] : ['y', 'z', 'x'];
+      for (let i = 1; i < segments; i++) {
+        const angle = arc.startAngle + (sweep * i) / segments;
+        const along = { x: 0, y: 0, z: 0 };
+        along[axes[0]] = arc.center[axes[0]] + arc.radius * Math.cos(angle);
+        along[axes[1]] = arc.center[axes[1]] + arc.radius * Math.sin(angle);
+        // Helical moves advance along the third axis
+        along[axes[2]] = previous[axes[2]] + ((point[axes[2]] - previous[axes[2]]) * i) / segments;
+        moves.push(along);
+      }
+    }
+    moves.push({ x: point.x, y: point.y, z: point.z, isRapid: point.isRapid, type: point.type });
+    previous = point;
+  });
+  return moves;
+}
+
+/**
+ * Replays the earlier operations of the setup on the stock and measures what
+ * they leave on the part
+ */
+export function detectRestMaterial(part: TriangleMesh, operations: PriorOperation[], options: RestMaterialOptions = {}): RestMaterial {
+  if (!part || part.indices.length < 3) {
+    throw new Error('Rest material detection needs a part with at least one triangle');
+  }
+  const stockToLeave = Math.max(0, options.stockToLeave || 0);
+  const minThickness = options.minThickness ?? DEFAULT_MIN_THICKNESS;
+  const cutters = operations.map(operation => cutterProfile(operation.tool));
+
+  const min = { x: Infinity, y: Infinity, z: Infinity };
+  const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+  for (let i = 0; i < part.positions.length; i += 3) {
+    min.x = Math.min(min.x, part.positions[i]);
+    min.y = Math.min(min.y, part.positions[i + 1]);
+    min.z = Math.min(min.z, part.positions[i + 2]);
+    max.x = Math.max(max.x, part.positions[i]);
+    max.y = Math.max(max.y, part.positions[i + 1]);
+    max.z = Math.max(max.z, part.positions[i + 2]);
+  }
+  const top = max.z;
+  const bounds: StockBounds = options.stock || {
+    min: { x: min.x, y: min.y, z: Math.min(min.z, top - 1) },
+    max: { x: max.x, y: max.y, z: top }
+  };
+
+  const width = bounds.max.x - bounds.min.x;
+  const depth = bounds.max.y - bounds.min.y;
+  const resolution = Math.max(
+    options.resolution || DEFAULT_RESOLUTION,
+    Math.sqrt((width * depth) / (options.maxNodes || DEFAULT_MAX_NODES))
+  );
+  const stock = new HeightfieldStock(bounds, resolution);
+  operations.forEach((operation, k) => cutPath(stock, operation.points, cutters[k], top));
+
+  const target = stock.rasterize(part);
+  const surface = new Float32Array(target.length);
+  target.forEach((z, index) => {
+    surface[index] = z + stockToLeave;
+  });
+  const measured = measureRest(stock, surface, minThickness);
+  const diameters = operations.map(operation => operation.tool.diameter);
+
+  return {
+    stock,
+    resolution,
+    surface,
+    ...measured,
+    top,
+    stockToLeave,
+    minThickness,
+    smallestTool: diameters.length > 0 ? Math.min(...diameters) : undefined
+  };
+}
+
+/**
+ * Generates a rest roughing or pencil operation for the rest material
+ */
+export function generateRestMachining(part: TriangleMesh, rest: RestMaterial, options: RestMachiningOptions): RestToolpath {
+  const positiveParameters: [string, number][] = [
+    ['Tool diameter', options.toolDiameter],
+    ['Stepover', options.stepover],
+    ['Depth', options.depth],
+    ['Feedrate', options.feedrate],
+    ['Plunge rate', options.plungerate]
+  ];
+  if (options.mode === 'roughing') positiveParameters.push(['Stepdown', options.stepdown]);
+  positiveParameters.forEach(([name, value]) => {
+    if (!(value > 0)) throw new Error(`${name} must be greater than zero`);
+  });
+  if (!(options.cornerRadius >= 0) || options.cornerRadius > options.toolDiameter / 2 + 1e-9) {
+    throw new Error('Corner radius must be between zero and half the tool diameter');
+  }
+
+  const warnings: string[] = [];
+  const warn = (message: string) => {
+    if (!warnings.includes(message)) warnings.push(message);
+  };
+  if (rest.smallestTool === undefined) {
+    warn('No earlier operations in the setup: all the stock above the part is rest material');
+  } else if (options.toolDiameter >= rest.smallestTool) {
+    warn(`The rest tool (Ø${options.toolDiameter}) is not smaller than the earlier tools (Ø${rest.smallestTool}) and reaches little of the rest material`);
+  }
+
+  const radius = options.toolDiameter / 2;
+  const corner = Math.min(options.cornerRadius, radius);
+  const cutterName = corner >= radius - 1e-9 ? 'ball-nose' : corner > 0 ? `bull-nose R${corner}` : 'flat end mill';
+  const tool: ToolDefinition = {
+    type: corner >= radius - 1e-9 ? 'ballnose' : corner > 0 ? 'bullnose' : 'endmill',
+    diameter: options.toolDiameter,
+    radius: corner
+  };
+  const stock = copyStock(rest);
+  const safeZ = Math.max(options.safeZ ?? DEFAULT_SAFE_Z, stock.bounds.max.z - rest.top + APPROACH_CLEARANCE);
+
+  let points: ToolpathPoint[] = [];
+  let lines: string[] = [];
+  if (rest.volume <= 0) {
+    warn(`No rest material: the earlier operations leave nothing thicker than ${rest.minThickness}mm`);
+  } else if (options.mode === 'pencil') {
+    const finishing = generateSurfaceFinishing(part, {
+      toolDiameter: options.toolDiameter,
+      cornerRadius: corner,
+      strategy: options.strategy || 'parallel',
+      scallopHeight: options.scallopHeight || DEFAULT_TOLERANCE,
+      maxStepover: options.stepover,
+      depth: options.depth,
+      feedrate: options.feedrate,
+      plungerate: options.plungerate,
+      direction: options.direction,
+      tolerance: options.tolerance,
+      stockToLeave: rest.stockToLeave,
+      safeZ,
+      region: restRegion(rest, radius)
+    });
+    points = finishing.points;
+    lines = finishing.gcode.trimEnd().split('\n').filter(line => !line.startsWith('; Warning:'));
+    finishing.warnings.forEach(warn);
+    cutPath(stock, points, cutterProfile(tool), rest.top);
+  } else {
+    const roughing = restRoughing(part, rest, stock, cutterProfile(tool), options, safeZ);
+    points = roughing.points;
+    lines = roughing.lines;
+  }
+
+  const remainingVolume = measureRest(stock, rest.surface, rest.minThickness).volume;
+  const header = options.mode === 'pencil'
+    ? `; Rest finishing (pencil) - ${cutterName} Ø${options.toolDiameter}`
+    : `; Rest roughing - ${cutterName} Ø${options.toolDiameter}, stepdown ${options.stepdown}mm, stepover ${options.stepover}mm`;
+  lines.unshift(
+    header,
+    `; Rest material: ${rest.volume.toFixed(1)}mm³ before, ${remainingVolume.toFixed(1)}mm³ after`,
+    ...warnings.map(message => `; Warning: ${message}`)
+  );
+
+  return { points, gcode: `${lines.join('\n')}\n`, warnings, restVolume: rest.volume, remainingVolume };
+}
+
+/**
+ * Z-level clearing of the rest material by zigzag lines, then by the contours
+ * of the cutter-location surface along the walls. Each level cuts only where
+ * there is rest material above it within the cutter radius and where the
+ * cutter does not reach into the part; the cuts are applied to the stock
+ * before the next level.
+ */
+function restRoughing(
+  part: TriangleMesh,
+  rest: RestMaterial,
+  stock: HeightfieldStock,
+  cutter: CutterProfile,
+  options: RestMachiningOptions,
+  safeZ: number
+): { points: ToolpathPoint[]; lines: string[] } {
+  const tolerance = options.tolerance || DEFAULT_TOLERANCE;
+  const radius = options.toolDiameter / 2;
+  const { cl, box, top, floor, cutter: location } = createCutterLocation(part, {
+    toolDiameter: options.toolDiameter,
+    cornerRadius: options.cornerRadius,
+    depth: options.depth,
+    stockToLeave: rest.stockToLeave
+  });
+  const { nx, ny, heights } = stock;
+  const { surface, minThickness } = rest;
+  const stepover = options.stepover;
+  const sampling = Math.max(tolerance, Math.min(radius / 4, stepover / 2));
+  // Zigzag lines stop short of walls by up to a stepover; contours of the cutter-location surface clean them up
+  const contours = createContourTracer(cl, box, location.radius, tolerance, options.direction);
+
+  // Levels from one stepdown below the highest rest material to the lowest the tool may go
+  let restTop = -Infinity;
+  let restBottom = Infinity;
+  rest.thickness.forEach((thickness, index) => {
+    if (thickness <= 0) return;
+    restTop = Math.max(restTop, heights[index]);
+    restBottom = Math.min(restBottom, surface[index]);
+  });
+  const lowest = Math.max(floor, restBottom);
+  const levels: number[] = [];
+  for (let z = restTop - options.stepdown; z > lowest + tolerance; z -= options.stepdown) levels.push(z);
+  levels.push(lowest);
+
+  const points: ToolpathPoint[] = [];
+  const lines: string[] = [];
+  let position = { x: NaN, y: NaN, z: NaN };
+  let feed = NaN;
+  const move = (rapid: boolean, x: number, y: number, z: number, feedrate: number, comment?: string) => {
+    if (Math.abs(x - position.x) < 1e-6 && Math.abs(y - position.y) < 1e-6 && Math.abs(z - position.z) < 1e-6) return;
+    let line = `${rapid ? 'G0' : 'G1'} X${x.toFixed(3)} Y${y.toFixed(3)} Z${z.toFixed(3)}`;
+    if (!rapid && feedrate !== feed) {
+      line += ` F${feedrate}`;
+      feed = feedrate;
+    }
+    lines.push(comment ? `${line} ; ${comment}` : line);
+    points.push(rapid ? { x, y, z, type: 'G0', isRapid: true } : { x, y, z, feedrate, type: 'G1', isRapid: false });
+    position = { x, y, z };
+  };
+
+  const nodeAt = (x: number, y: number): number => {
+    const i = Math.round((x - stock.bounds.min.x) / stock.spacingX);
+    const j = Math.round((y - stock.bounds.min.y) / stock.spacingY);
+    return i < 0 || j < 0 || i >= nx || j >= ny ? -1 : j * nx + i;
+  };
+  // Highest material under the cutter, for the height plunges start feeding from
+  const materialTop = (x: number, y: number): number => {
+    let highest = -Infinity;
+    const minI = Math.max(0, Math.floor((x - radius - stock.bounds.min.x) / stock.spacingX));
+    const maxI = Math.min(nx - 1, Math.ceil((x + radius - stock.bounds.min.x) / stock.spacingX));
+    const minJ = Math.max(0, Math.floor((y - radius - stock.bounds.min.y) / stock.spacingY));
+    const maxJ = Math.min(ny - 1, Math.ceil((y + radius - stock.bounds.min.y) / stock.spacingY));
+    for (let j = minJ; j <= maxJ; j++) {
+      for (let i = minI; i <= maxI; i++) highest = Math.max(highest, heights[j * nx + i]);
+    }
+    return highest;
+  };
+
+  levels.forEach(z => {
+    // Rest material above the level, and the cutter positions that reach it
+    const material = new Uint8Array(nx * ny);
+    let found = false;
+    for (let index = 0; index < material.length; index++) {
+      if (heights[index] - Math.max(z, surface[index]) > minThickness) {
+        material[index] = 1;
+        found = true;
+      }
+    }
+    if (!found) return;
+    const reach = dilate(stock, material, radius);
+    let minI = nx;
+    let maxI = -1;
+    let minJ = ny;
+    let maxJ = -1;
+    reach.forEach((value, index) => {
+      if (!value) return;
+      minI = Math.min(minI, index % nx);
+      maxI = Math.max(maxI, index % nx);
+      minJ = Math.min(minJ, Math.floor(index / nx));
+      maxJ = Math.max(maxJ, Math.floor(index / nx));
+    });
+
+    const useful = (x: number, y: number) => {
+      const index = nodeAt(x, y);
+      return index >= 0 && reach[index] === 1;
+    };
+    const free = (x: number, y: number) => cl(x, y) <= z + 1e-9;
+    // Last point clear of the part between a clear and a blocked position
+    const boundary = (clear: Point2D, blocked: Point2D): Point2D => {
+      while (Math.hypot(blocked.x - clear.x, blocked.y - clear.y) > tolerance / 4) {
+        const mid = { x: (clear.x + blocked.x) / 2, y: (clear.y + blocked.y) / 2 };
+        if (free(mid.x, mid.y)) clear = mid;
+        else blocked = mid;
+      }
+      return clear;
+    };
+    const clearBetween = (a: Point2D, b: Point2D) => {
+      const steps = Math.max(1, Math.ceil(Math.hypot(b.x - a.x, b.y - a.y) / sampling));
+      for (let s = 1; s < steps; s++) {
+        if (!free(a.x + ((b.x - a.x) * s) / steps, a.y + ((b.y - a.y) * s) / steps)) return false;
+      }
+      return true;
+    };
+
+    // Cuts along lines in X, one line per stepover, alternating in direction
+    const x0 = stock.nodeX(minI);
+    const x1 = stock.nodeX(maxI);
+    const y0 = stock.nodeY(minJ);
+    const y1 = stock.nodeY(maxJ);
+    const lineCount = Math.max(1, Math.ceil((y1 - y0) / stepover));
+    const sampleCount = Math.max(1, Math.ceil((x1 - x0) / sampling));
+    const cuts: Point2D[][] = [];
+    for (let k = 0; k <= lineCount; k++) {
+      const y = y0 + ((y1 - y0) * k) / lineCount;
+      const samples = Array.from({ length: sampleCount + 1 }, (_, s) => {
+        const x = x0 + ((x1 - x0) * s) / sampleCount;
+        const reaches = useful(x, y);
+        return { x, y, reaches, clear: reaches && free(x, y) };
+      });
+      const line: Point2D[][] = [];
+      let s = 0;
+      while (s < samples.length) {
+        if (!samples[s].clear) {
+          s++;
+          continue;
+        }
+        const first = s;
+        while (s + 1 < samples.length && samples[s + 1].clear) s++;
+        // Up to the part where the run stops against it, not just to the last sample
+        const before = samples[first - 1];
+        const after = samples[s + 1];
+        const start = before && before.reaches ? boundary(samples[first], before) : samples[first];
+        const end = after && after.reaches ? boundary(samples[s], after) : samples[s];
+        if (Math.hypot(end.x - start.x, end.y - start.y) > tolerance) {
+          line.push([{ x: start.x, y: start.y }, { x: end.x, y: end.y }]);
+        }
+        s++;
+      }
+      if (k % 2 === 1) line.reverse().forEach(cut => cuts.push(cut.reverse()));
+      else line.forEach(cut => cuts.push(cut));
+    }
+
+    // Parts of the contours at the level that reach rest material, nearest first
+    const runs: Point2D[][] = [];
+    contours.trace(z).forEach(contour => {
+      let run: Point2D[] = [];
+      (contour.closed ? contour.points.concat([contour.points[0]]) : contour.points).forEach(p => {
+        if (useful(p.x, p.y)) {
+          run.push(p);
+          return;
+        }
+        if (run.length > 1) runs.push(run);
+        run = [];
+      });
+      if (run.length > 1) runs.push(run);
+    });
+    let last = cuts.length > 0 ? cuts[cuts.length - 1][cuts[cuts.length - 1].length - 1] : { x: x0, y: y0 };
+    while (runs.length > 0) {
+      let best = 0;
+      let bestDistance = Infinity;
+      runs.forEach((run, r) => {
+        const distance = Math.hypot(run[0].x - last.x, run[0].y - last.y);
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = r;
+        }
+      });
+      const run = runs.splice(best, 1)[0];
+      cuts.push(run);
+      last = run[run.length - 1];
+    }
+    if (cuts.length === 0) return;
+
+    const levelZ = z - top;
+    const levelStart = Math.max(0, points.length - 1);
+    lines.push('', `; Z Level: ${levelZ.toFixed(3)}`);
+    cuts.forEach(cut => {
+      const start = cut[0];
+      const gap = Math.hypot(start.x - position.x, start.y - position.y);
+      if (Math.abs(position.z - levelZ) < 1e-9 && gap <= LINK_DISTANCE * stepover && clearBetween(position, start)) {
+        move(false, start.x, start.y, levelZ, options.feedrate);
+      } else {
+        if (isNaN(position.z)) move(true, start.x, start.y, safeZ, 0);
+        else move(true, position.x, position.y, safeZ, 0, 'Retract');
+        move(true, start.x, start.y, safeZ, 0);
+        const approach = Math.max(levelZ, materialTop(start.x, start.y) - top) + APPROACH_CLEARANCE;
+        move(true, start.x, start.y, Math.min(safeZ, approach), 0);
+        move(false, start.x, start.y, levelZ, options.plungerate);
+      }
+      cut.slice(1).forEach(p => move(false, p.x, p.y, levelZ, options.feedrate));
+    });
+    // The next level sees the material this one removed
+    cutPath(stock, points.slice(levelStart), cutter, top);
+  });
+  if (points.length > 0) move(true, position.x, position.y, safeZ, 0, 'Retract');
+
+  return { points, lines };
+}
+
+// Cuts the moves of a program, given with Z0 at the top of the part, into the stock
+function cutPath(stock: HeightfieldStock, points: StockPoint[], cutter: CutterProfile, top: number): void {
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1];
+    const to = points[i];
+    stock.cut({ x: from.x, y: from.y, z: from.z + top }, { x: to.x, y: to.y, z: to.z + top }, cutter);
+  }
+}
+
+function measureRest(stock: HeightfieldStock, surface: Float32Array, minThickness: number) {
+  const thickness = new Float32Array(surface.length);
+  let volume = 0;
+  let maxThickness = 0;
+  for (let index = 0; index < surface.length; index++) {
+    const excess = stock.heights[index] - surface[index];
+    if (excess > minThickness) {
+      thickness[index] = excess;
+      volume += excess * stock.nodeArea;
+      maxThickness = Math.max(maxThickness, excess);
+    }
+  }
+  return { thickness, volume, maxThickness };
+}
+
+function copyStock(rest: RestMaterial): HeightfieldStock {
+  const stock = new HeightfieldStock(rest.stock.bounds, rest.resolution);
+  stock.heights.set(rest.stock.heights);
+  return stock;
+}
+
+// Nodes within a distance of any marked node
+function dilate(stock: HeightfieldStock, marked: Uint8Array, distance: number): Uint8Array {
+  const { nx, ny, spacingX, spacingY } = stock;
+  // Distance along each row to the nearest marked node
+  const along = new Float64Array(nx * ny).fill(Infinity);
+  for (let j = 0; j < ny; j++) {
+    let last = -Infinity;
+    for (let i = 0; i < nx; i++) {
+      if (marked[j * nx + i]) last = i;
+      along[j * nx + i] = (i - last) * spacingX;
+    }
+    last = Infinity;
+    for (let i = nx - 1; i >= 0; i--) {
+      if (marked[j * nx + i]) last = i;
+      along[j * nx + i] = Math.min(along[j * nx + i], (last - i) * spacingX);
+    }
+  }
+
+  const rows = Math.floor(distance / spacingY);
+  const reached = new Uint8Array(nx * ny);
+  for (let j = 0; j < ny; j++) {
+    for (let i = 0; i < nx; i++) {
+      for (let dj = -rows; dj <= rows; dj++) {
+        const row = j + dj;
+        if (row < 0 || row >= ny) continue;
+        const dx = along[row * nx + i];
+        if (dx * dx + (dj * spacingY) ** 2 <= distance * distance) {
+          reached[j * nx + i] = 1;
+          break;
+        }
+      }
+    }
+  }
+  return reached;
+}
+
+// Where a cutter of the radius touches rest material
+function restRegion(rest: RestMaterial, radius: number): (x: number, y: number) => boolean {
+  const { stock } = rest;
+  const marked = new Uint8Array(rest.thickness.length);
+  rest.thickness.forEach((thickness, index) => {
+    if (thickness > 0) marked[index] = 1;
+  });
+  // One node further, so the region does not fall between nodes
+  const reach = dilate(stock, marked, radius + Math.max(stock.spacingX, stock.spacingY));
+  return (x, y) => {
+    const i = Math.round((x - stock.bounds.min.x) / stock.spacingX);
+    const j = Math.round((y - stock.bounds.min.y) / stock.spacingY);
+    return i >= 0 && j >= 0 && i < stock.nx && j < stock.ny && reach[j * stock.nx + i] === 1;
+  };
+}
@@ -0,0 +1,1003 @@
+// 3D surface finishing by drop-cutter
+import { ToolpathPoint } from './fixed-gcode-parser';
+import { Point2D } from './adaptiveClearing';
+import { TriangleMesh } from 'src/lib/importExport/tessellation';
+
+/**
+ * Finishing passes over a triangulated part for ball, flat and bull-nose
+ * cutters.
+ *
+ * Every cutter is treated as a torus: a flat bottom of radius R - r with a
+ * corner of radius r around it (r = R for a ball, 0 for a flat end mill).
+ * The cutter-location height at a point is found by dropping the cutter on
+ * the mesh and keeping the highest contact with any vertex, facet interior or
+ * edge, so the tip is never placed below the surface. Between cutter
+ * locations moves are subdivided until they stay within the tolerance of the
+ * cutter-location surface, and steep steps in it are crossed vertically.
+ *
+ * Parallel, spiral and radial passes follow the surface from above; waterline
+ * passes are the contours of the cutter-location surface at constant Z,
+ * which suits steep walls. The distance between passes comes from the
+ * scallop height the cutter corner leaves, limited by the maximum stepover.
+ *
+ * Passes cover the XY extent of the part, or the parts of it inside an
+ * optional region, and do not go lower than `depth` below its top. Z0 is the
+ * top of the part.
+ */
+
+export type SurfaceFinishingStrategy = 'parallel' | 'waterline' | 'spiral' | 'radial';
+
+export interface SurfaceFinishingOptions {
+  toolDiameter: number;
+  /** Radius of the cutter corner: half the diameter for a ball-nose, 0 for a flat end mill */
+  cornerRadius: number;
+  strategy: SurfaceFinishingStrategy;
+  /** Height of the cusps left between adjacent passes */
+  scallopHeight: number;
+  /** Upper limit of the distance between passes */
+  maxStepover: number;
+  /** Lowest cut, measured down from the top of the part */
+  depth: number;
+  feedrate: number;
+  plungerate: number;
+  direction: 'climb' | 'conventional';
+  /** Allowed deviation of the moves from the cutter-location surface */
+  tolerance?: number;
+  /** Material left on the surface */
+  stockToLeave?: number;
+  /** Direction of parallel passes, in degrees from the X axis */
+  rasterAngle?: number;
+  /** Centre of spiral and radial passes; the centre of the part by default */
+  center?: Point2D;
+  /** Height for rapid moves between passes */
+  safeZ?: number;
+  /** Only machine where this is true, such as the material left by earlier tools */
+  region?: (x: number, y: number) => boolean;
+}
+
+export interface SurfaceToolpath {
+  points: ToolpathPoint[];
+  gcode: string;
+  warnings: string[];
+}
+
+interface Point3D {
+  x: number;
+  y: number;
+  z: number;
+}
+
+interface Box2D {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+interface Cutter {
+  radius: number;
+  cornerRadius: number;
+  /** Radius of the flat part of the bottom */
+  flatRadius: number;
+}
+
+interface Pass {
+  path: Point3D[];
+  /** Waterline level the pass belongs to */
+  level?: number;
+  /** Entered from the safe height, never linked along the surface to the pass before */
+  retract?: boolean;
+}
+
+const DEFAULT_TOLERANCE = 0.01;
+const DEFAULT_SAFE_Z = 5;
+const APPROACH_CLEARANCE = 1; // Above the pass start, where plunges start feeding
+const EDGE_TOLERANCE = 1e-7; // Resolution of the contact search along an edge
+const MAX_GRID_CELLS = 250000;
+const MAX_SUBDIVISIONS = 16;
+const MAX_WATERLINE_LEVELS = 100; // Each level traces contours over the whole grid
+const LINK_DISTANCE = 2; // Of the stepover: closer passes are linked along the surface
+const GOLDEN = (Math.sqrt(5) - 1) / 2;
+
+// Height of the cutter surface above its tip at a distance rho from the axis
+const profileHeight = (cutter: Cutter, rho: number): number => {
+  if (rho <= cutter.flatRadius) return 0;
+  const t = rho - cutter.flatRadius;
+  return cutter.cornerRadius - Math.sqrt(Math.max(0, cutter.cornerRadius * cutter.cornerRadius - t * t));
+};
+
+/**
+ * Builds the drop-cutter query for a mesh: the lowest height of the cutter
+ * tip at (x, y) that does not cut into any triangle, and never below `floor`.
+ */
+const createDropCutter = (mesh: TriangleMesh, cutter: Cutter, floor: number) => {
+  const { positions, indices } = mesh;
+  const count = Math.floor(indices.length / 3);
+  const R = cutter.radius;
+  const triangles = new Float64Array(count * 9);
+  const planes = new Float64Array(count * 4); // Unit normal pointing up, and its offset
+  const bounds = new Float64Array(count * 5); // minX, minY, maxX, maxY, maxZ
+
+  const box: Box2D = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  for (let t = 0; t < count; t++) {
+    for (let k = 0; k < 3; k++) {
+      const v = indices[t * 3 + k] * 3;
+      triangles[t * 9 + k * 3] = positions[v];
+      triangles[t * 9 + k * 3 + 1] = positions[v + 1];
+      triangles[t * 9 + k * 3 + 2] = positions[v + 2];
+    }
+    const [ax, ay, az, bx, by, bz, cx, cy, cz] = Array.from(triangles.subarray(t * 9, t * 9 + 9));
+    let nx = (by - ay) * (cz - az) - (bz - az) * (cy - ay);
+    let ny = (bz - az) * (cx - ax) - (bx - ax) * (cz - az);
+    let nz = (bx - ax) * (cy - ay) - (by - ay) * (cx - ax);
+    const length = Math.sqrt(nx * nx + ny * ny + nz * nz);
+    if (length > 0) {
+      const sign = nz < 0 ? -1 : 1;
+      nx = (nx / length) * sign;
+      ny = (ny / length) * sign;
+      nz = (nz / length) * sign;
+    }
+    planes[t * 4] = nx;
+    planes[t * 4 + 1] = ny;
+    planes[t * 4 + 2] = length > 0 ? nz : 0;
+    planes[t * 4 + 3] = nx * ax + ny * ay + nz * az;
+    bounds[t * 5] = Math.min(ax, bx, cx);
+    bounds[t * 5 + 1] = Math.min(ay, by, cy);
+    bounds[t * 5 + 2] = Math.max(ax, bx, cx);
+    bounds[t * 5 + 3] = Math.max(ay, by, cy);
+    bounds[t * 5 + 4] = Math.max(az, bz, cz);
+    box.minX = Math.min(box.minX, bounds[t * 5]);
+    box.minY = Math.min(box.minY, bounds[t * 5 + 1]);
+    box.maxX = Math.max(box.maxX, bounds[t * 5 + 2]);
+    box.maxY = Math.max(box.maxY, bounds[t * 5 + 3]);
+  }
+
+  // Triangles binned on an XY grid, so a query only visits those near the cutter
+  const width = Math.max(box.maxX - box.minX, 1e-9);
+  const height = Math.max(box.maxY - box.minY, 1e-9);
+  const cellSize = Math.max(R, Math.sqrt((width * height) / MAX_GRID_CELLS));
+  const nx = Math.ceil(width / cellSize) + 1;
+  const ny = Math.ceil(height / cellSize) + 1;
+  const cells: number[][] = Array.from({ length: nx * ny }, () => []);
+  const cellX = (x: number) => Math.max(0, Math.min(nx - 1, Math.floor((x - box.minX) / cellSize)));
+  const cellY = (y: number) => Math.max(0, Math.min(ny - 1, Math.floor((y - box.minY) / cellSize)));
+  for (let t = 0; t < count; t++) {
+    for (let j = cellY(bounds[t * 5 + 1]); j <= cellY(bounds[t * 5 + 3]); j++) {
+      for (let i = cellX(bounds[t * 5]); i <= cellX(bounds[t * 5 + 2]); i++) {
+        cells[j * nx + i].push(t);
+      }
+    }
+  }
+  const visited = new Int32Array(count);
+  let query = 0;
+
+  const vertexContact = (x: number, y: number, px: number, py: number, pz: number): number => {
+    const rho = Math.hypot(px - x, py - y);
+    return rho <= R ? pz - profileHeight(cutter, rho) : -Infinity;
+  };
+
+  // Contact of the cutter with the plane of the triangle, when it falls inside the triangle
+  const facetContact = (t: number, x: number, y: number): number => {
+    const nx = planes[t * 4];
+    const ny = planes[t * 4 + 1];
+    const nz = planes[t * 4 + 2];
+    if (nz < 1e-9) return -Infinity;
+    const slope = Math.hypot(nx, ny);
+    let px = x;
+    let py = y;
+    if (slope > 1e-12) {
+      // The cutter touches on its uphill side, where its surface normal is opposite to the plane's
+      const reach = cutter.flatRadius / slope + cutter.cornerRadius;
+      px = x - nx * reach;
+      py = y - ny * reach;
+    }
+
+    const o = t * 9;
+    const ax = triangles[o];
+    const ay = triangles[o + 1];
+    const d1 = (triangles[o + 3] - ax) * (py - ay) - (triangles[o + 4] - ay) * (px - ax);
+    const d2 = (triangles[o + 6] - triangles[o + 3]) * (py - triangles[o + 4]) - (triangles[o + 7] - triangles[o + 4]) * (px - triangles[o + 3]);
+    const d3 = (ax - triangles[o + 6]) * (py - triangles[o + 7]) - (ay - triangles[o + 7]) * (px - triangles[o + 6]);
+    if ((d1 < 0 || d2 < 0 || d3 < 0) && (d1 > 0 || d2 > 0 || d3 > 0)) return -Infinity;
+
+    return (planes[t * 4 + 3] - nx * px - ny * py) / nz - cutter.cornerRadius * (1 - nz);
+  };
+
+  // Highest contact along an edge. In the vertical plane of the edge the
+  // surface is a line and the cutter a convex profile, so their difference
+  // is concave and has a single maximum.
+  const edgeContact = (o1: number, o2: number, x: number, y: number, best: number): number => {
+    const ax = triangles[o1];
+    const ay = triangles[o1 + 1];
+    const az = triangles[o1 + 2];
+    const dx = triangles[o2] - ax;
+    const dy = triangles[o2 + 1] - ay;
+    const length = Math.hypot(dx, dy);
+    if (length < 1e-12) return -Infinity; // Vertical edges touch with their top vertex
+    const ux = dx / length;
+    const uy = dy / length;
+    const along = (x - ax) * ux + (y - ay) * uy;
+    const offset = Math.abs((x - ax) * uy - (y - ay) * ux);
+    if (offset >= R) return -Infinity;
+    const chord = Math.sqrt(R * R - offset * offset);
+    let lo = Math.max(0, along - chord);
+    let hi = Math.min(length, along + chord);
+    if (lo > hi) return -Infinity;
+    const slope = (triangles[o2 + 2] - az) / length;
+    if (az + slope * (slope > 0 ? hi : lo) - profileHeight(cutter, offset) <= best) return -Infinity;
+
+    const f = (s: number) => az + slope * s - profileHeight(cutter, Math.sqrt(offset * offset + (s - along) * (s - along)));
+    let x1 = hi - GOLDEN * (hi - lo);
+    let x2 = lo + GOLDEN * (hi - lo);
+    let f1 = f(x1);
+    let f2 = f(x2);
+    let top = Math.max(f(lo), f(hi), f1, f2);
+    while (hi - lo > EDGE_TOLERANCE) {
+      if (f1 < f2) {
+        lo = x1;
+        x1 = x2;
+        f1 = f2;
+        x2 = lo + GOLDEN * (hi - lo);
+        f2 = f(x2);
+        top = Math.max(top, f2);
+      } else {
+        hi = x2;
+        x2 = x1;
+        f2 = f1;
+        x1 = hi - GOLDEN * (hi - lo);
+        f1 = f(x1);
+        top = Math.max(top, f1);
+      }
+    }
+    // What the search may have missed within the final interval
+    return top + Math.abs(slope) * (hi - lo);
+  };
+
+  const drop = (x: number, y: number): number => {
+    let best = floor;
+    query++;
+    for (let j = cellY(y - R); j <= cellY(y + R); j++) {
+      for (let i = cellX(x - R); i <= cellX(x + R); i++) {
+        const cell = cells[j * nx + i];
+        for (let c = 0; c < cell.length; c++) {
+          const t = cell[c];
+          if (visited[t] === query) continue;
+          visited[t] = query;
+          // Nothing on this triangle is higher than its top vertex
+          if (bounds[t * 5 + 4] <= best) continue;
+          if (x + R < bounds[t * 5] || x - R > bounds[t * 5 + 2] || y + R < bounds[t * 5 + 1] || y - R > bounds[t * 5 + 3]) continue;
+
+          const o = t * 9;
+          for (let k = 0; k < 3; k++) {
+            best = Math.max(best, vertexContact(x, y, triangles[o + k * 3], triangles[o + k * 3 + 1], triangles[o + k * 3 + 2]));
+          }
+          best = Math.max(best, facetContact(t, x, y));
+          if (bounds[t * 5 + 4] <= best) continue;
+          best = Math.max(best, edgeContact(o, o + 3, x, y, best));
+          best = Math.max(best, edgeContact(o + 3, o + 6, x, y, best));
+          best = Math.max(best, edgeContact(o + 6, o, x, y, best));
+        }
+      }
+    }
+    return best;
+  };
+
+  return { drop, box };
+};
+
+// Part of the segment a-b inside the box (Liang-Barsky), as parameters along it
+const clipSegment = (a: Point2D, b: Point2D, box: Box2D): [number, number] | null => {
+  let t0 = 0;
+  let t1 = 1;
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const edges: [number, number][] = [
+    [-dx, a.x - box.minX],
+    [dx, box.maxX - a.x],
+    [-dy, a.y - box.minY],
+    [dy, box.maxY - a.y]
+  ];
+  for (const [p, q] of edges) {
+    if (Math.abs(p) < 1e-12) {
+      if (q < 0) return null;
+    } else {
+      const r = q / p;
+      if (p < 0) t0 = Math.max(t0, r);
+      else t1 = Math.min(t1, r);
+    }
+  }
+  return t0 <= t1 ? [t0, t1] : null;
+};
+
+// Pieces of a polyline that lie inside the box
+const clipPolyline = (polyline: Point2D[], box: Box2D): Point2D[][] => {
+  const pieces: Point2D[][] = [];
+  let current: Point2D[] = [];
+  const at = (a: Point2D, b: Point2D, t: number) => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+  for (let i = 1; i < polyline.length; i++) {
+    const a = polyline[i - 1];
+    const b = polyline[i];
+    const clip = clipSegment(a, b, box);
+    if (!clip) continue;
+    if (current.length === 0 || clip[0] > 0) {
+      if (current.length > 1) pieces.push(current);
+      current = [at(a, b, clip[0])];
+    }
+    current.push(at(a, b, clip[1]));
+    if (clip[1] < 1) {
+      pieces.push(current);
+      current = [];
+    }
+  }
+  if (current.length > 1) pieces.push(current);
+  return pieces.filter(piece => piece.length > 1);
+};
+
+const parallelPattern = (box: Box2D, stepover: number, angleDegrees: number): Point2D[][] => {
+  const angle = (angleDegrees * Math.PI) / 180;
+  const u = { x: Math.cos(angle), y: Math.sin(angle) };
+  const v = { x: -u.y, y: u.x };
+  const corners = [
+    { x: box.minX, y: box.minY },
+    { x: box.maxX, y: box.minY },
+    { x: box.maxX, y: box.maxY },
+    { x: box.minX, y: box.maxY }
+  ];
+  const us = corners.map(p => p.x * u.x + p.y * u.y);
+  const vs = corners.map(p => p.x * v.x + p.y * v.y);
+  const uMin = Math.min(...us) - 1;
+  const uMax = Math.max(...us) + 1;
+  const vMin = Math.min(...vs);
+  const vMax = Math.max(...vs);
+  const count = Math.max(1, Math.ceil((vMax - vMin) / stepover - 1e-9));
+
+  const passes: Point2D[][] = [];
+  for (let k = 0; k <= count; k++) {
+    const offset = vMin + ((vMax - vMin) * k) / count;
+    const line = [
+      { x: u.x * uMin + v.x * offset, y: u.y * uMin + v.y * offset },
+      { x: u.x * uMax + v.x * offset, y: u.y * uMax + v.y * offset }
+    ];
+    // Zigzag: every other pass runs back
+    clipPolyline(passes.length % 2 === 0 ? line : line.reverse(), box).forEach(piece => passes.push(piece));
+  }
+  return passes;
+};
+
+const spiralPattern = (box: Box2D, center: Point2D, stepover: number, sampling: number, turn: number): Point2D[][] => {
+  const reach = Math.max(
+    ...[box.minX, box.maxX].map(x => Math.max(...[box.minY, box.maxY].map(y => Math.hypot(x - center.x, y - center.y))))
+  );
+  const spiral: Point2D[] = [];
+  let angle = 0;
+  for (;;) {
+    const radius = (stepover * angle) / (2 * Math.PI);
+    spiral.push({ x: center.x + radius * Math.cos(turn * angle), y: center.y + radius * Math.sin(turn * angle) });
+    if (radius > reach) break;
+    angle += Math.min(0.25, sampling / Math.max(radius, stepover));
+  }
+  return clipPolyline(spiral, box);
+};
+
+const radialPattern = (box: Box2D, center: Point2D, stepover: number, turn: number): Point2D[][] => {
+  const reach = Math.max(
+    ...[box.minX, box.maxX].map(x => Math.max(...[box.minY, box.maxY].map(y => Math.hypot(x - center.x, y - center.y))))
+  );
+  // A power of two of spokes, so the centre can be thinned out by halves
+  const levels = Math.max(2, Math.ceil(Math.log2((2 * Math.PI * reach) / stepover)));
+  const count = Math.pow(2, levels);
+
+  const passes: Point2D[][] = [];
+  for (let k = 0; k < count; k++) {
+    // Spokes at multiples of 2^j apart are close enough inside reach / 2^j, so
+    // a spoke that is only a multiple of 2^j starts at reach / 2^(j + 1)
+    let j = 0;
+    while (j < levels && k % Math.pow(2, j + 1) === 0) j++;
+    const start = k === 0 ? 0 : reach / Math.pow(2, j + 1);
+    const angle = (turn * 2 * Math.PI * k) / count;
+    const spoke = [
+      { x: center.x + start * Math.cos(angle), y: center.y + start * Math.sin(angle) },
+      { x: center.x + reach * Math.cos(angle), y: center.y + reach * Math.sin(angle) }
+    ];
+    clipPolyline(k % 2 === 0 ? spoke : spoke.reverse(), box).forEach(piece => passes.push(piece));
+  }
+  return passes;
+};
+
+/**
+ * Cutter-location surface of a tool over a part: the height of the tip at
+ * (x, y) that leaves the stock to leave on the part, never lower than `depth`
+ * below the top of the part. Heights are in the coordinates of the mesh.
+ */
+export const createCutterLocation = (
+  mesh: TriangleMesh,
+  options: Pick<SurfaceFinishingOptions, 'toolDiameter' | 'cornerRadius' | 'depth' | 'stockToLeave'>
+) => {
+  const stock = Math.max(0, options.stockToLeave || 0);
+  const radius = options.toolDiameter / 2;
+  const corner = Math.min(options.cornerRadius, radius);
+  // Leaving stock is cutting with a cutter that is larger by the stock all around
+  const cutter: Cutter = { radius: radius + stock, cornerRadius: corner + stock, flatRadius: radius - corner };
+
+  let top = -Infinity;
+  let bottom = Infinity;
+  for (let i = 2; i < mesh.positions.length; i += 3) {
+    top = Math.max(top, mesh.positions[i]);
+    bottom = Math.min(bottom, mesh.positions[i]);
+  }
+  const floor = Math.max(bottom, top - options.depth);
+  const dropper = createDropCutter(mesh, cutter, floor - stock);
+  const cl = (x: number, y: number): number => dropper.drop(x, y) + stock;
+
+  return { cl, box: dropper.box, top, floor, cutter };
+};
+
+/**
+ * Generates 3D finishing passes over a triangle mesh
+ */
+export const generateSurfaceFinishing = (mesh: TriangleMesh, options: SurfaceFinishingOptions): SurfaceToolpath => {
+  if (!mesh || mesh.indices.length < 3) {
+    throw new Error('Surface finishing needs a part with at least one triangle');
+  }
+  const positiveParameters: [string, number][] = [
+    ['Tool diameter', options.toolDiameter],
+    ['Scallop height', options.scallopHeight],
+    ['Maximum stepover', options.maxStepover],
+    ['Depth', options.depth],
+    ['Feedrate', options.feedrate],
+    ['Plunge rate', options.plungerate]
+  ];
+  positiveParameters.forEach(([name, value]) => {
+    if (!(value > 0)) throw new Error(`${name} must be greater than zero`);
+  });
+  if (!(options.cornerRadius >= 0) || options.cornerRadius > options.toolDiameter / 2 + 1e-9) {
+    throw new Error('Corner radius must be between zero and half the tool diameter');
+  }
+
+  const warnings: string[] = [];
+  const warn = (message: string) => {
+    if (!warnings.includes(message)) warnings.push(message);
+  };
+
+  const tolerance = options.tolerance || DEFAULT_TOLERANCE;
+  const radius = options.toolDiameter / 2;
+  const corner = Math.min(options.cornerRadius, radius);
+  const { cl, box, top, floor, cutter } = createCutterLocation(mesh, options);
+
+  let stepover = options.maxStepover;
+  if (corner > 0) {
+    const h = Math.min(options.scallopHeight, corner);
+    stepover = Math.min(stepover, 2 * Math.sqrt(2 * corner * h - h * h));
+  } else {
+    warn('A flat end mill leaves steps on sloped surfaces; the scallop height is not controlled');
+  }
+  stepover = Math.max(stepover, tolerance);
+  const sampling = Math.max(tolerance, Math.min(radius / 4, stepover));
+  const minLength = Math.max(tolerance, 1e-3);
+  const turn = options.direction === 'climb' ? 1 : -1;
+  const center = options.center || { x: (box.minX + box.maxX) / 2, y: (box.minY + box.maxY) / 2 };
+
+  // Moves between two cutter locations, split until they are within tolerance of the
+  // surface at their quarter points; one midpoint alone can happen to fall on the line
+  const refine = (a: Point3D, b: Point3D, out: Point3D[], level: number) => {
+    const probes = [0.25, 0.5, 0.75].map(t => {
+      const x = a.x + (b.x - a.x) * t;
+      const y = a.y + (b.y - a.y) * t;
+      return { x, y, z: cl(x, y), deviation: 0 };
+    });
+    probes.forEach((p, i) => {
+      p.deviation = p.z - (a.z + ((b.z - a.z) * (i + 1)) / 4);
+    });
+    if (probes.every(p => Math.abs(p.deviation) <= tolerance / 2)) {
+      out.push(b);
+      return;
+    }
+    if (level >= MAX_SUBDIVISIONS || Math.hypot(b.x - a.x, b.y - a.y) / 2 < minLength) {
+      // A step in the surface: climb it vertically, or go over it before coming down
+      const over = Math.max(a.z, b.z, ...probes.map(p => p.z));
+      if (a.z < over) out.push({ x: a.x, y: a.y, z: over });
+      if (b.z < over) out.push({ x: b.x, y: b.y, z: over });
+      out.push(b);
+      return;
+    }
+    const mid = { x: probes[1].x, y: probes[1].y, z: probes[1].z };
+    refine(a, mid, out, level + 1);
+    refine(mid, b, out, level + 1);
+  };
+
+  // Drops the cutter along a polyline
+  const trace = (polyline: Point2D[]): Point3D[] => {
+    const path: Point3D[] = [];
+    polyline.forEach((p, i) => {
+      if (i === 0) {
+        path.push({ x: p.x, y: p.y, z: cl(p.x, p.y) });
+        return;
+      }
+      const from = polyline[i - 1];
+      const steps = Math.max(1, Math.ceil(Math.hypot(p.x - from.x, p.y - from.y) / sampling));
+      for (let s = 1; s <= steps; s++) {
+        const x = from.x + ((p.x - from.x) * s) / steps;
+        const y = from.y + ((p.y - from.y) * s) / steps;
+        refine(path[path.length - 1], { x, y, z: cl(x, y) }, path, 0);
+      }
+    });
+    return path;
+  };
+  // Removes the points the moves do not need
+  const follow = (polyline: Point2D[]): Point3D[] => simplify(trace(polyline), tolerance / 2);
+
+  // Parts of a pass inside the region; split before points in line are merged, so no cut is lost
+  const restrict = (path: Point3D[]): Point3D[][] => {
+    const region = options.region;
+    if (!region) return [path];
+    const runs: Point3D[][] = [];
+    let run: Point3D[] = [];
+    path.forEach(p => {
+      if (region(p.x, p.y)) {
+        run.push(p);
+        return;
+      }
+      if (run.length > 1) runs.push(run);
+      run = [];
+    });
+    if (run.length > 1) runs.push(run);
+    return runs;
+  };
+
+  const passes: Pass[] = [];
+  if (options.strategy === 'waterline') {
+    waterlinePasses(cl, box, cutter.radius, floor, top, stepover, tolerance, options.direction, warn).forEach(pass => {
+      restrict(pass.path).forEach(path => passes.push({ ...pass, path }));
+    });
+  } else {
+    let pattern: Point2D[][];
+    if (options.strategy === 'spiral') {
+      pattern = spiralPattern(box, center, stepover, sampling, turn);
+    } else if (options.strategy === 'radial') {
+      pattern = radialPattern(box, center, stepover, turn);
+    } else {
+      pattern = parallelPattern(box, stepover, options.rasterAngle || 0);
+    }
+    pattern.forEach(polyline => {
+      restrict(trace(polyline)).forEach(path => passes.push({ path: simplify(path, tolerance / 2) }));
+    });
+  }
+  if (passes.length === 0) {
+    warn(options.region
+      ? 'No finishing passes: nothing to machine in the region'
+      : 'No finishing passes: the part is below the machining depth');
+  }
+
+  // Emit the passes with Z measured from the top of the part
+  const safeZ = options.safeZ ?? DEFAULT_SAFE_Z;
+  const points: ToolpathPoint[] = [];
+  const lines: string[] = [];
+  let position = { x: NaN, y: NaN, z: NaN };
+  let feed = NaN;
+
+  const move = (rapid: boolean, x: number, y: number, z: number, feedrate: number, comment?: string) => {
+    if (Math.abs(x - position.x) < 1e-6 && Math.abs(y - position.y) < 1e-6 && Math.abs(z - position.z) < 1e-6) return;
+    let line = `${rapid ? 'G0' : 'G1'} X${x.toFixed(3)} Y${y.toFixed(3)} Z${z.toFixed(3)}`;
+    if (!rapid && feedrate !== feed) {
+      line += ` F${feedrate}`;
+      feed = feedrate;
+    }
+    lines.push(comment ? `${line} ; ${comment}` : line);
+    points.push(rapid ? { x, y, z, type: 'G0', isRapid: true } : { x, y, z, feedrate, type: 'G1', isRapid: false });
+    position = { x, y, z };
+  };
+  const cutTo = (p: Point3D) => move(false, p.x, p.y, p.z - top, options.feedrate);
+
+  const cutterName = corner >= radius - 1e-9 ? 'ball-nose' : corner > 0 ? `bull-nose R${corner}` : 'flat end mill';
+  lines.push(
+    `; 3D surface finishing - ${options.strategy}, ${cutterName} Ø${options.toolDiameter}, ` +
+    `stepover ${stepover.toFixed(3)}mm, scallop ${options.scallopHeight}mm`
+  );
+  // Points where the cutter would be in the part are left out and the pass split there;
+  // the cutter retracts between the pieces rather than feeding through the part
+  let blocked = 0;
+  const pieces: Pass[] = [];
+  passes.forEach(pass => {
+    let piece: Point3D[] = [];
+    pass.path.forEach(p => {
+      if (!inPart(cl, p, tolerance)) {
+        piece.push(p);
+        return;
+      }
+      blocked++;
+      if (piece.length > 1) pieces.push({ ...pass, path: piece, retract: pass.retract || piece[0] !== pass.path[0] });
+      piece = [];
+    });
+    if (piece.length > 1) pieces.push({ ...pass, path: piece, retract: pass.retract || piece[0] !== pass.path[0] });
+  });
+  if (blocked > 0) {
+    warn(`${blocked} finishing points would cut into the part and were left out`);
+  }
+
+  let level: number | undefined;
+  pieces.forEach(pass => {
+    const start = pass.path[0];
+    if (pass.level !== undefined && pass.level !== level) {
+      level = pass.level;
+      lines.push('', `; Z Level: ${(level - top).toFixed(3)}`);
+    }
+    const gap = Math.hypot(start.x - position.x, start.y - position.y);
+    if (!isNaN(position.z) && !pass.retract && gap <= LINK_DISTANCE * stepover) {
+      // Close passes are joined along the surface, which is as gouge-free as the passes
+      follow([{ x: position.x, y: position.y }, { x: start.x, y: start.y }]).forEach(cutTo);
+      cutTo(start);
+    } else {
+      if (isNaN(position.z)) move(true, start.x, start.y, safeZ, 0);
+      else move(true, position.x, position.y, safeZ, 0, 'Retract');
+      move(true, start.x, start.y, safeZ, 0);
+      move(true, start.x, start.y, Math.min(safeZ, start.z - top + APPROACH_CLEARANCE), 0);
+      move(false, start.x, start.y, start.z - top, options.plungerate);
+    }
+    pass.path.forEach(cutTo);
+  });
+  if (points.length > 0) move(true, position.x, position.y, safeZ, 0, 'Retract');
+  lines.splice(1, 0, ...warnings.map(message => `; Warning: ${message}`));
+
+  return { points, gcode: `${lines.join('\n')}\n`, warnings };
+};
+
+// Whether the tip at p cuts into the part by more than the tolerance: it is further than that
+// below the cutter-location surface and than that away from where it would be clear, since on
+// a steep wall a move sideways within the tolerance is a large one in Z
+const inPart = (cl: (x: number, y: number) => number, p: Point3D, tolerance: number): boolean => {
+  if (cl(p.x, p.y) <= p.z + tolerance) return false;
+  for (let k = 0; k < 8; k++) {
+    const angle = (k * Math.PI) / 4;
+    if (cl(p.x + tolerance * Math.cos(angle), p.y + tolerance * Math.sin(angle)) <= p.z) return false;
+  }
+  return true;
+};
+
+// Drops points in line with their neighbours and within the tolerance of the move that replaces them
+const simplify = (path: Point3D[], tolerance: number): Point3D[] => {
+  if (path.length < 3) return path;
+  const kept = [path[0]];
+  let anchor = 0;
+  for (let end = 2; end < path.length; end++) {
+    const a = path[anchor];
+    const b = path[end];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    let fits = lengthSq > 1e-18;
+    for (let i = anchor + 1; fits && i < end; i++) {
+      const p = path[i];
+      const t = ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq;
+      const off = Math.abs((p.x - a.x) * dy - (p.y - a.y) * dx) / Math.sqrt(lengthSq);
+      // Sideways the cutter-location surface can be as steep as a wall, so only points in line are dropped
+      fits = t >= 0 && t <= 1 && off <= 1e-6 && Math.abs(a.z + (b.z - a.z) * t - p.z) <= tolerance;
+    }
+    if (!fits) {
+      anchor = end - 1;
+      kept.push(path[anchor]);
+    }
+  }
+  kept.push(path[path.length - 1]);
+  return kept;
+};
+
+// Drops the points of a contour within the tolerance of the move that replaces them
+const simplifyContour = (path: Point2D[], tolerance: number): Point2D[] => {
+  if (path.length < 3) return path;
+  const kept = [path[0]];
+  let anchor = 0;
+  for (let end = 2; end < path.length; end++) {
+    const a = path[anchor];
+    const b = path[end];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    let fits = lengthSq > 1e-18;
+    for (let i = anchor + 1; fits && i < end; i++) {
+      const p = path[i];
+      const t = ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq;
+      fits = t >= 0 && t <= 1 && Math.abs((p.x - a.x) * dy - (p.y - a.y) * dx) / Math.sqrt(lengthSq) <= tolerance;
+    }
+    if (!fits) {
+      anchor = end - 1;
+      kept.push(path[anchor]);
+    }
+  }
+  kept.push(path[path.length - 1]);
+  return kept;
+};
+
+export interface Contour {
+  points: Point2D[];
+  closed: boolean;
+}
+
+/**
+ * Contours of a cutter-location surface at constant Z, traced by marching
+ * squares on a grid of drop-cutter heights and refined to the exact crossing.
+ * Inside a contour the cutter would cut into the part; the contours are
+ * oriented so that the part is on the right of the cutter when climb milling.
+ * Moves that would cut into the part between crossings are pushed out until
+ * clear; those that cannot be are left out, which opens the loop, and
+ * `unresolved` counts them. Closed loops do not repeat their first point.
+ * Points in line within half the tolerance are merged.
+ */
+export const createContourTracer = (
+  cl: (x: number, y: number) => number,
+  box: Box2D,
+  radius: number,
+  tolerance: number,
+  direction: 'climb' | 'conventional'
+) => {
+  // The grid reaches past the part by more than the cutter radius, so every contour closes
+  const margin = radius * 1.25 + tolerance;
+  const width = box.maxX - box.minX + 2 * margin;
+  const height = box.maxY - box.minY + 2 * margin;
+  const spacing = Math.max(radius / 4, Math.sqrt((width * height) / MAX_GRID_CELLS));
+  const nx = Math.ceil(width / spacing) + 1;
+  const ny = Math.ceil(height / spacing) + 1;
+  const x0 = box.minX - margin;
+  const y0 = box.minY - margin;
+  const heights = new Float64Array(nx * ny);
+  for (let j = 0; j < ny; j++) {
+    for (let i = 0; i < nx; i++) {
+      heights[j * nx + i] = cl(x0 + i * spacing, y0 + j * spacing);
+    }
+  }
+  const node = (index: number): Point2D => ({ x: x0 + (index % nx) * spacing, y: y0 + Math.floor(index / nx) * spacing });
+  let unresolved = 0;
+
+  const trace = (z: number): Contour[] => {
+    const blocked = (index: number) => heights[index] > z;
+
+    // Crossing on a grid edge, on the side where the cutter is clear of the part
+    const crossings = new Map<number, Point2D>();
+    const crossing = (edge: number): Point2D => {
+      const known = crossings.get(edge);
+      if (known) return known;
+      const a = edge >> 1;
+      const b = edge & 1 ? a + nx : a + 1;
+      const freeNode = blocked(a) ? b : a;
+      const cutNode = blocked(a) ? a : b;
+      const origin = node(freeNode);
+      const end = node(cutNode);
+      const at = (distance: number): Point2D => ({
+        x: origin.x + ((end.x - origin.x) * distance) / spacing,
+        y: origin.y + ((end.y - origin.y) * distance) / spacing
+      });
+      // Distances from the free node that bracket the crossing, closed in from where the heights
+      // at their ends interpolate to z and from just past there, which on a smooth surface takes
+      // a few drops; a step that does not halve the bracket is followed by a bisection
+      let free = 0;
+      let cut = spacing;
+      let freeHeight = heights[freeNode];
+      let cutHeight = heights[cutNode];
+      const probe = (distance: number) => {
+        const p = at(distance);
+        const height = cl(p.x, p.y);
+        if (height > z) {
+          cut = distance;
+          cutHeight = height;
+        } else {
+          free = distance;
+          freeHeight = height;
+        }
+      };
+      let bisect = false;
+      while (cut - free > tolerance / 4) {
+        const width = cut - free;
+        if (bisect) {
+          probe((free + cut) / 2);
+        } else {
+          const margin = tolerance / 8;
+          const guess = Math.max(free + margin, Math.min(cut - margin, free + (width * (z - freeHeight)) / (cutHeight - freeHeight)));
+          probe(guess);
+          if (free === guess && guess + 2 * margin < cut) probe(guess + 2 * margin);
+          else if (cut === guess && guess - 2 * margin > free) probe(guess - 2 * margin);
+        }
+        bisect = cut - free > width / 2;
+      }
+      const point = at(free);
+      crossings.set(edge, point);
+      return point;
+    };
+
+    // Each cell contributes segments from an edge entering the part to one leaving
+    // it, going counterclockwise around the cell, so the part is on their right
+    const next = new Map<number, number>();
+    for (let j = 0; j < ny - 1; j++) {
+      for (let i = 0; i < nx - 1; i++) {
+        const c = j * nx + i;
+        const inside = blocked(c);
+        if (blocked(c + 1) === inside && blocked(c + nx + 1) === inside && blocked(c + nx) === inside) continue;
+        const corners = [c, c + 1, c + nx + 1, c + nx];
+        const edges = [2 * c, 2 * (c + 1) + 1, 2 * (c + nx), 2 * c + 1];
+        const starts: number[] = [];
+        const ends: number[] = [];
+        for (let k = 0; k < 4; k++) {
+          const from = blocked(corners[k]);
+          const to = blocked(corners[(k + 1) % 4]);
+          if (!from && to) starts.push(k);
+          else if (from && !to) ends.push(k);
+        }
+        if (starts.length === 1) {
+          next.set(edges[starts[0]], edges[ends[0]]);
+        } else if (starts.length === 2) {
+          // Saddle: the centre decides whether the part connects across the cell
+          const centre = cl(x0 + (i + 0.5) * spacing, y0 + (j + 0.5) * spacing) > z;
+          starts.forEach(k => {
+            const end = ends.find(e => e === (centre ? (k + 3) % 4 : (k + 1) % 4));
+            if (end !== undefined) next.set(edges[k], edges[end]);
+          });
+        }
+      }
+    }
+
+    const loops: Point2D[][] = [];
+    next.forEach((_, first) => {
+      if (!next.has(first)) return;
+      const loop: Point2D[] = [];
+      let edge: number | undefined = first;
+      while (edge !== undefined && next.has(edge)) {
+        loop.push(crossing(edge));
+        const following: number | undefined = next.get(edge);
+        next.delete(edge);
+        edge = following;
+      }
+      if (loop.length > 2) loops.push(direction === 'climb' ? loop : loop.reverse());
+    });
+
+    // Points and moves of a contour checked against the part, the moves at the spacing the grid resolves
+    const clear = (p: Point2D) => !inPart(cl, { x: p.x, y: p.y, z }, tolerance);
+    const clearMove = (a: Point2D, b: Point2D): boolean => {
+      const steps = Math.ceil(Math.hypot(b.x - a.x, b.y - a.y) / (spacing / 4));
+      for (let s = 1; s < steps; s++) {
+        if (!clear({ x: a.x + ((b.x - a.x) * s) / steps, y: a.y + ((b.y - a.y) * s) / steps })) return false;
+      }
+      return true;
+    };
+
+    // The points and moves of a simplified contour that cut into the part are left out,
+    // opening the contour there; a closed one broken up goes on across its first point
+    const clearContour = (points: Point2D[], closed: boolean): Contour[] => {
+      const path = closed ? points.concat([points[0]]) : points;
+      const pieces: Point2D[][] = [[]];
+      path.forEach(p => {
+        const piece = pieces[pieces.length - 1];
+        if (!clear(p)) {
+          unresolved++;
+          if (piece.length > 0) pieces.push([]);
+          return;
+        }
+        if (piece.length > 0 && !clearMove(piece[piece.length - 1], p)) {
+          unresolved++;
+          pieces.push([p]);
+          return;
+        }
+        piece.push(p);
+      });
+      if (closed && pieces.length === 1 && pieces[0].length === path.length) {
+        return [{ points, closed: true }];
+      }
+      const last = pieces[pieces.length - 1];
+      if (closed && pieces.length > 1 && pieces[0][0] === path[0] && last[last.length - 1] === path[path.length - 1]) {
+        const first = pieces.shift() as Point2D[];
+        pieces[pieces.length - 1] = last.concat(first.slice(1));
+      }
+      return pieces.filter(piece => piece.length > 1).map(piece => ({ points: piece, closed: false }));
+    };
+
+    // Moves between crossings that would cut into the part are pushed out until clear,
+    // or left out, splitting the loop into runs that the cutter retracts between
+    const clearLoop = (loop: Point2D[]): Contour[] => {
+      const runs: Point2D[][] = [[loop[0]]];
+      const side = direction === 'climb' ? 1 : -1;
+      const push = (a: Point2D, b: Point2D, level: number) => {
+        const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+        if (cl(mid.x, mid.y) <= z + tolerance / 2) {
+          runs[runs.length - 1].push(b);
+          return;
+        }
+        const length = Math.hypot(b.x - a.x, b.y - a.y);
+        if (level >= MAX_SUBDIVISIONS || length < 1e-9) {
+          unresolved++;
+          runs.push([b]);
+          return;
+        }
+        // Away from the part, which lies to the right when climbing
+        const normal = { x: (-(b.y - a.y) / length) * side, y: ((b.x - a.x) / length) * side };
+        let cut = mid;
+        let reach = spacing;
+        let free = { x: mid.x + normal.x * reach, y: mid.y + normal.y * reach };
+        while (cl(free.x, free.y) > z && reach < 4 * spacing) {
+          reach *= 2;
+          free = { x: mid.x + normal.x * reach, y: mid.y + normal.y * reach };
+        }
+        while (Math.hypot(cut.x - free.x, cut.y - free.y) > tolerance / 4) {
+          const probe = { x: (free.x + cut.x) / 2, y: (free.y + cut.y) / 2 };
+          if (cl(probe.x, probe.y) > z) cut = probe;
+          else free = probe;
+        }
+        push(a, free, level + 1);
+        push(free, b, level + 1);
+      };
+      loop.forEach((p, i) => {
+        if (i > 0) push(loop[i - 1], p, 0);
+      });
+      push(loop[loop.length - 1], loop[0], 0);
+
+      // The last move of a loop returns to its first point, which is not repeated
+      if (runs.length === 1) {
+        return clearContour(simplifyContour(runs[0], tolerance / 2).slice(0, -1), true);
+      }
+      // Otherwise the last run goes on into the first
+      const first = runs.shift() as Point2D[];
+      runs[runs.length - 1] = runs[runs.length - 1].concat(first.slice(1));
+      const contours: Contour[] = [];
+      runs
+        .filter(run => run.length > 1)
+        .forEach(run => contours.push(...clearContour(simplifyContour(run, tolerance / 2), false)));
+      return contours;
+    };
+
+    const contours: Contour[] = [];
+    loops.forEach(loop => contours.push(...clearLoop(loop)));
+    return contours;
+  };
+
+  return { trace, unresolved: () => unresolved };
+};
+
+/**
+ * Waterline passes: the contours of the cutter-location surface at each
+ * level, nearest first. The levels are spread out when there would be too
+ * many to trace in reasonable time.
+ */
+const waterlinePasses = (
+  cl: (x: number, y: number) => number,
+  box: Box2D,
+  radius: number,
+  floor: number,
+  top: number,
+  stepdown: number,
+  tolerance: number,
+  direction: 'climb' | 'conventional',
+  warn: (message: string) => void
+): Pass[] => {
+  if ((top - floor) / stepdown > MAX_WATERLINE_LEVELS) {
+    stepdown = (top - floor) / MAX_WATERLINE_LEVELS;
+    warn(`Waterline stepdown raised to ${stepdown.toFixed(3)}mm to keep to ${MAX_WATERLINE_LEVELS} levels; steep walls exceed the scallop height`);
+  }
+  const tracer = createContourTracer(cl, box, radius, tolerance, direction);
+  const passes: Pass[] = [];
+  let last: Point2D = { x: box.minX, y: box.minY };
+  for (let z = top - stepdown; z > floor + tolerance; z -= stepdown) {
+    const contours = tracer.trace(z);
+
+    // Nearest contour next, loops started at their point nearest to where the cutter is
+    while (contours.length > 0) {
+      let best = 0;
+      let bestStart = 0;
+      let bestDistance = Infinity;
+      contours.forEach((contour, c) => {
+        (contour.closed ? contour.points : contour.points.slice(0, 1)).forEach((p, k) => {
+          const distance = Math.hypot(p.x - last.x, p.y - last.y);
+          if (distance < bestDistance) {
+            bestDistance = distance;
+            best = c;
+            bestStart = k;
+          }
+        });
+      });
+      const { points, closed } = contours.splice(best, 1)[0];
+      const ordered = closed ? points.slice(bestStart).concat(points.slice(0, bestStart + 1)) : points;
+      const path = ordered.map(p => ({ x: p.x, y: p.y, z }));
+      passes.push({ path, level: z, retract: !closed });
+      last = path[path.length - 1];
+    }
+  }
+  if (tracer.unresolved() > 0) {
+    warn(`${tracer.unresolved()} waterline moves could not be kept clear of the part within tolerance and were left out`);
+  }
+  return passes;
+};
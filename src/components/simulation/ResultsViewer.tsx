@@ -36,6 +36,7 @@ const ResultsViewer: React.FC<ResultsViewerProps> = ({
     results.temperatureDistribution.length > 1;
   
   const timeSteps = hasTimeData ? (results as ThermalAnalysisResults).temperatureDistribution.length : 0;
+  const timePoints = hasTimeData ? (results as ThermalAnalysisResults).timePoints : undefined;
   
   useEffect(() => {
     if (isPlaying && hasTimeData) {
@@ -163,6 +164,8 @@ const ResultsViewer: React.FC<ResultsViewerProps> = ({
         
         const deltaT = maxTemp - minTemp;
         summaryPoints.push(`Temperature Differential: ${deltaT.toFixed(1)}°C`);
+        
+        (thermalResults.warnings || []).forEach(warning => summaryPoints.push(`Warning: ${warning}`));
       }
     }
     
@@ -268,7 +271,9 @@ const ResultsViewer: React.FC<ResultsViewerProps> = ({
                 className="w-64"
               />
               <div className="text-sm">
-                Time: {(timeStep / (timeSteps - 1) * 100).toFixed(0)}%
+                {timePoints && timePoints[timeStep] !== undefined
+                  ? `Time: ${timePoints[timeStep].toFixed(1)} s`
+                  : `Time: ${(timeStep / (timeSteps - 1) * 100).toFixed(0)}%`}
               </div>
             </div>
           )}
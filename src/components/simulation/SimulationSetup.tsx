@@ -2,10 +2,19 @@ import React, { useState, useEffect } from 'react';
 import { Vector3 } from 'three';
 import { Material } from '../../lib/simulation/FEAEngine';
 import { StressAnalysis, StressAnalysisParams } from '../../lib/simulation/StressAnalysis';
-import { ThermalAnalysis, ThermalAnalysisParams, ThermalSource, ThermalBoundary } from '../../lib/simulation/ThermalAnalysis';
+import { ThermalAnalysis, ThermalAnalysisParams, ThermalSource, ThermalBoundary, ThermalScheduleKey } from '../../lib/simulation/ThermalAnalysis';
 
 type SimulationType = 'stress' | 'thermal' | 'coupled';
 
+// Schedule keys written as "time:factor" pairs, e.g. "0:1, 5:1, 6:0"
+const parseSchedule = (text: string): ThermalScheduleKey[] | undefined => {
+  const keys = text.split(',')
+    .map(pair => pair.split(':').map(value => parseFloat(value)))
+    .filter(pair => pair.length === 2 && !isNaN(pair[0]) && !isNaN(pair[1]) && pair[0] >= 0 && pair[1] >= 0)
+    .map(([time, factor]) => ({ time, factor }));
+  return keys.length > 0 ? keys : undefined;
+};
+
 interface SimulationSetupProps {
   meshId: string;
   onRunSimulation: (params: StressAnalysisParams | ThermalAnalysisParams, type: SimulationType) => void;
@@ -33,11 +42,12 @@ const SimulationSetup: React.FC<SimulationSetupProps> = ({ meshId, onRunSimulati
   
   // Thermal analysis specific states
   const [ambientTemperature, setAmbientTemperature] = useState<number>(293.15); // 20°C in Kelvin
-  const [heatSources, setHeatSources] = useState<Array<ThermalSource & { id: string }>>([]);
+  const [heatSources, setHeatSources] = useState<Array<ThermalSource & { id: string; scheduleText?: string }>>([]);
   const [boundaries, setBoundaries] = useState<Array<ThermalBoundary & { id: string }>>([]);
   const [steadyState, setSteadyState] = useState<boolean>(true);
   const [simulationTime, setSimulationTime] = useState<number>(10);
   const [timeSteps, setTimeSteps] = useState<number>(10);
+  const [initialTemperature, setInitialTemperature] = useState<number>(293.15);
   
   useEffect(() => {
     // Load materials
@@ -148,6 +158,12 @@ const SimulationSetup: React.FC<SimulationSetupProps> = ({ meshId, onRunSimulati
               parseFloat(value)
             )
           };
+        } else if (key === 'power') {
+          // Without a power the source holds its temperature
+          const power = parseFloat(value);
+          return { ...source, power: isNaN(power) ? undefined : power };
+        } else if (key === 'schedule') {
+          return { ...source, scheduleText: value, schedule: parseSchedule(value) };
         } else {
           return { ...source, [key]: key === 'temperature' || key === 'radius' ? parseFloat(value) : value };
         }
@@ -186,7 +202,7 @@ const SimulationSetup: React.FC<SimulationSetupProps> = ({ meshId, onRunSimulati
           };
         } else {
           return { ...boundary, [key]: 
-            key === 'temperature' || key === 'radius' || key === 'convectionCoefficient' 
+            key === 'temperature' || key === 'radius' || key === 'convectionCoefficient' || key === 'emissivity'
               ? parseFloat(value) 
               : value 
           };
@@ -221,16 +237,20 @@ const SimulationSetup: React.FC<SimulationSetupProps> = ({ meshId, onRunSimulati
     } else if (simulationType === 'thermal' || simulationType === 'coupled') {
       const thermalParams: ThermalAnalysisParams = {
         ambientTemperature,
+        initialTemperature: steadyState ? undefined : initialTemperature,
         heatSources: heatSources.map(h => ({ 
           position: h.position, 
           radius: h.radius, 
-          temperature: h.temperature 
+          temperature: h.temperature,
+          power: h.power,
+          schedule: h.schedule
         })),
         boundaries: boundaries.map(b => ({ 
           position: b.position, 
           radius: b.radius, 
           temperature: b.temperature,
-          convectionCoefficient: b.convectionCoefficient
+          convectionCoefficient: b.convectionCoefficient,
+          emissivity: b.emissivity
         })),
         material: selectedMaterial,
         steadyState,
@@ -577,6 +597,41 @@ const SimulationSetup: React.FC<SimulationSetupProps> = ({ meshId, onRunSimulati
                     </p>
                   </div>
                 </div>
+                
+                <div className="grid grid-cols-2 gap-2 mb-2">
+                  <div>
+                    <label className="block text-xs">Power (W)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      value={source.power ?? ''}
+                      placeholder="Fixed temperature"
+                      onChange={(e) => handleUpdateHeatSource(source.id, 'power', e.target.value)}
+                      className="form-input w-full rounded-md border-gray-300 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      {source.power !== undefined ? 'Injects heat' : 'Holds the temperature'}
+                    </p>
+                  </div>
+                  <div>
+                    <label className="block text-xs">Schedule (time s:factor, ...)</label>
+                    <input
+                      type="text"
+                      value={source.scheduleText ?? ''}
+                      placeholder="Always on"
+                      disabled={steadyState}
+                      onChange={(e) => handleUpdateHeatSource(source.id, 'schedule', e.target.value)}
+                      className="form-input w-full rounded-md border-gray-300 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      {steadyState
+                        ? 'Transient analysis only'
+                        : source.schedule
+                          ? source.schedule.map(key => `${key.time}s ×${key.factor}`).join(', ')
+                          : 'e.g. 0:1, 5:1, 6:0'}
+                    </p>
+                  </div>
+                </div>
               </div>
             ))}
           </div>
@@ -672,6 +727,26 @@ const SimulationSetup: React.FC<SimulationSetupProps> = ({ meshId, onRunSimulati
                     />
                   </div>
                 </div>
+                
+                <div className="grid grid-cols-3 gap-2 mb-2">
+                  <div>
+                    <label className="block text-xs">Emissivity</label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      value={boundary.emissivity ?? 0}
+                      onChange={(e) => handleUpdateBoundary(boundary.id, 'emissivity', e.target.value)}
+                      className="form-input w-full rounded-md border-gray-300 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+                    />
+                  </div>
+                  <p className="col-span-2 text-xs text-gray-500 self-end">
+                    {(boundary.convectionCoefficient ?? 0) > 0 || (boundary.emissivity ?? 0) > 0
+                      ? 'Exchanges heat with surroundings at this temperature'
+                      : 'Holds a fixed temperature'}
+                  </p>
+                </div>
               </div>
             ))}
           </div>
@@ -688,7 +763,7 @@ const SimulationSetup: React.FC<SimulationSetupProps> = ({ meshId, onRunSimulati
             </label>
             
             {!steadyState && (
-              <div className="grid grid-cols-2 gap-4">
+              <div className="grid grid-cols-3 gap-4">
                 <div>
                   <label className="block text-xs">Simulation Time (s)</label>
                   <input
@@ -707,6 +782,15 @@ const SimulationSetup: React.FC<SimulationSetupProps> = ({ meshId, onRunSimulati
                     className="form-input w-full rounded-md border-gray-300 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
                   />
                 </div>
+                <div>
+                  <label className="block text-xs">Initial Temperature (K)</label>
+                  <input
+                    type="number"
+                    value={initialTemperature}
+                    onChange={(e) => setInitialTemperature(parseFloat(e.target.value))}
+                    className="form-input w-full rounded-md border-gray-300 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+                  />
+                </div>
               </div>
             )}
           </div>
@@ -1,6 +1,12 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { ConstraintEngine } from '../lib/constraints/ConstraintEngine';
-import { Constraint, ParametricParameter } from '../types/constraints';
+import {
+  Constraint,
+  DegreesOfFreedomAnalysis,
+  ParameterConfiguration,
+  ParametricBinding,
+  ParametricParameter
+} from '../types/constraints';
 
 interface ConstraintContextType {
   constraintEngine: ConstraintEngine;
@@ -11,6 +17,18 @@ interface ConstraintContextType {
   addParameter: (parameter: Omit<ParametricParameter, 'id'>) => string;
   updateParameter: (id: string, value: number) => boolean;
   getAllParameters: () => ParametricParameter[];
+  setParameterExpression: (id: string, expression: string | undefined) => boolean;
+  removeParameter: (id: string) => boolean;
+  bindElementProperty: (elementId: string, property: string, expression: string, unit?: string) => string;
+  removeBinding: (id: string) => boolean;
+  getBindings: () => ParametricBinding[];
+  addConfiguration: (name: string, values?: Record<string, string>) => string;
+  applyConfiguration: (id: string) => boolean;
+  removeConfiguration: (id: string) => boolean;
+  getConfigurations: () => ParameterConfiguration[];
+  analyzeDegreesOfFreedom: () => DegreesOfFreedomAnalysis;
+  // Incremented whenever constraints or parameters change, so views can refresh
+  revision: number;
 }
 
 const ConstraintContext = createContext<ConstraintContextType | null>(null);
@@ -25,6 +43,7 @@ interface ConstraintProviderProps {
  */
 export function ConstraintProvider({ children }: ConstraintProviderProps) {
   const [engine, setEngine] = useState<ConstraintEngine | null>(null);
+  const [revision, setRevision] = useState(0);
   
   // Initialize the engine on first render
   useEffect(() => {
@@ -36,19 +55,26 @@ export function ConstraintProvider({ children }: ConstraintProviderProps) {
     return null;
   }
   
+  // Run a change on the engine and let dependent views know about it
+  const changed = <T,>(result: T): T => {
+    setRevision(value => value + 1);
+    return result;
+  };
+  
   const contextValue: ConstraintContextType = {
     constraintEngine: engine,
+    revision,
     
     addConstraint: (constraint: Omit<Constraint, 'id'>) => {
-      return engine.addConstraint(constraint);
+      return changed(engine.addConstraint(constraint));
     },
     
     updateConstraint: (id: string, updates: Partial<Constraint>) => {
-      return engine.updateConstraint(id, updates);
+      return changed(engine.updateConstraint(id, updates));
     },
     
     removeConstraint: (id: string) => {
-      return engine.removeConstraint(id);
+      return changed(engine.removeConstraint(id));
     },
     
     getConstraintsForEntity: (entityId: string) => {
@@ -56,15 +82,55 @@ export function ConstraintProvider({ children }: ConstraintProviderProps) {
     },
     
     addParameter: (parameter: Omit<ParametricParameter, 'id'>) => {
-      return engine.addParameter(parameter);
+      return changed(engine.addParameter(parameter));
     },
     
     updateParameter: (id: string, value: number) => {
-      return engine.updateParameter(id, value);
+      return changed(engine.updateParameter(id, value));
     },
     
     getAllParameters: () => {
       return engine.getAllParameters();
+    },
+    
+    setParameterExpression: (id: string, expression: string | undefined) => {
+      return changed(engine.setParameterExpression(id, expression));
+    },
+    
+    removeParameter: (id: string) => {
+      return changed(engine.removeParameter(id));
+    },
+    
+    bindElementProperty: (elementId: string, property: string, expression: string, unit?: string) => {
+      return changed(engine.bindElementProperty(elementId, property, expression, unit));
+    },
+    
+    removeBinding: (id: string) => {
+      return changed(engine.removeBinding(id));
+    },
+    
+    getBindings: () => {
+      return engine.getBindings();
+    },
+    
+    addConfiguration: (name: string, values?: Record<string, string>) => {
+      return changed(engine.addConfiguration(name, values));
+    },
+    
+    applyConfiguration: (id: string) => {
+      return changed(engine.applyConfiguration(id));
+    },
+    
+    removeConfiguration: (id: string) => {
+      return changed(engine.removeConfiguration(id));
+    },
+    
+    getConfigurations: () => {
+      return engine.getConfigurations();
+    },
+    
+    analyzeDegreesOfFreedom: () => {
+      return engine.analyzeDegreesOfFreedom();
     }
   };
   
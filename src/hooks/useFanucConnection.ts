@@ -1,5 +1,6 @@
 import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import type { FanucStatus, FanucPosition, Machine, CncProgram, ToolOffsets, WorkOffset } from 'src/types/fanuc'; // Import shared types
+import { findSubprogramCalls } from 'src/components/cam/toolpathUtils/macroInterpreter';
 
 // Tipos para los datos de la máquina CNC
 // Remove local definitions - now imported
@@ -51,6 +52,7 @@ interface FanucConnectionHook {
   getWorkOffsets: () => Promise<WorkOffset[]>;
   resetAlarms: () => Promise<any>;
   convertToFanucFormat: (gcode: string, programNumber?: number) => string; // Added helper
+  loadSubprograms: (gcode: string) => Promise<Record<number, string>>; // Programs on the machine called by the G-code
 }
 
 /**
@@ -385,6 +387,22 @@ export function useFanucConnection(serverUrl: string = 'ws://localhost:3001'): F
   const getWorkOffsets = useCallback((): Promise<WorkOffset[]> => sendCommand('getWorkOffsets'), [sendCommand]);
   const resetAlarms = useCallback(() => sendCommand('resetAlarms'), [sendCommand]);
 
+  // Download the programs on the machine that the G-code calls with M98/G65,
+  // and the ones those call in turn, for simulating the program
+  const loadSubprograms = useCallback(async (gcode: string): Promise<Record<number, string>> => {
+    const available = new Set((await listPrograms()).map(program => program.number));
+    const subprograms: Record<number, string> = {};
+    const pending = findSubprogramCalls(gcode);
+    while (pending.length > 0) {
+      const programNumber = pending.shift()!;
+      if (subprograms[programNumber] !== undefined || !available.has(programNumber)) continue;
+      const content = await downloadProgram(programNumber);
+      subprograms[programNumber] = content;
+      findSubprogramCalls(content).forEach(call => pending.push(call));
+    }
+    return subprograms;
+  }, [listPrograms, downloadProgram]);
+
   // Convert standard G-code to Fanuc format (simple version)
   const convertToFanucFormat = useCallback((gcode: string, programNumber: number = 1000): string => {
     const lines = gcode.trim().split('\n');
@@ -491,11 +509,12 @@ export function useFanucConnection(serverUrl: string = 'ws://localhost:3001'): F
       setWorkOffset,
       getWorkOffsets,
       resetAlarms,
-      convertToFanucFormat // Expose helper
+      convertToFanucFormat, // Expose helper
+      loadSubprograms
     };
   }, [
     isConnecting, isConnected, error, availableMachines, selectedMachine, machineStatus,
     connectToServer, connectToMachine, connectToManualIp, disconnectFromMachine, sendCommand,
-    convertToFanucFormat
+    convertToFanucFormat, loadSubprograms
   ]);
 } 
\ No newline at end of file
@@ -5,6 +5,7 @@ import { useThreePerformance } from './canvas/useThreePerformance';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
 import { predefinedTools } from '@/src/lib/predefinedLibraries';
 import { useCADStore } from '@/src/store/cadStore';
+import { CycleTimeEstimate, estimatePathTime } from '@/src/components/cam/toolpathUtils/cycleTimeEstimator';
 
 export type ViewType = 'perspective' | 'top' | 'front' | 'right' | 'isometric';
 export type TimelineMode = 'play' | 'pause' | 'rewind' | 'forward' | 'stop';
@@ -68,6 +69,7 @@ export const useToolpathVisualization = (
   const toolpathRef = useRef<THREE.Line | null>(null);
   const workpieceRef = useRef<THREE.Mesh | null>(null);
   const toolpathPointsRef = useRef<ToolpathPoint[]>([]);
+  const cycleTimeRef = useRef<CycleTimeEstimate | null>(null);
   const animationFrameRef = useRef<number | null>(null);
   
   // State
@@ -90,7 +92,7 @@ export const useToolpathVisualization = (
   });
   
   // Get workpiece data from CAD store
-  const { workpiece, viewMode, gridVisible, axisVisible } = useCADStore();
+  const { workpiece, viewMode, gridVisible, axisVisible, selectedMachine } = useCADStore();
   
   // Use optimization hooks
   const sceneRefForHooks = sceneRef as React.RefObject<THREE.Scene>;
@@ -953,6 +955,7 @@ export const useToolpathVisualization = (
     // Parse G-code
     const points = parseGCode(gcode);
     toolpathPointsRef.current = points;
+    cycleTimeRef.current = estimatePathTime(points, selectedMachine?.config);
     
     // Remove existing toolpath
     if (toolpathRef.current) {
@@ -1016,7 +1019,7 @@ export const useToolpathVisualization = (
     if (showStatistics) {
       updateStatistics();
     }
-  }, [isInitialized, parseGCode]);
+  }, [isInitialized, parseGCode, selectedMachine]);
   
   // Update tool position during animation
   const updateToolPosition = useCallback(() => {
@@ -1061,11 +1064,12 @@ export const useToolpathVisualization = (
       }
     });
     
-    // Calculate time remaining
+    // Calculate remaining machine time from the kinematic estimate
     let timeRemaining = '00:00';
-    if (isPlaying && toolpathPointsRef.current.length > 0) {
-      const remainingPoints = toolpathPointsRef.current.length - currentPointIndex;
-      const secondsRemaining = Math.floor(remainingPoints / playbackSpeed / 60);
+    const cycleTime = cycleTimeRef.current;
+    if (isPlaying && cycleTime && cycleTime.pointTimes.length > 0) {
+      const elapsed = cycleTime.pointTimes[Math.min(currentPointIndex, cycleTime.pointTimes.length - 1)];
+      const secondsRemaining = Math.max(0, Math.floor(cycleTime.totalTime - elapsed));
       const minutes = Math.floor(secondsRemaining / 60);
       const seconds = secondsRemaining % 60;
       timeRemaining = `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
@@ -1079,7 +1083,7 @@ export const useToolpathVisualization = (
       memoryUsage: 0, // Memory usage placeholder
       timeRemaining
     });
-  }, [isPlaying, currentPointIndex, playbackSpeed]);
+  }, [isPlaying, currentPointIndex]);
   
   // Control playback functions
   const playToolpath = useCallback(() => {
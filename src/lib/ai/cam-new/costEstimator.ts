@@ -9,6 +9,11 @@ import {
   ToolpathSegmentType
 } from '../../../types/CAMTypes';
 import { aiAnalytics } from '../ai-new/aiAnalytics';
+import {
+  CycleTimeEstimate,
+  MachineTimingConfig,
+  estimatePathTime
+} from '../../../components/cam/toolpathUtils/cycleTimeEstimator';
 
 /**
  * Classe per la stima dei costi di lavorazione
@@ -30,12 +35,14 @@ export class CostEstimator {
   
   /**
    * Calcola una stima dei costi per un percorso utensile
+   * (il tempo macchina dipende dalla cinematica della macchina, se indicata)
    */
   async estimateCost(
     toolpath: Toolpath,
     tool: Tool,
     material?: Material,
-    rates?: { machine: number; labor: number }
+    rates?: { machine: number; labor: number },
+    machine?: MachineTimingConfig | null
   ): Promise<CostEstimation> {
     // Traccia l'analisi per analytics
     aiAnalytics.trackEvent({
@@ -60,7 +67,8 @@ export class CostEstimator {
       };
       
       // Calcola il tempo di lavorazione
-      const machiningTime = this.calculateMachiningTime(toolpath);
+      const cycleTime = this.estimateCycleTime(toolpath, machine);
+      const machiningTime = cycleTime ? cycleTime.totalTime / 60 : this.calculateMachiningTime(toolpath, machine);
       
       // Calcola il tempo di setup
       const setupTime = this.estimateSetupTime(toolpath, tool);
@@ -87,7 +95,7 @@ export class CostEstimator {
       const setupCost = (setupTime / 60) * (costRates.labor + costRates.overhead);
       
       // Calcola l'utilizzo dell'utensile
-      const toolUsage = this.calculateToolUsage(toolpath, tool);
+      const toolUsage = this.calculateToolUsage(toolpath, tool, machine);
       
       // Calcola il costo totale
       const totalCost = machineCost + laborCost + toolCost + materialCost + overheadCost;
@@ -118,6 +126,7 @@ export class CostEstimator {
         setupTime,
         machiningTime,
         totalTime,
+        operations: cycleTime?.operations,
         toolsUsed: [
           {
             toolId: tool.id,
@@ -159,50 +168,36 @@ export class CostEstimator {
     }
   }
 
+  /**
+   * Stima il tempo ciclo con la cinematica della macchina (null se già stimato nel percorso)
+   */
+  private estimateCycleTime(toolpath: Toolpath, machine?: MachineTimingConfig | null): CycleTimeEstimate | null {
+    if (toolpath.estimatedTime) return null;
+    const defaultFeedRate = toolpath.operation.feedRate; // mm/min
+    return estimatePathTime(
+      toolpath.points.map(point => ({
+        x: point.x,
+        y: point.y,
+        z: point.z,
+        feedrate: point.feedRate || defaultFeedRate,
+        isRapid: point.type === 'rapid'
+      })),
+      machine,
+      toolpath.name
+    );
+  }
+
   /**
    * Calcola il tempo di lavorazione in minuti
    */
-  private calculateMachiningTime(toolpath: Toolpath): number {
+  private calculateMachiningTime(toolpath: Toolpath, machine?: MachineTimingConfig | null): number {
     // Se il tempo è già stimato nel percorso, usalo
     if (toolpath.estimatedTime) {
       return toolpath.estimatedTime / 60; // converti secondi in minuti
     }
     
-    const points = toolpath.points;
-    const defaultFeedRate = toolpath.operation.feedRate; // mm/min
-    const defaultRapidRate = 5000; // mm/min (velocità rapida predefinita)
-    
-    let totalTime = 0; // in minuti
-    
-    // Calcola il tempo in base alle distanze e velocità
-    for (let i = 1; i < points.length; i++) {
-      const p1 = points[i-1];
-      const p2 = points[i];
-      
-      // Calcola la distanza tra i punti
-      const distance = Math.sqrt(
-        Math.pow(p2.x - p1.x, 2) + 
-        Math.pow(p2.y - p1.y, 2) + 
-        Math.pow(p2.z - p1.z, 2)
-      );
-      
-      // Determina la velocità da utilizzare
-      let feedRate: number;
-      
-      if (p2.type === 'rapid' || p1.type === 'rapid') {
-        feedRate = defaultRapidRate; // mm/min
-      } else {
-        feedRate = p2.feedRate || p1.feedRate || defaultFeedRate; // mm/min
-      }
-      
-      // Calcola il tempo in minuti
-      const segmentTime = distance / feedRate;
-      totalTime += segmentTime;
-    }
-    
-    // Aggiungi tempo aggiuntivo per accelerazioni, decelerazioni e altri fattori
-    const realWorldFactor = 1.2; // 20% in più per tenere conto dei limiti della macchina reale
-    return totalTime * realWorldFactor;
+    // Accelerazioni, rapidi e rallentamenti negli spigoli secondo la cinematica della macchina
+    return this.estimateCycleTime(toolpath, machine)!.totalTime / 60;
   }
 
   /**
@@ -296,7 +291,11 @@ export class CostEstimator {
   /**
    * Calcola l'utilizzo dell'utensile (tempo e percentuale di usura)
    */
-  private calculateToolUsage(toolpath: Toolpath, tool: Tool): { usageTime: number; wearPercentage: number } {
+  private calculateToolUsage(
+    toolpath: Toolpath,
+    tool: Tool,
+    machine?: MachineTimingConfig | null
+  ): { usageTime: number; wearPercentage: number } {
     const points = toolpath.points;
     let cuttingDistance = 0; // mm
     let plungeDistance = 0; // mm
@@ -385,7 +384,7 @@ export class CostEstimator {
     const wearPercentage = Math.min(100, ((cuttingDistance + (plungeDistance * 2)) / estimatedToolLife) * 100);
     
     // Calcola il tempo di utilizzo (tempo di lavorazione)
-    const usageTime = this.calculateMachiningTime(toolpath);
+    const usageTime = this.calculateMachiningTime(toolpath, machine);
     
     return {
       usageTime,
@@ -558,13 +557,14 @@ export class CostEstimator {
     toolpaths: Toolpath[],
     tool: Tool,
     material?: Material,
-    rates?: { machine: number; labor: number }
+    rates?: { machine: number; labor: number },
+    machine?: MachineTimingConfig | null
   ): Promise<any> {
     // Esegui la stima dei costi per ogni percorso
     const estimations: CostEstimation[] = [];
     
     for (const toolpath of toolpaths) {
-      const estimation = await this.estimateCost(toolpath, tool, material, rates);
+      const estimation = await this.estimateCost(toolpath, tool, material, rates, machine);
       estimations.push(estimation);
     }
     
@@ -1,6 +1,7 @@
 // src/lib/api/machineConfigApi.ts
 
 import { fetchWithErrorHandling } from "./apiUtils";
+import { MachineKinematics } from "@/src/types/machineConfig";
 
 export interface MachineConfigOwner {
   id: string;
@@ -21,6 +22,7 @@ export interface MachineConfigDetails {
   maxFeedRate: number;
   workVolume: WorkVolume;
   controller?: string;
+  kinematics?: Partial<MachineKinematics>;
   additionalSettings?: Record<string, any>;
 }
 
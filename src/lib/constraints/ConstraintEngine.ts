@@ -1,11 +1,39 @@
 import { v4 as uuidv4 } from 'uuid';
 import { 
   Constraint, 
-  ConstraintType, 
+  ConstraintType,
   ParametricParameter,
   ParametricEquation,
-  ConstraintHistoryEntry
+  ParametricBinding,
+  ParameterConfiguration,
+  ConstraintHistoryEntry,
+  DegreesOfFreedomAnalysis,
+  EntityDegreesOfFreedom,
+  SketchSolveResult
 } from '../../types/constraints';
+import { useElementsStore } from '../../store/elementsStore';
+import { parseEntityReference, partitionSketches, sketchParameterCount, solveSketch } from './SketchSolver';
+import {
+  Quantity,
+  evaluateExpression,
+  expressionReferences,
+  isValidParameterName,
+  parseExpression,
+  quantityFromUnit,
+  quantityToUnit,
+  sortByDependencies
+} from './ParameterExpressions';
+
+// Element properties that hold angles in radians rather than degrees
+const RADIAN_PROPERTIES = ['startAngle', 'endAngle'];
+
+// Unit a value is stored in when nothing else says: mm for lengths, degrees for angles
+function defaultUnit(quantity: Quantity): string | undefined {
+  if (quantity.length === 0 && quantity.angle === 0) return undefined;
+  if (quantity.length === 1 && quantity.angle === 0) return 'mm';
+  if (quantity.length === 0 && quantity.angle === 1) return 'deg';
+  return quantity.angle === 0 ? `mm^${quantity.length}` : undefined;
+}
 
 /**
  * Core constraint engine responsible for managing and solving parametric constraints
@@ -14,7 +42,11 @@ export class ConstraintEngine {
   private constraints: Map<string, Constraint> = new Map();
   private parameters: Map<string, ParametricParameter> = new Map();
   private equations: Map<string, ParametricEquation> = new Map();
+  private bindings: Map<string, ParametricBinding> = new Map();
+  private configurations: Map<string, ParameterConfiguration> = new Map();
+  private expressionErrors: Map<string, string> = new Map();
   private history: ConstraintHistoryEntry[] = [];
+  private solveResults: SketchSolveResult[] = [];
   
   // Track dependencies between entities and constraints
   private entityConstraintMap: Map<string, Set<string>> = new Map();
@@ -27,6 +59,10 @@ export class ConstraintEngine {
    * Add a new constraint to the system
    */
   public addConstraint(constraint: Omit<Constraint, 'id'>): string {
+    if (constraint.expression !== undefined) {
+      this.checkExpression(constraint.expression);
+    }
+    
     const id = uuidv4();
     const newConstraint = { ...constraint, id, active: true } as Constraint;
     
@@ -62,6 +98,10 @@ export class ConstraintEngine {
     const constraint = this.constraints.get(id);
     if (!constraint) return false;
     
+    if (updates.expression !== undefined) {
+      this.checkExpression(updates.expression);
+    }
+    
     const previousState = { ...constraint };
     const updatedConstraint = { ...constraint, ...updates };
     
@@ -153,18 +193,26 @@ export class ConstraintEngine {
   }
   
   /**
-   * Add a parametric parameter to the system
+   * Add a parametric parameter to the system. The parameter may carry an
+   * expression over other parameters, in which case its value is derived.
    */
   public addParameter(parameter: Omit<ParametricParameter, 'id'>): string {
+    this.checkParameterName(parameter.name);
+    if (parameter.expression !== undefined) {
+      this.checkExpression(parameter.expression, parameter.name);
+    }
+    
     const id = uuidv4();
     const newParameter = { ...parameter, id, constraints: [] };
     
     this.parameters.set(id, newParameter);
+    this.solve();
     return id;
   }
   
   /**
-   * Update a parameter value and propagate changes through constraints
+   * Update a parameter value and propagate changes through constraints.
+   * Setting a value turns a derived parameter back into a driving one.
    */
   public updateParameter(id: string, value: number): boolean {
     const parameter = this.parameters.get(id);
@@ -179,168 +227,474 @@ export class ConstraintEngine {
     }
     
     // Update parameter
-    this.parameters.set(id, { ...parameter, value });
-    
-    // Update any dependent parameters through equations
-    this.solveEquations();
+    this.parameters.set(id, { ...parameter, value, expression: undefined, error: undefined });
     
-    // Solve constraints after parameter update
+    // Re-evaluate dependent parameters and solve constraints
     this.solve();
     
     return true;
   }
   
   /**
-   * Add an equation that relates parameters
+   * Drive a parameter by an expression such as "2 * hole_d + 10 mm", or make it
+   * a driving value again with undefined. Throws on syntax errors, unknown
+   * parameters and circular references without changing anything.
    */
-  public addEquation(equation: Omit<ParametricEquation, 'id'>): string {
-    const id = uuidv4();
-    this.equations.set(id, { ...equation, id });
+  public setParameterExpression(id: string, expression: string | undefined): boolean {
+    const parameter = this.parameters.get(id);
+    if (!parameter) return false;
     
-    // Solve the equation immediately
-    this.solveEquation(id);
+    if (expression !== undefined) {
+      this.checkExpression(expression, parameter.name);
+    }
+    this.parameters.set(id, { ...parameter, expression, error: undefined });
+    this.solve();
     
-    return id;
+    return true;
   }
   
   /**
-   * Solve all parametric equations in the system
+   * Set several parameters at once by name, as when switching between sizes
+   * of a part family. Numbers are driving values in the parameter's unit,
+   * strings are expressions. Nothing changes if any entry is invalid.
    */
-  private solveEquations(): void {
-    // For simplicity, we're just doing a simple iteration here
-    // A real implementation would need topological sorting of dependencies
+  public setParameterValues(values: Record<string, number | string>): void {
+    const byName = this.parametersByName();
+    const dependencies = this.parameterDependencies();
     
-    const equations = Array.from(this.equations.values());
+    Object.keys(values).forEach(name => {
+      if (!byName.has(name)) {
+        throw new Error(`Unknown parameter "${name}"`);
+      }
+      const value = values[name];
+      dependencies.set(name, typeof value === 'string' ? this.expressionDependencies(value) : []);
+    });
+    sortByDependencies(dependencies);
+    
+    Object.keys(values).forEach(name => {
+      const parameter = byName.get(name) as ParametricParameter;
+      const value = values[name];
+      this.parameters.set(parameter.id, typeof value === 'string'
+        ? { ...parameter, expression: value, error: undefined }
+        : { ...parameter, value, expression: undefined, error: undefined });
+    });
+    this.solve();
+  }
+  
+  /**
+   * Remove a parameter that nothing refers to any more
+   */
+  public removeParameter(id: string): boolean {
+    const parameter = this.parameters.get(id);
+    if (!parameter) return false;
     
-    // Simple solve - just evaluate each equation once
-    // This doesn't handle circular dependencies properly
-    equations.forEach(equation => {
-      this.solveEquation(equation.id);
+    const users: string[] = [];
+    this.parameters.forEach(other => {
+      if (other.expression !== undefined && this.references(other.expression, parameter.name)) {
+        users.push(`parameter "${other.name}"`);
+      }
     });
+    this.constraints.forEach(constraint => {
+      if (constraint.expression !== undefined && this.references(constraint.expression, parameter.name)) {
+        users.push(`${constraint.type} constraint`);
+      }
+    });
+    this.bindings.forEach(binding => {
+      if (this.references(binding.expression, parameter.name)) {
+        users.push(`${binding.property} of element ${binding.elementId}`);
+      }
+    });
+    if (users.length > 0) {
+      throw new Error(`Parameter "${parameter.name}" is used by ${users.join(', ')}`);
+    }
+    
+    this.parameters.delete(id);
+    return true;
   }
   
   /**
-   * Solve a specific equation
+   * Drive a property of an element (radius, width, ...) by a parameter expression
    */
-  private solveEquation(equationId: string): boolean {
-    const equation = this.equations.get(equationId);
-    if (!equation) return false;
+  public bindElementProperty(elementId: string, property: string, expression: string, unit?: string): string {
+    this.checkExpression(expression);
     
+    const id = uuidv4();
+    this.bindings.set(id, { id, elementId, property, expression, unit });
+    this.solve();
+    
+    return id;
+  }
+  
+  /**
+   * Stop driving an element property; it keeps its last value
+   */
+  public removeBinding(id: string): boolean {
+    return this.bindings.delete(id);
+  }
+  
+  /**
+   * Element property bindings, with the error of the last evaluation if any
+   */
+  public getBindings(): ParametricBinding[] {
+    return Array.from(this.bindings.values());
+  }
+  
+  /**
+   * Why the expression of a constraint could not be evaluated, if it could not
+   */
+  public getExpressionError(constraintId: string): string | undefined {
+    return this.expressionErrors.get(constraintId);
+  }
+  
+  /**
+   * Add an equation that relates parameters. The equation becomes the
+   * expression of its result parameter.
+   */
+  public addEquation(equation: Omit<ParametricEquation, 'id'>): string {
     const resultParam = this.parameters.get(equation.resultParameterId);
-    if (!resultParam) return false;
+    if (!resultParam) {
+      throw new Error(`Unknown result parameter ${equation.resultParameterId}`);
+    }
     
-    try {
-      // This is a simplified equation solver
-      // In a real app, you'd want to use a proper expression evaluator
-      
-      // Create a scope with parameter values
-      const scope: Record<string, number> = {};
-      
-      equation.dependencies.forEach(depId => {
-        const param = this.parameters.get(depId);
-        if (param) {
-          scope[depId] = param.value;
-        }
-      });
-      
-      // Simple evaluation for demo purposes
-      // In a real implementation, use a library like math.js
-      const result = this.evaluateExpression(equation.expression, scope);
-      
-      // Update the result parameter
-      this.parameters.set(equation.resultParameterId, {
-        ...resultParam,
-        value: result
+    // Equations refer to parameters by id, expressions by name
+    let expression = equation.expression;
+    equation.dependencies.forEach(depId => {
+      const param = this.parameters.get(depId);
+      if (!param) {
+        throw new Error(`Unknown parameter ${depId}`);
+      }
+      expression = expression.split(depId).join(param.name);
+    });
+    
+    this.setParameterExpression(resultParam.id, expression);
+    
+    const id = uuidv4();
+    this.equations.set(id, { ...equation, id });
+    return id;
+  }
+  
+  /**
+   * Save the current parameter values as a named configuration
+   */
+  public addConfiguration(name: string, values?: Record<string, string>): string {
+    if (!values) {
+      values = {};
+      this.parameters.forEach(parameter => {
+        (values as Record<string, string>)[parameter.name] = parameter.expression !== undefined
+          ? parameter.expression
+          : `${parameter.value}${parameter.unit ? ` ${parameter.unit}` : ''}`;
       });
-      
-      return true;
+    }
+    
+    const id = uuidv4();
+    this.configurations.set(id, { id, name, values });
+    return id;
+  }
+  
+  /**
+   * Switch the model to a saved configuration
+   */
+  public applyConfiguration(id: string): boolean {
+    const configuration = this.configurations.get(id);
+    if (!configuration) return false;
+    
+    this.setParameterValues(configuration.values);
+    return true;
+  }
+  
+  public removeConfiguration(id: string): boolean {
+    return this.configurations.delete(id);
+  }
+  
+  public getConfigurations(): ParameterConfiguration[] {
+    return Array.from(this.configurations.values());
+  }
+  
+  private parametersByName(): Map<string, ParametricParameter> {
+    const byName = new Map<string, ParametricParameter>();
+    this.parameters.forEach(parameter => byName.set(parameter.name, parameter));
+    return byName;
+  }
+  
+  // Parameters each derived parameter depends on, by name
+  private parameterDependencies(): Map<string, string[]> {
+    const dependencies = new Map<string, string[]>();
+    this.parameters.forEach(parameter => {
+      let references: string[] = [];
+      if (parameter.expression !== undefined) {
+        try {
+          references = expressionReferences(parseExpression(parameter.expression));
+        } catch (error) {
+          // Reported as the parameter's error when it is evaluated
+        }
+      }
+      dependencies.set(parameter.name, references);
+    });
+    return dependencies;
+  }
+  
+  private expressionDependencies(expression: string): string[] {
+    const references = expressionReferences(parseExpression(expression));
+    const byName = this.parametersByName();
+    references.forEach(name => {
+      if (!byName.has(name)) {
+        throw new Error(`Unknown parameter "${name}"`);
+      }
+    });
+    return references;
+  }
+  
+  private references(expression: string, name: string): boolean {
+    try {
+      return expressionReferences(parseExpression(expression)).indexOf(name) >= 0;
     } catch (error) {
-      console.error('Error solving equation:', error);
       return false;
     }
   }
   
+  private checkParameterName(name: string): void {
+    if (!isValidParameterName(name)) {
+      throw new Error(`"${name}" is not a valid parameter name`);
+    }
+    if (this.parametersByName().has(name)) {
+      throw new Error(`A parameter named "${name}" already exists`);
+    }
+  }
+  
+  // Throws when the expression does not parse, refers to unknown parameters
+  // or, as the expression of the named parameter, would close a cycle
+  private checkExpression(expression: string, parameterName?: string): void {
+    const references = this.expressionDependencies(expression);
+    if (parameterName !== undefined) {
+      const dependencies = this.parameterDependencies();
+      dependencies.set(parameterName, references);
+      sortByDependencies(dependencies);
+    }
+  }
+  
   /**
-   * Very simple expression evaluator for demo purposes
-   * In a real app, use a proper math expression library
+   * Re-evaluate derived parameters in dependency order, then push the results
+   * into the constraints and element properties that use them. Failures are
+   * recorded on the parameter, constraint or binding rather than thrown, and
+   * leave the previous value in place.
    */
-  private evaluateExpression(expression: string, scope: Record<string, number>): number {
-    // Replace parameter IDs with their values
-    let evalString = expression;
-    Object.entries(scope).forEach(([id, value]) => {
-      evalString = evalString.replace(new RegExp(id, 'g'), value.toString());
+  private evaluateParameters(): void {
+    const byName = this.parametersByName();
+    const values = new Map<string, Quantity>();
+    const failed = new Set<string>();
+    
+    const scope = (name: string): Quantity | undefined => {
+      if (failed.has(name)) {
+        throw new Error(`Parameter "${name}" has an error`);
+      }
+      return values.get(name);
+    };
+    
+    let order: string[];
+    try {
+      order = sortByDependencies(this.parameterDependencies());
+    } catch (error) {
+      // Expressions are checked for cycles as they are set, so this only
+      // happens if parameters were renamed into one
+      const message = error instanceof Error ? error.message : String(error);
+      this.parameters.forEach(parameter => {
+        if (parameter.expression !== undefined) {
+          this.parameters.set(parameter.id, { ...parameter, error: message });
+        }
+      });
+      return;
+    }
+    
+    order.forEach(name => {
+      const parameter = byName.get(name) as ParametricParameter;
+      try {
+        if (parameter.expression === undefined) {
+          values.set(name, quantityFromUnit(parameter.value, parameter.unit));
+          return;
+        }
+        
+        const result = evaluateExpression(parseExpression(parameter.expression), scope);
+        // A parameter without a unit takes the one its expression produces
+        const unit = parameter.unit || defaultUnit(result);
+        let value = quantityToUnit(result, unit);
+        if (parameter.min !== undefined) value = Math.max(value, parameter.min);
+        if (parameter.max !== undefined) value = Math.min(value, parameter.max);
+        
+        values.set(name, quantityFromUnit(value, unit));
+        this.parameters.set(parameter.id, { ...parameter, value, unit, error: undefined });
+      } catch (error) {
+        failed.add(name);
+        this.parameters.set(parameter.id, {
+          ...parameter,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
     });
     
-    // Unsafe but simple for demo
-    // eslint-disable-next-line no-eval
-    return eval(evalString);
+    // Constraint values
+    const constraintsByParameter = new Map<string, string[]>();
+    this.expressionErrors.clear();
+    this.constraints.forEach(constraint => {
+      if (constraint.expression === undefined) return;
+      try {
+        const node = parseExpression(constraint.expression);
+        expressionReferences(node).forEach(name => {
+          constraintsByParameter.set(name, (constraintsByParameter.get(name) || []).concat(constraint.id));
+        });
+        
+        const source = constraint as Constraint & { value?: number; unit?: string };
+        const unit = source.unit ?? constraint.parameters?.unit ??
+          (constraint.type === ConstraintType.ANGLE ? 'deg' : 'mm');
+        const value = quantityToUnit(evaluateExpression(node, scope), unit);
+        
+        // Write the value where the constraint keeps it
+        this.constraints.set(constraint.id, source.value === undefined && constraint.parameters?.value !== undefined
+          ? { ...constraint, parameters: { ...constraint.parameters, value } }
+          : { ...constraint, value } as Constraint);
+      } catch (error) {
+        this.expressionErrors.set(constraint.id, error instanceof Error ? error.message : String(error));
+      }
+    });
+    
+    this.parameters.forEach(parameter => {
+      this.parameters.set(parameter.id, { ...parameter, constraints: constraintsByParameter.get(parameter.name) || [] });
+    });
+    
+    // Element properties
+    const store = useElementsStore.getState();
+    this.bindings.forEach(binding => {
+      try {
+        if (!store.elements.some(element => element.id === binding.elementId)) {
+          throw new Error(`Element ${binding.elementId} no longer exists`);
+        }
+        const result = evaluateExpression(parseExpression(binding.expression), scope);
+        const unit = binding.unit || (result.angle !== 0 && RADIAN_PROPERTIES.indexOf(binding.property) >= 0
+          ? 'rad'
+          : defaultUnit(result));
+        store.updateElement(binding.elementId, { [binding.property]: quantityToUnit(result, unit) });
+        this.bindings.set(binding.id, { ...binding, error: undefined });
+      } catch (error) {
+        this.bindings.set(binding.id, { ...binding, error: error instanceof Error ? error.message : String(error) });
+      }
+    });
   }
   
   /**
-   * Main constraint solving algorithm
-   * This is a simplified version; a real solver would be more complex
+   * Main constraint solving algorithm: parameter expressions are evaluated
+   * first, then each sketch (elements linked by constraints) is solved numerically and its elements are updated in place
+   * in the elements store. Returns false when any sketch could not be solved.
    */
   public solve(): boolean {
+    this.evaluateParameters();
+    
     // Get all active constraints sorted by priority
     const activeConstraints = Array.from(this.constraints.values())
       .filter(c => c.active)
       .sort((a, b) => b.priority - a.priority);
     
-    // Group constraints by type
-    const geometricConstraints = activeConstraints.filter(
-      c => Object.values([
-        ConstraintType.COINCIDENT, 
-        ConstraintType.PARALLEL,
-        ConstraintType.PERPENDICULAR,
-        ConstraintType.TANGENT,
-        ConstraintType.HORIZONTAL,
-        ConstraintType.VERTICAL
-      ]).includes(c.type)
-    );
-    
-    const dimensionalConstraints = activeConstraints.filter(
-      c => Object.values([
-        ConstraintType.DISTANCE,
-        ConstraintType.ANGLE,
-        ConstraintType.RADIUS,
-        ConstraintType.DIAMETER
-      ]).includes(c.type)
-    );
-    
-    // In a real implementation, this would integrate with the CAD system's
-    // underlying geometric solver, applying constraints to the actual geometry
+    const store = useElementsStore.getState();
+    const elementsById = new Map(store.elements.map(element => [element.id, element] as [string, typeof element]));
     
-    // First solve geometric constraints
-    const geometricSolved = this.solveGeometricConstraints(geometricConstraints);
-    
-    // Then solve dimensional constraints
-    const dimensionalSolved = this.solveDimensionalConstraints(dimensionalConstraints);
+    this.solveResults = partitionSketches(activeConstraints).map((sketch): SketchSolveResult => {
+      try {
+        const elements = sketch.elementIds.map(id => {
+          const element = elementsById.get(id);
+          if (!element) {
+            throw new Error(`Constraint references missing element ${id}`);
+          }
+          return element;
+        });
+        
+        const { result, updates } = solveSketch(elements, sketch.constraints);
+        updates.forEach((changes, id) => store.updateElement(id, changes));
+        return result;
+      } catch (error) {
+        console.error('Error solving sketch:', error);
+        return {
+          elementIds: sketch.elementIds,
+          constraintIds: sketch.constraints.map(c => c.id),
+          status: 'invalid',
+          converged: false,
+          iterations: 0,
+          residual: Infinity,
+          degreesOfFreedom: 0,
+          entityDegreesOfFreedom: {},
+          redundantConstraintIds: [],
+          conflictingConstraintIds: [],
+          error: error instanceof Error ? error.message : String(error)
+        };
+      }
+    });
     
-    return geometricSolved && dimensionalSolved;
+    return this.solveResults.every(result => result.converged && result.conflictingConstraintIds.length === 0);
   }
   
   /**
-   * Solve geometric constraints
-   * In a real implementation, this would integrate with a geometric constraint solver
+   * Results of the last solve, one per sketch
    */
-  private solveGeometricConstraints(constraints: Constraint[]): boolean {
-    // This is where the actual geometric constraint solving would happen
-    // For example, making lines parallel, points coincident, etc.
-    
-    // For this demo, we'll just pretend it worked
-    return true;
+  public getSolveResults(): SketchSolveResult[] {
+    return [...this.solveResults];
+  }
+  
+  /**
+   * Result of the last solve for the sketch containing an element
+   */
+  public getSolveResultForEntity(entityId: string): SketchSolveResult | undefined {
+    const { elementId } = parseEntityReference(entityId);
+    return this.solveResults.find(result => result.elementIds.indexOf(elementId) >= 0);
   }
   
   /**
-   * Solve dimensional constraints
-   * In a real implementation, this would integrate with a dimensional constraint solver
+   * Degrees of freedom left to every sketch element after the last solve, and
+   * the constraints that are redundant or in conflict. Elements without
+   * constraints keep all their freedom; elements touched by a conflicting
+   * constraint, or in a sketch that could not be solved, are reported as conflicting.
    */
-  private solveDimensionalConstraints(constraints: Constraint[]): boolean {
-    // This is where the actual dimensional constraint solving would happen
-    // For example, setting distances, angles, radii, etc.
+  public analyzeDegreesOfFreedom(): DegreesOfFreedomAnalysis {
+    const conflictingElements = new Set<string>();
+    const redundantConstraintIds: string[] = [];
+    const conflictingConstraintIds: string[] = [];
+    
+    this.solveResults.forEach(result => {
+      redundantConstraintIds.push(...result.redundantConstraintIds);
+      conflictingConstraintIds.push(...result.conflictingConstraintIds);
+      if (result.status === 'invalid') {
+        result.elementIds.forEach(id => conflictingElements.add(id));
+      }
+      result.conflictingConstraintIds.forEach(id => {
+        this.constraints.get(id)?.entityIds.forEach(reference => {
+          conflictingElements.add(parseEntityReference(reference).elementId);
+        });
+      });
+    });
     
-    // For this demo, we'll just pretend it worked
-    return true;
+    const entities: EntityDegreesOfFreedom[] = [];
+    useElementsStore.getState().elements.forEach(element => {
+      const parameterCount = sketchParameterCount(element.type);
+      if (parameterCount === undefined) return;
+      
+      const result = this.solveResults.find(r => r.elementIds.indexOf(element.id) >= 0);
+      const degreesOfFreedom = result
+        ? result.entityDegreesOfFreedom[element.id] ?? parameterCount
+        : parameterCount;
+      
+      entities.push({
+        elementId: element.id,
+        degreesOfFreedom,
+        parameterCount,
+        state: conflictingElements.has(element.id)
+          ? 'conflicting'
+          : degreesOfFreedom > 0 ? 'under-constrained' : 'fully-constrained'
+      });
+    });
+    
+    return {
+      entities,
+      sketches: this.getSolveResults(),
+      totalDegreesOfFreedom: entities.reduce((sum, entity) => sum + entity.degreesOfFreedom, 0),
+      redundantConstraintIds,
+      conflictingConstraintIds
+    };
   }
   
   /**
@@ -0,0 +1,529 @@
+/**
+ * Expression language for parametric dimensions.
+ *
+ * Expressions combine numbers with units, named parameters, arithmetic,
+ * comparisons and a small function library:
+ *
+ *   2 * hole_d + 10 mm
+ *   if(width > 100 mm, 4, 2)
+ *   sqrt(a^2 + b^2)
+ *   atan2(rise, run)
+ *
+ * Values carry their dimension (length and angle exponents) so that adding a
+ * length to an angle, or taking the square root of an area that is not one,
+ * is reported instead of silently producing a wrong number. Lengths are kept
+ * in millimetres and angles in radians internally.
+ */
+
+export interface Quantity {
+  /** Value in base units: millimetres for lengths, radians for angles */
+  value: number;
+  /** Exponent of length in the dimension (1 for mm, 2 for mm², 0 for plain numbers) */
+  length: number;
+  /** Exponent of angle in the dimension */
+  angle: number;
+}
+
+export type ExpressionNode =
+  | { type: 'number'; value: number }
+  | { type: 'name'; name: string }
+  | { type: 'unary'; operator: '-' | '+' | '!'; argument: ExpressionNode }
+  | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[] };
+
+// Unit names usable in expressions, with their size in base units
+export const EXPRESSION_UNITS: Record<string, Quantity> = {
+  um: { value: 0.001, length: 1, angle: 0 },
+  mm: { value: 1, length: 1, angle: 0 },
+  cm: { value: 10, length: 1, angle: 0 },
+  m: { value: 1000, length: 1, angle: 0 },
+  in: { value: 25.4, length: 1, angle: 0 },
+  ft: { value: 304.8, length: 1, angle: 0 },
+  rad: { value: 1, length: 0, angle: 1 },
+  deg: { value: Math.PI / 180, length: 0, angle: 1 }
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E
+};
+
+const FUNCTION_NAMES = [
+  'sin', 'cos', 'tan', 'asin', 'acos', 'atan', 'atan2',
+  'sqrt', 'abs', 'min', 'max', 'round', 'floor', 'ceil', 'if'
+];
+
+const PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3, '!=': 3, '<': 3, '<=': 3, '>': 3, '>=': 3,
+  '+': 4, '-': 4,
+  '*': 5, '/': 5, '%': 5
+};
+
+type Token =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'name'; name: string; position: number }
+  | { kind: 'operator'; operator: string; position: number }
+  | { kind: 'end'; position: number };
+
+const dimensionless = (value: number): Quantity => ({ value, length: 0, angle: 0 });
+
+/**
+ * Whether a name is taken by a unit, constant or function and cannot name a parameter
+ */
+export function isReservedName(name: string): boolean {
+  return name in EXPRESSION_UNITS || name in CONSTANTS || FUNCTION_NAMES.indexOf(name) >= 0;
+}
+
+export function isValidParameterName(name: string): boolean {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && !isReservedName(name);
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const number = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i));
+    if (number) {
+      tokens.push({ kind: 'number', value: parseFloat(number[0]), position: i });
+      i += number[0].length;
+      continue;
+    }
+
+    const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+    if (name) {
+      tokens.push({ kind: 'name', name: name[0], position: i });
+      i += name[0].length;
+      continue;
+    }
+
+    const operator = /^(<=|>=|==|!=|&&|\|\||[-+*/%^(),<>!])/.exec(source.slice(i));
+    if (operator) {
+      tokens.push({ kind: 'operator', operator: operator[0], position: i });
+      i += operator[0].length;
+      continue;
+    }
+
+    throw new Error(`Unexpected character "${char}" at position ${i + 1}`);
+  }
+  tokens.push({ kind: 'end', position: source.length });
+  return tokens;
+}
+
+/**
+ * Parse an expression into a syntax tree
+ */
+export function parseExpression(source: string): ExpressionNode {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const isOperator = (operator: string) => {
+    const token = peek();
+    return token.kind === 'operator' && token.operator === operator;
+  };
+  const expect = (operator: string) => {
+    if (!isOperator(operator)) {
+      throw new Error(`Expected "${operator}" at position ${peek().position + 1}`);
+    }
+    index++;
+  };
+
+  const parseBinary = (minPrecedence: number): ExpressionNode => {
+    let left = parseUnary();
+    for (;;) {
+      const token = peek();
+      if (token.kind !== 'operator') break;
+      const precedence = PRECEDENCE[token.operator];
+      if (precedence === undefined || precedence < minPrecedence) break;
+      index++;
+      const right = parseBinary(precedence + 1);
+      left = { type: 'binary', operator: token.operator, left, right };
+    }
+    return left;
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    if (isOperator('-') || isOperator('+') || isOperator('!')) {
+      const operator = (peek() as { operator: '-' | '+' | '!' }).operator;
+      index++;
+      return { type: 'unary', operator, argument: parseUnary() };
+    }
+    return parsePower();
+  };
+
+  // Exponentiation binds tighter than unary minus and associates to the right
+  const parsePower = (): ExpressionNode => {
+    const base = parsePostfix();
+    if (isOperator('^')) {
+      index++;
+      return { type: 'binary', operator: '^', left: base, right: parseUnary() };
+    }
+    return base;
+  };
+
+  // A unit written right after a number applies to it: "10 mm", "2.5in"
+  const parsePostfix = (): ExpressionNode => {
+    const primary = parsePrimary();
+    const token = peek();
+    if (primary.type === 'number' && token.kind === 'name' && token.name in EXPRESSION_UNITS) {
+      index++;
+      return { type: 'binary', operator: '*', left: primary, right: { type: 'name', name: token.name } };
+    }
+    return primary;
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = peek();
+    if (token.kind === 'number') {
+      index++;
+      return { type: 'number', value: token.value };
+    }
+    if (token.kind === 'name') {
+      index++;
+      if (!isOperator('(')) return { type: 'name', name: token.name };
+      index++;
+      const args: ExpressionNode[] = [];
+      if (!isOperator(')')) {
+        args.push(parseBinary(1));
+        while (isOperator(',')) {
+          index++;
+          args.push(parseBinary(1));
+        }
+      }
+      expect(')');
+      return { type: 'call', name: token.name, args };
+    }
+    if (isOperator('(')) {
+      index++;
+      const inner = parseBinary(1);
+      expect(')');
+      return inner;
+    }
+    throw new Error(
+      token.kind === 'end' ? 'Unexpected end of expression' : `Unexpected token at position ${token.position + 1}`
+    );
+  };
+
+  if (peek().kind === 'end') {
+    throw new Error('Empty expression');
+  }
+  const node = parseBinary(1);
+  if (peek().kind !== 'end') {
+    throw new Error(`Unexpected token at position ${peek().position + 1}`);
+  }
+  return node;
+}
+
+/**
+ * Split "name = expression" into its parts
+ */
+export function parseAssignment(source: string): { name: string; expression: string } {
+  const match = /^\s*([A-Za-z_][A-Za-z0-9_]*)\s*=(?!=)(.*)$/.exec(source);
+  if (!match) {
+    throw new Error('Expected "name = expression"');
+  }
+  return { name: match[1], expression: match[2].trim() };
+}
+
+/**
+ * Parameter names an expression depends on
+ */
+export function expressionReferences(node: ExpressionNode): string[] {
+  const names: string[] = [];
+  const visit = (current: ExpressionNode) => {
+    switch (current.type) {
+      case 'name':
+        if (!isReservedName(current.name) && names.indexOf(current.name) < 0) names.push(current.name);
+        break;
+      case 'unary':
+        visit(current.argument);
+        break;
+      case 'binary':
+        visit(current.left);
+        visit(current.right);
+        break;
+      case 'call':
+        current.args.forEach(visit);
+        break;
+    }
+  };
+  visit(node);
+  return names;
+}
+
+function sameDimension(a: Quantity, b: Quantity): boolean {
+  return a.length === b.length && a.angle === b.angle;
+}
+
+/**
+ * Human-readable dimension of a quantity, e.g. "mm", "mm^2", "rad", "dimensionless"
+ */
+export function describeDimension(quantity: { length: number; angle: number }): string {
+  const parts: string[] = [];
+  if (quantity.length !== 0) parts.push(quantity.length === 1 ? 'mm' : `mm^${quantity.length}`);
+  if (quantity.angle !== 0) parts.push(quantity.angle === 1 ? 'rad' : `rad^${quantity.angle}`);
+  return parts.length > 0 ? parts.join('*') : 'dimensionless';
+}
+
+function requireSame(a: Quantity, b: Quantity, what: string): void {
+  if (!sameDimension(a, b)) {
+    throw new Error(`Cannot ${what} ${describeDimension(a)} and ${describeDimension(b)}`);
+  }
+}
+
+function requireDimensionless(quantity: Quantity, what: string): void {
+  if (quantity.length !== 0 || quantity.angle !== 0) {
+    throw new Error(`${what} expects a plain number, got ${describeDimension(quantity)}`);
+  }
+}
+
+// Trigonometric arguments are angles, or plain numbers taken as radians
+function requireAngle(quantity: Quantity, name: string): void {
+  if (quantity.length !== 0 || (quantity.angle !== 0 && quantity.angle !== 1)) {
+    throw new Error(`${name}() expects an angle, got ${describeDimension(quantity)}`);
+  }
+}
+
+function scaleDimension(quantity: Quantity, factor: number, what: string): Quantity {
+  const length = quantity.length * factor;
+  const angle = quantity.angle * factor;
+  if (Math.abs(length - Math.round(length)) > 1e-9 || Math.abs(angle - Math.round(angle)) > 1e-9) {
+    throw new Error(`${what} of ${describeDimension(quantity)} has no valid unit`);
+  }
+  return { value: quantity.value, length: Math.round(length), angle: Math.round(angle) };
+}
+
+/**
+ * Evaluate a syntax tree. Names are looked up first among units and constants,
+ * then through the given scope.
+ */
+export function evaluateExpression(node: ExpressionNode, scope: (name: string) => Quantity | undefined): Quantity {
+  const evaluate = (current: ExpressionNode): Quantity => {
+    switch (current.type) {
+      case 'number':
+        return dimensionless(current.value);
+
+      case 'name': {
+        if (current.name in EXPRESSION_UNITS) return { ...EXPRESSION_UNITS[current.name] };
+        if (current.name in CONSTANTS) return dimensionless(CONSTANTS[current.name]);
+        const value = scope(current.name);
+        if (!value) throw new Error(`Unknown parameter "${current.name}"`);
+        return value;
+      }
+
+      case 'unary': {
+        const argument = evaluate(current.argument);
+        if (current.operator === '-') return { ...argument, value: -argument.value };
+        if (current.operator === '!') {
+          requireDimensionless(argument, 'Logical not');
+          return dimensionless(argument.value ? 0 : 1);
+        }
+        return argument;
+      }
+
+      case 'binary': {
+        const left = evaluate(current.left);
+        const right = evaluate(current.right);
+        switch (current.operator) {
+          case '+':
+            requireSame(left, right, 'add');
+            return { ...left, value: left.value + right.value };
+          case '-':
+            requireSame(left, right, 'subtract');
+            return { ...left, value: left.value - right.value };
+          case '*':
+            return { value: left.value * right.value, length: left.length + right.length, angle: left.angle + right.angle };
+          case '/':
+            if (right.value === 0) throw new Error('Division by zero');
+            return { value: left.value / right.value, length: left.length - right.length, angle: left.angle - right.angle };
+          case '%':
+            requireSame(left, right, 'take the remainder of');
+            if (right.value === 0) throw new Error('Division by zero');
+            return { ...left, value: left.value % right.value };
+          case '^': {
+            requireDimensionless(right, 'Exponent');
+            const scaled = scaleDimension(left, right.value, 'Power');
+            return { ...scaled, value: Math.pow(left.value, right.value) };
+          }
+          case '&&':
+          case '||':
+            requireDimensionless(left, 'Logical operator');
+            requireDimensionless(right, 'Logical operator');
+            return dimensionless(
+              current.operator === '&&' ? (left.value && right.value ? 1 : 0) : left.value || right.value ? 1 : 0
+            );
+          default: {
+            requireSame(left, right, 'compare');
+            // Comparisons tolerate the rounding of unit conversions
+            const tolerance = 1e-9 * Math.max(1, Math.abs(left.value), Math.abs(right.value));
+            const difference = left.value - right.value;
+            const results: Record<string, boolean> = {
+              '==': Math.abs(difference) <= tolerance,
+              '!=': Math.abs(difference) > tolerance,
+              '<': difference < -tolerance,
+              '<=': difference <= tolerance,
+              '>': difference > tolerance,
+              '>=': difference >= -tolerance
+            };
+            return dimensionless(results[current.operator] ? 1 : 0);
+          }
+        }
+      }
+
+      case 'call':
+        return callFunction(current.name, current.args, evaluate);
+    }
+  };
+
+  return evaluate(node);
+}
+
+function callFunction(
+  name: string,
+  args: ExpressionNode[],
+  evaluate: (node: ExpressionNode) => Quantity
+): Quantity {
+  const arity = (count: number) => {
+    if (args.length !== count) {
+      throw new Error(`${name}() takes ${count} argument${count === 1 ? '' : 's'}`);
+    }
+  };
+
+  switch (name) {
+    case 'if': {
+      // Only the chosen branch is evaluated
+      arity(3);
+      const condition = evaluate(args[0]);
+      requireDimensionless(condition, 'if() condition');
+      return evaluate(condition.value ? args[1] : args[2]);
+    }
+
+    case 'sin':
+    case 'cos':
+    case 'tan': {
+      arity(1);
+      const angle = evaluate(args[0]);
+      requireAngle(angle, name);
+      return dimensionless(Math[name](angle.value));
+    }
+
+    case 'asin':
+    case 'acos':
+    case 'atan': {
+      arity(1);
+      const ratio = evaluate(args[0]);
+      requireDimensionless(ratio, `${name}()`);
+      const angle = Math[name](ratio.value);
+      if (isNaN(angle)) throw new Error(`${name}() argument out of range`);
+      return { value: angle, length: 0, angle: 1 };
+    }
+
+    case 'atan2': {
+      arity(2);
+      const y = evaluate(args[0]);
+      const x = evaluate(args[1]);
+      requireSame(y, x, 'take atan2 of');
+      return { value: Math.atan2(y.value, x.value), length: 0, angle: 1 };
+    }
+
+    case 'sqrt': {
+      arity(1);
+      const value = evaluate(args[0]);
+      if (value.value < 0) throw new Error('sqrt() of a negative value');
+      return { ...scaleDimension(value, 0.5, 'Square root'), value: Math.sqrt(value.value) };
+    }
+
+    case 'abs':
+    case 'round':
+    case 'floor':
+    case 'ceil': {
+      arity(1);
+      const value = evaluate(args[0]);
+      return { ...value, value: Math[name](value.value) };
+    }
+
+    case 'min':
+    case 'max': {
+      if (args.length === 0) throw new Error(`${name}() needs at least one argument`);
+      const values = args.map(evaluate);
+      values.forEach(value => requireSame(values[0], value, `take the ${name} of`));
+      const pick = name === 'min' ? Math.min : Math.max;
+      return { ...values[0], value: pick(...values.map(value => value.value)) };
+    }
+  }
+
+  throw new Error(`Unknown function "${name}"`);
+}
+
+/**
+ * Quantity for a number given in a unit ("mm", "deg", ... or empty for plain numbers)
+ */
+export function quantityFromUnit(value: number, unit?: string): Quantity {
+  if (!unit) return dimensionless(value);
+  const size = unitQuantity(unit);
+  return { value: value * size.value, length: size.length, angle: size.angle };
+}
+
+/**
+ * Express a quantity in a unit. A plain number is taken to be in that unit
+ * already, the way a bare number typed into a dimension is.
+ */
+export function quantityToUnit(quantity: Quantity, unit?: string): number {
+  if (!unit) {
+    requireDimensionless(quantity, 'A unitless value');
+    return quantity.value;
+  }
+  const size = unitQuantity(unit);
+  if (quantity.length === 0 && quantity.angle === 0) return quantity.value;
+  if (!sameDimension(quantity, size)) {
+    throw new Error(`Expected ${unit}, got ${describeDimension(quantity)}`);
+  }
+  return quantity.value / size.value;
+}
+
+// Units may be compound, such as "mm^2" or "mm/deg"
+function unitQuantity(unit: string): Quantity {
+  if (unit in EXPRESSION_UNITS) return EXPRESSION_UNITS[unit];
+  const node = parseExpression(unit);
+  if (expressionReferences(node).length > 0) {
+    throw new Error(`Unknown unit "${unit}"`);
+  }
+  return evaluateExpression(node, () => undefined);
+}
+
+/**
+ * Order names so that each comes after the names it depends on. Throws with
+ * the offending chain when the dependencies are circular.
+ */
+export function sortByDependencies(dependencies: Map<string, string[]>): string[] {
+  const order: string[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  const path: string[] = [];
+
+  const visit = (name: string) => {
+    if (state.get(name) === 'done') return;
+    if (state.get(name) === 'visiting') {
+      const cycle = path.slice(path.indexOf(name)).concat(name);
+      throw new Error(`Circular reference: ${cycle.join(' -> ')}`);
+    }
+    state.set(name, 'visiting');
+    path.push(name);
+    (dependencies.get(name) || []).forEach(dependency => {
+      if (dependencies.has(dependency)) visit(dependency);
+    });
+    path.pop();
+    state.set(name, 'done');
+    order.push(name);
+  };
+
+  dependencies.forEach((_, name) => visit(name));
+  return order;
+}
@@ -0,0 +1,911 @@
+import { Element } from 'src/store/elementsStore';
+import {
+  Constraint,
+  ConstraintType,
+  SketchSolveResult,
+  SketchStatus
+} from '../../types/constraints';
+import { DimensionalConstraintHelper } from './DimensionalConstraints';
+
+/**
+ * Numerical 2D sketch solver.
+ *
+ * Every constraint becomes one or more residual equations over the parameters
+ * of the elements it references (line endpoints, circle centres and radii, ...).
+ * The system is solved with a damped Newton (Levenberg-Marquardt) iteration, so
+ * under-constrained sketches move as little as possible from where they were
+ * drawn. The rank of the constraint Jacobian gives the remaining degrees of
+ * freedom and the constraints that are implied by, or contradict, the others.
+ *
+ * Constraints reference whole elements by id, or a point of an element as
+ * "<elementId>:<point>": start / end of lines and arcs, center of circles, arcs
+ * and rectangles, corner0..corner3 of rectangles. Rectangle sides are
+ * referenced as edge0..edge3.
+ */
+
+type Vec2 = { x: number; y: number };
+type PointAccessor = (x: Float64Array) => Vec2;
+type Residual = (x: Float64Array) => number;
+
+type Geometry =
+  | { kind: 'point'; at: PointAccessor }
+  | { kind: 'line'; start: PointAccessor; end: PointAccessor }
+  | {
+      kind: 'circle';
+      center: PointAccessor;
+      radius: (x: Float64Array) => number;
+      sweep?: (x: Float64Array) => number;
+    };
+
+export interface SketchSolverOptions {
+  /** Largest constraint error accepted as solved, in mm (or radians) */
+  tolerance?: number;
+  maxIterations?: number;
+}
+
+export interface SketchSolution {
+  result: SketchSolveResult;
+  /** Changed properties of each element that moved */
+  updates: Map<string, Partial<Element>>;
+}
+
+// Solved element properties, in the order they are stored in the parameter vector
+const PARAMETER_KEYS: Record<string, string[]> = {
+  point: ['x', 'y'],
+  line: ['x1', 'y1', 'x2', 'y2'],
+  circle: ['x', 'y', 'radius'],
+  arc: ['x', 'y', 'radius', 'startAngle', 'endAngle'],
+  rectangle: ['x', 'y', 'width', 'height', 'angle']
+};
+
+const DEFAULT_TOLERANCE = 1e-7;
+const DEFAULT_MAX_ITERATIONS = 100;
+// Relative size under which a Jacobian row counts as a combination of the previous ones
+const RANK_TOLERANCE = 1e-6;
+// Smallest remaining motion of an element, relative to a unit move, counted as a free direction
+const FREEDOM_TOLERANCE = 1e-8;
+// Once solved, Newton steps continue to this error (relative to the sketch size) to remove solver noise
+const POLISH_TOLERANCE = 1e-13;
+const POLISH_ITERATIONS = 10;
+// Solved values this close to a multiple of SNAP_GRID (relative to the sketch size) are stored as that multiple
+const SNAP_GRID = 1e-6;
+const SNAP_NOISE = 1e-9;
+
+/**
+ * Number of solved parameters of an element type, undefined when the type
+ * cannot take part in sketch constraints
+ */
+export function sketchParameterCount(type: string): number | undefined {
+  return PARAMETER_KEYS[type]?.length;
+}
+
+/**
+ * Split an entity reference into the element id and the optional point or edge name
+ */
+export function parseEntityReference(reference: string): { elementId: string; part?: string } {
+  const separator = reference.lastIndexOf(':');
+  if (separator < 0) return { elementId: reference };
+  return { elementId: reference.slice(0, separator), part: reference.slice(separator + 1) };
+}
+
+/**
+ * Group constraints into independent sketches: sets of elements connected
+ * through shared constraints, which can be solved separately.
+ */
+export function partitionSketches(constraints: Constraint[]): { elementIds: string[]; constraints: Constraint[] }[] {
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root) as string;
+    parent.set(id, root);
+    return root;
+  };
+
+  constraints.forEach(constraint => {
+    const ids = constraint.entityIds.map(reference => parseEntityReference(reference).elementId);
+    ids.forEach(id => {
+      if (!parent.has(id)) parent.set(id, id);
+    });
+    for (let i = 1; i < ids.length; i++) parent.set(find(ids[i]), find(ids[0]));
+  });
+
+  const groups = new Map<string, { elementIds: string[]; constraints: Constraint[] }>();
+  parent.forEach((_, id) => {
+    const root = find(id);
+    if (!groups.has(root)) groups.set(root, { elementIds: [], constraints: [] });
+    groups.get(root)!.elementIds.push(id);
+  });
+  constraints.forEach(constraint => {
+    if (constraint.entityIds.length === 0) return;
+    groups.get(find(parseEntityReference(constraint.entityIds[0]).elementId))!.constraints.push(constraint);
+  });
+
+  return Array.from(groups.values()).filter(group => group.constraints.length > 0);
+}
+
+/**
+ * Solve the constraints of one sketch. Constraints are expected in priority
+ * order: when they contradict each other the later ones are reported as
+ * conflicting and the geometry is solved without them.
+ */
+export function solveSketch(
+  elements: Element[],
+  constraints: Constraint[],
+  options: SketchSolverOptions = {}
+): SketchSolution {
+  const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+  const sketch = new Sketch(elements);
+  const tolerance = (options.tolerance ?? DEFAULT_TOLERANCE) * Math.max(1, sketch.extent());
+
+  const equations = constraints.map(constraint => buildEquations(sketch, constraint));
+  const x0 = sketch.initial;
+
+  const residualsOf = (included: boolean[]) =>
+    equations.reduce<Residual[]>((all, rows, k) => (included[k] ? all.concat(rows) : all), []);
+  const constraintError = (k: number, x: Float64Array) =>
+    equations[k].reduce((max, residual) => Math.max(max, Math.abs(residual(x))), 0);
+
+  const everything = constraints.map(() => true);
+  let solution = levenbergMarquardt(residualsOf(everything), x0, tolerance, maxIterations);
+  let iterations = solution.iterations;
+  const redundant: number[] = [];
+  let conflicting: number[] = [];
+
+  if (!solution.converged) {
+    // At a least-squares minimum that is not a solution the Jacobian rows are
+    // dependent: the dependent, lower-priority constraints are the conflict
+    const suspects = dependentConstraints(equations, solution.x).dependent;
+    const kept = constraints.map((_, k) => suspects.indexOf(k) < 0);
+    const retry = levenbergMarquardt(residualsOf(kept), x0, tolerance, maxIterations);
+    iterations += retry.iterations;
+    if (retry.converged) {
+      solution = retry;
+      suspects.forEach(k => (constraintError(k, retry.x) <= tolerance ? redundant : conflicting).push(k));
+    } else {
+      conflicting = suspects;
+    }
+  }
+
+  const analysis = dependentConstraints(equations, solution.x);
+  analysis.dependent.forEach(k => {
+    if (conflicting.indexOf(k) < 0 && redundant.indexOf(k) < 0) redundant.push(k);
+  });
+
+  let status: SketchStatus;
+  if (conflicting.length > 0 || redundant.length > 0) {
+    status = 'over-constrained';
+  } else if (x0.length - analysis.rank > 0) {
+    status = 'under-constrained';
+  } else {
+    status = 'fully-constrained';
+  }
+
+  // A sketch that cannot be solved is left as drawn; a solved one is polished
+  // and snapped, and fixed geometry keeps its exact values
+  let updates = new Map<string, Partial<Element>>();
+  let residual = solution.error;
+  if (solution.converged) {
+    const included = constraints.map((_, k) => conflicting.indexOf(k) < 0);
+    const residuals = residualsOf(included);
+    const scale = Math.max(1, sketch.extent());
+    const polished = levenbergMarquardt(residuals, solution.x, POLISH_TOLERANCE * scale, POLISH_ITERATIONS);
+    let x = polished.error <= solution.error ? polished.x : solution.x;
+
+    const fixed = sketch.fixedParameters(constraints);
+    const pinned = x.map((value, i) => (fixed.has(i) ? x0[i] : value));
+    if (maxAbs(residuals.map(residual => residual(pinned))) <= tolerance) x = pinned;
+    const snapped = sketch.snap(x, SNAP_GRID, SNAP_NOISE * scale, fixed);
+    if (maxAbs(residuals.map(residual => residual(snapped))) <= tolerance) x = snapped;
+
+    updates = sketch.updates(x, fixed);
+    residual = maxAbs(residuals.map(equation => equation(x)));
+  }
+
+  return {
+    result: {
+      elementIds: elements.map(element => element.id),
+      constraintIds: constraints.map(constraint => constraint.id),
+      status,
+      converged: solution.converged,
+      iterations,
+      residual,
+      degreesOfFreedom: x0.length - analysis.rank,
+      entityDegreesOfFreedom: sketch.freedom(analysis.basis),
+      redundantConstraintIds: redundant.map(k => constraints[k].id),
+      conflictingConstraintIds: conflicting.map(k => constraints[k].id)
+    },
+    updates
+  };
+}
+
+/**
+ * Parameter vector of the sketch elements and the geometry read from it
+ */
+class Sketch {
+  readonly initial: Float64Array;
+  private offsets = new Map<string, number>();
+  private elementsById = new Map<string, Element>();
+
+  constructor(private elements: Element[]) {
+    let size = 0;
+    elements.forEach(element => {
+      const keys = PARAMETER_KEYS[element.type];
+      if (!keys) {
+        throw new Error(`Element type "${element.type}" cannot be used in sketch constraints`);
+      }
+      this.offsets.set(element.id, size);
+      this.elementsById.set(element.id, element);
+      size += keys.length;
+    });
+
+    this.initial = new Float64Array(size);
+    elements.forEach(element => {
+      const offset = this.offsets.get(element.id) as number;
+      PARAMETER_KEYS[element.type].forEach((key, i) => {
+        const value = Number(element[key]) || 0;
+        // Rectangles store their rotation in degrees, arcs in radians
+        this.initial[offset + i] = element.type === 'rectangle' && key === 'angle' ? (value * Math.PI) / 180 : value;
+      });
+    });
+  }
+
+  freedom(basis: Float64Array[]): Record<string, number> {
+    const freedom: Record<string, number> = {};
+    this.elements.forEach(element => {
+      freedom[element.id] = remainingFreedom(basis, this.offsets.get(element.id) as number, PARAMETER_KEYS[element.type].length);
+    });
+    return freedom;
+  }
+
+  extent(): number {
+    let extent = 0;
+    this.initial.forEach(value => (extent = Math.max(extent, Math.abs(value))));
+    return extent;
+  }
+
+  /**
+   * Parameters held by FIXED constraints: all of a fixed element, the
+   * coordinates of a fixed point that is stored directly
+   */
+  fixedParameters(constraints: Constraint[]): Set<number> {
+    const fixed = new Set<number>();
+    constraints.forEach(constraint => {
+      if (constraint.type !== ConstraintType.FIXED) return;
+      constraint.entityIds.forEach(reference => {
+        const { element, offset, part } = this.element(reference);
+        let indices: number[] = [];
+        if (part === undefined) indices = PARAMETER_KEYS[element.type].map((_, i) => i);
+        else if (part === 'center' || (element.type === 'line' && part === 'start')) indices = [0, 1];
+        else if (element.type === 'line' && part === 'end') indices = [2, 3];
+        indices.forEach(i => fixed.add(offset + i));
+      });
+    });
+    return fixed;
+  }
+
+  /**
+   * Parameters moved to the nearest multiple of `grid` when within `noise` of it;
+   * rectangle angles are snapped in the degrees they are stored in
+   */
+  snap(solved: Float64Array, grid: number, noise: number, fixed: Set<number>): Float64Array {
+    const x = Float64Array.from(solved);
+    this.elements.forEach(element => {
+      const offset = this.offsets.get(element.id) as number;
+      PARAMETER_KEYS[element.type].forEach((key, i) => {
+        if (fixed.has(offset + i)) return;
+        const degrees = element.type === 'rectangle' && key === 'angle';
+        const value = degrees ? (x[offset + i] * 180) / Math.PI : x[offset + i];
+        // + 0 turns -0 into 0
+        const nearest = Math.round(value / grid) * grid + 0;
+        if (Math.abs(value - nearest) > noise) return;
+        x[offset + i] = degrees ? (nearest * Math.PI) / 180 : nearest;
+      });
+    });
+    return x;
+  }
+
+  updates(solved: Float64Array, fixed: Set<number> = new Set()): Map<string, Partial<Element>> {
+    const x = Float64Array.from(solved);
+    const updates = new Map<string, Partial<Element>>();
+    this.elements.forEach(element => {
+      const offset = this.offsets.get(element.id) as number;
+      // The equations cannot tell a negative radius or size from a positive one:
+      // store the same geometry with positive values
+      if ((element.type === 'circle' || element.type === 'arc') && x[offset + 2] < 0) {
+        x[offset + 2] = -x[offset + 2];
+        if (element.type === 'arc') {
+          x[offset + 3] += Math.PI;
+          x[offset + 4] += Math.PI;
+        }
+      }
+      if (element.type === 'rectangle') {
+        x[offset + 2] = Math.abs(x[offset + 2]);
+        x[offset + 3] = Math.abs(x[offset + 3]);
+      }
+      const changes: Partial<Element> = {};
+      let changed = false;
+      PARAMETER_KEYS[element.type].forEach((key, i) => {
+        if (fixed.has(offset + i)) return;
+        if (Math.abs(x[offset + i] - this.initial[offset + i]) <= 1e-12 * Math.max(1, Math.abs(this.initial[offset + i]))) {
+          return;
+        }
+        changes[key] = element.type === 'rectangle' && key === 'angle' ? (x[offset + i] * 180) / Math.PI : x[offset + i];
+        changed = true;
+      });
+      if (changed) updates.set(element.id, changes);
+    });
+    return updates;
+  }
+
+  element(reference: string): { element: Element; offset: number; part?: string } {
+    const { elementId, part } = parseEntityReference(reference);
+    const element = this.elementsById.get(elementId);
+    if (!element) {
+      throw new Error(`Constraint references missing element ${elementId}`);
+    }
+    return { element, offset: this.offsets.get(elementId) as number, part };
+  }
+
+  geometry(reference: string): Geometry {
+    const { element, offset: o, part } = this.element(reference);
+    const point = (at: PointAccessor): Geometry => ({ kind: 'point', at });
+
+    switch (element.type) {
+      case 'point':
+        return point(x => ({ x: x[o], y: x[o + 1] }));
+
+      case 'line': {
+        const start: PointAccessor = x => ({ x: x[o], y: x[o + 1] });
+        const end: PointAccessor = x => ({ x: x[o + 2], y: x[o + 3] });
+        if (part === 'start') return point(start);
+        if (part === 'end') return point(end);
+        if (part === undefined) return { kind: 'line', start, end };
+        break;
+      }
+
+      case 'circle': {
+        const center: PointAccessor = x => ({ x: x[o], y: x[o + 1] });
+        if (part === 'center') return point(center);
+        if (part === undefined) return { kind: 'circle', center, radius: x => x[o + 2] };
+        break;
+      }
+
+      case 'arc': {
+        const center: PointAccessor = x => ({ x: x[o], y: x[o + 1] });
+        const onArc = (angle: number): PointAccessor => x => ({
+          x: x[o] + x[o + 2] * Math.cos(x[o + angle]),
+          y: x[o + 1] + x[o + 2] * Math.sin(x[o + angle])
+        });
+        if (part === 'center') return point(center);
+        if (part === 'start') return point(onArc(3));
+        if (part === 'end') return point(onArc(4));
+        if (part === undefined) {
+          return {
+            kind: 'circle',
+            center,
+            radius: x => x[o + 2],
+            sweep: x => {
+              const sweep = (x[o + 4] - x[o + 3]) % (2 * Math.PI);
+              return sweep < 0 ? sweep + 2 * Math.PI : sweep;
+            }
+          };
+        }
+        break;
+      }
+
+      case 'rectangle': {
+        const corner = (k: number): PointAccessor => x => {
+          const u = (k === 1 || k === 2 ? 0.5 : -0.5) * x[o + 2];
+          const v = (k >= 2 ? 0.5 : -0.5) * x[o + 3];
+          const cos = Math.cos(x[o + 4]);
+          const sin = Math.sin(x[o + 4]);
+          return { x: x[o] + u * cos - v * sin, y: x[o + 1] + u * sin + v * cos };
+        };
+        if (part === 'center') return point(x => ({ x: x[o], y: x[o + 1] }));
+        // The whole rectangle stands for its first side
+        const match = /^(corner|edge)([0-3])$/.exec(part === undefined ? 'edge0' : part);
+        if (match) {
+          const k = Number(match[2]);
+          return match[1] === 'corner' ? point(corner(k)) : { kind: 'line', start: corner(k), end: corner((k + 1) % 4) };
+        }
+        break;
+      }
+    }
+
+    throw new Error(`Element ${element.id} of type ${element.type} has no "${part}" to constrain`);
+  }
+
+  /**
+   * Points a coincidence between whole elements can join: endpoints, centres, corners
+   */
+  characteristicPoints(reference: string): PointAccessor[] {
+    const geometry = this.geometry(reference);
+    if (geometry.kind === 'point') return [geometry.at];
+
+    const { element } = this.element(reference);
+    const parts: Record<string, string[]> = {
+      line: ['start', 'end'],
+      circle: ['center'],
+      arc: ['center', 'start', 'end'],
+      rectangle: ['center', 'corner0', 'corner1', 'corner2', 'corner3']
+    };
+    return (parts[element.type] || []).map(part => {
+      const found = this.geometry(`${element.id}:${part}`);
+      return (found as { at: PointAccessor }).at;
+    });
+  }
+}
+
+function sub(a: Vec2, b: Vec2): Vec2 {
+  return { x: a.x - b.x, y: a.y - b.y };
+}
+
+function cross(a: Vec2, b: Vec2): number {
+  return a.x * b.y - a.y * b.x;
+}
+
+function dot(a: Vec2, b: Vec2): number {
+  return a.x * b.x + a.y * b.y;
+}
+
+function norm(a: Vec2): number {
+  return Math.sqrt(a.x * a.x + a.y * a.y);
+}
+
+function wrapAngle(angle: number): number {
+  return angle - 2 * Math.PI * Math.round(angle / (2 * Math.PI));
+}
+
+function direction(line: { start: PointAccessor; end: PointAccessor }, x: Float64Array): Vec2 {
+  const d = sub(line.end(x), line.start(x));
+  const length = Math.max(norm(d), 1e-12);
+  return { x: d.x / length, y: d.y / length };
+}
+
+// Distance of a point from the infinite line, positive on the left of its direction
+function signedDistance(line: { start: PointAccessor; end: PointAccessor }, p: Vec2, x: Float64Array): number {
+  return cross(direction(line, x), sub(p, line.start(x)));
+}
+
+function constraintValue(constraint: Constraint): { value: number; unit?: string } {
+  const source = constraint as Constraint & { value?: number; unit?: string };
+  const value = source.value ?? constraint.parameters?.value;
+  if (typeof value !== 'number' || !isFinite(value)) {
+    throw new Error(`${constraint.type} constraint ${constraint.id} has no value`);
+  }
+  return { value, unit: source.unit ?? constraint.parameters?.unit };
+}
+
+function lengthValue(constraint: Constraint): number {
+  const { value, unit } = constraintValue(constraint);
+  return DimensionalConstraintHelper.convertValue(value, unit || 'mm', 'mm');
+}
+
+/**
+ * Residual equations of a constraint, zero when it is satisfied. Choices that
+ * depend on the drawing (which side of a line, inner or outer tangency, which
+ * endpoints meet) are taken from the current geometry.
+ */
+function buildEquations(sketch: Sketch, constraint: Constraint): Residual[] {
+  const x0 = sketch.initial;
+  const refs = constraint.entityIds;
+  const geometries = refs.map(reference => sketch.geometry(reference));
+  const fail = (expected: string): never => {
+    throw new Error(`${constraint.type} constraint ${constraint.id} needs ${expected}`);
+  };
+  const lineAt = (k: number) => {
+    const geometry = geometries[k];
+    return geometry && geometry.kind === 'line' ? geometry : fail('lines');
+  };
+  const circleAt = (k: number) => {
+    const geometry = geometries[k];
+    return geometry && geometry.kind === 'circle' ? geometry : fail('circles or arcs');
+  };
+  // Points and the centres of circles, for constraints that act on locations
+  const locationAt = (k: number): PointAccessor => {
+    const geometry = geometries[k];
+    if (geometry && geometry.kind === 'point') return geometry.at;
+    if (geometry && geometry.kind === 'circle') return geometry.center;
+    return fail('points or circles');
+  };
+  const samePoint = (p: PointAccessor, q: PointAccessor): Residual[] => [
+    x => p(x).x - q(x).x,
+    x => p(x).y - q(x).y
+  ];
+  const sign = (value: number) => (value < 0 ? -1 : 1);
+
+  switch (constraint.type) {
+    case ConstraintType.COINCIDENT: {
+      if (refs.length !== 2) fail('two entities');
+      const [a, b] = geometries;
+      if (a.kind === 'point' && b.kind === 'point') return samePoint(a.at, b.at);
+
+      // A point on a line or circle only has to lie on it
+      const pointOn = (p: PointAccessor, other: Geometry): Residual[] | null => {
+        if (other.kind === 'line') return [x => signedDistance(other, p(x), x)];
+        if (other.kind === 'circle') return [x => norm(sub(p(x), other.center(x))) - other.radius(x)];
+        return null;
+      };
+      const onCurve = a.kind === 'point' ? pointOn(a.at, b) : b.kind === 'point' ? pointOn(b.at, a) : null;
+      if (onCurve) return onCurve;
+
+      // Whole elements meet at their closest pair of end or centre points
+      const candidates = sketch.characteristicPoints(refs[1]);
+      let best: PointAccessor[] = [];
+      let bestDistance = Infinity;
+      sketch.characteristicPoints(refs[0]).forEach(p => {
+        candidates.forEach(q => {
+          const distance = norm(sub(p(x0), q(x0)));
+          if (distance < bestDistance) {
+            bestDistance = distance;
+            best = [p, q];
+          }
+        });
+      });
+      if (best.length === 0) return fail('two entities with points');
+      return samePoint(best[0], best[1]);
+    }
+
+    case ConstraintType.CONCENTRIC:
+      if (refs.length !== 2) fail('two circles or arcs');
+      return samePoint(locationAt(0), locationAt(1));
+
+    case ConstraintType.COLINEAR: {
+      const a = lineAt(0);
+      const b = lineAt(1);
+      return [x => signedDistance(a, b.start(x), x), x => signedDistance(a, b.end(x), x)];
+    }
+
+    case ConstraintType.PARALLEL: {
+      const a = lineAt(0);
+      const b = lineAt(1);
+      return [x => cross(direction(a, x), direction(b, x))];
+    }
+
+    case ConstraintType.PERPENDICULAR: {
+      const a = lineAt(0);
+      const b = lineAt(1);
+      return [x => dot(direction(a, x), direction(b, x))];
+    }
+
+    case ConstraintType.TANGENT: {
+      if (refs.length !== 2) fail('two entities');
+      const [a, b] = geometries;
+      if (a.kind === 'line' || b.kind === 'line') {
+        const line = a.kind === 'line' ? a : lineAt(1);
+        const circle = a.kind === 'line' ? circleAt(1) : circleAt(0);
+        const side = sign(signedDistance(line, circle.center(x0), x0));
+        return [x => signedDistance(line, circle.center(x), x) - side * circle.radius(x)];
+      }
+      const c1 = circleAt(0);
+      const c2 = circleAt(1);
+      const distance0 = norm(sub(c1.center(x0), c2.center(x0)));
+      const outer = Math.abs(distance0 - (c1.radius(x0) + c2.radius(x0)));
+      const inner = Math.abs(distance0 - Math.abs(c1.radius(x0) - c2.radius(x0)));
+      if (outer <= inner) {
+        return [x => norm(sub(c1.center(x), c2.center(x))) - (c1.radius(x) + c2.radius(x))];
+      }
+      const larger = sign(c1.radius(x0) - c2.radius(x0));
+      return [x => norm(sub(c1.center(x), c2.center(x))) - larger * (c1.radius(x) - c2.radius(x))];
+    }
+
+    case ConstraintType.SYMMETRIC: {
+      if (refs.length !== 3) fail('two entities and a symmetry line');
+      const axis = lineAt(2);
+      const mirrored = (p: PointAccessor, q: PointAccessor): Residual[] => [
+        x => signedDistance(axis, { x: (p(x).x + q(x).x) / 2, y: (p(x).y + q(x).y) / 2 }, x),
+        x => dot(sub(q(x), p(x)), direction(axis, x))
+      ];
+      const [a, b] = geometries;
+      if (a.kind === 'line' && b.kind === 'line') {
+        // Pair the endpoints the way the lines are currently drawn
+        const reflect = (p: Vec2): Vec2 => {
+          const d = direction(axis, x0);
+          const origin = axis.start(x0);
+          const along = dot(sub(p, origin), d);
+          const foot = { x: origin.x + d.x * along, y: origin.y + d.y * along };
+          return { x: 2 * foot.x - p.x, y: 2 * foot.y - p.y };
+        };
+        const straight = norm(sub(reflect(a.start(x0)), b.start(x0))) + norm(sub(reflect(a.end(x0)), b.end(x0)));
+        const crossed = norm(sub(reflect(a.start(x0)), b.end(x0))) + norm(sub(reflect(a.end(x0)), b.start(x0)));
+        return straight <= crossed
+          ? mirrored(a.start, b.start).concat(mirrored(a.end, b.end))
+          : mirrored(a.start, b.end).concat(mirrored(a.end, b.start));
+      }
+      if (a.kind === 'circle' && b.kind === 'circle') {
+        return mirrored(a.center, b.center).concat([x => a.radius(x) - b.radius(x)]);
+      }
+      return mirrored(locationAt(0), locationAt(1));
+    }
+
+    case ConstraintType.HORIZONTAL:
+    case ConstraintType.VERTICAL: {
+      const along = (p: Vec2) => (constraint.type === ConstraintType.HORIZONTAL ? p.y : p.x);
+      if (refs.length === 1) {
+        const line = lineAt(0);
+        return [x => along(line.end(x)) - along(line.start(x))];
+      }
+      const p = locationAt(0);
+      const q = locationAt(1);
+      return [x => along(q(x)) - along(p(x))];
+    }
+
+    case ConstraintType.EQUAL: {
+      if (refs.length !== 2) fail('two entities');
+      const [a, b] = geometries;
+      if (a.kind === 'line' && b.kind === 'line') {
+        return [x => norm(sub(a.end(x), a.start(x))) - norm(sub(b.end(x), b.start(x)))];
+      }
+      const c1 = circleAt(0);
+      const c2 = circleAt(1);
+      return [x => c1.radius(x) - c2.radius(x)];
+    }
+
+    case ConstraintType.FIXED: {
+      const rows: Residual[] = [];
+      refs.forEach(reference => {
+        const { element, offset, part } = sketch.element(reference);
+        if (part === undefined) {
+          PARAMETER_KEYS[element.type].forEach((_, i) => {
+            const value = x0[offset + i];
+            rows.push(x => x[offset + i] - value);
+          });
+          return;
+        }
+        const p = locationAt(refs.indexOf(reference));
+        const at = p(x0);
+        rows.push(x => p(x).x - at.x, x => p(x).y - at.y);
+      });
+      return rows;
+    }
+
+    case ConstraintType.DISTANCE: {
+      const distance = lengthValue(constraint);
+      if (refs.length === 1) {
+        const line = lineAt(0);
+        return [x => norm(sub(line.end(x), line.start(x))) - distance];
+      }
+      if (refs.length !== 2) fail('one line or two entities');
+      const [a, b] = geometries;
+      if (a.kind === 'line' || b.kind === 'line') {
+        const line = a.kind === 'line' ? a : lineAt(1);
+        const other = a.kind === 'line' ? b : a;
+        // Between parallel lines the distance is measured from the start of the second
+        const p: PointAccessor = other.kind === 'line' ? other.start : locationAt(a.kind === 'line' ? 1 : 0);
+        const side = sign(signedDistance(line, p(x0), x0));
+        return [x => signedDistance(line, p(x), x) - side * distance];
+      }
+      const p = locationAt(0);
+      const q = locationAt(1);
+      return [x => norm(sub(p(x), q(x))) - distance];
+    }
+
+    case ConstraintType.ANGLE: {
+      const a = lineAt(0);
+      const b = lineAt(1);
+      const { value, unit } = constraintValue(constraint);
+      const angle = unit === 'rad' ? value : (value * Math.PI) / 180;
+      const measured = (x: Float64Array) => {
+        const u = direction(a, x);
+        const v = direction(b, x);
+        return Math.atan2(cross(u, v), dot(u, v));
+      };
+      // Keep the orientation the lines are drawn in
+      const current = measured(x0);
+      const target = [angle, -angle, Math.PI - angle, angle - Math.PI].reduce((best, candidate) =>
+        Math.abs(wrapAngle(candidate - current)) < Math.abs(wrapAngle(best - current)) ? candidate : best
+      );
+      return [x => wrapAngle(measured(x) - target)];
+    }
+
+    case ConstraintType.RADIUS:
+    case ConstraintType.DIAMETER: {
+      const circle = circleAt(0);
+      const value = lengthValue(constraint);
+      const factor = constraint.type === ConstraintType.DIAMETER ? 2 : 1;
+      return [x => factor * circle.radius(x) - value];
+    }
+
+    case ConstraintType.LENGTH: {
+      const value = lengthValue(constraint);
+      const geometry = geometries[0];
+      if (geometry && geometry.kind === 'circle' && geometry.sweep) {
+        const sweep = geometry.sweep;
+        return [x => geometry.radius(x) * sweep(x) - value];
+      }
+      const line = lineAt(0);
+      return [x => norm(sub(line.end(x), line.start(x))) - value];
+    }
+  }
+
+  throw new Error(`Unsupported constraint type ${constraint.type}`);
+}
+
+/**
+ * Central-difference Jacobian of the residuals
+ */
+function jacobian(residuals: Residual[], x: Float64Array): Float64Array[] {
+  const rows = residuals.map(() => new Float64Array(x.length));
+  const probe = Float64Array.from(x);
+  for (let j = 0; j < x.length; j++) {
+    const step = 1e-6 * Math.max(1, Math.abs(x[j]));
+    probe[j] = x[j] + step;
+    const forward = residuals.map(residual => residual(probe));
+    probe[j] = x[j] - step;
+    const backward = residuals.map(residual => residual(probe));
+    probe[j] = x[j];
+    for (let i = 0; i < residuals.length; i++) rows[i][j] = (forward[i] - backward[i]) / (2 * step);
+  }
+  return rows;
+}
+
+function maxAbs(values: number[]): number {
+  return values.reduce((max, value) => Math.max(max, Math.abs(value)), 0);
+}
+
+/**
+ * Solve a symmetric positive-definite system in place with a Cholesky factorisation
+ */
+function choleskySolve(matrix: Float64Array[], rhs: Float64Array): Float64Array | null {
+  const n = rhs.length;
+  const l = matrix.map(row => new Float64Array(row.length));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) sum -= l[i][k] * l[j][k];
+      if (i === j) {
+        if (sum <= 0) return null;
+        l[i][i] = Math.sqrt(sum);
+      } else {
+        l[i][j] = sum / l[j][j];
+      }
+    }
+  }
+  const y = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    let sum = rhs[i];
+    for (let k = 0; k < i; k++) sum -= l[i][k] * y[k];
+    y[i] = sum / l[i][i];
+  }
+  const x = new Float64Array(n);
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = y[i];
+    for (let k = i + 1; k < n; k++) sum -= l[k][i] * x[k];
+    x[i] = sum / l[i][i];
+  }
+  return x;
+}
+
+/**
+ * Damped Newton iteration on the sum of squared residuals. The damping keeps
+ * steps short where the system is singular, so free parameters stay put.
+ */
+function levenbergMarquardt(
+  residuals: Residual[],
+  start: Float64Array,
+  tolerance: number,
+  maxIterations: number
+): { x: Float64Array; iterations: number; error: number; converged: boolean } {
+  let x = Float64Array.from(start);
+  let values = residuals.map(residual => residual(x));
+  let error = maxAbs(values);
+  let cost = values.reduce((sum, value) => sum + value * value, 0);
+  let damping = 1e-3;
+  let iterations = 0;
+  const n = x.length;
+
+  while (error > tolerance && iterations < maxIterations) {
+    iterations++;
+    const rows = jacobian(residuals, x);
+    const normal = Array.from({ length: n }, () => new Float64Array(n));
+    const gradient = new Float64Array(n);
+    rows.forEach((row, i) => {
+      for (let a = 0; a < n; a++) {
+        if (row[a] === 0) continue;
+        gradient[a] += row[a] * values[i];
+        for (let b = 0; b <= a; b++) normal[a][b] += row[a] * row[b];
+      }
+    });
+    for (let a = 0; a < n; a++) for (let b = 0; b < a; b++) normal[b][a] = normal[a][b];
+    const scale = normal.reduce((max, row, a) => Math.max(max, row[a]), 1);
+
+    let improved = false;
+    while (damping < 1e12) {
+      const damped = normal.map((row, a) => {
+        const copy = Float64Array.from(row);
+        copy[a] += damping * scale;
+        return copy;
+      });
+      const step = choleskySolve(damped, gradient.map(g => -g));
+      if (step) {
+        const candidate = x.map((value, a) => value + step[a]);
+        const candidateValues = residuals.map(residual => residual(candidate));
+        const candidateCost = candidateValues.reduce((sum, value) => sum + value * value, 0);
+        if (candidateCost < cost) {
+          const progress = cost - candidateCost;
+          x = candidate;
+          values = candidateValues;
+          cost = candidateCost;
+          error = maxAbs(values);
+          damping = Math.max(damping / 3, 1e-12);
+          improved = progress > 1e-30;
+          break;
+        }
+      }
+      damping *= 4;
+    }
+    if (!improved) break;
+  }
+
+  return { x, iterations, error, converged: error <= tolerance };
+}
+
+/**
+ * Rank of the constraint Jacobian, built row by row in constraint order with a
+ * Gram-Schmidt sweep. A constraint whose rows add nothing new to the rows
+ * before it is implied by (or contradicts) the earlier constraints.
+ */
+function dependentConstraints(
+  equations: Residual[][],
+  x: Float64Array
+): { rank: number; dependent: number[]; basis: Float64Array[] } {
+  const basis: Float64Array[] = [];
+  const dependent: number[] = [];
+
+  equations.forEach((rows, k) => {
+    let independent = true;
+    jacobian(rows, x).forEach(row => {
+      const length = Math.sqrt(row.reduce((sum, value) => sum + value * value, 0));
+      const remainder = Float64Array.from(row);
+      basis.forEach(unit => {
+        let projection = 0;
+        for (let j = 0; j < remainder.length; j++) projection += remainder[j] * unit[j];
+        for (let j = 0; j < remainder.length; j++) remainder[j] -= projection * unit[j];
+      });
+      const left = Math.sqrt(remainder.reduce((sum, value) => sum + value * value, 0));
+      if (length === 0 || left <= RANK_TOLERANCE * length) {
+        independent = false;
+        return;
+      }
+      basis.push(remainder.map(value => value / left));
+    });
+    if (!independent) dependent.push(k);
+  });
+
+  return { rank: basis.length, dependent, basis };
+}
+
+/**
+ * Degrees of freedom left to a group of parameters: the rank of the projection
+ * of the constraint null space onto them, from a pivoted Cholesky factorisation
+ * of I - Bᵀ·B restricted to the group (B being the orthonormal row basis).
+ */
+function remainingFreedom(basis: Float64Array[], offset: number, count: number): number {
+  const projector = Array.from({ length: count }, (_, i) => {
+    const row = new Float64Array(count);
+    for (let j = 0; j < count; j++) {
+      let sum = i === j ? 1 : 0;
+      basis.forEach(unit => (sum -= unit[offset + i] * unit[offset + j]));
+      row[j] = sum;
+    }
+    return row;
+  });
+
+  let rank = 0;
+  const used = new Array(count).fill(false);
+  for (let step = 0; step < count; step++) {
+    let pivot = -1;
+    for (let i = 0; i < count; i++) {
+      if (!used[i] && (pivot < 0 || projector[i][i] > projector[pivot][pivot])) pivot = i;
+    }
+    if (pivot < 0 || projector[pivot][pivot] <= FREEDOM_TOLERANCE) break;
+    used[pivot] = true;
+    rank++;
+    const p = projector[pivot][pivot];
+    const column = projector.map(row => row[pivot]);
+    for (let i = 0; i < count; i++) {
+      for (let j = 0; j < count; j++) projector[i][j] -= (column[i] * column[j]) / p;
+    }
+  }
+  return rank;
+}
@@ -0,0 +1,1566 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Element } from 'src/store/elementsStore';
+
+/**
+ * ASCII DXF reader and writer.
+ *
+ * The reader understands the HEADER ($INSUNITS), TABLES (LAYER), BLOCKS and
+ * ENTITIES sections and maps LINE, CIRCLE, ARC, LWPOLYLINE, POLYLINE, ELLIPSE,
+ * SPLINE, TEXT, MTEXT and INSERT entities to canvas elements. Coordinates are
+ * converted to millimetres. The writer produces an AC1015 file without handles,
+ * which is accepted by AutoCAD, LibreCAD, QCAD and most CAM packages.
+ */
+
+export interface DxfLayer {
+  name: string;
+  color: string;
+  visible: boolean;
+  locked: boolean;
+}
+
+export interface DxfImportResult {
+  layers: DxfLayer[];
+  elements: Element[];
+  /** Scale applied to convert drawing units to millimetres */
+  unitScale: number;
+}
+
+export interface DxfExportLayer {
+  id: string;
+  name: string;
+  color: string;
+  visible?: boolean;
+  locked?: boolean;
+}
+
+interface DxfPair {
+  code: number;
+  value: string;
+}
+
+interface DxfEntity {
+  type: string;
+  pairs: DxfPair[];
+  children: DxfEntity[];
+}
+
+interface DxfBlock {
+  name: string;
+  base: { x: number; y: number; z: number };
+  entities: DxfEntity[];
+}
+
+interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * Affine placement of block content: world = m * local + t.
+ * Only rotations about Z, scaling and mirroring are produced by INSERT.
+ */
+interface Placement {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  tx: number;
+  ty: number;
+  tz: number;
+  sz: number;
+}
+
+interface ReadContext {
+  blocks: Map<string, DxfBlock>;
+  layerColors: Map<string, string>;
+  resolveLayerId: (layerName: string) => string;
+  unitScale: number;
+  depth: number;
+}
+
+// $INSUNITS code -> millimetres per drawing unit
+const INSUNITS_TO_MM: Record<number, number> = {
+  1: 25.4,
+  2: 304.8,
+  3: 1609344,
+  4: 1,
+  5: 10,
+  6: 1000,
+  7: 1000000,
+  8: 0.0000254,
+  9: 0.0254,
+  10: 914.4,
+  14: 100,
+  15: 1000,
+  16: 100000
+};
+
+const MAX_INSERT_DEPTH = 16;
+const ARC_SEGMENT_ANGLE = Math.PI / 18;
+
+// ======= COLOUR HANDLING =======
+
+const BASE_ACI_COLORS: Record<number, string> = {
+  1: '#ff0000',
+  2: '#ffff00',
+  3: '#00ff00',
+  4: '#00ffff',
+  5: '#0000ff',
+  6: '#ff00ff',
+  7: '#000000',
+  8: '#808080',
+  9: '#c0c0c0'
+};
+
+function toHex(r: number, g: number, b: number): string {
+  const channel = (v: number) => Math.max(0, Math.min(255, Math.round(v))).toString(16).padStart(2, '0');
+  return `#${channel(r)}${channel(g)}${channel(b)}`;
+}
+
+/**
+ * Convert an AutoCAD Color Index to a hex colour.
+ * Indices 10-249 follow the hue/shade layout of the standard AutoCAD palette.
+ */
+export function aciToHex(index: number): string {
+  const aci = Math.abs(index);
+  if (BASE_ACI_COLORS[aci]) return BASE_ACI_COLORS[aci];
+
+  if (aci >= 250 && aci <= 255) {
+    const level = 51 + (aci - 250) * 40.8;
+    return toHex(level, level, level);
+  }
+
+  if (aci >= 10 && aci <= 249) {
+    const hue = Math.floor((aci - 10) / 10) * 15;
+    const shade = (aci % 10);
+    const values = [1, 0.8, 0.6, 0.5, 0.3];
+    const value = values[Math.floor(shade / 2)];
+    const saturation = shade % 2 === 0 ? 1 : 0.5;
+    return hsvToHex(hue, saturation, value);
+  }
+
+  return '#000000';
+}
+
+function hsvToHex(hue: number, saturation: number, value: number): string {
+  const c = value * saturation;
+  const x = c * (1 - Math.abs(((hue / 60) % 2) - 1));
+  const m = value - c;
+  let rgb: [number, number, number];
+
+  if (hue < 60) rgb = [c, x, 0];
+  else if (hue < 120) rgb = [x, c, 0];
+  else if (hue < 180) rgb = [0, c, x];
+  else if (hue < 240) rgb = [0, x, c];
+  else if (hue < 300) rgb = [x, 0, c];
+  else rgb = [c, 0, x];
+
+  return toHex((rgb[0] + m) * 255, (rgb[1] + m) * 255, (rgb[2] + m) * 255);
+}
+
+function parseHexColor(color: string | number | undefined): [number, number, number] | null {
+  if (typeof color === 'number') {
+    return [(color >> 16) & 0xff, (color >> 8) & 0xff, color & 0xff];
+  }
+  if (!color || typeof color !== 'string') return null;
+
+  let hex = color.trim().replace(/^#/, '').replace(/^0x/i, '');
+  if (hex.length === 3) {
+    hex = hex.split('').map(ch => ch + ch).join('');
+  }
+  if (!/^[0-9a-f]{6}$/i.test(hex)) return null;
+
+  const value = parseInt(hex, 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+let aciPalette: [number, number, number][] | null = null;
+
+/**
+ * Find the closest AutoCAD Color Index for a hex colour
+ */
+export function hexToAci(color: string | number | undefined): number {
+  const rgb = parseHexColor(color);
+  if (!rgb) return 7;
+
+  if (!aciPalette) {
+    aciPalette = [];
+    for (let aci = 0; aci <= 255; aci++) {
+      aciPalette.push(parseHexColor(aciToHex(aci)) ?? [0, 0, 0]);
+    }
+  }
+
+  let best = 7;
+  let bestDistance = Infinity;
+  for (let aci = 1; aci <= 255; aci++) {
+    const candidate = aciPalette[aci];
+    const distance =
+      (candidate[0] - rgb[0]) ** 2 +
+      (candidate[1] - rgb[1]) ** 2 +
+      (candidate[2] - rgb[2]) ** 2;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = aci;
+    }
+  }
+  return best;
+}
+
+// ======= TOKENISING =======
+
+function tokenize(content: string): DxfPair[] {
+  const lines = content.replace(/^\uFEFF/, '').replace(/\s+$/, '').split(/\r\n|\r|\n/);
+  const pairs: DxfPair[] = [];
+
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    const code = parseInt(lines[i].trim(), 10);
+    if (isNaN(code)) {
+      throw new Error(`Invalid DXF group code "${lines[i].trim()}" at line ${i + 1}`);
+    }
+    pairs.push({ code, value: lines[i + 1].replace(/\s+$/, '') });
+  }
+
+  return pairs;
+}
+
+function splitSections(pairs: DxfPair[]): Map<string, DxfPair[]> {
+  const sections = new Map<string, DxfPair[]>();
+  let i = 0;
+
+  while (i < pairs.length) {
+    const pair = pairs[i];
+    if (pair.code === 0 && pair.value === 'SECTION' && pairs[i + 1]?.code === 2) {
+      const name = pairs[i + 1].value.trim().toUpperCase();
+      const body: DxfPair[] = [];
+      i += 2;
+      while (i < pairs.length && !(pairs[i].code === 0 && pairs[i].value === 'ENDSEC')) {
+        body.push(pairs[i]);
+        i++;
+      }
+      sections.set(name, body);
+    }
+    i++;
+  }
+
+  return sections;
+}
+
+/**
+ * Group pairs into entities. VERTEX and ATTRIB records are attached to the
+ * POLYLINE or INSERT that owns them; SEQEND closes the sequence.
+ */
+function groupEntities(pairs: DxfPair[]): DxfEntity[] {
+  const entities: DxfEntity[] = [];
+  let current: DxfEntity | null = null;
+
+  for (const pair of pairs) {
+    if (pair.code === 0) {
+      const type = pair.value.trim().toUpperCase();
+      current = { type, pairs: [], children: [] };
+      const owner = entities[entities.length - 1];
+
+      if ((type === 'VERTEX' || type === 'ATTRIB') && owner) {
+        owner.children.push(current);
+      } else if (type === 'SEQEND') {
+        current = null;
+      } else {
+        entities.push(current);
+      }
+    } else if (current) {
+      current.pairs.push(pair);
+    }
+  }
+
+  return entities;
+}
+
+function getValue(entity: DxfEntity, code: number): string | undefined {
+  const pair = entity.pairs.find(p => p.code === code);
+  return pair?.value;
+}
+
+function getNumber(entity: DxfEntity, code: number, fallback = 0): number {
+  const value = getValue(entity, code);
+  if (value === undefined) return fallback;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? fallback : parsed;
+}
+
+function getPoint(entity: DxfEntity, baseCode: number): Vec3 {
+  return {
+    x: getNumber(entity, baseCode),
+    y: getNumber(entity, baseCode + 10),
+    z: getNumber(entity, baseCode + 20)
+  };
+}
+
+function getString(entity: DxfEntity, code: number, fallback = ''): string {
+  return getValue(entity, code)?.trim() ?? fallback;
+}
+
+// ======= GEOMETRY HELPERS =======
+
+/**
+ * Arbitrary Axis Algorithm: converts Object Coordinate System points to WCS
+ */
+function ocsToWcs(point: Vec3, normal: Vec3): Vec3 {
+  if (Math.abs(normal.x) < 1e-9 && Math.abs(normal.y) < 1e-9 && normal.z > 0) {
+    return point;
+  }
+
+  const limit = 1 / 64;
+  let ax: Vec3;
+  if (Math.abs(normal.x) < limit && Math.abs(normal.y) < limit) {
+    ax = cross({ x: 0, y: 1, z: 0 }, normal);
+  } else {
+    ax = cross({ x: 0, y: 0, z: 1 }, normal);
+  }
+  ax = normalize(ax);
+  const ay = normalize(cross(normal, ax));
+
+  return {
+    x: point.x * ax.x + point.y * ay.x + point.z * normal.x,
+    y: point.x * ax.y + point.y * ay.y + point.z * normal.y,
+    z: point.x * ax.z + point.y * ay.z + point.z * normal.z
+  };
+}
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+  return {
+    x: a.y * b.z - a.z * b.y,
+    y: a.z * b.x - a.x * b.z,
+    z: a.x * b.y - a.y * b.x
+  };
+}
+
+function normalize(v: Vec3): Vec3 {
+  const length = Math.sqrt(v.x * v.x + v.y * v.y + v.z * v.z) || 1;
+  return { x: v.x / length, y: v.y / length, z: v.z / length };
+}
+
+function getExtrusion(entity: DxfEntity): Vec3 {
+  return normalize({
+    x: getNumber(entity, 210, 0),
+    y: getNumber(entity, 220, 0),
+    z: getNumber(entity, 230, 1)
+  });
+}
+
+function identityPlacement(scale: number): Placement {
+  return { a: scale, b: 0, c: 0, d: scale, tx: 0, ty: 0, tz: 0, sz: scale };
+}
+
+function composePlacement(outer: Placement, inner: Placement): Placement {
+  return {
+    a: outer.a * inner.a + outer.b * inner.c,
+    b: outer.a * inner.b + outer.b * inner.d,
+    c: outer.c * inner.a + outer.d * inner.c,
+    d: outer.c * inner.b + outer.d * inner.d,
+    tx: outer.a * inner.tx + outer.b * inner.ty + outer.tx,
+    ty: outer.c * inner.tx + outer.d * inner.ty + outer.ty,
+    tz: outer.sz * inner.tz + outer.tz,
+    sz: outer.sz * inner.sz
+  };
+}
+
+function applyPlacement(p: Placement, point: Vec3): Vec3 {
+  return {
+    x: p.a * point.x + p.b * point.y + p.tx,
+    y: p.c * point.x + p.d * point.y + p.ty,
+    z: p.sz * point.z + p.tz
+  };
+}
+
+function placementScale(p: Placement): number {
+  return Math.sqrt(Math.abs(p.a * p.d - p.b * p.c));
+}
+
+function placementRotation(p: Placement): number {
+  return Math.atan2(p.c, p.a);
+}
+
+function isMirrored(p: Placement): boolean {
+  return p.a * p.d - p.b * p.c < 0;
+}
+
+function normalizeAngle(angle: number): number {
+  const twoPi = Math.PI * 2;
+  return ((angle % twoPi) + twoPi) % twoPi;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e9) / 1e9;
+}
+
+interface BulgeArc {
+  center: { x: number; y: number };
+  radius: number;
+  startAngle: number;
+  endAngle: number;
+  sweep: number;
+}
+
+/**
+ * Convert a polyline segment with a bulge factor into a circular arc.
+ * A positive bulge is counter-clockwise from start to end.
+ */
+function bulgeToArc(start: Vec3, end: Vec3, bulge: number): BulgeArc {
+  const sweep = 4 * Math.atan(bulge);
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const chord = Math.sqrt(dx * dx + dy * dy);
+  const radius = Math.abs(chord / (2 * Math.sin(sweep / 2)));
+  const offset = (chord / 2) / Math.tan(sweep / 2);
+  const center = {
+    x: (start.x + end.x) / 2 - (dy / chord) * offset,
+    y: (start.y + end.y) / 2 + (dx / chord) * offset
+  };
+
+  return {
+    center,
+    radius,
+    startAngle: Math.atan2(start.y - center.y, start.x - center.x),
+    endAngle: Math.atan2(end.y - center.y, end.x - center.x),
+    sweep
+  };
+}
+
+function sampleBulge(start: Vec3, end: Vec3, bulge: number): Vec3[] {
+  const arc = bulgeToArc(start, end, bulge);
+  const steps = Math.max(2, Math.ceil(Math.abs(arc.sweep) / ARC_SEGMENT_ANGLE));
+  const points: Vec3[] = [];
+
+  for (let i = 1; i < steps; i++) {
+    const angle = arc.startAngle + (arc.sweep * i) / steps;
+    points.push({
+      x: arc.center.x + arc.radius * Math.cos(angle),
+      y: arc.center.y + arc.radius * Math.sin(angle),
+      z: start.z + ((end.z - start.z) * i) / steps
+    });
+  }
+
+  return points;
+}
+
+/**
+ * Evaluate a (rational) B-spline with de Boor's algorithm
+ */
+function evaluateBSpline(
+  controlPoints: Vec3[],
+  weights: number[],
+  knots: number[],
+  degree: number,
+  t: number
+): Vec3 {
+  const n = controlPoints.length - 1;
+  let span = degree;
+  while (span < n && t >= knots[span + 1]) span++;
+
+  const d: { x: number; y: number; z: number; w: number }[] = [];
+  for (let j = 0; j <= degree; j++) {
+    const cp = controlPoints[span - degree + j];
+    const w = weights[span - degree + j] ?? 1;
+    d.push({ x: cp.x * w, y: cp.y * w, z: cp.z * w, w });
+  }
+
+  for (let r = 1; r <= degree; r++) {
+    for (let j = degree; j >= r; j--) {
+      const i = span - degree + j;
+      const denominator = knots[i + degree - r + 1] - knots[i];
+      const alpha = denominator === 0 ? 0 : (t - knots[i]) / denominator;
+      d[j] = {
+        x: (1 - alpha) * d[j - 1].x + alpha * d[j].x,
+        y: (1 - alpha) * d[j - 1].y + alpha * d[j].y,
+        z: (1 - alpha) * d[j - 1].z + alpha * d[j].z,
+        w: (1 - alpha) * d[j - 1].w + alpha * d[j].w
+      };
+    }
+  }
+
+  const result = d[degree];
+  const w = result.w || 1;
+  return { x: result.x / w, y: result.y / w, z: result.z / w };
+}
+
+function clampedKnots(count: number, degree: number): number[] {
+  const knots: number[] = [];
+  const interior = count - degree - 1;
+  for (let i = 0; i <= degree; i++) knots.push(0);
+  for (let i = 1; i <= interior; i++) knots.push(i / (interior + 1));
+  for (let i = 0; i <= degree; i++) knots.push(1);
+  return knots;
+}
+
+function cleanMText(text: string): string {
+  return text
+    .replace(/\\P/g, '\n')
+    .replace(/\\[ACcFfHhQTWp][^;]*;/g, '')
+    .replace(/\\[LlOoKk]/g, '')
+    .replace(/\\S([^;]*)[\^/#]([^;]*);/g, '$1/$2')
+    .replace(/\\~/g, ' ')
+    .replace(/\\\\/g, '\\')
+    .replace(/[{}]/g, '')
+    .replace(/%%[cC]/g, '⌀')
+    .replace(/%%[dD]/g, '°')
+    .replace(/%%[pP]/g, '±');
+}
+
+function cleanText(text: string): string {
+  return text
+    .replace(/%%[cC]/g, '⌀')
+    .replace(/%%[dD]/g, '°')
+    .replace(/%%[pP]/g, '±')
+    .replace(/%%[uUoO]/g, '');
+}
+
+// ======= READER =======
+
+function readUnitScale(header: DxfPair[] | undefined): number {
+  if (!header) return 1;
+
+  for (let i = 0; i < header.length - 1; i++) {
+    if (header[i].code === 9 && header[i].value.trim() === '$INSUNITS') {
+      const units = parseInt(header[i + 1].value, 10);
+      return INSUNITS_TO_MM[units] ?? 1;
+    }
+  }
+
+  return 1;
+}
+
+function readLayers(tables: DxfPair[] | undefined): DxfLayer[] {
+  if (!tables) return [];
+
+  return groupEntities(tables)
+    .filter(entity => entity.type === 'LAYER')
+    .map(entity => {
+      const colorIndex = getNumber(entity, 62, 7);
+      const flags = getNumber(entity, 70, 0);
+      const trueColor = getValue(entity, 420);
+
+      return {
+        name: getString(entity, 2, '0'),
+        color: trueColor !== undefined ? parseHexColorValue(trueColor) : aciToHex(colorIndex),
+        visible: colorIndex >= 0 && (flags & 1) === 0,
+        locked: (flags & 4) !== 0
+      };
+    });
+}
+
+function parseHexColorValue(value: string): string {
+  const rgb = parseInt(value, 10);
+  return toHex((rgb >> 16) & 0xff, (rgb >> 8) & 0xff, rgb & 0xff);
+}
+
+function readBlocks(blocksSection: DxfPair[] | undefined): Map<string, DxfBlock> {
+  const blocks = new Map<string, DxfBlock>();
+  if (!blocksSection) return blocks;
+
+  let current: DxfBlock | null = null;
+  for (const entity of groupEntities(blocksSection)) {
+    if (entity.type === 'BLOCK') {
+      current = {
+        name: getString(entity, 2),
+        base: getPoint(entity, 10),
+        entities: []
+      };
+    } else if (entity.type === 'ENDBLK') {
+      if (current && !current.name.startsWith('*Model_Space') && !current.name.startsWith('*Paper_Space')) {
+        blocks.set(current.name, current);
+      }
+      current = null;
+    } else if (current) {
+      current.entities.push(entity);
+    }
+  }
+
+  return blocks;
+}
+
+function entityColor(
+  entity: DxfEntity,
+  layerName: string,
+  context: ReadContext,
+  blockColor: string | undefined
+): string {
+  const trueColor = getValue(entity, 420);
+  if (trueColor !== undefined) return parseHexColorValue(trueColor);
+
+  const colorIndex = getNumber(entity, 62, 256);
+  if (colorIndex === 0) return blockColor ?? context.layerColors.get(layerName) ?? '#000000';
+  if (colorIndex === 256) return context.layerColors.get(layerName) ?? '#000000';
+  return aciToHex(colorIndex);
+}
+
+function convertEntity(
+  entity: DxfEntity,
+  context: ReadContext,
+  placement: Placement,
+  parentLayer: string,
+  parentColor: string | undefined
+): Element[] {
+  // Paper space entities are not part of the model
+  if (getNumber(entity, 67, 0) === 1) return [];
+
+  let layerName = getString(entity, 8, '0');
+  // Entities on layer 0 inside a block inherit the layer of the INSERT
+  if (layerName === '0' && context.depth > 0) layerName = parentLayer;
+
+  const color = entityColor(entity, layerName, context, parentColor);
+  const base = {
+    layerId: context.resolveLayerId(layerName),
+    color
+  };
+  const scale = placementScale(placement);
+  const normal = getExtrusion(entity);
+
+  const toWorld = (point: Vec3, ocs = false): Vec3 =>
+    applyPlacement(placement, ocs ? ocsToWcs(point, normal) : point);
+
+  switch (entity.type) {
+    case 'LINE': {
+      const start = toWorld(getPoint(entity, 10));
+      const end = toWorld(getPoint(entity, 11));
+      return [{
+        id: uuidv4(),
+        type: 'line',
+        ...base,
+        x1: round(start.x), y1: round(start.y), z1: round(start.z),
+        x2: round(end.x), y2: round(end.y), z2: round(end.z)
+      }];
+    }
+
+    case 'CIRCLE': {
+      const center = toWorld(getPoint(entity, 10), true);
+      return [{
+        id: uuidv4(),
+        type: 'circle',
+        ...base,
+        x: round(center.x),
+        y: round(center.y),
+        z: round(center.z),
+        radius: round(getNumber(entity, 40) * scale),
+        segments: 64
+      }];
+    }
+
+    case 'ARC': {
+      const localCenter = getPoint(entity, 10);
+      const radius = getNumber(entity, 40);
+      const startDeg = getNumber(entity, 50) * Math.PI / 180;
+      const endDeg = getNumber(entity, 51) * Math.PI / 180;
+      return [arcFromLocal(localCenter, radius, startDeg, endDeg, toWorld, placement, normal, base)];
+    }
+
+    case 'ELLIPSE': {
+      const center = toWorld(getPoint(entity, 10));
+      const majorLocal = getPoint(entity, 11);
+      const majorEnd = applyPlacement(placement, {
+        x: getNumber(entity, 10) + majorLocal.x,
+        y: getNumber(entity, 20) + majorLocal.y,
+        z: getNumber(entity, 30) + majorLocal.z
+      });
+      const major = { x: majorEnd.x - center.x, y: majorEnd.y - center.y };
+      const radiusX = Math.sqrt(major.x * major.x + major.y * major.y);
+      const ratio = getNumber(entity, 40, 1);
+      let startParam = getNumber(entity, 41, 0);
+      let endParam = getNumber(entity, 42, Math.PI * 2);
+      if (isMirrored(placement) !== normal.z < 0) {
+        [startParam, endParam] = [Math.PI * 2 - endParam, Math.PI * 2 - startParam];
+      }
+
+      return [{
+        id: uuidv4(),
+        type: 'ellipse',
+        ...base,
+        x: round(center.x),
+        y: round(center.y),
+        z: round(center.z),
+        radiusX: round(radiusX),
+        radiusY: round(radiusX * ratio),
+        angle: round(Math.atan2(major.y, major.x) * 180 / Math.PI),
+        startAngle: round(startParam),
+        endAngle: round(endParam)
+      }];
+    }
+
+    case 'LWPOLYLINE':
+    case 'POLYLINE':
+      return convertPolyline(entity, toWorld, placement, normal, base);
+
+    case 'SPLINE':
+      return [convertSpline(entity, toWorld, base)];
+
+    case 'TEXT':
+    case 'ATTRIB':
+    case 'MTEXT': {
+      if (entity.type === 'ATTRIB' && (getNumber(entity, 70, 0) & 1) === 1) return [];
+
+      const isMText = entity.type === 'MTEXT';
+      const rawText = isMText
+        ? entity.pairs.filter(p => p.code === 3).map(p => p.value).join('') + (getValue(entity, 1) ?? '')
+        : getValue(entity, 1) ?? '';
+      const text = isMText ? cleanMText(rawText) : cleanText(rawText);
+      if (!text.trim()) return [];
+
+      // Justified TEXT stores its real position in the second alignment point
+      const justified = !isMText && (getNumber(entity, 72, 0) !== 0 || getNumber(entity, 73, 0) !== 0);
+      const position = toWorld(getPoint(entity, justified ? 11 : 10), !isMText);
+      let rotation = getNumber(entity, 50, 0);
+      if (isMText && getValue(entity, 11) !== undefined) {
+        rotation = Math.atan2(getNumber(entity, 21), getNumber(entity, 11)) * 180 / Math.PI;
+      }
+      rotation += placementRotation(placement) * 180 / Math.PI;
+
+      return [{
+        id: uuidv4(),
+        type: 'drawing-text',
+        ...base,
+        position: { x: round(position.x), y: round(position.y), z: round(position.z) },
+        text,
+        textSize: round(getNumber(entity, 40, 2.5) * scale),
+        angle: round(rotation),
+        font: getString(entity, 7, 'Standard')
+      }];
+    }
+
+    case 'INSERT':
+      return convertInsert(entity, context, placement, layerName, color);
+
+    default:
+      return [];
+  }
+}
+
+function arcFromLocal(
+  center: Vec3,
+  radius: number,
+  startAngle: number,
+  endAngle: number,
+  toWorld: (point: Vec3, ocs?: boolean) => Vec3,
+  placement: Placement,
+  normal: Vec3,
+  base: { layerId: string; color: string }
+): Element {
+  const worldCenter = toWorld(center, true);
+  const pointAt = (angle: number) => toWorld({
+    x: center.x + radius * Math.cos(angle),
+    y: center.y + radius * Math.sin(angle),
+    z: center.z
+  }, true);
+
+  const startPoint = pointAt(startAngle);
+  const endPoint = pointAt(endAngle);
+  let start = Math.atan2(startPoint.y - worldCenter.y, startPoint.x - worldCenter.x);
+  let end = Math.atan2(endPoint.y - worldCenter.y, endPoint.x - worldCenter.x);
+
+  // Mirroring (negative extrusion or mirrored insert) reverses the arc direction
+  if (isMirrored(placement) !== normal.z < 0) {
+    [start, end] = [end, start];
+  }
+
+  start = normalizeAngle(start);
+  end = normalizeAngle(end);
+  if (end <= start) end += Math.PI * 2;
+
+  return {
+    id: uuidv4(),
+    type: 'arc',
+    ...base,
+    x: round(worldCenter.x),
+    y: round(worldCenter.y),
+    z: round(worldCenter.z),
+    radius: round(radius * placementScale(placement)),
+    startAngle: round(start),
+    endAngle: round(end),
+    segments: 32
+  };
+}
+
+function convertPolyline(
+  entity: DxfEntity,
+  toWorld: (point: Vec3, ocs?: boolean) => Vec3,
+  placement: Placement,
+  normal: Vec3,
+  base: { layerId: string; color: string }
+): Element[] {
+  const flags = getNumber(entity, 70, 0);
+  const closed = (flags & 1) === 1;
+  const vertices: { point: Vec3; bulge: number }[] = [];
+
+  if (entity.type === 'LWPOLYLINE') {
+    const elevation = getNumber(entity, 38, 0);
+    for (const pair of entity.pairs) {
+      if (pair.code === 10) {
+        vertices.push({ point: { x: parseFloat(pair.value), y: 0, z: elevation }, bulge: 0 });
+      } else if (pair.code === 20 && vertices.length > 0) {
+        vertices[vertices.length - 1].point.y = parseFloat(pair.value);
+      } else if (pair.code === 42 && vertices.length > 0) {
+        vertices[vertices.length - 1].bulge = parseFloat(pair.value);
+      }
+    }
+  } else {
+    // Polyface meshes are imported as mesh elements
+    if ((flags & 64) !== 0) {
+      return [convertPolyface(entity, toWorld, base)];
+    }
+    const isPlanar = (flags & (8 | 16)) === 0;
+    for (const vertex of entity.children) {
+      if (vertex.type !== 'VERTEX') continue;
+      vertices.push({ point: getPoint(vertex, 10), bulge: isPlanar ? getNumber(vertex, 42, 0) : 0 });
+    }
+  }
+
+  if (vertices.length < 2) return [];
+
+  const ocs = entity.type === 'LWPOLYLINE' || (flags & (8 | 16)) === 0;
+  const world = vertices.map(v => ({ point: toWorld(v.point, ocs), bulge: v.bulge }));
+  // Reflections swap the sense of every bulge
+  const bulgeSign = isMirrored(placement) !== normal.z < 0 ? -1 : 1;
+
+  if (closed) {
+    const points: Vec3[] = [];
+    world.forEach((vertex, index) => {
+      const next = world[(index + 1) % world.length];
+      points.push(vertex.point);
+      if (vertex.bulge !== 0) {
+        points.push(...sampleBulge(vertex.point, next.point, vertex.bulge * bulgeSign));
+      }
+    });
+
+    return [{
+      id: uuidv4(),
+      type: 'polygon',
+      ...base,
+      x: 0,
+      y: 0,
+      z: 0,
+      points: points.map(p => ({ x: round(p.x), y: round(p.y), z: round(p.z) })),
+      closed: true
+    }];
+  }
+
+  // Open polylines are exploded into their line and arc segments
+  const segments: Element[] = [];
+  for (let i = 0; i < world.length - 1; i++) {
+    const start = world[i].point;
+    const end = world[i + 1].point;
+    const bulge = world[i].bulge * bulgeSign;
+
+    if (Math.abs(bulge) < 1e-12) {
+      segments.push({
+        id: uuidv4(),
+        type: 'line',
+        ...base,
+        x1: round(start.x), y1: round(start.y), z1: round(start.z),
+        x2: round(end.x), y2: round(end.y), z2: round(end.z)
+      });
+      continue;
+    }
+
+    const arc = bulgeToArc(start, end, bulge);
+    let startAngle = bulge > 0 ? arc.startAngle : arc.endAngle;
+    let endAngle = bulge > 0 ? arc.endAngle : arc.startAngle;
+    startAngle = normalizeAngle(startAngle);
+    endAngle = normalizeAngle(endAngle);
+    if (endAngle <= startAngle) endAngle += Math.PI * 2;
+
+    segments.push({
+      id: uuidv4(),
+      type: 'arc',
+      ...base,
+      x: round(arc.center.x),
+      y: round(arc.center.y),
+      z: round(start.z),
+      radius: round(arc.radius),
+      startAngle: round(startAngle),
+      endAngle: round(endAngle),
+      segments: 32
+    });
+  }
+
+  return segments;
+}
+
+function convertPolyface(
+  entity: DxfEntity,
+  toWorld: (point: Vec3, ocs?: boolean) => Vec3,
+  base: { layerId: string; color: string }
+): Element {
+  const vertices: Vec3[] = [];
+  const faces: number[][] = [];
+
+  for (const vertex of entity.children) {
+    const vertexFlags = getNumber(vertex, 70, 0);
+    if ((vertexFlags & 64) !== 0) {
+      const p = toWorld(getPoint(vertex, 10));
+      vertices.push({ x: round(p.x), y: round(p.y), z: round(p.z) });
+    } else if ((vertexFlags & 128) !== 0) {
+      const face = [71, 72, 73, 74]
+        .map(code => Math.abs(getNumber(vertex, code, 0)))
+        .filter(index => index > 0)
+        .map(index => index - 1);
+      if (face.length >= 3) faces.push(face);
+    }
+  }
+
+  return {
+    id: uuidv4(),
+    type: 'mesh',
+    ...base,
+    x: 0,
+    y: 0,
+    z: 0,
+    vertices,
+    faces
+  };
+}
+
+function convertSpline(
+  entity: DxfEntity,
+  toWorld: (point: Vec3, ocs?: boolean) => Vec3,
+  base: { layerId: string; color: string }
+): Element {
+  const degree = getNumber(entity, 71, 3);
+  const knots = entity.pairs.filter(p => p.code === 40).map(p => parseFloat(p.value));
+  const weights = entity.pairs.filter(p => p.code === 41).map(p => parseFloat(p.value));
+  const controlPoints: Vec3[] = [];
+  const fitPoints: Vec3[] = [];
+
+  for (const pair of entity.pairs) {
+    if (pair.code === 10) controlPoints.push({ x: parseFloat(pair.value), y: 0, z: 0 });
+    else if (pair.code === 20 && controlPoints.length) controlPoints[controlPoints.length - 1].y = parseFloat(pair.value);
+    else if (pair.code === 30 && controlPoints.length) controlPoints[controlPoints.length - 1].z = parseFloat(pair.value);
+    else if (pair.code === 11) fitPoints.push({ x: parseFloat(pair.value), y: 0, z: 0 });
+    else if (pair.code === 21 && fitPoints.length) fitPoints[fitPoints.length - 1].y = parseFloat(pair.value);
+    else if (pair.code === 31 && fitPoints.length) fitPoints[fitPoints.length - 1].z = parseFloat(pair.value);
+  }
+
+  const worldControl = controlPoints.map(p => toWorld(p));
+  let points: Vec3[];
+
+  if (worldControl.length > degree) {
+    const knotVector = knots.length === worldControl.length + degree + 1
+      ? knots
+      : clampedKnots(worldControl.length, degree);
+    const first = knotVector[degree];
+    const last = knotVector[worldControl.length];
+    const samples = Math.max(16, worldControl.length * 8);
+
+    points = [];
+    for (let i = 0; i <= samples; i++) {
+      const t = first + ((last - first) * i) / samples;
+      points.push(evaluateBSpline(worldControl, weights, knotVector, degree, Math.min(t, last - 1e-12)));
+    }
+    points[points.length - 1] = evaluateBSpline(worldControl, weights, knotVector, degree, last - 1e-12);
+  } else {
+    points = fitPoints.map(p => toWorld(p));
+  }
+
+  const roundPoint = (p: Vec3) => ({ x: round(p.x), y: round(p.y), z: round(p.z) });
+
+  return {
+    id: uuidv4(),
+    type: 'spline',
+    ...base,
+    points: points.map(roundPoint),
+    controlPoints: worldControl.map(roundPoint),
+    knots,
+    weights: weights.length ? weights : undefined,
+    degree,
+    closed: (getNumber(entity, 70, 0) & 1) === 1,
+    divisions: Math.max(50, points.length * 2)
+  };
+}
+
+function convertInsert(
+  entity: DxfEntity,
+  context: ReadContext,
+  placement: Placement,
+  layerName: string,
+  color: string
+): Element[] {
+  const block = context.blocks.get(getString(entity, 2));
+  if (!block || context.depth >= MAX_INSERT_DEPTH) return [];
+
+  const insertPoint = getPoint(entity, 10);
+  const sx = getNumber(entity, 41, 1);
+  const sy = getNumber(entity, 42, sx);
+  const sz = getNumber(entity, 43, sx);
+  const rotation = getNumber(entity, 50, 0) * Math.PI / 180;
+  const columns = Math.max(1, getNumber(entity, 70, 1));
+  const rows = Math.max(1, getNumber(entity, 71, 1));
+  const columnSpacing = getNumber(entity, 44, 0);
+  const rowSpacing = getNumber(entity, 45, 0);
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+
+  const children: Element[] = [];
+  const childContext = { ...context, depth: context.depth + 1 };
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const offsetX = column * columnSpacing;
+      const offsetY = row * rowSpacing;
+      // local -> insert: translate by -base, scale, rotate, translate to insertion point
+      const local: Placement = {
+        a: cos * sx,
+        b: -sin * sy,
+        c: sin * sx,
+        d: cos * sy,
+        tx: insertPoint.x + cos * offsetX - sin * offsetY - (cos * sx * block.base.x - sin * sy * block.base.y),
+        ty: insertPoint.y + sin * offsetX + cos * offsetY - (sin * sx * block.base.x + cos * sy * block.base.y),
+        tz: insertPoint.z - sz * block.base.z,
+        sz
+      };
+      // An INSERT with a negative extrusion is mirrored about the Y axis (OCS -> WCS)
+      if (getExtrusion(entity).z < 0) {
+        local.a = -local.a;
+        local.b = -local.b;
+        local.tx = -local.tx;
+        local.tz = -local.tz;
+        local.sz = -local.sz;
+      }
+      const world = composePlacement(placement, local);
+
+      for (const child of block.entities) {
+        children.push(...convertEntity(child, childContext, world, layerName, color));
+      }
+    }
+  }
+
+  // Visible attributes belong to the insert, already in its coordinate system
+  for (const attribute of entity.children) {
+    children.push(...convertEntity(attribute, childContext, placement, layerName, color));
+  }
+
+  if (children.length === 0) return [];
+
+  return [createGroup(children, block.name, context.resolveLayerId(layerName))];
+}
+
+/**
+ * Build a group element with the same layout produced by elementsStore.groupElements
+ */
+function createGroup(children: Element[], name: string, layerId: string): Element {
+  let minX = Infinity, minY = Infinity, minZ = Infinity;
+  let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+
+  const extend = (x: number, y: number, z: number, r = 0) => {
+    minX = Math.min(minX, x - r); maxX = Math.max(maxX, x + r);
+    minY = Math.min(minY, y - r); maxY = Math.max(maxY, y + r);
+    minZ = Math.min(minZ, z); maxZ = Math.max(maxZ, z);
+  };
+
+  const visit = (element: Element) => {
+    if (element.type === 'line') {
+      extend(element.x1, element.y1, element.z1 || 0);
+      extend(element.x2, element.y2, element.z2 || 0);
+    } else if (Array.isArray(element.points)) {
+      element.points.forEach((p: Vec3) => extend(p.x + (element.x || 0), p.y + (element.y || 0), p.z || 0));
+    } else if (Array.isArray(element.vertices)) {
+      element.vertices.forEach((p: Vec3) => extend(p.x, p.y, p.z || 0));
+    } else if (element.type === 'group' && Array.isArray(element.elements)) {
+      element.elements.forEach(visit);
+    } else if (element.position) {
+      extend(element.position.x, element.position.y, element.position.z || 0);
+    } else if (typeof element.x === 'number') {
+      extend(element.x, element.y, element.z || 0, element.radius || element.radiusX || 0);
+    }
+  };
+  children.forEach(visit);
+
+  if (!isFinite(minX)) {
+    minX = maxX = minY = maxY = minZ = maxZ = 0;
+  }
+
+  return {
+    id: uuidv4(),
+    type: 'group',
+    layerId,
+    name,
+    blockName: name,
+    x: round((minX + maxX) / 2),
+    y: round((minY + maxY) / 2),
+    z: round((minZ + maxZ) / 2),
+    width: round(maxX - minX),
+    height: round(maxY - minY),
+    depth: round(maxZ - minZ),
+    elements: children.map(child => ({ ...child, originalId: child.id }))
+  };
+}
+
+/**
+ * Parse an ASCII DXF drawing into canvas elements.
+ *
+ * @param content - DXF file content
+ * @param resolveLayerId - Maps a DXF layer name to the id of the layer the
+ *                         element should be placed on
+ */
+export function parseDXF(
+  content: string,
+  resolveLayerId: (layerName: string) => string = name => name
+): DxfImportResult {
+  if (content.startsWith('AutoCAD Binary DXF')) {
+    throw new Error('Binary DXF files are not supported. Please save the drawing as ASCII DXF.');
+  }
+
+  const sections = splitSections(tokenize(content));
+  if (!sections.has('ENTITIES')) {
+    throw new Error('Invalid DXF file: ENTITIES section not found');
+  }
+
+  const unitScale = readUnitScale(sections.get('HEADER'));
+  const layers = readLayers(sections.get('TABLES'));
+  const layerColors = new Map(layers.map(layer => [layer.name, layer.color]));
+
+  const context: ReadContext = {
+    blocks: readBlocks(sections.get('BLOCKS')),
+    layerColors,
+    resolveLayerId,
+    unitScale,
+    depth: 0
+  };
+
+  const elements: Element[] = [];
+  const placement = identityPlacement(unitScale);
+
+  for (const entity of groupEntities(sections.get('ENTITIES') ?? [])) {
+    try {
+      elements.push(...convertEntity(entity, context, placement, '0', undefined));
+    } catch (error) {
+      console.warn(`Skipping DXF ${entity.type} entity:`, error);
+    }
+  }
+
+  // Entities can reference layers that are missing from the LAYER table
+  const usedLayers = new Set<string>();
+  const collectLayers = (entity: DxfEntity) => {
+    usedLayers.add(getString(entity, 8, '0'));
+  };
+  groupEntities(sections.get('ENTITIES') ?? []).forEach(collectLayers);
+  context.blocks.forEach(block => block.entities.forEach(collectLayers));
+  usedLayers.forEach(name => {
+    if (!layers.some(layer => layer.name === name)) {
+      layers.push({ name, color: '#000000', visible: true, locked: false });
+    }
+  });
+
+  return { layers, elements, unitScale };
+}
+
+// ======= WRITER =======
+
+class DxfWriter {
+  private lines: string[] = [];
+
+  pair(code: number, value: string | number): this {
+    this.lines.push(String(code));
+    this.lines.push(typeof value === 'number' ? formatNumber(value) : value);
+    return this;
+  }
+
+  point(baseCode: number, x: number, y: number, z = 0): this {
+    return this.pair(baseCode, x).pair(baseCode + 10, y).pair(baseCode + 20, z);
+  }
+
+  toString(): string {
+    return this.lines.length ? this.lines.join('\n') + '\n' : '';
+  }
+}
+
+function formatNumber(value: number): string {
+  if (!isFinite(value)) return '0.0';
+  const rounded = Math.round(value * 1e8) / 1e8;
+  return Number.isInteger(rounded) ? `${rounded}.0` : String(rounded);
+}
+
+function sanitizeName(name: string): string {
+  return name.replace(/[<>/\\":;?*|=`]/g, '_').trim() || 'Layer';
+}
+
+interface WriteContext {
+  writer: DxfWriter;
+  layerNames: Map<string, string>;
+  blocks: { name: string; element: Element }[];
+  skipped: Set<string>;
+}
+
+function writeEntityHeader(
+  context: WriteContext,
+  type: string,
+  subclass: string,
+  element: Element
+): DxfWriter {
+  const { writer } = context;
+  const color = element.color;
+  writer
+    .pair(0, type)
+    .pair(100, 'AcDbEntity')
+    .pair(8, context.layerNames.get(element.layerId) ?? '0');
+
+  if (color !== undefined && color !== null) {
+    const rgb = parseHexColor(color);
+    writer.pair(62, hexToAci(color));
+    if (rgb) writer.pair(420, String((rgb[0] << 16) | (rgb[1] << 8) | rgb[2]));
+  }
+
+  return writer.pair(100, subclass);
+}
+
+function writeLwPolyline(
+  context: WriteContext,
+  element: Element,
+  points: { x: number; y: number }[],
+  closed: boolean,
+  elevation = 0
+) {
+  const writer = writeEntityHeader(context, 'LWPOLYLINE', 'AcDbPolyline', element);
+  writer.pair(90, String(points.length)).pair(70, closed ? '1' : '0');
+  if (elevation) writer.pair(38, elevation);
+  points.forEach(p => writer.pair(10, p.x).pair(20, p.y));
+}
+
+function rotatePoint(x: number, y: number, angleDeg: number): { x: number; y: number } {
+  const angle = angleDeg * Math.PI / 180;
+  return {
+    x: x * Math.cos(angle) - y * Math.sin(angle),
+    y: x * Math.sin(angle) + y * Math.cos(angle)
+  };
+}
+
+function writeElement(context: WriteContext, element: Element, offset: Vec3) {
+  const { writer } = context;
+  const ox = offset.x;
+  const oy = offset.y;
+  const oz = offset.z;
+
+  switch (element.type) {
+    case 'line':
+      writeEntityHeader(context, 'LINE', 'AcDbLine', element)
+        .point(10, element.x1 - ox, element.y1 - oy, (element.z1 || 0) - oz)
+        .point(11, element.x2 - ox, element.y2 - oy, (element.z2 || 0) - oz);
+      break;
+
+    case 'circle':
+      writeEntityHeader(context, 'CIRCLE', 'AcDbCircle', element)
+        .point(10, element.x - ox, element.y - oy, (element.z || 0) - oz)
+        .pair(40, element.radius);
+      break;
+
+    case 'arc':
+      writeEntityHeader(context, 'ARC', 'AcDbCircle', element)
+        .point(10, element.x - ox, element.y - oy, (element.z || 0) - oz)
+        .pair(40, element.radius)
+        .pair(100, 'AcDbArc')
+        .pair(50, normalizeAngle(element.startAngle ?? 0) * 180 / Math.PI)
+        .pair(51, normalizeAngle(element.endAngle ?? Math.PI) * 180 / Math.PI);
+      break;
+
+    case 'ellipse': {
+      let radiusX = element.radiusX || 1;
+      let radiusY = element.radiusY || radiusX;
+      let angle = element.angle || 0;
+      let startParam = element.startAngle ?? 0;
+      let endParam = element.endAngle ?? Math.PI * 2;
+      // DXF requires the major axis to be the longer one
+      if (radiusY > radiusX) {
+        [radiusX, radiusY] = [radiusY, radiusX];
+        angle += 90;
+        startParam -= Math.PI / 2;
+        endParam -= Math.PI / 2;
+      }
+      const major = rotatePoint(radiusX, 0, angle);
+      writeEntityHeader(context, 'ELLIPSE', 'AcDbEllipse', element)
+        .point(10, element.x - ox, element.y - oy, (element.z || 0) - oz)
+        .point(11, major.x, major.y, 0)
+        .pair(40, radiusY / radiusX)
+        .pair(41, startParam)
+        .pair(42, endParam);
+      break;
+    }
+
+    case 'rectangle': {
+      const halfWidth = (element.width || 0) / 2;
+      const halfHeight = (element.height || 0) / 2;
+      const corners = [
+        [-halfWidth, -halfHeight],
+        [halfWidth, -halfHeight],
+        [halfWidth, halfHeight],
+        [-halfWidth, halfHeight]
+      ].map(([x, y]) => {
+        const rotated = rotatePoint(x, y, element.angle || 0);
+        return { x: element.x + rotated.x - ox, y: element.y + rotated.y - oy };
+      });
+      writeLwPolyline(context, element, corners, true, (element.z || 0) - oz);
+      break;
+    }
+
+    case 'polygon':
+    case 'triangle': {
+      let points: { x: number; y: number }[] = Array.isArray(element.points) ? element.points : [];
+      if (points.length < 3 && element.sides && element.radius) {
+        points = Array.from({ length: element.sides }, (_, i) => ({
+          x: element.radius * Math.cos((i / element.sides) * Math.PI * 2),
+          y: element.radius * Math.sin((i / element.sides) * Math.PI * 2)
+        }));
+      }
+      if (points.length < 2) {
+        context.skipped.add(element.type);
+        break;
+      }
+      writeLwPolyline(
+        context,
+        element,
+        points.map(p => ({ x: p.x + (element.x || 0) - ox, y: p.y + (element.y || 0) - oy })),
+        element.closed !== false,
+        (element.z || 0) - oz
+      );
+      break;
+    }
+
+    case 'spline':
+    case 'nurbs':
+    case 'bezier': {
+      const hasControl = Array.isArray(element.controlPoints) && element.controlPoints.length > (element.degree || 3);
+      const points: Vec3[] = hasControl ? element.controlPoints : element.points || [];
+      if (points.length < 2) {
+        context.skipped.add(element.type);
+        break;
+      }
+      const degree = hasControl ? element.degree || 3 : Math.min(3, points.length - 1);
+      const knots: number[] = hasControl && element.knots?.length === points.length + degree + 1
+        ? element.knots
+        : clampedKnots(points.length, degree);
+
+      writeEntityHeader(context, 'SPLINE', 'AcDbSpline', element)
+        .pair(70, String((element.closed ? 1 : 0) | 8 | (hasControl ? 0 : 1024)))
+        .pair(71, String(degree));
+
+      if (hasControl) {
+        writer
+          .pair(72, String(knots.length))
+          .pair(73, String(points.length))
+          .pair(74, '0');
+        knots.forEach(k => writer.pair(40, k));
+        points.forEach(p => writer.point(10, p.x - ox, p.y - oy, (p.z || 0) - oz));
+        if (Array.isArray(element.weights)) {
+          element.weights.forEach((w: number) => writer.pair(41, w));
+        }
+      } else {
+        writer
+          .pair(72, '0')
+          .pair(73, '0')
+          .pair(74, String(points.length));
+        points.forEach(p => writer.point(11, p.x - ox, p.y - oy, (p.z || 0) - oz));
+      }
+      break;
+    }
+
+    case 'drawing-text':
+    case 'text': {
+      const position = element.position || { x: element.x || 0, y: element.y || 0, z: element.z || 0 };
+      const text = String(element.text ?? '');
+      const height = element.textSize || element.height || 2.5;
+
+      if (text.includes('\n')) {
+        writeEntityHeader(context, 'MTEXT', 'AcDbMText', element)
+          .point(10, position.x - ox, position.y - oy, (position.z || 0) - oz)
+          .pair(40, height)
+          .pair(71, '7')
+          .pair(1, text.replace(/\n/g, '\\P'))
+          .pair(50, element.angle || 0);
+      } else {
+        writeEntityHeader(context, 'TEXT', 'AcDbText', element)
+          .point(10, position.x - ox, position.y - oy, (position.z || 0) - oz)
+          .pair(40, height)
+          .pair(1, text)
+          .pair(50, element.angle || 0)
+          .pair(100, 'AcDbText');
+      }
+      break;
+    }
+
+    case 'mesh': {
+      if (!Array.isArray(element.vertices) || !Array.isArray(element.faces)) {
+        context.skipped.add(element.type);
+        break;
+      }
+      // Mesh vertices are absolute, x/y/z only describe the bounding box centre
+      const baseX = -ox;
+      const baseY = -oy;
+      const baseZ = -oz;
+      writeEntityHeader(context, 'POLYLINE', 'AcDbPolyFaceMesh', element)
+        .pair(66, '1')
+        .point(10, 0, 0, 0)
+        .pair(70, '64')
+        .pair(71, String(element.vertices.length))
+        .pair(72, String(element.faces.length));
+
+      element.vertices.forEach((v: Vec3) => {
+        writeEntityHeader(context, 'VERTEX', 'AcDbVertex', element)
+          .pair(100, 'AcDbPolyFaceMeshVertex')
+          .point(10, v.x + baseX, v.y + baseY, (v.z || 0) + baseZ)
+          .pair(70, '192');
+      });
+      element.faces.forEach((face: number[]) => {
+        // Polyface records hold at most four vertices, so larger faces are fanned
+        for (let i = 1; i + 1 < face.length; i++) {
+          writeEntityHeader(context, 'VERTEX', 'AcDbFaceRecord', element)
+            .point(10, 0, 0, 0)
+            .pair(70, '128')
+            .pair(71, String(face[0] + 1))
+            .pair(72, String(face[i] + 1))
+            .pair(73, String(face[i + 1] + 1));
+        }
+      });
+      writer.pair(0, 'SEQEND').pair(100, 'AcDbEntity').pair(8, context.layerNames.get(element.layerId) ?? '0');
+      break;
+    }
+
+    case 'group': {
+      if (!Array.isArray(element.elements) || element.elements.length === 0) break;
+      const usedNames = new Set(context.blocks.map(block => block.name));
+      let name = sanitizeName(element.blockName || element.name || 'GROUP');
+      for (let suffix = 1; usedNames.has(name); suffix++) {
+        name = `${sanitizeName(element.blockName || element.name || 'GROUP')}_${suffix}`;
+      }
+      context.blocks.push({ name, element });
+
+      // Block content is stored relative to the group centre, which is the insertion point
+      writeEntityHeader(context, 'INSERT', 'AcDbBlockReference', { ...element, color: undefined })
+        .pair(2, name)
+        .point(10, (element.x || 0) - ox, (element.y || 0) - oy, (element.z || 0) - oz);
+      break;
+    }
+
+    default:
+      context.skipped.add(element.type);
+  }
+}
+
+function writeLayerTable(writer: DxfWriter, layers: DxfExportLayer[]) {
+  writer
+    .pair(0, 'TABLE')
+    .pair(2, 'LAYER')
+    .pair(100, 'AcDbSymbolTable')
+    .pair(70, String(layers.length + 1));
+
+  const writeLayer = (name: string, color: number, visible: boolean, locked: boolean, trueColor?: string) => {
+    writer
+      .pair(0, 'LAYER')
+      .pair(100, 'AcDbSymbolTableRecord')
+      .pair(100, 'AcDbLayerTableRecord')
+      .pair(2, name)
+      .pair(70, locked ? '4' : '0')
+      .pair(62, String(visible ? color : -color));
+    const rgb = parseHexColor(trueColor);
+    if (rgb) writer.pair(420, String((rgb[0] << 16) | (rgb[1] << 8) | rgb[2]));
+    writer.pair(6, 'CONTINUOUS');
+  };
+
+  writeLayer('0', 7, true, false);
+  layers.forEach(layer => {
+    writeLayer(
+      layer.name,
+      hexToAci(layer.color),
+      layer.visible !== false,
+      layer.locked === true,
+      layer.color
+    );
+  });
+
+  writer.pair(0, 'ENDTAB');
+}
+
+/**
+ * Write elements to an ASCII DXF (AC1015) drawing in millimetres.
+ * Group elements become BLOCK definitions referenced by INSERT entities.
+ */
+export function writeDXF(elements: Element[], layers: DxfExportLayer[] = []): string {
+  const layerNames = new Map<string, string>();
+  const usedNames = new Set<string>(['0']);
+  const exportLayers: DxfExportLayer[] = [];
+
+  const registerLayer = (layer: DxfExportLayer) => {
+    if (layerNames.has(layer.id)) return;
+    let name = sanitizeName(layer.name);
+    for (let suffix = 1; usedNames.has(name); suffix++) {
+      name = `${sanitizeName(layer.name)}_${suffix}`;
+    }
+    usedNames.add(name);
+    layerNames.set(layer.id, name);
+    exportLayers.push({ ...layer, name });
+  };
+
+  layers.forEach(registerLayer);
+  elements.forEach(element => {
+    if (element.layerId && !layerNames.has(element.layerId)) {
+      registerLayer({ id: element.layerId, name: element.layerId, color: '#000000' });
+    }
+  });
+
+  // Entities are written first so that nested groups register their blocks
+  const entityContext: WriteContext = {
+    writer: new DxfWriter(),
+    layerNames,
+    blocks: [],
+    skipped: new Set()
+  };
+  elements.forEach(element => writeElement(entityContext, element, { x: 0, y: 0, z: 0 }));
+
+  const blockContext: WriteContext = { ...entityContext, writer: new DxfWriter() };
+  for (let i = 0; i < entityContext.blocks.length; i++) {
+    const { name, element } = entityContext.blocks[i];
+    const origin = { x: element.x || 0, y: element.y || 0, z: element.z || 0 };
+    blockContext.writer
+      .pair(0, 'BLOCK')
+      .pair(100, 'AcDbEntity')
+      .pair(8, '0')
+      .pair(100, 'AcDbBlockBegin')
+      .pair(2, name)
+      .pair(70, '0')
+      .point(10, 0, 0, 0)
+      .pair(3, name);
+    element.elements.forEach((child: Element) => writeElement(blockContext, child, origin));
+    blockContext.writer
+      .pair(0, 'ENDBLK')
+      .pair(100, 'AcDbEntity')
+      .pair(8, '0')
+      .pair(100, 'AcDbBlockEnd');
+  }
+
+  if (entityContext.skipped.size > 0) {
+    console.warn(`DXF export skipped unsupported element types: ${Array.from(entityContext.skipped).join(', ')}`);
+  }
+
+  const writer = new DxfWriter();
+  writer
+    .pair(0, 'SECTION').pair(2, 'HEADER')
+    .pair(9, '$ACADVER').pair(1, 'AC1015')
+    .pair(9, '$INSUNITS').pair(70, '4')
+    .pair(9, '$MEASUREMENT').pair(70, '1')
+    .pair(0, 'ENDSEC');
+
+  writer.pair(0, 'SECTION').pair(2, 'TABLES');
+  writer
+    .pair(0, 'TABLE').pair(2, 'LTYPE').pair(100, 'AcDbSymbolTable').pair(70, '1')
+    .pair(0, 'LTYPE').pair(100, 'AcDbSymbolTableRecord').pair(100, 'AcDbLinetypeTableRecord')
+    .pair(2, 'CONTINUOUS').pair(70, '0').pair(3, 'Solid line').pair(72, '65').pair(73, '0').pair(40, 0)
+    .pair(0, 'ENDTAB');
+  writeLayerTable(writer, exportLayers);
+  writer.pair(0, 'ENDSEC');
+
+  const blocks = blockContext.writer.toString();
+  const entities = entityContext.writer.toString();
+
+  return [
+    writer.toString(),
+    '0\nSECTION\n2\nBLOCKS\n',
+    entityContext.blocks.length ? blocks : '',
+    '0\nENDSEC\n0\nSECTION\n2\nENTITIES\n',
+    entities,
+    '0\nENDSEC\n0\nEOF\n'
+  ].join('');
+}
@@ -0,0 +1,404 @@
+import { materialProperties } from 'src/lib/materialProperties';
+import { TriangleMesh, triangleNormal } from './tessellation';
+
+/**
+ * Wavefront OBJ/MTL reader and writer.
+ *
+ * Faces are split by object/group (`o`/`g`) and by material (`usemtl`), so each
+ * part can carry its own colour. Vertices are keyed by position and normal
+ * index, which keeps the normals stored in the file.
+ */
+
+export interface ObjMaterial {
+  name: string;
+  /** Diffuse colour (Kd) as hex */
+  color: string;
+  ambient?: [number, number, number];
+  specular?: [number, number, number];
+  shininess?: number;
+  opacity?: number;
+  /** materialProperties key inferred from the material name */
+  materialKey?: string;
+}
+
+export interface ObjPart {
+  /** Name of the `o`/`g` block the faces belong to */
+  groupName: string;
+  materialName?: string;
+  vertices: { x: number; y: number; z: number }[];
+  normals?: { x: number; y: number; z: number }[];
+  faces: number[][];
+}
+
+export interface ObjPolyline {
+  groupName: string;
+  points: { x: number; y: number; z: number }[];
+}
+
+export interface ObjImportResult {
+  parts: ObjPart[];
+  polylines: ObjPolyline[];
+  materials: Map<string, ObjMaterial>;
+  /** Material libraries referenced with `mtllib` */
+  materialLibraries: string[];
+}
+
+export interface ObjExportPart {
+  name: string;
+  mesh: TriangleMesh;
+  color?: string;
+  material?: string;
+}
+
+// Display colours for the materials in materialProperties, used when an element has no colour
+const MATERIAL_COLORS: Record<string, string> = {
+  aluminum: '#d4d4d4',
+  steel: '#888888',
+  wood: '#a0522d',
+  plastic: '#1e90ff',
+  brass: '#daa520',
+  titanium: '#878681',
+  composite: '#333333',
+  other: '#aaaaaa'
+};
+
+// Metals get a tighter specular highlight than plastics and wood
+const MATERIAL_SHININESS: Record<string, number> = {
+  aluminum: 200,
+  steel: 250,
+  brass: 300,
+  titanium: 180,
+  plastic: 60,
+  composite: 40,
+  wood: 10,
+  other: 50
+};
+
+function channelsToHex(r: number, g: number, b: number): string {
+  const channel = (v: number) =>
+    Math.round(Math.max(0, Math.min(1, v)) * 255).toString(16).padStart(2, '0');
+  return `#${channel(r)}${channel(g)}${channel(b)}`;
+}
+
+function hexToChannels(color: string | number | undefined): [number, number, number] {
+  let value: number;
+  if (typeof color === 'number') {
+    value = color;
+  } else {
+    const hex = (color || '#aaaaaa').replace(/^#/, '').replace(/^0x/i, '');
+    const full = hex.length === 3 ? hex.split('').map(ch => ch + ch).join('') : hex;
+    value = /^[0-9a-f]{6}$/i.test(full) ? parseInt(full, 16) : 0xaaaaaa;
+  }
+  return [((value >> 16) & 0xff) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255];
+}
+
+// Common material names found in vendor files, mapped to materialProperties keys
+const MATERIAL_ALIASES: Record<string, string> = {
+  alu: 'aluminum',
+  aluminium: 'aluminum',
+  inox: 'steel',
+  stainless: 'steel',
+  iron: 'steel',
+  abs: 'plastic',
+  pla: 'plastic',
+  petg: 'plastic',
+  nylon: 'plastic',
+  pom: 'plastic',
+  delrin: 'plastic',
+  carbon: 'composite',
+  cfrp: 'composite',
+  gfrp: 'composite',
+  mdf: 'wood',
+  plywood: 'wood'
+};
+
+/**
+ * Match a material name such as "Aluminium_6061" to a materialProperties key
+ */
+export function inferMaterialKey(name: string): string | undefined {
+  const normalized = name.toLowerCase();
+  const direct = Object.keys(materialProperties).find(key => key !== 'other' && normalized.includes(key));
+  if (direct) return direct;
+
+  const words = normalized.split(/[^a-z]+/).filter(Boolean);
+  const alias = words.find(word => MATERIAL_ALIASES[word]);
+  return alias ? MATERIAL_ALIASES[alias] : undefined;
+}
+
+/**
+ * Parse an MTL material library
+ */
+export function parseMTL(content: string): Map<string, ObjMaterial> {
+  const materials = new Map<string, ObjMaterial>();
+  let current: ObjMaterial | null = null;
+
+  const readColor = (parts: string[]): [number, number, number] =>
+    [parseFloat(parts[1]) || 0, parseFloat(parts[2] ?? parts[1]) || 0, parseFloat(parts[3] ?? parts[1]) || 0];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const parts = line.split(/\s+/);
+    const keyword = parts[0].toLowerCase();
+
+    if (keyword === 'newmtl') {
+      const name = parts.slice(1).join(' ') || `material_${materials.size + 1}`;
+      current = { name, color: '#aaaaaa', materialKey: inferMaterialKey(name) };
+      materials.set(name, current);
+      continue;
+    }
+    if (!current) continue;
+
+    switch (keyword) {
+      case 'kd': {
+        const [r, g, b] = readColor(parts);
+        current.color = channelsToHex(r, g, b);
+        break;
+      }
+      case 'ka':
+        current.ambient = readColor(parts);
+        break;
+      case 'ks':
+        current.specular = readColor(parts);
+        break;
+      case 'ns':
+        current.shininess = parseFloat(parts[1]);
+        break;
+      case 'd':
+        current.opacity = parseFloat(parts[1]);
+        break;
+      case 'tr':
+        current.opacity = 1 - parseFloat(parts[1]);
+        break;
+    }
+  }
+
+  return materials;
+}
+
+/**
+ * Resolve an OBJ index (1-based, negative values are relative to the end)
+ */
+function resolveIndex(value: string, count: number): number {
+  const index = parseInt(value, 10);
+  if (isNaN(index)) return -1;
+  return index < 0 ? count + index : index - 1;
+}
+
+/**
+ * Parse OBJ geometry. `mtlContent` is the content of the referenced material
+ * library when it is available.
+ */
+export function parseOBJ(content: string, mtlContent?: string): ObjImportResult {
+  const positions: { x: number; y: number; z: number }[] = [];
+  const normals: { x: number; y: number; z: number }[] = [];
+  const parts: ObjPart[] = [];
+  const polylines: ObjPolyline[] = [];
+  const materialLibraries: string[] = [];
+
+  let groupName = 'default';
+  let materialName: string | undefined;
+  let currentPart: ObjPart | null = null;
+  let vertexLookup = new Map<string, number>();
+
+  const getPart = (): ObjPart => {
+    if (!currentPart) {
+      currentPart = { groupName, materialName, vertices: [], faces: [] };
+      vertexLookup = new Map();
+      parts.push(currentPart);
+    }
+    return currentPart;
+  };
+
+  const startPart = () => {
+    currentPart = null;
+  };
+
+  // Join continuation lines ending with a backslash
+  const lines = content.replace(/\\\r?\n/g, ' ').split(/\r?\n/);
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const tokens = line.split(/\s+/);
+    const keyword = tokens[0];
+
+    switch (keyword) {
+      case 'v':
+        positions.push({
+          x: parseFloat(tokens[1]) || 0,
+          y: parseFloat(tokens[2]) || 0,
+          z: parseFloat(tokens[3]) || 0
+        });
+        break;
+
+      case 'vn':
+        normals.push({
+          x: parseFloat(tokens[1]) || 0,
+          y: parseFloat(tokens[2]) || 0,
+          z: parseFloat(tokens[3]) || 0
+        });
+        break;
+
+      case 'o':
+      case 'g':
+        groupName = tokens.slice(1).join(' ') || 'default';
+        startPart();
+        break;
+
+      case 'usemtl':
+        materialName = tokens.slice(1).join(' ');
+        startPart();
+        break;
+
+      case 'mtllib':
+        materialLibraries.push(...tokens.slice(1));
+        break;
+
+      case 'f': {
+        const part = getPart();
+        const face: number[] = [];
+
+        for (const token of tokens.slice(1)) {
+          const [v, , vn] = token.split('/');
+          const positionIndex = resolveIndex(v, positions.length);
+          if (positionIndex < 0 || positionIndex >= positions.length) {
+            throw new Error(`Invalid OBJ face vertex "${token}"`);
+          }
+          const normalIndex = vn ? resolveIndex(vn, normals.length) : -1;
+          const key = `${positionIndex}/${normalIndex}`;
+
+          let index = vertexLookup.get(key);
+          if (index === undefined) {
+            index = part.vertices.length;
+            part.vertices.push({ ...positions[positionIndex] });
+            if (normalIndex >= 0 && normals[normalIndex]) {
+              if (!part.normals) part.normals = [];
+              part.normals[index] = { ...normals[normalIndex] };
+            }
+            vertexLookup.set(key, index);
+          }
+          face.push(index);
+        }
+
+        if (face.length >= 3) part.faces.push(face);
+        break;
+      }
+
+      case 'l': {
+        const points = tokens.slice(1)
+          .map(token => resolveIndex(token.split('/')[0], positions.length))
+          .filter(index => index >= 0 && index < positions.length)
+          .map(index => ({ ...positions[index] }));
+        if (points.length >= 2) polylines.push({ groupName, points });
+        break;
+      }
+    }
+  }
+
+  // Normals are only kept when every vertex of the part has one
+  const result = parts.filter(part => part.faces.length > 0);
+  result.forEach(part => {
+    if (part.normals && (part.normals.length !== part.vertices.length || part.normals.some(n => !n))) {
+      delete part.normals;
+    }
+  });
+
+  return {
+    parts: result,
+    polylines,
+    materials: mtlContent ? parseMTL(mtlContent) : new Map(),
+    materialLibraries
+  };
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 1e6) / 1e6);
+}
+
+function materialNameFor(part: ObjExportPart): string {
+  const key = part.material && materialProperties[part.material] ? part.material : undefined;
+  const color = part.color || (key ? MATERIAL_COLORS[key] : undefined) || '#aaaaaa';
+  const hex = hexToChannels(color).map(c => Math.round(c * 255).toString(16).padStart(2, '0')).join('');
+  return key ? `${key}_${hex}` : `color_${hex}`;
+}
+
+/**
+ * Write parts as an OBJ file with one object per part and flat face normals
+ */
+export function writeOBJ(parts: ObjExportPart[], materialLibrary?: string): string {
+  const lines: string[] = ['# Exported by CAD/CAM FUN', `# Objects: ${parts.length}`];
+  if (materialLibrary) lines.push(`mtllib ${materialLibrary}`);
+
+  let vertexOffset = 0;
+  let normalOffset = 0;
+
+  parts.forEach((part, partIndex) => {
+    const { positions, indices } = part.mesh;
+    const name = (part.name || `object_${partIndex + 1}`).replace(/\s+/g, '_');
+    lines.push('', `o ${name}`);
+
+    for (let i = 0; i < positions.length; i += 3) {
+      lines.push(`v ${formatNumber(positions[i])} ${formatNumber(positions[i + 1])} ${formatNumber(positions[i + 2])}`);
+    }
+    for (let i = 0; i < indices.length; i += 3) {
+      const normal = triangleNormal(positions, indices[i], indices[i + 1], indices[i + 2]);
+      lines.push(`vn ${normal.map(formatNumber).join(' ')}`);
+    }
+
+    if (materialLibrary) lines.push(`usemtl ${materialNameFor(part)}`);
+    lines.push('s off');
+
+    for (let i = 0; i < indices.length; i += 3) {
+      const normal = normalOffset + i / 3 + 1;
+      const a = vertexOffset + indices[i] + 1;
+      const b = vertexOffset + indices[i + 1] + 1;
+      const c = vertexOffset + indices[i + 2] + 1;
+      lines.push(`f ${a}//${normal} ${b}//${normal} ${c}//${normal}`);
+    }
+
+    vertexOffset += positions.length / 3;
+    normalOffset += indices.length / 3;
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Write the material library for the parts written by writeOBJ.
+ * Materials known to materialProperties carry their shop data as comments.
+ */
+export function writeMTL(parts: ObjExportPart[]): string {
+  const lines: string[] = ['# Exported by CAD/CAM FUN'];
+  const written = new Set<string>();
+
+  parts.forEach(part => {
+    const name = materialNameFor(part);
+    if (written.has(name)) return;
+    written.add(name);
+
+    const key = part.material && materialProperties[part.material] ? part.material : undefined;
+    const [r, g, b] = hexToChannels(part.color || (key ? MATERIAL_COLORS[key] : undefined) || '#aaaaaa');
+    const shininess = key ? MATERIAL_SHININESS[key] ?? 50 : 50;
+    const specular = key && ['aluminum', 'steel', 'brass', 'titanium'].includes(key) ? 0.8 : 0.3;
+
+    lines.push('', `newmtl ${name}`);
+    if (key) {
+      const properties = materialProperties[key];
+      lines.push(`# Material: ${key}`);
+      lines.push(`# Density: ${properties.density}`);
+      lines.push(`# Hardness: ${properties.hardness}`);
+      if (properties.machinability) lines.push(`# Machinability: ${properties.machinability}`);
+    }
+    lines.push(`Ka ${formatNumber(r * 0.2)} ${formatNumber(g * 0.2)} ${formatNumber(b * 0.2)}`);
+    lines.push(`Kd ${formatNumber(r)} ${formatNumber(g)} ${formatNumber(b)}`);
+    lines.push(`Ks ${specular} ${specular} ${specular}`);
+    lines.push(`Ns ${shininess}`);
+    lines.push('d 1');
+    lines.push('illum 2');
+  });
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,1507 @@
+import * as THREE from 'three';
+import { TriangleMesh, weldTriangles } from './tessellation';
+
+/**
+ * STEP (ISO 10303-21) reader for AP203/AP214 B-rep solids.
+ *
+ * Faces on planes, cylinders, cones, spheres and tori are triangulated in the
+ * parameter space of their surface and refined until the chord error is below
+ * the tolerance. Edges are discretised once and shared by both adjacent faces,
+ * so every solid welds into a closed mesh. Faces on other surfaces (B-splines,
+ * surfaces of revolution, ...) are approximated from their boundary.
+ *
+ * The product structure is followed to name the solids after their products
+ * and to place assembly components with their transformations.
+ */
+
+export interface StepImportOptions {
+  /** Maximum distance between the tessellation and the exact surface, in mm */
+  chordTolerance?: number;
+  /** Maximum angle covered by one segment of a curved edge, in radians */
+  maxSegmentAngle?: number;
+}
+
+export interface StepSolid extends TriangleMesh {
+  name: string;
+  /** Name of the assembly occurrence the solid is placed in, if any */
+  assembly?: string;
+}
+
+export interface StepImportResult {
+  solids: StepSolid[];
+  /** Factor used to convert the file length unit to millimetres */
+  unitScale: number;
+  /** Faces on unsupported surfaces that were approximated from their boundary */
+  approximatedFaces: number;
+}
+
+type StepValue = number | string | boolean | null | StepRef | StepEnum | StepTyped | StepValue[];
+
+interface StepRef {
+  ref: number;
+}
+
+interface StepEnum {
+  enum: string;
+}
+
+interface StepTyped {
+  type: string;
+  args: StepValue[];
+}
+
+interface StepRecord {
+  type: string;
+  args: StepValue[];
+}
+
+// Complex entities such as (LENGTH_UNIT() NAMED_UNIT(*) SI_UNIT(.MILLI.,.METRE.)) have several records
+interface StepEntity {
+  id: number;
+  records: StepRecord[];
+}
+
+interface Frame {
+  origin: THREE.Vector3;
+  x: THREE.Vector3;
+  y: THREE.Vector3;
+  z: THREE.Vector3;
+}
+
+interface ParamPoint {
+  u: number;
+  v: number;
+  point: THREE.Vector3;
+  /** Pole or apex of the surface, where u is undefined */
+  singular?: boolean;
+}
+
+/**
+ * A surface that can be unwrapped into a (u, v) domain. Parameters are scaled to
+ * lengths so that the domain is not distorted too much for the triangulation.
+ */
+interface ParamSurface {
+  toParam(point: THREE.Vector3): { u: number; v: number; singular: boolean };
+  evaluate(u: number, v: number): THREE.Vector3;
+  /** Period of u (and v), zero when the surface is not closed in that direction */
+  periodU: number;
+  periodV: number;
+  /** v of the pole reached when moving towards +v or -v, if the surface has one */
+  poleAbove?: number;
+  poleBelow?: number;
+  /** Radius of curvature used to derive the refinement tolerances, Infinity for planes */
+  radius: number;
+}
+
+const DEFAULT_CHORD_TOLERANCE = 0.05;
+const DEFAULT_MAX_SEGMENT_ANGLE = Math.PI / 18;
+// Lower bound on the angle of a segment, which limits the triangle count of large radii
+const MIN_SEGMENT_ANGLE = Math.PI / 90;
+const MAX_REFINEMENT_PASSES = 16;
+const GEOMETRY_EPSILON = 1e-9;
+
+const SI_PREFIXES: Record<string, number> = {
+  EXA: 1e18,
+  PETA: 1e15,
+  TERA: 1e12,
+  GIGA: 1e9,
+  MEGA: 1e6,
+  KILO: 1e3,
+  HECTO: 1e2,
+  DECA: 1e1,
+  DECI: 1e-1,
+  CENTI: 1e-2,
+  MILLI: 1e-3,
+  MICRO: 1e-6,
+  NANO: 1e-9,
+  PICO: 1e-12,
+  FEMTO: 1e-15,
+  ATTO: 1e-18
+};
+
+const PREDEFINED_COLORS: Record<string, string> = {
+  red: '#ff0000',
+  green: '#00ff00',
+  blue: '#0000ff',
+  yellow: '#ffff00',
+  magenta: '#ff00ff',
+  cyan: '#00ffff',
+  black: '#000000',
+  white: '#ffffff'
+};
+
+const SOLID_TYPES = ['MANIFOLD_SOLID_BREP', 'BREP_WITH_VOIDS', 'FACETED_BREP', 'SHELL_BASED_SURFACE_MODEL'];
+
+// ---------------------------------------------------------------------------
+// Part 21 exchange structure
+// ---------------------------------------------------------------------------
+
+function decodeStepString(raw: string): string {
+  return raw
+    .replace(/\\X2\\((?:[0-9A-F]{4})+)\\X0\\/gi, (_, hex: string) =>
+      (hex.match(/.{4}/g) || []).map(code => String.fromCharCode(parseInt(code, 16))).join('')
+    )
+    .replace(/\\X\\([0-9A-F]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/\\S\\(.)/g, (_, ch: string) => String.fromCharCode(ch.charCodeAt(0) + 128))
+    .replace(/\\P[A-I]\\/g, '')
+    .replace(/\\\\/g, '\\');
+}
+
+function isDigit(code: number): boolean {
+  return code >= 48 && code <= 57;
+}
+
+function isKeywordChar(code: number): boolean {
+  return (code >= 65 && code <= 90) || (code >= 97 && code <= 122) || isDigit(code) || code === 95 || code === 45;
+}
+
+/**
+ * Parse the DATA sections of an exchange structure into entities keyed by instance id
+ */
+function parseExchangeStructure(content: string): Map<number, StepEntity> {
+  if (!/^\s*ISO-10303-21\s*;/.test(content.replace(/^\uFEFF/, ''))) {
+    throw new Error('Invalid STEP file: missing ISO-10303-21 header');
+  }
+
+  const entities = new Map<number, StepEntity>();
+  const length = content.length;
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    const line = content.slice(0, pos).split('\n').length;
+    throw new Error(`Invalid STEP file: ${message} at line ${line}`);
+  };
+
+  const skipSpace = () => {
+    while (pos < length) {
+      const code = content.charCodeAt(pos);
+      if (code <= 32) {
+        pos++;
+      } else if (code === 47 && content.charCodeAt(pos + 1) === 42) {
+        const end = content.indexOf('*/', pos + 2);
+        pos = end < 0 ? length : end + 2;
+      } else {
+        break;
+      }
+    }
+  };
+
+  const readKeyword = (): string => {
+    const start = pos;
+    if (content[pos] === '!') pos++;
+    while (pos < length && isKeywordChar(content.charCodeAt(pos))) pos++;
+    if (pos === start) fail(`unexpected "${content[pos]}"`);
+    return content.slice(start, pos).toUpperCase();
+  };
+
+  const readList = (): StepValue[] => {
+    skipSpace();
+    if (content[pos] !== '(') fail('expected "("');
+    pos++;
+    const values: StepValue[] = [];
+    skipSpace();
+    if (content[pos] === ')') {
+      pos++;
+      return values;
+    }
+    for (;;) {
+      values.push(readValue());
+      skipSpace();
+      const ch = content[pos++];
+      if (ch === ')') return values;
+      if (ch !== ',') fail('expected "," or ")"');
+    }
+  };
+
+  const readValue = (): StepValue => {
+    skipSpace();
+    const ch = content[pos];
+    const code = content.charCodeAt(pos);
+
+    if (ch === '$' || ch === '*') {
+      pos++;
+      return null;
+    }
+    if (ch === '#') {
+      pos++;
+      const start = pos;
+      while (isDigit(content.charCodeAt(pos))) pos++;
+      return { ref: parseInt(content.slice(start, pos), 10) };
+    }
+    if (ch === "'") {
+      let value = '';
+      pos++;
+      for (;;) {
+        const end = content.indexOf("'", pos);
+        if (end < 0) fail('unterminated string');
+        value += content.slice(pos, end);
+        pos = end + 1;
+        if (content[pos] !== "'") break;
+        value += "'";
+        pos++;
+      }
+      return decodeStepString(value.replace(/\r?\n/g, ''));
+    }
+    if (ch === '"') {
+      const end = content.indexOf('"', pos + 1);
+      if (end < 0) fail('unterminated binary');
+      const value = content.slice(pos + 1, end);
+      pos = end + 1;
+      return value;
+    }
+    if (ch === '.') {
+      const end = content.indexOf('.', pos + 1);
+      if (end < 0) fail('unterminated enumeration');
+      const value = content.slice(pos + 1, end).toUpperCase();
+      pos = end + 1;
+      if (value === 'T') return true;
+      if (value === 'F') return false;
+      if (value === 'U') return null;
+      return { enum: value };
+    }
+    if (ch === '(') {
+      return readList();
+    }
+    if (isDigit(code) || ch === '-' || ch === '+') {
+      const start = pos;
+      pos++;
+      while (pos < length && /[0-9eE.+\-]/.test(content[pos])) pos++;
+      return parseFloat(content.slice(start, pos));
+    }
+    const type = readKeyword();
+    return { type, args: readList() };
+  };
+
+  const dataPattern = /\bDATA\b\s*(?:\([^;]*\))?\s*;/g;
+  let data: RegExpExecArray | null;
+
+  while ((data = dataPattern.exec(content)) !== null) {
+    pos = data.index + data[0].length;
+
+    for (;;) {
+      skipSpace();
+      if (pos >= length || content.startsWith('ENDSEC', pos)) break;
+      if (content[pos] !== '#') fail(`unexpected "${content[pos]}"`);
+      pos++;
+      const idStart = pos;
+      while (isDigit(content.charCodeAt(pos))) pos++;
+      const id = parseInt(content.slice(idStart, pos), 10);
+
+      skipSpace();
+      if (content[pos++] !== '=') fail('expected "="');
+      skipSpace();
+
+      const records: StepRecord[] = [];
+      if (content[pos] === '(') {
+        pos++;
+        for (;;) {
+          skipSpace();
+          if (content[pos] === ')') {
+            pos++;
+            break;
+          }
+          const type = readKeyword();
+          records.push({ type, args: readList() });
+        }
+      } else {
+        const type = readKeyword();
+        records.push({ type, args: readList() });
+      }
+
+      skipSpace();
+      if (content[pos++] !== ';') fail('expected ";"');
+      entities.set(id, { id, records });
+    }
+
+    dataPattern.lastIndex = pos;
+  }
+
+  return entities;
+}
+
+function refId(value: StepValue | undefined): number | undefined {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) && 'ref' in value ? value.ref : undefined;
+}
+
+function refList(value: StepValue | undefined): number[] {
+  return Array.isArray(value) ? value.map(refId).filter((id): id is number => id !== undefined) : [];
+}
+
+function numberValue(value: StepValue | undefined): number {
+  if (typeof value === 'number') return value;
+  // Typed parameters such as LENGTH_MEASURE(25.4)
+  if (value !== null && typeof value === 'object' && !Array.isArray(value) && 'args' in value) {
+    return numberValue(value.args[0]);
+  }
+  return NaN;
+}
+
+function stringValue(value: StepValue | undefined): string {
+  return typeof value === 'string' ? value : '';
+}
+
+// ---------------------------------------------------------------------------
+// Curves and surfaces
+// ---------------------------------------------------------------------------
+
+function frameMatrix(frame: Frame): THREE.Matrix4 {
+  return new THREE.Matrix4().makeBasis(frame.x, frame.y, frame.z).setPosition(frame.origin);
+}
+
+function perpendicular(axis: THREE.Vector3): THREE.Vector3 {
+  const helper = Math.abs(axis.x) < 0.9 ? new THREE.Vector3(1, 0, 0) : new THREE.Vector3(0, 1, 0);
+  return helper.sub(axis.clone().multiplyScalar(helper.dot(axis))).normalize();
+}
+
+// Angle of a segment that keeps the chord error of a radius within the tolerance
+function segmentAngle(radius: number, tolerance: number, maxAngle: number): number {
+  const chordAngle = radius > tolerance ? 2 * Math.acos(1 - tolerance / radius) : maxAngle;
+  return Math.max(MIN_SEGMENT_ANGLE, Math.min(maxAngle, chordAngle));
+}
+
+interface BSplineCurve {
+  degree: number;
+  points: THREE.Vector3[];
+  weights?: number[];
+  knots: number[];
+}
+
+function evaluateBSpline(curve: BSplineCurve, t: number): THREE.Vector3 {
+  const { degree, points, weights, knots } = curve;
+  const n = points.length;
+  let span = degree;
+  while (span < n - 1 && t >= knots[span + 1]) span++;
+
+  const d: number[][] = [];
+  for (let j = 0; j <= degree; j++) {
+    const point = points[span - degree + j];
+    const w = weights ? weights[span - degree + j] : 1;
+    d.push([point.x * w, point.y * w, point.z * w, w]);
+  }
+
+  for (let r = 1; r <= degree; r++) {
+    for (let j = degree; j >= r; j--) {
+      const i = span - degree + j;
+      const denominator = knots[i + degree - r + 1] - knots[i];
+      const alpha = denominator === 0 ? 0 : (t - knots[i]) / denominator;
+      for (let k = 0; k < 4; k++) {
+        d[j][k] = (1 - alpha) * d[j - 1][k] + alpha * d[j][k];
+      }
+    }
+  }
+
+  const w = d[degree][3] || 1;
+  return new THREE.Vector3(d[degree][0] / w, d[degree][1] / w, d[degree][2] / w);
+}
+
+/**
+ * Take the part of a sampled curve that runs from `start` to `end`
+ */
+function sliceSamples(samples: THREE.Vector3[], start: THREE.Vector3, end: THREE.Vector3, sense: boolean): THREE.Vector3[] {
+  const nearest = (target: THREE.Vector3) => {
+    let best = 0;
+    samples.forEach((sample, index) => {
+      if (sample.distanceToSquared(target) < samples[best].distanceToSquared(target)) best = index;
+    });
+    return best;
+  };
+
+  const closed = samples[0].distanceTo(samples[samples.length - 1]) < GEOMETRY_EPSILON * 1e3;
+  const count = samples.length - 1;
+  const from = closed ? nearest(start) % count : nearest(start);
+  const to = closed ? nearest(end) % count : nearest(end);
+  const result = [start];
+
+  if (closed) {
+    let steps = sense ? (to - from + count) % count : (from - to + count) % count;
+    // An edge whose start and end coincide runs once around the curve
+    if (steps === 0 && start.distanceTo(end) < GEOMETRY_EPSILON * 1e3) steps = count;
+    for (let k = 1; k < steps; k++) {
+      result.push(samples[(from + (sense ? k : -k) + count * steps) % count]);
+    }
+  } else {
+    const direction = to >= from ? 1 : -1;
+    for (let index = from + direction; index !== to; index += direction) {
+      result.push(samples[index]);
+    }
+  }
+
+  result.push(end);
+  return result;
+}
+
+/**
+ * Refine a triangulation of a face domain. Interior edges are split where
+ * `midpoint` returns a point and flipped towards a Delaunay triangulation in the
+ * (u, v) plane after every pass, which also replaces the long fans produced by
+ * ear clipping. Fixed (boundary) edges are kept as they are.
+ */
+function refineTriangulation(
+  points: ParamPoint[],
+  triangles: number[][],
+  fixed: Set<string>,
+  midpoint: (a: ParamPoint, b: ParamPoint) => ParamPoint | null
+) {
+  const orient = (a: number, b: number, c: number) =>
+    (points[b].u - points[a].u) * (points[c].v - points[a].v) - (points[c].u - points[a].u) * (points[b].v - points[a].v);
+  const inCircle = (a: number, b: number, c: number, d: number) => {
+    const pd = points[d];
+    const ax = points[a].u - pd.u, ay = points[a].v - pd.v;
+    const bx = points[b].u - pd.u, by = points[b].v - pd.v;
+    const cx = points[c].u - pd.u, cy = points[c].v - pd.v;
+    const determinant = (ax * ax + ay * ay) * (bx * cy - cx * by) -
+      (bx * bx + by * by) * (ax * cy - cx * ay) +
+      (cx * cx + cy * cy) * (ax * by - bx * ay);
+    return determinant > GEOMETRY_EPSILON;
+  };
+  const key = (a: number, b: number) => (a < b ? `${a}_${b}` : `${b}_${a}`);
+
+  triangles.forEach(triangle => {
+    if (orient(triangle[0], triangle[1], triangle[2]) < 0) triangle.reverse();
+  });
+
+  const edges = new Map<string, number[]>();
+  const register = (index: number) => {
+    const [a, b, c] = triangles[index];
+    [key(a, b), key(b, c), key(c, a)].forEach(edge => edges.set(edge, [...(edges.get(edge) || []), index]));
+  };
+  const unregister = (index: number) => {
+    const [a, b, c] = triangles[index];
+    [key(a, b), key(b, c), key(c, a)].forEach(edge => edges.set(edge, (edges.get(edge) || []).filter(t => t !== index)));
+  };
+  triangles.forEach((_, index) => register(index));
+
+  // The triangles sharing an interior edge, as (a, b, c) and (b, a, d)
+  const quad = (edge: string) => {
+    const owners = edges.get(edge) || [];
+    if (fixed.has(edge) || owners.length !== 2) return null;
+    const [p, q] = edge.split('_').map(Number);
+    const first = triangles[owners[0]];
+    const rotation = first.findIndex((vertex, i) => vertex === p && first[(i + 1) % 3] === q || vertex === q && first[(i + 1) % 3] === p);
+    const a = first[rotation];
+    const b = first[(rotation + 1) % 3];
+    const c = first[(rotation + 2) % 3];
+    const d = triangles[owners[1]].find(vertex => vertex !== a && vertex !== b);
+    return d === undefined ? null : { owners, a, b, c, d };
+  };
+
+  const flip = (pending: string[]) => {
+    let budget = triangles.length * triangles.length + 100;
+    while (pending.length > 0 && budget-- > 0) {
+      const edge = pending.pop() as string;
+      const found = quad(edge);
+      if (!found) continue;
+      const { owners, a, b, c, d } = found;
+      // Only convex quadrilaterals can be flipped
+      if (!inCircle(a, b, c, d) || orient(a, d, c) <= 0 || orient(d, b, c) <= 0) continue;
+
+      owners.forEach(unregister);
+      triangles[owners[0]] = [a, d, c];
+      triangles[owners[1]] = [d, b, c];
+      owners.forEach(register);
+      pending.push(key(a, d), key(d, b), key(b, c), key(c, a));
+    }
+  };
+
+  const accepted = new Set<string>();
+  flip(Array.from(edges.keys()));
+
+  for (let pass = 0; pass < MAX_REFINEMENT_PASSES; pass++) {
+    const touched: string[] = [];
+
+    Array.from(edges.keys()).forEach(edge => {
+      if (accepted.has(edge)) return;
+      const found = quad(edge);
+      if (!found) return;
+      const { owners, a, b, c, d } = found;
+      const point = midpoint(points[a], points[b]);
+      if (!point) {
+        accepted.add(edge);
+        return;
+      }
+
+      const m = points.length;
+      points.push(point);
+      owners.forEach(unregister);
+      triangles[owners[0]] = [a, m, c];
+      triangles[owners[1]] = [b, m, d];
+      triangles.push([m, b, c], [m, a, d]);
+      [owners[0], owners[1], triangles.length - 2, triangles.length - 1].forEach(register);
+      touched.push(key(a, c), key(b, c), key(a, d), key(b, d), key(m, c), key(m, d));
+    });
+
+    if (touched.length === 0) break;
+    flip(touched);
+  }
+}
+
+function polygonArea(points: { u: number; v: number }[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.u * b.v - b.u * a.v;
+  }
+  return area / 2;
+}
+
+function newellNormal(points: THREE.Vector3[]): THREE.Vector3 {
+  const normal = new THREE.Vector3();
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    normal.x += (a.y - b.y) * (a.z + b.z);
+    normal.y += (a.z - b.z) * (a.x + b.x);
+    normal.z += (a.x - b.x) * (a.y + b.y);
+  }
+  return normal;
+}
+
+// ---------------------------------------------------------------------------
+// Reader
+// ---------------------------------------------------------------------------
+
+class StepReader {
+  private entities: Map<number, StepEntity>;
+  private tolerance: number;
+  private maxAngle: number;
+  private pointCache = new Map<number, THREE.Vector3>();
+  private edgeCache = new Map<number, THREE.Vector3[]>();
+  private solidCache = new Map<number, TriangleMesh>();
+  private colorCache: Map<number, string> | null = null;
+
+  lengthScale = 1;
+  angleScale = 1;
+  approximatedFaces = 0;
+
+  constructor(entities: Map<number, StepEntity>, options: StepImportOptions) {
+    this.entities = entities;
+    this.tolerance = options.chordTolerance ?? DEFAULT_CHORD_TOLERANCE;
+    this.maxAngle = options.maxSegmentAngle ?? DEFAULT_MAX_SEGMENT_ANGLE;
+    this.detectUnits();
+  }
+
+  record(id: number | undefined, type?: string): StepRecord | undefined {
+    const entity = id === undefined ? undefined : this.entities.get(id);
+    if (!entity) return undefined;
+    return type ? entity.records.find(record => record.type === type) : entity.records[0];
+  }
+
+  private recordOf(id: number | undefined, types: string[]): StepRecord | undefined {
+    const entity = id === undefined ? undefined : this.entities.get(id);
+    return entity?.records.find(record => types.indexOf(record.type) >= 0);
+  }
+
+  private findAll(type: string): StepEntity[] {
+    const result: StepEntity[] = [];
+    this.entities.forEach(entity => {
+      if (entity.records.some(record => record.type === type)) result.push(entity);
+    });
+    return result;
+  }
+
+  // ----- units -----
+
+  private detectUnits() {
+    const context = this.findAll('GLOBAL_UNIT_ASSIGNED_CONTEXT')[0];
+    const units = refList(context?.records.find(record => record.type === 'GLOBAL_UNIT_ASSIGNED_CONTEXT')?.args[0]);
+
+    units.forEach(unitId => {
+      if (this.record(unitId, 'LENGTH_UNIT')) this.lengthScale = this.unitFactor(unitId, 'METRE') * 1000;
+      if (this.record(unitId, 'PLANE_ANGLE_UNIT')) this.angleScale = this.unitFactor(unitId, 'RADIAN');
+    });
+  }
+
+  // Size of a unit expressed in the SI base unit (metres or radians)
+  private unitFactor(unitId: number | undefined, base: string, depth = 0): number {
+    if (depth > 4) return 1;
+
+    const si = this.record(unitId, 'SI_UNIT');
+    if (si) {
+      const prefix = si.args[0] as StepEnum | null;
+      return prefix && SI_PREFIXES[prefix.enum] ? SI_PREFIXES[prefix.enum] : 1;
+    }
+
+    const conversion = this.record(unitId, 'CONVERSION_BASED_UNIT');
+    if (conversion) {
+      const measure = this.entities.get(refId(conversion.args[1]) ?? -1)?.records.find(r => r.type.endsWith('MEASURE_WITH_UNIT'));
+      if (measure) {
+        const value = numberValue(measure.args[0]);
+        const factor = this.unitFactor(refId(measure.args[1]), base, depth + 1);
+        if (isFinite(value) && value > 0) return value * factor;
+      }
+      // Well-known names, for files that leave the conversion factor out
+      const name = stringValue(conversion.args[0]).toUpperCase();
+      if (name === 'INCH') return 0.0254;
+      if (name === 'FOOT') return 0.3048;
+      if (name.startsWith('DEGREE')) return Math.PI / 180;
+    }
+
+    return 1;
+  }
+
+  // ----- geometry -----
+
+  point(id: number | undefined): THREE.Vector3 {
+    if (id === undefined) return new THREE.Vector3();
+    const cached = this.pointCache.get(id);
+    if (cached) return cached;
+
+    let coordinates: number[] = [];
+    const cartesian = this.record(id, 'CARTESIAN_POINT');
+    const vertex = this.record(id, 'VERTEX_POINT');
+    if (cartesian) {
+      coordinates = (cartesian.args[1] as StepValue[]).map(numberValue);
+    } else if (vertex) {
+      return this.point(refId(vertex.args[1]));
+    }
+
+    const point = new THREE.Vector3(coordinates[0] || 0, coordinates[1] || 0, coordinates[2] || 0)
+      .multiplyScalar(this.lengthScale);
+    this.pointCache.set(id, point);
+    return point;
+  }
+
+  private direction(id: number | undefined): THREE.Vector3 | undefined {
+    const direction = this.record(id, 'DIRECTION');
+    if (!direction) return undefined;
+    const ratios = (direction.args[1] as StepValue[]).map(numberValue);
+    const vector = new THREE.Vector3(ratios[0] || 0, ratios[1] || 0, ratios[2] || 0);
+    return vector.lengthSq() > 0 ? vector.normalize() : undefined;
+  }
+
+  frame(id: number | undefined): Frame {
+    const placement = this.recordOf(id, ['AXIS2_PLACEMENT_3D', 'AXIS2_PLACEMENT_2D', 'AXIS1_PLACEMENT']);
+    const origin = this.point(refId(placement?.args[1])).clone();
+    const is2D = placement?.type === 'AXIS2_PLACEMENT_2D';
+    const z = (!is2D && this.direction(refId(placement?.args[2]))) || new THREE.Vector3(0, 0, 1);
+    const refArg = is2D ? placement?.args[2] : placement?.args[3];
+    let x = this.direction(refId(refArg));
+
+    if (x) {
+      x = x.clone().sub(z.clone().multiplyScalar(x.dot(z)));
+    }
+    x = x && x.lengthSq() > GEOMETRY_EPSILON ? x.normalize() : perpendicular(z);
+
+    return { origin, x, y: new THREE.Vector3().crossVectors(z, x), z };
+  }
+
+  private bsplineCurve(id: number): BSplineCurve | null {
+    let degree: number;
+    let pointRefs: StepValue | undefined;
+    let multiplicities: StepValue | undefined;
+    let knotValues: StepValue | undefined;
+    let weights: number[] | undefined;
+
+    const base = this.record(id, 'B_SPLINE_CURVE');
+    const withKnots = this.record(id, 'B_SPLINE_CURVE_WITH_KNOTS');
+    if (!withKnots) return null;
+
+    if (base) {
+      // Complex (rational) form: the attributes are spread over several records
+      degree = numberValue(base.args[0]);
+      pointRefs = base.args[1];
+      multiplicities = withKnots.args[0];
+      knotValues = withKnots.args[1];
+      const rational = this.record(id, 'RATIONAL_B_SPLINE_CURVE');
+      if (rational) weights = (rational.args[0] as StepValue[]).map(numberValue);
+    } else {
+      degree = numberValue(withKnots.args[1]);
+      pointRefs = withKnots.args[2];
+      multiplicities = withKnots.args[6];
+      knotValues = withKnots.args[7];
+    }
+
+    const points = refList(pointRefs).map(ref => this.point(ref));
+    const knots: number[] = [];
+    const values = (knotValues as StepValue[]).map(numberValue);
+    (multiplicities as StepValue[]).map(numberValue).forEach((count, index) => {
+      for (let i = 0; i < count; i++) knots.push(values[index]);
+    });
+
+    if (points.length <= degree || knots.length !== points.length + degree + 1) return null;
+    return { degree, points, weights, knots };
+  }
+
+  /**
+   * Discretise a curve between two of its points. `sense` tells whether the
+   * edge runs along the curve direction.
+   */
+  private curvePoints(curveId: number | undefined, start: THREE.Vector3, end: THREE.Vector3, sense: boolean): THREE.Vector3[] {
+    const entity = curveId === undefined ? undefined : this.entities.get(curveId);
+    if (!entity) return [start, end];
+    const record = entity.records[0];
+    const closed = start.distanceTo(end) < GEOMETRY_EPSILON * 1e3;
+
+    switch (record.type) {
+      case 'SURFACE_CURVE':
+      case 'SEAM_CURVE':
+      case 'INTERSECTION_CURVE':
+      case 'TRIMMED_CURVE':
+        return this.curvePoints(refId(record.args[1]), start, end, sense);
+
+      case 'CIRCLE':
+      case 'ELLIPSE': {
+        const frame = this.frame(refId(record.args[1]));
+        const a = numberValue(record.args[2]) * this.lengthScale;
+        const b = record.type === 'ELLIPSE' ? numberValue(record.args[3]) * this.lengthScale : a;
+        const angleOf = (point: THREE.Vector3) => {
+          const d = point.clone().sub(frame.origin);
+          return Math.atan2(d.dot(frame.y) / b, d.dot(frame.x) / a);
+        };
+
+        const t1 = angleOf(start);
+        const t2 = angleOf(end);
+        const forward = (from: number, to: number) => {
+          const sweep = (to - from) % (Math.PI * 2);
+          return sweep <= GEOMETRY_EPSILON ? sweep + Math.PI * 2 : sweep;
+        };
+        const sweep = closed ? (sense ? 1 : -1) * Math.PI * 2 : sense ? forward(t1, t2) : -forward(t2, t1);
+        const segments = Math.max(1, Math.ceil(Math.abs(sweep) / segmentAngle(Math.max(a, b), this.tolerance, this.maxAngle)));
+
+        const points = [start];
+        for (let i = 1; i < segments; i++) {
+          const t = t1 + (sweep * i) / segments;
+          points.push(
+            frame.origin.clone()
+              .addScaledVector(frame.x, a * Math.cos(t))
+              .addScaledVector(frame.y, b * Math.sin(t))
+          );
+        }
+        points.push(end);
+        return points;
+      }
+
+      case 'POLYLINE':
+        return sliceSamples(refList(record.args[1]).map(ref => this.point(ref)), start, end, sense);
+
+      default: {
+        const spline = this.bsplineCurve(entity.id);
+        if (!spline) return [start, end];
+
+        const first = spline.knots[spline.degree];
+        const last = spline.knots[spline.points.length];
+        const count = Math.min(512, Math.max(16, spline.points.length * 6));
+        const samples: THREE.Vector3[] = [];
+        for (let i = 0; i <= count; i++) {
+          samples.push(evaluateBSpline(spline, first + ((last - first) * i) / count));
+        }
+        return sliceSamples(samples, start, end, sense);
+      }
+    }
+  }
+
+  /**
+   * Points of an edge from its start vertex to its end vertex, shared by both faces
+   */
+  private edgePoints(edgeId: number): THREE.Vector3[] {
+    const cached = this.edgeCache.get(edgeId);
+    if (cached) return cached;
+
+    const edge = this.record(edgeId, 'EDGE_CURVE');
+    let points: THREE.Vector3[] = [];
+    if (edge) {
+      const start = this.point(refId(edge.args[1]));
+      const end = this.point(refId(edge.args[2]));
+      points = this.curvePoints(refId(edge.args[3]), start, end, edge.args[4] !== false);
+    }
+
+    this.edgeCache.set(edgeId, points);
+    return points;
+  }
+
+  private loopPoints(loopId: number | undefined, orientation: boolean): THREE.Vector3[] {
+    const entity = loopId === undefined ? undefined : this.entities.get(loopId);
+    const record = entity?.records[0];
+    let points: THREE.Vector3[] = [];
+
+    if (record?.type === 'EDGE_LOOP') {
+      refList(record.args[1]).forEach(orientedId => {
+        const oriented = this.record(orientedId, 'ORIENTED_EDGE');
+        const edgeId = oriented ? refId(oriented.args[3]) : orientedId;
+        if (edgeId === undefined) return;
+        const edgePoints = this.edgePoints(edgeId);
+        const ordered = oriented && oriented.args[4] === false ? edgePoints.slice().reverse() : edgePoints;
+        points.push(...ordered.slice(0, -1));
+      });
+    } else if (record?.type === 'POLY_LOOP') {
+      points = refList(record.args[1]).map(ref => this.point(ref));
+    }
+
+    return orientation ? points : points.reverse();
+  }
+
+  private surface(surfaceId: number | undefined): ParamSurface | null {
+    const entity = surfaceId === undefined ? undefined : this.entities.get(surfaceId);
+    const record = entity?.records[0];
+    if (!record) return null;
+
+    const frame = this.frame(refId(record.args[1]));
+    const local = (point: THREE.Vector3) => {
+      const d = point.clone().sub(frame.origin);
+      return { x: d.dot(frame.x), y: d.dot(frame.y), z: d.dot(frame.z) };
+    };
+    const at = (radius: number, angle: number, height: number) =>
+      frame.origin.clone()
+        .addScaledVector(frame.x, radius * Math.cos(angle))
+        .addScaledVector(frame.y, radius * Math.sin(angle))
+        .addScaledVector(frame.z, height);
+
+    switch (record.type) {
+      case 'PLANE':
+        return {
+          toParam: point => {
+            const p = local(point);
+            return { u: p.x, v: p.y, singular: false };
+          },
+          evaluate: (u, v) => at(0, 0, 0).addScaledVector(frame.x, u).addScaledVector(frame.y, v),
+          periodU: 0,
+          periodV: 0,
+          radius: Infinity
+        };
+
+      case 'CYLINDRICAL_SURFACE': {
+        const radius = numberValue(record.args[2]) * this.lengthScale;
+        return {
+          toParam: point => {
+            const p = local(point);
+            return { u: Math.atan2(p.y, p.x) * radius, v: p.z, singular: false };
+          },
+          evaluate: (u, v) => at(radius, u / radius, v),
+          periodU: Math.PI * 2 * radius,
+          periodV: 0,
+          radius
+        };
+      }
+
+      case 'CONICAL_SURFACE': {
+        const baseRadius = numberValue(record.args[2]) * this.lengthScale;
+        const slope = Math.tan(numberValue(record.args[3]) * this.angleScale);
+        const radiusAt = (v: number) => baseRadius + v * slope;
+        // u is scaled with the base radius, or with a nominal one when the apex is at the origin
+        const scale = baseRadius > this.tolerance ? baseRadius : Math.max(1, this.tolerance * 100);
+        const apex = Math.abs(slope) > GEOMETRY_EPSILON ? -baseRadius / slope : undefined;
+        const surface: ParamSurface = {
+          toParam: point => {
+            const p = local(point);
+            return {
+              u: Math.atan2(p.y, p.x) * scale,
+              v: p.z,
+              singular: Math.hypot(p.x, p.y) < GEOMETRY_EPSILON * 1e3
+            };
+          },
+          evaluate: (u, v) => at(radiusAt(v), u / scale, v),
+          periodU: Math.PI * 2 * scale,
+          periodV: 0,
+          radius: scale
+        };
+        if (apex !== undefined) {
+          if (apex > 0) surface.poleAbove = apex;
+          else surface.poleBelow = apex;
+        }
+        return surface;
+      }
+
+      case 'SPHERICAL_SURFACE': {
+        const radius = numberValue(record.args[2]) * this.lengthScale;
+        return {
+          toParam: point => {
+            const p = local(point);
+            const latitude = Math.asin(Math.max(-1, Math.min(1, p.z / radius)));
+            return {
+              u: Math.atan2(p.y, p.x) * radius,
+              v: latitude * radius,
+              singular: Math.hypot(p.x, p.y) < GEOMETRY_EPSILON * 1e3
+            };
+          },
+          evaluate: (u, v) => at(radius * Math.cos(v / radius), u / radius, radius * Math.sin(v / radius)),
+          periodU: Math.PI * 2 * radius,
+          periodV: 0,
+          poleAbove: (Math.PI / 2) * radius,
+          poleBelow: (-Math.PI / 2) * radius,
+          radius
+        };
+      }
+
+      case 'TOROIDAL_SURFACE': {
+        const major = numberValue(record.args[2]) * this.lengthScale;
+        const minor = numberValue(record.args[3]) * this.lengthScale;
+        return {
+          toParam: point => {
+            const p = local(point);
+            const angle = Math.atan2(p.z, Math.hypot(p.x, p.y) - major);
+            return { u: Math.atan2(p.y, p.x) * major, v: angle * minor, singular: false };
+          },
+          evaluate: (u, v) => {
+            const angle = v / minor;
+            return at(major + minor * Math.cos(angle), u / major, minor * Math.sin(angle));
+          },
+          periodU: Math.PI * 2 * major,
+          periodV: Math.PI * 2 * minor,
+          radius: minor
+        };
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  // ----- faces -----
+
+  /**
+   * Triangulate a face and append the triangles to `positions`
+   */
+  private tessellateFace(faceId: number, positions: number[], flip = false) {
+    const entity = this.entities.get(faceId);
+    const record = entity?.records[0];
+    if (!record) return;
+
+    if (record.type === 'ORIENTED_FACE') {
+      this.tessellateFace(refId(record.args[2]) ?? -1, positions, flip !== (record.args[3] === false));
+      return;
+    }
+
+    const loops = refList(record.args[1])
+      .map(boundId => {
+        const bound = this.recordOf(boundId, ['FACE_OUTER_BOUND', 'FACE_BOUND']);
+        return bound ? this.loopPoints(refId(bound.args[1]), bound.args[2] !== false) : [];
+      })
+      .filter(loop => loop.length >= 2);
+
+    const hasSurface = record.type === 'ADVANCED_FACE' || record.type === 'FACE_SURFACE';
+    const surface = hasSurface ? this.surface(refId(record.args[2])) : null;
+    const sameSense = (hasSurface ? record.args[3] !== false : true) !== flip;
+
+    if (surface) {
+      const triangles = this.triangulateOnSurface(surface, loops, sameSense);
+      if (triangles) {
+        positions.push(...triangles);
+        return;
+      }
+    }
+
+    if (loops.length === 0) return;
+    if (hasSurface) this.approximatedFaces++;
+    positions.push(...this.triangulatePlanar(loops, flip));
+  }
+
+  /**
+   * Triangulate the face loops projected on their best-fit plane
+   */
+  private triangulatePlanar(loops: THREE.Vector3[][], flip: boolean): number[] {
+    const normals = loops.map(newellNormal);
+    let outerIndex = 0;
+    normals.forEach((normal, index) => {
+      if (normal.length() > normals[outerIndex].length()) outerIndex = index;
+    });
+    const normal = normals[outerIndex].clone();
+    if (normal.lengthSq() === 0) return [];
+    normal.normalize();
+
+    const x = perpendicular(normal);
+    const y = new THREE.Vector3().crossVectors(normal, x);
+    const project = (loop: THREE.Vector3[]) => loop.map(point => new THREE.Vector2(point.dot(x), point.dot(y)));
+
+    const contour = project(loops[outerIndex]);
+    const holeLoops = loops.filter((_, index) => index !== outerIndex);
+    const faces = THREE.ShapeUtils.triangulateShape(contour, holeLoops.map(project));
+    const all = [loops[outerIndex], ...holeLoops].reduce<THREE.Vector3[]>((list, loop) => list.concat(loop), []);
+
+    const result: number[] = [];
+    faces.forEach(([a, b, c]) => {
+      const pa = all[a];
+      const pb = all[b];
+      const pc = all[c];
+      if (!pa || !pb || !pc) return;
+      const triangleNormal = new THREE.Vector3().subVectors(pb, pa).cross(new THREE.Vector3().subVectors(pc, pa));
+      const reversed = (triangleNormal.dot(normal) < 0) !== flip;
+      const corners = reversed ? [pa, pc, pb] : [pa, pb, pc];
+      corners.forEach(point => result.push(point.x, point.y, point.z));
+    });
+    return result;
+  }
+
+  /**
+   * Map a loop into the parameter space of the surface. Returns the points
+   * with unwrapped parameters and how many times the loop winds around u.
+   */
+  private unwrapLoop(surface: ParamSurface, loop: THREE.Vector3[]): { points: ParamPoint[]; winding: number } | null {
+    const mapped = loop.map(point => ({ ...surface.toParam(point), point }));
+    const firstRegular = mapped.findIndex(p => !p.singular);
+    if (firstRegular < 0) return null;
+    const rotated = mapped.slice(firstRegular).concat(mapped.slice(0, firstRegular));
+
+    const unwrap = (value: number, previous: number, period: number) =>
+      period > 0 ? value + Math.round((previous - value) / period) * period : value;
+
+    // Unwrap the regular points, the singular ones take the u of their neighbours
+    let previousU = rotated[0].u;
+    let previousV = rotated[0].v;
+    rotated.forEach(p => {
+      if (p.singular) return;
+      p.u = unwrap(p.u, previousU, surface.periodU);
+      p.v = unwrap(p.v, previousV, surface.periodV);
+      previousU = p.u;
+      previousV = p.v;
+    });
+
+    const closingU = unwrap(rotated[0].u, previousU, surface.periodU);
+    const closingV = unwrap(rotated[0].v, previousV, surface.periodV);
+    if (surface.periodV > 0 && Math.abs(closingV - rotated[0].v) > surface.periodV / 2) {
+      // Loops around the minor circle of a torus are not supported
+      return null;
+    }
+    const winding = surface.periodU > 0 ? Math.round((closingU - rotated[0].u) / surface.periodU) : 0;
+
+    const points: ParamPoint[] = [];
+    rotated.forEach((p, index) => {
+      if (!p.singular) {
+        points.push({ u: p.u, v: p.v, point: p.point });
+        return;
+      }
+      // A pole is stretched into a segment between the u of the adjacent points
+      const before = points.length > 0 ? points[points.length - 1].u : rotated[0].u;
+      const nextRegular = rotated.slice(index + 1).find(q => !q.singular);
+      const after = nextRegular ? nextRegular.u : closingU;
+      points.push({ u: before, v: p.v, point: p.point, singular: true });
+      if (Math.abs(after - before) > GEOMETRY_EPSILON) points.push({ u: after, v: p.v, point: p.point, singular: true });
+    });
+
+    return { points, winding };
+  }
+
+  /**
+   * Triangulate a face in the parameter space of its surface. Returns null when
+   * the loops cannot be laid out in the parameter space.
+   */
+  private triangulateOnSurface(surface: ParamSurface, loops: THREE.Vector3[][], sameSense: boolean): number[] | null {
+    const period = surface.periodU;
+    const unwrapped: { points: ParamPoint[]; winding: number }[] = [];
+    for (const loop of loops) {
+      const result = this.unwrapLoop(surface, loop);
+      if (!result) return null;
+      unwrapped.push(result);
+    }
+
+    // Closed chain running once around u in the increasing direction. Visits to the
+    // pole (e.g. along the seam of a cone) are left out, the pole is added back when closing the cap.
+    const ascending = (loop: { points: ParamPoint[]; winding: number }) => {
+      const regular = loop.points.filter(p => !p.singular);
+      const points = loop.winding < 0 ? regular.reverse() : regular;
+      return [...points, { ...points[0], u: points[0].u + period }];
+    };
+
+    const winding = unwrapped.filter(loop => loop.winding !== 0);
+    const polygons = unwrapped.filter(loop => loop.winding === 0).map(loop => loop.points);
+    let outer: ParamPoint[] | null = null;
+
+    if (winding.length === 1) {
+      // Cap closed by a pole: the face lies on the left of the loop seen from its normal
+      const above = winding[0].winding * (sameSense ? 1 : -1) > 0;
+      const pole = above ? surface.poleAbove : surface.poleBelow;
+      if (pole === undefined) return null;
+
+      const chain = ascending(winding[0]);
+      const polePoint = surface.evaluate(chain[0].u, pole);
+      const first = chain[0].u;
+      const last = chain[chain.length - 1].u;
+      outer = [...chain, { u: last, v: pole, point: polePoint }, { u: first, v: pole, point: polePoint }];
+    } else if (winding.length === 2) {
+      // Band between two loops, cut along a seam next to the start of the first loop
+      const lower = ascending(winding[0]);
+      const upperRing = ascending(winding[1]).slice(0, -1);
+      const start = lower[0].u;
+      let seam = 0;
+      upperRing.forEach((p, index) => {
+        const distance = (value: number) => Math.abs(((value - start) % period + period * 1.5) % period - period / 2);
+        if (distance(p.u) < distance(upperRing[seam].u)) seam = index;
+      });
+
+      const count = upperRing.length;
+      const upper: ParamPoint[] = [];
+      for (let i = 0; i <= count; i++) {
+        const index = seam + i;
+        const p = upperRing[index % count];
+        upper.push({ ...p, u: p.u + (index >= count ? period : 0) });
+      }
+      const shift = Math.round((start - upper[0].u) / period) * period;
+      outer = [...lower, ...upper.reverse().map(p => ({ ...p, u: p.u + shift }))];
+    } else if (winding.length > 2) {
+      return null;
+    }
+
+    if (!outer) {
+      if (polygons.length === 0 || polygons.every(polygon => Math.abs(polygonArea(polygon)) < GEOMETRY_EPSILON)) {
+        // A sphere bounded only by its seam is the full sphere
+        if (surface.poleAbove === undefined || surface.poleBelow === undefined || period === 0) return null;
+        const start = polygons.length > 0 ? polygons[0][0].u : 0;
+        outer = this.fullDomain(surface, start);
+        polygons.length = 0;
+      } else {
+        let largest = 0;
+        polygons.forEach((polygon, index) => {
+          if (Math.abs(polygonArea(polygon)) > Math.abs(polygonArea(polygons[largest]))) largest = index;
+        });
+        outer = polygons.splice(largest, 1)[0];
+      }
+    }
+
+    // Move holes into the same period as the outer loop
+    const centre = (points: ParamPoint[]) => points.reduce((sum, p) => sum + p.u, 0) / points.length;
+    const outerCentre = centre(outer);
+    const holes = polygons.map(hole => {
+      const shift = period > 0 ? Math.round((outerCentre - centre(hole)) / period) * period : 0;
+      return shift === 0 ? hole : hole.map(p => ({ ...p, u: p.u + shift }));
+    });
+
+    return this.triangulateDomain(surface, outer, holes, sameSense);
+  }
+
+  private fullDomain(surface: ParamSurface, start: number): ParamPoint[] {
+    const period = surface.periodU;
+    const bottom = surface.poleBelow as number;
+    const top = surface.poleAbove as number;
+    const segments = Math.max(2, Math.ceil(Math.PI / segmentAngle(surface.radius, this.tolerance, this.maxAngle)));
+    const points: ParamPoint[] = [];
+    const add = (u: number, v: number) => points.push({ u, v, point: surface.evaluate(u, v) });
+
+    for (let i = 0; i < segments; i++) add(start, bottom + ((top - bottom) * i) / segments);
+    for (let i = 0; i < segments; i++) add(start + (period * i) / segments, top);
+    for (let i = 0; i < segments; i++) add(start + period, top - ((top - bottom) * i) / segments);
+    for (let i = 0; i < segments; i++) add(start + period - (period * i) / segments, bottom);
+    return points;
+  }
+
+  /**
+   * Ear-clip the domain, then split interior edges until they follow the surface
+   */
+  private triangulateDomain(
+    surface: ParamSurface,
+    outer: ParamPoint[],
+    holes: ParamPoint[][],
+    sameSense: boolean
+  ): number[] {
+    const clean = (points: ParamPoint[]) =>
+      points.filter((p, index) => {
+        const next = points[(index + 1) % points.length];
+        return points.length < 2 || Math.abs(p.u - next.u) > GEOMETRY_EPSILON || Math.abs(p.v - next.v) > GEOMETRY_EPSILON;
+      });
+    const contour = clean(outer);
+    const holeLoops = holes.map(clean).filter(hole => hole.length >= 3);
+    if (contour.length < 3) return [];
+
+    const vertices: ParamPoint[] = [...contour];
+    holeLoops.forEach(hole => vertices.push(...hole));
+
+    // Boundary edges are never split, so they match the neighbouring faces
+    const fixed = new Set<string>();
+    const key = (a: number, b: number) => (a < b ? `${a}_${b}` : `${b}_${a}`);
+    let offset = 0;
+    [contour, ...holeLoops].forEach(loop => {
+      loop.forEach((_, index) => fixed.add(key(offset + index, offset + ((index + 1) % loop.length))));
+      offset += loop.length;
+    });
+
+    const toVector = (p: ParamPoint) => new THREE.Vector2(p.u, p.v);
+    const faces = THREE.ShapeUtils.triangulateShape(contour.map(toVector), holeLoops.map(hole => hole.map(toVector)));
+
+    const triangles = faces.map(face => face.slice());
+
+    if (isFinite(surface.radius)) {
+      // Interior edges may deviate as much as the boundary segments of the same radius
+      const step = segmentAngle(surface.radius, this.tolerance, this.maxAngle);
+      const tolerance = 1.5 * surface.radius * (1 - Math.cos(step / 2));
+      const minLength = surface.radius * MIN_SEGMENT_ANGLE;
+
+      refineTriangulation(vertices, triangles, fixed, (pa, pb) => {
+        const u = (pa.u + pb.u) / 2;
+        const v = (pa.v + pb.v) / 2;
+        const point = surface.evaluate(u, v);
+        const chordError = point.distanceTo(pa.point.clone().add(pb.point).multiplyScalar(0.5));
+        const paramLength = Math.hypot(pa.u - pb.u, pa.v - pb.v);
+        return chordError > tolerance && paramLength > minLength ? { u, v, point } : null;
+      });
+    }
+
+    // The (u, v) frame follows the surface normal, the face normal may be reversed
+    const result: number[] = [];
+    triangles.forEach(([a, b, c]) => {
+      const pa = vertices[a];
+      const pb = vertices[b];
+      const pc = vertices[c];
+      const area = (pb.u - pa.u) * (pc.v - pa.v) - (pc.u - pa.u) * (pb.v - pa.v);
+      if (area === 0) return;
+      const corners = (area > 0) === sameSense ? [pa, pb, pc] : [pa, pc, pb];
+      corners.forEach(({ point }) => result.push(point.x, point.y, point.z));
+    });
+    return result;
+  }
+
+  // ----- solids -----
+
+  private shellFaces(shellId: number | undefined): { faces: number[]; flip: boolean } {
+    const oriented = this.record(shellId, 'ORIENTED_CLOSED_SHELL') || this.record(shellId, 'ORIENTED_OPEN_SHELL');
+    if (oriented) {
+      const inner = this.shellFaces(refId(oriented.args[2]));
+      return { faces: inner.faces, flip: inner.flip !== (oriented.args[3] === false) };
+    }
+    const shell = this.recordOf(shellId, ['CLOSED_SHELL', 'OPEN_SHELL']);
+    return { faces: refList(shell?.args[1]), flip: false };
+  }
+
+  /**
+   * Tessellate a solid in the coordinates of its representation
+   */
+  solidMesh(solidId: number): TriangleMesh {
+    const cached = this.solidCache.get(solidId);
+    if (cached) return cached;
+
+    const record = this.recordOf(solidId, SOLID_TYPES);
+    const shells: (number | undefined)[] = [];
+    if (record?.type === 'SHELL_BASED_SURFACE_MODEL') {
+      shells.push(...refList(record.args[1]));
+    } else if (record) {
+      shells.push(refId(record.args[1]));
+      if (record.type === 'BREP_WITH_VOIDS') shells.push(...refList(record.args[2]));
+    }
+
+    const positions: number[] = [];
+    shells.forEach(shellId => {
+      const { faces, flip } = this.shellFaces(shellId);
+      faces.forEach(faceId => this.tessellateFace(faceId, positions, flip));
+    });
+
+    const mesh = weldTriangles(positions);
+    this.solidCache.set(solidId, mesh);
+    return mesh;
+  }
+
+  /**
+   * Colour assigned to an item through STYLED_ITEM presentation styles
+   */
+  itemColor(itemId: number): string | undefined {
+    if (!this.colorCache) {
+      const colors = new Map<number, string>();
+      this.entities.forEach(entity => {
+        const styled = entity.records.find(r => r.type === 'STYLED_ITEM' || r.type === 'OVER_RIDING_STYLED_ITEM');
+        const item = refId(styled?.args[2]);
+        if (!styled || item === undefined || colors.has(item)) return;
+        const color = this.findColor(styled.args[1], 0);
+        if (color) colors.set(item, color);
+      });
+      this.colorCache = colors;
+    }
+    return this.colorCache.get(itemId);
+  }
+
+  private findColor(value: StepValue | undefined, depth: number): string | undefined {
+    if (depth > 8 || value === null || value === undefined) return undefined;
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        const color = this.findColor(item, depth + 1);
+        if (color) return color;
+      }
+      return undefined;
+    }
+    if (typeof value === 'object' && 'args' in value) return this.findColor(value.args, depth + 1);
+
+    const id = refId(value);
+    const record = this.record(id);
+    if (!record) return undefined;
+    if (record.type === 'COLOUR_RGB') {
+      const [r, g, b] = record.args.slice(1).map(numberValue);
+      const channel = (c: number) => Math.round(Math.max(0, Math.min(1, c)) * 255).toString(16).padStart(2, '0');
+      return `#${channel(r)}${channel(g)}${channel(b)}`;
+    }
+    if (record.type === 'DRAUGHTING_PRE_DEFINED_COLOUR') {
+      return PREDEFINED_COLORS[stringValue(record.args[0]).toLowerCase()];
+    }
+    return this.findColor(record.args, depth + 1);
+  }
+
+  // ----- product structure -----
+
+  solidsOfRepresentation(repId: number): number[] {
+    const record = this.record(repId);
+    return refList(record?.args[1]).filter(item => this.recordOf(item, SOLID_TYPES) !== undefined);
+  }
+
+  /**
+   * Representations connected to `repId` without a transformation
+   */
+  connectedRepresentations(repId: number, links: Map<number, number[]>): number[] {
+    const visited = new Set<number>([repId]);
+    const queue = [repId];
+    while (queue.length > 0) {
+      const current = queue.shift() as number;
+      (links.get(current) || []).forEach(next => {
+        if (visited.has(next)) return;
+        visited.add(next);
+        queue.push(next);
+      });
+    }
+    const result: number[] = [];
+    visited.forEach(id => result.push(id));
+    return result;
+  }
+
+  productName(productDefinitionId: number | undefined): string {
+    const definition = this.record(productDefinitionId, 'PRODUCT_DEFINITION');
+    const formation = this.entities.get(refId(definition?.args[2]) ?? -1)?.records[0];
+    const product = this.record(refId(formation?.args[2]), 'PRODUCT');
+    return stringValue(product?.args[1]) || stringValue(product?.args[0]);
+  }
+
+  readStructure(): StepSolid[] {
+    // Representation links without placement (e.g. product shape to its B-rep)
+    const links = new Map<number, number[]>();
+    const link = (a: number, b: number) => {
+      links.set(a, [...(links.get(a) || []), b]);
+      links.set(b, [...(links.get(b) || []), a]);
+    };
+    this.entities.forEach(entity => {
+      const relationship = entity.records.find(r =>
+        r.type === 'SHAPE_REPRESENTATION_RELATIONSHIP' || r.type === 'REPRESENTATION_RELATIONSHIP'
+      );
+      const transformed = entity.records.some(r => r.type === 'REPRESENTATION_RELATIONSHIP_WITH_TRANSFORMATION');
+      const rep1 = refId(relationship?.args[2]);
+      const rep2 = refId(relationship?.args[3]);
+      if (relationship && !transformed && rep1 !== undefined && rep2 !== undefined) link(rep1, rep2);
+    });
+
+    // Shape representations of each product definition
+    const productShapes = new Map<number, number[]>();
+    this.findAll('SHAPE_DEFINITION_REPRESENTATION').forEach(entity => {
+      const args = entity.records[0].args;
+      const shape = this.record(refId(args[0]), 'PRODUCT_DEFINITION_SHAPE');
+      const definition = refId(shape?.args[2]);
+      const rep = refId(args[1]);
+      if (definition === undefined || rep === undefined || !this.record(definition, 'PRODUCT_DEFINITION')) return;
+      productShapes.set(definition, [...(productShapes.get(definition) || []), rep]);
+    });
+
+    const representationsOf = (definition: number) => {
+      const reps = new Set<number>();
+      (productShapes.get(definition) || []).forEach(rep =>
+        this.connectedRepresentations(rep, links).forEach(id => reps.add(id))
+      );
+      return reps;
+    };
+
+    // Assembly occurrences with the placement of the component in its parent
+    const children = new Map<number, { definition: number; transform: THREE.Matrix4 }[]>();
+    const componentIds = new Set<number>();
+    this.findAll('CONTEXT_DEPENDENT_SHAPE_REPRESENTATION').forEach(entity => {
+      const args = entity.records[0].args;
+      const relationship = this.entities.get(refId(args[0]) ?? -1);
+      const shape = this.record(refId(args[1]), 'PRODUCT_DEFINITION_SHAPE');
+      const usage = this.entities.get(refId(shape?.args[2]) ?? -1)?.records[0];
+      const parent = refId(usage?.args[3]);
+      const child = refId(usage?.args[4]);
+      if (!relationship || parent === undefined || child === undefined) return;
+
+      const base = relationship.records.find(r => r.type === 'REPRESENTATION_RELATIONSHIP');
+      const withTransform = relationship.records.find(r => r.type === 'REPRESENTATION_RELATIONSHIP_WITH_TRANSFORMATION');
+      const itemTransform = this.record(refId(withTransform?.args[0]), 'ITEM_DEFINED_TRANSFORMATION');
+      let transform = new THREE.Matrix4();
+
+      if (itemTransform) {
+        const from = frameMatrix(this.frame(refId(itemTransform.args[2])));
+        const to = frameMatrix(this.frame(refId(itemTransform.args[3])));
+        // rep_1 should be the component, some exporters swap the two
+        const componentFirst = representationsOf(child).has(refId(base?.args[2]) ?? -1) ||
+          !representationsOf(child).has(refId(base?.args[3]) ?? -1);
+        transform = componentFirst
+          ? to.multiply(from.invert())
+          : from.multiply(to.invert());
+      }
+
+      children.set(parent, [...(children.get(parent) || []), { definition: child, transform }]);
+      componentIds.add(child);
+    });
+
+    const solids: StepSolid[] = [];
+    const assemblyCounts = new Map<string, number>();
+
+    const visit = (definition: number, transform: THREE.Matrix4, assembly: string | undefined, path: number[]) => {
+      if (path.indexOf(definition) >= 0) return;
+      const name = this.productName(definition) || `Part ${definition}`;
+
+      const solidIds: number[] = [];
+      representationsOf(definition).forEach(rep => solidIds.push(...this.solidsOfRepresentation(rep)));
+      solidIds.forEach((solidId, index) => {
+        const solidName = stringValue(this.record(solidId)?.args[0]);
+        solids.push({
+          ...this.placeSolid(solidId, transform),
+          name: solidIds.length > 1 ? `${name} - ${solidName || index + 1}` : name,
+          ...(assembly ? { assembly } : {})
+        });
+      });
+
+      const components = children.get(definition) || [];
+      if (components.length === 0) return;
+
+      // Each occurrence of a sub-assembly gets its own group
+      const count = (assemblyCounts.get(name) || 0) + 1;
+      assemblyCounts.set(name, count);
+      const occurrence = count > 1 ? `${name} (${count})` : name;
+      components.forEach(component =>
+        visit(component.definition, transform.clone().multiply(component.transform), occurrence, [...path, definition])
+      );
+    };
+
+    const roots = new Set<number>();
+    productShapes.forEach((_, definition) => roots.add(definition));
+    children.forEach((_, definition) => roots.add(definition));
+    roots.forEach(definition => {
+      if (!componentIds.has(definition)) visit(definition, new THREE.Matrix4(), undefined, []);
+    });
+
+    // Geometry without product structure
+    if (solids.length === 0) {
+      SOLID_TYPES.forEach(type =>
+        this.findAll(type).forEach(entity => {
+          const solidName = stringValue(entity.records.find(r => r.type === type)?.args[0]);
+          solids.push({ ...this.placeSolid(entity.id, new THREE.Matrix4()), name: solidName || `STEP Solid ${solids.length + 1}` });
+        })
+      );
+    }
+
+    return solids.filter(solid => solid.indices.length > 0);
+  }
+
+  private placeSolid(solidId: number, transform: THREE.Matrix4): TriangleMesh {
+    const mesh = this.solidMesh(solidId);
+    const positions = mesh.positions.slice();
+    const vector = new THREE.Vector3();
+    for (let i = 0; i < positions.length; i += 3) {
+      vector.set(positions[i], positions[i + 1], positions[i + 2]).applyMatrix4(transform);
+      positions[i] = vector.x;
+      positions[i + 1] = vector.y;
+      positions[i + 2] = vector.z;
+    }
+
+    // Mirroring placements turn the triangles inside out
+    const indices = transform.determinant() < 0
+      ? mesh.indices.map((_, i) => mesh.indices[i - (i % 3) + [0, 2, 1][i % 3]])
+      : mesh.indices.slice();
+
+    const color = this.itemColor(solidId);
+    return { positions, indices, ...(color ? { color } : {}) };
+  }
+}
+
+/**
+ * Parse a STEP file and tessellate its solids into meshes in millimetres
+ */
+export function parseSTEP(content: string, options: StepImportOptions = {}): StepImportResult {
+  const reader = new StepReader(parseExchangeStructure(content), options);
+  const solids = reader.readStructure();
+
+  if (solids.length === 0) {
+    throw new Error('The STEP file does not contain any solid geometry');
+  }
+
+  return { solids, unitScale: reader.lengthScale, approximatedFaces: reader.approximatedFaces };
+}
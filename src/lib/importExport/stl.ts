@@ -0,0 +1,193 @@
+import { TriangleMesh, triangleNormal, weldTriangles } from './tessellation';
+
+/**
+ * STL reader and writer for both the ASCII and the binary variant.
+ *
+ * Imported triangles are welded into indexed meshes so they can be edited,
+ * sliced and meshed for simulation. Every `solid` block of an ASCII file
+ * becomes a separate mesh.
+ */
+
+export interface StlSolid extends TriangleMesh {
+  name: string;
+}
+
+const BINARY_HEADER_SIZE = 80;
+const BINARY_TRIANGLE_SIZE = 50;
+
+/**
+ * Binary files can also start with "solid", so the size check is authoritative
+ */
+export function isBinarySTL(buffer: ArrayBuffer): boolean {
+  if (buffer.byteLength < BINARY_HEADER_SIZE + 4) return false;
+
+  const view = new DataView(buffer);
+  const triangleCount = view.getUint32(BINARY_HEADER_SIZE, true);
+  if (BINARY_HEADER_SIZE + 4 + triangleCount * BINARY_TRIANGLE_SIZE === buffer.byteLength) {
+    return true;
+  }
+
+  const head = new TextDecoder().decode(new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 512)));
+  return !/^\s*solid/i.test(head) || !/facet|endsolid/i.test(head);
+}
+
+function parseBinarySTL(buffer: ArrayBuffer): StlSolid[] {
+  const view = new DataView(buffer);
+  const triangleCount = view.getUint32(BINARY_HEADER_SIZE, true);
+  const expectedSize = BINARY_HEADER_SIZE + 4 + triangleCount * BINARY_TRIANGLE_SIZE;
+  if (buffer.byteLength < expectedSize) {
+    throw new Error(`Truncated binary STL: expected ${expectedSize} bytes, got ${buffer.byteLength}`);
+  }
+
+  const headerBytes = new Uint8Array(buffer, 0, BINARY_HEADER_SIZE);
+  const header = new TextDecoder().decode(headerBytes);
+  const positions = new Float32Array(triangleCount * 9);
+
+  for (let i = 0; i < triangleCount; i++) {
+    // Skip the 12 byte facet normal, it is recomputed from the winding
+    const offset = BINARY_HEADER_SIZE + 4 + i * BINARY_TRIANGLE_SIZE + 12;
+    for (let j = 0; j < 9; j++) {
+      positions[i * 9 + j] = view.getFloat32(offset + j * 4, true);
+    }
+  }
+
+  const name = header.replace(/^solid\s*/i, '').replace(/\0/g, '').trim() || 'STL Mesh';
+  return [{ ...weldTriangles(positions), name, color: parseHeaderColor(headerBytes) }];
+}
+
+/**
+ * Materialise/VisCAM files store a default colour as "COLOR=" followed by RGBA bytes
+ */
+function parseHeaderColor(header: Uint8Array): string | undefined {
+  // Byte by byte: the colour bytes are binary and would not survive decoding as text
+  const marker = 'COLOR=';
+  let index = -1;
+  for (let i = 0; i + marker.length + 3 <= header.length && index < 0; i++) {
+    let found = true;
+    for (let j = 0; j < marker.length && found; j++) found = header[i + j] === marker.charCodeAt(j);
+    if (found) index = i;
+  }
+  if (index < 0) return undefined;
+
+  const channel = (offset: number) => header[index + marker.length + offset].toString(16).padStart(2, '0');
+  return `#${channel(0)}${channel(1)}${channel(2)}`;
+}
+
+function parseAsciiSTL(content: string): StlSolid[] {
+  const solids: StlSolid[] = [];
+  const solidPattern = /solid\s*([^\r\n]*)([\s\S]*?)endsolid[^\r\n]*/gi;
+  const vertexPattern = /vertex\s+([-+\d.eE]+)\s+([-+\d.eE]+)\s+([-+\d.eE]+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = solidPattern.exec(content)) !== null) {
+    const positions: number[] = [];
+    let vertex: RegExpExecArray | null;
+    vertexPattern.lastIndex = 0;
+
+    while ((vertex = vertexPattern.exec(match[2])) !== null) {
+      positions.push(parseFloat(vertex[1]), parseFloat(vertex[2]), parseFloat(vertex[3]));
+    }
+
+    if (positions.length % 9 !== 0) {
+      throw new Error(`Invalid ASCII STL: solid "${match[1].trim()}" has an incomplete facet`);
+    }
+    if (positions.length > 0) {
+      solids.push({ ...weldTriangles(positions), name: match[1].trim() || `STL Mesh ${solids.length + 1}` });
+    }
+  }
+
+  return solids;
+}
+
+/**
+ * Parse an STL file, detecting the binary or ASCII variant
+ */
+export function parseSTL(buffer: ArrayBuffer): StlSolid[] {
+  const solids = isBinarySTL(buffer)
+    ? parseBinarySTL(buffer)
+    : parseAsciiSTL(new TextDecoder().decode(new Uint8Array(buffer)));
+
+  if (solids.length === 0 || solids.every(solid => solid.indices.length === 0)) {
+    throw new Error('The STL file does not contain any triangles');
+  }
+
+  return solids;
+}
+
+function formatFloat(value: number): string {
+  return value.toExponential(6);
+}
+
+/**
+ * Write meshes as an ASCII STL, one `solid` block per mesh
+ */
+export function writeAsciiSTL(meshes: TriangleMesh[], name = 'cadcam'): string {
+  const lines: string[] = [];
+
+  const writeSolid = (mesh: TriangleMesh, solidName: string) => {
+    lines.push(`solid ${solidName}`);
+    for (let i = 0; i < mesh.indices.length; i += 3) {
+      const a = mesh.indices[i];
+      const b = mesh.indices[i + 1];
+      const c = mesh.indices[i + 2];
+      const normal = triangleNormal(mesh.positions, a, b, c);
+      lines.push(`  facet normal ${normal.map(formatFloat).join(' ')}`);
+      lines.push('    outer loop');
+      [a, b, c].forEach(index => {
+        const p = mesh.positions;
+        lines.push(`      vertex ${formatFloat(p[index * 3])} ${formatFloat(p[index * 3 + 1])} ${formatFloat(p[index * 3 + 2])}`);
+      });
+      lines.push('    endloop');
+      lines.push('  endfacet');
+    }
+    lines.push(`endsolid ${solidName}`);
+  };
+
+  if (meshes.length === 0) {
+    lines.push(`solid ${name}`, `endsolid ${name}`);
+  }
+  meshes.forEach((mesh, index) => {
+    const solidName = (mesh.name || `${name}_${index + 1}`).replace(/\s+/g, '_');
+    writeSolid(mesh, solidName);
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Write meshes into a single binary STL
+ */
+export function writeBinarySTL(meshes: TriangleMesh[], name = 'cadcam'): ArrayBuffer {
+  const triangleCount = meshes.reduce((count, mesh) => count + mesh.indices.length / 3, 0);
+  const buffer = new ArrayBuffer(BINARY_HEADER_SIZE + 4 + triangleCount * BINARY_TRIANGLE_SIZE);
+  const view = new DataView(buffer);
+
+  const header = `Binary STL exported by CAD/CAM FUN - ${name}`.slice(0, BINARY_HEADER_SIZE);
+  for (let i = 0; i < header.length; i++) {
+    view.setUint8(i, header.charCodeAt(i) & 0x7f);
+  }
+  view.setUint32(BINARY_HEADER_SIZE, triangleCount, true);
+
+  let offset = BINARY_HEADER_SIZE + 4;
+  meshes.forEach(mesh => {
+    const p = mesh.positions;
+    for (let i = 0; i < mesh.indices.length; i += 3) {
+      const corners = [mesh.indices[i], mesh.indices[i + 1], mesh.indices[i + 2]];
+      const normal = triangleNormal(p, corners[0], corners[1], corners[2]);
+      normal.forEach(value => {
+        view.setFloat32(offset, value, true);
+        offset += 4;
+      });
+      corners.forEach(index => {
+        view.setFloat32(offset, p[index * 3], true);
+        view.setFloat32(offset + 4, p[index * 3 + 1], true);
+        view.setFloat32(offset + 8, p[index * 3 + 2], true);
+        offset += 12;
+      });
+      view.setUint16(offset, 0, true);
+      offset += 2;
+    }
+  });
+
+  return buffer;
+}
@@ -0,0 +1,577 @@
+import * as THREE from 'three';
+import { Element } from 'src/store/elementsStore';
+
+/**
+ * Triangulation of CAD elements into closed, consistently oriented meshes.
+ *
+ * Geometry is built with the same Three.js primitives and placement rules used
+ * by CADCanvas, then welded so that every edge is shared by exactly two
+ * triangles. The result is what file exporters, slicers and simulation
+ * meshers consume.
+ */
+
+export interface TriangleMesh {
+  /** Flat vertex coordinates: x0, y0, z0, x1, y1, z1, ... */
+  positions: number[];
+  /** Triangle vertex indices, counter-clockwise when seen from outside */
+  indices: number[];
+  /** Source element, when the mesh was generated from one */
+  elementId?: string;
+  name?: string;
+  color?: string;
+}
+
+export interface TessellationOptions {
+  /** Segments used around full circles when the element does not define its own */
+  segments?: number;
+  /** Distance under which vertices are merged */
+  weldTolerance?: number;
+}
+
+const DEFAULT_SEGMENTS = 48;
+const DEFAULT_WELD_TOLERANCE = 1e-6;
+
+// Element types that describe closed volumes and can be tessellated
+export const SOLID_ELEMENT_TYPES = [
+  'cube',
+  'sphere',
+  'cylinder',
+  'cone',
+  'torus',
+  'pyramid',
+  'prism',
+  'hemisphere',
+  'ellipsoid',
+  'capsule',
+  'extrusion',
+  'revolution',
+  'lathe',
+  'tube',
+  'mesh',
+  'group'
+];
+
+/**
+ * Merge coincident vertices and drop degenerate triangles
+ */
+export function weldTriangles(
+  positions: ArrayLike<number>,
+  indices?: ArrayLike<number>,
+  tolerance = DEFAULT_WELD_TOLERANCE
+): TriangleMesh {
+  const inverse = 1 / tolerance;
+  const lookup = new Map<string, number>();
+  const remap = new Array<number>(positions.length / 3);
+  const welded: number[] = [];
+
+  for (let i = 0; i < positions.length / 3; i++) {
+    const x = positions[i * 3];
+    const y = positions[i * 3 + 1];
+    const z = positions[i * 3 + 2];
+    const key = `${Math.round(x * inverse)}_${Math.round(y * inverse)}_${Math.round(z * inverse)}`;
+    let index = lookup.get(key);
+    if (index === undefined) {
+      index = welded.length / 3;
+      welded.push(x, y, z);
+      lookup.set(key, index);
+    }
+    remap[i] = index;
+  }
+
+  const sourceIndices = indices ?? Array.from({ length: positions.length / 3 }, (_, i) => i);
+  const triangles: number[] = [];
+  for (let i = 0; i + 2 < sourceIndices.length; i += 3) {
+    const a = remap[sourceIndices[i]];
+    const b = remap[sourceIndices[i + 1]];
+    const c = remap[sourceIndices[i + 2]];
+    if (a === b || b === c || a === c) continue;
+    if (triangleArea(welded, a, b, c) < tolerance * tolerance) continue;
+    triangles.push(a, b, c);
+  }
+
+  return compactMesh({ positions: welded, indices: triangles });
+}
+
+function triangleArea(positions: number[], a: number, b: number, c: number): number {
+  const abx = positions[b * 3] - positions[a * 3];
+  const aby = positions[b * 3 + 1] - positions[a * 3 + 1];
+  const abz = positions[b * 3 + 2] - positions[a * 3 + 2];
+  const acx = positions[c * 3] - positions[a * 3];
+  const acy = positions[c * 3 + 1] - positions[a * 3 + 1];
+  const acz = positions[c * 3 + 2] - positions[a * 3 + 2];
+  const cx = aby * acz - abz * acy;
+  const cy = abz * acx - abx * acz;
+  const cz = abx * acy - aby * acx;
+  return Math.sqrt(cx * cx + cy * cy + cz * cz) / 2;
+}
+
+// Remove vertices that are no longer referenced by any triangle
+function compactMesh(mesh: TriangleMesh): TriangleMesh {
+  const used = new Map<number, number>();
+  const positions: number[] = [];
+  const indices = mesh.indices.map(index => {
+    let mapped = used.get(index);
+    if (mapped === undefined) {
+      mapped = positions.length / 3;
+      positions.push(mesh.positions[index * 3], mesh.positions[index * 3 + 1], mesh.positions[index * 3 + 2]);
+      used.set(index, mapped);
+    }
+    return mapped;
+  });
+  return { ...mesh, positions, indices };
+}
+
+/**
+ * Signed volume of a closed mesh, positive when triangles face outwards
+ */
+export function signedVolume(mesh: TriangleMesh): number {
+  const p = mesh.positions;
+  let volume = 0;
+  for (let i = 0; i < mesh.indices.length; i += 3) {
+    const a = mesh.indices[i] * 3;
+    const b = mesh.indices[i + 1] * 3;
+    const c = mesh.indices[i + 2] * 3;
+    volume +=
+      p[a] * (p[b + 1] * p[c + 2] - p[b + 2] * p[c + 1]) -
+      p[a + 1] * (p[b] * p[c + 2] - p[b + 2] * p[c]) +
+      p[a + 2] * (p[b] * p[c + 1] - p[b + 1] * p[c]);
+  }
+  return volume / 6;
+}
+
+/**
+ * Count edges that are not shared by exactly two triangles.
+ * A watertight mesh has no open or non-manifold edges.
+ */
+export function countOpenEdges(mesh: TriangleMesh): number {
+  const edges = new Map<string, number>();
+  for (let i = 0; i < mesh.indices.length; i += 3) {
+    for (let j = 0; j < 3; j++) {
+      const a = mesh.indices[i + j];
+      const b = mesh.indices[i + ((j + 1) % 3)];
+      const key = a < b ? `${a}_${b}` : `${b}_${a}`;
+      edges.set(key, (edges.get(key) || 0) + 1);
+    }
+  }
+
+  let open = 0;
+  edges.forEach(count => {
+    if (count !== 2) open++;
+  });
+  return open;
+}
+
+function orientOutwards(mesh: TriangleMesh): TriangleMesh {
+  if (signedVolume(mesh) >= 0) return mesh;
+
+  const indices = mesh.indices.slice();
+  for (let i = 0; i < indices.length; i += 3) {
+    const swap = indices[i + 1];
+    indices[i + 1] = indices[i + 2];
+    indices[i + 2] = swap;
+  }
+  return { ...mesh, indices };
+}
+
+function geometryToMesh(geometry: THREE.BufferGeometry, matrix: THREE.Matrix4, tolerance: number): TriangleMesh {
+  geometry.applyMatrix4(matrix);
+  const position = geometry.getAttribute('position');
+  const index = geometry.getIndex();
+  const mesh = weldTriangles(position.array, index ? index.array : undefined, tolerance);
+  geometry.dispose();
+  return mesh;
+}
+
+function placementMatrix(element: Element, rotation?: THREE.Euler): THREE.Matrix4 {
+  const matrix = new THREE.Matrix4();
+  const quaternion = new THREE.Quaternion();
+  if (rotation) quaternion.setFromEuler(rotation);
+  matrix.compose(
+    new THREE.Vector3(element.x || 0, element.y || 0, element.z || 0),
+    quaternion,
+    new THREE.Vector3(1, 1, 1)
+  );
+  return matrix;
+}
+
+function profileToPoints(profile: { x: number; y: number }[]): THREE.Vector2[] {
+  return profile.map(point => new THREE.Vector2(point.x || 0, point.y || 0));
+}
+
+/**
+ * Revolve a profile around the local Y axis into a closed solid.
+ * Open profiles are closed against the axis, partial revolutions get end caps.
+ */
+function buildRevolvedGeometry(
+  profile: THREE.Vector2[],
+  segments: number,
+  phiStart: number,
+  phiLength: number
+): THREE.BufferGeometry {
+  let points = profile.map(p => new THREE.Vector2(Math.abs(p.x), p.y));
+  const first = points[0];
+  const last = points[points.length - 1];
+  const closed = first.distanceTo(last) < 1e-9;
+
+  if (!closed) {
+    points = [new THREE.Vector2(0, first.y), ...points, new THREE.Vector2(0, last.y)];
+  } else {
+    points = points.slice(0, -1).concat([points[0].clone()]);
+  }
+
+  const lathe = new THREE.LatheGeometry(points, segments, phiStart, phiLength);
+  if (phiLength >= Math.PI * 2 - 1e-9) return lathe;
+
+  // Cap both ends of a partial revolution with the triangulated profile
+  const capPoints = closed ? points.slice(0, -1) : points;
+  const triangles = THREE.ShapeUtils.triangulateShape(capPoints, []);
+  const positions: number[] = Array.from(lathe.getAttribute('position').array as ArrayLike<number>);
+  const index = lathe.getIndex();
+  const indices: number[] = index ? Array.from(index.array as ArrayLike<number>) : [];
+
+  [phiStart, phiStart + phiLength].forEach((phi, capIndex) => {
+    const offset = positions.length / 3;
+    const sin = Math.sin(phi);
+    const cos = Math.cos(phi);
+    capPoints.forEach(p => positions.push(p.x * sin, p.y, p.x * cos));
+    triangles.forEach(([a, b, c]) => {
+      if (capIndex === 0) indices.push(offset + a, offset + b, offset + c);
+      else indices.push(offset + a, offset + c, offset + b);
+    });
+  });
+
+  lathe.dispose();
+  const capped = new THREE.BufferGeometry();
+  capped.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  capped.setIndex(indices);
+  return capped;
+}
+
+function buildExtrusionGeometry(element: Element, segments: number): THREE.BufferGeometry | null {
+  const shape = new THREE.Shape();
+
+  if (element.shape === 'rect') {
+    const width = element.width || 50;
+    const height = element.height || 30;
+    shape.moveTo(-width / 2, -height / 2);
+    shape.lineTo(width / 2, -height / 2);
+    shape.lineTo(width / 2, height / 2);
+    shape.lineTo(-width / 2, height / 2);
+    shape.closePath();
+  } else if (element.shape === 'circle') {
+    shape.absarc(0, 0, element.radius || 25, 0, Math.PI * 2, false);
+  } else if (element.profile && element.profile.length >= 3) {
+    shape.moveTo(element.profile[0].x, element.profile[0].y);
+    for (let i = 1; i < element.profile.length; i++) {
+      shape.lineTo(element.profile[i].x, element.profile[i].y);
+    }
+    shape.closePath();
+  } else {
+    return null;
+  }
+
+  return new THREE.ExtrudeGeometry(shape, {
+    depth: element.depth || 10,
+    bevelEnabled: element.bevel || false,
+    bevelThickness: element.bevelThickness || 1,
+    bevelSize: element.bevelSize || 1,
+    bevelSegments: element.bevelSegments || 1,
+    curveSegments: Math.max(12, Math.round(segments / 2))
+  });
+}
+
+function buildTubeGeometry(element: Element, segments: number): THREE.BufferGeometry | null {
+  const path: { x: number; y: number; z?: number }[] = element.path || element.points;
+  if (!path || path.length < 2) return null;
+
+  const curve = new THREE.CatmullRomCurve3(path.map(p => new THREE.Vector3(p.x, p.y, p.z || 0)));
+  const radius = element.radius || 0.5;
+  const tubularSegments = element.segments || 64;
+  const radialSegments = element.radialSegments || Math.max(8, Math.round(segments / 4));
+  const tube = new THREE.TubeGeometry(curve, tubularSegments, radius, radialSegments, false);
+
+  // TubeGeometry is open at both ends, close it with triangle fans
+  const positions: number[] = Array.from(tube.getAttribute('position').array as ArrayLike<number>);
+  const index = tube.getIndex();
+  const indices: number[] = index ? Array.from(index.array as ArrayLike<number>) : [];
+  const ring = radialSegments + 1;
+
+  [0, tubularSegments].forEach((segment, capIndex) => {
+    const point = curve.getPointAt(segment / tubularSegments);
+    const center = positions.length / 3;
+    positions.push(point.x, point.y, point.z);
+    for (let j = 0; j < radialSegments; j++) {
+      const a = segment * ring + j;
+      const b = segment * ring + j + 1;
+      if (capIndex === 0) indices.push(center, a, b);
+      else indices.push(center, b, a);
+    }
+  });
+
+  tube.dispose();
+  const capped = new THREE.BufferGeometry();
+  capped.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  capped.setIndex(indices);
+  return capped;
+}
+
+function meshElementToTriangles(element: Element): TriangleMesh | null {
+  if (!Array.isArray(element.vertices) || !Array.isArray(element.faces)) return null;
+
+  const positions: number[] = [];
+  element.vertices.forEach((vertex: { x: number; y: number; z?: number }) => {
+    positions.push(vertex.x, vertex.y, vertex.z || 0);
+  });
+
+  const indices: number[] = [];
+  element.faces.forEach((face: number[]) => {
+    if (!Array.isArray(face) || face.length < 3) return;
+    for (let i = 1; i + 1 < face.length; i++) {
+      indices.push(face[0], face[i], face[i + 1]);
+    }
+  });
+
+  return { positions, indices };
+}
+
+/**
+ * Tessellate a single element into a welded triangle mesh in world coordinates.
+ * Returns null for elements that do not describe a volume (lines, sketches…).
+ */
+export function tessellateElement(element: Element, options: TessellationOptions = {}): TriangleMesh | null {
+  const segments = element.segments || options.segments || DEFAULT_SEGMENTS;
+  const tolerance = options.weldTolerance ?? DEFAULT_WELD_TOLERANCE;
+  const uprightRotation = new THREE.Euler(Math.PI / 2, 0, 0);
+  let geometry: THREE.BufferGeometry | null = null;
+  let matrix = placementMatrix(element);
+
+  switch (element.type) {
+    case 'cube':
+      geometry = new THREE.BoxGeometry(element.width || 1, element.height || 1, element.depth || 1);
+      break;
+
+    case 'sphere':
+      geometry = new THREE.SphereGeometry(element.radius || 1, segments, Math.max(8, Math.round(segments / 2)));
+      break;
+
+    case 'cylinder':
+      geometry = new THREE.CylinderGeometry(element.radius || 1, element.radius || 1, element.height || 1, segments);
+      matrix = placementMatrix(element, uprightRotation);
+      break;
+
+    case 'cone':
+      geometry = new THREE.ConeGeometry(element.radius || 1, element.height || 1, segments);
+      matrix = placementMatrix(element, uprightRotation);
+      break;
+
+    case 'torus':
+      geometry = new THREE.TorusGeometry(
+        element.radius || 1,
+        element.tubeRadius || (element.radius || 1) / 4,
+        element.radialSegments || 16,
+        element.tubularSegments || Math.max(segments, 64)
+      );
+      break;
+
+    case 'pyramid': {
+      const halfWidth = (element.baseWidth || 1) / 2;
+      const halfDepth = (element.baseDepth || 1) / 2;
+      const halfHeight = (element.height || 1) / 2;
+      geometry = new THREE.BufferGeometry();
+      geometry.setAttribute('position', new THREE.Float32BufferAttribute([
+        -halfWidth, -halfHeight, -halfDepth,
+        halfWidth, -halfHeight, -halfDepth,
+        halfWidth, -halfHeight, halfDepth,
+        -halfWidth, -halfHeight, halfDepth,
+        0, halfHeight, 0
+      ], 3));
+      geometry.setIndex([0, 1, 2, 0, 2, 3, 0, 4, 1, 1, 4, 2, 2, 4, 3, 3, 4, 0]);
+      break;
+    }
+
+    case 'prism':
+      geometry = new THREE.CylinderGeometry(element.radius || 1, element.radius || 1, element.height || 1, element.sides || 6);
+      matrix = placementMatrix(element, uprightRotation);
+      break;
+
+    case 'hemisphere': {
+      const radius = element.radius || 1;
+      const rings = Math.max(4, Math.round(segments / 4));
+      const profile = [new THREE.Vector2(0, 0)];
+      for (let i = 0; i <= rings; i++) {
+        const angle = (i / rings) * (Math.PI / 2);
+        profile.push(new THREE.Vector2(radius * Math.cos(angle), radius * Math.sin(angle)));
+      }
+      geometry = buildRevolvedGeometry(profile, segments, 0, Math.PI * 2);
+      if (element.direction === 'down') {
+        matrix = placementMatrix(element, new THREE.Euler(Math.PI, 0, 0));
+      }
+      break;
+    }
+
+    case 'ellipsoid':
+      geometry = new THREE.SphereGeometry(1, segments, Math.max(8, Math.round(segments / 2)));
+      geometry.scale(element.radiusX || 1, element.radiusY || 0.75, element.radiusZ || 0.5);
+      break;
+
+    case 'capsule':
+      geometry = new THREE.CapsuleGeometry(
+        element.radius || 0.5,
+        element.height || 2,
+        element.capSegments || 8,
+        element.radialSegments || 16
+      );
+      if (element.direction === 'x') {
+        matrix = placementMatrix(element, new THREE.Euler(0, 0, Math.PI / 2));
+      } else if (element.direction === 'z') {
+        matrix = placementMatrix(element, uprightRotation);
+      }
+      break;
+
+    case 'extrusion':
+      geometry = buildExtrusionGeometry(element, segments);
+      break;
+
+    case 'revolution':
+    case 'lathe': {
+      const profile: { x: number; y: number }[] = element.type === 'revolution' ? element.profile : element.points;
+      if (!profile || profile.length < 2) return null;
+      geometry = buildRevolvedGeometry(
+        profileToPoints(profile),
+        segments,
+        element.phiStart || 0,
+        element.angle || Math.PI * 2
+      );
+      if (element.axis === 'x') {
+        matrix = placementMatrix(element, new THREE.Euler(0, Math.PI / 2, 0));
+      } else if (element.axis === 'y') {
+        matrix = placementMatrix(element, uprightRotation);
+      }
+      break;
+    }
+
+    case 'tube':
+      geometry = buildTubeGeometry(element, segments);
+      matrix = new THREE.Matrix4();
+      break;
+
+    case 'mesh': {
+      const mesh = meshElementToTriangles(element);
+      if (!mesh) return null;
+      return {
+        ...orientOutwards(weldTriangles(mesh.positions, mesh.indices, tolerance)),
+        elementId: element.id,
+        name: element.name,
+        color: element.color
+      };
+    }
+
+    case 'group': {
+      const children: Element[] = Array.isArray(element.elements) ? element.elements : [];
+      const merged = mergeMeshes(
+        children
+          .map(child => tessellateElement(child, options))
+          .filter((mesh): mesh is TriangleMesh => mesh !== null)
+      );
+      if (merged.indices.length === 0) return null;
+      return { ...merged, elementId: element.id, name: element.name, color: element.color };
+    }
+
+    default:
+      return null;
+  }
+
+  if (!geometry) return null;
+
+  const mesh = orientOutwards(geometryToMesh(geometry, matrix, tolerance));
+  return { ...mesh, elementId: element.id, name: element.name, color: element.color };
+}
+
+/**
+ * Tessellate every solid element, skipping 2D and annotation elements
+ */
+export function tessellateElements(elements: Element[], options: TessellationOptions = {}): TriangleMesh[] {
+  return elements
+    .map(element => tessellateElement(element, options))
+    .filter((mesh): mesh is TriangleMesh => mesh !== null && mesh.indices.length > 0);
+}
+
+/**
+ * Concatenate meshes into a single triangle list (vertices are not shared between parts)
+ */
+export function mergeMeshes(meshes: TriangleMesh[]): TriangleMesh {
+  const positions: number[] = [];
+  const indices: number[] = [];
+
+  meshes.forEach(mesh => {
+    const offset = positions.length / 3;
+    positions.push(...mesh.positions);
+    mesh.indices.forEach(index => indices.push(index + offset));
+  });
+
+  return { positions, indices };
+}
+
+/**
+ * Convert a triangle mesh into the `mesh` element layout rendered by CADCanvas.
+ * Vertices stay in world coordinates; x/y/z and width/height/depth describe the
+ * bounding box so that grouping and selection work like for other elements.
+ */
+export function triangleMeshToElementData(mesh: TriangleMesh): {
+  x: number;
+  y: number;
+  z: number;
+  width: number;
+  height: number;
+  depth: number;
+  vertices: { x: number; y: number; z: number }[];
+  faces: number[][];
+} {
+  const vertices: { x: number; y: number; z: number }[] = [];
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < mesh.positions.length; i += 3) {
+    vertices.push({ x: mesh.positions[i], y: mesh.positions[i + 1], z: mesh.positions[i + 2] });
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], mesh.positions[i + axis]);
+      max[axis] = Math.max(max[axis], mesh.positions[i + axis]);
+    }
+  }
+  if (vertices.length === 0) {
+    min.fill(0);
+    max.fill(0);
+  }
+
+  const faces: number[][] = [];
+  for (let i = 0; i < mesh.indices.length; i += 3) {
+    faces.push([mesh.indices[i], mesh.indices[i + 1], mesh.indices[i + 2]]);
+  }
+
+  return {
+    x: (min[0] + max[0]) / 2,
+    y: (min[1] + max[1]) / 2,
+    z: (min[2] + max[2]) / 2,
+    width: max[0] - min[0],
+    height: max[1] - min[1],
+    depth: max[2] - min[2],
+    vertices,
+    faces
+  };
+}
+
+/**
+ * Compute the unit normal of a triangle
+ */
+export function triangleNormal(positions: ArrayLike<number>, a: number, b: number, c: number): [number, number, number] {
+  const abx = positions[b * 3] - positions[a * 3];
+  const aby = positions[b * 3 + 1] - positions[a * 3 + 1];
+  const abz = positions[b * 3 + 2] - positions[a * 3 + 2];
+  const acx = positions[c * 3] - positions[a * 3];
+  const acy = positions[c * 3 + 1] - positions[a * 3 + 1];
+  const acz = positions[c * 3 + 2] - positions[a * 3 + 2];
+  const nx = aby * acz - abz * acy;
+  const ny = abz * acx - abx * acz;
+  const nz = abx * acy - aby * acx;
+  const length = Math.sqrt(nx * nx + ny * ny + nz * nz) || 1;
+  return [nx / length, ny / length, nz / length];
+}
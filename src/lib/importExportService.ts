@@ -1,4 +1,11 @@
-import { Element } from 'src/store/elementsStore';
+import { v4 as uuidv4 } from 'uuid';
+import { Element, useElementsStore } from 'src/store/elementsStore';
+import { useLayerStore } from 'src/store/layerStore';
+import { parseDXF, writeDXF } from './importExport/dxf';
+import { ObjExportPart, parseOBJ, writeMTL, writeOBJ } from './importExport/obj';
+import { parseSTEP } from './importExport/step';
+import { parseSTL, writeAsciiSTL, writeBinarySTL } from './importExport/stl';
+import { tessellateElements, triangleMeshToElementData } from './importExport/tessellation';
 
 export enum FileFormat {
   DXF = 'dxf',
@@ -10,31 +17,34 @@ export enum FileFormat {
 }
 
 /**
- * Import CAD data from a file
+ * Import CAD data from a file.
+ * Companion files (e.g. the MTL library of an OBJ) can be passed alongside.
  */
-export async function importFile(file: File): Promise<Element[]> {
+export async function importFile(file: File, companionFiles: File[] = []): Promise<Element[]> {
   const extension = file.name.split('.').pop()?.toLowerCase();
-  const format = extension as FileFormat;
+  // .stp is the short extension of STEP files
+  const format = (extension === 'stp' ? FileFormat.STEP : extension) as FileFormat;
   
   if (!format || !Object.values(FileFormat).includes(format)) {
     throw new Error(`Unsupported file format: ${extension}`);
   }
   
-  const fileContent = await readFileContent(file);
+  const buffer = await readFileContent(file);
+  const text = () => new TextDecoder().decode(new Uint8Array(buffer));
   
   switch (format) {
     case FileFormat.DXF:
-      return importDXF(fileContent);
+      return importDXF(text());
     case FileFormat.SVG:
-      return importSVG(fileContent);
+      return importSVG(text());
     case FileFormat.STEP:
-      return importSTEP(fileContent);
+      return importSTEP(text());
     case FileFormat.STL:
-      return importSTL(fileContent);
+      return importSTL(buffer);
     case FileFormat.OBJ:
-      return importOBJ(fileContent);
+      return importOBJ(text(), await readMaterialLibrary(text(), companionFiles));
     case FileFormat.JSON:
-      return importJSON(fileContent);
+      return importJSON(text());
     default:
       throw new Error(`Unsupported file format: ${format}`);
   }
@@ -62,17 +72,78 @@ export function exportFile(elements: Element[], format: FileFormat): string {
   }
 }
 
-// Helper function to read file content
-async function readFileContent(file: File): Promise<string> {
+/**
+ * Add imported elements to the drawing and rebuild the groups declared by the
+ * source file (elements sharing an `importGroup` name)
+ */
+export function addImportedElements(elements: Element[]): string[] {
+  const store = useElementsStore.getState();
+  const ids = store.addElements(elements.map(({ importGroup, ...element }) => element));
+  const groups = new Map<string, string[]>();
+
+  elements.forEach((element, index) => {
+    if (!element.importGroup || !ids[index]) return;
+    const members = groups.get(element.importGroup) || [];
+    members.push(ids[index]);
+    groups.set(element.importGroup, members);
+  });
+
+  groups.forEach((memberIds, name) => {
+    if (memberIds.length < 2) return;
+    const groupId = useElementsStore.getState().groupElements(memberIds);
+    if (groupId) {
+      useElementsStore.getState().updateElement(groupId, { name });
+    }
+  });
+
+  return ids;
+}
+
+/**
+ * Export elements as OBJ together with the MTL library it references
+ */
+export function exportOBJWithMaterials(
+  elements: Element[],
+  baseName = 'cad-drawing'
+): { obj: string; mtl: string } {
+  const parts = getOBJExportParts(elements);
+  return {
+    obj: writeOBJ(parts, `${baseName}.mtl`),
+    mtl: writeMTL(parts)
+  };
+}
+
+/**
+ * Export solid elements to a binary STL, the compact variant preferred by slicers
+ */
+export function exportBinarySTL(elements: Element[]): ArrayBuffer {
+  return writeBinarySTL(tessellateElements(elements));
+}
+
+// Find the MTL library referenced by an OBJ among the companion files
+async function readMaterialLibrary(objContent: string, companionFiles: File[]): Promise<string | undefined> {
+  const mtlFiles = companionFiles.filter(file => file.name.toLowerCase().endsWith('.mtl'));
+  if (mtlFiles.length === 0) return undefined;
+
+  const referenced = (objContent.match(/^mtllib\s+(.+)$/m)?.[1] || '').trim().toLowerCase();
+  const baseName = referenced.split(/[\\/]/).pop();
+  const mtlFile = mtlFiles.find(file => file.name.toLowerCase() === baseName) || mtlFiles[0];
+
+  const buffer = await readFileContent(mtlFile);
+  return new TextDecoder().decode(new Uint8Array(buffer));
+}
+
+// Helper function to read file content, binary-safe so that binary STL survives
+async function readFileContent(file: File): Promise<ArrayBuffer> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = (event) => {
-      resolve(event.target?.result as string);
+      resolve(event.target?.result as ArrayBuffer);
     };
     reader.onerror = (error) => {
       reject(error);
     };
-    reader.readAsText(file);
+    reader.readAsArrayBuffer(file);
   });
 }
 
@@ -80,41 +151,44 @@ async function readFileContent(file: File): Promise<string> {
 // These would be quite complex in a real application
 
 function importDXF(content: string): Element[] {
-  // Use a library like dxf-parser to parse the DXF file
-  // This is a simplified example
-  console.log('Importing DXF file...');
-  
-  // Placeholder implementation
-  return [
-    {
-      id: '1',
-      type: 'line',
-      layerId: 'default',
-      x1: 0,
-      y1: 0,
-      x2: 100,
-      y2: 100,
-      color: '#000000'
-    },
-    {
-      id: '2',
-      type: 'circle',
-      layerId: 'default',
-      x: 50,
-      y: 50,
-      radius: 25,
-      color: '#000000'
+  // Parse with layer names as ids, then map them onto layerStore layers
+  const { layers, elements } = parseDXF(content);
+  const layerIds = new Map<string, string>();
+
+  layers.forEach(dxfLayer => {
+    const { layers: existing, activeLayer, addLayer } = useLayerStore.getState();
+    // DXF layer "0" is the default layer and goes to the active one
+    if (dxfLayer.name === '0') {
+      layerIds.set(dxfLayer.name, activeLayer);
+      return;
     }
-  ];
+
+    let layer = existing.find(l => l.name === dxfLayer.name);
+    if (!layer) {
+      addLayer({
+        name: dxfLayer.name,
+        visible: dxfLayer.visible,
+        locked: dxfLayer.locked,
+        color: dxfLayer.color
+      });
+      layer = useLayerStore.getState().layers.find(l => l.name === dxfLayer.name);
+    }
+    layerIds.set(dxfLayer.name, layer?.id ?? activeLayer);
+  });
+
+  const assignLayer = (element: Element): Element => ({
+    ...element,
+    layerId: layerIds.get(element.layerId) ?? useLayerStore.getState().activeLayer,
+    ...(element.type === 'group' && Array.isArray(element.elements)
+      ? { elements: element.elements.map(assignLayer) }
+      : {})
+  });
+
+  return elements.map(assignLayer);
 }
 
 function exportDXF(elements: Element[]): string {
-  // Generate DXF content from elements
-  // This is a simplified example
-  console.log('Exporting DXF file...');
-  
-  // Placeholder implementation
-  return 'DXF content would go here';
+  return writeDXF(elements, useLayerStore.getState().layers);
 }
 
 function importSVG(content: string): Element[] {
@@ -169,12 +243,28 @@ function exportSVG(elements: Element[]): string {
 }
 
 function importSTEP(content: string): Element[] {
-  // Parse STEP content and convert to elements
-  // Would require a specialized library
-  console.log('Importing STEP file...');
-  
-  // Placeholder implementation
-  return [];
+  const layerId = useLayerStore.getState().activeLayer;
+  const { solids, approximatedFaces } = parseSTEP(content);
+
+  if (approximatedFaces > 0) {
+    console.warn(`STEP import: ${approximatedFaces} faces on unsupported surfaces were approximated from their edges`);
+  }
+
+  // Solids of the same assembly occurrence are grouped, but only when there are several
+  const assemblySizes = new Map<string, number>();
+  solids.forEach(solid => {
+    if (solid.assembly) assemblySizes.set(solid.assembly, (assemblySizes.get(solid.assembly) || 0) + 1);
+  });
+
+  return solids.map(solid => ({
+    id: uuidv4(),
+    type: 'mesh',
+    layerId,
+    name: solid.name,
+    color: solid.color || '#90a4ae',
+    ...triangleMeshToElementData(solid),
+    ...(solid.assembly && (assemblySizes.get(solid.assembly) || 0) > 1 ? { importGroup: solid.assembly } : {})
+  }));
 }
 
 function exportSTEP(elements: Element[]): string {
@@ -186,36 +276,87 @@ function exportSTEP(elements: Element[]): string {
   return 'STEP content would go here';
 }
 
-function importSTL(content: string): Element[] {
-  // Parse STL content and convert to elements
-  console.log('Importing STL file...');
-  
-  // Placeholder implementation
-  return [];
+function importSTL(buffer: ArrayBuffer): Element[] {
+  const layerId = useLayerStore.getState().activeLayer;
+
+  return parseSTL(buffer).map(solid => ({
+    id: uuidv4(),
+    type: 'mesh',
+    layerId,
+    name: solid.name,
+    color: solid.color || '#90a4ae',
+    ...triangleMeshToElementData(solid)
+  }));
 }
 
 function exportSTL(elements: Element[]): string {
-  // Generate STL content from elements
-  console.log('Exporting STL file...');
-  
-  // Placeholder implementation
-  return 'STL content would go here';
+  return writeAsciiSTL(tessellateElements(elements));
 }
 
-function importOBJ(content: string): Element[] {
-  // Parse OBJ content and convert to elements
-  console.log('Importing OBJ file...');
-  
-  // Placeholder implementation
-  return [];
+function importOBJ(content: string, mtlContent?: string): Element[] {
+  const layerId = useLayerStore.getState().activeLayer;
+  const { parts, polylines, materials } = parseOBJ(content, mtlContent);
+  const partsPerGroup = new Map<string, number>();
+  parts.forEach(part => partsPerGroup.set(part.groupName, (partsPerGroup.get(part.groupName) || 0) + 1));
+
+  const meshes: Element[] = parts.map(part => {
+    const material = part.materialName ? materials.get(part.materialName) : undefined;
+    const isGrouped = (partsPerGroup.get(part.groupName) || 0) > 1 || polylines.some(p => p.groupName === part.groupName);
+    const positions = part.vertices.flatMap(v => [v.x, v.y, v.z]);
+    const { vertices, ...bounds } = triangleMeshToElementData({ positions, indices: [] });
+
+    return {
+      id: uuidv4(),
+      type: 'mesh',
+      layerId,
+      name: isGrouped && part.materialName ? `${part.groupName} (${part.materialName})` : part.groupName,
+      color: material?.color || '#90a4ae',
+      ...(material?.materialKey ? { material: material.materialKey } : {}),
+      ...(material ? { materialName: material.name } : {}),
+      ...(material?.opacity !== undefined && material.opacity < 1 ? { opacity: material.opacity } : {}),
+      ...bounds,
+      vertices,
+      faces: part.faces,
+      ...(part.normals ? { normals: part.normals } : {}),
+      ...(isGrouped ? { importGroup: part.groupName } : {})
+    };
+  });
+
+  const lines: Element[] = polylines.flatMap(polyline =>
+    polyline.points.slice(1).map((point, index) => ({
+      id: uuidv4(),
+      type: 'line',
+      layerId,
+      x1: polyline.points[index].x,
+      y1: polyline.points[index].y,
+      z1: polyline.points[index].z,
+      x2: point.x,
+      y2: point.y,
+      z2: point.z,
+      color: '#000000',
+      importGroup: polyline.groupName
+    }))
+  );
+
+  return [...meshes, ...lines];
+}
+
+function getOBJExportParts(elements: Element[]): ObjExportPart[] {
+  const byId = new Map(elements.map(element => [element.id, element]));
+
+  return tessellateElements(elements).map(mesh => {
+    const element = mesh.elementId ? byId.get(mesh.elementId) : undefined;
+    return {
+      name: element?.name || `${element?.type || 'object'}_${mesh.elementId?.slice(0, 8) || ''}`,
+      mesh,
+      color: typeof element?.color === 'string' ? element.color : undefined,
+      material: element?.material
+    };
+  });
 }
 
 function exportOBJ(elements: Element[]): string {
-  // Generate OBJ content from elements
-  console.log('Exporting OBJ file...');
-  
-  // Placeholder implementation
-  return 'OBJ content would go here';
+  return writeOBJ(getOBJExportParts(elements), 'cad-drawing.mtl');
 }
 
 function importJSON(content: string): Element[] {
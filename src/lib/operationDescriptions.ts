@@ -16,6 +16,10 @@ export interface OperationDescription {
         title: 'Pocket Clearing',
         description: 'Pocket Clearing - Removes material inside a closed profile creating a cavity.'
       },
+      'adaptive': {
+        title: 'Adaptive Clearing',
+        description: 'Adaptive Clearing - Clears a pocket at constant tool engagement, with trochoidal loops in narrow areas and helical or ramp entry.'
+      },
       'drill': {
         title: 'Drilling',
         description: 'Drilling - Creates vertical holes of a defined depth.'
@@ -34,7 +38,11 @@ export interface OperationDescription {
       },
       '3d_surface': {
         title: '3D Surface',
-        description: '3D Surface - Works on complex three-dimensional surfaces with optimized paths.'
+        description: '3D Surface - Finishes the surfaces of a solid or mesh with parallel, waterline, spiral or radial passes that never cut below the part.'
+      },
+      'rest_machining': {
+        title: 'Rest Machining',
+        description: 'Rest Machining - Removes only the material the earlier operations of the setup left behind, in Z levels or with pencil passes, using a smaller tool.'
       },
       
       // Lathe operations
@@ -1,5 +1,6 @@
 import { Vector3, Matrix4 } from 'three';
 import { Mesh } from '../../types/mesh';
+import { SparseMatrixBuilder, conjugateGradient } from './SparseMatrix';
 
 export type Node = {
   id: number;
@@ -26,6 +27,7 @@ export type Material = {
   thermalConductivity?: number;
   specificHeat?: number;
   thermalExpansion?: number;
+  yieldStrength?: number; // σy (Pa), used for the safety factors
 };
 
 export type SimulationModel = {
@@ -42,18 +44,122 @@ export type SimulationResults = {
   maxDisplacement: number;
   maxStress: number;
   safetyFactor: number[];
+  solverInfo?: {
+    iterations: number;
+    residual: number;
+    converged: boolean;
+  };
 };
 
+export type FEASolverOptions = {
+  /** Size of one model unit in metres; CAD geometry is in millimetres */
+  lengthUnit?: number;
+  /** Relative residual at which the conjugate-gradient iteration stops */
+  tolerance?: number;
+  maxIterations?: number;
+};
+
+// Safety factor reported for unstressed elements
+const MAX_SAFETY_FACTOR = 999;
+
+// Largest angle (°) between a face and the normal of the surface a pressure is applied to
+const PRESSURE_SURFACE_ANGLE = 30;
+
+// Faces of a linear tetrahedron, each listed with the node opposite to it
+const TETRAHEDRON_FACES = [
+  [1, 2, 3, 0],
+  [0, 3, 2, 1],
+  [0, 1, 3, 2],
+  [0, 2, 1, 3]
+];
+
+/**
+ * Shape function gradients and volume of a linear tetrahedron
+ */
+export function tetrahedronGradients(points: Vector3[]): { gradients: Vector3[]; volume: number } | null {
+  const [p0, p1, p2, p3] = points;
+  const a = p1.clone().sub(p0);
+  const b = p2.clone().sub(p0);
+  const c = p3.clone().sub(p0);
+  const determinant = a.dot(b.clone().cross(c));
+  const volume = Math.abs(determinant) / 6;
+  if (volume < 1e-30) return null;
+
+  // Rows of the inverse Jacobian are the gradients of the natural coordinates
+  const g1 = b.clone().cross(c).divideScalar(determinant);
+  const g2 = c.clone().cross(a).divideScalar(determinant);
+  const g3 = a.clone().cross(b).divideScalar(determinant);
+  const g0 = g1.clone().add(g2).add(g3).negate();
+
+  return { gradients: [g0, g1, g2, g3], volume };
+}
+
+/**
+ * Isotropic linear-elastic constitutive matrix for [εx, εy, εz, γxy, γyz, γzx]
+ */
+function elasticityMatrix(material: Material): number[][] {
+  const E = material.youngsModulus;
+  const nu = material.poissonRatio;
+  const lambda = (E * nu) / ((1 + nu) * (1 - 2 * nu));
+  const mu = E / (2 * (1 + nu));
+  const d = lambda + 2 * mu;
+
+  return [
+    [d, lambda, lambda, 0, 0, 0],
+    [lambda, d, lambda, 0, 0, 0],
+    [lambda, lambda, d, 0, 0, 0],
+    [0, 0, 0, mu, 0, 0],
+    [0, 0, 0, 0, mu, 0],
+    [0, 0, 0, 0, 0, mu]
+  ];
+}
+
+/**
+ * Strain-displacement matrix (6×12) of a linear tetrahedron
+ */
+function strainDisplacementMatrix(gradients: Vector3[]): number[][] {
+  const B = Array.from({ length: 6 }, () => new Array<number>(12).fill(0));
+  gradients.forEach((g, i) => {
+    const col = i * 3;
+    B[0][col] = g.x;
+    B[1][col + 1] = g.y;
+    B[2][col + 2] = g.z;
+    B[3][col] = g.y;
+    B[3][col + 1] = g.x;
+    B[4][col + 1] = g.z;
+    B[4][col + 2] = g.y;
+    B[5][col] = g.z;
+    B[5][col + 2] = g.x;
+  });
+  return B;
+}
+
+function multiplyMatrixVector(matrix: number[][], vector: number[]): number[] {
+  return matrix.map(row => row.reduce((sum, value, i) => sum + value * vector[i], 0));
+}
+
+function vonMises(stress: number[]): number {
+  const [sx, sy, sz, txy, tyz, tzx] = stress;
+  return Math.sqrt(0.5 * (
+    Math.pow(sx - sy, 2) + 
+    Math.pow(sy - sz, 2) + 
+    Math.pow(sz - sx, 2) + 
+    6 * (txy * txy + tyz * tyz + tzx * tzx)
+  ));
+}
+
 export class FEAEngine {
   private model: SimulationModel;
   private results: SimulationResults | null = null;
+  private options: FEASolverOptions;
   
-  constructor(mesh?: Mesh, materials?: Material[]) {
+  constructor(mesh?: Mesh, materials?: Material[], options: FEASolverOptions = {}) {
     this.model = {
       nodes: [],
       elements: [],
       materials: materials || []
     };
+    this.options = options;
     
     if (mesh) {
       this.importFromMesh(mesh);
@@ -64,12 +170,25 @@ export class FEAEngine {
     // Convert THREE.js geometry to FEA nodes and elements
     // This is a simplified version - real implementation would be more complex
     const positions = mesh.geometry.attributes.position.array;
+    // Volume meshes keep their tetrahedra next to the surface index used for rendering
+    const tetrahedra: ArrayLike<number> | undefined = mesh.geometry.userData?.tetrahedra;
+    if (tetrahedra) {
+      this.importTetrahedra(positions, tetrahedra);
+      return;
+    }
+    
     const indices = mesh.geometry.index?.array;
     
     if (!indices) {
       throw new Error('Mesh must have an index buffer');
     }
     
+    // Surface triangles are not a volume mesh; callers mesh them first (see ensureVolumeMesh)
+    const isTetrahedral = mesh.geometry.type === 'TetrahedronGeometry';
+    if (!isTetrahedral && mesh.userData?.type !== 'shell') {
+      throw new Error('Solid analysis needs a tetrahedral volume mesh: mesh the surface with ensureVolumeMesh first');
+    }
+    
     // Create nodes
     for (let i = 0; i < positions.length; i += 3) {
       this.model.nodes.push({
@@ -81,8 +200,6 @@ export class FEAEngine {
     }
     
     // Create elements (tetrahedra or triangles depending on mesh type)
-    const isTetrahedral = mesh.geometry.type === 'TetrahedronGeometry';
-    
     for (let i = 0; i < indices.length; i += isTetrahedral ? 4 : 3) {
       this.model.elements.push({
         id: i / (isTetrahedral ? 4 : 3),
@@ -94,9 +211,98 @@ export class FEAEngine {
     }
   }
   
+  /**
+   * Load a tetrahedral volume mesh: flat node coordinates and four node indices per element
+   */
+  importTetrahedra(positions: ArrayLike<number>, tetrahedra: ArrayLike<number>, materialId: number = 0): void {
+    this.model.nodes = [];
+    this.model.elements = [];
+    this.results = null;
+    
+    for (let i = 0; i < positions.length; i += 3) {
+      this.model.nodes.push({
+        id: i / 3,
+        position: new Vector3(positions[i], positions[i + 1], positions[i + 2]),
+        fixed: false,
+        loads: new Vector3(0, 0, 0)
+      });
+    }
+    
+    for (let i = 0; i + 3 < tetrahedra.length; i += 4) {
+      this.model.elements.push({
+        id: i / 4,
+        nodes: [tetrahedra[i], tetrahedra[i + 1], tetrahedra[i + 2], tetrahedra[i + 3]],
+        materialId
+      });
+    }
+  }
+  
+  /**
+   * Add a material to the model and assign it to the given elements (all by default)
+   */
+  setMaterial(material: Material, elementIds?: number[]): void {
+    if (!this.model.materials.some(m => m.id === material.id)) {
+      this.model.materials.push(material);
+    }
+    
+    const targets = elementIds ? new Set(elementIds) : null;
+    this.model.elements.forEach(element => {
+      if (!targets || targets.has(element.id)) {
+        element.materialId = material.id;
+      }
+    });
+  }
+  
+  getNodes(): Node[] {
+    return this.model.nodes;
+  }
+  
+  getElements(): Element[] {
+    return this.model.elements;
+  }
+  
+  /**
+   * Nodes within `radius` of a position, or the closest node when none is that close
+   */
+  findNodesNear(position: Vector3, radius: number): number[] {
+    const radiusSq = radius * radius;
+    const nearby = this.model.nodes
+      .filter(node => node.position.distanceToSquared(position) <= radiusSq)
+      .map(node => node.id);
+    if (nearby.length > 0 || this.model.nodes.length === 0) {
+      return nearby;
+    }
+    
+    let closest = this.model.nodes[0];
+    this.model.nodes.forEach(node => {
+      if (node.position.distanceToSquared(position) < closest.position.distanceToSquared(position)) {
+        closest = node;
+      }
+    });
+    return [closest.id];
+  }
+  
+  getElementCentroid(elementId: number): Vector3 {
+    const element = this.model.elements.find(e => e.id === elementId);
+    const centroid = new Vector3();
+    if (!element) return centroid;
+    
+    element.nodes.forEach(nodeId => {
+      const node = this.findNode(nodeId);
+      if (node) centroid.add(node.position);
+    });
+    return centroid.divideScalar(element.nodes.length);
+  }
+  
+  // Node ids match their index unless the model was edited by hand
+  private findNode(id: number): Node | undefined {
+    const node = this.model.nodes[id];
+    return node && node.id === id ? node : this.model.nodes.find(n => n.id === id);
+  }
+  
   applyConstraint(nodeIds: number[], fixed: boolean = true): void {
     nodeIds.forEach(id => {
-      const node = this.model.nodes.find(n => n.id === id);
+      const node = this.findNode(id);
       if (node) {
         node.fixed = fixed;
       }
@@ -105,90 +311,265 @@ export class FEAEngine {
   
   applyForce(nodeIds: number[], force: Vector3): void {
     nodeIds.forEach(id => {
-      const node = this.model.nodes.find(n => n.id === id);
+      const node = this.findNode(id);
       if (node) {
         node.loads.add(force);
       }
     });
   }
   
-  applyPressure(elementIds: number[], pressure: number): void {
-    // Convert pressure to equivalent nodal forces
+  /**
+   * Apply a pressure (Pa) on the surface formed by the boundary faces of the
+   * given elements. Only faces whose outward normal is within
+   * PRESSURE_SURFACE_ANGLE of the surface normal are loaded, so the sides and
+   * ends of the selected elements stay free; without a normal, the
+   * area-weighted mean of the boundary faces is used. Positive pressure pushes
+   * into the material; the resultant p·A of each face is shared equally by its
+   * three nodes, which is exact for linear elements.
+   */
+  applyPressure(elementIds: number[], pressure: number, surfaceNormal?: Vector3): void {
+    const unit = this.options.lengthUnit ?? 0.001;
+    const faceCounts = this.countTetrahedronFaces();
+    const faces: { nodes: Node[]; normal: Vector3 }[] = [];
+    
     elementIds.forEach(id => {
       const element = this.model.elements.find(e => e.id === id);
-      if (element) {
-        // Calculate surface normal and area
-        // Distribute pressure as forces to nodes
-        // Simplified: would need proper implementation
-        const nodes = element.nodes.map(nodeId => 
-          this.model.nodes.find(n => n.id === nodeId)
-        );
+      if (!element) return;
+      
+      const nodes = element.nodes.map(nodeId => this.findNode(nodeId));
+      if (nodes.some(node => !node)) return;
+      const points = nodes.map(node => (node as Node).position);
+      
+      const elementFaces = element.nodes.length === 4
+        ? TETRAHEDRON_FACES.filter(face => faceCounts.get(this.faceKey(face.slice(0, 3).map(i => element.nodes[i]))) === 1)
+        : [[0, 1, 2, -1]];
+      
+      elementFaces.forEach(([a, b, c, opposite]) => {
+        // Area-weighted normal (model units²) converted to m²
+        const normal = points[b].clone().sub(points[a])
+          .cross(points[c].clone().sub(points[a]))
+          .multiplyScalar(0.5 * unit * unit);
         
-        // Apply force to each node
-        nodes.forEach(node => {
-          if (node) {
-            // This is very simplified - actual implementation would compute 
-            // proper pressure distribution
-            const forcePerNode = new Vector3(0, -pressure, 0);
-            node.loads.add(forcePerNode);
-          }
-        });
+        // Tetrahedron faces point away from the opposite node
+        if (opposite >= 0 && normal.dot(points[opposite].clone().sub(points[a])) > 0) {
+          normal.negate();
+        }
+        faces.push({ nodes: [a, b, c].map(i => nodes[i] as Node), normal });
+      });
+    });
+    
+    const reference = (surfaceNormal
+      ? surfaceNormal.clone()
+      : faces.reduce((sum, face) => sum.add(face.normal), new Vector3())).normalize();
+    const minCos = Math.cos(PRESSURE_SURFACE_ANGLE * Math.PI / 180);
+    
+    faces.forEach(({ nodes, normal }) => {
+      const area = normal.length();
+      if (area === 0 || (reference.lengthSq() > 0 && normal.dot(reference) / area < minCos)) return;
+      
+      const forcePerNode = normal.clone().multiplyScalar(-pressure / 3);
+      nodes.forEach(node => node.loads.add(forcePerNode));
+    });
+  }
+  
+  /**
+   * Mean edge length of the elements (model units), the scale for searching nodes near a point
+   */
+  getCharacteristicLength(): number {
+    let total = 0;
+    let count = 0;
+    this.model.elements.forEach(element => {
+      const points = element.nodes.map(id => this.findNode(id));
+      for (let i = 0; i < points.length; i++) {
+        for (let j = i + 1; j < points.length; j++) {
+          const a = points[i];
+          const b = points[j];
+          if (!a || !b) continue;
+          total += a.position.distanceTo(b.position);
+          count++;
+        }
       }
     });
+    return count > 0 ? total / count : 0;
+  }
+  
+  /**
+   * Surface triangles of the tetrahedral mesh as node id triplets, wound so that
+   * their normals point out of the material
+   */
+  getBoundaryFaces(): number[][] {
+    const faceCounts = this.countTetrahedronFaces();
+    const faces: number[][] = [];
+    
+    this.model.elements.forEach(element => {
+      if (element.nodes.length !== 4) return;
+      const points = element.nodes.map(id => this.findNode(id));
+      if (points.some(node => !node)) return;
+      const positions = points.map(node => (node as Node).position);
+      
+      TETRAHEDRON_FACES.forEach(([a, b, c, opposite]) => {
+        const face = [element.nodes[a], element.nodes[b], element.nodes[c]];
+        if (faceCounts.get(this.faceKey(face)) !== 1) return;
+        
+        const normal = positions[b].clone().sub(positions[a]).cross(positions[c].clone().sub(positions[a]));
+        if (normal.dot(positions[opposite].clone().sub(positions[a])) > 0) {
+          face.reverse();
+        }
+        faces.push(face);
+      });
+    });
+    
+    return faces;
+  }
+  
+  private faceKey(nodeIds: number[]): string {
+    return nodeIds.slice().sort((a, b) => a - b).join('_');
+  }
+  
+  private countTetrahedronFaces(): Map<string, number> {
+    const counts = new Map<string, number>();
+    this.model.elements.forEach(element => {
+      if (element.nodes.length !== 4) return;
+      TETRAHEDRON_FACES.forEach(face => {
+        const key = this.faceKey(face.slice(0, 3).map(i => element.nodes[i]));
+        counts.set(key, (counts.get(key) || 0) + 1);
+      });
+    });
+    return counts;
+  }
+  
+  private getMaterial(materialId: number): Material {
+    const material = this.model.materials.find(m => m.id === materialId) || this.model.materials[0];
+    if (!material) {
+      throw new Error('No material assigned to the model');
+    }
+    return material;
   }
   
+  /**
+   * Linear-static analysis with linear tetrahedra: assemble the global stiffness
+   * matrix, solve K·u = f with conjugate gradients on the unconstrained degrees
+   * of freedom and recover the constant strain and stress of each element.
+   *
+   * Lengths are in model units (see FEASolverOptions.lengthUnit), forces in N and
+   * moduli in Pa. Displacements are returned in model units, stresses in Pa.
+   */
   solve(): SimulationResults {
-    // This is a placeholder for a real FEA solver
-    // In a real implementation, we would:
-    // 1. Assemble the global stiffness matrix
-    // 2. Apply boundary conditions
-    // 3. Solve the system of equations
-    // 4. Calculate stresses and strains
-    
-    // For now, we'll simulate results with placeholder calculations
-    const displacements: Vector3[] = this.model.nodes.map(node => {
-      if (node.fixed) {
-        return new Vector3(0, 0, 0);
-      }
-      // Simplified displacement calculation
-      return new Vector3(
-        node.loads.x * 0.001,
-        node.loads.y * 0.001,
-        node.loads.z * 0.001
+    const unit = this.options.lengthUnit ?? 0.001;
+    const { nodes } = this.model;
+    const elements = this.model.elements.filter(element => element.nodes.length === 4);
+    
+    if (elements.length === 0) {
+      throw new Error('Linear static analysis requires a tetrahedral volume mesh');
+    }
+    if (!nodes.some(node => node.fixed)) {
+      throw new Error('The model has no constraints, fix at least one region to prevent rigid-body motion');
+    }
+    
+    const indexOf = new Map<number, number>();
+    nodes.forEach((node, index) => indexOf.set(node.id, index));
+    const dofCount = nodes.length * 3;
+    
+    // Element matrices in SI units
+    const prepared = elements.map(element => {
+      const nodeIndices = element.nodes.map(id => {
+        const index = indexOf.get(id);
+        if (index === undefined) {
+          throw new Error(`Element ${element.id} references missing node ${id}`);
+        }
+        return index;
+      });
+      const geometry = tetrahedronGradients(
+        nodeIndices.map(index => nodes[index].position.clone().multiplyScalar(unit))
       );
+      if (!geometry) {
+        throw new Error(`Element ${element.id} is degenerate (zero volume)`);
+      }
+      
+      const material = this.getMaterial(element.materialId);
+      if (material.yieldStrength === undefined) {
+        throw new Error(`Material "${material.name}" has no yield strength to compute safety factors`);
+      }
+      const D = elasticityMatrix(material);
+      const B = strainDisplacementMatrix(geometry.gradients);
+      return { element, nodeIndices, material, D, B, volume: geometry.volume };
     });
     
-    // Calculate strains and stresses (extremely simplified)
-    const stresses: number[][] = this.model.elements.map(element => {
-      return [0, 0, 0, 0, 0, 0]; // σx, σy, σz, τxy, τyz, τzx
+    // Assemble K = Σ V·Bᵀ·D·B
+    const builder = new SparseMatrixBuilder(dofCount);
+    prepared.forEach(({ nodeIndices, D, B, volume }) => {
+      const DB = D.map(row => B[0].map((_, col) => row.reduce((sum, value, k) => sum + value * B[k][col], 0)));
+      const dofs = nodeIndices.reduce<number[]>((list, index) => list.concat([index * 3, index * 3 + 1, index * 3 + 2]), []);
+      
+      for (let i = 0; i < 12; i++) {
+        for (let j = 0; j < 12; j++) {
+          let value = 0;
+          for (let k = 0; k < 6; k++) {
+            value += B[k][i] * DB[k][j];
+          }
+          builder.add(dofs[i], dofs[j], value * volume);
+        }
+      }
     });
+    const stiffness = builder.build();
     
-    const strains: number[][] = this.model.elements.map(element => {
-      return [0, 0, 0, 0, 0, 0]; // εx, εy, εz, γxy, γyz, γzx
+    const forces = new Float64Array(dofCount);
+    const fixed = new Uint8Array(dofCount);
+    nodes.forEach((node, index) => {
+      forces[index * 3] = node.loads.x;
+      forces[index * 3 + 1] = node.loads.y;
+      forces[index * 3 + 2] = node.loads.z;
+      if (node.fixed) {
+        fixed[index * 3] = fixed[index * 3 + 1] = fixed[index * 3 + 2] = 1;
+      }
     });
     
-    // Calculate von Mises stress
-    const vonMisesStress = stresses.map(stress => {
-      const [sx, sy, sz, txy, tyz, tzx] = stress;
-      return Math.sqrt(0.5 * (
-        Math.pow(sx - sy, 2) + 
-        Math.pow(sy - sz, 2) + 
-        Math.pow(sz - sx, 2) + 
-        6 * (txy * txy + tyz * tyz + tzx * tzx)
-      ));
+    const solution = conjugateGradient(stiffness, forces, {
+      fixed,
+      tolerance: this.options.tolerance ?? 1e-8,
+      maxIterations: this.options.maxIterations
     });
     
-    // Calculate safety factor based on material yield strength
-    // Placeholder - would need material yield strength
-    const safetyFactor = vonMisesStress.map(stress => 
-      stress > 0 ? 250 / stress : 999
-    );
+    if (!solution.converged) {
+      throw new Error(
+        `The solver did not converge after ${solution.iterations} iterations ` +
+        `(residual ${solution.residual.toExponential(2)}). Check that the constraints prevent rigid-body motion.`
+      );
+    }
     
-    const maxDisplacement = Math.max(
-      ...displacements.map(d => d.length())
-    );
+    const u = solution.solution;
+    const displacements: Vector3[] = nodes.map((node, index) => {
+      const displacement = new Vector3(u[index * 3], u[index * 3 + 1], u[index * 3 + 2]).divideScalar(unit);
+      node.displacements = displacement;
+      return displacement;
+    });
+    
+    // Constant strain and stress in each element
+    const strains: number[][] = [];
+    const stresses: number[][] = [];
+    const vonMisesStress: number[] = [];
+    const safetyFactor: number[] = [];
+    
+    prepared.forEach(({ element, nodeIndices, material, D, B }) => {
+      const elementDisplacements = nodeIndices.reduce<number[]>(
+        (list, index) => list.concat([u[index * 3], u[index * 3 + 1], u[index * 3 + 2]]),
+        []
+      );
+      const strain = multiplyMatrixVector(B, elementDisplacements); // εx, εy, εz, γxy, γyz, γzx
+      const stress = multiplyMatrixVector(D, strain); // σx, σy, σz, τxy, τyz, τzx
+      const equivalent = vonMises(stress);
+      const yieldStrength = material.yieldStrength as number;
+      
+      element.strain = strain;
+      element.stress = stress;
+      strains.push(strain);
+      stresses.push(stress);
+      vonMisesStress.push(equivalent);
+      safetyFactor.push(equivalent > 0 ? Math.min(MAX_SAFETY_FACTOR, yieldStrength / equivalent) : MAX_SAFETY_FACTOR);
+    });
     
-    const maxStress = Math.max(...vonMisesStress);
+    const maxDisplacement = displacements.reduce((max, d) => Math.max(max, d.length()), 0);
+    const maxStress = vonMisesStress.reduce((max, value) => Math.max(max, value), 0);
     
     this.results = {
       displacements,
@@ -197,7 +578,12 @@ export class FEAEngine {
       vonMisesStress,
       maxDisplacement,
       maxStress,
-      safetyFactor
+      safetyFactor,
+      solverInfo: {
+        iterations: solution.iterations,
+        residual: solution.residual,
+        converged: solution.converged
+      }
     };
     
     return this.results;
@@ -0,0 +1,169 @@
+/**
+ * Sparse matrices in compressed sparse row (CSR) form and the preconditioned
+ * conjugate-gradient solver used by the simulation engines.
+ *
+ * Matrices are assembled entry by entry with SparseMatrixBuilder, which sums
+ * duplicate entries the way element matrices overlap in a global matrix.
+ */
+
+export type ConjugateGradientOptions = {
+  /** Relative residual at which the iteration stops */
+  tolerance?: number;
+  maxIterations?: number;
+  /** Starting point; fixed entries keep these values */
+  initialGuess?: Float64Array;
+  /** Non-zero for unknowns with a prescribed value (Dirichlet conditions) */
+  fixed?: Uint8Array;
+};
+
+export type ConjugateGradientResult = {
+  solution: Float64Array;
+  iterations: number;
+  /** Final residual norm relative to the right-hand side */
+  residual: number;
+  converged: boolean;
+};
+
+export class CSRMatrix {
+  constructor(
+    readonly size: number,
+    readonly rowPointers: Int32Array,
+    readonly columns: Int32Array,
+    readonly values: Float64Array
+  ) {}
+
+  get nonZeros(): number {
+    return this.values.length;
+  }
+
+  multiply(vector: Float64Array, out: Float64Array = new Float64Array(this.size)): Float64Array {
+    for (let row = 0; row < this.size; row++) {
+      let sum = 0;
+      for (let k = this.rowPointers[row]; k < this.rowPointers[row + 1]; k++) {
+        sum += this.values[k] * vector[this.columns[k]];
+      }
+      out[row] = sum;
+    }
+    return out;
+  }
+
+  diagonal(): Float64Array {
+    const diagonal = new Float64Array(this.size);
+    for (let row = 0; row < this.size; row++) {
+      for (let k = this.rowPointers[row]; k < this.rowPointers[row + 1]; k++) {
+        if (this.columns[k] === row) {
+          diagonal[row] = this.values[k];
+          break;
+        }
+      }
+    }
+    return diagonal;
+  }
+}
+
+export class SparseMatrixBuilder {
+  private rows: Map<number, number>[];
+
+  constructor(readonly size: number) {
+    this.rows = Array.from({ length: size }, () => new Map<number, number>());
+  }
+
+  add(row: number, column: number, value: number): void {
+    if (value === 0) return;
+    const entries = this.rows[row];
+    entries.set(column, (entries.get(column) || 0) + value);
+  }
+
+  build(): CSRMatrix {
+    const rowPointers = new Int32Array(this.size + 1);
+    this.rows.forEach((entries, row) => {
+      rowPointers[row + 1] = rowPointers[row] + entries.size;
+    });
+
+    const columns = new Int32Array(rowPointers[this.size]);
+    const values = new Float64Array(rowPointers[this.size]);
+    this.rows.forEach((entries, row) => {
+      const sorted = Array.from(entries.keys()).sort((a, b) => a - b);
+      sorted.forEach((column, k) => {
+        columns[rowPointers[row] + k] = column;
+        values[rowPointers[row] + k] = entries.get(column) as number;
+      });
+    });
+
+    return new CSRMatrix(this.size, rowPointers, columns, values);
+  }
+}
+
+function dot(a: Float64Array, b: Float64Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/**
+ * Solve A·x = b for a symmetric positive-definite A with a Jacobi-preconditioned
+ * conjugate gradient. Fixed unknowns keep their initial value and only the
+ * remaining ones are solved for.
+ */
+export function conjugateGradient(
+  matrix: CSRMatrix,
+  rhs: Float64Array,
+  options: ConjugateGradientOptions = {}
+): ConjugateGradientResult {
+  const size = matrix.size;
+  const tolerance = options.tolerance ?? 1e-8;
+  const maxIterations = options.maxIterations ?? Math.max(1000, size * 2);
+  const fixed = options.fixed;
+  const isFree = (i: number) => !fixed || fixed[i] === 0;
+
+  const x = options.initialGuess ? Float64Array.from(options.initialGuess) : new Float64Array(size);
+  const diagonal = matrix.diagonal();
+
+  // r = b - A·x on the free unknowns
+  const r = matrix.multiply(x);
+  let rhsNorm = 0;
+  for (let i = 0; i < size; i++) {
+    r[i] = isFree(i) ? rhs[i] - r[i] : 0;
+    if (isFree(i)) rhsNorm += rhs[i] * rhs[i];
+  }
+  rhsNorm = Math.sqrt(rhsNorm) || Math.sqrt(dot(r, r)) || 1;
+
+  const z = new Float64Array(size);
+  const precondition = () => {
+    for (let i = 0; i < size; i++) z[i] = isFree(i) && diagonal[i] !== 0 ? r[i] / diagonal[i] : 0;
+  };
+
+  precondition();
+  const p = Float64Array.from(z);
+  const ap = new Float64Array(size);
+  let rz = dot(r, z);
+  let residual = Math.sqrt(dot(r, r)) / rhsNorm;
+  let iterations = 0;
+
+  while (residual > tolerance && iterations < maxIterations) {
+    matrix.multiply(p, ap);
+    if (fixed) {
+      for (let i = 0; i < size; i++) if (!isFree(i)) ap[i] = 0;
+    }
+
+    const curvature = dot(p, ap);
+    if (curvature <= 0) break;
+    const alpha = rz / curvature;
+
+    for (let i = 0; i < size; i++) {
+      x[i] += alpha * p[i];
+      r[i] -= alpha * ap[i];
+    }
+
+    precondition();
+    const rzNext = dot(r, z);
+    const beta = rzNext / rz;
+    rz = rzNext;
+    for (let i = 0; i < size; i++) p[i] = z[i] + beta * p[i];
+
+    residual = Math.sqrt(dot(r, r)) / rhsNorm;
+    iterations++;
+  }
+
+  return { solution: x, iterations, residual, converged: residual <= tolerance };
+}
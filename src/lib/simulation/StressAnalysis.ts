@@ -1,6 +1,7 @@
 import { Vector3 } from 'three';
 import { Mesh } from '../../types/mesh';
 import { FEAEngine, Material, SimulationResults } from './FEAEngine';
+import { ensureVolumeMesh, VolumeMeshingOptions } from './VolumeMesher';
 
 export type StressAnalysisParams = {
   forces: Array<{
@@ -35,11 +36,19 @@ export class StressAnalysis {
     this.engine = new FEAEngine(mesh);
   }
   
+  /**
+   * Analysis of a mesh, meshing its volume first when it is only a surface
+   */
+  static async create(mesh: Mesh, meshing: VolumeMeshingOptions = {}): Promise<StressAnalysis> {
+    return new StressAnalysis(await ensureVolumeMesh(mesh, meshing));
+  }
+  
   setupAnalysis(params: StressAnalysisParams): void {
     this.params = params;
     
     // Add material to the engine
     const material = params.material;
+    this.engine.setMaterial(material);
     
     // Find nodes closest to the fixed points
     params.fixedPoints.forEach(point => {
@@ -57,17 +66,10 @@ export class StressAnalysis {
     });
   }
   
-  // Find nodes within a radius of a position
-  private findNodesNear(position: Vector3, radius: number = 0.1): number[] {
-    // This is a simplified implementation
-    // A real implementation would use spatial data structures for efficiency
-    
-    // For now, we'll simulate by returning some node IDs
-    // In a real implementation, we would:
-    // 1. Find nodes within the radius
-    // 2. Return their IDs
-    
-    return [0, 1, 2]; // Placeholder IDs
+  // Find nodes within a radius of a position (the closest node if none is that close);
+  // by default half the mean element edge, so a point picks up the nodes of the faces around it
+  private findNodesNear(position: Vector3, radius: number = this.engine.getCharacteristicLength() / 2): number[] {
+    return this.engine.findNodesNear(position, radius);
   }
   
   runAnalysis(): StressAnalysisResults {
@@ -112,12 +114,11 @@ export class StressAnalysis {
     
     results.safetyFactor.forEach((factor, index) => {
       if (factor <= threshold) {
-        // Get the node position
-        const node = {
-          position: new Vector3(0, 0, 0), // Placeholder
+        // Report the centroid of the element
+        failurePoints.push({
+          position: this.engine.getElementCentroid(this.engine.getElements()[index].id),
           safetyFactor: factor
-        };
-        failurePoints.push(node);
+        });
       }
     });
     
@@ -167,7 +168,8 @@ export class StressAnalysis {
         density: 7850,  // kg/m³
         thermalConductivity: 60.5,
         specificHeat: 434,
-        thermalExpansion: 12e-6
+        thermalExpansion: 12e-6,
+        yieldStrength: 250e6,  // 250 MPa
       },
       {
         id: 2,
@@ -177,7 +179,8 @@ export class StressAnalysis {
         density: 2770,  // kg/m³
         thermalConductivity: 237,
         specificHeat: 875,
-        thermalExpansion: 23.1e-6
+        thermalExpansion: 23.1e-6,
+        yieldStrength: 280e6,  // 280 MPa
       },
       {
         id: 3,
@@ -187,7 +190,8 @@ export class StressAnalysis {
         density: 4620,  // kg/m³
         thermalConductivity: 6.7,
         specificHeat: 526,
-        thermalExpansion: 8.6e-6
+        thermalExpansion: 8.6e-6,
+        yieldStrength: 880e6,  // 880 MPa
       },
       {
         id: 4,
@@ -197,7 +201,8 @@ export class StressAnalysis {
         density: 1050,  // kg/m³
         thermalConductivity: 0.17,
         specificHeat: 1300,
-        thermalExpansion: 95e-6
+        thermalExpansion: 95e-6,
+        yieldStrength: 40e6,  // 40 MPa
       }
     ];
   }
@@ -1,22 +1,37 @@
 import { Vector3 } from 'three';
 import { Mesh } from '../../types/mesh';
-import { FEAEngine, Material, SimulationResults } from './FEAEngine';
+import { FEAEngine, FEASolverOptions, Material, SimulationResults, tetrahedronGradients } from './FEAEngine';
+import { CSRMatrix, SparseMatrixBuilder, conjugateGradient } from './SparseMatrix';
+import { ensureVolumeMesh, VolumeMeshingOptions } from './VolumeMesher';
+
+/**
+ * A point of a piecewise-linear time profile. Between keys the factor is
+ * interpolated, before the first and after the last key it is held constant.
+ */
+export type ThermalScheduleKey = {
+  time: number; // in seconds
+  factor: number;
+};
 
 export type ThermalSource = {
   position: Vector3;
   radius: number;
   temperature: number; // in Kelvin
+  power?: number; // in W; when set the source injects heat instead of holding `temperature`
+  schedule?: ThermalScheduleKey[]; // strength over time, the source is off while the factor is 0
 };
 
 export type ThermalBoundary = {
   position: Vector3;
   radius: number;
-  temperature: number; // in Kelvin
+  temperature: number; // in Kelvin, fixed or of the surroundings when exchanging heat
   convectionCoefficient?: number; // W/(m²·K)
+  emissivity?: number; // 0-1, radiation to surroundings at `temperature`
 };
 
 export type ThermalAnalysisParams = {
   ambientTemperature: number; // in Kelvin
+  initialTemperature?: number; // in Kelvin, defaults to the ambient temperature
   heatSources: ThermalSource[];
   boundaries: ThermalBoundary[];
   material: Material;
@@ -32,117 +47,379 @@ export type ThermalAnalysisResults = SimulationResults & {
   maxTemperature: number;
   minTemperature: number;
   temperatureDistribution: number[][]; // for transient analysis
+  timePoints: number[]; // time in seconds of each temperature distribution
   thermalExpansionDisplacements?: Vector3[]; // if coupled with structural analysis
+  warnings: string[]; // e.g. radiation that did not settle, the result is then approximate
+};
+
+type SourceRegion = {
+  source: ThermalSource;
+  nodes: number[];
+  weights: number[]; // share of the source power taken by each node
 };
 
+type BoundaryRegion = {
+  boundary: ThermalBoundary;
+  nodes: number[];
+  areas: number[]; // surface area (m²) lumped on each node
+};
+
+const STEFAN_BOLTZMANN = 5.670374419e-8; // W/(m²·K⁴)
+
+// Radiation is linearised around the latest temperatures and Newton-iterated to this change (K)
+const RADIATION_TOLERANCE = 1e-3;
+const MAX_RADIATION_ITERATIONS = 25;
+
+function scheduleFactor(schedule: ThermalScheduleKey[] | undefined, time: number): number {
+  if (!schedule || schedule.length === 0) return 1;
+  const keys = schedule.slice().sort((a, b) => a.time - b.time);
+  if (time <= keys[0].time) return keys[0].factor;
+  for (let i = 1; i < keys.length; i++) {
+    if (time <= keys[i].time) {
+      const span = keys[i].time - keys[i - 1].time;
+      const t = span > 0 ? (time - keys[i - 1].time) / span : 1;
+      return keys[i - 1].factor + (keys[i].factor - keys[i - 1].factor) * t;
+    }
+  }
+  return keys[keys.length - 1].factor;
+}
+
 export class ThermalAnalysis {
   private engine: FEAEngine;
   private mesh: Mesh;
+  private lengthUnit: number;
   private params: ThermalAnalysisParams | null = null;
   private results: ThermalAnalysisResults | null = null;
+  private sourceRegions: SourceRegion[] = [];
+  private boundaryRegions: BoundaryRegion[] = [];
   
-  constructor(mesh: Mesh) {
+  constructor(mesh: Mesh, options: FEASolverOptions = {}) {
     this.mesh = mesh;
-    this.engine = new FEAEngine(mesh);
+    this.engine = new FEAEngine(mesh, undefined, options);
+    this.lengthUnit = options.lengthUnit ?? 0.001;
+  }
+  
+  /**
+   * Analysis of a mesh, meshing its volume first when it is only a surface
+   */
+  static async create(mesh: Mesh, options: FEASolverOptions = {}, meshing: VolumeMeshingOptions = {}): Promise<ThermalAnalysis> {
+    return new ThermalAnalysis(await ensureVolumeMesh(mesh, meshing), options);
   }
   
   setupAnalysis(params: ThermalAnalysisParams): void {
     this.params = params;
+    this.engine.setMaterial(params.material);
     
-    // Add material to the engine
-    // In a real implementation, we would set thermal material properties
+    const nodeIndex = this.getNodeIndex();
+    const nodeVolumes = this.getNodeVolumes(nodeIndex);
     
-    // Apply heat sources
-    params.heatSources.forEach(source => {
-      // Find nodes within the radius of this heat source
-      const nodeIds = this.findNodesNear(source.position, source.radius);
-      // In a real implementation, we would apply heat source boundary conditions
+    // Heat sources act on the material around their position; injected power is
+    // shared in proportion to the volume each node represents
+    this.sourceRegions = params.heatSources.map(source => {
+      const nodes = this.findNodesNear(source.position, source.radius)
+        .map(id => nodeIndex.get(id) as number);
+      const volumes = nodes.map(index => nodeVolumes[index]);
+      const total = volumes.reduce((sum, volume) => sum + volume, 0);
+      const weights = volumes.map(volume => (total > 0 ? volume / total : 1 / nodes.length));
+      return { source, nodes, weights };
     });
     
-    // Apply thermal boundaries
-    params.boundaries.forEach(boundary => {
-      // Find nodes within the radius of this boundary
+    // Exchange boundaries act on the surface faces inside their radius, fixed
+    // temperatures on the nodes
+    const faces = this.engine.getBoundaryFaces();
+    this.boundaryRegions = params.boundaries.map(boundary => {
       const nodeIds = this.findNodesNear(boundary.position, boundary.radius);
-      // In a real implementation, we would apply temperature or convection boundary conditions
+      if (!this.exchangesHeat(boundary)) {
+        return { boundary, nodes: nodeIds.map(id => nodeIndex.get(id) as number), areas: [] };
+      }
+      
+      const selected = new Set(nodeIds);
+      let regionFaces = faces.filter(face => face.every(id => selected.has(id)));
+      if (regionFaces.length === 0) {
+        regionFaces = faces.filter(face => face.some(id => selected.has(id)));
+      }
+      
+      const lumped = new Map<number, number>();
+      regionFaces.forEach(face => {
+        const [a, b, c] = face.map(id => this.engine.getNodes()[nodeIndex.get(id) as number].position);
+        const area = b.clone().sub(a).cross(c.clone().sub(a)).length() * 0.5 * this.lengthUnit * this.lengthUnit;
+        face.forEach(id => {
+          const index = nodeIndex.get(id) as number;
+          lumped.set(index, (lumped.get(index) || 0) + area / 3);
+        });
+      });
+      
+      const nodes = Array.from(lumped.keys());
+      return { boundary, nodes, areas: nodes.map(index => lumped.get(index) as number) };
     });
   }
   
-  // Find nodes within a radius of a position
+  // Find nodes within a radius of a position (the closest node if none is that close)
   private findNodesNear(position: Vector3, radius: number): number[] {
-    // This is a simplified implementation
-    // A real implementation would use spatial data structures for efficiency
-    
-    // For now, we'll simulate by returning some node IDs
-    // In a real implementation, we would:
-    // 1. Find nodes within the radius
-    // 2. Return their IDs
-    
-    return [0, 1, 2]; // Placeholder IDs
+    return this.engine.findNodesNear(position, radius);
+  }
+  
+  private exchangesHeat(boundary: ThermalBoundary): boolean {
+    return (boundary.convectionCoefficient ?? 0) > 0 || (boundary.emissivity ?? 0) > 0;
+  }
+  
+  private getNodeIndex(): Map<number, number> {
+    const nodeIndex = new Map<number, number>();
+    this.engine.getNodes().forEach((node, index) => nodeIndex.set(node.id, index));
+    return nodeIndex;
   }
   
+  // Quarter of the volume (m³) of every tetrahedron around each node
+  private getNodeVolumes(nodeIndex: Map<number, number>): number[] {
+    const nodes = this.engine.getNodes();
+    const volumes = new Array<number>(nodes.length).fill(0);
+    this.engine.getElements().forEach(element => {
+      if (element.nodes.length !== 4) return;
+      const indices = element.nodes.map(id => nodeIndex.get(id) as number);
+      const geometry = tetrahedronGradients(
+        indices.map(index => nodes[index].position.clone().multiplyScalar(this.lengthUnit))
+      );
+      if (geometry) {
+        indices.forEach(index => (volumes[index] += geometry.volume / 4));
+      }
+    });
+    return volumes;
+  }
+  
+  /**
+   * Linear-tetrahedron heat conduction. Steady state solves K·T = f; transient
+   * analyses step (C/Δt + K)·Tⁿ⁺¹ = C/Δt·Tⁿ + f with backward Euler from the
+   * initial temperature, using a lumped heat capacity matrix C.
+   *
+   * Sources without power and boundaries without a convection coefficient or
+   * emissivity hold their temperature; the others add heat or exchange it with
+   * their surroundings through the surface inside their radius. Source schedules
+   * are evaluated at each step (at time zero for steady state).
+   *
+   * Lengths are in model units (see FEASolverOptions.lengthUnit), temperatures in
+   * Kelvin, gradients in K/m and heat fluxes in W/m².
+   */
   runAnalysis(): ThermalAnalysisResults {
     if (!this.params) {
       throw new Error('Analysis setup required before running');
     }
     
-    // This is a placeholder for a real thermal analysis solver
-    // In a real implementation, we would:
-    // 1. Assemble the thermal conductivity matrix
-    // 2. Apply boundary conditions
-    // 3. Solve the heat equation
-    // 4. Calculate temperatures, gradients and fluxes
+    const params = this.params;
+    const { material } = params;
+    const nodes = this.engine.getNodes();
+    const nodeIndex = this.getNodeIndex();
+    const elements = this.engine.getElements().filter(element => element.nodes.length === 4);
+    const size = nodes.length;
     
-    const nodeCount = this.engine['model'].nodes.length;
+    if (elements.length === 0) {
+      throw new Error('Thermal analysis requires a tetrahedral volume mesh');
+    }
+    if (!material.thermalConductivity || material.thermalConductivity <= 0) {
+      throw new Error(`Material "${material.name}" has no thermal conductivity`);
+    }
+    if (!params.steadyState) {
+      if (!material.specificHeat || material.specificHeat <= 0 || !(material.density > 0)) {
+        throw new Error(`Material "${material.name}" needs a density and specific heat for transient analysis`);
+      }
+      if (!params.simulationTime || params.simulationTime <= 0) {
+        throw new Error('Transient thermal analysis requires a positive simulation time');
+      }
+    }
     
-    // Generate placeholder temperature results
-    const temperatures: number[] = Array(nodeCount).fill(0).map((_, i) => {
-      // Generate some dummy temperatures based on position
-      return this.params!.ambientTemperature + Math.sin(i * 0.1) * 10;
-    });
+    const conductivity = material.thermalConductivity;
+    const volumetricHeat = params.steadyState ? 0 : material.density * (material.specificHeat as number);
     
-    // Calculate temperature extremes
-    const maxTemperature = Math.max(...temperatures);
-    const minTemperature = Math.min(...temperatures);
-    
-    // Generate placeholder thermal gradients and heat fluxes
-    const elementCount = this.engine['model'].elements.length;
-    const thermalGradients: Vector3[] = Array(elementCount).fill(0).map(() => {
-      return new Vector3(
-        Math.random() - 0.5,
-        Math.random() - 0.5,
-        Math.random() - 0.5
-      ).normalize().multiplyScalar(Math.random() * 100);
+    // Conductivity matrix K = Σ k·V·∇Nᵢ·∇Nⱼ and lumped capacity C = Σ ρ·c·V/4
+    const builder = new SparseMatrixBuilder(size);
+    const capacity = new Float64Array(size);
+    const connected = new Uint8Array(size);
+    const prepared = elements.map(element => {
+      const indices = element.nodes.map(id => {
+        const index = nodeIndex.get(id);
+        if (index === undefined) {
+          throw new Error(`Element ${element.id} references missing node ${id}`);
+        }
+        return index;
+      });
+      const geometry = tetrahedronGradients(
+        indices.map(index => nodes[index].position.clone().multiplyScalar(this.lengthUnit))
+      );
+      if (!geometry) {
+        throw new Error(`Element ${element.id} is degenerate (zero volume)`);
+      }
+      
+      indices.forEach((row, i) => {
+        connected[row] = 1;
+        capacity[row] += (volumetricHeat * geometry.volume) / 4;
+        indices.forEach((column, j) => {
+          builder.add(row, column, conductivity * geometry.volume * geometry.gradients[i].dot(geometry.gradients[j]));
+        });
+      });
+      return { indices, gradients: geometry.gradients };
     });
+    const stiffness = builder.build();
     
-    const heatFluxes: Vector3[] = thermalGradients.map(gradient => {
-      // Heat flux = -k * gradient, where k is thermal conductivity
-      // Using a simplified approach here
-      const k = this.params!.material.thermalConductivity || 1;
-      return gradient.clone().multiplyScalar(-k);
-    });
+    // Position of each diagonal entry, where capacity and surface exchange are added
+    const diagonalEntries = new Int32Array(size).fill(-1);
+    for (let row = 0; row < size; row++) {
+      for (let k = stiffness.rowPointers[row]; k < stiffness.rowPointers[row + 1]; k++) {
+        if (stiffness.columns[k] === row) diagonalEntries[row] = k;
+      }
+    }
     
-    // For transient analysis, generate temperature distributions over time
-    const temperatureDistribution: number[][] = [];
-    if (!this.params.steadyState) {
-      const timeSteps = this.params.timeSteps || 10;
-      for (let t = 0; t < timeSteps; t++) {
-        temperatureDistribution.push(
-          temperatures.map(temp => 
-            temp + Math.sin(t / timeSteps * Math.PI) * 5
-          )
-        );
+    const hasFixedTemperature = this.sourceRegions.some(region => region.source.power === undefined && region.nodes.length > 0) ||
+      this.boundaryRegions.some(region => !this.exchangesHeat(region.boundary) && region.nodes.length > 0);
+    const hasExchange = this.boundaryRegions.some(region => this.exchangesHeat(region.boundary) && region.nodes.length > 0);
+    if (params.steadyState && !hasFixedTemperature && !hasExchange) {
+      throw new Error('Steady-state thermal analysis needs a fixed temperature or a convection/radiation boundary');
+    }
+    
+    let iterations = 0;
+    let residual = 0;
+    // Steps whose radiation iteration stopped before settling, with the last change (K)
+    const unsettled: { time: number; change: number }[] = [];
+    
+    // Solve one steady state or backward-Euler step; `previous` is the last field
+    const solveStep = (time: number, timeStep: number, previous: Float64Array): Float64Array => {
+      const fixed = new Uint8Array(size);
+      const prescribed = new Float64Array(size);
+      const heatInput = new Float64Array(size);
+      
+      // Nodes outside every element keep their previous temperature
+      for (let i = 0; i < size; i++) {
+        if (!connected[i]) {
+          fixed[i] = 1;
+          prescribed[i] = previous[i];
+        }
       }
+      
+      this.boundaryRegions.forEach(({ boundary, nodes: regionNodes }) => {
+        if (this.exchangesHeat(boundary)) return;
+        regionNodes.forEach(index => {
+          fixed[index] = 1;
+          prescribed[index] = boundary.temperature;
+        });
+      });
+      
+      this.sourceRegions.forEach(({ source, nodes: regionNodes, weights }) => {
+        const factor = scheduleFactor(source.schedule, time);
+        if (factor === 0) return;
+        if (source.power !== undefined) {
+          regionNodes.forEach((index, i) => (heatInput[index] += source.power! * factor * weights[i]));
+        } else {
+          const temperature = params.ambientTemperature + factor * (source.temperature - params.ambientTemperature);
+          regionNodes.forEach(index => {
+            fixed[index] = 1;
+            prescribed[index] = temperature;
+          });
+        }
+      });
+      
+      let current: Float64Array = Float64Array.from(previous);
+      fixed.forEach((isFixed, i) => {
+        if (isFixed) current[i] = prescribed[i];
+      });
+      
+      const radiating = this.boundaryRegions.some(region => (region.boundary.emissivity ?? 0) > 0);
+      let change = 0;
+      let settled = false;
+      for (let pass = 0; pass < (radiating ? MAX_RADIATION_ITERATIONS : 1); pass++) {
+        const values = Float64Array.from(stiffness.values);
+        const rhs = Float64Array.from(heatInput);
+        
+        if (timeStep > 0) {
+          for (let i = 0; i < size; i++) {
+            if (!connected[i]) continue;
+            values[diagonalEntries[i]] += capacity[i] / timeStep;
+            rhs[i] += (capacity[i] / timeStep) * previous[i];
+          }
+        }
+        
+        this.boundaryRegions.forEach(({ boundary, nodes: regionNodes, areas }) => {
+          const surroundings = boundary.temperature;
+          const convection = boundary.convectionCoefficient ?? 0;
+          const radiation = (boundary.emissivity ?? 0) * STEFAN_BOLTZMANN;
+          regionNodes.forEach((index, i) => {
+            if (!connected[index]) return;
+            // q = h·(T - T∞) + εσ·(T⁴ - T∞⁴), the radiation term linearised at the latest T
+            const t = current[index];
+            const tangent = 4 * radiation * t * t * t;
+            values[diagonalEntries[index]] += (convection + tangent) * areas[i];
+            rhs[index] += areas[i] * (convection * surroundings + radiation * (3 * Math.pow(t, 4) + Math.pow(surroundings, 4)));
+          });
+        });
+        
+        const system = new CSRMatrix(size, stiffness.rowPointers, stiffness.columns, values);
+        const solution = conjugateGradient(system, rhs, { fixed, initialGuess: current, tolerance: 1e-10 });
+        if (!solution.converged) {
+          throw new Error(
+            `The thermal solver did not converge after ${solution.iterations} iterations ` +
+            `(residual ${solution.residual.toExponential(2)})`
+          );
+        }
+        iterations += solution.iterations;
+        residual = solution.residual;
+        
+        change = 0;
+        for (let i = 0; i < size; i++) change = Math.max(change, Math.abs(solution.solution[i] - current[i]));
+        current = solution.solution;
+        if (change < RADIATION_TOLERANCE) {
+          settled = true;
+          break;
+        }
+      }
+      if (radiating && !settled) {
+        unsettled.push({ time, change });
+      }
+      
+      return current;
+    };
+    
+    const initial = new Float64Array(size).fill(params.initialTemperature ?? params.ambientTemperature);
+    const temperatureDistribution: number[][] = [];
+    const timePoints: number[] = [];
+    let field: Float64Array;
+    
+    if (params.steadyState) {
+      field = solveStep(0, 0, initial);
+      temperatureDistribution.push(Array.from(field));
+      timePoints.push(0);
     } else {
-      temperatureDistribution.push(temperatures);
+      const steps = Math.max(1, Math.round(params.timeSteps || 10));
+      const timeStep = (params.simulationTime as number) / steps;
+      field = initial;
+      temperatureDistribution.push(Array.from(field));
+      timePoints.push(0);
+      for (let step = 1; step <= steps; step++) {
+        field = solveStep(step * timeStep, timeStep, field);
+        temperatureDistribution.push(Array.from(field));
+        timePoints.push(step * timeStep);
+      }
     }
     
+    const temperatures = Array.from(field);
+    
+    // Extremes over the whole history so an animated colour scale stays fixed
+    let maxTemperature = -Infinity;
+    let minTemperature = Infinity;
+    temperatureDistribution.forEach(distribution => distribution.forEach(temperature => {
+      maxTemperature = Math.max(maxTemperature, temperature);
+      minTemperature = Math.min(minTemperature, temperature);
+    }));
+    
+    // Constant gradient in each element, heat flux q = -k·∇T
+    const thermalGradients: Vector3[] = prepared.map(({ indices, gradients }) =>
+      indices.reduce((gradient, index, i) => gradient.add(gradients[i].clone().multiplyScalar(temperatures[index])), new Vector3())
+    );
+    const heatFluxes: Vector3[] = thermalGradients.map(gradient => gradient.clone().multiplyScalar(-conductivity));
+    
     // If thermal expansion is considered, calculate displacements
     const thermalExpansionDisplacements = temperatures.map((temp, i) => {
       // Calculate displacement based on thermal expansion
       // Simplified approach - real implementation would be more sophisticated
-      const alpha = this.params!.material.thermalExpansion || 0;
-      const deltaT = temp - this.params!.ambientTemperature;
-      const position = this.engine['model'].nodes[i].position;
+      const alpha = material.thermalExpansion || 0;
+      const deltaT = temp - params.ambientTemperature;
+      const position = nodes[i].position;
       
       // Displacement vector points outward from the center
       // Magnitude is proportional to temperature change and distance from center
@@ -152,17 +429,32 @@ export class ThermalAnalysis {
       return dir.multiplyScalar(magnitude);
     });
     
-    // Create placeholder base results
+    const elementCount = elements.length;
     const baseResults: SimulationResults = {
       displacements: thermalExpansionDisplacements,
       stresses: Array(elementCount).fill([0, 0, 0, 0, 0, 0]),
       strains: Array(elementCount).fill([0, 0, 0, 0, 0, 0]),
       vonMisesStress: Array(elementCount).fill(0),
-      maxDisplacement: Math.max(...thermalExpansionDisplacements.map(d => d.length())),
+      maxDisplacement: thermalExpansionDisplacements.reduce((max, d) => Math.max(max, d.length()), 0),
       maxStress: 0,
-      safetyFactor: Array(elementCount).fill(999)
+      safetyFactor: Array(elementCount).fill(999),
+      solverInfo: {
+        iterations,
+        residual,
+        converged: unsettled.length === 0
+      }
     };
     
+    const warnings: string[] = [];
+    if (unsettled.length > 0) {
+      const worst = unsettled.reduce((max, step) => (step.change > max.change ? step : max));
+      warnings.push(
+        `Radiation did not converge in ${MAX_RADIATION_ITERATIONS} iterations ` +
+        (params.steadyState ? '' : `in ${unsettled.length} of ${Math.max(1, Math.round(params.timeSteps || 10))} time steps `) +
+        `(last change ${worst.change.toFixed(3)} K${params.steadyState ? '' : ` at t = ${worst.time.toFixed(2)} s`}); temperatures are approximate`
+      );
+    }
+    
     this.results = {
       ...baseResults,
       temperatures,
@@ -171,7 +463,9 @@ export class ThermalAnalysis {
       maxTemperature,
       minTemperature,
       temperatureDistribution,
-      thermalExpansionDisplacements
+      timePoints,
+      thermalExpansionDisplacements,
+      warnings
     };
     
     return this.results;
@@ -0,0 +1,93 @@
+import * as THREE from 'three';
+import { Element } from 'src/store/elementsStore';
+import { Mesh } from '../../types/mesh';
+import { tessellateElement, TessellationOptions, TriangleMesh, weldTriangles } from '../importExport/tessellation';
+import { tetrahedralizeMesh } from '../wasm/wasmBridge';
+import type { VolumeMeshOptions, VolumeMeshQuality } from '../wasm/types';
+
+/**
+ * Tetrahedral volume meshing of closed CAD surfaces for the simulation engines.
+ *
+ * The meshing itself runs in the WASM optimizer: the surface is refined to the
+ * target element size (finer around holes, fillets and thin walls), filled with
+ * a body-centred lattice of interior nodes and triangulated, then improved by
+ * flips and smoothing. The resulting mesh carries its tetrahedra in
+ * geometry.userData.tetrahedra, which is what FEAEngine.importFromMesh reads;
+ * ensureVolumeMesh meshes the surfaces that come without them.
+ */
+
+export interface VolumeMeshingOptions extends VolumeMeshOptions {
+  /** Used when the surface comes from a CAD element */
+  tessellation?: TessellationOptions;
+}
+
+export interface VolumeMeshResult {
+  /** Boundary surface for rendering, with the tetrahedra attached to its geometry */
+  mesh: Mesh;
+  quality: VolumeMeshQuality;
+  /** Per-element metrics, in the order of the tetrahedra */
+  aspectRatios: Float32Array;
+  scaledJacobians: Float32Array;
+}
+
+export async function createVolumeMesh(
+  surface: TriangleMesh,
+  options: VolumeMeshingOptions = {}
+): Promise<VolumeMeshResult> {
+  if (surface.indices.length === 0) {
+    throw new Error('Cannot mesh an empty surface');
+  }
+
+  const { tessellation, ...meshingOptions } = options;
+  const data = await tetrahedralizeMesh(
+    new Float32Array(surface.positions),
+    new Uint32Array(surface.indices),
+    meshingOptions
+  );
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(data.vertices, 3));
+  geometry.setIndex(data.surface);
+  geometry.computeVertexNormals();
+  geometry.userData.tetrahedra = new Uint32Array(data.tetrahedra);
+
+  const mesh = new THREE.Mesh(geometry, new THREE.MeshStandardMaterial({ color: surface.color || '#9ca3af' })) as unknown as Mesh;
+  mesh.name = surface.name || 'Volume mesh';
+  mesh.userData = { type: 'solid' };
+
+  return {
+    mesh,
+    quality: data.quality,
+    aspectRatios: new Float32Array(data.aspectRatios),
+    scaledJacobians: new Float32Array(data.scaledJacobians)
+  };
+}
+
+export async function createVolumeMeshFromElement(
+  element: Element,
+  options: VolumeMeshingOptions = {}
+): Promise<VolumeMeshResult> {
+  const surface = tessellateElement(element, options.tessellation);
+  if (!surface) {
+    throw new Error(`Element "${element.name || element.id}" of type ${element.type} is not a closed solid`);
+  }
+  return createVolumeMesh(surface, options);
+}
+
+/**
+ * The mesh itself when it already carries tetrahedra, otherwise a volume mesh of its surface
+ */
+export async function ensureVolumeMesh(mesh: Mesh, options: VolumeMeshingOptions = {}): Promise<Mesh> {
+  if (mesh.geometry.userData?.tetrahedra) return mesh;
+
+  const positions = mesh.geometry.attributes.position?.array;
+  if (!positions || positions.length === 0) {
+    throw new Error(`Mesh "${mesh.name || mesh.uuid}" has no geometry to mesh`);
+  }
+  const surface = weldTriangles(positions, mesh.geometry.index?.array);
+  surface.name = mesh.name;
+
+  const { mesh: volume } = await createVolumeMesh(surface, options);
+  volume.userData = { ...mesh.userData, type: 'solid' };
+  return volume;
+}
@@ -1,4 +1,14 @@
 // src/lib/toolpath/3dprinterToolpaths.ts
+import { TriangleMesh, mergeMeshes, tessellateElement } from 'src/lib/importExport/tessellation';
+import { PrintFeature, PrintPath, sliceMesh } from './meshSlicer';
+import { orientForPrint, rotateMesh } from './printOrientation';
+import {
+    DEFAULT_EXTRUDER_SETTINGS,
+    ExtruderSettings,
+    MultiExtruderSettings,
+    assignExtruders,
+    sliceForExtruders
+} from './multiExtruder';
 
 /**
  * Integration Guide:
@@ -67,9 +77,17 @@ type PrinterSettings = {
     infillDensity: number; // Percentage 0-100
     infillPattern: string; // 'lines', 'grid', 'honeycomb', etc.
     shellCount: number; // Number of outer walls
-    supportType: string; // 'none', 'touching_buildplate', 'everywhere'
+    supportType: string; // 'none', 'minimal' (from the build plate only), 'full' (also on the model)
     supportOverhangAngle?: number;
     supportDensity?: number; // Percentage
+    supportStyle?: 'grid' | 'tree';
+    supportZGap?: number; // Gap between support and model (mm)
+    supportXYDistance?: number; // Distance between support and model sides (mm)
+    supportInterfaceLayers?: number; // Solid layers at the top of the support
+    printOrientation?: string; // 'original' or 'auto-optimal'
+    printRotation?: number[] | null; // Row-major 3x3 rotation chosen among the orientation candidates
+    topLayers?: number; // Solid layers at the top of the print
+    bottomLayers?: number; // Solid layers at the bottom of the print
     raftLayers?: number;
     brimWidth?: number;
     // Potentially add material type if it affects temps/speeds
@@ -1389,12 +1407,260 @@ function generateSupportForLayer(
     return { gcode: supportGCode, nextE };
 }
 
+// --- Mesh Slicing ---
+
+// Print speed of each feature relative to settings.printSpeed
+const FEATURE_SPEED: Record<PrintFeature, number> = {
+    'wall-outer': 0.5,
+    'wall-inner': 1,
+    'skin': 0.8,
+    'infill': 1,
+    'support': 1,
+    'support-interface': 0.8,
+    'prime-tower': 0.8,
+    'ooze-shield': 1
+};
+
+// Travels shorter than this stay inside the part and are not retracted
+const RETRACTION_MIN_TRAVEL = 2;
+
+interface ExtrusionState {
+    e: number;
+    position: Point2D | null;
+    /** Feature of the last path, for the ;TYPE: comments */
+    feature: string;
+    /** Retraction still to be recovered before the next extrusion (mm) */
+    retracted: number;
+}
+
+/**
+ * Triangle mesh of an element, including composites whose children are volumes.
+ * Returns null when nothing in it can be tessellated.
+ */
+function tessellatePrintable(element: any): TriangleMesh | null {
+    if ((element.type === 'composite' || element.type === 'component' || element.type === 'group') && Array.isArray(element.elements)) {
+        const merged = mergeMeshes(
+            element.elements
+                .map((child: any) => tessellatePrintable(child))
+                .filter((mesh: TriangleMesh | null): mesh is TriangleMesh => mesh !== null)
+        );
+        return merged.indices.length ? merged : null;
+    }
+    const mesh = tessellateElement(element);
+    return mesh && mesh.indices.length ? mesh : null;
+}
+
+/**
+ * Slices a triangle mesh (tessellated elements, imported STL) and generates the
+ * complete print: perimeters, top/bottom skins and infill for every layer.
+ */
+export function generate3DPrinterGCodeForMesh(mesh: TriangleMesh, settings: PrinterSettings): string {
+    const oriented = orientForPrint(mesh, settings.printOrientation, settings.printRotation, orientationOptionsOf(settings));
+    const result = sliceMesh(oriented.mesh, settings);
+    const retraction = { distance: settings.retractionDistance ?? 2, speed: settings.retractionSpeed || 60 };
+
+    let gcode = generatePrintStartGCode(settings);
+    gcode += `; Sliced mesh${mesh.name ? ` ${mesh.name}` : ''}: ${result.layers.length} layers\n`;
+    if (oriented.rotation) {
+        gcode += `; Orientation: rotation ${oriented.rotation.map(value => value.toFixed(4)).join(' ')}\n`;
+    }
+    if (result.overhangArea > 0) {
+        gcode += `; Overhangs: ${result.overhangArea.toFixed(0)} mm2, support: ${settings.supportType}\n`;
+    }
+    result.warnings.forEach(warning => {
+        gcode += `; WARNING: ${warning}\n`;
+    });
+
+    const state: ExtrusionState = { e: 0, position: null, feature: '', retracted: 0 };
+    let lastZ = 0;
+
+    result.layers.forEach(layer => {
+        gcode += `\n;LAYER:${layer.index}\n`;
+        lastZ = layer.z;
+        state.feature = '';
+        gcode += generatePathsGCode(layer.paths, layer, layerSpeedOf(layer.index, settings), state, settings, retraction);
+    });
+
+    gcode += generatePrintEndGCode(settings, lastZ);
+    return gcode;
+}
+
+/**
+ * Slices the elements with the extruders they are assigned to and generates
+ * the print with tool changes, prime tower and ooze shield (see multiExtruder.ts).
+ */
+export function generate3DPrinterGCodeForExtruders(elements: any[], settings: PrinterSettings, multi: MultiExtruderSettings): string {
+    const parts = assignExtruders(elements, multi);
+    if (!parts.length) {
+        return '; ERROR: Nothing printable in the elements assigned to the extruders\n';
+    }
+
+    // The parts turn together, with the orientation of the whole print
+    const oriented = orientForPrint(mergeMeshes(parts.map(part => part.mesh)), settings.printOrientation, settings.printRotation, orientationOptionsOf(settings));
+    const rotation = oriented.rotation;
+    if (rotation) parts.forEach(part => { part.mesh = rotateMesh(part.mesh, rotation); });
+    const result = sliceForExtruders(parts, settings, multi);
+    const extruder = (index: number): ExtruderSettings => multi.extruders[index] || DEFAULT_EXTRUDER_SETTINGS;
+    const retractionOf = (index: number) => ({ distance: extruder(index).retractionDistance, speed: extruder(index).retractionSpeed || 60 });
+
+    const firstLayer = result.layers.find(layer => layer.toolpaths.length > 0);
+    let active = firstLayer ? firstLayer.toolpaths[0].extruder : result.extruders[0] || 0;
+    // Extruders parked at a tool change, with their retraction
+    const parked: number[] = [];
+
+    let gcode = `T${active} ; Start with extruder ${active}\n`;
+    result.extruders.filter(index => index !== active).forEach(index => {
+        gcode += `M104 T${index} S${extruder(index).standbyTemperature} ; Preheat extruder ${index} to standby\n`;
+    });
+    gcode += generatePrintStartGCode({ ...settings, printTemperature: extruder(active).temperature });
+    gcode += `; Multi-extruder print: ${result.extruders.map(index => `T${index}`).join(', ')}, ${result.toolChanges} tool changes, ${result.layers.length} layers\n`;
+    if (rotation) {
+        gcode += `; Orientation: rotation ${rotation.map(value => value.toFixed(4)).join(' ')}\n`;
+    }
+    if (result.overhangArea > 0) {
+        gcode += `; Overhangs: ${result.overhangArea.toFixed(0)} mm2, support: ${settings.supportType}, T${multi.supportExtruder}, interface T${multi.supportInterfaceExtruder}\n`;
+    }
+    result.warnings.forEach(warning => {
+        gcode += `; WARNING: ${warning}\n`;
+    });
+
+    const state: ExtrusionState = { e: 0, position: null, feature: '', retracted: 0 };
+    let lastZ = 0;
+
+    const toolChange = (next: number): string => {
+        const from = extruder(active);
+        const to = extruder(next);
+        let change = `; Tool change T${active} -> T${next}\n`;
+        if (from.toolChangeRetraction > 0) {
+            change += `G1 E${(state.e - state.retracted - from.toolChangeRetraction).toFixed(5)} F${(from.retractionSpeed || 60) * 60} ; Park filament\n`;
+        }
+        parked[active] = state.retracted + Math.max(0, from.toolChangeRetraction);
+        change += `M104 T${active} S${from.standbyTemperature} ; Standby\n`;
+        change += `T${next}\n`;
+        change += `M109 T${next} S${to.temperature} ; Wait for extruder ${next} temperature\n`;
+        change += 'G92 E0\n';
+        // The parked filament is pushed back before the first extrusion, on the prime tower when there is one
+        state.e = parked[next] || 0;
+        state.retracted = parked[next] || 0;
+        state.feature = '';
+        active = next;
+        return change;
+    };
+
+    result.layers.forEach(layer => {
+        gcode += `\n;LAYER:${layer.index}\n`;
+        lastZ = layer.z;
+        state.feature = '';
+        const speed = layerSpeedOf(layer.index, settings);
+        const primed: number[] = [];
+        const prime = (band: { extruder: number; paths: PrintPath[] }) => {
+            primed.push(band.extruder);
+            gcode += generatePathsGCode(band.paths, layer, speed, state, settings, retractionOf(active));
+        };
+
+        if (layer.shield) {
+            gcode += generatePathsGCode([layer.shield], layer, speed, state, settings, retractionOf(active));
+        }
+        layer.toolpaths.forEach(toolpath => {
+            if (toolpath.extruder !== active) {
+                gcode += toolChange(toolpath.extruder);
+                const band = layer.tower.find(candidate => candidate.extruder === active);
+                if (band) prime(band);
+            }
+            gcode += generatePathsGCode(toolpath.paths, layer, speed, state, settings, retractionOf(active));
+        });
+        // The rest of the tower keeps up with the active extruder
+        layer.tower.filter(band => primed.indexOf(band.extruder) < 0).forEach(prime);
+    });
+
+    result.extruders.filter(index => index !== active).forEach(index => {
+        gcode += `M104 T${index} S0 ; Turn off extruder ${index}\n`;
+    });
+    gcode += generatePrintEndGCode({
+        ...settings,
+        retractionDistance: extruder(active).retractionDistance,
+        retractionSpeed: extruder(active).retractionSpeed
+    }, lastZ);
+    return gcode;
+}
+
+/**
+ * Orientation optimiser options from the printer settings
+ */
+function orientationOptionsOf(settings: PrinterSettings) {
+    return {
+        overhangAngle: settings.supportOverhangAngle,
+        layerHeight: settings.layerHeight,
+        extrusionWidth: settings.extrusionWidth,
+        printSpeed: settings.printSpeed,
+        infillDensity: settings.infillDensity,
+        shellCount: settings.shellCount,
+        supportDensity: settings.supportDensity
+    };
+}
+
+// The first layer goes down slowly for adhesion
+function layerSpeedOf(index: number, settings: PrinterSettings): number {
+    return index === 0 ? settings.printSpeed / 2 : settings.printSpeed;
+}
+
+/**
+ * Travels to and extrudes the paths of a layer, retracting on the longer travels
+ */
+function generatePathsGCode(
+    paths: PrintPath[],
+    layer: { z: number; height: number },
+    layerSpeed: number,
+    state: ExtrusionState,
+    settings: PrinterSettings,
+    retraction: { distance: number; speed: number }
+): string {
+    let gcode = '';
+    paths.forEach(path => {
+        const points = path.closed ? path.points.concat([path.points[0]]) : path.points;
+        if (points.length < 2) return;
+        if (path.feature !== state.feature) {
+            state.feature = path.feature;
+            gcode += `;TYPE:${path.feature}\n`;
+        }
+
+        const start = points[0];
+        const travel = state.position ? Math.hypot(start.x - state.position.x, start.y - state.position.y) : 0;
+        if (!state.retracted && retraction.distance > 0 && travel > RETRACTION_MIN_TRAVEL) {
+            gcode += `G1 E${(state.e - retraction.distance).toFixed(5)} F${retraction.speed * 60}\n`;
+            state.retracted = retraction.distance;
+        }
+        gcode += moveTo({ x: start.x, y: start.y, z: layer.z }, settings.travelSpeed || 150, state.e, 0).gcode;
+        if (state.retracted) {
+            gcode += `G1 E${state.e.toFixed(5)} F${retraction.speed * 60}\n`;
+            state.retracted = 0;
+        }
+
+        const speed = layerSpeed * FEATURE_SPEED[path.feature];
+        for (let i = 1; i < points.length; i++) {
+            const length = Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+            const extrusion = calculateExtrusion(length, layer.height, settings.extrusionWidth, settings.filamentDiameter);
+            const move = moveTo({ x: points[i].x, y: points[i].y, z: layer.z }, speed, state.e, extrusion);
+            gcode += move.gcode;
+            state.e = move.nextE;
+        }
+        state.position = points[points.length - 1];
+    });
+    return gcode;
+}
+
 // --- Composite Element Handling (Refactored for Slicing) ---
 
 /**
  * Generates 3D printer G-code for a composite element by slicing its sub-elements layer by layer.
  */
 export function generateCompositeElement3D(element: any, settings: PrinterSettings): string {
+    // Sub-elements that are volumes are merged and sliced as one mesh
+    const mesh = tessellatePrintable(element);
+    if (mesh) {
+        return generate3DPrinterGCodeForMesh(mesh, settings);
+    }
+
     let compositeGCode = `; Start Composite Element: ${element.id || 'composite'}\n`;
     let finalGCode = '';
     let lastZ = 0;
@@ -1514,6 +1780,12 @@ export function generateCompositeElement3D(element: any, settings: PrinterSettin
  * Calls the appropriate generator based on the element type.
  */
 export function generate3DPrinterGCodeForElement(element: any, settings: PrinterSettings): string {
+    // Volumes are sliced from their mesh; the generators below remain for text, lines and whatever cannot be tessellated
+    const mesh = tessellatePrintable(element);
+    if (mesh) {
+        return generate3DPrinterGCodeForMesh(mesh, settings);
+    }
+
     let elementGCode = '';
     let lastZ = 0; // Track the highest Z point reached
 
@@ -0,0 +1,447 @@
+// src/lib/toolpath/meshSlicer.ts
+import { TriangleMesh } from 'src/lib/importExport/tessellation';
+import {
+    ExPolygon,
+    Intervals,
+    Point2D,
+    Polygon,
+    Segment2D,
+    buildExPolygons,
+    exPolygonSegments,
+    insetRegions,
+    intersectIntervals,
+    pointInExPolygon,
+    polygonArea,
+    polygonSegments,
+    scanIntervals,
+    subtractIntervals
+} from './slicerGeometry';
+import { DEFAULT_SUPPORT_SETTINGS, SupportPlacement, SupportSettings, SupportStyle, generateSupports } from './printSupports';
+
+/**
+ * Slicer for triangle meshes, such as tessellated CAD elements and imported STL.
+ *
+ * 1. Every layer is cut at its mid-height. The cut segments of each triangle
+ *    are oriented by its winding, seen from outside, and joined through the
+ *    mesh edges they cross into closed loops; counter-clockwise loops are islands and
+ *    clockwise loops their holes.
+ * 2. The perimeters are the contours at (k + 1/2) extrusion widths inside the
+ *    outline, for k below the shell count, printed from the inside out.
+ * 3. Inside the last perimeter, the area not covered by the outlines of all
+ *    the layers within the top and bottom skin thickness is solid skin; the
+ *    rest gets the sparse infill pattern. Both are clipped to the area along
+ *    scanlines, so every pattern is a set of (possibly dashed) line families:
+ *    lines, a grid of two, triangles of three and a honeycomb of three dashed
+ *    families.
+ * 4. Overhangs get grid or tree supports (see printSupports.ts), printed
+ *    first on every layer.
+ *
+ * The print sits on the bed at Z0 with the lowest point of the mesh, or at
+ * `baseZ` when several meshes share the bed; XY are the coordinates of the mesh.
+ */
+
+export type PrintFeature =
+    | 'wall-outer' | 'wall-inner' | 'skin' | 'infill' | 'support' | 'support-interface' | 'prime-tower' | 'ooze-shield';
+
+export interface PrintPath {
+    feature: PrintFeature;
+    points: Point2D[];
+    /** Closed loops return to their first point */
+    closed: boolean;
+}
+
+export interface PrintLayer {
+    index: number;
+    /** Height of the top of the layer above the bed */
+    z: number;
+    height: number;
+    /** Cross-section of the mesh at the middle of the layer */
+    islands: ExPolygon[];
+    paths: PrintPath[];
+}
+
+export interface SlicerSettings {
+    layerHeight: number;
+    firstLayerHeight?: number;
+    extrusionWidth: number;
+    shellCount: number;
+    /** Percentage 0-100 */
+    infillDensity: number;
+    infillPattern: string;
+    /** Solid layers at the top and bottom; by default at least 0.8 mm of each */
+    topLayers?: number;
+    bottomLayers?: number;
+    /** Overlap of the infill with the innermost perimeter, as a fraction of the extrusion width */
+    infillOverlap?: number;
+    /** Grid spacing of the inset computation; by default a fifth of the extrusion width */
+    resolution?: number;
+    /** 'none', 'minimal' (from the build plate only) or 'full' */
+    supportType?: string;
+    supportStyle?: SupportStyle;
+    supportOverhangAngle?: number;
+    supportZGap?: number;
+    supportXYDistance?: number;
+    supportInterfaceLayers?: number;
+    /** Percentage 0-100 */
+    supportDensity?: number;
+    /** Height of the bed in mesh coordinates; by default the lowest point of the mesh */
+    baseZ?: number;
+}
+
+export interface SliceResult {
+    layers: PrintLayer[];
+    /** Mesh bounds; the print is shifted down by minZ, or by baseZ when given */
+    bounds: { minX: number; minY: number; minZ: number; maxX: number; maxY: number; maxZ: number };
+    /** Overhanging area that needs support (mm²) */
+    overhangArea: number;
+    warnings: string[];
+}
+
+interface Slice {
+    segments: Segment2D[];
+    loops: Polygon[];
+    openChains: number;
+}
+
+// Families of parallel lines per infill pattern: angle, spacing in extrusion widths at 100 %, dashed
+const PATTERNS: Record<string, { angles: number[]; spacing: number; dashed?: boolean; alternate?: boolean }> = {
+    lines: { angles: [45], spacing: 1, alternate: true },
+    grid: { angles: [45, 135], spacing: 2 },
+    triangles: { angles: [0, 60, 120], spacing: 3 },
+    // Hexagons of side a: three families of dashed lines a * sqrt(3) / 2 apart, 2 / (sqrt(3) a) of line per area
+    honeycomb: { angles: [0, 60, 120], spacing: 1, dashed: true }
+};
+
+const DEGREES = Math.PI / 180;
+
+/**
+ * Cut the mesh at height z into oriented segments and loops
+ */
+function sliceAt(mesh: TriangleMesh, triangles: number[], z: number): Slice {
+    const p = mesh.positions;
+    const vertexCount = p.length / 3;
+    const segments: Segment2D[] = [];
+    const starts = new Map<number, number>();
+    const ends: number[] = [];
+
+    // Crossing of the edge between two vertices, computed from the lower index so that both triangles agree
+    const crossing = (i: number, j: number): { key: number; point: Point2D } => {
+        const a = Math.min(i, j);
+        const b = Math.max(i, j);
+        const t = (z - p[a * 3 + 2]) / (p[b * 3 + 2] - p[a * 3 + 2]);
+        return {
+            key: a * vertexCount + b,
+            point: { x: p[a * 3] + t * (p[b * 3] - p[a * 3]), y: p[a * 3 + 1] + t * (p[b * 3 + 1] - p[a * 3 + 1]) }
+        };
+    };
+
+    triangles.forEach(t => {
+        const v = [mesh.indices[t * 3], mesh.indices[t * 3 + 1], mesh.indices[t * 3 + 2]];
+        // Vertices on the plane count as above it
+        const above = v.map(index => p[index * 3 + 2] >= z);
+        if (above[0] === above[1] && above[1] === above[2]) return;
+        // Walking around the counter-clockwise (outward) triangle, the cut runs from the edge going
+        // down through the plane to the edge going up, which keeps the material on its left.
+        // Deciding by topology rather than by the normal keeps segments through a vertex oriented.
+        let from: { key: number; point: Point2D } | null = null;
+        let to: { key: number; point: Point2D } | null = null;
+        for (let e = 0; e < 3; e++) {
+            const next = (e + 1) % 3;
+            if (above[e] && !above[next]) from = crossing(v[e], v[next]);
+            else if (!above[e] && above[next]) to = crossing(v[e], v[next]);
+        }
+        if (!from || !to) return;
+        starts.set(from.key, segments.length);
+        ends.push(to.key);
+        segments.push({ a: from.point, b: to.point });
+    });
+
+    // Join the segments through the edges they share
+    const loops: Polygon[] = [];
+    const used = new Uint8Array(segments.length);
+    let openChains = 0;
+    segments.forEach((_, first) => {
+        if (used[first]) return;
+        const loop: Polygon = [];
+        let index: number | undefined = first;
+        while (index !== undefined && !used[index]) {
+            used[index] = 1;
+            const point = segments[index].a;
+            const last = loop[loop.length - 1];
+            if (!last || last.x !== point.x || last.y !== point.y) loop.push(point);
+            index = starts.get(ends[index]);
+        }
+        if (index !== first) openChains++;
+        else if (loop.length >= 3) loops.push(loop);
+    });
+    return { segments, loops, openChains };
+}
+
+/**
+ * Slice a mesh into layers of perimeters, skins and infill
+ */
+export function sliceMesh(mesh: TriangleMesh, settings: SlicerSettings): SliceResult {
+    const warnings: string[] = [];
+    const width = settings.extrusionWidth;
+    const layerHeight = settings.layerHeight;
+    const firstLayerHeight = settings.firstLayerHeight || layerHeight;
+    const shellCount = Math.max(0, Math.round(settings.shellCount));
+    const topLayers = settings.topLayers ?? Math.max(1, Math.ceil(0.8 / layerHeight - 1e-9));
+    const bottomLayers = settings.bottomLayers ?? Math.max(1, Math.ceil(0.8 / layerHeight - 1e-9));
+    const overlap = (settings.infillOverlap ?? 0.15) * width;
+    const resolution = settings.resolution || width / 5;
+    const density = Math.max(0, Math.min(100, settings.infillDensity)) / 100;
+
+    const p = mesh.positions;
+    const bounds = { minX: Infinity, minY: Infinity, minZ: Infinity, maxX: -Infinity, maxY: -Infinity, maxZ: -Infinity };
+    for (let i = 0; i < p.length; i += 3) {
+        bounds.minX = Math.min(bounds.minX, p[i]);
+        bounds.maxX = Math.max(bounds.maxX, p[i]);
+        bounds.minY = Math.min(bounds.minY, p[i + 1]);
+        bounds.maxY = Math.max(bounds.maxY, p[i + 1]);
+        bounds.minZ = Math.min(bounds.minZ, p[i + 2]);
+        bounds.maxZ = Math.max(bounds.maxZ, p[i + 2]);
+    }
+    if (!mesh.indices.length || !(bounds.maxZ > bounds.minZ)) {
+        return { layers: [], bounds, overhangArea: 0, warnings: ['The mesh has no volume to slice'] };
+    }
+
+    // Layer tops above the bed
+    const base = settings.baseZ ?? bounds.minZ;
+    const tops: number[] = [];
+    const height = bounds.maxZ - base;
+    for (let top = firstLayerHeight; top < height + layerHeight / 2; top += layerHeight) tops.push(Math.min(top, height + layerHeight / 2));
+    if (!tops.length) tops.push(firstLayerHeight);
+
+    // Sweep the triangles sorted by their lowest vertex
+    const triangleCount = mesh.indices.length / 3;
+    const lowest = new Float64Array(triangleCount);
+    const highest = new Float64Array(triangleCount);
+    const order: number[] = [];
+    for (let t = 0; t < triangleCount; t++) {
+        const za = p[mesh.indices[t * 3] * 3 + 2], zb = p[mesh.indices[t * 3 + 1] * 3 + 2], zc = p[mesh.indices[t * 3 + 2] * 3 + 2];
+        lowest[t] = Math.min(za, zb, zc);
+        highest[t] = Math.max(za, zb, zc);
+        order.push(t);
+    }
+    order.sort((a, b) => lowest[a] - lowest[b]);
+    let next = 0;
+    let active: number[] = [];
+    let openChains = 0;
+
+    const slices: Slice[] = [];
+    const outlines: Segment2D[][] = [];
+    tops.forEach((top, index) => {
+        const bottom = index === 0 ? 0 : tops[index - 1];
+        const z = base + (bottom + top) / 2;
+        while (next < order.length && lowest[order[next]] <= z) active.push(order[next++]);
+        active = active.filter(t => highest[t] >= z);
+        const slice = sliceAt(mesh, active, z);
+        openChains += slice.openChains;
+        slices.push(slice);
+        // Only the loops are trusted: segments of open chains would leak through the winding rule
+        outlines.push(polygonSegments(slice.loops));
+    });
+    if (openChains) warnings.push(`${openChains} open contours were ignored; the mesh is not closed`);
+
+    const pattern = PATTERNS[settings.infillPattern] || PATTERNS.lines;
+    if (!PATTERNS[settings.infillPattern]) warnings.push(`Infill pattern '${settings.infillPattern}' is not supported; lines are used`);
+
+    // Scanline intervals of a region in a line family's frame, for lines v = k * spacing
+    const familyLines = (segments: Segment2D[], angle: number, spacing: number): { first: number; count: number; intervals: Intervals[] } => {
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        let low = Infinity;
+        let high = -Infinity;
+        segments.forEach(({ a }) => {
+            const v = -a.x * sin + a.y * cos;
+            low = Math.min(low, v);
+            high = Math.max(high, v);
+        });
+        if (low > high) return { first: 0, count: 0, intervals: [] };
+        const kFirst = Math.ceil(low / spacing);
+        const count = Math.max(0, Math.floor(high / spacing) - kFirst + 1);
+        return { first: kFirst, count, intervals: scanIntervals(segments, angle, kFirst * spacing, spacing, count) };
+    };
+
+    // Lines of one family inside `area`, split into the parts covered by the outlines of the neighbouring layers or not
+    const clipFamily = (
+        area: Segment2D[], covering: Segment2D[][], angle: number, spacing: number, keepCovered: boolean,
+        dash?: { length: number; period: number }
+    ): Point2D[][] => {
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        const lines = familyLines(area, angle, spacing);
+        const covers = covering.map(segments => scanIntervals(segments, angle, lines.first * spacing, spacing, lines.count));
+        const result: Point2D[][] = [];
+        lines.intervals.forEach((intervals, k) => {
+            let covered: Intervals | null = null;
+            covers.forEach(cover => { covered = covered ? intersectIntervals(covered, cover[k]) : cover[k]; });
+            let parts = keepCovered
+                ? intersectIntervals(intervals, covered || [])
+                : subtractIntervals(intervals, covered || []);
+            const row = lines.first + k;
+            const v = row * spacing;
+            if (dash) {
+                // Dashes centred on multiples of the period, shifted by half a period on odd rows
+                const shift = (row & 1) * dash.period / 2;
+                const dashes: Intervals = [];
+                parts.forEach(([from, to]) => {
+                    const nFirst = Math.floor((from - shift + dash.length / 2) / dash.period);
+                    for (let n = nFirst; n * dash.period + shift - dash.length / 2 < to; n++) {
+                        const start = n * dash.period + shift - dash.length / 2;
+                        const end = Math.min(to, start + dash.length);
+                        if (end > Math.max(from, start)) dashes.push([Math.max(from, start), end]);
+                    }
+                });
+                parts = dashes;
+            }
+            parts.forEach(([from, to]) => {
+                if (to - from < width / 2) return;
+                result.push([
+                    { x: from * cos - v * sin, y: from * sin + v * cos },
+                    { x: to * cos - v * sin, y: to * sin + v * cos }
+                ]);
+            });
+        });
+        return result;
+    };
+
+    const distances: number[] = [];
+    for (let k = 0; k < shellCount; k++) distances.push((k + 0.5) * width);
+    const infillDistance = Math.max(shellCount * width - overlap, shellCount ? width / 2 : 0);
+
+    const layers: PrintLayer[] = tops.map((top, index) => {
+        const outline = outlines[index];
+        const layerHeightHere = index === 0 ? top : top - tops[index - 1];
+        const islands = buildExPolygons(slices[index].loops.filter(loop => Math.abs(polygonArea(loop)) > 1e-9));
+        const paths: PrintPath[] = [];
+        if (!outline.length) return { index, z: top, height: layerHeightHere, islands, paths };
+
+        const insets = insetRegions(outline, distances.concat(infillDistance > 0 ? [infillDistance] : []), { resolution });
+        const walls = insets.slice(0, shellCount);
+        const infillArea = infillDistance > 0 ? exPolygonSegments(insets[shellCount]) : outline;
+
+        // Walls of each outer wall region from the inside out, so that the outer wall is laid against the inner ones
+        (walls[0] || []).forEach(region => {
+            for (let k = shellCount - 1; k >= 0; k--) {
+                walls[k].forEach(inner => {
+                    if (k > 0 && !pointInExPolygon(inner.outer[0], region)) return;
+                    if (k === 0 && inner !== region) return;
+                    [inner.outer, ...inner.holes].forEach(loop => {
+                        paths.push({ feature: k === 0 ? 'wall-outer' : 'wall-inner', points: loop, closed: true });
+                    });
+                });
+            }
+        });
+
+        // Skin where any layer within the skin thickness above or below has no material
+        const covering: Segment2D[][] = [];
+        for (let j = index - bottomLayers; j <= index + topLayers; j++) {
+            if (j === index) continue;
+            covering.push(j >= 0 && j < outlines.length ? outlines[j] : []);
+        }
+        const skinAngle = (index % 2 ? 135 : 45) * DEGREES;
+        clipFamily(infillArea, covering, skinAngle, width, false).forEach(points => paths.push({ feature: 'skin', points, closed: false }));
+
+        if (density > 0) {
+            if (pattern.dashed) {
+                const side = (2 * width) / (Math.sqrt(3) * density);
+                pattern.angles.forEach(angle => {
+                    clipFamily(infillArea, covering, angle * DEGREES, (side * Math.sqrt(3)) / 2, true, { length: side, period: 3 * side })
+                        .forEach(points => paths.push({ feature: 'infill', points, closed: false }));
+                });
+            } else {
+                const spacing = (pattern.spacing * width) / density;
+                const angles = pattern.alternate ? [pattern.angles[0] + (index % 2) * 90] : pattern.angles;
+                angles.forEach(angle => {
+                    clipFamily(infillArea, covering, angle * DEGREES, spacing, true)
+                        .forEach(points => paths.push({ feature: 'infill', points, closed: false }));
+                });
+            }
+        }
+
+        return { index, z: top, height: layerHeightHere, islands, paths };
+    });
+
+    const placement = (['minimal', 'full'].indexOf(settings.supportType || '') >= 0 ? settings.supportType : 'none') as SupportPlacement;
+    const supports = generateSupports(
+        layers.map((layer, index) => ({ outline: outlines[index], height: layer.height })),
+        placement,
+        supportSettingsOf(settings),
+        width
+    );
+    warnings.push(...supports.warnings);
+    layers.forEach((layer, index) => {
+        layer.paths = orderPaths(supports.paths[index].concat(layer.paths));
+    });
+
+    return { layers, bounds, overhangArea: supports.overhangArea, warnings };
+}
+
+/**
+ * Support settings of the slicer settings, with the defaults for those not given
+ */
+export function supportSettingsOf(settings: SlicerSettings): SupportSettings {
+    return {
+        style: settings.supportStyle || DEFAULT_SUPPORT_SETTINGS.style,
+        overhangAngle: settings.supportOverhangAngle ?? DEFAULT_SUPPORT_SETTINGS.overhangAngle,
+        zGap: settings.supportZGap ?? DEFAULT_SUPPORT_SETTINGS.zGap,
+        xyDistance: settings.supportXYDistance ?? DEFAULT_SUPPORT_SETTINGS.xyDistance,
+        interfaceLayers: settings.supportInterfaceLayers ?? DEFAULT_SUPPORT_SETTINGS.interfaceLayers,
+        density: settings.supportDensity ?? DEFAULT_SUPPORT_SETTINGS.density
+    };
+}
+
+// Print order of the features within a layer; walls keep the order they were planned in
+const FEATURE_ORDER: PrintFeature[][] = [['support'], ['support-interface'], ['wall-inner', 'wall-outer'], ['skin'], ['infill']];
+
+/**
+ * Print order within a layer: supports, walls, skin and infill. Loops keep
+ * their order and start at the vertex nearest to the previous path; lines go
+ * by nearest neighbour, reversed when their other end is closer.
+ */
+export function orderPaths(paths: PrintPath[]): PrintPath[] {
+    const ordered: PrintPath[] = [];
+    let position: Point2D | null = null;
+    const distance = (a: Point2D, b: Point2D) => (a.x - b.x) ** 2 + (a.y - b.y) ** 2;
+
+    FEATURE_ORDER.forEach(features => {
+        const group = paths.filter(path => features.indexOf(path.feature) >= 0);
+
+        group.filter(path => path.closed).forEach(path => {
+            let start = 0;
+            if (position) {
+                const from: Point2D = position;
+                path.points.forEach((point, index) => {
+                    if (distance(point, from) < distance(path.points[start], from)) start = index;
+                });
+            }
+            const points = path.points.slice(start).concat(path.points.slice(0, start));
+            ordered.push({ ...path, points });
+            position = points[0];
+        });
+
+        const remaining = group.filter(path => !path.closed);
+        while (remaining.length) {
+            let best = 0;
+            let reverse = false;
+            let bestDistance = Infinity;
+            remaining.forEach((path, index) => {
+                if (!position) {
+                    bestDistance = 0;
+                    return;
+                }
+                const first = distance(path.points[0], position);
+                const last = distance(path.points[path.points.length - 1], position);
+                if (first < bestDistance) { bestDistance = first; best = index; reverse = false; }
+                if (last < bestDistance) { bestDistance = last; best = index; reverse = true; }
+            });
+            const path = remaining.splice(best, 1)[0];
+            const points = reverse ? path.points.slice().reverse() : path.points;
+            ordered.push({ ...path, points });
+            position = points[points.length - 1];
+        }
+    });
+    return ordered;
+}
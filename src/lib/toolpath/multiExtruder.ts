@@ -0,0 +1,338 @@
+// src/lib/toolpath/multiExtruder.ts
+import { TriangleMesh, mergeMeshes, tessellateElement } from 'src/lib/importExport/tessellation';
+import { PrintPath, SliceResult, SlicerSettings, orderPaths, sliceMesh, supportSettingsOf } from './meshSlicer';
+import { Point2D, Segment2D, exPolygonSegments } from './slicerGeometry';
+import { SupportPlacement, generateSupports } from './printSupports';
+
+/**
+ * Multi-extruder printing (T0-T3).
+ *
+ * Elements, or the layers of the layer store they belong to, are assigned to
+ * extruders; the children of groups and composites print with the extruder of
+ * their parent unless they are assigned themselves. The meshes of every
+ * extruder are sliced on the same layers, while the supports are computed once
+ * for the whole print and go to the support extruder, their interface to the
+ * interface extruder (a soluble material, for example).
+ *
+ * Within a layer the active extruder prints first, then the others by index.
+ * After a tool change the new extruder purges its band of the prime tower; the
+ * bands of extruders that did not come in on the layer are printed at its end,
+ * so the tower grows evenly. The ooze shield is a single wall around the print
+ * that catches the drips of the idle nozzles. Both stop after the last tool
+ * change.
+ *
+ * Overlapping volumes of different extruders are printed by both.
+ */
+
+export const MAX_EXTRUDERS = 4;
+
+export interface ExtruderSettings {
+    /** °C while printing */
+    temperature: number;
+    /** °C while another extruder prints; 0 switches it off */
+    standbyTemperature: number;
+    /** mm, on travels */
+    retractionDistance: number;
+    /** mm/s */
+    retractionSpeed: number;
+    /** mm, when the extruder is parked at a tool change */
+    toolChangeRetraction: number;
+}
+
+export interface PrimeTowerSettings {
+    enabled: boolean;
+    /** Side of the square tower (mm) */
+    size: number;
+    /** Centre of the tower; by default beside the print */
+    x?: number;
+    y?: number;
+}
+
+export interface OozeShieldSettings {
+    enabled: boolean;
+    /** Distance from the print (mm) */
+    distance: number;
+}
+
+export type ExtruderAssignment = 'element' | 'layer';
+
+export interface MultiExtruderSettings {
+    /** Extruders on the printer, 1-4 */
+    count: number;
+    extruders: ExtruderSettings[];
+    assignBy: ExtruderAssignment;
+    /** Extruder of each element id, or of each layer id */
+    assignments: Record<string, number>;
+    /** Extruder of whatever is not assigned */
+    defaultExtruder: number;
+    supportExtruder: number;
+    supportInterfaceExtruder: number;
+    primeTower: PrimeTowerSettings;
+    oozeShield: OozeShieldSettings;
+}
+
+export const DEFAULT_EXTRUDER_SETTINGS: ExtruderSettings = {
+    temperature: 210,
+    standbyTemperature: 175,
+    retractionDistance: 2,
+    retractionSpeed: 60,
+    toolChangeRetraction: 10
+};
+
+export const DEFAULT_MULTI_EXTRUDER_SETTINGS: MultiExtruderSettings = {
+    count: 1,
+    extruders: [0, 1, 2, 3].map(() => ({ ...DEFAULT_EXTRUDER_SETTINGS })),
+    assignBy: 'element',
+    assignments: {},
+    defaultExtruder: 0,
+    supportExtruder: 0,
+    supportInterfaceExtruder: 0,
+    primeTower: { enabled: true, size: 20 },
+    oozeShield: { enabled: false, distance: 3 }
+};
+
+export interface ExtruderPart {
+    extruder: number;
+    mesh: TriangleMesh;
+}
+
+export interface ExtruderToolpath {
+    extruder: number;
+    paths: PrintPath[];
+}
+
+export interface MultiExtruderLayer {
+    index: number;
+    /** Height of the top of the layer above the bed */
+    z: number;
+    height: number;
+    /** Paths of each extruder, in print order */
+    toolpaths: ExtruderToolpath[];
+    /** Band of the prime tower of each extruder, below the last tool change */
+    tower: ExtruderToolpath[];
+    /** Printed first on the layer by the active extruder */
+    shield: PrintPath | null;
+}
+
+export interface MultiExtruderSlice {
+    layers: MultiExtruderLayer[];
+    /** Extruders that print, by index */
+    extruders: number[];
+    toolChanges: number;
+    overhangArea: number;
+    warnings: string[];
+}
+
+// Gap between the print, or its ooze shield, and a prime tower placed beside it (mm)
+const TOWER_GAP = 5;
+// Points around each hull vertex when the ooze shield is offset
+const SHIELD_SEGMENTS = 16;
+
+function extruderCount(settings: MultiExtruderSettings): number {
+    return Math.max(1, Math.min(MAX_EXTRUDERS, Math.round(settings.count) || 1));
+}
+
+function clampExtruder(extruder: number, count: number): number {
+    return Math.max(0, Math.min(count - 1, Math.round(extruder) || 0));
+}
+
+/**
+ * Meshes of the elements, merged per extruder
+ */
+export function assignExtruders(elements: any[], settings: MultiExtruderSettings): ExtruderPart[] {
+    const count = extruderCount(settings);
+    const meshes: TriangleMesh[][] = [];
+
+    const visit = (element: any, inherited: number) => {
+        if (!element) return;
+        const key = settings.assignBy === 'layer' ? element.layerId : element.id;
+        const assigned = key !== undefined ? settings.assignments[key] : undefined;
+        const extruder = assigned !== undefined ? clampExtruder(assigned, count) : inherited;
+        if ((element.type === 'composite' || element.type === 'component' || element.type === 'group') && Array.isArray(element.elements)) {
+            element.elements.forEach((child: any) => visit(child, extruder));
+            return;
+        }
+        const mesh = tessellateElement(element);
+        if (!mesh || !mesh.indices.length) return;
+        (meshes[extruder] = meshes[extruder] || []).push(mesh);
+    };
+    elements.forEach(element => visit(element, clampExtruder(settings.defaultExtruder, count)));
+
+    const parts: ExtruderPart[] = [];
+    meshes.forEach((list, extruder) => {
+        if (list && list.length) parts.push({ extruder, mesh: mergeMeshes(list) });
+    });
+    return parts;
+}
+
+/**
+ * Convex hull, counter-clockwise (monotone chain)
+ */
+function convexHull(points: Point2D[]): Point2D[] {
+    const sorted = points.slice().sort((a, b) => a.x - b.x || a.y - b.y);
+    if (sorted.length < 3) return sorted;
+    const cross = (o: Point2D, a: Point2D, b: Point2D) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+    const lower: Point2D[] = [];
+    const upper: Point2D[] = [];
+    sorted.forEach(point => {
+        while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) lower.pop();
+        lower.push(point);
+    });
+    for (let i = sorted.length - 1; i >= 0; i--) {
+        while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], sorted[i]) <= 0) upper.pop();
+        upper.push(sorted[i]);
+    }
+    return lower.slice(0, -1).concat(upper.slice(0, -1));
+}
+
+/**
+ * Lines filling a rectangle, along Y or along X, in alternate directions
+ */
+function fillRectangle(minX: number, minY: number, maxX: number, maxY: number, width: number, alongY: boolean): Point2D[][] {
+    const lines: Point2D[][] = [];
+    const from = (alongY ? minX : minY) + width / 2;
+    const to = (alongY ? maxX : maxY) - width / 2;
+    for (let v = from, k = 0; v <= to + 1e-9; v += width, k++) {
+        const line = alongY
+            ? [{ x: v, y: minY + width / 2 }, { x: v, y: maxY - width / 2 }]
+            : [{ x: minX + width / 2, y: v }, { x: maxX - width / 2, y: v }];
+        lines.push(k % 2 ? line.reverse() : line);
+    }
+    return lines;
+}
+
+/**
+ * Slice the parts of every extruder on common layers, with shared supports,
+ * prime tower and ooze shield
+ */
+export function sliceForExtruders(parts: ExtruderPart[], slicerSettings: SlicerSettings, settings: MultiExtruderSettings): MultiExtruderSlice {
+    const warnings: string[] = [];
+    const width = slicerSettings.extrusionWidth;
+    const count = extruderCount(settings);
+
+    // All the parts sit on the bed at the lowest point of the print
+    let baseZ = Infinity;
+    parts.forEach(part => {
+        for (let i = 2; i < part.mesh.positions.length; i += 3) baseZ = Math.min(baseZ, part.mesh.positions[i]);
+    });
+    const slices: SliceResult[] = parts.map(part => sliceMesh(part.mesh, { ...slicerSettings, supportType: 'none', baseZ }));
+    slices.forEach(slice => slice.warnings.forEach(warning => {
+        if (warnings.indexOf(warning) < 0) warnings.push(warning);
+    }));
+
+    const layerCount = Math.max(0, ...slices.map(slice => slice.layers.length));
+    const frames: { z: number; height: number }[] = [];
+    for (let index = 0; index < layerCount; index++) {
+        const slice = slices.find(candidate => index < candidate.layers.length);
+        frames.push({ z: slice ? slice.layers[index].z : 0, height: slice ? slice.layers[index].height : 0 });
+    }
+
+    // Supports of the whole print: the islands of all the parts together, by the winding rule
+    const outlines: Segment2D[][] = frames.map((_, index) => {
+        const segments: Segment2D[] = [];
+        slices.forEach(slice => {
+            if (index < slice.layers.length) segments.push(...exPolygonSegments(slice.layers[index].islands));
+        });
+        return segments;
+    });
+    const placement = (['minimal', 'full'].indexOf(slicerSettings.supportType || '') >= 0 ? slicerSettings.supportType : 'none') as SupportPlacement;
+    const supports = generateSupports(
+        frames.map((frame, index) => ({ outline: outlines[index], height: frame.height })),
+        placement,
+        supportSettingsOf(slicerSettings),
+        width
+    );
+    warnings.push(...supports.warnings);
+    const supportExtruder = clampExtruder(settings.supportExtruder, count);
+    const interfaceExtruder = clampExtruder(settings.supportInterfaceExtruder, count);
+
+    // Paths of each extruder, the active one first on every layer
+    let active: number | null = null;
+    let toolChanges = 0;
+    let lastChange = -1;
+    const used: number[] = [];
+    const layers: MultiExtruderLayer[] = frames.map((frame, index) => {
+        const byExtruder: PrintPath[][] = [];
+        const add = (extruder: number, paths: PrintPath[]) => {
+            if (paths.length) byExtruder[extruder] = (byExtruder[extruder] || []).concat(paths);
+        };
+        add(supportExtruder, supports.paths[index].filter(path => path.feature === 'support'));
+        add(interfaceExtruder, supports.paths[index].filter(path => path.feature === 'support-interface'));
+        slices.forEach((slice, part) => {
+            if (index < slice.layers.length) add(parts[part].extruder, slice.layers[index].paths);
+        });
+
+        const extruders: number[] = [];
+        byExtruder.forEach((paths, extruder) => {
+            if (paths) extruders.push(extruder);
+        });
+        if (active !== null && extruders.indexOf(active) > 0) {
+            extruders.splice(extruders.indexOf(active), 1);
+            extruders.unshift(active);
+        }
+        const toolpaths = extruders.map(extruder => {
+            if (active !== null && extruder !== active) {
+                toolChanges++;
+                lastChange = index;
+            }
+            active = extruder;
+            if (used.indexOf(extruder) < 0) used.push(extruder);
+            return { extruder, paths: orderPaths(byExtruder[extruder]) };
+        });
+        return { index, z: frame.z, height: frame.height, toolpaths, tower: [], shield: null };
+    });
+    used.sort((a, b) => a - b);
+    if (used.length < 2) {
+        return { layers, extruders: used, toolChanges, overhangArea: supports.overhangArea, warnings };
+    }
+
+    // Footprint of the print
+    const footprint: Point2D[] = [];
+    layers.forEach(layer => layer.toolpaths.forEach(toolpath => toolpath.paths.forEach(path => footprint.push(...path.points))));
+    const hull = convexHull(footprint);
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    hull.forEach(point => {
+        minX = Math.min(minX, point.x);
+        minY = Math.min(minY, point.y);
+        maxX = Math.max(maxX, point.x);
+        maxY = Math.max(maxY, point.y);
+    });
+
+    const shieldDistance = settings.oozeShield.enabled ? Math.max(width, settings.oozeShield.distance) : 0;
+    if (settings.oozeShield.enabled) {
+        // Polygons around the circles of the distance, so that no side comes closer
+        const radius = shieldDistance / Math.cos(Math.PI / SHIELD_SEGMENTS);
+        const around: Point2D[] = [];
+        hull.forEach(point => {
+            for (let k = 0; k < SHIELD_SEGMENTS; k++) {
+                const angle = (2 * Math.PI * k) / SHIELD_SEGMENTS;
+                around.push({ x: point.x + radius * Math.cos(angle), y: point.y + radius * Math.sin(angle) });
+            }
+        });
+        const shield = convexHull(around);
+        for (let index = 0; index <= lastChange; index++) {
+            layers[index].shield = { feature: 'ooze-shield', points: shield, closed: true };
+        }
+    }
+
+    if (settings.primeTower.enabled && settings.primeTower.size > 0) {
+        const size = Math.max(settings.primeTower.size, used.length * 2 * width);
+        const x = settings.primeTower.x ?? maxX + shieldDistance + TOWER_GAP + size / 2;
+        const y = settings.primeTower.y ?? minY + size / 2;
+        if (x - size / 2 < maxX + shieldDistance && x + size / 2 > minX - shieldDistance &&
+            y - size / 2 < maxY + shieldDistance && y + size / 2 > minY - shieldDistance) {
+            warnings.push('The prime tower overlaps the print');
+        }
+        // One band across the tower for each extruder
+        const band = size / used.length;
+        for (let index = 0; index <= lastChange; index++) {
+            layers[index].tower = used.map((extruder, k) => {
+                const x0 = x - size / 2 + k * band;
+                const lines = fillRectangle(x0, y - size / 2, x0 + band, y + size / 2, width, index % 2 === 0);
+                return { extruder, paths: lines.map(points => ({ feature: 'prime-tower' as const, points, closed: false })) };
+            });
+        }
+    }
+
+    return { layers, extruders: used, toolChanges, overhangArea: supports.overhangArea, warnings };
+}
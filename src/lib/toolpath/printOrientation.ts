@@ -0,0 +1,283 @@
+// src/lib/toolpath/printOrientation.ts
+import { TriangleMesh, signedVolume } from 'src/lib/importExport/tessellation';
+
+/**
+ * Print orientation optimiser.
+ *
+ * Every candidate puts one direction of the part down on the bed: the axes,
+ * the diagonals between them and the normals of the largest flat faces. As
+ * only the height of the vertices and the slope of the faces change, each
+ * candidate is scored from the triangles without slicing:
+ *
+ * - overhang area: faces pointing down steeper than the overhang angle;
+ * - support volume: overhanging faces projected down to the bed;
+ * - bed contact: faces lying flat on the bed;
+ * - Z height, and a print time from the extruded volume and the layer count.
+ *
+ * Each metric is divided by its largest value over the candidates and the
+ * weighted sum is the score; lower is better.
+ */
+
+export interface OrientationMetrics {
+    /** mm² */
+    overhangArea: number;
+    /** mm³ */
+    supportVolume: number;
+    /** mm² */
+    contactArea: number;
+    /** mm */
+    height: number;
+    /** Seconds */
+    printTime: number;
+}
+
+export interface OrientationCandidate {
+    label: string;
+    /** Unit vector of the part, in its original frame, that ends up pointing down */
+    down: [number, number, number];
+    /** Row-major 3x3 rotation applied to the part */
+    rotation: number[];
+    metrics: OrientationMetrics;
+    score: number;
+}
+
+export interface OrientationWeights {
+    overhangArea: number;
+    supportVolume: number;
+    contactArea: number;
+    height: number;
+    printTime: number;
+}
+
+export interface OrientationOptions {
+    /** Degrees from vertical beyond which faces need support */
+    overhangAngle?: number;
+    layerHeight?: number;
+    extrusionWidth?: number;
+    /** mm/s */
+    printSpeed?: number;
+    /** Percentage 0-100 */
+    infillDensity?: number;
+    shellCount?: number;
+    /** Percentage 0-100 */
+    supportDensity?: number;
+    weights?: Partial<OrientationWeights>;
+}
+
+export const DEFAULT_ORIENTATION_WEIGHTS: OrientationWeights = {
+    overhangArea: 0.25,
+    supportVolume: 0.3,
+    contactArea: 0.15,
+    height: 0.1,
+    printTime: 0.2
+};
+
+// Faces within this distance of the bed and this angle of horizontal touch it
+const CONTACT_TOLERANCE = 0.05;
+const CONTACT_ANGLE = 1;
+// Directions closer than this are the same candidate (degrees)
+const SAME_DIRECTION = 2;
+const FLAT_FACE_CANDIDATES = 8;
+// Seconds spent on each layer change
+const LAYER_CHANGE_TIME = 2;
+
+const DEGREES = Math.PI / 180;
+
+type Vector = [number, number, number];
+
+const AXES: { label: string; down: Vector }[] = [
+    { label: 'Original', down: [0, 0, -1] },
+    { label: 'Upside down', down: [0, 0, 1] },
+    { label: '+X down', down: [1, 0, 0] },
+    { label: '-X down', down: [-1, 0, 0] },
+    { label: '+Y down', down: [0, 1, 0] },
+    { label: '-Y down', down: [0, -1, 0] }
+];
+
+function normalize(v: Vector): Vector {
+    const length = Math.hypot(v[0], v[1], v[2]) || 1;
+    return [v[0] / length, v[1] / length, v[2] / length];
+}
+
+/**
+ * Rotation taking the direction `down` to -Z (Rodrigues)
+ */
+export function rotationToDown(down: Vector): number[] {
+    const d = normalize(down);
+    const cos = -d[2];
+    // Axis d x (0, 0, -1)
+    let axis: Vector = [-d[1], d[0], 0];
+    const sin = Math.hypot(axis[0], axis[1]);
+    if (sin < 1e-9) {
+        return cos > 0 ? [1, 0, 0, 0, 1, 0, 0, 0, 1] : [1, 0, 0, 0, -1, 0, 0, 0, -1];
+    }
+    axis = [axis[0] / sin, axis[1] / sin, 0];
+    const [x, y, z] = axis;
+    const t = 1 - cos;
+    return [
+        t * x * x + cos, t * x * y - sin * z, t * x * z + sin * y,
+        t * x * y + sin * z, t * y * y + cos, t * y * z - sin * x,
+        t * x * z - sin * y, t * y * z + sin * x, t * z * z + cos
+    ];
+}
+
+/**
+ * Copy of the mesh with a row-major 3x3 rotation applied to its vertices
+ */
+export function rotateMesh(mesh: TriangleMesh, rotation: number[]): TriangleMesh {
+    const p = mesh.positions;
+    const positions: number[] = new Array(p.length);
+    for (let i = 0; i < p.length; i += 3) {
+        positions[i] = rotation[0] * p[i] + rotation[1] * p[i + 1] + rotation[2] * p[i + 2];
+        positions[i + 1] = rotation[3] * p[i] + rotation[4] * p[i + 1] + rotation[5] * p[i + 2];
+        positions[i + 2] = rotation[6] * p[i] + rotation[7] * p[i + 1] + rotation[8] * p[i + 2];
+    }
+    return { ...mesh, positions };
+}
+
+/**
+ * Score the candidate orientations of a mesh, best first
+ */
+export function optimizeOrientation(mesh: TriangleMesh, options: OrientationOptions = {}): OrientationCandidate[] {
+    const p = mesh.positions;
+    const triangleCount = mesh.indices.length / 3;
+    if (!triangleCount) return [];
+
+    const overhangSin = Math.sin((options.overhangAngle ?? 45) * DEGREES);
+    const contactCos = Math.cos(CONTACT_ANGLE * DEGREES);
+    const layerHeight = options.layerHeight || 0.2;
+    const width = options.extrusionWidth || 0.4;
+    const flow = (options.printSpeed || 60) * width * layerHeight;
+    const weights = { ...DEFAULT_ORIENTATION_WEIGHTS, ...options.weights };
+
+    // Area and unit normal of every triangle
+    const areas = new Float64Array(triangleCount);
+    const normals = new Float64Array(triangleCount * 3);
+    let surface = 0;
+    for (let t = 0; t < triangleCount; t++) {
+        const a = mesh.indices[t * 3] * 3, b = mesh.indices[t * 3 + 1] * 3, c = mesh.indices[t * 3 + 2] * 3;
+        const ux = p[b] - p[a], uy = p[b + 1] - p[a + 1], uz = p[b + 2] - p[a + 2];
+        const vx = p[c] - p[a], vy = p[c + 1] - p[a + 1], vz = p[c + 2] - p[a + 2];
+        const nx = uy * vz - uz * vy, ny = uz * vx - ux * vz, nz = ux * vy - uy * vx;
+        const length = Math.hypot(nx, ny, nz);
+        areas[t] = length / 2;
+        surface += length / 2;
+        if (length > 0) {
+            normals[t * 3] = nx / length;
+            normals[t * 3 + 1] = ny / length;
+            normals[t * 3 + 2] = nz / length;
+        }
+    }
+    // Extruded volume: the walls plus the infill of the rest
+    const volume = Math.abs(signedVolume(mesh));
+    const modelVolume = Math.min(volume, surface * (options.shellCount ?? 2) * width + volume * (options.infillDensity ?? 20) / 100);
+    const supportFill = (options.supportDensity ?? 15) / 100;
+
+    // Candidate directions: axes, diagonals and the largest flat faces
+    const directions: { label: string; down: Vector }[] = AXES.slice();
+    [-1, 1].forEach(x => [-1, 1].forEach(y => {
+        directions.push({ label: 'Edge down', down: normalize([x, y, 0]) });
+        directions.push({ label: 'Edge down', down: normalize([x, 0, y]) });
+        directions.push({ label: 'Edge down', down: normalize([0, x, y]) });
+        [-1, 1].forEach(z => directions.push({ label: 'Corner down', down: normalize([x, y, z]) }));
+    }));
+    const faces = new Map<string, { normal: Vector; area: number }>();
+    for (let t = 0; t < triangleCount; t++) {
+        const normal: Vector = [normals[t * 3], normals[t * 3 + 1], normals[t * 3 + 2]];
+        const key = normal.map(n => Math.round(n * 50)).join(',');
+        const face = faces.get(key);
+        if (face) face.area += areas[t];
+        else faces.set(key, { normal, area: areas[t] });
+    }
+    Array.from(faces.values())
+        .sort((a, b) => b.area - a.area)
+        .slice(0, FLAT_FACE_CANDIDATES)
+        .forEach(face => directions.push({ label: `Flat face down (${face.area.toFixed(0)} mm²)`, down: face.normal }));
+
+    const sameCos = Math.cos(SAME_DIRECTION * DEGREES);
+    const unique: { label: string; down: Vector }[] = [];
+    directions.forEach(direction => {
+        const d = direction.down;
+        if (Math.hypot(d[0], d[1], d[2]) < 0.5) return;
+        if (unique.some(u => u.down[0] * d[0] + u.down[1] * d[1] + u.down[2] * d[2] > sameCos)) return;
+        unique.push(direction);
+    });
+
+    const vertexCount = p.length / 3;
+    const heights = new Float64Array(vertexCount);
+    const candidates = unique.map(({ label, down }) => {
+        // Height above the bed is the distance along -down
+        let minZ = Infinity;
+        let maxZ = -Infinity;
+        for (let v = 0; v < vertexCount; v++) {
+            const z = -(down[0] * p[v * 3] + down[1] * p[v * 3 + 1] + down[2] * p[v * 3 + 2]);
+            heights[v] = z;
+            minZ = Math.min(minZ, z);
+            maxZ = Math.max(maxZ, z);
+        }
+
+        let overhangArea = 0;
+        let supportVolume = 0;
+        let contactArea = 0;
+        for (let t = 0; t < triangleCount; t++) {
+            const nz = -(down[0] * normals[t * 3] + down[1] * normals[t * 3 + 1] + down[2] * normals[t * 3 + 2]);
+            if (nz >= -overhangSin) continue;
+            const za = heights[mesh.indices[t * 3]] - minZ;
+            const zb = heights[mesh.indices[t * 3 + 1]] - minZ;
+            const zc = heights[mesh.indices[t * 3 + 2]] - minZ;
+            if (Math.max(za, zb, zc) < CONTACT_TOLERANCE) {
+                if (nz < -contactCos) contactArea += areas[t];
+                continue;
+            }
+            overhangArea += areas[t];
+            supportVolume += areas[t] * -nz * ((za + zb + zc) / 3);
+        }
+
+        const height = maxZ - minZ;
+        const printTime = (modelVolume + supportVolume * supportFill) / flow + Math.ceil(height / layerHeight) * LAYER_CHANGE_TIME;
+        return {
+            label,
+            down,
+            rotation: rotationToDown(down),
+            metrics: { overhangArea, supportVolume, contactArea, height, printTime },
+            score: 0
+        };
+    });
+
+    const largest = (metric: keyof OrientationMetrics) => Math.max(...candidates.map(c => c.metrics[metric])) || 1;
+    const maxOverhang = largest('overhangArea');
+    const maxSupport = largest('supportVolume');
+    const maxContact = largest('contactArea');
+    const maxHeight = largest('height');
+    const maxTime = largest('printTime');
+    candidates.forEach(candidate => {
+        const m = candidate.metrics;
+        candidate.score =
+            weights.overhangArea * (m.overhangArea / maxOverhang) +
+            weights.supportVolume * (m.supportVolume / maxSupport) +
+            weights.contactArea * (1 - m.contactArea / maxContact) +
+            weights.height * (m.height / maxHeight) +
+            weights.printTime * (m.printTime / maxTime);
+    });
+
+    // Stable sort keeps the original orientation ahead on ties
+    return candidates
+        .map((candidate, index) => ({ candidate, index }))
+        .sort((a, b) => a.candidate.score - b.candidate.score || a.index - b.index)
+        .map(({ candidate }) => candidate);
+}
+
+/**
+ * Mesh as it will be printed: unchanged for the original orientation, otherwise
+ * turned by the chosen rotation or, without one, by the best candidate
+ */
+export function orientForPrint(
+    mesh: TriangleMesh,
+    orientation: string | undefined,
+    rotation: number[] | null | undefined,
+    options: OrientationOptions = {}
+): { mesh: TriangleMesh; rotation: number[] | null } {
+    if (orientation !== 'auto-optimal') return { mesh, rotation: null };
+    const chosen = rotation || (optimizeOrientation(mesh, options)[0] || { rotation: null }).rotation;
+    return chosen ? { mesh: rotateMesh(mesh, chosen), rotation: chosen } : { mesh, rotation: null };
+}
@@ -0,0 +1,462 @@
+// src/lib/toolpath/printSupports.ts
+import { Point2D, Segment2D, scanIntervals } from './slicerGeometry';
+import type { PrintPath } from './meshSlicer';
+
+/**
+ * Overhang detection and support structures for sliced layers.
+ *
+ * The layers are rasterized on a common XY grid. A cell of a layer overhangs
+ * when it is neither above the layer below nor within
+ * layerHeight * tan(overhangAngle) of its outline. Supports end zGap above and
+ * below the model and keep xyDistance from its sides:
+ *
+ * - grid: every overhang is projected down layer by layer until it meets the
+ *   model or the bed and filled with lines, alternating X and Y;
+ * - tree: branches start under the overhangs, lean towards their neighbours
+ *   and merge while they go down, moving around the model, and thicken with
+ *   the height they carry.
+ *
+ * 'minimal' placement only keeps supports that stand on the build plate,
+ * 'full' also lets them stand on the model. The top interfaceLayers under
+ * the model are printed solid.
+ */
+
+export type SupportPlacement = 'none' | 'minimal' | 'full';
+export type SupportStyle = 'grid' | 'tree';
+
+export interface SupportSettings {
+    style: SupportStyle;
+    /** Surfaces leaning further than this from vertical need support (degrees) */
+    overhangAngle: number;
+    /** Vertical gap between support and model (mm) */
+    zGap: number;
+    /** Horizontal distance between support and model (mm) */
+    xyDistance: number;
+    /** Solid layers at the top of the support */
+    interfaceLayers: number;
+    /** Percentage 0-100 */
+    density: number;
+}
+
+export const DEFAULT_SUPPORT_SETTINGS: SupportSettings = {
+    style: 'grid',
+    overhangAngle: 45,
+    zGap: 0.2,
+    xyDistance: 0.7,
+    interfaceLayers: 2,
+    density: 15
+};
+
+export interface SupportLayerInput {
+    /** Boundary of the model section, material on the left */
+    outline: Segment2D[];
+    height: number;
+}
+
+export interface SupportResult {
+    /** Support paths of every layer */
+    paths: PrintPath[][];
+    /** Overhanging area found on all the layers (mm²) */
+    overhangArea: number;
+    warnings: string[];
+}
+
+interface CellGrid {
+    x0: number;
+    y0: number;
+    size: number;
+    nx: number;
+    ny: number;
+}
+
+interface TreeNode {
+    x: number;
+    y: number;
+    radius: number;
+    /** Layer index, x, y and radius of every layer printed by this node */
+    records: number[][];
+    parents: TreeNode[];
+    failed: boolean;
+}
+
+const MAX_CELLS = 100000;
+// Tree branches: lean per layer, growth of the radius and its bounds
+const BRANCH_ANGLE = 40;
+const BRANCH_GROWTH_ANGLE = 5;
+const BRANCH_MAX_RADIUS = 4;
+
+const DEGREES = Math.PI / 180;
+
+// Cells whose centres are inside the region
+function fillMask(grid: CellGrid, segments: Segment2D[], mask: Uint8Array): void {
+    scanIntervals(segments, 0, grid.y0 + grid.size / 2, grid.size, grid.ny).forEach((intervals, j) => {
+        intervals.forEach(([from, to]) => {
+            const iStart = Math.max(0, Math.ceil((from - grid.x0) / grid.size - 0.5));
+            const iEnd = Math.min(grid.nx - 1, Math.floor((to - grid.x0) / grid.size - 0.5));
+            for (let i = iStart; i <= iEnd; i++) mask[j * grid.nx + i] = 1;
+        });
+    });
+}
+
+// Cells whose centres are within `radius` of the segments
+function markNear(grid: CellGrid, segments: Segment2D[], radius: number, mask: Uint8Array): void {
+    if (radius <= 0) return;
+    segments.forEach(({ a, b }) => {
+        const dx = b.x - a.x;
+        const dy = b.y - a.y;
+        const lengthSquared = dx * dx + dy * dy;
+        const iStart = Math.max(0, Math.ceil((Math.min(a.x, b.x) - radius - grid.x0) / grid.size - 0.5));
+        const iEnd = Math.min(grid.nx - 1, Math.floor((Math.max(a.x, b.x) + radius - grid.x0) / grid.size - 0.5));
+        const jStart = Math.max(0, Math.ceil((Math.min(a.y, b.y) - radius - grid.y0) / grid.size - 0.5));
+        const jEnd = Math.min(grid.ny - 1, Math.floor((Math.max(a.y, b.y) + radius - grid.y0) / grid.size - 0.5));
+        for (let j = jStart; j <= jEnd; j++) {
+            const y = grid.y0 + (j + 0.5) * grid.size;
+            for (let i = iStart; i <= iEnd; i++) {
+                const x = grid.x0 + (i + 0.5) * grid.size;
+                let t = lengthSquared > 0 ? ((x - a.x) * dx + (y - a.y) * dy) / lengthSquared : 0;
+                t = t < 0 ? 0 : t > 1 ? 1 : t;
+                const ex = x - a.x - t * dx;
+                const ey = y - a.y - t * dy;
+                if (ex * ex + ey * ey <= radius * radius) mask[j * grid.nx + i] = 1;
+            }
+        }
+    });
+}
+
+// Lines through the runs of marked cells, along X or along Y
+function maskLines(grid: CellGrid, mask: Uint8Array, spacing: number, alongY: boolean, width: number): Point2D[][] {
+    const lines: Point2D[][] = [];
+    const rows = alongY ? grid.nx : grid.ny;
+    const length = alongY ? grid.ny : grid.nx;
+    const origin = alongY ? grid.x0 : grid.y0;
+    const start = alongY ? grid.y0 : grid.x0;
+    const cell = (row: number, k: number) => mask[alongY ? k * grid.nx + row : row * grid.nx + k];
+
+    for (let line = Math.ceil(origin / spacing); line * spacing < origin + rows * grid.size; line++) {
+        const position = line * spacing;
+        const row = Math.floor((position - origin) / grid.size);
+        if (row < 0 || row >= rows) continue;
+        let k = 0;
+        while (k < length) {
+            if (!cell(row, k)) {
+                k++;
+                continue;
+            }
+            const runStart = k;
+            while (k < length && cell(row, k)) k++;
+            const from = start + runStart * grid.size + width / 2;
+            const to = start + k * grid.size - width / 2;
+            if (to - from < width) continue;
+            lines.push(alongY
+                ? [{ x: position, y: from }, { x: position, y: to }]
+                : [{ x: from, y: position }, { x: to, y: position }]);
+        }
+    }
+    return lines;
+}
+
+// Concentric loops filling a branch section
+function branchLoops(x: number, y: number, radius: number, width: number): Point2D[][] {
+    const loops: Point2D[][] = [];
+    for (let r = Math.max(radius - width / 2, width / 2); r >= width / 2 - 1e-9; r -= width) {
+        const sides = Math.max(8, Math.min(48, Math.ceil((2 * Math.PI * r) / 0.5)));
+        const loop: Point2D[] = [];
+        for (let s = 0; s < sides; s++) {
+            const angle = (s / sides) * Math.PI * 2;
+            loop.push({ x: x + r * Math.cos(angle), y: y + r * Math.sin(angle) });
+        }
+        loops.push(loop);
+    }
+    return loops;
+}
+
+/**
+ * Find the overhangs of the layers and build their supports
+ */
+export function generateSupports(
+    layers: SupportLayerInput[],
+    placement: SupportPlacement,
+    settings: SupportSettings,
+    extrusionWidth: number
+): SupportResult {
+    const paths: PrintPath[][] = layers.map(() => []);
+    const warnings: string[] = [];
+    if (placement === 'none' || layers.length < 2 || settings.overhangAngle >= 90) {
+        return { paths, overhangArea: 0, warnings };
+    }
+
+    const width = extrusionWidth;
+    const density = Math.max(1, Math.min(100, settings.density)) / 100;
+    const layerHeight = layers.length > 1 ? layers[1].height : layers[0].height;
+    const gapLayers = Math.max(0, Math.round(settings.zGap / layerHeight));
+    const interfaceLayers = Math.max(0, Math.round(settings.interfaceLayers));
+    const tree = settings.style === 'tree';
+
+    // Common grid over all the layers, with room for branches to walk around the model
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    layers.forEach(layer => layer.outline.forEach(({ a }) => {
+        minX = Math.min(minX, a.x);
+        maxX = Math.max(maxX, a.x);
+        minY = Math.min(minY, a.y);
+        maxY = Math.max(maxY, a.y);
+    }));
+    if (minX > maxX) return { paths, overhangArea: 0, warnings };
+    const margin = tree ? BRANCH_MAX_RADIUS + settings.xyDistance + 2 : width;
+    minX -= margin;
+    minY -= margin;
+    maxX += margin;
+    maxY += margin;
+    const size = Math.max(width, Math.sqrt(((maxX - minX) * (maxY - minY)) / MAX_CELLS));
+    const grid: CellGrid = {
+        x0: minX,
+        y0: minY,
+        size,
+        nx: Math.ceil((maxX - minX) / size),
+        ny: Math.ceil((maxY - minY) / size)
+    };
+    const cellCount = grid.nx * grid.ny;
+
+    const model = layers.map(layer => {
+        const mask = new Uint8Array(cellCount);
+        fillMask(grid, layer.outline, mask);
+        return mask;
+    });
+    // Supports are drawn in the free cells and reach half a line past them, so
+    // the cells are kept free up to xyDistance from the edges of the lines
+    const wallDistance = settings.xyDistance + (width + size) / 2;
+    const clearance = (index: number): Uint8Array => {
+        const mask = model[index].slice();
+        markNear(grid, layers[index].outline, wallDistance, mask);
+        return mask;
+    };
+
+    // Overhanging cells of each layer: not above the layer below, nor within the allowed lean of its outline
+    let overhangCells = 0;
+    const overhangs: number[][] = layers.map((layer, index) => {
+        if (index === 0) return [];
+        const supported = model[index - 1].slice();
+        markNear(grid, layers[index - 1].outline, layer.height * Math.tan(settings.overhangAngle * DEGREES), supported);
+        const cells: number[] = [];
+        for (let c = 0; c < cellCount; c++) {
+            if (model[index][c] && !supported[c]) cells.push(c);
+        }
+        overhangCells += cells.length;
+        return cells;
+    });
+    const overhangArea = overhangCells * size * size;
+    if (!overhangCells) return { paths, overhangArea, warnings };
+
+    // Columns blocked by the model from this layer up can't reach the build plate;
+    // only those with the model itself below, not just its clearance, are reported
+    const blockedFrom = new Int32Array(cellCount).fill(layers.length);
+    const modelFrom = new Int32Array(cellCount).fill(layers.length);
+    if (placement === 'minimal') {
+        layers.forEach((_, index) => {
+            const mask = clearance(index);
+            for (let c = 0; c < cellCount; c++) {
+                if (mask[c] && blockedFrom[c] > index) blockedFrom[c] = index;
+                if (model[index][c] && modelFrom[c] > index) modelFrom[c] = index;
+            }
+        });
+    }
+
+    // Model within the gap below a layer, which supports standing on the model must leave free
+    const modelBelow = (c: number, index: number): boolean => {
+        for (let k = Math.max(0, index - gapLayers); k < index; k++) {
+            if (model[k][c]) return true;
+        }
+        return false;
+    };
+    const interfaceAbove = (index: number, isInterface: (c: number, k: number) => boolean): Uint8Array => {
+        const mask = new Uint8Array(cellCount);
+        for (let k = index + 1 + gapLayers; k < Math.min(layers.length, index + 1 + gapLayers + interfaceLayers); k++) {
+            for (let c = 0; c < cellCount; c++) {
+                if (isInterface(c, k)) mask[c] = 1;
+            }
+        }
+        return mask;
+    };
+    const emitLines = (index: number, mask: Uint8Array, spacing: number, feature: 'support' | 'support-interface') => {
+        maskLines(grid, mask, spacing, index % 2 === 1, width).forEach(points => {
+            paths[index].push({ feature, points, closed: false });
+        });
+    };
+
+    let unsupported = 0;
+
+    if (!tree) {
+        // Project the overhangs down until they meet the model or the bed
+        let column = new Uint8Array(cellCount);
+        for (let index = layers.length - 1; index >= 0; index--) {
+            const current = column.slice();
+            const seed = index + 1 + gapLayers;
+            if (seed < layers.length) {
+                overhangs[seed].forEach(c => {
+                    current[c] = 1;
+                    if (modelFrom[c] <= index) unsupported++;
+                });
+            }
+            const blocked = clearance(index);
+            for (let c = 0; c < cellCount; c++) {
+                if (current[c] && (blocked[c] || blockedFrom[c] <= index || (placement === 'full' && modelBelow(c, index)))) current[c] = 0;
+            }
+            column = current;
+
+            const roof = interfaceAbove(index, (c, k) => current[c] === 1 && model[k][c] === 1);
+            const body = new Uint8Array(cellCount);
+            for (let c = 0; c < cellCount; c++) {
+                if (current[c] && !roof[c]) body[c] = 1;
+            }
+            emitLines(index, roof, width, 'support-interface');
+            emitLines(index, body, width / density, 'support');
+        }
+    } else {
+        const lean = layerHeight * Math.tan(BRANCH_ANGLE * DEGREES);
+        const growth = layerHeight * Math.tan(BRANCH_GROWTH_ANGLE * DEGREES);
+        const tipRadius = Math.max(width, 0.6);
+        const tipSpacing = Math.max(2, (2 * width) / density);
+        const mergeRange = 4 * tipSpacing;
+        const nodes: TreeNode[] = [];
+        let active: TreeNode[] = [];
+
+        const fail = (node: TreeNode) => {
+            if (node.failed) return;
+            node.failed = true;
+            node.parents.forEach(fail);
+        };
+
+        for (let index = layers.length - 1; index >= 0; index--) {
+            const blocked = clearance(index);
+            const collides = (x: number, y: number, radius: number): boolean => {
+                const iStart = Math.max(0, Math.floor((x - radius - grid.x0) / size));
+                const iEnd = Math.min(grid.nx - 1, Math.floor((x + radius - grid.x0) / size));
+                const jStart = Math.max(0, Math.floor((y - radius - grid.y0) / size));
+                const jEnd = Math.min(grid.ny - 1, Math.floor((y + radius - grid.y0) / size));
+                for (let j = jStart; j <= jEnd; j++) {
+                    const cy = grid.y0 + (j + 0.5) * size;
+                    for (let i = iStart; i <= iEnd; i++) {
+                        const cx = grid.x0 + (i + 0.5) * size;
+                        if ((cx - x) ** 2 + (cy - y) ** 2 > radius * radius) continue;
+                        const c = j * grid.nx + i;
+                        if (blocked[c] || (placement === 'full' && modelBelow(c, index))) return true;
+                    }
+                }
+                return false;
+            };
+
+            // Move the branches down: towards the nearest one to merge with, around the model
+            const moved: TreeNode[] = [];
+            active.forEach(node => {
+                let target: TreeNode | null = null;
+                let targetDistance = mergeRange;
+                for (const other of active) {
+                    const distance = Math.hypot(other.x - node.x, other.y - node.y);
+                    if (other !== node && distance < targetDistance) {
+                        target = other;
+                        targetDistance = distance;
+                    }
+                }
+                const radius = Math.min(BRANCH_MAX_RADIUS, node.radius + growth);
+                const candidates: Point2D[] = [{ x: node.x, y: node.y }];
+                if (target) {
+                    const step = Math.min(lean, targetDistance) / (targetDistance || 1);
+                    candidates.unshift({ x: node.x + (target.x - node.x) * step, y: node.y + (target.y - node.y) * step });
+                }
+                for (let d = 0; d < 8; d++) {
+                    candidates.push({ x: node.x + lean * Math.cos((d * Math.PI) / 4), y: node.y + lean * Math.sin((d * Math.PI) / 4) });
+                }
+                // Closest to the branch to merge with, otherwise straight down
+                const goal: Point2D = target || node;
+                let best: Point2D | null = null;
+                let bestScore = Infinity;
+                for (const candidate of candidates) {
+                    const score = Math.hypot(goal.x - candidate.x, goal.y - candidate.y);
+                    if (score < bestScore - 1e-9 && !collides(candidate.x, candidate.y, radius)) {
+                        best = candidate;
+                        bestScore = score;
+                    }
+                }
+                if (!best) {
+                    // Landing on the model is fine where supports may stand on it
+                    if (placement === 'minimal') fail(node);
+                    return;
+                }
+                node.x = best.x;
+                node.y = best.y;
+                node.radius = radius;
+                moved.push(node);
+            });
+
+            // New tips under the overhangs of the layer above the gap and the interface
+            const seed = index + 1 + gapLayers + interfaceLayers;
+            if (seed < layers.length) {
+                const tips: Point2D[] = [];
+                overhangs[seed].forEach(c => {
+                    const x = grid.x0 + ((c % grid.nx) + 0.5) * size;
+                    const y = grid.y0 + (Math.floor(c / grid.nx) + 0.5) * size;
+                    if (tips.some(tip => Math.hypot(tip.x - x, tip.y - y) < tipSpacing)) return;
+                    tips.push({ x, y });
+                    if (collides(x, y, tipRadius)) return;
+                    const node: TreeNode = { x, y, radius: tipRadius, records: [], parents: [], failed: false };
+                    nodes.push(node);
+                    moved.push(node);
+                });
+            }
+
+            // Merge the branches that touch
+            active = [];
+            moved.forEach(node => {
+                const other = active.find(o => Math.hypot(o.x - node.x, o.y - node.y) < Math.max(o.radius, node.radius));
+                if (!other) {
+                    active.push(node);
+                    return;
+                }
+                const wa = other.radius * other.radius;
+                const wb = node.radius * node.radius;
+                const merged: TreeNode = {
+                    x: (other.x * wa + node.x * wb) / (wa + wb),
+                    y: (other.y * wa + node.y * wb) / (wa + wb),
+                    radius: Math.min(BRANCH_MAX_RADIUS, Math.sqrt(wa + wb)),
+                    records: [],
+                    parents: [other, node],
+                    failed: false
+                };
+                nodes.push(merged);
+                active[active.indexOf(other)] = merged;
+            });
+            active.forEach(node => node.records.push([index, node.x, node.y, node.radius]));
+        }
+
+        nodes.forEach(node => {
+            if (node.failed) {
+                unsupported++;
+                return;
+            }
+            node.records.forEach(([index, x, y, radius]) => {
+                branchLoops(x, y, radius, width).forEach(points => paths[index].push({ feature: 'support', points, closed: true }));
+            });
+        });
+
+        // Solid roofs between the tips and the model
+        for (let index = layers.length - 1; index >= 0; index--) {
+            const blocked = clearance(index);
+            const roofCells = new Set<number>();
+            for (let k = index + 1 + gapLayers; k < Math.min(layers.length, index + 1 + gapLayers + interfaceLayers); k++) {
+                overhangs[k].forEach(c => roofCells.add(c));
+            }
+            if (!roofCells.size) continue;
+            const roof = new Uint8Array(cellCount);
+            roofCells.forEach(c => {
+                if (!blocked[c] && blockedFrom[c] > index) roof[c] = 1;
+            });
+            emitLines(index, roof, width, 'support-interface');
+        }
+    }
+
+    if (unsupported) {
+        warnings.push(tree
+            ? `${unsupported} support branches can't reach the build plate and were left out`
+            : 'Some overhangs can only be supported from the model; use full supports to reach them');
+    }
+    return { paths, overhangArea, warnings };
+}
@@ -0,0 +1,466 @@
+// src/lib/toolpath/slicerGeometry.ts
+
+/**
+ * Planar geometry for the mesh slicer: oriented boundary segments, polygons
+ * with holes, scanline intervals and inset contours.
+ *
+ * Regions are described by oriented segments with the material on their left,
+ * so outer loops run counter-clockwise and holes clockwise. Points are inside
+ * where the winding number is positive, which also merges overlapping bodies.
+ *
+ * Insets come from a signed distance field on a grid: the exact distance to
+ * the boundary segments is computed in a band around them, and the contours at
+ * the inset distances are traced with marching squares. This handles islands
+ * that split or vanish as they shrink without any polygon clipping.
+ */
+
+export type Point2D = { x: number; y: number };
+export type Polygon = Point2D[];
+/** Outer boundary (counter-clockwise) with its holes (clockwise) */
+export type ExPolygon = { outer: Polygon; holes: Polygon[] };
+/** Boundary segment with the region on its left */
+export type Segment2D = { a: Point2D; b: Point2D };
+/** Sorted, disjoint [start, end] ranges along a scanline */
+export type Intervals = number[][];
+
+/**
+ * Signed area, positive for counter-clockwise polygons
+ */
+export function polygonArea(polygon: Polygon): number {
+    let area = 0;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        area += (polygon[j].x - polygon[i].x) * (polygon[j].y + polygon[i].y);
+    }
+    return area / 2;
+}
+
+export function pointInPolygon(point: Point2D, polygon: Polygon): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i];
+        const b = polygon[j];
+        if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+export function pointInExPolygon(point: Point2D, region: ExPolygon): boolean {
+    return pointInPolygon(point, region.outer) && !region.holes.some(hole => pointInPolygon(point, hole));
+}
+
+/**
+ * Segments of closed polygons, in their own direction
+ */
+export function polygonSegments(polygons: Polygon[]): Segment2D[] {
+    const segments: Segment2D[] = [];
+    polygons.forEach(polygon => {
+        for (let i = 0; i < polygon.length; i++) {
+            segments.push({ a: polygon[i], b: polygon[(i + 1) % polygon.length] });
+        }
+    });
+    return segments;
+}
+
+export function exPolygonSegments(regions: ExPolygon[]): Segment2D[] {
+    const polygons: Polygon[] = [];
+    regions.forEach(region => polygons.push(region.outer, ...region.holes));
+    return polygonSegments(polygons);
+}
+
+/**
+ * Group oriented loops into polygons with holes: counter-clockwise loops are
+ * outer boundaries, clockwise loops are holes of the smallest outer loop
+ * around them
+ */
+export function buildExPolygons(loops: Polygon[]): ExPolygon[] {
+    const outers: { polygon: Polygon; area: number; holes: Polygon[] }[] = [];
+    const holes: Polygon[] = [];
+    loops.forEach(loop => {
+        const area = polygonArea(loop);
+        if (area > 0) outers.push({ polygon: loop, area, holes: [] });
+        else if (area < 0) holes.push(loop);
+    });
+    outers.sort((a, b) => a.area - b.area);
+    holes.forEach(hole => {
+        const owner = outers.find(outer => pointInPolygon(hole[0], outer.polygon));
+        if (owner) owner.holes.push(hole);
+    });
+    return outers.map(outer => ({ outer: outer.polygon, holes: outer.holes }));
+}
+
+/**
+ * Douglas-Peucker simplification of a closed loop
+ */
+export function simplifyLoop(loop: Polygon, tolerance: number): Polygon {
+    if (loop.length < 4) return loop;
+    // Split at the point farthest from the first one and simplify both halves as open paths
+    let far = 0;
+    let farDistance = -1;
+    loop.forEach((point, index) => {
+        const distance = (point.x - loop[0].x) ** 2 + (point.y - loop[0].y) ** 2;
+        if (distance > farDistance) {
+            farDistance = distance;
+            far = index;
+        }
+    });
+    const keep = new Uint8Array(loop.length + 1);
+    keep[0] = keep[far] = keep[loop.length] = 1;
+    const at = (index: number) => loop[index % loop.length];
+    const stack: number[][] = [[0, far], [far, loop.length]];
+    while (stack.length) {
+        const [first, last] = stack.pop()!;
+        const a = at(first);
+        const b = at(last);
+        const dx = b.x - a.x;
+        const dy = b.y - a.y;
+        const length = Math.hypot(dx, dy) || 1;
+        let worst = -1;
+        let worstDistance = tolerance;
+        for (let i = first + 1; i < last; i++) {
+            const p = at(i);
+            const distance = Math.abs(dx * (p.y - a.y) - dy * (p.x - a.x)) / length;
+            if (distance > worstDistance) {
+                worstDistance = distance;
+                worst = i;
+            }
+        }
+        if (worst >= 0) {
+            keep[worst] = 1;
+            stack.push([first, worst], [worst, last]);
+        }
+    }
+    return loop.filter((_, index) => keep[index] === 1);
+}
+
+// --- Scanlines ---
+
+/**
+ * Intervals inside the region on the scanlines v = first + k * spacing of a
+ * frame rotated by `angle`, where u runs along the lines and v across them
+ */
+export function scanIntervals(segments: Segment2D[], angle: number, first: number, spacing: number, count: number): Intervals[] {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const crossings: number[][] = [];
+    for (let k = 0; k < count; k++) crossings.push([]);
+
+    segments.forEach(({ a, b }) => {
+        const ua = a.x * cos + a.y * sin;
+        const va = -a.x * sin + a.y * cos;
+        const ub = b.x * cos + b.y * sin;
+        const vb = -b.x * sin + b.y * cos;
+        if (va === vb) return;
+        const low = Math.min(va, vb);
+        const high = Math.max(va, vb);
+        // Half-open so that a vertex on a scanline counts once; the range is widened
+        // by one line because only the test on v itself is consistent between segments
+        const kStart = Math.max(0, Math.ceil((low - first) / spacing) - 1);
+        const kEnd = Math.min(count - 1, Math.ceil((high - first) / spacing));
+        // Entering the region from the left when the region is on the left of a downward segment
+        const winding = vb < va ? 1 : -1;
+        for (let k = kStart; k <= kEnd; k++) {
+            const v = first + k * spacing;
+            if (v < low || v >= high) continue;
+            const u = ua + ((v - va) / (vb - va)) * (ub - ua);
+            crossings[k].push(u, winding);
+        }
+    });
+
+    return crossings.map(list => {
+        const order: number[] = [];
+        for (let i = 0; i < list.length; i += 2) order.push(i);
+        order.sort((i, j) => list[i] - list[j]);
+        const intervals: Intervals = [];
+        let winding = 0;
+        let start = 0;
+        order.forEach(i => {
+            const before = winding;
+            winding += list[i + 1];
+            if (before <= 0 && winding > 0) start = list[i];
+            else if (before > 0 && winding <= 0 && list[i] > start) intervals.push([start, list[i]]);
+        });
+        return intervals;
+    });
+}
+
+export function intersectIntervals(a: Intervals, b: Intervals): Intervals {
+    const result: Intervals = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        const start = Math.max(a[i][0], b[j][0]);
+        const end = Math.min(a[i][1], b[j][1]);
+        if (end > start) result.push([start, end]);
+        if (a[i][1] < b[j][1]) i++;
+        else j++;
+    }
+    return result;
+}
+
+export function subtractIntervals(a: Intervals, b: Intervals): Intervals {
+    const result: Intervals = [];
+    let j = 0;
+    a.forEach(([from, to]) => {
+        let start = from;
+        while (j < b.length && b[j][1] <= start) j++;
+        let k = j;
+        while (k < b.length && b[k][0] < to) {
+            if (b[k][0] > start) result.push([start, b[k][0]]);
+            start = Math.max(start, b[k][1]);
+            k++;
+        }
+        if (to > start) result.push([start, to]);
+    });
+    return result;
+}
+
+// --- Union boundary ---
+
+/**
+ * Segments on the boundary of the union of the regions: those with material
+ * on the left and none on the right. Segments of bodies that overlap each
+ * other are inside the union and are dropped.
+ */
+export function unionBoundary(segments: Segment2D[], epsilon = 1e-4): Segment2D[] {
+    if (!segments.length) return segments;
+    let minY = Infinity;
+    let maxY = -Infinity;
+    segments.forEach(({ a, b }) => {
+        minY = Math.min(minY, a.y, b.y);
+        maxY = Math.max(maxY, a.y, b.y);
+    });
+    const bucketCount = Math.max(1, Math.min(4096, Math.ceil(segments.length / 4)));
+    const bucketSize = (maxY - minY) / bucketCount || 1;
+    const buckets: number[][] = [];
+    for (let i = 0; i < bucketCount; i++) buckets.push([]);
+    segments.forEach(({ a, b }, index) => {
+        const from = Math.max(0, Math.floor((Math.min(a.y, b.y) - minY) / bucketSize));
+        const to = Math.min(bucketCount - 1, Math.floor((Math.max(a.y, b.y) - minY) / bucketSize));
+        for (let i = from; i <= to; i++) buckets[i].push(index);
+    });
+
+    // Winding number at a point from the segments crossing the ray to its left
+    const windingAt = (x: number, y: number): number => {
+        const bucket = buckets[Math.max(0, Math.min(bucketCount - 1, Math.floor((y - minY) / bucketSize)))];
+        let winding = 0;
+        bucket.forEach(index => {
+            const { a, b } = segments[index];
+            if ((a.y > y) === (b.y > y)) return;
+            const u = a.x + ((y - a.y) / (b.y - a.y)) * (b.x - a.x);
+            if (u < x) winding += b.y < a.y ? 1 : -1;
+        });
+        return winding;
+    };
+
+    return segments.filter(({ a, b }) => {
+        const length = Math.hypot(b.x - a.x, b.y - a.y);
+        if (length === 0) return false;
+        const mx = (a.x + b.x) / 2;
+        const my = (a.y + b.y) / 2;
+        const nx = (-(b.y - a.y) / length) * epsilon;
+        const ny = ((b.x - a.x) / length) * epsilon;
+        return windingAt(mx + nx, my + ny) > 0 && windingAt(mx - nx, my - ny) <= 0;
+    });
+}
+
+// --- Insets ---
+
+export interface InsetOptions {
+    /** Grid spacing of the distance field */
+    resolution: number;
+    /** Upper bound on grid nodes; coarsens the resolution of large regions */
+    maxNodes?: number;
+    /** Tolerance of the simplified contours */
+    tolerance?: number;
+}
+
+/**
+ * Regions at the given distances inside the region bounded by the segments.
+ * Overlapping bodies are merged: the sign comes from the winding rule and the
+ * distance from the union boundary only. Contours smaller than the grid
+ * resolution are dropped.
+ */
+export function insetRegions(segments: Segment2D[], distances: number[], options: InsetOptions): ExPolygon[][] {
+    if (!segments.length || !distances.length) return distances.map(() => []);
+    const reach = Math.max(...distances);
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    segments.forEach(({ a, b }) => {
+        minX = Math.min(minX, a.x, b.x);
+        maxX = Math.max(maxX, a.x, b.x);
+        minY = Math.min(minY, a.y, b.y);
+        maxY = Math.max(maxY, a.y, b.y);
+    });
+    const maxNodes = options.maxNodes || 2000000;
+    const resolution = Math.max(options.resolution, Math.sqrt(((maxX - minX) * (maxY - minY)) / maxNodes));
+    const x0 = minX - 2 * resolution;
+    const y0 = minY - 2 * resolution;
+    const nx = Math.ceil((maxX - x0) / resolution) + 3;
+    const ny = Math.ceil((maxY - y0) / resolution) + 3;
+    const far = reach + 2 * resolution;
+
+    // Sign from the winding rule, row by row
+    const field = new Float32Array(nx * ny).fill(-far);
+    scanIntervals(segments, 0, y0, resolution, ny).forEach((intervals, j) => {
+        intervals.forEach(([from, to]) => {
+            const iStart = Math.max(0, Math.ceil((from - x0) / resolution));
+            const iEnd = Math.min(nx - 1, Math.floor((to - x0) / resolution));
+            for (let i = iStart; i <= iEnd; i++) field[j * nx + i] = far;
+        });
+    });
+
+    // Exact distance in the band around every segment
+    const rowRange = (y: number, a: Point2D, b: Point2D): [number, number] | null => {
+        let low = Infinity;
+        let high = -Infinity;
+        const disk = (c: Point2D) => {
+            const dy = y - c.y;
+            if (Math.abs(dy) > far) return;
+            const half = Math.sqrt(far * far - dy * dy);
+            low = Math.min(low, c.x - half);
+            high = Math.max(high, c.x + half);
+        };
+        disk(a);
+        disk(b);
+        // The rectangle swept by the segment across the band
+        const length = Math.hypot(b.x - a.x, b.y - a.y);
+        if (length > 0) {
+            const ox = (-(b.y - a.y) / length) * far;
+            const oy = ((b.x - a.x) / length) * far;
+            const corners = [
+                { x: a.x + ox, y: a.y + oy }, { x: b.x + ox, y: b.y + oy },
+                { x: b.x - ox, y: b.y - oy }, { x: a.x - ox, y: a.y - oy }
+            ];
+            for (let i = 0; i < 4; i++) {
+                const p = corners[i];
+                const q = corners[(i + 1) % 4];
+                if ((p.y > y) === (q.y > y)) continue;
+                const x = p.x + ((y - p.y) / (q.y - p.y)) * (q.x - p.x);
+                low = Math.min(low, x);
+                high = Math.max(high, x);
+            }
+        }
+        return low <= high ? [low, high] : null;
+    };
+
+    unionBoundary(segments).forEach(({ a, b }) => {
+        const dx = b.x - a.x;
+        const dy = b.y - a.y;
+        const lengthSquared = dx * dx + dy * dy;
+        const jStart = Math.max(0, Math.ceil((Math.min(a.y, b.y) - far - y0) / resolution));
+        const jEnd = Math.min(ny - 1, Math.floor((Math.max(a.y, b.y) + far - y0) / resolution));
+        for (let j = jStart; j <= jEnd; j++) {
+            const y = y0 + j * resolution;
+            const range = rowRange(y, a, b);
+            if (!range) continue;
+            const iStart = Math.max(0, Math.ceil((range[0] - x0) / resolution));
+            const iEnd = Math.min(nx - 1, Math.floor((range[1] - x0) / resolution));
+            for (let i = iStart; i <= iEnd; i++) {
+                const x = x0 + i * resolution;
+                let t = lengthSquared > 0 ? ((x - a.x) * dx + (y - a.y) * dy) / lengthSquared : 0;
+                t = t < 0 ? 0 : t > 1 ? 1 : t;
+                const distance = Math.hypot(x - a.x - t * dx, y - a.y - t * dy);
+                const index = j * nx + i;
+                if (field[index] > 0) {
+                    if (distance < field[index]) field[index] = distance;
+                } else if (-distance > field[index]) {
+                    field[index] = -distance;
+                }
+            }
+        }
+    });
+
+    const tolerance = options.tolerance ?? Math.min(0.01, resolution / 4);
+    return distances.map(distance => {
+        const loops = traceContours(field, nx, ny, x0, y0, resolution, distance)
+            .map(loop => simplifyLoop(loop, tolerance))
+            .filter(loop => loop.length >= 3 && Math.abs(polygonArea(loop)) > resolution * resolution);
+        return buildExPolygons(loops);
+    });
+}
+
+/**
+ * Marching squares: closed contours of field = level, with higher values on
+ * their left
+ */
+function traceContours(field: Float32Array, nx: number, ny: number, x0: number, y0: number, step: number, level: number): Polygon[] {
+    // Crossing points are keyed by grid edge: 2 * node for the edge to +x, 2 * node + 1 for the edge to +y
+    const points = new Map<number, Point2D>();
+    const next = new Map<number, number>();
+    const high = (index: number) => field[index] > level;
+
+    const point = (key: number): Point2D => {
+        let p = points.get(key);
+        if (!p) {
+            const node = key >> 1;
+            const i = node % nx;
+            const j = (node - i) / nx;
+            const other = key & 1 ? node + nx : node + 1;
+            const t = (level - field[node]) / (field[other] - field[node]);
+            p = key & 1
+                ? { x: x0 + i * step, y: y0 + (j + t) * step }
+                : { x: x0 + (i + t) * step, y: y0 + j * step };
+            points.set(key, p);
+        }
+        return p;
+    };
+
+    for (let j = 0; j < ny - 1; j++) {
+        for (let i = 0; i < nx - 1; i++) {
+            const n00 = j * nx + i;
+            const n10 = n00 + 1;
+            const n01 = n00 + nx;
+            const n11 = n01 + 1;
+            const h00 = high(n00), h10 = high(n10), h11 = high(n11), h01 = high(n01);
+            if (h00 === h10 && h10 === h11 && h11 === h01) continue;
+
+            // Cell edges counter-clockwise from the bottom, with their corner nodes
+            const bottom = 2 * n00, right = 2 * n10 + 1, top = 2 * n01, left = 2 * n00 + 1;
+            // Around the cell counter-clockwise, a contour enters where low turns high... and leaves where high turns low;
+            // with high on the left it runs from the edge where the corners go low -> high to the edge where they go high -> low
+            const corners = [h00, h10, h11, h01];
+            const edges = [bottom, right, top, left];
+            const rising: number[] = [];
+            const falling: number[] = [];
+            for (let c = 0; c < 4; c++) {
+                const from = corners[c];
+                const to = corners[(c + 1) % 4];
+                if (!from && to) rising.push(c);
+                else if (from && !to) falling.push(c);
+            }
+            if (rising.length === 1) {
+                // Walking counter-clockwise the high corners are on the left of a contour from the falling edge to the rising one
+                next.set(edges[falling[0]], edges[rising[0]]);
+            } else {
+                // Saddle: the centre value decides whether the high corners are joined
+                const centre = (field[n00] + field[n10] + field[n11] + field[n01]) / 4;
+                const joined = centre > level;
+                for (let c = 0; c < 2; c++) {
+                    const f = falling[c];
+                    // The rising edge right after this falling one cuts off the low corner between them,
+                    // the one right before cuts off the high corner between them
+                    const r = joined
+                        ? rising.find(e => e === (f + 1) % 4) ?? rising[c]
+                        : rising.find(e => (e + 1) % 4 === f) ?? rising[c];
+                    next.set(edges[f], edges[r]);
+                }
+            }
+        }
+    }
+
+    const loops: Polygon[] = [];
+    const visited = new Set<number>();
+    next.forEach((_, start) => {
+        if (visited.has(start)) return;
+        const loop: Polygon = [];
+        let key: number | undefined = start;
+        while (key !== undefined && !visited.has(key)) {
+            visited.add(key);
+            loop.push(point(key));
+            key = next.get(key);
+        }
+        if (key === start && loop.length >= 3) loops.push(loop);
+    });
+    return loops;
+}
@@ -70,4 +70,46 @@ export interface PerformanceSettings {
     enableGeometryBatching: boolean;
     enableMaterialOptimization: boolean;
     maxDrawCalls: number;
-  }
\ No newline at end of file
+  }
+  
+  /**
+   * Opzioni per la generazione della mesh di volume tetraedrica
+   */
+  export interface VolumeMeshOptions {
+    targetSize?: number;       // 0 = automatica, 1/20 della diagonale
+    minSize?: number;          // 0 = targetSize / 10
+    curvatureAngle?: number;   // angolo sotteso da un elemento su fori e raccordi (radianti)
+    growthRate?: number;
+    smoothingPasses?: number;
+    maxNodes?: number;
+  }
+  
+  /**
+   * Metriche di qualità della mesh di volume
+   */
+  export interface VolumeMeshQuality {
+    nodeCount: number;
+    elementCount: number;
+    maxAspectRatio: number;    // 1 per il tetraedro regolare
+    meanAspectRatio: number;
+    minScaledJacobian: number; // 1 per il tetraedro regolare, <= 0 se invertito
+    meanScaledJacobian: number;
+    poorElements: number;
+    invertedElements: number;
+    volume: number;
+    volumeError: number;
+    boundaryConformity: number;
+    skippedPoints: number;
+  }
+  
+  /**
+   * Mesh di volume tetraedrica restituita dall'ottimizzatore
+   */
+  export interface VolumeMeshData {
+    vertices: number[];
+    tetrahedra: number[];      // quattro indici per elemento
+    surface: number[];         // triangoli di bordo con normale uscente
+    aspectRatios: number[];
+    scaledJacobians: number[];
+    quality: VolumeMeshQuality;
+  }
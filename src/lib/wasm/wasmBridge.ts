@@ -1,6 +1,6 @@
 // src/lib/wasm/wasmBridge.ts
 import type { CADOptimizer } from 'cad-optimizer';
-import type { PerformanceSettings } from './types';
+import type { PerformanceSettings, VolumeMeshData, VolumeMeshOptions } from './types';
 
 let wasmModule: typeof import('cad-optimizer');
 let optimizer: CADOptimizer | null = null;
@@ -210,6 +210,24 @@ export async function calculateNormals(vertices: Float32Array, indices: Uint32Ar
   }
 }
 
+/**
+ * Genera una mesh di volume tetraedrica da una superficie chiusa
+ */
+export async function tetrahedralizeMesh(
+  vertices: Float32Array,
+  indices: Uint32Array,
+  options?: VolumeMeshOptions
+): Promise<VolumeMeshData> {
+  if (!isInitialized) await initWasmOptimizer();
+  
+  try {
+    return optimizer!.tetrahedralize_mesh(vertices, indices, options) as unknown as VolumeMeshData;
+  } catch (error) {
+    console.error('Failed to generate volume mesh:', error);
+    throw error;
+  }
+}
+
 /**
  * Verifica se un oggetto è visibile nel frustum della camera
  */
@@ -3,6 +3,10 @@ import { NextApiRequest, NextApiResponse } from 'next';
 import { prisma } from '@/src/lib/prisma';
 import { requireAuth } from '@/src/lib/api/auth';
 import { ProductionCostEstimate, CostSettings } from '@/src/types/costs';
+import { MachineConfigDetails } from '@/src/types/machineConfig';
+import { parseGCode } from '@/src/components/cam/toolpathUtils/fixed-gcode-parser';
+import { isKlartextProgram, parseKlartext } from '@/src/components/cam/toolpathUtils/klartextParser';
+import { CycleTimeEstimate, estimateCycleTime } from '@/src/components/cam/toolpathUtils/cycleTimeEstimator';
 
 // Helper function to get the most appropriate cost settings for the user/organization
 async function getEffectiveCostSettings(userId: string, organizationId?: string | null, costSettingsId?: string | null): Promise<CostSettings> {
@@ -82,6 +86,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       include: { 
         Material: true, 
         Tool: true,     
+        MachineConfig: true,
         project: { select: { organizationId: true } } 
       }
     });
@@ -144,6 +149,17 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         materialVolumeM3 = (toolpathData.stockDimensions.x * toolpathData.stockDimensions.y * toolpathData.stockDimensions.z) / (1000*1000*1000);
     }
 
+    // Run time from the program on the machine's kinematics; without a program, path length over feed
+    let cycleTime: CycleTimeEstimate | null = null;
+    if (toolpath.gcode) {
+        const machine = toolpath.MachineConfig?.config as Partial<MachineConfigDetails> | undefined;
+        const program = isKlartextProgram(toolpath.gcode) ? parseKlartext(toolpath.gcode) : parseGCode(toolpath.gcode);
+        cycleTime = estimateCycleTime(program, machine);
+        if (totalPathLengthMm === 0) {
+            totalPathLengthMm = cycleTime.operations.reduce((sum, operation) => sum + operation.cuttingDistance, 0);
+        }
+    }
+
     let calculatedToolWearCost = 0;
     if (relevantToolWearCost && totalPathLengthMm > 0) {
         const pathLengthM = totalPathLengthMm / 1000;
@@ -158,7 +174,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     }
 
     const feedRateMmMin = (toolpathData?.parameters?.feedrate as number) || 1000;
-    const machineTimeMinutes = totalPathLengthMm > 0 && feedRateMmMin > 0 ? (totalPathLengthMm / feedRateMmMin) : 0;
+    const machineTimeMinutes = cycleTime
+        ? cycleTime.totalTime / 60
+        : totalPathLengthMm > 0 && feedRateMmMin > 0 ? (totalPathLengthMm / feedRateMmMin) : 0;
 
     let totalSetupTimeMinutes = 0;
     let totalSetupCost = 0;
@@ -190,6 +208,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             operatorTimeMinutes,
             totalSetupTimeMinutes,
         },
+        operationTimes: cycleTime?.operations.map(operation => ({
+            ...operation,
+            machineTimeCost: (operation.total / 3600) * primaryOperationData.machineHourlyRate
+        })),
         costBreakdown: {
             material: calculatedMaterialCost,
             toolWear: calculatedToolWearCost,
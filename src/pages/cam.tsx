@@ -10,6 +10,7 @@ import GCodeEditor from 'src/components/cam/GCodeEditor';
 import MachineControl from 'src/components/cam/MachineControl';
 import StatusBar from 'src/components/cad/StatusBar';
 import MachineCycles from 'src/components/cam/MachineCycles';
+import HoleRecognitionPanel from 'src/components/cam/HoleRecognitionPanel';
 import LocalCamLibraryView from 'src/components/library/LocalCamLibraryView';
 import UnifiedLibraryModal from '../components/library/UnifiedLibraryModal';
 import { MaterialLibraryItem, ToolLibraryItem } from '@/src/hooks/useUnifiedLibrary';
@@ -63,6 +64,7 @@ import CNCControlPage from '../components/cam/FanucCncControl';
 import ToolpathGenerator3DPrintIntegration from '../components/cam/ToolpathGenerator3DPrintIntegration';
 import render3DPrinterSection from '../components/cam/render3DPrinterSection';
 import { useCAMStore } from '@/src/store/camStore';
+import { useFanucConnectionStore } from 'src/store/fanucConnectionStore';
 import ChatPanel from '../components/layout/ChatPanel';
 import ChatPanelCam from '../components/layout/ChatPanelCam';
 import ToolpathAnalysisPanel from '../components/ai/CAMAssistant/ToolpathAnalysisPanel';
@@ -115,6 +117,22 @@ export default function CAMPage() {
   // Add state for production costs manager modal
   const [showCostsManager, setShowCostsManager] = useState(false);
   const [cadElements, setCadElements] = useState<any[]>([]);
+  // Subprograms called by the G-code, downloaded through the control panel's connection
+  const fanucConnected = useFanucConnectionStore(state => state.isConnected);
+  const loadSubprograms = useFanucConnectionStore(state => state.loadSubprograms);
+  const [subprograms, setSubprograms] = useState<Record<number, string>>({});
+  useEffect(() => {
+    if (!fanucConnected || !loadSubprograms || !gcode) return;
+    let cancelled = false;
+    loadSubprograms(gcode)
+      .then(programs => {
+        if (!cancelled) setSubprograms(programs);
+      })
+      .catch(error => console.error('Error loading subprograms from the control:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [fanucConnected, loadSubprograms, gcode]);
   // Add useEffect to load toolpath from localStorage when URL contains loadToolpath parameter
   useEffect(() => {
     const loadToolpathFromStorage = async () => {
@@ -540,6 +558,7 @@ export default function CAMPage() {
                   selectedTool={selectedLibraryTool}
                   showWorkpiece={true}
                   cadElements={cadElements}
+                  subprograms={subprograms}
                   onSimulationComplete={() => {
                     // Handle simulation complete
                     setIsSimulating(false);
@@ -662,6 +681,10 @@ export default function CAMPage() {
                controllerType={selectedPostProcessor as 'fanuc' | 'heidenhain'}  
                   onCycleCodeGenerated={handleCycleCodeGenerated} 
                 />
+                <HoleRecognitionPanel
+                  controllerType={selectedPostProcessor === 'heidenhain' ? 'heidenhain' : 'fanuc'}
+                  onCycleCodeGenerated={handleCycleCodeGenerated}
+                />
                 <FixedCyclesUIRenderer gCodeLine={gcode} />
                
                 
@@ -1,6 +1,7 @@
 // src/store/cadStore.ts
 import { create } from 'zustand';
 import { useElementsStore } from './elementsStore';
+import { MachineKinematics } from '../types/machineConfig';
 
 type ViewMode = '2d' | '3d';
 type OriginPreset = 'center' | 'bottomLeft' | 'topRight' | 'bottomRight' | 'topLeft';
@@ -17,6 +18,7 @@ interface MachineConfig {
     type: string;
     maxSpindleSpeed?: number;
     maxFeedRate?: number;
+    kinematics?: Partial<MachineKinematics>;
   };
 }
 
@@ -44,6 +44,29 @@ interface DerivedWorkpieceDimensions {
   depth: number;
 }
 
+// Clamps, vises and other workholding, as boxes in work coordinates (mm)
+export type WorkholdingFixtureType = 'clamp' | 'vise' | 'plate' | 'fixture';
+
+export interface WorkholdingFixture {
+  id: string;
+  name: string;
+  type: WorkholdingFixtureType;
+  min: { x: number; y: number; z: number };
+  max: { x: number; y: number; z: number };
+}
+
+// Operations the user added to a setup, in machining order, so later operations
+// such as rest machining know the material they left
+export interface ProgrammedOperation {
+  id: string;
+  setupId: string;
+  /** Operation type and tool */
+  name: string;
+  tool: { type: string; diameter: number; radius?: number };
+  /** Tool tip moves in program coordinates */
+  points: { x: number; y: number; z: number; isRapid?: boolean }[];
+}
+
 // Interfaccia aggiornata per lo stato dello store CAM
 interface CAMStoreState {
   // Stato esistente
@@ -62,6 +85,9 @@ interface CAMStoreState {
   error: string | null; // Potrebbe essere già presente, se no aggiungilo
   workpieceElements: Element[]; // Nuova proprietà per mantenere gli elementi dal CAD
   preserveGeometry: boolean; // Flag per indicare di preservare la geometria completa
+  fixtures: WorkholdingFixture[]; // Clamps and fixtures checked for collisions during simulation
+  setupId: string; // Setup the generated operations belong to, until the part is fixtured again
+  programmedOperations: ProgrammedOperation[];
 
   // Azioni esistenti
   generateToolpath: (params: any) => void;
@@ -92,6 +118,16 @@ interface CAMStoreState {
   syncWorkpieceFromCAD: () => void;
   setWorkpieceElements: (elements: Element[]) => void;
   getWorkpieceGeometry: () => { dimensions: DerivedWorkpieceDimensions, elementId: string | null } | null;
+
+  // Workholding
+  addFixture: (fixture: Omit<WorkholdingFixture, 'id'>) => string;
+  updateFixture: (id: string, updates: Partial<Omit<WorkholdingFixture, 'id'>>) => void;
+  removeFixture: (id: string) => void;
+
+  // Operations of the setups
+  recordOperation: (operation: Omit<ProgrammedOperation, 'id' | 'setupId'>) => string;
+  removeOperation: (id: string) => void;
+  startNewSetup: () => string;
 }
 
 // Helper per calcolare le dimensioni di un elemento
@@ -138,7 +174,8 @@ const calculateElementDimensions = (element: Element): DerivedWorkpieceDimension
 const initialState: Pick<CAMStoreState, 
   'selectedWorkpieceElementId' | 'derivedWorkpieceDimensions' | 'stockAllowance' | 
   'isLatheSetup' | 'isLoading' | 'error' | 'toolpaths' | 'gcode' | 
-  'selectedEntities' | 'machineStatus' | 'machinePosition' | 'camItems' | 'workpieceElements' | 'preserveGeometry'
+  'selectedEntities' | 'machineStatus' | 'machinePosition' | 'camItems' | 'workpieceElements' | 'preserveGeometry' | 'fixtures' |
+  'setupId' | 'programmedOperations'
 > = {
   selectedWorkpieceElementId: null,
   derivedWorkpieceDimensions: null,
@@ -155,6 +192,9 @@ const initialState: Pick<CAMStoreState,
   camItems: [],
   workpieceElements: [], // Inizializza la nuova proprietà
   preserveGeometry: true, // Per default, preserva la geometria completa
+  fixtures: [],
+  setupId: uuidv4(),
+  programmedOperations: [],
 };
 
 // Creazione dello store Zustand aggiornato
@@ -287,6 +327,34 @@ export const useCAMStore = create<CAMStoreState>((set, get) => ({
       )
     }));
   },
+  addFixture: (fixture) => {
+    const newFixture: WorkholdingFixture = { id: uuidv4(), ...fixture };
+    set(state => ({ fixtures: [...state.fixtures, newFixture] }));
+    return newFixture.id;
+  },
+  updateFixture: (id, updates) => {
+    set(state => ({
+      fixtures: state.fixtures.map(fixture =>
+        fixture.id === id ? { ...fixture, ...updates } : fixture
+      )
+    }));
+  },
+  removeFixture: (id) => {
+    set(state => ({ fixtures: state.fixtures.filter(fixture => fixture.id !== id) }));
+  },
+  recordOperation: (operation) => {
+    const recorded: ProgrammedOperation = { id: uuidv4(), setupId: get().setupId, ...operation };
+    set(state => ({ programmedOperations: [...state.programmedOperations, recorded] }));
+    return recorded.id;
+  },
+  removeOperation: (id) => {
+    set(state => ({ programmedOperations: state.programmedOperations.filter(operation => operation.id !== id) }));
+  },
+  startNewSetup: () => {
+    const setupId = uuidv4();
+    set({ setupId });
+    return setupId;
+  },
   generateToolpath: (params) => {
     const { selectedEntities } = get();
     const elements = useElementsStore.getState().elements;
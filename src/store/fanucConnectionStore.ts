@@ -0,0 +1,16 @@
+// src/store/fanucConnectionStore.ts
+import { create } from 'zustand';
+
+// The connection opened by the Fanuc control panel, shared with the pages that
+// read from the control so they don't open a socket of their own
+interface FanucConnectionState {
+  isConnected: boolean;
+  loadSubprograms: ((gcode: string) => Promise<Record<number, string>>) | null;
+  setConnection: (connection: Pick<FanucConnectionState, 'isConnected' | 'loadSubprograms'>) => void;
+}
+
+export const useFanucConnectionStore = create<FanucConnectionState>((set) => ({
+  isConnected: false,
+  loadSubprograms: null,
+  setConnection: (connection) => set(connection),
+}));
@@ -1,5 +1,6 @@
 // src/types/CAMTypes.ts
 import { AIModelType } from './AITypes';
+import { OperationTime } from '../components/cam/toolpathUtils/cycleTimeEstimator';
 
 // Tipi per percorsi utensile (toolpaths)
 export interface ToolpathPoint {
@@ -222,6 +223,7 @@ export interface CostEstimation {
   setupTime: number;           // in minutes
   machiningTime: number;       // in minutes
   totalTime: number;           // in minutes
+  operations?: OperationTime[]; // Tempo ciclo per operazione, in secondi
   toolsUsed: {
     toolId: string;
     usageTime: number;         // in minutes
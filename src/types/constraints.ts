@@ -31,6 +31,7 @@ export interface Constraint {
   active: boolean;
   priority: number;     // For determining constraint resolution order
   parameters?: Record<string, any>;
+  expression?: string;  // Drives the value from named parameters, e.g. "2 * hole_d + 10 mm"
 }
 
 // Geometric constraint interfaces
@@ -96,6 +97,8 @@ export interface ParametricParameter {
   max?: number;
   description?: string;
   constraints: string[]; // IDs of constraints using this parameter
+  expression?: string; // e.g. "2 * hole_d + 10 mm"; parameters without one are driving values
+  error?: string; // Why the expression could not be evaluated
 }
 
 // Relationship between parameters
@@ -104,4 +107,62 @@ export interface ParametricEquation {
   resultParameterId: string;
   expression: string; // e.g., "p1 + p2 * 2"
   dependencies: string[]; // IDs of parameters used in expression
-} 
\ No newline at end of file
+}
+
+// Element property driven by a parameter expression
+export interface ParametricBinding {
+  id: string;
+  elementId: string;
+  property: string; // e.g. "radius" or "width"
+  expression: string;
+  unit?: string; // Unit the property is stored in; lengths default to mm
+  error?: string;
+}
+
+// Named set of parameter values, one member of a family of parts
+export interface ParameterConfiguration {
+  id: string;
+  name: string;
+  values: Record<string, string>; // Parameter name -> expression or value with unit
+}
+
+// How completely the constraints of a sketch determine its geometry
+export type SketchStatus =
+  | 'under-constrained'
+  | 'fully-constrained'
+  | 'over-constrained'
+  | 'invalid';
+
+// Outcome of solving one sketch: a group of elements linked by constraints
+export interface SketchSolveResult {
+  elementIds: string[];
+  constraintIds: string[];
+  status: SketchStatus;
+  converged: boolean;
+  iterations: number;
+  residual: number;            // Largest constraint error left after solving
+  degreesOfFreedom: number;    // Element parameters not fixed by the constraints
+  entityDegreesOfFreedom: Record<string, number>; // Remaining freedom of each element
+  redundantConstraintIds: string[];   // Satisfied, but implied by other constraints
+  conflictingConstraintIds: string[]; // Cannot be satisfied together with the others
+  error?: string;
+}
+
+// Constraint state of a single element, used for colour coding
+export type EntityConstraintState = 'under-constrained' | 'fully-constrained' | 'conflicting';
+
+export interface EntityDegreesOfFreedom {
+  elementId: string;
+  degreesOfFreedom: number;
+  parameterCount: number;      // Degrees of freedom of the element on its own
+  state: EntityConstraintState;
+}
+
+// Degrees-of-freedom analysis of all sketch elements
+export interface DegreesOfFreedomAnalysis {
+  entities: EntityDegreesOfFreedom[];
+  sketches: SketchSolveResult[];
+  totalDegreesOfFreedom: number;
+  redundantConstraintIds: string[];
+  conflictingConstraintIds: string[];
+}
@@ -1,4 +1,6 @@
 // src/types/costs.ts
+import { OperationTime } from '@/src/components/cam/toolpathUtils/cycleTimeEstimator';
+
 export interface ToolWearCost {
   id: string;
   toolId: string;
@@ -52,6 +54,7 @@ export interface ProductionCostEstimate {
     toolId?: string; // Added optional based on service type
     materialId?: string; // Added optional based on service type
     operationCostId?: string; // Added optional based on service type
+    operationTimes?: (OperationTime & { machineTimeCost: number })[]; // Run time per operation, in seconds
     [key: string]: any;
   };
   operationCostId?: string; // Added optional based on service type
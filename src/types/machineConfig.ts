@@ -8,11 +8,34 @@ export interface WorkVolume {
   z: number;
 }
 
+export interface AxisLimits {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Dynamics used for cycle-time estimation
+export interface MachineKinematics {
+  /** Rapid traverse per axis, also the axis speed limit when feeding (mm/min) */
+  rapidRates: AxisLimits;
+  /** Maximum acceleration per axis (mm/s²) */
+  accelerations: AxisLimits;
+  /** Jerk limit (mm/s³); 0 for trapezoidal speed profiles */
+  jerk: number;
+  /** Deviation from the path the look-ahead may take at corners (mm) */
+  cornerTolerance: number;
+  /** Chip-to-chip tool change time (s) */
+  toolChangeTime: number;
+  /** Spindle acceleration and braking (rpm/s) */
+  spindleAcceleration: number;
+}
+
 export interface MachineConfigDetails {
   workVolume: WorkVolume;
   maxSpindleSpeed: number;
   maxFeedRate: number;
   controller?: string;
+  kinematics?: Partial<MachineKinematics>;
   additionalSettings?: Record<string, any>;
 }
 
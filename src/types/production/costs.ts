@@ -1,4 +1,5 @@
 // src/types/production/costs.ts
+import { OperationTime } from '@/src/components/cam/toolpathUtils/cycleTimeEstimator';
 
 /**
  * Interfaccia per i costi di usura utensili
@@ -71,6 +72,7 @@ export interface ProductionCostEstimate {
     toolId?: string;
     materialId?: string;
     operationCostId?: string;
+    operationTimes?: (OperationTime & { machineTimeCost: number })[]; // Run time per operation, in seconds
     [key: string]: any;
   };
   operationCostId?: string | null;